@@ -0,0 +1,278 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Loader2, AlertCircle, Bell, BellOff, CheckCheck, Mail, MailOpen, Trash2 } from "lucide-react";
+import {
+  useNotifications,
+  useMarkNotifications,
+  useDeleteNotifications,
+  type AppNotification,
+  type NotificationFilters,
+} from "@/hooks/useNotifications";
+import { usePriceAlerts } from "@/hooks/usePriceAlerts";
+import { useAppStore } from "@/stores/useAppStore";
+import NotificationKindIcon from "@/components/alerts/NotificationKindIcon";
+import { NOTIFICATION_KINDS, NOTIFICATION_KIND_LABELS, type NotificationKind } from "@/lib/constants";
+import { relativeDate, cn } from "@/lib/utils";
+import { ErrorBoundary } from "@/components/ui/ErrorBoundary";
+
+const STATUS_OPTIONS: { value: NonNullable<NotificationFilters["status"]>; label: string }[] = [
+  { value: "all", label: "Todas" },
+  { value: "unread", label: "No leidas" },
+  { value: "read", label: "Leidas" },
+];
+
+function NotificationRow({
+  notification,
+  selected,
+  onToggle,
+  onOpen,
+}: {
+  notification: AppNotification;
+  selected: boolean;
+  onToggle: () => void;
+  onOpen: () => void;
+}) {
+  const unread = !notification.readAt;
+
+  return (
+    <div
+      className={cn(
+        "flex items-start gap-3 px-4 py-3 border-b border-zinc-800/60 last:border-0 transition-colors",
+        selected ? "bg-purple-500/5" : "hover:bg-zinc-800/30"
+      )}
+    >
+      <input
+        type="checkbox"
+        checked={selected}
+        onChange={onToggle}
+        aria-label={`Seleccionar ${notification.title}`}
+        className="mt-2 h-4 w-4 rounded border-zinc-600 bg-zinc-800 accent-purple-500"
+      />
+      <NotificationKindIcon kind={notification.kind} />
+      <button type="button" onClick={onOpen} className="flex-1 min-w-0 text-left">
+        <div className="flex items-center gap-2">
+          {unread && <span className="h-2 w-2 rounded-full bg-purple-400 shrink-0" aria-label="No leida" />}
+          <p className={cn("text-sm truncate", unread ? "font-semibold text-zinc-100" : "text-zinc-300")}>
+            {notification.title}
+          </p>
+        </div>
+        {notification.body && (
+          <p className="text-xs text-zinc-500 mt-0.5 line-clamp-2">{notification.body}</p>
+        )}
+        <p className="text-[11px] text-zinc-600 mt-1">
+          {NOTIFICATION_KIND_LABELS[notification.kind]} · {relativeDate(notification.createdAt)}
+        </p>
+      </button>
+      {notification.link && (
+        <Link
+          href={notification.link}
+          onClick={onOpen}
+          className="mt-1 text-xs text-purple-400 hover:text-purple-300 shrink-0"
+        >
+          Ver
+        </Link>
+      )}
+    </div>
+  );
+}
+
+export default function AlertsPage() {
+  const [kind, setKind] = useState<NotificationKind | undefined>();
+  const [status, setStatus] = useState<NonNullable<NotificationFilters["status"]>>("all");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useNotifications({ kind, status });
+  const { data: alertsData } = usePriceAlerts();
+  const markNotifications = useMarkNotifications();
+  const deleteNotifications = useDeleteNotifications();
+  const openPriceAlerts = useAppStore((s) => s.openPriceAlertsDialog);
+
+  const notifications = useMemo(() => data?.notifications ?? [], [data]);
+  const activeAlerts = alertsData?.alerts.filter((a) => a.is_active).length ?? 0;
+
+  // Only count selections still visible under the current filters
+  const visibleSelected = notifications.filter((n) => selected.has(n.id)).map((n) => n.id);
+  const allSelected = notifications.length > 0 && visibleSelected.length === notifications.length;
+  const busy = markNotifications.isPending || deleteNotifications.isPending;
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(notifications.map((n) => n.id)));
+  };
+
+  const markSelected = async (read: boolean) => {
+    await markNotifications.mutateAsync({ ids: visibleSelected, read });
+    setSelected(new Set());
+  };
+
+  const deleteSelected = async () => {
+    await deleteNotifications.mutateAsync(visibleSelected);
+    setSelected(new Set());
+  };
+
+  const open = (notification: AppNotification) => {
+    if (!notification.readAt) markNotifications.mutate({ ids: [notification.id], read: true });
+  };
+
+  return (
+    <ErrorBoundary>
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-bold">Alertas</h1>
+            <p className="text-sm text-zinc-500">
+              Alertas de precio, sincronizaciones, ordenes, seguridad y reportes
+            </p>
+          </div>
+
+          <button
+            type="button"
+            onClick={openPriceAlerts}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg border border-purple-500/40 bg-purple-500/10 text-sm font-medium text-purple-300 hover:bg-purple-500/20 transition-colors"
+          >
+            <Bell className="h-4 w-4" />
+            Alertas de precio
+            <span className="px-1.5 py-0.5 rounded bg-purple-500/20 text-xs font-mono">{activeAlerts}</span>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-1.5" role="tablist" aria-label="Tipo de notificacion">
+            {[undefined, ...NOTIFICATION_KINDS].map((k) => (
+              <button
+                key={k ?? "all"}
+                type="button"
+                role="tab"
+                aria-selected={kind === k}
+                onClick={() => setKind(k)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors",
+                  kind === k
+                    ? "border-purple-500/40 bg-purple-500/15 text-purple-300"
+                    : "border-zinc-800 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50"
+                )}
+              >
+                {k ? NOTIFICATION_KIND_LABELS[k] : "Todas"}
+              </button>
+            ))}
+          </div>
+
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as typeof status)}
+            aria-label="Estado"
+            className="px-3 py-2 rounded-lg bg-zinc-800 text-sm font-medium
+                       border border-zinc-700 focus:outline-none focus:border-zinc-500"
+          >
+            {STATUS_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="rounded-xl border border-zinc-800/80 bg-zinc-900/50">
+          {/* Bulk actions */}
+          <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-zinc-800">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAll}
+              disabled={notifications.length === 0}
+              aria-label="Seleccionar todas"
+              className="h-4 w-4 rounded border-zinc-600 bg-zinc-800 accent-purple-500"
+            />
+            {visibleSelected.length > 0 ? (
+              <>
+                <span className="text-xs text-zinc-400 mr-2">
+                  {visibleSelected.length} seleccionada{visibleSelected.length === 1 ? "" : "s"}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => markSelected(true)}
+                  disabled={busy}
+                  className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs text-zinc-300 hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  <MailOpen className="h-3.5 w-3.5" /> Marcar leidas
+                </button>
+                <button
+                  type="button"
+                  onClick={() => markSelected(false)}
+                  disabled={busy}
+                  className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs text-zinc-300 hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  <Mail className="h-3.5 w-3.5" /> Marcar no leidas
+                </button>
+                <button
+                  type="button"
+                  onClick={deleteSelected}
+                  disabled={busy}
+                  className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+                >
+                  <Trash2 className="h-3.5 w-3.5" /> Eliminar
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                onClick={() => markNotifications.mutate({ all: true, read: true })}
+                disabled={busy || !data?.unreadCount}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs text-zinc-400 hover:bg-zinc-800 disabled:opacity-50"
+              >
+                <CheckCheck className="h-3.5 w-3.5" /> Marcar todo como leido
+                {!!data?.unreadCount && <span className="text-purple-400">({data.unreadCount})</span>}
+              </button>
+            )}
+            {busy && <Loader2 className="h-3.5 w-3.5 animate-spin text-zinc-500 ml-auto" />}
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-purple-400" />
+              <span className="ml-2 text-sm text-zinc-500">Cargando notificaciones...</span>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center justify-center py-12 text-red-400">
+              <AlertCircle className="h-5 w-5 mr-2" />
+              <span className="text-sm">{error.message}</span>
+            </div>
+          )}
+
+          {data && notifications.length === 0 && (
+            <div className="text-center py-12 text-zinc-500">
+              <BellOff className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No hay notificaciones</p>
+            </div>
+          )}
+
+          {notifications.map((n) => (
+            <NotificationRow
+              key={n.id}
+              notification={n}
+              selected={selected.has(n.id)}
+              onToggle={() => toggle(n.id)}
+              onOpen={() => open(n)}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+    </ErrorBoundary>
+  );
+}
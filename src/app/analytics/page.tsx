@@ -3,11 +3,14 @@
 import { useState } from "react";
 import { BarChart3 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { BENCHMARK_IDS, BENCHMARK_LABELS, type BenchmarkId } from "@/lib/benchmarks";
 import { ErrorBoundary } from "@/components/ui/ErrorBoundary";
 import { AllocationDonut } from "@/components/analytics/AllocationDonut";
 import { PortfolioValueChart } from "@/components/analytics/PortfolioValueChart";
 import { TopMoversChart } from "@/components/analytics/TopMoversChart";
 import { CategoryBreakdownChart } from "@/components/analytics/CategoryBreakdownChart";
+import { PerformancePanel } from "@/components/analytics/PerformancePanel";
+import { RiskPanel } from "@/components/analytics/RiskPanel";
 
 const PERIODS = [
   { label: "7D", days: 7 },
@@ -38,6 +41,12 @@ function ChartCard({
 
 export default function AnalyticsPage() {
   const [selectedPeriod, setSelectedPeriod] = useState(90);
+  const [benchmarks, setBenchmarks] = useState<BenchmarkId[]>([]);
+
+  const toggleBenchmark = (id: BenchmarkId) =>
+    setBenchmarks((prev) =>
+      prev.includes(id) ? prev.filter((b) => b !== id) : [...prev, id]
+    );
 
   return (
     <div className="mx-auto max-w-7xl px-4 sm:px-6 py-4 sm:py-8 space-y-6">
@@ -52,6 +61,20 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {/* Returns net of deposits and withdrawals */}
+      <ErrorBoundary>
+        <ChartCard title="Performance (TWR / XIRR)">
+          <PerformancePanel />
+        </ChartCard>
+      </ErrorBoundary>
+
+      {/* Volatility, drawdown, risk-adjusted return and VaR */}
+      <ErrorBoundary>
+        <ChartCard title="Risk">
+          <RiskPanel />
+        </ChartCard>
+      </ErrorBoundary>
+
       {/* Chart Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
         {/* Allocation Donut */}
@@ -84,7 +107,24 @@ export default function AnalyticsPage() {
               </div>
             }
           >
-            <PortfolioValueChart days={selectedPeriod} />
+            <div className="flex flex-wrap items-center gap-1 mb-3">
+              <span className="text-[11px] text-zinc-500 mr-1">vs</span>
+              {BENCHMARK_IDS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => toggleBenchmark(id)}
+                  className={cn(
+                    "px-2 py-0.5 rounded-full border text-[11px] font-medium transition-colors",
+                    benchmarks.includes(id)
+                      ? "border-blue-500/40 bg-blue-500/15 text-blue-300"
+                      : "border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-700"
+                  )}
+                >
+                  {BENCHMARK_LABELS[id]}
+                </button>
+              ))}
+            </div>
+            <PortfolioValueChart days={selectedPeriod} benchmarks={benchmarks} />
           </ChartCard>
         </ErrorBoundary>
 
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { getAuthUser } from "@/lib/auth";
 import { createAlertSchema, updateAlertSchema, parseBody } from "@/lib/api-schemas";
+import { alertRuleIssue, DEFAULT_COOLDOWN_MINUTES } from "@/lib/alerts";
 
 // GET /api/alerts - List all alerts for current user
 export async function GET() {
@@ -39,9 +40,9 @@ export async function POST(req: NextRequest) {
   const [body, validationError] = parseBody(createAlertSchema, raw);
   if (validationError) return validationError;
 
-  const { ticker, condition, targetPrice } = body;
+  const { ticker, condition, targetPrice, direction, threshold, period, cooldownMinutes } = body;
 
-  // Get current price from user's assets
+  // Get current price from user's assets (also the percent_change reference)
   const { data: asset } = await supabase
     .from("assets")
     .select("current_price")
@@ -55,7 +56,12 @@ export async function POST(req: NextRequest) {
       user_id: user.id,
       ticker,
       condition,
-      target_price: targetPrice,
+      target_price: targetPrice ?? null,
+      direction: direction ?? null,
+      threshold: threshold ?? null,
+      period: period ?? null,
+      reference_price: asset?.current_price || null,
+      cooldown_minutes: cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
       current_price: asset?.current_price || null,
       is_active: true,
     })
@@ -83,12 +89,12 @@ export async function PATCH(req: NextRequest) {
   const [body, validationError] = parseBody(updateAlertSchema, raw);
   if (validationError) return validationError;
 
-  const { id, condition, targetPrice } = body;
+  const { id, condition, targetPrice, direction, threshold, period, cooldownMinutes } = body;
 
   // Verify ownership
   const { data: existing } = await supabase
     .from("price_alerts")
-    .select("id")
+    .select("id, condition, target_price, direction, threshold")
     .eq("id", id)
     .eq("user_id", user.id)
     .single();
@@ -97,10 +103,28 @@ export async function PATCH(req: NextRequest) {
     return NextResponse.json({ error: "Alert not found" }, { status: 404 });
   }
 
-  // Build update object
-  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  // The merged rule must still be complete
+  const issue = alertRuleIssue({
+    condition: condition ?? existing.condition,
+    targetPrice: targetPrice !== undefined ? targetPrice : existing.target_price,
+    direction: direction !== undefined ? direction : existing.direction,
+    threshold: threshold !== undefined ? threshold : existing.threshold,
+  });
+  if (issue) {
+    return NextResponse.json({ error: issue }, { status: 400 });
+  }
+
+  // Build update object; an edited rule starts armed again
+  const updates: Record<string, unknown> = {
+    updated_at: new Date().toISOString(),
+    is_armed: true,
+  };
   if (condition) updates.condition = condition;
   if (targetPrice !== undefined) updates.target_price = targetPrice;
+  if (direction !== undefined) updates.direction = direction;
+  if (threshold !== undefined) updates.threshold = threshold;
+  if (period !== undefined) updates.period = period;
+  if (cooldownMinutes !== undefined) updates.cooldown_minutes = cooldownMinutes;
 
   const { data: alert, error } = await supabase
     .from("price_alerts")
@@ -50,6 +50,9 @@ export async function POST(req: NextRequest) {
       currency,
       quantity: quantity.toString(),
       averagePrice: averagePrice.toString(),
+      // The initial position becomes the asset's opening lot in the ledger
+      openingQuantity: quantity.toString(),
+      openingAveragePrice: averagePrice.toString(),
     })
     .returning();
 
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { db } from "@/db";
+import { exchangeRates } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getHistoricalPrices, type TimePeriod } from "@/services/yahoo/client";
+import { fetchDollarRateHistory, fetchMacroData } from "@/services/macro/client";
+import type { ValuePoint } from "@/lib/performance";
+import { loadCashFlows, loadSnapshotInputs } from "@/lib/portfolio-history";
+import {
+  BENCHMARK_IDS,
+  BENCHMARK_LABELS,
+  alignToDates,
+  benchmarkStats,
+  plazoFijoSeries,
+  portfolioIndex,
+  rebase,
+  type BenchmarkId,
+} from "@/lib/benchmarks";
+
+async function yahooCloses(
+  symbol: string,
+  category: string,
+  period: TimePeriod
+): Promise<ValuePoint[]> {
+  const { history } = await getHistoricalPrices(symbol, category, period);
+  return history
+    .filter((h) => (h.adjClose ?? h.close) > 0)
+    .map((h) => ({
+      date: new Date(h.date).toISOString().slice(0, 10),
+      value: h.adjClose ?? h.close,
+    }));
+}
+
+/**
+ * GET /api/benchmarks?days=90&ids=MERVAL,SPY
+ *
+ * The portfolio's time-weighted index and the selected benchmarks, all in
+ * USD and rebased to 100 on the window's first snapshot, with alpha, beta
+ * and tracking error per benchmark. MERVAL and plazo fijo are converted at
+ * the historical MEP rate; plazo fijo compounds the current BCRA rate.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get("days") || "90", 10) || 90, 1),
+      365
+    );
+    const ids = (searchParams.get("ids") || "")
+      .split(",")
+      .filter((id): id is BenchmarkId => (BENCHMARK_IDS as readonly string[]).includes(id));
+
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    const sinceStr = since.toISOString().split("T")[0];
+
+    const [snapshots, { flows, warnings }] = await Promise.all([
+      loadSnapshotInputs(user.id, sinceStr),
+      loadCashFlows(user.id),
+    ]);
+
+    const dates = snapshots.map((s) => s.date);
+    const portfolio = portfolioIndex(
+      snapshots.map((s) => ({ date: s.date, value: s.totalValue })),
+      flows
+    );
+
+    if (dates.length < 2) {
+      return NextResponse.json({ portfolio, benchmarks: [], warnings });
+    }
+
+    // Yahoo periods are coarse; fetch a little more than the window
+    const period: TimePeriod = days <= 30 ? "1M" : "1Y";
+
+    // MEP history (falls back to today's stored MEP rate)
+    let mep: ValuePoint[] = [];
+    if (ids.some((id) => id === "MERVAL" || id === "PLAZO_FIJO")) {
+      mep = (await fetchDollarRateHistory("bolsa")).map((r) => ({ date: r.date, value: r.sell }));
+      if (mep.length === 0) {
+        const stored = await db.query.exchangeRates.findFirst({
+          where: eq(exchangeRates.pair, "USD_ARS_MEP"),
+        });
+        if (stored) {
+          mep = [{ date: dates[0], value: Number(stored.sellRate) }];
+          warnings.push("MEP history unavailable: converted at the current MEP rate");
+        }
+      }
+    }
+    const mepOnDates = alignToDates(mep, dates);
+
+    const benchmarks = await Promise.all(
+      ids.map(async (id) => {
+        let values: (number | null)[] = [];
+
+        switch (id) {
+          case "MERVAL": {
+            const merval = alignToDates(await yahooCloses("^MERV", "index", period), dates);
+            values = merval.map((v, i) => {
+              const rate = mepOnDates[i];
+              return v !== null && rate ? v / rate : null;
+            });
+            break;
+          }
+          case "SPY":
+            values = alignToDates(await yahooCloses("SPY", "index", period), dates);
+            break;
+          case "BTC":
+            values = alignToDates(await yahooCloses("BTC", "crypto", period), dates);
+            break;
+          case "USD_MEP":
+            // The portfolio is measured in USD: holding dollars is flat
+            values = dates.map(() => 1);
+            break;
+          case "PLAZO_FIJO": {
+            const { interestRate } = await fetchMacroData();
+            if (interestRate === null) {
+              warnings.push("BCRA rate unavailable: plazo fijo skipped");
+            } else {
+              values = plazoFijoSeries(dates, interestRate, mepOnDates);
+            }
+            break;
+          }
+        }
+
+        const points = rebase(dates, values);
+        if (points.length === 0 && id !== "PLAZO_FIJO") {
+          warnings.push(`No price history for ${BENCHMARK_LABELS[id]}`);
+        }
+
+        return {
+          id,
+          label: BENCHMARK_LABELS[id],
+          points,
+          stats: benchmarkStats(portfolio, points),
+        };
+      })
+    );
+
+    return NextResponse.json({ portfolio, benchmarks, warnings });
+  } catch (error) {
+    console.error("[Benchmarks] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to compute benchmarks" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,23 @@
 import { NextResponse } from "next/server";
-import { BinanceClient, type BinanceCredentials } from "@/services/binance";
+import {
+  BinanceClient,
+  type BinanceCredentials,
+  type BinanceFuturesPosition,
+  type BinanceWallet,
+} from "@/services/binance";
 import { getAuthUser } from "@/lib/auth";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import { decryptCredentials } from "@/lib/crypto";
-import { db } from "@/db";
-import { userConnections } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { loadOpenLotCostBasis } from "@/lib/ledger";
+import { cryptoName } from "@/services/shared/mappers";
+import { findBrokerConnections } from "@/lib/broker-connections";
 
 import type { BrokerPortfolioAsset } from "@/types/portfolio";
 
-// Binance assets extend the broker type with a locked field
+// Binance assets extend the broker type with a locked field and wallets
 interface BinancePortfolioAsset extends BrokerPortfolioAsset {
   locked: number; // Units in open orders
+  wallets: Record<BinanceWallet, number>; // Units per wallet
 }
 
 export async function GET() {
@@ -27,57 +33,80 @@ export async function GET() {
     const rateLimited = await checkRateLimit(user.id, "binance-portfolio", RATE_LIMITS.default);
     if (rateLimited) return rateLimited;
 
-    // Get Binance credentials
-    const connection = await db
-      .select()
-      .from(userConnections)
-      .where(
-        and(
-          eq(userConnections.userId, user.id),
-          eq(userConnections.provider, "binance")
-        )
-      )
-      .limit(1);
-
-    if (connection.length === 0) {
+    const connections = await findBrokerConnections(user.id, "binance");
+
+    if (connections.length === 0) {
       return NextResponse.json({ connected: false, assets: [] });
     }
 
-    const credentials: BinanceCredentials = decryptCredentials<BinanceCredentials>(
-      connection[0].credentials
-    );
-    const client = new BinanceClient(credentials);
-
-    // Fetch portfolio from Binance
-    const binanceAssets = await client.getPortfolio();
-
-    // Filter out tiny dust balances (less than $1)
-    const significantAssets = binanceAssets.filter((a) => a.usdValue >= 1);
-
-    // Map to our format
-    const assets: BinancePortfolioAsset[] = significantAssets.map((asset) => ({
-      id: `binance-${asset.asset}`,
-      ticker: asset.asset,
-      name: getCryptoName(asset.asset),
-      category: "crypto",
-      currency: "USD",
-      quantity: asset.total,
-      averagePrice: 0, // Binance spot API doesn't provide cost basis
-      currentPrice: asset.price,
-      currentValue: asset.usdValue,
-      pnl: 0, // Can't calculate without cost basis
-      pnlPercent: 0,
-      locked: asset.locked,
-    }));
+    const assets: BinancePortfolioAsset[] = [];
+    const futuresPositions: (BinanceFuturesPosition & { accountId: string })[] = [];
+
+    for (const connection of connections) {
+      const credentials: BinanceCredentials = decryptCredentials<BinanceCredentials>(
+        connection.credentials
+      );
+      const client = new BinanceClient(credentials);
+
+      // Binance reports no cost basis; the ledger built from synced trades does
+      const [portfolio, costBasis] = await Promise.all([
+        client.getPortfolio(),
+        loadOpenLotCostBasis(user.id, "crypto", connection.id),
+      ]);
+
+      // Filter out tiny dust balances (less than $1)
+      const significantAssets = portfolio.assets.filter((a) => a.usdValue >= 1);
+
+      // Map to our format
+      for (const asset of significantAssets) {
+        // 0 when no trades were synced for the asset (e.g. deposits only)
+        const averagePrice = costBasis.get(asset.asset.toUpperCase()) ?? 0;
+        const pnl = averagePrice > 0 ? (asset.price - averagePrice) * asset.total : 0;
+        assets.push({
+          id: `binance-${connection.id}-${asset.asset}`,
+          ticker: asset.asset,
+          name: cryptoName(asset.asset),
+          category: "crypto",
+          currency: "USD",
+          quantity: asset.total,
+          averagePrice,
+          currentPrice: asset.price,
+          currentValue: asset.usdValue,
+          pnl,
+          pnlPercent: averagePrice > 0 ? ((asset.price - averagePrice) / averagePrice) * 100 : 0,
+          locked: asset.locked,
+          wallets: asset.wallets,
+          accountId: connection.id,
+          accountLabel: connection.label,
+        });
+      }
+
+      futuresPositions.push(
+        ...portfolio.futuresPositions.map((p) => ({ ...p, accountId: connection.id }))
+      );
+    }
 
     // Calculate totals
     const totalValue = assets.reduce((sum, a) => sum + a.currentValue, 0);
+    const walletTotals: Record<BinanceWallet, number> = {
+      spot: 0,
+      earn: 0,
+      staking: 0,
+      futures: 0,
+    };
+    for (const asset of assets) {
+      for (const wallet of Object.keys(walletTotals) as BinanceWallet[]) {
+        walletTotals[wallet] += asset.wallets[wallet] * asset.currentPrice;
+      }
+    }
 
     return NextResponse.json({
       connected: true,
       assets,
+      futuresPositions,
       totals: {
         usd: totalValue,
+        wallets: walletTotals,
       },
     });
   } catch (error) {
@@ -102,53 +131,3 @@ export async function GET() {
     return NextResponse.json({ error: errorMsg }, { status: 500 });
   }
 }
-
-// Common crypto name mapping
-function getCryptoName(symbol: string): string {
-  const names: Record<string, string> = {
-    BTC: "Bitcoin",
-    ETH: "Ethereum",
-    BNB: "Binance Coin",
-    SOL: "Solana",
-    XRP: "Ripple",
-    ADA: "Cardano",
-    DOGE: "Dogecoin",
-    DOT: "Polkadot",
-    MATIC: "Polygon",
-    LINK: "Chainlink",
-    AVAX: "Avalanche",
-    UNI: "Uniswap",
-    ATOM: "Cosmos",
-    LTC: "Litecoin",
-    USDT: "Tether USD",
-    USDC: "USD Coin",
-    BUSD: "Binance USD",
-    DAI: "Dai Stablecoin",
-    SHIB: "Shiba Inu",
-    ARB: "Arbitrum",
-    OP: "Optimism",
-    APT: "Aptos",
-    NEAR: "NEAR Protocol",
-    FIL: "Filecoin",
-    ICP: "Internet Computer",
-    VET: "VeChain",
-    ALGO: "Algorand",
-    SAND: "The Sandbox",
-    MANA: "Decentraland",
-    AXS: "Axie Infinity",
-    AAVE: "Aave",
-    CRV: "Curve DAO",
-    MKR: "Maker",
-    SNX: "Synthetix",
-    COMP: "Compound",
-    SUSHI: "SushiSwap",
-    YFI: "yearn.finance",
-    "1INCH": "1inch Network",
-    ENS: "Ethereum Name Service",
-    LDO: "Lido DAO",
-    RPL: "Rocket Pool",
-    FDUSD: "First Digital USD",
-  };
-
-  return names[symbol] || symbol;
-}
@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextResponse } from "next/server";
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockGetAuthUser = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  getAuthUser: () => mockGetAuthUser(),
+}));
+
+const mockCheckRateLimit = vi.fn();
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  RATE_LIMITS: {
+    trade: { limit: 5, windowSeconds: 60 },
+  },
+}));
+
+const mockDecryptCredentials = vi.fn();
+const mockEncryptCredentials = vi.fn();
+vi.mock("@/lib/crypto", () => ({
+  decryptCredentials: (...args: unknown[]) => mockDecryptCredentials(...args),
+  encryptCredentials: (...args: unknown[]) => mockEncryptCredentials(...args),
+}));
+
+const mockNotify = vi.fn();
+vi.mock("@/lib/notifications", () => ({
+  notify: (...args: unknown[]) => mockNotify(...args),
+}));
+
+const mockTrackPlacedOrder = vi.fn();
+vi.mock("@/lib/order-tracker", () => ({
+  trackPlacedOrder: (...args: unknown[]) => mockTrackPlacedOrder(...args),
+  // Tracked orders' accounts resolve like any other connection lookup
+  findOrderConnection: (...args: unknown[]) => mockFindFirst(...args),
+}));
+
+const mockIngestExternalTrades = vi.fn();
+vi.mock("@/lib/broker-ingest", () => ({
+  ingestExternalTrades: (...args: unknown[]) => mockIngestExternalTrades(...args),
+}));
+
+// Mock BinanceClient — must use `class` syntax for `new BinanceClient(...)` to work
+const mockPlaceOrder = vi.fn();
+const mockCancelOrder = vi.fn();
+const mockGetAccount = vi.fn();
+
+vi.mock("@/services/binance", () => ({
+  BinanceClient: class MockBinanceClient {
+    constructor() {}
+    placeOrder = mockPlaceOrder;
+    cancelOrder = mockCancelOrder;
+    getAccount = mockGetAccount;
+  },
+}));
+
+const mockFindFirst = vi.fn();
+const mockInsertValues = vi.fn();
+
+vi.mock("@/db", () => ({
+  db: {
+    query: {
+      userConnections: {
+        findFirst: (...args: unknown[]) => mockFindFirst(...args),
+      },
+    },
+    insert: () => ({
+      // Awaitable directly or through .returning()
+      values: (...args: unknown[]) =>
+        Object.assign(Promise.resolve(mockInsertValues(...args)), {
+          returning: () => Promise.resolve([{ id: "audit-1" }]),
+        }),
+    }),
+  },
+}));
+
+vi.mock("@/db/schema", () => ({
+  userConnections: {
+    userId: "userId",
+    provider: "provider",
+    id: "id",
+  },
+  tradeAuditLog: { id: "id" },
+}));
+
+vi.mock("drizzle-orm", () => ({
+  eq: vi.fn((...args: unknown[]) => args),
+  and: vi.fn((...args: unknown[]) => args),
+}));
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const MOCK_USER = { id: "user-123", email: "test@example.com" };
+
+const MOCK_CONNECTION = {
+  id: "conn-3",
+  userId: MOCK_USER.id,
+  provider: "binance",
+  credentials: "encrypted-credentials",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const FILLED_ORDER = {
+  symbol: "BTCUSDT",
+  orderId: 123,
+  clientOrderId: "abc",
+  price: "0",
+  origQty: "0.001",
+  executedQty: "0.001",
+  cummulativeQuoteQty: "65",
+  status: "FILLED",
+  type: "MARKET",
+  side: "BUY",
+  transactTime: Date.parse("2026-03-10T15:00:00Z"),
+  fills: [{ price: "65000", qty: "0.001", commission: "0", commissionAsset: "BNB", tradeId: 7 }],
+};
+
+function validTradeBody(overrides: Record<string, unknown> = {}) {
+  return {
+    action: "buy",
+    simbolo: "btcusdt",
+    cantidad: 0.001,
+    precio: 65000,
+    tipoOrden: "precioMercado",
+    ...overrides,
+  };
+}
+
+function makeRequest(body: unknown): Request {
+  return new Request("http://localhost:3000/api/binance/trade", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-forwarded-for": "192.168.1.1",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function makeDeleteRequest(query: string): Request {
+  return new Request(`http://localhost:3000/api/binance/trade${query}`, {
+    method: "DELETE",
+    headers: { "x-forwarded-for": "192.168.1.1" },
+  });
+}
+
+function setupDefaults() {
+  mockGetAuthUser.mockResolvedValue(MOCK_USER);
+  mockCheckRateLimit.mockResolvedValue(null);
+  mockFindFirst.mockResolvedValue(MOCK_CONNECTION);
+  mockDecryptCredentials.mockReturnValue({ apiKey: "key", apiSecret: "secret" });
+  mockInsertValues.mockResolvedValue(undefined);
+  mockPlaceOrder.mockResolvedValue({
+    ok: true,
+    order: FILLED_ORDER,
+    mensaje: "Orden de compra enviada",
+  });
+  mockGetAccount.mockResolvedValue({
+    balances: [{ asset: "BTC", free: "0.5", locked: "0.1" }],
+  });
+  mockCancelOrder.mockResolvedValue({ ok: true, mensaje: "Orden 123 cancelada" });
+  mockIngestExternalTrades.mockResolvedValue({ created: 1, skipped: 0 });
+  mockTrackPlacedOrder.mockResolvedValue({ id: "order-1" });
+}
+
+// ── Import route handlers after mocks ────────────────────────────────────────
+
+const { POST, DELETE: DELETE_HANDLER } = await import("./route");
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setupDefaults();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/binance/trade
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("POST /api/binance/trade", () => {
+  it("returns 401 when not authenticated", async () => {
+    mockGetAuthUser.mockResolvedValue(null);
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(401);
+    expect(mockCheckRateLimit).not.toHaveBeenCalled();
+  });
+
+  it("shares the trade rate limit with the other brokers", async () => {
+    mockCheckRateLimit.mockResolvedValue(
+      NextResponse.json({ error: "Rate limited" }, { status: 429 })
+    );
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(429);
+    expect(mockCheckRateLimit).toHaveBeenCalledWith(MOCK_USER.id, "trade", {
+      limit: 5,
+      windowSeconds: 60,
+    });
+    expect(mockFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 on pairs not quoted in a USD stablecoin", async () => {
+    const res = await POST(makeRequest(validTradeBody({ simbolo: "ETHBTC" })));
+
+    expect(res.status).toBe(400);
+    expect(mockPlaceOrder).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when Binance not connected", async () => {
+    mockFindFirst.mockResolvedValue(null);
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.error).toBe("Binance account not connected");
+  });
+
+  it("maps the order to Binance's fields", async () => {
+    await POST(makeRequest(validTradeBody({ tipoOrden: "precioLimite" })));
+
+    expect(mockPlaceOrder).toHaveBeenCalledWith({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "LIMIT",
+      quantity: 0.001,
+      price: 65000,
+    });
+  });
+
+  it("returns 400 when selling more than the free balance", async () => {
+    const res = await POST(makeRequest(validTradeBody({ action: "sell", cantidad: 0.55 })));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.error).toContain("Insufficient holdings");
+    expect(mockPlaceOrder).not.toHaveBeenCalled();
+  });
+
+  it("audits the attempt and the success", async () => {
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json).toMatchObject({ ok: true, numeroOperacion: 123, status: "FILLED" });
+
+    const statuses = mockInsertValues.mock.calls.map(
+      (call: unknown[]) => (call[0] as Record<string, unknown>).status
+    );
+    expect(statuses).toEqual(["attempted", "success"]);
+    expect(mockInsertValues).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        mercado: "BINANCE",
+        simbolo: "BTCUSDT",
+        cantidad: "0.001",
+        numeroOperacion: "123",
+        ip: "192.168.1.1",
+      })
+    );
+  });
+
+  it("tracks the order and ingests its fills under their trade ids", async () => {
+    await POST(makeRequest(validTradeBody()));
+
+    expect(mockTrackPlacedOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "binance", externalId: "123", simbolo: "BTCUSDT" })
+    );
+    expect(mockIngestExternalTrades).toHaveBeenCalledWith(MOCK_USER.id, "binance", [
+      expect.objectContaining({ externalId: "BTCUSDT:7", ticker: "BTC", type: "buy" }),
+    ], MOCK_CONNECTION.id);
+  });
+
+  it("still succeeds when ingesting the fills fails", async () => {
+    mockIngestExternalTrades.mockRejectedValue(new Error("db down"));
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(200);
+  });
+
+  it("audits and notifies a rejected order without tracking it", async () => {
+    mockPlaceOrder.mockResolvedValue({ ok: false, error: "Account has insufficient balance" });
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(400);
+    expect(mockInsertValues).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: "failed", responseMessage: "Account has insufficient balance" })
+    );
+    expect(mockNotify).toHaveBeenCalledWith(
+      MOCK_USER.id,
+      expect.objectContaining({ kind: "order", body: "Account has insufficient balance" })
+    );
+    expect(mockTrackPlacedOrder).not.toHaveBeenCalled();
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /api/binance/trade
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("DELETE /api/binance/trade", () => {
+  it("returns 400 when symbol or orderId is missing or invalid", async () => {
+    expect((await DELETE_HANDLER(makeDeleteRequest("?orderId=123"))).status).toBe(400);
+    expect((await DELETE_HANDLER(makeDeleteRequest("?symbol=BTCUSDT"))).status).toBe(400);
+    expect((await DELETE_HANDLER(makeDeleteRequest("?symbol=BTCUSDT&orderId=abc"))).status).toBe(400);
+  });
+
+  it("cancels the order and audits it", async () => {
+    const res = await DELETE_HANDLER(makeDeleteRequest("?symbol=btcusdt&orderId=123"));
+
+    expect(res.status).toBe(200);
+    expect(mockCancelOrder).toHaveBeenCalledWith("BTCUSDT", 123);
+    expect(mockInsertValues).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: "cancel", numeroOperacion: "123", status: "success" })
+    );
+  });
+
+  it("returns 400 when the cancel fails", async () => {
+    mockCancelOrder.mockResolvedValue({ ok: false, error: "Unknown order sent." });
+
+    const res = await DELETE_HANDLER(makeDeleteRequest("?symbol=BTCUSDT&orderId=123"));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.error).toBe("Unknown order sent.");
+  });
+});
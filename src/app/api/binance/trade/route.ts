@@ -0,0 +1,302 @@
+import { NextResponse } from "next/server";
+import { BinanceClient } from "@/services/binance";
+import { getAuthUser } from "@/lib/auth";
+import { decryptCredentials } from "@/lib/crypto";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { binanceTradeSchema, parseBody } from "@/lib/api-schemas";
+import { notify } from "@/lib/notifications";
+import { trackPlacedOrder, findOrderConnection } from "@/lib/order-tracker";
+import { findBrokerConnection } from "@/lib/broker-connections";
+import { BINANCE_QUOTE_ASSETS } from "@/lib/broker-history";
+import { ingestExternalTrades } from "@/lib/broker-ingest";
+import { db } from "@/db";
+import { tradeAuditLog } from "@/db/schema";
+import { binanceAdapter } from "@/services/brokers";
+import type { BrokerOrderRequest } from "@/services/brokers";
+import type { BinanceCredentials } from "@/services/binance";
+
+/** Marks Binance orders in trade_audit_log.mercado */
+const AUDIT_MARKET = "BINANCE";
+
+function getClientIp(request: Request): string {
+  const headers = new Headers(request.headers);
+  return (
+    headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+/** A pair split into its base and quote assets, e.g. BTCUSDT → BTC / USDT */
+function splitPair(symbol: string): { base: string; quote?: string } {
+  const quote = BINANCE_QUOTE_ASSETS.find((q) => symbol.endsWith(q));
+  return quote ? { base: symbol.slice(0, -quote.length), quote } : { base: symbol };
+}
+
+export async function POST(request: Request) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Rate limit: max 5 trades per minute, shared with IOL and PPI
+  const rateLimited = await checkRateLimit(user.id, "trade", RATE_LIMITS.trade);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const raw = await request.json();
+    const [body, validationError] = parseBody(binanceTradeSchema, raw);
+    if (validationError) return validationError;
+
+    const connection = await findBrokerConnection(user.id, "binance", body.accountId);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "Binance account not connected" },
+        { status: 400 }
+      );
+    }
+
+    const credentials = decryptCredentials<BinanceCredentials>(connection.credentials);
+    const session = binanceAdapter.connect(credentials);
+    const { base, quote } = splitPair(body.simbolo);
+
+    // For sell orders, verify the user holds enough of the base asset. Only
+    // the free balance can be sold, which positions don't tell apart.
+    if (body.action === "sell") {
+      const account = await new BinanceClient(credentials).getAccount();
+      const balance = account.balances.find((b) => b.asset.toUpperCase() === base);
+      const available = balance ? parseFloat(balance.free) : 0;
+
+      if (available < body.cantidad) {
+        return NextResponse.json(
+          {
+            error: `Insufficient holdings: you have ${available} ${base} available`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const order: BrokerOrderRequest = {
+      action: body.action,
+      symbol: base,
+      category: "crypto",
+      market: quote,
+      quantity: body.cantidad,
+      price: body.precio,
+      orderType: body.tipoOrden === "precioMercado" ? "market" : "limit",
+      settlement: "t0",
+      validUntil: new Date().toISOString().split("T")[0],
+    };
+
+    const clientIp = getClientIp(request);
+    const auditOrder = {
+      userId: user.id,
+      action: body.action,
+      mercado: AUDIT_MARKET,
+      simbolo: body.simbolo,
+      cantidad: String(order.quantity),
+      precio: String(body.precio),
+      tipoOrden: body.tipoOrden,
+      ip: clientIp,
+    };
+
+    // Log trade attempt
+    await db.insert(tradeAuditLog).values({ ...auditOrder, status: "attempted" });
+
+    const result = await session.placeOrder(order);
+
+    if (!result.ok || !result.orderId) {
+      await db.insert(tradeAuditLog).values({
+        ...auditOrder,
+        status: "failed",
+        responseMessage: result.error || "Trade failed",
+      });
+
+      await notify(user.id, {
+        kind: "order",
+        title: `Orden rechazada: ${body.action === "buy" ? "compra" : "venta"} de ${body.simbolo}`,
+        body: result.error || "Trade failed",
+        link: "/history",
+        metadata: { action: body.action, simbolo: body.simbolo, provider: "binance" },
+      });
+
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || "Trade failed",
+        },
+        { status: 400 }
+      );
+    }
+
+    const orderId = Number(result.orderId);
+    const [audit] = await db
+      .insert(tradeAuditLog)
+      .values({
+        ...auditOrder,
+        status: "success",
+        numeroOperacion: result.orderId,
+        responseMessage: result.message,
+      })
+      .returning({ id: tradeAuditLog.id });
+
+    // Follow the order until it fills (see /api/orders/poll)
+    await trackPlacedOrder({
+      userId: user.id,
+      provider: "binance",
+      externalId: result.orderId,
+      accountId: connection.id,
+      auditLogId: audit?.id,
+      action: body.action,
+      mercado: AUDIT_MARKET,
+      simbolo: body.simbolo,
+      quantity: String(order.quantity),
+      price: String(body.precio),
+      tipoOrden: body.tipoOrden,
+    });
+
+    // Market orders fill at once: record their cost basis now rather than
+    // on the next history sync. The order is live either way.
+    try {
+      await ingestExternalTrades(
+        user.id,
+        "binance",
+        result.fills ?? [],
+        connection.id
+      );
+    } catch (error) {
+      console.error("[Binance Trade] Fill ingest error:", error);
+    }
+
+    await notify(user.id, {
+      kind: "order",
+      title: `Orden de ${body.action === "buy" ? "compra" : "venta"} enviada: ${body.simbolo}`,
+      body: `${order.quantity} a $${body.precio} via Binance · Operacion #${orderId}`,
+      link: "/history",
+      metadata: {
+        action: body.action,
+        simbolo: body.simbolo,
+        provider: "binance",
+        numeroOperacion: orderId,
+      },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      numeroOperacion: orderId,
+      status: result.status,
+      mensaje: result.message,
+      order: {
+        action: body.action,
+        simbolo: body.simbolo,
+        cantidad: order.quantity,
+        precio: body.precio,
+        executedQty: (result.fills ?? []).reduce((sum, f) => sum + f.quantity, 0),
+      },
+    });
+  } catch (error) {
+    console.error("[Binance Trade] Error:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : "Trade execution failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel an existing order
+export async function DELETE(request: Request) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbol = searchParams.get("symbol")?.toUpperCase();
+    const orderIdParam = searchParams.get("orderId");
+
+    if (!symbol || !orderIdParam) {
+      return NextResponse.json(
+        { error: "Missing symbol or orderId parameter" },
+        { status: 400 }
+      );
+    }
+
+    const orderId = parseInt(orderIdParam, 10);
+    if (isNaN(orderId)) {
+      return NextResponse.json(
+        { error: "Invalid orderId" },
+        { status: 400 }
+      );
+    }
+
+    // Cancel through the account the order was placed from
+    const connection = await findOrderConnection(user.id, "binance", String(orderId));
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "Binance account not connected" },
+        { status: 400 }
+      );
+    }
+
+    const credentials = decryptCredentials<BinanceCredentials>(connection.credentials);
+    const client = new BinanceClient(credentials);
+    const clientIp = getClientIp(request);
+    const auditCancel = {
+      userId: user.id,
+      action: "cancel",
+      mercado: AUDIT_MARKET,
+      simbolo: symbol,
+      numeroOperacion: String(orderId),
+      ip: clientIp,
+    };
+
+    await db.insert(tradeAuditLog).values({ ...auditCancel, status: "attempted" });
+
+    const result = await client.cancelOrder(symbol, orderId);
+
+    if (!result.ok) {
+      await db.insert(tradeAuditLog).values({
+        ...auditCancel,
+        status: "failed",
+        responseMessage: result.error || "Cancel failed",
+      });
+
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || "Cancel failed",
+        },
+        { status: 400 }
+      );
+    }
+
+    await db.insert(tradeAuditLog).values({
+      ...auditCancel,
+      status: "success",
+      responseMessage: result.mensaje,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      mensaje: result.mensaje,
+    });
+  } catch (error) {
+    console.error("[Binance Trade] Cancel Error:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : "Cancel failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { brokerAccountSchema, parseBody } from "@/lib/api-schemas";
+import { deleteBrokerConnection, saveBrokerConnection } from "@/lib/broker-connections";
+import { getBrokerAdapter } from "@/services/brokers";
+
+type Params = { params: Promise<{ provider: string }> };
+
+// POST - Connect a broker account (credentials are stored encrypted).
+// Adds an account unless `accountId` names one to reconnect.
+export async function POST(req: Request, { params }: Params) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider } = await params;
+  const adapter = getBrokerAdapter(provider);
+  if (!adapter) {
+    return NextResponse.json({ error: "Unknown broker" }, { status: 404 });
+  }
+
+  try {
+    const raw = await req.json();
+    const [body, validationError] = parseBody(adapter.authSchema, raw);
+    if (validationError) return validationError;
+    const [account, accountError] = parseBody(brokerAccountSchema, raw);
+    if (accountError) return accountError;
+
+    const credentials = await adapter.authenticate(body);
+    const saved = await saveBrokerConnection(user.id, adapter, credentials, {
+      ...account,
+      notifyEmail: user.email,
+    });
+    if (!saved) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      accounts: saved.map((c) => ({ id: c.id, label: c.label, accountNumber: c.accountNumber })),
+    });
+  } catch (error) {
+    console.error(`${adapter.label} auth error:`, error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Authentication failed" },
+      { status: 400 }
+    );
+  }
+}
+
+// DELETE - Disconnect one account (`?account=<id>`) or all of them
+export async function DELETE(req: Request, { params }: Params) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider } = await params;
+  const adapter = getBrokerAdapter(provider);
+  if (!adapter) {
+    return NextResponse.json({ error: "Unknown broker" }, { status: 404 });
+  }
+
+  try {
+    const accountId = new URL(req.url).searchParams.get("account");
+    await deleteBrokerConnection(user.id, adapter.provider, accountId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`${adapter.label} disconnect error:`, error);
+    return NextResponse.json(
+      { error: "Failed to disconnect" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import {
+  brokerErrorResponse,
+  findBrokerConnection,
+  openBrokerSession,
+} from "@/lib/broker-connections";
+import { getBrokerAdapter } from "@/services/brokers";
+
+/**
+ * GET /api/brokers/[provider]/balances
+ *
+ * Cash balances per currency, for `?account=<id>` or the first account.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider } = await params;
+  const adapter = getBrokerAdapter(provider);
+  if (!adapter) {
+    return NextResponse.json({ error: "Unknown broker" }, { status: 404 });
+  }
+
+  const rateLimited = await checkRateLimit(user.id, `${adapter.provider}-balance`, RATE_LIMITS.default);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const accountId = new URL(req.url).searchParams.get("account");
+    const connection = await findBrokerConnection(user.id, adapter.provider, accountId);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: `${adapter.label} account not connected` },
+        { status: 400 }
+      );
+    }
+
+    const { session, persistCredentials } = openBrokerSession(adapter, connection);
+    const balances = await session.getBalances();
+    await persistCredentials();
+
+    return NextResponse.json({ balances });
+  } catch (error) {
+    console.error(`[${adapter.label} Balances] Error:`, error);
+    return brokerErrorResponse(adapter, error, "Failed to fetch balance");
+  }
+}
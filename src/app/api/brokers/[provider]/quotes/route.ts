@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { batchQuoteSchema, parseBody } from "@/lib/api-schemas";
+import {
+  brokerErrorResponse,
+  findBrokerConnection,
+  openBrokerSession,
+} from "@/lib/broker-connections";
+import { getBrokerAdapter } from "@/services/brokers";
+
+/**
+ * POST /api/brokers/[provider]/quotes
+ *
+ * Quotes for a batch of instruments. Instruments the broker can't quote are
+ * left out of the response.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider } = await params;
+  const adapter = getBrokerAdapter(provider);
+  if (!adapter) {
+    return NextResponse.json({ error: "Unknown broker" }, { status: 404 });
+  }
+
+  const rateLimited = await checkRateLimit(user.id, `${adapter.provider}-quote`, RATE_LIMITS.quote);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const raw = await req.json();
+    const [body, validationError] = parseBody(batchQuoteSchema, raw);
+    if (validationError) return validationError;
+
+    if (body.tickers.length === 0) {
+      return NextResponse.json({ quotes: [] });
+    }
+
+    const connection = await findBrokerConnection(user.id, adapter.provider);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: `${adapter.label} account not connected` },
+        { status: 400 }
+      );
+    }
+
+    const { session, persistCredentials } = openBrokerSession(adapter, connection);
+    const quotes = await session.getQuotes(body.tickers);
+    await persistCredentials();
+
+    return NextResponse.json({ quotes });
+  } catch (error) {
+    console.error(`[${adapter.label} Quotes] Error:`, error);
+    return brokerErrorResponse(adapter, error, "Failed to fetch quotes");
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { findBrokerConnections, toBrokerAccount } from "@/lib/broker-connections";
+import { getBrokerAdapter } from "@/services/brokers";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider } = await params;
+  const adapter = getBrokerAdapter(provider);
+  if (!adapter) {
+    return NextResponse.json({ error: "Unknown broker" }, { status: 404 });
+  }
+
+  const connections = await findBrokerConnections(user.id, adapter.provider);
+
+  return NextResponse.json({
+    connected: connections.length > 0,
+    updatedAt: connections[0]?.updatedAt ?? null,
+    accounts: connections.map(toBrokerAccount),
+  });
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import {
+  findRequestedConnections,
+  openBrokerSession,
+  syncFailureResponse,
+  upsertBrokerPositions,
+} from "@/lib/broker-connections";
+import { recordConnectionFailure, recordConnectionSuccess } from "@/lib/connection-health";
+import type { UserConnection } from "@/db/schema";
+import { getBrokerAdapter } from "@/services/brokers";
+
+/**
+ * POST /api/brokers/[provider]/sync
+ *
+ * Pull the broker's current positions into the user's assets, for the
+ * account in `?account=<id>` or every account at the broker.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider } = await params;
+  const adapter = getBrokerAdapter(provider);
+  if (!adapter) {
+    return NextResponse.json({ error: "Unknown broker" }, { status: 404 });
+  }
+
+  const rateLimited = await checkRateLimit(user.id, `${adapter.provider}-sync`, RATE_LIMITS.default);
+  if (rateLimited) return rateLimited;
+
+  let current: UserConnection | undefined;
+  try {
+    const connections = await findRequestedConnections(req, user.id, adapter.provider);
+
+    if (connections.length === 0) {
+      return NextResponse.json(
+        { error: `${adapter.label} account not connected` },
+        { status: 400 }
+      );
+    }
+
+    let synced = 0;
+    let total = 0;
+    for (const connection of connections) {
+      current = connection;
+      const { session, persistCredentials } = openBrokerSession(adapter, connection);
+
+      const positions = await session.getPositions();
+      synced += await upsertBrokerPositions(user.id, connection.id, positions);
+      total += positions.length;
+      await persistCredentials();
+      await recordConnectionSuccess([connection]);
+    }
+
+    return NextResponse.json({
+      success: true,
+      synced,
+      total,
+    });
+  } catch (error) {
+    if (current) await recordConnectionFailure(adapter, [current], error);
+    return syncFailureResponse(user.id, adapter, error);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import {
+  findRequestedConnections,
+  openBrokerSession,
+  syncFailureResponse,
+} from "@/lib/broker-connections";
+import { ingestExternalTrades, saveSyncCursor } from "@/lib/broker-ingest";
+import { getBrokerAdapter } from "@/services/brokers";
+import { db } from "@/db";
+import { assets } from "@/db/schema";
+import { and, eq, isNull, or } from "drizzle-orm";
+
+/**
+ * POST /api/brokers/[provider]/transactions
+ *
+ * Ingest the next slice of the broker's trade history. The first runs page
+ * back through the account history (`hasMore` until done); later runs only
+ * fetch what's new since the stored cursor. Each account keeps its own
+ * cursor; `?account=<id>` limits the run to one.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { provider } = await params;
+  const adapter = getBrokerAdapter(provider);
+  if (!adapter) {
+    return NextResponse.json({ error: "Unknown broker" }, { status: 404 });
+  }
+
+  const rateLimited = await checkRateLimit(user.id, `${adapter.provider}-transactions`, RATE_LIMITS.default);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const connections = await findRequestedConnections(req, user.id, adapter.provider);
+
+    if (connections.length === 0) {
+      return NextResponse.json(
+        { error: `${adapter.label} account not connected` },
+        { status: 400 }
+      );
+    }
+
+    const result = { created: 0, skipped: 0, total: 0, hasMore: false };
+    for (const connection of connections) {
+      const { session, persistCredentials } = openBrokerSession(adapter, connection);
+      const accountAssets = await db.query.assets.findMany({
+        where: and(
+          eq(assets.userId, user.id),
+          or(eq(assets.accountId, connection.id), isNull(assets.accountId))
+        ),
+        columns: { ticker: true, category: true },
+      });
+
+      const page = await session.getOperations(connection.syncCursor, { assets: accountAssets });
+      const { created, skipped } = await ingestExternalTrades(
+        user.id,
+        adapter.provider,
+        page.trades,
+        connection.id
+      );
+      await saveSyncCursor(connection.id, page.cursor);
+      await persistCredentials();
+
+      result.created += created;
+      result.skipped += skipped;
+      result.total += page.trades.length;
+      result.hasMore ||= page.hasMore;
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    return syncFailureResponse(user.id, adapter, error);
+  }
+}
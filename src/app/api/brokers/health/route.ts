@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { isCronRequest } from "@/lib/cron";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { checkConnectionHealth } from "@/lib/connection-health";
+
+/**
+ * POST /api/brokers/health
+ *
+ * pg_cron (see migration 015) checks every user's broker connections with
+ * `Authorization: Bearer <CRON_SECRET>`, refreshing their tokens; a
+ * signed-in user can check just their own.
+ */
+export async function POST(request: Request) {
+  let userId: string | undefined;
+
+  if (!isCronRequest(request)) {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const rateLimited = await checkRateLimit(user.id, "brokers-health", RATE_LIMITS.default);
+    if (rateLimited) return rateLimited;
+    userId = user.id;
+  }
+
+  try {
+    const summary = await checkConnectionHealth(userId);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("[Connections] Health Check Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to check connections" },
+      { status: 500 }
+    );
+  }
+}
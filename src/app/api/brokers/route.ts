@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { BROKER_ADAPTERS } from "@/services/brokers";
+import { toBrokerAccount } from "@/lib/broker-connections";
+import { db } from "@/db";
+import { userConnections } from "@/db/schema";
+import { eq } from "drizzle-orm";
+
+/**
+ * GET /api/brokers
+ *
+ * Every registered broker with the user's connected accounts.
+ */
+export async function GET() {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const connections = await db.query.userConnections.findMany({
+    where: eq(userConnections.userId, user.id),
+    orderBy: (c, { asc }) => [asc(c.createdAt)],
+  });
+
+  const brokers = Object.values(BROKER_ADAPTERS).map((adapter) => {
+    const accounts = connections.filter((c) => c.provider === adapter.provider);
+    return {
+      provider: adapter.provider,
+      label: adapter.label,
+      connected: accounts.length > 0,
+      updatedAt: accounts[0]?.updatedAt ?? null,
+      accounts: accounts.map(toBrokerAccount),
+    };
+  });
+
+  return NextResponse.json({ brokers });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { runConditionalOrders } from "@/lib/conditional-order-engine";
+import { isCronRequest } from "@/lib/cron";
+
+/**
+ * POST /api/conditional-orders/evaluate
+ *
+ * Called by pg_cron (see migration 011) with `Authorization: Bearer
+ * <CRON_SECRET>`. Runs one pass of the conditional order evaluator.
+ */
+export async function POST(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runConditionalOrders();
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("[Conditional Orders] Evaluate Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to evaluate conditional orders" },
+      { status: 500 }
+    );
+  }
+}
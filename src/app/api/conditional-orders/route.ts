@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { db } from "@/db";
+import { conditionalOrders, userPortfolioSettings } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { createConditionalOrderSchema, parseBody } from "@/lib/api-schemas";
+import { findBrokerConnection } from "@/lib/broker-connections";
+import { conditionalOrdersDisabled } from "@/lib/conditional-order-engine";
+
+/**
+ * GET /api/conditional-orders
+ *
+ * Every rule the user created, newest first, plus whether the evaluator
+ * will act on them (per-user switch and the global kill switch).
+ */
+export async function GET() {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [orders, settings] = await Promise.all([
+      db
+        .select()
+        .from(conditionalOrders)
+        .where(eq(conditionalOrders.userId, user.id))
+        .orderBy(desc(conditionalOrders.createdAt)),
+      db.query.userPortfolioSettings.findFirst({
+        where: eq(userPortfolioSettings.userId, user.id),
+      }),
+    ]);
+
+    return NextResponse.json({
+      orders,
+      enabled: settings?.conditionalOrdersEnabled ?? true,
+      globallyDisabled: conditionalOrdersDisabled(),
+    });
+  } catch (error) {
+    console.error("[Conditional Orders] GET Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch conditional orders" },
+      { status: 500 }
+    );
+  }
+}
+
+/** POST /api/conditional-orders — create a rule on an IOL position */
+export async function POST(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const raw = await req.json();
+  const [body, validationError] = parseBody(createConditionalOrderSchema, raw);
+  if (validationError) return validationError;
+
+  try {
+    const connection = await findBrokerConnection(user.id, "iol", body.accountId);
+    if (!connection) {
+      return NextResponse.json({ error: "IOL account not connected" }, { status: 400 });
+    }
+
+    const [order] = await db
+      .insert(conditionalOrders)
+      .values({
+        userId: user.id,
+        accountId: connection.id,
+        mercado: body.mercado,
+        simbolo: body.simbolo.toUpperCase(),
+        side: body.side,
+        type: body.type,
+        quantity: body.quantity,
+        triggerPrice: body.type === "trailing_stop" ? null : String(body.triggerPrice),
+        trailPercent: body.type === "trailing_stop" ? String(body.trailPercent) : null,
+        limitPrice: body.limitPrice != null ? String(body.limitPrice) : null,
+        plazo: body.plazo,
+        notifyEmail: user.email ?? null,
+      })
+      .returning();
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    console.error("[Conditional Orders] POST Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create conditional order" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE /api/conditional-orders?id=... — cancel a rule that hasn't fired */
+export async function DELETE(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const id = req.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "Missing id parameter" }, { status: 400 });
+  }
+
+  try {
+    const [order] = await db
+      .update(conditionalOrders)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(
+        and(
+          eq(conditionalOrders.id, id),
+          eq(conditionalOrders.userId, user.id),
+          eq(conditionalOrders.status, "active")
+        )
+      )
+      .returning();
+
+    if (!order) {
+      return NextResponse.json({ error: "Conditional order not found or not active" }, { status: 404 });
+    }
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    console.error("[Conditional Orders] DELETE Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel conditional order" },
+      { status: 500 }
+    );
+  }
+}
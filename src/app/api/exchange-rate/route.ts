@@ -1,5 +1,11 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getExchangeRate as getAVExchangeRate } from "@/services/alphavantage";
+import {
+  DEFAULT_VALUATION_RATE,
+  DOLAR_CASAS,
+  VALUATION_RATES,
+  type ValuationRate,
+} from "@/lib/constants";
 
 interface DolarApiResponse {
   moneda: string;
@@ -9,21 +15,35 @@ interface DolarApiResponse {
   fechaActualizacion: string;
 }
 
-// Cache the rate server-side (5 minutes)
-let cachedRate: { rate: number; updatedAt: string } | null = null;
-let cacheExpiry = 0;
+interface CachedRate {
+  rate: number;
+  updatedAt: string;
+  valuationRate: ValuationRate;
+}
+
+// Cache each rate server-side (5 minutes)
+const cache = new Map<ValuationRate, { value: CachedRate; expiry: number }>();
 const CACHE_TTL = 5 * 60 * 1000;
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   const now = Date.now();
+  const param = request.nextUrl.searchParams.get("rate") ?? DEFAULT_VALUATION_RATE;
+  if (!(VALUATION_RATES as readonly string[]).includes(param)) {
+    return NextResponse.json(
+      { error: `rate must be one of ${VALUATION_RATES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const valuationRate = param as ValuationRate;
+  const cached = cache.get(valuationRate);
 
   // Return cached if fresh
-  if (cachedRate && now < cacheExpiry) {
-    return NextResponse.json(cachedRate);
+  if (cached && now < cached.expiry) {
+    return NextResponse.json(cached.value);
   }
 
   try {
-    const res = await fetch("https://dolarapi.com/v1/dolares/blue", {
+    const res = await fetch(`https://dolarapi.com/v1/dolares/${DOLAR_CASAS[valuationRate]}`, {
       next: { revalidate: 300 }, // ISR cache 5 min
     });
 
@@ -33,29 +53,31 @@ export async function GET() {
 
     const data: DolarApiResponse = await res.json();
 
-    cachedRate = {
+    const value: CachedRate = {
       rate: data.venta, // Sell rate (USD→ARS)
       updatedAt: data.fechaActualizacion,
+      valuationRate,
     };
-    cacheExpiry = now + CACHE_TTL;
+    cache.set(valuationRate, { value, expiry: now + CACHE_TTL });
 
-    return NextResponse.json(cachedRate);
+    return NextResponse.json(value);
   } catch (error) {
     // If fetch fails but we have a stale cache, use it
-    if (cachedRate) {
-      return NextResponse.json(cachedRate);
+    if (cached) {
+      return NextResponse.json(cached.value);
     }
 
-    // Try Alpha Vantage as fallback
+    // Try Alpha Vantage as fallback (official forex rate, closest to "oficial")
     try {
       const avRate = await getAVExchangeRate("USD", "ARS");
       if (avRate && avRate.rate > 0) {
-        cachedRate = {
+        const value: CachedRate = {
           rate: avRate.rate,
           updatedAt: avRate.lastRefreshed || new Date().toISOString(),
+          valuationRate,
         };
-        cacheExpiry = now + CACHE_TTL;
-        return NextResponse.json(cachedRate);
+        cache.set(valuationRate, { value, expiry: now + CACHE_TTL });
+        return NextResponse.json(value);
       }
     } catch {
       // Alpha Vantage also failed
@@ -64,7 +86,7 @@ export async function GET() {
     console.error("Exchange rate fetch error:", error);
     // Fallback — better to show approximate than nothing
     return NextResponse.json(
-      { rate: null, updatedAt: null, error: "Could not fetch exchange rate" },
+      { rate: null, updatedAt: null, valuationRate, error: "Could not fetch exchange rate" },
       { status: 502 }
     );
   }
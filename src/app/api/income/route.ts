@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { addMonths } from "@/lib/bond-analytics";
+import { groupByMonth } from "@/lib/income";
+import { projectUserIncome, saveProjectedIncome } from "@/lib/income-projection";
+
+/**
+ * GET /api/income?months=12
+ *
+ * Projected coupons, amortizations and dividends of the open positions,
+ * bucketed by month with separate ARS and USD totals. The projection is
+ * also stored for the weekly digest email.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const months = Math.min(
+      Math.max(parseInt(request.nextUrl.searchParams.get("months") || "12", 10) || 12, 1),
+      24
+    );
+
+    const today = new Date().toISOString().slice(0, 10);
+    // Through the last day of the final calendar month
+    const windowEnd = Date.parse(`${addMonths(`${today.slice(0, 7)}-01`, months)}T00:00:00Z`);
+    const to = new Date(windowEnd - 86_400_000).toISOString().slice(0, 10);
+
+    const { payments, warnings } = await projectUserIncome(user.id, today, to);
+    await saveProjectedIncome(user.id, payments);
+
+    const calendar = groupByMonth(payments, today, months);
+    const totals = { USD: 0, ARS: 0 };
+    for (const month of calendar) {
+      totals.USD += month.totals.USD;
+      totals.ARS += month.totals.ARS;
+    }
+
+    return NextResponse.json({ asOf: today, months: calendar, totals, warnings });
+  } catch (error) {
+    console.error("[Income] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to project income" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { INFLATION_INDICES, type InflationIndex } from "@/lib/inflation";
+import { loadInflationIndex, syncInflationIndex } from "@/lib/inflation-index";
+
+/**
+ * GET /api/inflation?index=CER&days=60
+ *
+ * Recent daily values of a BCRA inflation index (CER or UVA), synced from
+ * the BCRA first when the stored history is behind.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const index = (searchParams.get("index") || "CER").toUpperCase();
+  if (!(INFLATION_INDICES as readonly string[]).includes(index)) {
+    return NextResponse.json({ error: "index must be CER or UVA" }, { status: 400 });
+  }
+
+  try {
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "60", 10) || 60, 1), 3650);
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+
+    const syncError = await syncInflationIndex(index as InflationIndex);
+    const series = await loadInflationIndex(
+      index as InflationIndex,
+      since.toISOString().slice(0, 10)
+    );
+
+    return NextResponse.json({
+      index,
+      series,
+      warnings: syncError ? [`BCRA sync incomplete: ${syncError}`] : [],
+    });
+  } catch (error) {
+    console.error("[Inflation] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch inflation index" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { createClient } from "@/lib/supabase/server";
 import { getAuthUser } from "@/lib/auth";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import { alertNarrativeRequestSchema, alertNarrativeResponseSchema } from "@/lib/api-schemas";
+import { describeAlert } from "@/lib/alerts";
 import Anthropic from "@anthropic-ai/sdk";
 
 export const maxDuration = 60;
@@ -101,9 +102,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Only triggered alerts can have narratives
-    if (alert.is_active) {
+    if (!alert.triggered_at) {
       return NextResponse.json(
-        { error: "Alert is still active. Narratives are only available for triggered alerts." },
+        { error: "Alert has not triggered yet. Narratives are only available for triggered alerts." },
         { status: 400 }
       );
     }
@@ -131,12 +132,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Compute price delta
-    const currentPrice = alert.current_price ?? alert.target_price;
-    const delta = currentPrice - alert.target_price;
-    const deltaPct = alert.target_price > 0
-      ? ((delta / alert.target_price) * 100).toFixed(2)
+    // Compute price delta against the target, or the price when the alert was created
+    const basePrice = alert.target_price ?? alert.reference_price;
+    const currentPrice = alert.current_price ?? basePrice ?? 0;
+    const delta = basePrice ? currentPrice - basePrice : 0;
+    const deltaPct = basePrice > 0
+      ? ((delta / basePrice) * 100).toFixed(2)
       : "0.00";
+    const condition = describeAlert({
+      condition: alert.condition,
+      targetPrice: alert.target_price,
+      direction: alert.direction,
+      threshold: alert.threshold,
+      period: alert.period,
+      referencePrice: alert.reference_price,
+    });
 
     // Build user message
     const triggeredDate = alert.triggered_at
@@ -151,8 +161,8 @@ export async function POST(request: NextRequest) {
 
 ## Alert Details
 - Ticker: ${alert.ticker}
-- Condition: Price went ${alert.condition} ${alert.target_price}
-- Target price: $${alert.target_price}
+- Condition: ${condition}
+- ${alert.target_price ? "Target price" : "Price when created"}: $${basePrice ?? "unknown"}
 - Price at trigger: $${currentPrice}
 - Price delta: ${delta >= 0 ? "+" : ""}$${delta.toFixed(2)} (${delta >= 0 ? "+" : ""}${deltaPct}%)
 - Triggered on: ${triggeredDate}
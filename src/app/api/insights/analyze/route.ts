@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
+import { getValuationRate, valuationNote } from "@/lib/valuation";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import Anthropic from "@anthropic-ai/sdk";
 import { analysisResponseSchema } from "@/lib/validators";
@@ -164,9 +165,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Build portfolio context for user message
+    const valuationRate = await getValuationRate(user.id);
     const portfolioContext =
       portfolio.length > 0
-        ? `\n## Current Portfolio Holdings:\n${portfolio
+        ? `\n## Current Portfolio Holdings:\n${valuationNote(valuationRate)}\n${portfolio
             .map(
               (p) =>
                 `- ${p.ticker} (${p.name}): ${p.quantity} units, Value: $${p.currentValue.toFixed(2)}, P&L: ${p.pnl >= 0 ? "+" : ""}$${p.pnl.toFixed(2)} (${p.pnlPercent >= 0 ? "+" : ""}${p.pnlPercent.toFixed(2)}%), Category: ${p.category}`,
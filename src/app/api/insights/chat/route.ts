@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
+import { getValuationRate, valuationNote } from "@/lib/valuation";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import Anthropic from "@anthropic-ai/sdk";
 import { z } from "zod";
@@ -73,6 +74,7 @@ export async function POST(request: NextRequest) {
     }
 
     // 5. Build system prompt with portfolio + macro context
+    const valuationRate = await getValuationRate(user.id);
     const portfolioSummary =
       portfolio.length > 0
         ? portfolio
@@ -99,6 +101,7 @@ export async function POST(request: NextRequest) {
     const systemPrompt = `You are a knowledgeable Argentine investment analyst having a conversation with a retail investor. You have access to their portfolio and real-time macro data.
 
 Portfolio (${portfolio.length} positions):
+${valuationNote(valuationRate)}
 ${portfolioSummary}
 ${macroBlock}
 
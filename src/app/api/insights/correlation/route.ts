@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
+import { getValuationRate, valuationNote } from "@/lib/valuation";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import Anthropic from "@anthropic-ai/sdk";
 import { z } from "zod";
 import { getTickerMeta } from "@/lib/ticker-metadata";
+import { loadUsdCloses } from "@/lib/price-history";
+import { positionKey, weekdaysBetween } from "@/lib/snapshot-replay";
+import {
+  CLUSTER_THRESHOLD,
+  correlationMatrix,
+  gridReturns,
+  rankedPairs,
+  type CorrelationMatrix,
+  type CorrelationPair,
+  type ReturnSeries,
+} from "@/lib/correlation";
 
 export const maxDuration = 60;
 
@@ -116,6 +128,94 @@ function computeCorrelationMetrics(
   return { bySector, byCountry, byCorrelationGroup, totalValue, concentratedGroups };
 }
 
+// ── Measured Correlations ─────────────────────────────────────────────────────
+
+/** Largest holdings measured; the rest are left to the groupings above */
+const MAX_MEASURED = 25;
+
+const LOOKBACK_DAYS = 365;
+
+interface QuantCorrelation extends CorrelationMatrix {
+  /** Daily returns per ticker on `dates`, for rolling correlation */
+  returns: Record<string, (number | null)[]>;
+  topPairs: CorrelationPair[];
+  bottomPairs: CorrelationPair[];
+  unmeasured: string[];
+  warnings: string[];
+}
+
+async function computeQuantCorrelation(
+  userId: string,
+  portfolio: z.infer<typeof portfolioAssetSchema>[]
+): Promise<QuantCorrelation> {
+  // One entry per listing, however many accounts hold it
+  const holdings = new Map<string, { ticker: string; category: string; value: number }>();
+  for (const asset of portfolio) {
+    if (asset.category === "cash" || asset.currentValue <= 0) continue;
+    const h = { ticker: asset.ticker.toUpperCase(), category: asset.category, value: 0 };
+    const entry = holdings.get(positionKey(h)) ?? h;
+    entry.value += asset.currentValue;
+    holdings.set(positionKey(h), entry);
+  }
+  const ranked = [...holdings.values()].sort((a, b) => b.value - a.value);
+  const measured = ranked.slice(0, MAX_MEASURED);
+
+  const since = new Date();
+  since.setDate(since.getDate() - LOOKBACK_DAYS);
+  const dates = weekdaysBetween(
+    since.toISOString().slice(0, 10),
+    new Date().toISOString().slice(0, 10)
+  );
+
+  const { closes, unpriced, warnings } = await loadUsdCloses(userId, measured, since);
+  const priced = measured.filter((h) => closes.has(positionKey(h)));
+  const series: ReturnSeries[] = priced.map((h) => ({
+    ticker: h.ticker,
+    returns: gridReturns(closes.get(positionKey(h))!, dates),
+  }));
+
+  const matrix = correlationMatrix(series, priced.map((h) => h.value), dates);
+  const pairs = rankedPairs(matrix, series);
+
+  return {
+    ...matrix,
+    returns: Object.fromEntries(series.map((s) => [s.ticker, s.returns])),
+    topPairs: pairs.slice(0, 5),
+    // The weakest three that aren't already among the strongest
+    bottomPairs: pairs.slice(Math.max(5, pairs.length - 3)).reverse(),
+    unmeasured: [...unpriced, ...ranked.slice(MAX_MEASURED).map((h) => h.ticker)],
+    warnings,
+  };
+}
+
+function formatQuant(quant: QuantCorrelation): string {
+  if (quant.tickers.length < 2) {
+    return "Not enough price history to measure correlations; rely on the groupings above.";
+  }
+
+  const pair = (p: CorrelationPair) => `  - ${p.a} / ${p.b}: ${p.correlation.toFixed(2)} (${p.observations} days)`;
+  const lines = [
+    `Measured on ${quant.tickers.length} holdings over ${quant.dates.length} trading days (1Y daily returns, USD).`,
+    `- Value-weighted average pairwise correlation: ${quant.averageCorrelation?.toFixed(2) ?? "n/a"}`,
+    "- Most correlated pairs:",
+    ...quant.topPairs.map(pair),
+    ...(quant.bottomPairs.length > 0
+      ? ["- Least correlated pairs:", ...quant.bottomPairs.map(pair)]
+      : []),
+    `- Clusters (chains of pairs with correlation >= ${CLUSTER_THRESHOLD}):`,
+    ...(quant.clusters.length > 0
+      ? quant.clusters.map(
+          (c) =>
+            `  - ${c.tickers.join(", ")}: average ${c.averageCorrelation.toFixed(2)}, ${c.allocation.toFixed(1)}% of measured value`
+        )
+      : ["  - none"]),
+  ];
+  if (quant.unmeasured.length > 0) {
+    lines.push(`- Not measured (no price history or outside the top ${MAX_MEASURED}): ${quant.unmeasured.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
 // ── System Prompt ─────────────────────────────────────────────────────────────
 
 const SYSTEM_PROMPT = `You are a portfolio diversification analyst specializing in correlation and concentration risk for Argentine retail investors.
@@ -129,6 +229,7 @@ Key context:
 - Semiconductor stocks (NVDA, AMD, TSM, AVGO, etc.) move together — combined >30% is a concentration risk.
 - Any single correlation group >30% allocation is a concentration flag.
 - Country risk: >60% in one country (especially Argentina or China) is notable.
+- The "Measured Correlations" section is computed from daily price history. Quote those figures and clusters; never estimate or invent correlation numbers. Holdings listed as not measured can only be discussed qualitatively.
 
 IMPORTANT: Respond with ONLY valid JSON matching this exact structure (no markdown, no code blocks, no extra text):
 {
@@ -220,10 +321,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // 5. Compute groupings
+    // 5. Compute groupings and measured correlations
     const metrics = computeCorrelationMetrics(portfolio);
+    const quant = await computeQuantCorrelation(user.id, portfolio);
 
     // 6. Build user message
+    const valuationRate = await getValuationRate(user.id);
     const formatGroup = (groups: GroupAllocation[]) =>
       groups
         .map(
@@ -235,6 +338,7 @@ export async function POST(request: NextRequest) {
     const userMessage = `Analyze this portfolio for hidden correlation and concentration risks.
 
 ## Portfolio (${portfolio.length} positions, total value: $${metrics.totalValue.toFixed(2)})
+${valuationNote(valuationRate)}
 
 ## By Sector
 ${formatGroup(metrics.bySector)}
@@ -245,6 +349,9 @@ ${formatGroup(metrics.byCountry)}
 ## By Correlation Group (tickers that move together)
 ${formatGroup(metrics.byCorrelationGroup)}
 
+## Measured Correlations
+${formatQuant(quant)}
+
 ## Flags
 - Concentrated groups (>30%): ${metrics.concentratedGroups}
 
@@ -284,6 +391,7 @@ Provide your analysis as JSON.`;
         byCountry: metrics.byCountry,
         byCorrelationGroup: metrics.byCorrelationGroup,
       },
+      quant,
     });
   } catch (error) {
     console.error("[correlation] Error:", error);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
+import { getValuationRate, valuationNote } from "@/lib/valuation";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import Anthropic from "@anthropic-ai/sdk";
 import { z } from "zod";
@@ -272,6 +273,7 @@ export async function POST(request: NextRequest) {
     }
 
     // 6. Build user message with portfolio context
+    const valuationRate = await getValuationRate(user.id);
     const portfolioSummary =
       portfolio.length > 0
         ? portfolio
@@ -303,6 +305,7 @@ ${quantityContext}
 ${existingHoldingContext}
 
 ## Current Portfolio (${portfolio.length} positions)
+${valuationNote(valuationRate)}
 ${portfolioSummary}
 
 ## Computed Metrics
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
+import { getValuationRate, valuationNote } from "@/lib/valuation";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import Anthropic from "@anthropic-ai/sdk";
 import { z } from "zod";
@@ -250,6 +251,7 @@ export async function POST(request: NextRequest) {
     }
 
     // 6. Build user message
+    const valuationRate = await getValuationRate(user.id);
     const portfolioSummary =
       portfolio.length > 0
         ? portfolio
@@ -276,6 +278,7 @@ ${metrics.holdingPeriodDays !== null ? `Holding Period: ${metrics.holdingPeriodD
 ${targetReturn !== undefined ? `Target Return: ${targetReturn}%` : "No specific target return set"}
 
 ## Full Portfolio (${portfolio.length} positions)
+${valuationNote(valuationRate)}
 ${portfolioSummary}
 
 Provide your exit analysis as JSON.`;
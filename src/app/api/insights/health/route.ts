@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser } from "@/lib/auth";
+import { getValuationRate, valuationNote } from "@/lib/valuation";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import Anthropic from "@anthropic-ai/sdk";
 import { z } from "zod";
@@ -291,6 +292,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Build user message with metrics + holdings
+    const valuationRate = await getValuationRate(user.id);
     const holdingsList = portfolio
       .map(
         (a) =>
@@ -315,6 +317,7 @@ export async function POST(request: NextRequest) {
 - Top 3 holdings: ${metrics.topHoldings.map((h) => `${h.ticker} (${h.weight.toFixed(1)}%)`).join(", ")}
 
 ## Portfolio Holdings
+${valuationNote(valuationRate)}
 ${holdingsList}
 ${macroContext}`;
 
@@ -32,6 +32,7 @@ export async function GET(
         eq(userConnections.userId, user.id),
         eq(userConnections.provider, "iol")
       ),
+      orderBy: (c, { asc }) => [asc(c.createdAt)],
     });
 
     if (!connection) {
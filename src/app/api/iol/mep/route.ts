@@ -25,6 +25,7 @@ export async function GET(request: Request) {
         eq(userConnections.userId, user.id),
         eq(userConnections.provider, "iol")
       ),
+      orderBy: (c, { asc }) => [asc(c.createdAt)],
     });
 
     if (!connection) {
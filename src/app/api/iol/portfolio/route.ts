@@ -6,7 +6,8 @@ import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import { decryptCredentials, encryptCredentials } from "@/lib/crypto";
 import { db } from "@/db";
 import { userConnections } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
+import { findBrokerConnections } from "@/lib/broker-connections";
 
 import type { BrokerPortfolioAsset } from "@/types/portfolio";
 import { mapIOLCategory, mapIOLCurrency } from "@/services/shared/mappers";
@@ -22,65 +23,68 @@ export async function GET() {
   if (rateLimited) return rateLimited;
 
   try {
-    // Get IOL credentials
-    const connection = await db.query.userConnections.findFirst({
-      where: and(
-        eq(userConnections.userId, user.id),
-        eq(userConnections.provider, "iol")
-      ),
-    });
+    // Every connected IOL account, each reported separately
+    const connections = await findBrokerConnections(user.id, "iol");
 
-    if (!connection) {
+    if (connections.length === 0) {
       return NextResponse.json({ connected: false, assets: [] });
     }
 
-    const token = decryptCredentials<IOLToken>(connection.credentials);
-    const client = new IOLClient(token);
-
-    // Fetch portfolios from IOL
-    const { argentina, us } = await client.getAllPortfolios();
-
-    // Combine and transform assets
-    const iolAssets = [
-      ...(argentina.activos || []),
-      ...(us.activos || []),
-    ];
-
-    const assets: BrokerPortfolioAsset[] = iolAssets
-      .filter((item) => item.titulo?.simbolo && item.cantidad > 0)
-      .map((item) => ({
-        id: item.titulo.simbolo, // Use ticker as ID since we're not storing
-        ticker: item.titulo.simbolo.toUpperCase(),
-        name: item.titulo.descripcion || item.titulo.simbolo,
-        category: mapIOLCategory(item.titulo.tipo, item.titulo.pais),
-        currency: mapIOLCurrency(item.titulo.moneda),
-        quantity: item.cantidad,
-        averagePrice: item.ppc,
-        currentPrice: item.ultimoPrecio,
-        currentValue: item.valorizado,
-        pnl: item.gananciaDinero,
-        pnlPercent: item.gananciaPorcentaje,
-      }));
-
-    // Update token if it was refreshed
-    const newToken = client.getToken();
-    if (newToken && newToken.access_token !== token.access_token) {
-      await db
-        .update(userConnections)
-        .set({
-          credentials: encryptCredentials(newToken),
-          updatedAt: new Date(),
-        })
-        .where(eq(userConnections.id, connection.id));
+    const assets: BrokerPortfolioAsset[] = [];
+    const totals = { pesos: 0, dolares: 0 };
+
+    for (const connection of connections) {
+      const token = decryptCredentials<IOLToken>(connection.credentials);
+      const client = new IOLClient(token);
+
+      // Fetch portfolios from IOL
+      const { argentina, us } = await client.getAllPortfolios();
+
+      // Combine and transform assets
+      const iolAssets = [
+        ...(argentina.activos || []),
+        ...(us.activos || []),
+      ];
+
+      for (const item of iolAssets) {
+        if (!item.titulo?.simbolo || item.cantidad <= 0) continue;
+        assets.push({
+          id: `iol-${connection.id}-${item.titulo.simbolo}`,
+          ticker: item.titulo.simbolo.toUpperCase(),
+          name: item.titulo.descripcion || item.titulo.simbolo,
+          category: mapIOLCategory(item.titulo.tipo, item.titulo.pais),
+          currency: mapIOLCurrency(item.titulo.moneda),
+          quantity: item.cantidad,
+          averagePrice: item.ppc,
+          currentPrice: item.ultimoPrecio,
+          currentValue: item.valorizado,
+          pnl: item.gananciaDinero,
+          pnlPercent: item.gananciaPorcentaje,
+          accountId: connection.id,
+          accountLabel: connection.label,
+        });
+      }
+
+      totals.pesos += argentina.totalEnPesos || 0;
+      totals.dolares += (argentina.totalEnDolares || 0) + (us.totalEnDolares || 0);
+
+      // Update token if it was refreshed
+      const newToken = client.getToken();
+      if (newToken && newToken.access_token !== token.access_token) {
+        await db
+          .update(userConnections)
+          .set({
+            credentials: encryptCredentials(newToken),
+            updatedAt: new Date(),
+          })
+          .where(eq(userConnections.id, connection.id));
+      }
     }
 
     return NextResponse.json({
       connected: true,
       assets,
-      totals: {
-        pesos: argentina.totalEnPesos || 0,
-        dolares: (argentina.totalEnDolares || 0) + (us.totalEnDolares || 0),
-      },
+      totals,
     });
   } catch (error) {
     console.error("IOL portfolio fetch error:", error);
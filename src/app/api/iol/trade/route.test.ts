@@ -26,11 +26,26 @@ vi.mock("@/lib/crypto", () => ({
   encryptCredentials: (...args: unknown[]) => mockEncryptCredentials(...args),
 }));
 
+// Mock notify
+const mockNotify = vi.fn();
+vi.mock("@/lib/notifications", () => ({
+  notify: (...args: unknown[]) => mockNotify(...args),
+}));
+
+// Mock order tracking
+const mockTrackPlacedOrder = vi.fn();
+vi.mock("@/lib/order-tracker", () => ({
+  trackPlacedOrder: (...args: unknown[]) => mockTrackPlacedOrder(...args),
+  // Tracked orders' accounts resolve like any other connection lookup
+  findOrderConnection: (...args: unknown[]) => mockFindFirst(...args),
+}));
+
 // Mock IOLClient — must use `class` syntax for `new IOLClient(...)` to work
 const mockPlaceBuyOrder = vi.fn();
 const mockPlaceSellOrder = vi.fn();
 const mockCancelOrder = vi.fn();
 const mockGetAllPortfolios = vi.fn();
+const mockGetOperations = vi.fn();
 const mockGetToken = vi.fn();
 
 vi.mock("@/services/iol", () => ({
@@ -40,12 +55,14 @@ vi.mock("@/services/iol", () => ({
     placeSellOrder = mockPlaceSellOrder;
     cancelOrder = mockCancelOrder;
     getAllPortfolios = mockGetAllPortfolios;
+    getOperations = mockGetOperations;
     getToken = mockGetToken;
   },
 }));
 
 // Mock db — use functions so each call returns a fresh chain
 const mockFindFirst = vi.fn();
+const mockFindOrder = vi.fn();
 const mockInsertValues = vi.fn();
 const mockUpdateSetWhere = vi.fn();
 
@@ -55,9 +72,16 @@ vi.mock("@/db", () => ({
       userConnections: {
         findFirst: (...args: unknown[]) => mockFindFirst(...args),
       },
+      orders: {
+        findFirst: (...args: unknown[]) => mockFindOrder(...args),
+      },
     },
     insert: () => ({
-      values: (...args: unknown[]) => mockInsertValues(...args),
+      // Awaitable directly or through .returning()
+      values: (...args: unknown[]) =>
+        Object.assign(Promise.resolve(mockInsertValues(...args)), {
+          returning: () => Promise.resolve([{ id: "audit-1" }]),
+        }),
     }),
     update: () => ({
       set: () => ({
@@ -73,7 +97,8 @@ vi.mock("@/db/schema", () => ({
     provider: "provider",
     id: "id",
   },
-  tradeAuditLog: {},
+  tradeAuditLog: { id: "id" },
+  orders: { userId: "userId", provider: "provider", externalId: "externalId", id: "id" },
 }));
 
 vi.mock("drizzle-orm", () => ({
@@ -127,6 +152,35 @@ function makeRequest(body: unknown): Request {
   });
 }
 
+function makePatchRequest(body: unknown): Request {
+  return new Request("http://localhost:3000/api/iol/trade", {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      "x-forwarded-for": "192.168.1.1",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const MOCK_OPEN_ORDER = {
+  id: "order-1",
+  userId: MOCK_USER.id,
+  provider: "iol",
+  externalId: "999001",
+  action: "buy",
+  mercado: "bCBA",
+  simbolo: "GGAL",
+  quantity: "10",
+  price: "1500.5",
+  plazo: "t1",
+  tipoOrden: "precioLimite",
+  status: "partial",
+  filledQuantity: "4",
+  conditionalOrderId: null,
+  createdAt: new Date("2026-03-02T14:00:00Z"),
+};
+
 function makeDeleteRequest(operationNumber?: string): Request {
   const url = operationNumber
     ? `http://localhost:3000/api/iol/trade?operationNumber=${operationNumber}`
@@ -175,11 +229,16 @@ function setupDefaults() {
     mensaje: "Orden 123 cancelada",
   });
   mockUpdateSetWhere.mockResolvedValue(undefined);
+  mockFindOrder.mockResolvedValue(MOCK_OPEN_ORDER);
+  mockGetOperations.mockResolvedValue([
+    { numero: 999001, estado: "cancelada", cantidad: 10, cantidadOperada: 4 },
+  ]);
+  mockTrackPlacedOrder.mockResolvedValue({ id: "order-2" });
 }
 
 // ── Import route handlers after mocks ────────────────────────────────────────
 
-const { POST, DELETE: DELETE_HANDLER } = await import("./route");
+const { POST, PATCH, DELETE: DELETE_HANDLER } = await import("./route");
 
 // ── Tests ────────────────────────────────────────────────────────────────────
 
@@ -428,6 +487,18 @@ describe("POST /api/iol/trade", () => {
         MOCK_CONNECTION.credentials
       );
     });
+
+    it("places and tracks the order through the chosen account", async () => {
+      const accountId = "5b2f8c1e-4d3a-4f6b-9c7d-1e2f3a4b5c6d";
+      mockFindFirst.mockResolvedValue({ ...MOCK_CONNECTION, id: accountId });
+
+      await POST(makeRequest(validTradeBody({ accountId })));
+
+      expect(mockFindFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.arrayContaining([["id", accountId]]) })
+      );
+      expect(mockTrackPlacedOrder).toHaveBeenCalledWith(expect.objectContaining({ accountId }));
+    });
   });
 
   // ── 5. Sell validation ────────────────────────────────────────────────────
@@ -626,6 +697,58 @@ describe("POST /api/iol/trade", () => {
     });
   });
 
+  // ── 6b. Notifications ────────────────────────────────────────────────────
+
+  describe("notifications", () => {
+    it("notifies the user when the order is sent", async () => {
+      await POST(makeRequest(validTradeBody()));
+
+      expect(mockNotify).toHaveBeenCalledWith(
+        MOCK_USER.id,
+        expect.objectContaining({ kind: "order", title: expect.stringContaining("enviada") })
+      );
+    });
+
+    it("notifies the user when IOL rejects the order", async () => {
+      mockPlaceBuyOrder.mockResolvedValue({ ok: false, error: "Saldo insuficiente" });
+
+      await POST(makeRequest(validTradeBody()));
+
+      expect(mockNotify).toHaveBeenCalledWith(
+        MOCK_USER.id,
+        expect.objectContaining({ kind: "order", body: "Saldo insuficiente" })
+      );
+    });
+  });
+
+  // ── 6c. Order tracking ───────────────────────────────────────────────────
+
+  describe("order tracking", () => {
+    it("tracks the accepted order linked to its audit entry", async () => {
+      await POST(makeRequest(validTradeBody()));
+
+      expect(mockTrackPlacedOrder).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: MOCK_USER.id,
+          provider: "iol",
+          externalId: "999001",
+          auditLogId: "audit-1",
+          action: "buy",
+          quantity: "10",
+          price: "1500.5",
+        })
+      );
+    });
+
+    it("does not track rejected orders", async () => {
+      mockPlaceBuyOrder.mockResolvedValue({ ok: false, error: "Saldo insuficiente" });
+
+      await POST(makeRequest(validTradeBody()));
+
+      expect(mockTrackPlacedOrder).not.toHaveBeenCalled();
+    });
+  });
+
   // ── 7. Successful sell order ─────────────────────────────────────────────
 
   describe("successful sell order", () => {
@@ -870,3 +993,154 @@ describe("DELETE /api/iol/trade", () => {
     expect(json.error).toBe("Connection refused");
   });
 });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PATCH /api/iol/trade
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("PATCH /api/iol/trade", () => {
+  it("returns 401 when not authenticated", async () => {
+    mockGetAuthUser.mockResolvedValue(null);
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 400 when neither price nor quantity changes", async () => {
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001 }));
+
+    expect(res.status).toBe(400);
+    expect(mockCancelOrder).not.toHaveBeenCalled();
+  });
+
+  it("returns 404 when the order is not open", async () => {
+    mockFindOrder.mockResolvedValue({ ...MOCK_OPEN_ORDER, status: "filled" });
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(res.status).toBe(404);
+    expect(mockCancelOrder).not.toHaveBeenCalled();
+  });
+
+  it("cancels and re-places the unfilled remainder at the new price", async () => {
+    mockPlaceBuyOrder.mockResolvedValue({ ok: true, numeroOperacion: 999003, mensaje: "ok" });
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(res.status).toBe(200);
+    expect(mockCancelOrder).toHaveBeenCalledWith(999001);
+    expect(mockPlaceBuyOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ simbolo: "GGAL", cantidad: 6, precio: 1400 })
+    );
+    expect(mockTrackPlacedOrder).toHaveBeenCalledWith(
+      expect.objectContaining({ externalId: "999003", replacesOrderId: "order-1" })
+    );
+    const json = await res.json();
+    expect(json).toEqual(expect.objectContaining({ ok: true, numeroOperacion: 999003, replaces: "999001" }));
+  });
+
+  it("takes the remainder from IOL rather than the tracked row", async () => {
+    mockGetOperations.mockResolvedValue([
+      { numero: 999001, estado: "cancelada", cantidad: 10, cantidadOperada: 7 },
+    ]);
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(res.status).toBe(200);
+    expect(mockPlaceBuyOrder).toHaveBeenCalledWith(expect.objectContaining({ cantidad: 3 }));
+  });
+
+  it("does not re-place when IOL does not report the cancelled order", async () => {
+    mockGetOperations.mockResolvedValue([]);
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual(expect.objectContaining({ ok: false, cancelled: true }));
+    expect(mockPlaceBuyOrder).not.toHaveBeenCalled();
+  });
+
+  it("reports the cancelled order when reading its fills throws", async () => {
+    mockGetOperations.mockRejectedValue(new Error("IOL API error: 503"));
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ ok: false, cancelled: true, error: "IOL API error: 503" });
+    expect(mockNotify).toHaveBeenCalledWith(
+      MOCK_USER.id,
+      expect.objectContaining({ title: expect.stringContaining("sin reemplazo") })
+    );
+    expect(mockPlaceBuyOrder).not.toHaveBeenCalled();
+  });
+
+  it("still reports the modification when recording the replacement fails", async () => {
+    mockPlaceBuyOrder.mockResolvedValue({ ok: true, numeroOperacion: 999003, mensaje: "ok" });
+    mockUpdateSetWhere.mockRejectedValue(new Error("db down"));
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(expect.objectContaining({ ok: true, numeroOperacion: 999003 }));
+    expect(mockNotify).toHaveBeenCalledWith(
+      MOCK_USER.id,
+      expect.objectContaining({
+        title: "Orden modificada: GGAL",
+        body: expect.stringContaining("no se pudo registrar"),
+      })
+    );
+  });
+
+  it("checks holdings before re-placing a sell", async () => {
+    mockFindOrder.mockResolvedValue({ ...MOCK_OPEN_ORDER, action: "sell" });
+    mockGetAllPortfolios.mockResolvedValue({
+      argentina: { activos: [{ cantidad: 2, titulo: { simbolo: "GGAL" } }] },
+      us: { activos: [] },
+    });
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1600 }));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json).toEqual(expect.objectContaining({ ok: false, cancelled: true }));
+    expect(json.error).toContain("Insufficient holdings");
+    expect(mockPlaceSellOrder).not.toHaveBeenCalled();
+  });
+
+  it("modifies the order through the account it was placed from", async () => {
+    const accountId = "5b2f8c1e-4d3a-4f6b-9c7d-1e2f3a4b5c6d";
+    mockFindOrder.mockResolvedValue({ ...MOCK_OPEN_ORDER, accountId });
+    mockFindFirst.mockResolvedValue({ ...MOCK_CONNECTION, id: accountId });
+
+    await PATCH(makePatchRequest({ numeroOperacion: 999001, precio: 1400 }));
+
+    expect(mockFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.arrayContaining([["id", accountId]]) })
+    );
+    expect(mockTrackPlacedOrder).toHaveBeenCalledWith(expect.objectContaining({ accountId }));
+  });
+
+  it("does not re-place when the cancel fails", async () => {
+    mockCancelOrder.mockResolvedValue({ ok: false, error: "Order already filled" });
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, cantidad: 5 }));
+
+    expect(res.status).toBe(400);
+    expect(mockPlaceBuyOrder).not.toHaveBeenCalled();
+  });
+
+  it("reports the cancelled order when the replacement is rejected", async () => {
+    mockPlaceBuyOrder.mockResolvedValue({ ok: false, error: "Saldo insuficiente" });
+
+    const res = await PATCH(makePatchRequest({ numeroOperacion: 999001, cantidad: 20 }));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json).toEqual(expect.objectContaining({ ok: false, cancelled: true }));
+    expect(mockNotify).toHaveBeenCalledWith(
+      MOCK_USER.id,
+      expect.objectContaining({ title: expect.stringContaining("sin reemplazo") })
+    );
+  });
+});
@@ -3,12 +3,23 @@ import { IOLClient } from "@/services/iol";
 import { getAuthUser } from "@/lib/auth";
 import { decryptCredentials, encryptCredentials } from "@/lib/crypto";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
-import { tradeSchema, parseBody } from "@/lib/api-schemas";
+import { tradeSchema, replaceOrderSchema, parseBody } from "@/lib/api-schemas";
+import { notify } from "@/lib/notifications";
+import { trackPlacedOrder, findOrderConnection } from "@/lib/order-tracker";
+import { findBrokerConnection } from "@/lib/broker-connections";
+import { isOpenOrder, iolOrderStatus } from "@/lib/order-lifecycle";
+import { iolAdapter } from "@/services/brokers";
+import { inferCategoryFromMarket } from "@/services/shared/mappers";
 import { db } from "@/db";
-import { userConnections, tradeAuditLog } from "@/db/schema";
+import { userConnections, tradeAuditLog, orders } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
+import type { TransactionType } from "@/lib/constants";
+import type { BrokerOrderRequest, BrokerOrderResult, BrokerSession } from "@/services/brokers";
 import type { IOLToken, IOLOrderRequest } from "@/services/iol";
 
+/** Look back this far before an order's creation when reading its fills */
+const OPERATION_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
 function getClientIp(request: Request): string {
   const headers = new Headers(request.headers);
   return (
@@ -18,6 +29,28 @@ function getClientIp(request: Request): string {
   );
 }
 
+/** Shares of `simbolo` held across the Argentina and US portfolios */
+async function heldQuantity(session: BrokerSession<IOLToken>, simbolo: string): Promise<number> {
+  const symbolUpper = simbolo.toUpperCase();
+  const positions = await session.getPositions();
+  return positions.find((p) => p.ticker === symbolUpper)?.quantity ?? 0;
+}
+
+/** An IOL order as the broker adapter places it */
+function toBrokerOrder(action: TransactionType, order: IOLOrderRequest): BrokerOrderRequest {
+  return {
+    action,
+    symbol: order.simbolo,
+    category: inferCategoryFromMarket(order.mercado),
+    market: order.mercado,
+    quantity: order.cantidad,
+    price: order.precio,
+    orderType: order.tipoOrden === "precioMercado" ? "market" : "limit",
+    settlement: order.plazo,
+    validUntil: order.validez,
+  };
+}
+
 export async function POST(request: Request) {
   const user = await getAuthUser();
 
@@ -34,13 +67,8 @@ export async function POST(request: Request) {
     const [body, validationError] = parseBody(tradeSchema, raw);
     if (validationError) return validationError;
 
-    // Get IOL credentials
-    const connection = await db.query.userConnections.findFirst({
-      where: and(
-        eq(userConnections.userId, user.id),
-        eq(userConnections.provider, "iol")
-      ),
-    });
+    // Get IOL credentials for the chosen account
+    const connection = await findBrokerConnection(user.id, "iol", body.accountId);
 
     if (!connection) {
       return NextResponse.json(
@@ -50,25 +78,15 @@ export async function POST(request: Request) {
     }
 
     const token = decryptCredentials<IOLToken>(connection.credentials);
-    const client = new IOLClient(token);
+    const session = iolAdapter.connect(token);
 
     // For sell orders, verify the user holds enough shares
     if (body.action === "sell") {
-      const { argentina, us } = await client.getAllPortfolios();
-      const allAssets = [
-        ...(argentina.activos || []),
-        ...(us.activos || []),
-      ];
-      const symbolUpper = body.simbolo.toUpperCase();
-      const holding = allAssets.find(
-        (item) => item.titulo?.simbolo?.toUpperCase() === symbolUpper
-      );
-      const heldQuantity = holding?.cantidad ?? 0;
-
-      if (heldQuantity < body.cantidad) {
+      const held = await heldQuantity(session, body.simbolo);
+      if (held < body.cantidad) {
         return NextResponse.json(
           {
-            error: `Insufficient holdings: you have ${heldQuantity} shares of ${symbolUpper}`,
+            error: `Insufficient holdings: you have ${held} shares of ${body.simbolo.toUpperCase()}`,
           },
           { status: 400 }
         );
@@ -103,13 +121,11 @@ export async function POST(request: Request) {
     });
 
     // Execute the trade
-    const result =
-      body.action === "buy"
-        ? await client.placeBuyOrder(order)
-        : await client.placeSellOrder(order);
+    const result = await session.placeOrder(toBrokerOrder(body.action, order));
+    const numeroOperacion = result.orderId ? Number(result.orderId) : undefined;
 
     // Update token if refreshed
-    const newToken = client.getToken();
+    const newToken = session.credentials();
     if (newToken && newToken.access_token !== token.access_token) {
       await db
         .update(userConnections)
@@ -136,6 +152,14 @@ export async function POST(request: Request) {
         ip: clientIp,
       });
 
+      await notify(user.id, {
+        kind: "order",
+        title: `Orden rechazada: ${body.action === "buy" ? "compra" : "venta"} de ${order.simbolo}`,
+        body: result.error || "Trade failed",
+        link: "/history",
+        metadata: { action: body.action, simbolo: order.simbolo },
+      });
+
       return NextResponse.json(
         {
           ok: false,
@@ -146,25 +170,59 @@ export async function POST(request: Request) {
     }
 
     // Log successful trade
-    await db.insert(tradeAuditLog).values({
-      userId: user.id,
-      action: body.action,
-      mercado: body.mercado,
-      simbolo: order.simbolo,
-      cantidad: String(order.cantidad),
-      precio: String(order.precio),
-      plazo: order.plazo,
-      tipoOrden: order.tipoOrden,
-      status: "success",
-      numeroOperacion: result.numeroOperacion ? String(result.numeroOperacion) : undefined,
-      responseMessage: result.mensaje,
-      ip: clientIp,
+    const [audit] = await db
+      .insert(tradeAuditLog)
+      .values({
+        userId: user.id,
+        action: body.action,
+        mercado: body.mercado,
+        simbolo: order.simbolo,
+        cantidad: String(order.cantidad),
+        precio: String(order.precio),
+        plazo: order.plazo,
+        tipoOrden: order.tipoOrden,
+        status: "success",
+        numeroOperacion: numeroOperacion ? String(numeroOperacion) : undefined,
+        responseMessage: result.message,
+        ip: clientIp,
+      })
+      .returning({ id: tradeAuditLog.id });
+
+    // Follow the order until it fills (see /api/orders/poll)
+    if (numeroOperacion) {
+      await trackPlacedOrder({
+        userId: user.id,
+        provider: "iol",
+        externalId: String(numeroOperacion),
+        accountId: connection.id,
+        auditLogId: audit?.id,
+        action: body.action,
+        mercado: order.mercado,
+        simbolo: order.simbolo,
+        quantity: String(order.cantidad),
+        price: String(order.precio),
+        plazo: order.plazo,
+        tipoOrden: order.tipoOrden,
+        validez: order.validez,
+      });
+    }
+
+    await notify(user.id, {
+      kind: "order",
+      title: `Orden de ${body.action === "buy" ? "compra" : "venta"} enviada: ${order.simbolo}`,
+      body: `${order.cantidad} a $${order.precio}${numeroOperacion ? ` · Operacion #${numeroOperacion}` : ""}`,
+      link: "/history",
+      metadata: {
+        action: body.action,
+        simbolo: order.simbolo,
+        numeroOperacion: numeroOperacion ?? null,
+      },
     });
 
     return NextResponse.json({
       ok: true,
-      numeroOperacion: result.numeroOperacion,
-      mensaje: result.mensaje,
+      numeroOperacion: numeroOperacion,
+      mensaje: result.message,
       order: {
         action: body.action,
         simbolo: order.simbolo,
@@ -185,6 +243,284 @@ export async function POST(request: Request) {
   }
 }
 
+/**
+ * PATCH /api/iol/trade — modify an open order.
+ *
+ * IOL has no amend endpoint, so the order is cancelled and re-placed with
+ * the new price and/or quantity. Unless a quantity is given, the new order
+ * carries what IOL reports unfilled once the cancel goes through; sells are
+ * checked against holdings like any other. The tracked rows point at each
+ * other so the chain of replacements stays visible.
+ */
+export async function PATCH(request: Request) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateLimited = await checkRateLimit(user.id, "trade", RATE_LIMITS.trade);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const raw = await request.json();
+    const [body, validationError] = parseBody(replaceOrderSchema, raw);
+    if (validationError) return validationError;
+
+    const previous = await db.query.orders.findFirst({
+      where: and(
+        eq(orders.userId, user.id),
+        eq(orders.provider, "iol"),
+        eq(orders.externalId, String(body.numeroOperacion))
+      ),
+    });
+
+    if (!previous || !isOpenOrder(previous.status)) {
+      return NextResponse.json(
+        { error: "Order not found or no longer open" },
+        { status: 404 }
+      );
+    }
+
+    // The replacement goes through the account the order was placed from
+    const connection = await findBrokerConnection(user.id, "iol", previous.accountId);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "IOL account not connected" },
+        { status: 400 }
+      );
+    }
+
+    const token = decryptCredentials<IOLToken>(connection.credentials);
+    const client = new IOLClient(token);
+    const clientIp = getClientIp(request);
+
+    // Holdings and the replacement go through the adapter, which takes over
+    // the token once the cancel is done
+    let session: BrokerSession<IOLToken> | null = null;
+
+    const saveToken = async () => {
+      const newToken = session ? session.credentials() : client.getToken();
+      if (newToken && newToken.access_token !== token.access_token) {
+        await db
+          .update(userConnections)
+          .set({
+            credentials: encryptCredentials(newToken),
+            updatedAt: new Date(),
+          })
+          .where(eq(userConnections.id, connection.id));
+      }
+    };
+
+    // Cancel the open order first; nothing is re-placed if that fails
+    await db.insert(tradeAuditLog).values({
+      userId: user.id,
+      action: "cancel",
+      simbolo: previous.externalId,
+      status: "attempted",
+      ip: clientIp,
+    });
+
+    const cancelled = await client.cancelOrder(body.numeroOperacion);
+
+    await db.insert(tradeAuditLog).values({
+      userId: user.id,
+      action: "cancel",
+      simbolo: previous.externalId,
+      status: cancelled.ok ? "success" : "failed",
+      responseMessage: cancelled.ok ? cancelled.mensaje : cancelled.error || "Cancel failed",
+      ip: clientIp,
+    });
+
+    if (!cancelled.ok) {
+      await saveToken();
+      return NextResponse.json(
+        { ok: false, error: cancelled.error || "Cancel failed" },
+        { status: 400 }
+      );
+    }
+
+    // Nothing is re-placed past this point without telling the user
+    const notReplaced = async (error: string) => {
+      await notify(user.id, {
+        kind: "order",
+        title: `Orden cancelada sin reemplazo: ${previous.simbolo}`,
+        body: `La orden #${previous.externalId} se cancelo pero no se reemplazo: ${error}`,
+        link: "/history",
+        metadata: { orderId: previous.id, simbolo: previous.simbolo },
+      });
+      return NextResponse.json({ ok: false, cancelled: true, error }, { status: 400 });
+    };
+
+    // From here on any failure still reaches the user: before IOL takes the
+    // new order it is reported as not replaced, after it as a modification
+    let placed: BrokerOrderResult | null = null;
+    try {
+      // Only what is still unfilled moves to the new order by default. The
+      // tracked row lags the poller, so fills are read back from IOL.
+      let cantidad = body.cantidad;
+      if (cantidad === undefined) {
+        const operations = await client.getOperations(
+          "todas",
+          new Date(previous.createdAt.getTime() - OPERATION_LOOKBACK_MS)
+        );
+        const op = operations.find((o) => String(o.numero) === previous.externalId);
+        if (!op) {
+          await saveToken();
+          return notReplaced("No se pudo leer lo ejecutado de la orden en IOL");
+        }
+        const filled =
+          op.cantidadOperada ?? (iolOrderStatus(op) === "filled" ? op.cantidad : 0);
+        cantidad = op.cantidad - filled;
+        if (cantidad <= 0) {
+          await saveToken();
+          return notReplaced("La orden ya estaba ejecutada por completo");
+        }
+      }
+
+      session = iolAdapter.connect(client.getToken() ?? token);
+
+      if (previous.action === "sell") {
+        const held = await heldQuantity(session, previous.simbolo);
+        if (held < cantidad) {
+          await saveToken();
+          return notReplaced(
+            `Insufficient holdings: you have ${held} shares of ${previous.simbolo}`
+          );
+        }
+      }
+
+      const order: IOLOrderRequest = {
+        mercado: previous.mercado ?? "bCBA",
+        simbolo: previous.simbolo,
+        cantidad,
+        precio: body.precio ?? Number(previous.price),
+        plazo: (previous.plazo ?? "t2") as IOLOrderRequest["plazo"],
+        validez: new Date().toISOString().split("T")[0],
+        tipoOrden: (previous.tipoOrden ?? "precioLimite") as IOLOrderRequest["tipoOrden"],
+      };
+
+      const auditOrder = {
+        userId: user.id,
+        action: previous.action,
+        mercado: order.mercado,
+        simbolo: order.simbolo,
+        cantidad: String(order.cantidad),
+        precio: String(order.precio),
+        plazo: order.plazo,
+        tipoOrden: order.tipoOrden,
+        ip: clientIp,
+      };
+
+      await db.insert(tradeAuditLog).values({ ...auditOrder, status: "attempted" });
+
+      const result = await session.placeOrder(toBrokerOrder(previous.action, order));
+      const numeroOperacion = result.orderId ? Number(result.orderId) : undefined;
+
+      await saveToken();
+
+      if (!result.ok) {
+        await db.insert(tradeAuditLog).values({
+          ...auditOrder,
+          status: "failed",
+          responseMessage: result.error || "Trade failed",
+        });
+
+        return notReplaced(result.error || "Trade failed");
+      }
+      placed = result;
+
+      const [audit] = await db
+        .insert(tradeAuditLog)
+        .values({
+          ...auditOrder,
+          status: "success",
+          numeroOperacion: numeroOperacion ? String(numeroOperacion) : undefined,
+          responseMessage: result.message,
+        })
+        .returning({ id: tradeAuditLog.id });
+
+      const replacement = numeroOperacion
+        ? await trackPlacedOrder({
+            userId: user.id,
+            provider: "iol",
+            externalId: String(numeroOperacion),
+            accountId: connection.id,
+            auditLogId: audit?.id,
+            action: previous.action,
+            mercado: order.mercado,
+            simbolo: order.simbolo,
+            quantity: String(order.cantidad),
+            price: String(order.precio),
+            plazo: order.plazo,
+            tipoOrden: order.tipoOrden,
+            validez: order.validez,
+            replacesOrderId: previous.id,
+            conditionalOrderId: previous.conditionalOrderId,
+          })
+        : null;
+
+      // The poller records the cancel (and any fills before it) on the old row
+      await db
+        .update(orders)
+        .set({ replacedByOrderId: replacement?.id ?? null, updatedAt: new Date() })
+        .where(eq(orders.id, previous.id));
+
+      await notify(user.id, {
+        kind: "order",
+        title: `Orden modificada: ${order.simbolo}`,
+        body: `#${previous.externalId} reemplazada por ${order.cantidad} a $${order.precio}${numeroOperacion ? ` · Operacion #${numeroOperacion}` : ""}`,
+        link: "/history",
+        metadata: {
+          orderId: replacement?.id ?? null,
+          replacesOrderId: previous.id,
+          numeroOperacion: numeroOperacion ?? null,
+        },
+      });
+
+      return NextResponse.json({
+        ok: true,
+        numeroOperacion: numeroOperacion,
+        mensaje: result.message,
+        replaces: previous.externalId,
+      });
+    } catch (error) {
+      console.error("Modify order error:", error);
+      await saveToken().catch((e) => console.error("Modify order token error:", e));
+      const message = error instanceof Error ? error.message : "Modify failed";
+      if (!placed) return notReplaced(message);
+
+      // IOL took the new order; only recording it failed
+      await notify(user.id, {
+        kind: "order",
+        title: `Orden modificada: ${previous.simbolo}`,
+        body: `#${previous.externalId} reemplazada${placed.orderId ? ` por la operacion #${placed.orderId}` : ""}, pero no se pudo registrar: ${message}`,
+        link: "/history",
+        metadata: {
+          replacesOrderId: previous.id,
+          numeroOperacion: placed.orderId ? Number(placed.orderId) : null,
+        },
+      });
+      return NextResponse.json({
+        ok: true,
+        numeroOperacion: placed.orderId ? Number(placed.orderId) : undefined,
+        mensaje: placed.message,
+        replaces: previous.externalId,
+      });
+    }
+  } catch (error) {
+    console.error("Modify order error:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : "Modify failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
 // Cancel an existing order
 export async function DELETE(request: Request) {
   const user = await getAuthUser();
@@ -212,13 +548,8 @@ export async function DELETE(request: Request) {
       );
     }
 
-    // Get IOL credentials
-    const connection = await db.query.userConnections.findFirst({
-      where: and(
-        eq(userConnections.userId, user.id),
-        eq(userConnections.provider, "iol")
-      ),
-    });
+    // Cancel through the account the order was placed from
+    const connection = await findOrderConnection(user.id, "iol", String(opNum));
 
     if (!connection) {
       return NextResponse.json(
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { db } from "@/db";
+import { notifications } from "@/db/schema";
+import { and, count, desc, eq, inArray, isNotNull, isNull, type SQL } from "drizzle-orm";
+import { NOTIFICATION_KINDS, type NotificationKind } from "@/lib/constants";
+import {
+  updateNotificationsSchema,
+  deleteNotificationsSchema,
+  parseBody,
+} from "@/lib/api-schemas";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/notifications?kind=price_alert&status=unread&limit=100
+ *
+ * Newest first. `unreadCount` covers every kind, for the bell badge.
+ */
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const kind = params.get("kind");
+  const status = params.get("status") ?? "all";
+  const limit = Math.min(Number(params.get("limit")) || DEFAULT_LIMIT, MAX_LIMIT);
+
+  if (kind && !NOTIFICATION_KINDS.includes(kind as NotificationKind)) {
+    return NextResponse.json({ error: `Invalid kind: ${kind}` }, { status: 400 });
+  }
+  if (!["all", "unread", "read"].includes(status)) {
+    return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+  }
+
+  try {
+    const filters: SQL[] = [eq(notifications.userId, user.id)];
+    if (kind) filters.push(eq(notifications.kind, kind as NotificationKind));
+    if (status === "unread") filters.push(isNull(notifications.readAt));
+    if (status === "read") filters.push(isNotNull(notifications.readAt));
+
+    const [rows, [unread]] = await Promise.all([
+      db
+        .select()
+        .from(notifications)
+        .where(and(...filters))
+        .orderBy(desc(notifications.createdAt))
+        .limit(limit),
+      db
+        .select({ value: count() })
+        .from(notifications)
+        .where(and(eq(notifications.userId, user.id), isNull(notifications.readAt))),
+    ]);
+
+    return NextResponse.json({ notifications: rows, unreadCount: unread?.value ?? 0 });
+  } catch (error) {
+    console.error("[Notifications] GET Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/** PATCH /api/notifications — mark `ids` (or all) read or unread */
+export async function PATCH(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const raw = await req.json();
+  const [body, validationError] = parseBody(updateNotificationsSchema, raw);
+  if (validationError) return validationError;
+
+  try {
+    const filters: SQL[] = [eq(notifications.userId, user.id)];
+    if (!body.all && body.ids) filters.push(inArray(notifications.id, body.ids));
+    // Keep the original read time on rows that were already read
+    filters.push(body.read ? isNull(notifications.readAt) : isNotNull(notifications.readAt));
+
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: body.read ? new Date() : null })
+      .where(and(...filters))
+      .returning({ id: notifications.id });
+
+    return NextResponse.json({ updated: updated.length });
+  } catch (error) {
+    console.error("[Notifications] PATCH Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE /api/notifications?ids=a,b,c */
+export async function DELETE(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const [ids, validationError] = parseBody(
+    deleteNotificationsSchema,
+    (req.nextUrl.searchParams.get("ids") ?? "").split(",").filter(Boolean)
+  );
+  if (validationError) return validationError;
+
+  try {
+    const deleted = await db
+      .delete(notifications)
+      .where(and(eq(notifications.userId, user.id), inArray(notifications.id, ids)))
+      .returning({ id: notifications.id });
+
+    return NextResponse.json({ deleted: deleted.length });
+  } catch (error) {
+    console.error("[Notifications] DELETE Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete notifications" },
+      { status: 500 }
+    );
+  }
+}
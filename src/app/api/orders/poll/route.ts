@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { isCronRequest } from "@/lib/cron";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { pollOpenOrders } from "@/lib/order-tracker";
+
+/**
+ * POST /api/orders/poll
+ *
+ * pg_cron (see migration 012) polls every user's open orders with
+ * `Authorization: Bearer <CRON_SECRET>`; a signed-in user can refresh
+ * just their own.
+ */
+export async function POST(request: Request) {
+  let userId: string | undefined;
+
+  if (!isCronRequest(request)) {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    const rateLimited = await checkRateLimit(user.id, "orders-poll", RATE_LIMITS.default);
+    if (rateLimited) return rateLimited;
+    userId = user.id;
+  }
+
+  try {
+    const summary = await pollOpenOrders(userId);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("[Orders] Poll Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to poll orders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { db } from "@/db";
+import { orders } from "@/db/schema";
+import { and, desc, eq, inArray, type SQL } from "drizzle-orm";
+import { OPEN_ORDER_STATUSES } from "@/lib/order-lifecycle";
+
+const LIMIT = 200;
+
+/**
+ * GET /api/orders?status=open
+ *
+ * Orders placed through the app, newest first. `status=open` keeps only
+ * pending and partially filled ones.
+ */
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const status = req.nextUrl.searchParams.get("status") ?? "all";
+  if (!["all", "open"].includes(status)) {
+    return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+  }
+
+  try {
+    const filters: SQL[] = [eq(orders.userId, user.id)];
+    if (status === "open") filters.push(inArray(orders.status, [...OPEN_ORDER_STATUSES]));
+
+    const rows = await db
+      .select()
+      .from(orders)
+      .where(and(...filters))
+      .orderBy(desc(orders.createdAt))
+      .limit(LIMIT);
+
+    return NextResponse.json({ orders: rows });
+  } catch (error) {
+    console.error("[Orders] GET Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch orders" },
+      { status: 500 }
+    );
+  }
+}
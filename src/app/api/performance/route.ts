@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { buildPerformanceReport } from "@/lib/performance";
+import { loadCashFlows, loadSnapshotInputs } from "@/lib/portfolio-history";
+
+/**
+ * GET /api/performance
+ *
+ * Time-weighted (TWR) and money-weighted (XIRR) returns for the 1M, 3M,
+ * YTD, 1Y and inception windows — for the whole portfolio, per category
+ * and per position. Values come from the daily portfolio snapshots (USD at
+ * the user's valuation rate); cash flows come from transactions, with ARS
+ * amounts converted at that rate on their trade date.
+ */
+export async function GET() {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const [snapshots, { flows, warnings }] = await Promise.all([
+      loadSnapshotInputs(user.id),
+      loadCashFlows(user.id),
+    ]);
+
+    if (snapshots.length < 2) {
+      warnings.push("At least two daily snapshots are needed to measure returns");
+    }
+
+    return NextResponse.json({ ...buildPerformanceReport(snapshots, flows), warnings });
+  } catch (error) {
+    console.error("[Performance] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to compute performance" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { db } from "@/db";
+import { userPortfolioSettings } from "@/db/schema";
+import { updatePortfolioSettingsSchema, parseBody } from "@/lib/api-schemas";
+import { rebuildUserLedger } from "@/lib/ledger";
+import { eq } from "drizzle-orm";
+
+export async function GET() {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    let settings = await db.query.userPortfolioSettings.findFirst({
+      where: eq(userPortfolioSettings.userId, user.id),
+    });
+
+    // Create default row if none exists
+    if (!settings) {
+      const [created] = await db
+        .insert(userPortfolioSettings)
+        .values({ userId: user.id })
+        .returning();
+      settings = created;
+    }
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("[Portfolio Settings] GET Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch settings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: Request) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const raw = await req.json();
+    const [parsed, validationError] = parseBody(updatePortfolioSettingsSchema, raw);
+    if (validationError) return validationError;
+
+    const settings = await db.transaction(async (tx) => {
+      const existing = await tx.query.userPortfolioSettings.findFirst({
+        where: eq(userPortfolioSettings.userId, user.id),
+      });
+
+      let row;
+      if (existing) {
+        [row] = await tx
+          .update(userPortfolioSettings)
+          .set({ ...parsed, updatedAt: new Date() })
+          .where(eq(userPortfolioSettings.userId, user.id))
+          .returning();
+      } else {
+        [row] = await tx
+          .insert(userPortfolioSettings)
+          .values({ userId: user.id, ...parsed })
+          .returning();
+      }
+
+      // Switching method re-matches every past sale under the new rule
+      const previousMethod = existing?.costBasisMethod ?? "fifo";
+      if (row.costBasisMethod !== previousMethod) {
+        await rebuildUserLedger(tx, user.id, row.costBasisMethod);
+      }
+
+      return row;
+    });
+
+    return NextResponse.json(settings);
+  } catch (error) {
+    console.error("[Portfolio Settings] PUT Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import type { PPICredentials } from "@/services/ppi";
 import { getAuthUser } from "@/lib/auth";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
 import { decryptCredentials } from "@/lib/crypto";
+import { mapPPIBalances } from "@/services/brokers";
 import { db } from "@/db";
 import { userConnections } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
@@ -24,6 +25,7 @@ export async function GET() {
         eq(userConnections.userId, user.id),
         eq(userConnections.provider, "ppi")
       ),
+      orderBy: (c, { asc }) => [asc(c.createdAt)],
     });
 
     if (!connection) {
@@ -36,23 +38,15 @@ export async function GET() {
     const credentials = decryptCredentials<PPICredentials>(connection.credentials);
     const client = new PPIClient(credentials);
 
-    const data = await client.getAvailableBalance();
+    const data = await client.getAvailableBalance(connection.accountNumber ?? undefined);
 
     // Aggregate balances by currency (same shape as IOL balance route)
-    const balances = {
-      ars: { disponible: 0, comprometido: 0, total: 0 },
-      usd: { disponible: 0, comprometido: 0, total: 0 },
-    };
-
-    for (const b of data.Balances || []) {
-      const currency = (b.Currency || "").toUpperCase();
-      const isUSD = currency.includes("USD") || currency.includes("DOLAR");
-      const target = isUSD ? balances.usd : balances.ars;
-
-      target.disponible += b.Available || 0;
-      target.comprometido += b.Committed || 0;
-      target.total += b.Amount || 0;
-    }
+    const balances = Object.fromEntries(
+      mapPPIBalances(data).map((b) => [
+        b.currency.toLowerCase(),
+        { disponible: b.available, comprometido: b.committed, total: b.total },
+      ])
+    );
 
     return NextResponse.json({ balances });
   } catch (error) {
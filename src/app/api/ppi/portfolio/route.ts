@@ -3,10 +3,9 @@ import { PPIClient, PPITokenExpiredError } from "@/services/ppi";
 import type { PPICredentials, PPIPosition } from "@/services/ppi";
 import { getAuthUser } from "@/lib/auth";
 import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
-import { decryptCredentials, encryptCredentials } from "@/lib/crypto";
-import { db } from "@/db";
-import { userConnections } from "@/db/schema";
-import { eq, and } from "drizzle-orm";
+import { decryptCredentials } from "@/lib/crypto";
+import { findBrokerConnections, saveRefreshedCredentials } from "@/lib/broker-connections";
+import type { UserConnection } from "@/db/schema";
 
 import type { BrokerPortfolioAsset } from "@/types/portfolio";
 import { mapPPICategory, mapPPICurrency } from "@/services/shared/mappers";
@@ -22,48 +21,55 @@ export async function GET() {
   if (rateLimited) return rateLimited;
 
   try {
-    const connection = await db.query.userConnections.findFirst({
-      where: and(
-        eq(userConnections.userId, user.id),
-        eq(userConnections.provider, "ppi")
-      ),
-    });
+    const connections = await findBrokerConnections(user.id, "ppi");
 
-    if (!connection) {
+    if (connections.length === 0) {
       return NextResponse.json({ connected: false, assets: [] });
     }
 
-    const credentials = decryptCredentials<PPICredentials>(connection.credentials);
-    const client = new PPIClient(credentials);
+    // Accounts of the same login share one client, so a token refreshed
+    // for the first account is reused by the rest
+    const logins = new Map<string, { connection: UserConnection; client: PPIClient }>();
+    const assets: BrokerPortfolioAsset[] = [];
+
+    for (const connection of connections) {
+      let login = logins.get(connection.credentials);
+      if (!login) {
+        const credentials = decryptCredentials<PPICredentials>(connection.credentials);
+        login = { connection, client: new PPIClient(credentials) };
+        logins.set(connection.credentials, login);
+      }
+      const { client } = login;
 
-    const data = await client.getBalancesAndPositions();
+      const data = await client.getBalancesAndPositions(connection.accountNumber ?? undefined);
 
-    const assets: BrokerPortfolioAsset[] = (data.Positions || [])
-      .filter((p: PPIPosition) => p.Ticker && p.Quantity > 0)
-      .map((p: PPIPosition) => ({
-        id: `ppi-${p.Ticker}`,
-        ticker: p.Ticker.toUpperCase(),
-        name: p.Description || p.Ticker,
-        category: mapPPICategory(p.InstrumentType),
-        currency: mapPPICurrency(p.Currency),
-        quantity: p.Quantity,
-        averagePrice: p.AveragePrice,
-        currentPrice: p.Price,
-        currentValue: p.Amount,
-        pnl: p.PnL,
-        pnlPercent: p.PnLPercentage,
-      }));
+      assets.push(
+        ...(data.Positions || [])
+          .filter((p: PPIPosition) => p.Ticker && p.Quantity > 0)
+          .map((p: PPIPosition) => ({
+            id: `ppi-${connection.id}-${p.Ticker}`,
+            ticker: p.Ticker.toUpperCase(),
+            name: p.Description || p.Ticker,
+            category: mapPPICategory(p.InstrumentType),
+            currency: mapPPICurrency(p.Currency),
+            quantity: p.Quantity,
+            averagePrice: p.AveragePrice,
+            currentPrice: p.Price,
+            currentValue: p.Amount,
+            pnl: p.PnL,
+            pnlPercent: p.PnLPercentage,
+            accountId: connection.id,
+            accountLabel: connection.label,
+          }))
+      );
+    }
 
-    // Update token if refreshed
-    const newCreds = client.getCredentials();
-    if (newCreds.accessToken !== credentials.accessToken) {
-      await db
-        .update(userConnections)
-        .set({
-          credentials: encryptCredentials(newCreds),
-          updatedAt: new Date(),
-        })
-        .where(eq(userConnections.id, connection.id));
+    // Update tokens if refreshed
+    for (const [stored, { connection, client }] of logins) {
+      const newCreds = client.getCredentials();
+      if (newCreds.accessToken !== decryptCredentials<PPICredentials>(stored).accessToken) {
+        await saveRefreshedCredentials(connection, newCreds);
+      }
     }
 
     return NextResponse.json({
@@ -37,6 +37,7 @@ export async function GET(request: Request) {
         eq(userConnections.userId, user.id),
         eq(userConnections.provider, "ppi")
       ),
+      orderBy: (c, { asc }) => [asc(c.createdAt)],
     });
 
     if (!connection) {
@@ -92,6 +93,7 @@ export async function POST(request: Request) {
         eq(userConnections.userId, user.id),
         eq(userConnections.provider, "ppi")
       ),
+      orderBy: (c, { asc }) => [asc(c.createdAt)],
     });
 
     if (!connection) {
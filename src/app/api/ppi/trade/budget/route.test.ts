@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextResponse } from "next/server";
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockGetAuthUser = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  getAuthUser: () => mockGetAuthUser(),
+}));
+
+const mockCheckRateLimit = vi.fn();
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  RATE_LIMITS: {
+    trade: { limit: 5, windowSeconds: 60 },
+    quote: { limit: 60, windowSeconds: 60 },
+  },
+}));
+
+const mockDecryptCredentials = vi.fn();
+vi.mock("@/lib/crypto", () => ({
+  decryptCredentials: (...args: unknown[]) => mockDecryptCredentials(...args),
+}));
+
+const mockFindBrokerConnection = vi.fn();
+const mockSaveRefreshedCredentials = vi.fn();
+vi.mock("@/lib/broker-connections", () => ({
+  findBrokerConnection: (...args: unknown[]) => mockFindBrokerConnection(...args),
+  saveRefreshedCredentials: (...args: unknown[]) => mockSaveRefreshedCredentials(...args),
+}));
+
+// Mock PPIClient — must use `class` syntax for `new PPIClient(...)` to work
+const mockGetBudget = vi.fn();
+const mockGetCredentials = vi.fn();
+
+vi.mock("@/services/ppi", () => ({
+  PPIClient: class MockPPIClient {
+    constructor() {}
+    getBudget = mockGetBudget;
+    getCredentials = mockGetCredentials;
+  },
+}));
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const MOCK_USER = { id: "user-123", email: "test@example.com" };
+
+const MOCK_PPI_CREDENTIALS = {
+  apiKey: "key",
+  apiSecret: "secret",
+  accessToken: "access-abc",
+  refreshToken: "refresh-xyz",
+};
+
+const MOCK_CONNECTION = {
+  id: "conn-2",
+  userId: MOCK_USER.id,
+  provider: "ppi",
+  accountNumber: "ACC-7",
+  credentials: "encrypted-credentials",
+};
+
+function makeRequest(body: unknown): Request {
+  return new Request("http://localhost:3000/api/ppi/trade/budget", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const TRADE = {
+  action: "buy",
+  instrumentType: "ACCIONES",
+  simbolo: "ggal",
+  cantidad: 10,
+  precio: 1500.5,
+  plazo: "t1",
+  validez: "2026-03-01",
+  tipoOrden: "precioLimite",
+};
+
+const { POST } = await import("./route");
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockGetAuthUser.mockResolvedValue(MOCK_USER);
+  mockCheckRateLimit.mockResolvedValue(null);
+  mockFindBrokerConnection.mockResolvedValue(MOCK_CONNECTION);
+  mockDecryptCredentials.mockReturnValue(MOCK_PPI_CREDENTIALS);
+  mockGetCredentials.mockReturnValue(MOCK_PPI_CREDENTIALS);
+  mockGetBudget.mockResolvedValue({
+    Amount: 15005,
+    Commissions: 90.03,
+    Disclaimers: [{ Code: "RIESGO", Description: "Operar implica riesgos" }],
+  });
+});
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe("POST /api/ppi/trade/budget", () => {
+  it("returns 401 when not authenticated", async () => {
+    mockGetAuthUser.mockResolvedValue(null);
+
+    const res = await POST(makeRequest(TRADE));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("counts against the quote limit, not the trade one", async () => {
+    mockCheckRateLimit.mockResolvedValue(
+      NextResponse.json({ error: "Too many requests" }, { status: 429 })
+    );
+
+    const res = await POST(makeRequest(TRADE));
+
+    expect(res.status).toBe(429);
+    expect(mockCheckRateLimit).toHaveBeenCalledWith(MOCK_USER.id, "ppi-quote", {
+      limit: 60,
+      windowSeconds: 60,
+    });
+    expect(mockGetBudget).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 when PPI is not connected", async () => {
+    mockFindBrokerConnection.mockResolvedValue(undefined);
+
+    const res = await POST(makeRequest(TRADE));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("prices the order in the connection's account and returns its disclaimers", async () => {
+    const res = await POST(makeRequest(TRADE));
+
+    expect(res.status).toBe(200);
+    expect(mockGetBudget).toHaveBeenCalledWith(
+      expect.objectContaining({ ticker: "GGAL", operation: "COMPRA", settlement: "A-24HS" }),
+      "ACC-7"
+    );
+    expect(await res.json()).toEqual({
+      ok: true,
+      amount: 15005,
+      commissions: 90.03,
+      disclaimers: [{ code: "RIESGO", description: "Operar implica riesgos" }],
+    });
+  });
+
+  it("returns 500 when PPI rejects the budget", async () => {
+    mockGetBudget.mockRejectedValue(new Error("PPI API error: 400"));
+
+    const res = await POST(makeRequest(TRADE));
+
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ ok: false, error: "PPI API error: 400" });
+  });
+});
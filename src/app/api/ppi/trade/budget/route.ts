@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { PPIClient } from "@/services/ppi";
+import { getAuthUser } from "@/lib/auth";
+import { decryptCredentials } from "@/lib/crypto";
+import { findBrokerConnection, saveRefreshedCredentials } from "@/lib/broker-connections";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { ppiTradeSchema, parseBody } from "@/lib/api-schemas";
+import { toPPIOrderRequest } from "@/services/shared/mappers";
+import type { PPICredentials } from "@/services/ppi";
+
+/**
+ * POST /api/ppi/trade/budget — price a PPI order without placing it.
+ *
+ * Takes the same body as POST /api/ppi/trade and returns PPI's budget:
+ * amount, commissions and the disclaimers the user has to accept. The
+ * accepted codes go back with the trade itself.
+ */
+export async function POST(request: Request) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // A preview places nothing, so it counts as a quote rather than a trade
+  const rateLimited = await checkRateLimit(user.id, "ppi-quote", RATE_LIMITS.quote);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const raw = await request.json();
+    const [body, validationError] = parseBody(ppiTradeSchema, raw);
+    if (validationError) return validationError;
+
+    const connection = await findBrokerConnection(user.id, "ppi", body.accountId);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "PPI account not connected" },
+        { status: 400 }
+      );
+    }
+
+    const credentials = decryptCredentials<PPICredentials>(connection.credentials);
+    const client = new PPIClient(credentials);
+
+    try {
+      const budget = await client.getBudget(
+        toPPIOrderRequest(body),
+        connection.accountNumber ?? undefined
+      );
+
+      return NextResponse.json({
+        ok: true,
+        amount: budget.Amount ?? null,
+        commissions: budget.Commissions ?? null,
+        disclaimers: (budget.Disclaimers || []).map((d) => ({
+          code: d.Code,
+          description: d.Description,
+        })),
+      });
+    } finally {
+      const updated = client.getCredentials();
+      if (updated.accessToken !== credentials.accessToken) {
+        await saveRefreshedCredentials(connection, updated);
+      }
+    }
+  } catch (error) {
+    console.error("[PPI Trade] Budget Error:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : "Budget failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,401 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextResponse } from "next/server";
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockGetAuthUser = vi.fn();
+vi.mock("@/lib/auth", () => ({
+  getAuthUser: () => mockGetAuthUser(),
+}));
+
+const mockCheckRateLimit = vi.fn();
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  RATE_LIMITS: {
+    trade: { limit: 5, windowSeconds: 60 },
+  },
+}));
+
+const mockDecryptCredentials = vi.fn();
+const mockEncryptCredentials = vi.fn();
+vi.mock("@/lib/crypto", () => ({
+  decryptCredentials: (...args: unknown[]) => mockDecryptCredentials(...args),
+  encryptCredentials: (...args: unknown[]) => mockEncryptCredentials(...args),
+}));
+
+const mockNotify = vi.fn();
+vi.mock("@/lib/notifications", () => ({
+  notify: (...args: unknown[]) => mockNotify(...args),
+}));
+
+const mockTrackPlacedOrder = vi.fn();
+vi.mock("@/lib/order-tracker", () => ({
+  trackPlacedOrder: (...args: unknown[]) => mockTrackPlacedOrder(...args),
+  // Tracked orders' accounts resolve like any other connection lookup
+  findOrderConnection: (...args: unknown[]) => mockFindFirst(...args),
+}));
+
+// Mock PPIClient — must use `class` syntax for `new PPIClient(...)` to work
+const mockPlaceOrder = vi.fn();
+const mockCancelOrder = vi.fn();
+const mockGetAccountNumber = vi.fn();
+const mockGetBalancesAndPositions = vi.fn();
+const mockGetCredentials = vi.fn();
+
+vi.mock("@/services/ppi", () => ({
+  PPIClient: class MockPPIClient {
+    constructor() {}
+    placeOrder = mockPlaceOrder;
+    cancelOrder = mockCancelOrder;
+    getAccountNumber = mockGetAccountNumber;
+    getBalancesAndPositions = mockGetBalancesAndPositions;
+    getCredentials = mockGetCredentials;
+  },
+}));
+
+const mockFindFirst = vi.fn();
+const mockInsertValues = vi.fn();
+const mockUpdateSetWhere = vi.fn();
+
+vi.mock("@/db", () => ({
+  db: {
+    query: {
+      userConnections: {
+        findFirst: (...args: unknown[]) => mockFindFirst(...args),
+      },
+    },
+    insert: () => ({
+      // Awaitable directly or through .returning()
+      values: (...args: unknown[]) =>
+        Object.assign(Promise.resolve(mockInsertValues(...args)), {
+          returning: () => Promise.resolve([{ id: "audit-1" }]),
+        }),
+    }),
+    update: () => ({
+      set: () => ({
+        where: (...args: unknown[]) => mockUpdateSetWhere(...args),
+      }),
+    }),
+  },
+}));
+
+vi.mock("@/db/schema", () => ({
+  userConnections: {
+    userId: "userId",
+    provider: "provider",
+    id: "id",
+  },
+  tradeAuditLog: { id: "id" },
+}));
+
+vi.mock("drizzle-orm", () => ({
+  eq: vi.fn((...args: unknown[]) => args),
+  and: vi.fn((...args: unknown[]) => args),
+}));
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const MOCK_USER = { id: "user-123", email: "test@example.com" };
+
+const MOCK_PPI_CREDENTIALS = {
+  apiKey: "key",
+  apiSecret: "secret",
+  accessToken: "access-abc",
+  refreshToken: "refresh-xyz",
+};
+
+const MOCK_CONNECTION = {
+  id: "conn-2",
+  userId: MOCK_USER.id,
+  provider: "ppi",
+  label: "PPI",
+  accountNumber: null,
+  credentials: "encrypted-credentials",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function validTradeBody(overrides: Record<string, unknown> = {}) {
+  return {
+    action: "buy",
+    instrumentType: "ACCIONES",
+    simbolo: "GGAL",
+    cantidad: 10,
+    precio: 1500.5,
+    plazo: "t1",
+    validez: "2026-03-01",
+    tipoOrden: "precioLimite",
+    ...overrides,
+  };
+}
+
+function makeRequest(body: unknown): Request {
+  return new Request("http://localhost:3000/api/ppi/trade", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-forwarded-for": "192.168.1.1",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function makeDeleteRequest(orderId?: string): Request {
+  const url = orderId
+    ? `http://localhost:3000/api/ppi/trade?orderId=${orderId}`
+    : "http://localhost:3000/api/ppi/trade";
+  return new Request(url, {
+    method: "DELETE",
+    headers: { "x-forwarded-for": "192.168.1.1" },
+  });
+}
+
+function setupDefaults() {
+  mockGetAuthUser.mockResolvedValue(MOCK_USER);
+  mockCheckRateLimit.mockResolvedValue(null);
+  mockFindFirst.mockResolvedValue(MOCK_CONNECTION);
+  mockDecryptCredentials.mockReturnValue(MOCK_PPI_CREDENTIALS);
+  mockEncryptCredentials.mockReturnValue("encrypted-new-credentials");
+  mockGetCredentials.mockReturnValue(MOCK_PPI_CREDENTIALS); // unchanged = no refresh
+  mockGetAccountNumber.mockResolvedValue("ACC-1");
+  mockInsertValues.mockResolvedValue(undefined);
+  mockPlaceOrder.mockResolvedValue({
+    ok: true,
+    orderId: 9876,
+    mensaje: "Orden ingresada",
+  });
+  mockGetBalancesAndPositions.mockResolvedValue({
+    Balances: [],
+    Positions: [{ Ticker: "GGAL", Quantity: 100 }],
+  });
+  mockCancelOrder.mockResolvedValue({
+    ok: true,
+    orderId: 9876,
+    mensaje: "Orden 9876 cancelada",
+  });
+  mockUpdateSetWhere.mockResolvedValue(undefined);
+  mockTrackPlacedOrder.mockResolvedValue({ id: "order-1" });
+}
+
+// ── Import route handlers after mocks ────────────────────────────────────────
+
+const { POST, DELETE: DELETE_HANDLER } = await import("./route");
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setupDefaults();
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// POST /api/ppi/trade
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("POST /api/ppi/trade", () => {
+  it("returns 401 when not authenticated", async () => {
+    mockGetAuthUser.mockResolvedValue(null);
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(401);
+    expect(mockCheckRateLimit).not.toHaveBeenCalled();
+  });
+
+  it("shares the trade rate limit with IOL", async () => {
+    mockCheckRateLimit.mockResolvedValue(
+      NextResponse.json({ error: "Rate limited" }, { status: 429 })
+    );
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(429);
+    expect(mockCheckRateLimit).toHaveBeenCalledWith(MOCK_USER.id, "trade", {
+      limit: 5,
+      windowSeconds: 60,
+    });
+    expect(mockFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 on an unknown instrument type", async () => {
+    const res = await POST(makeRequest(validTradeBody({ instrumentType: "CRYPTO" })));
+
+    expect(res.status).toBe(400);
+    expect(mockPlaceOrder).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 on invalid validez format", async () => {
+    const res = await POST(makeRequest(validTradeBody({ validez: "01/03/2026" })));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("returns 400 when PPI not connected", async () => {
+    mockFindFirst.mockResolvedValue(null);
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.error).toBe("PPI account not connected");
+  });
+
+  it("maps the order to PPI's fields", async () => {
+    await POST(
+      makeRequest(
+        validTradeBody({
+          action: "sell",
+          simbolo: "ggal",
+          plazo: "t0",
+          tipoOrden: "precioMercado",
+        })
+      )
+    );
+
+    expect(mockPlaceOrder).toHaveBeenCalledWith(
+      {
+        ticker: "GGAL",
+        instrumentType: "ACCIONES",
+        operation: "VENTA",
+        quantity: 10,
+        price: 1500.5,
+        settlement: "INMEDIATA",
+        operationType: "PRECIO-MERCADO",
+        operationMaxDate: "2026-03-01",
+      },
+      // The client picks the login's first account itself
+      undefined,
+      []
+    );
+  });
+
+  it("passes on the disclaimers the user accepted", async () => {
+    await POST(makeRequest(validTradeBody({ acceptedDisclaimers: ["RIESGO"] })));
+
+    expect(mockPlaceOrder).toHaveBeenCalledWith(expect.any(Object), undefined, ["RIESGO"]);
+  });
+
+  it("places the order in the connection's own sub-account", async () => {
+    mockFindFirst.mockResolvedValue({ ...MOCK_CONNECTION, accountNumber: "ACC-7" });
+
+    await POST(makeRequest(validTradeBody()));
+
+    expect(mockGetAccountNumber).not.toHaveBeenCalled();
+    expect(mockPlaceOrder).toHaveBeenCalledWith(expect.any(Object), "ACC-7", []);
+  });
+
+  it("returns 400 when selling more than held", async () => {
+    const res = await POST(makeRequest(validTradeBody({ action: "sell", cantidad: 500 })));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.error).toContain("Insufficient holdings");
+    expect(mockPlaceOrder).not.toHaveBeenCalled();
+  });
+
+  it("audits the attempt and the success", async () => {
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json).toMatchObject({ ok: true, numeroOperacion: 9876, mensaje: "Orden ingresada" });
+
+    const statuses = mockInsertValues.mock.calls.map(
+      (call: unknown[]) => (call[0] as Record<string, unknown>).status
+    );
+    expect(statuses).toEqual(["attempted", "success"]);
+    expect(mockInsertValues).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        userId: MOCK_USER.id,
+        mercado: "PPI",
+        simbolo: "GGAL",
+        numeroOperacion: "9876",
+        ip: "192.168.1.1",
+      })
+    );
+  });
+
+  it("tracks the accepted order", async () => {
+    await POST(makeRequest(validTradeBody()));
+
+    expect(mockTrackPlacedOrder).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: MOCK_USER.id,
+        provider: "ppi",
+        externalId: "9876",
+        auditLogId: "audit-1",
+      })
+    );
+  });
+
+  it("audits and notifies a rejected order without tracking it", async () => {
+    mockPlaceOrder.mockResolvedValue({ ok: false, error: "Saldo insuficiente" });
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(400);
+    expect(mockInsertValues).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: "failed", responseMessage: "Saldo insuficiente" })
+    );
+    expect(mockNotify).toHaveBeenCalledWith(
+      MOCK_USER.id,
+      expect.objectContaining({ kind: "order", body: "Saldo insuficiente" })
+    );
+    expect(mockTrackPlacedOrder).not.toHaveBeenCalled();
+  });
+
+  it("stores refreshed credentials", async () => {
+    mockGetCredentials.mockReturnValue({ ...MOCK_PPI_CREDENTIALS, accessToken: "access-new" });
+
+    await POST(makeRequest(validTradeBody()));
+
+    expect(mockEncryptCredentials).toHaveBeenCalledWith(
+      expect.objectContaining({ accessToken: "access-new" })
+    );
+    expect(mockUpdateSetWhere).toHaveBeenCalled();
+  });
+
+  it("returns 500 when the client throws", async () => {
+    mockPlaceOrder.mockRejectedValue(new Error("Network timeout"));
+
+    const res = await POST(makeRequest(validTradeBody()));
+
+    expect(res.status).toBe(500);
+    const json = await res.json();
+    expect(json.error).toBe("Network timeout");
+  });
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE /api/ppi/trade
+// ─────────────────────────────────────────────────────────────────────────────
+
+describe("DELETE /api/ppi/trade", () => {
+  it("returns 400 when orderId is missing or invalid", async () => {
+    expect((await DELETE_HANDLER(makeDeleteRequest())).status).toBe(400);
+    expect((await DELETE_HANDLER(makeDeleteRequest("abc"))).status).toBe(400);
+  });
+
+  it("cancels the order and audits it", async () => {
+    const res = await DELETE_HANDLER(makeDeleteRequest("9876"));
+
+    expect(res.status).toBe(200);
+    expect(mockCancelOrder).toHaveBeenCalledWith(9876, undefined);
+    expect(mockInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "cancel", simbolo: "9876", status: "attempted" })
+    );
+    expect(mockInsertValues).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: "success", responseMessage: "Orden 9876 cancelada" })
+    );
+  });
+
+  it("returns 400 when the cancel fails", async () => {
+    mockCancelOrder.mockResolvedValue({ ok: false, error: "Orden ejecutada" });
+
+    const res = await DELETE_HANDLER(makeDeleteRequest("9876"));
+
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.error).toBe("Orden ejecutada");
+  });
+});
@@ -0,0 +1,297 @@
+import { NextResponse } from "next/server";
+import { PPIClient } from "@/services/ppi";
+import { getAuthUser } from "@/lib/auth";
+import { decryptCredentials } from "@/lib/crypto";
+import { findBrokerConnection, saveRefreshedCredentials } from "@/lib/broker-connections";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { ppiTradeSchema, parseBody } from "@/lib/api-schemas";
+import { notify } from "@/lib/notifications";
+import { trackPlacedOrder, findOrderConnection } from "@/lib/order-tracker";
+import { ppiAdapter } from "@/services/brokers";
+import { mapPPICategory, toPPIOrderRequest } from "@/services/shared/mappers";
+import { db } from "@/db";
+import { tradeAuditLog, type UserConnection } from "@/db/schema";
+import type { PPICredentials } from "@/services/ppi";
+
+/** Marks PPI orders in trade_audit_log.mercado, which PPI has no use for */
+const AUDIT_MARKET = "PPI";
+
+function getClientIp(request: Request): string {
+  const headers = new Headers(request.headers);
+  return (
+    headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+    headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+async function saveCredentials(
+  updated: PPICredentials,
+  credentials: PPICredentials,
+  connection: UserConnection
+): Promise<void> {
+  if (updated.accessToken !== credentials.accessToken) {
+    await saveRefreshedCredentials(connection, updated);
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Rate limit: max 5 trades per minute, shared with IOL
+  const rateLimited = await checkRateLimit(user.id, "trade", RATE_LIMITS.trade);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const raw = await request.json();
+    const [body, validationError] = parseBody(ppiTradeSchema, raw);
+    if (validationError) return validationError;
+
+    const connection = await findBrokerConnection(user.id, "ppi", body.accountId);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "PPI account not connected" },
+        { status: 400 }
+      );
+    }
+
+    const credentials = decryptCredentials<PPICredentials>(connection.credentials);
+    // Without its own account number, the connection is the login's first account
+    const session = ppiAdapter.connect(credentials, connection.accountNumber ?? undefined);
+    const symbolUpper = body.simbolo.toUpperCase();
+
+    // For sell orders, verify the user holds enough shares
+    if (body.action === "sell") {
+      const positions = await session.getPositions();
+      const heldQuantity = positions.find((p) => p.ticker === symbolUpper)?.quantity ?? 0;
+
+      if (heldQuantity < body.cantidad) {
+        await saveCredentials(session.credentials(), credentials, connection);
+        return NextResponse.json(
+          {
+            error: `Insufficient holdings: you have ${heldQuantity} shares of ${symbolUpper}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const order = toPPIOrderRequest(body);
+
+    const clientIp = getClientIp(request);
+    const auditOrder = {
+      userId: user.id,
+      action: body.action,
+      mercado: AUDIT_MARKET,
+      simbolo: order.ticker,
+      cantidad: String(order.quantity),
+      precio: String(order.price),
+      plazo: body.plazo,
+      tipoOrden: body.tipoOrden,
+      ip: clientIp,
+    };
+
+    // Log trade attempt
+    await db.insert(tradeAuditLog).values({ ...auditOrder, status: "attempted" });
+
+    const result = await session.placeOrder({
+      action: body.action,
+      symbol: order.ticker,
+      category: mapPPICategory(body.instrumentType),
+      instrumentType: body.instrumentType,
+      quantity: order.quantity,
+      price: order.price,
+      orderType: body.tipoOrden === "precioMercado" ? "market" : "limit",
+      settlement: body.plazo,
+      validUntil: body.validez,
+      acceptedDisclaimers: body.acceptedDisclaimers,
+    });
+
+    await saveCredentials(session.credentials(), credentials, connection);
+
+    if (!result.ok) {
+      await db.insert(tradeAuditLog).values({
+        ...auditOrder,
+        status: "failed",
+        responseMessage: result.error || "Trade failed",
+      });
+
+      await notify(user.id, {
+        kind: "order",
+        title: `Orden rechazada: ${body.action === "buy" ? "compra" : "venta"} de ${order.ticker}`,
+        body: result.error || "Trade failed",
+        link: "/history",
+        metadata: { action: body.action, simbolo: order.ticker, provider: "ppi" },
+      });
+
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || "Trade failed",
+        },
+        { status: 400 }
+      );
+    }
+
+    const [audit] = await db
+      .insert(tradeAuditLog)
+      .values({
+        ...auditOrder,
+        status: "success",
+        numeroOperacion: result.orderId,
+        responseMessage: result.message,
+      })
+      .returning({ id: tradeAuditLog.id });
+
+    // Follow the order until it fills (see /api/orders/poll)
+    if (result.orderId) {
+      await trackPlacedOrder({
+        userId: user.id,
+        provider: "ppi",
+        externalId: result.orderId,
+        accountId: connection.id,
+        auditLogId: audit?.id,
+        action: body.action,
+        mercado: AUDIT_MARKET,
+        simbolo: order.ticker,
+        quantity: String(order.quantity),
+        price: String(order.price),
+        plazo: body.plazo,
+        tipoOrden: body.tipoOrden,
+        validez: body.validez,
+      });
+    }
+
+    await notify(user.id, {
+      kind: "order",
+      title: `Orden de ${body.action === "buy" ? "compra" : "venta"} enviada: ${order.ticker}`,
+      body: `${order.quantity} a $${order.price} via PPI${result.orderId ? ` · Operacion #${result.orderId}` : ""}`,
+      link: "/history",
+      metadata: {
+        action: body.action,
+        simbolo: order.ticker,
+        provider: "ppi",
+        numeroOperacion: result.orderId ? Number(result.orderId) : null,
+      },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      numeroOperacion: result.orderId ? Number(result.orderId) : undefined,
+      mensaje: result.message,
+      order: {
+        action: body.action,
+        simbolo: order.ticker,
+        cantidad: order.quantity,
+        precio: order.price,
+        plazo: body.plazo,
+      },
+    });
+  } catch (error) {
+    console.error("[PPI Trade] Error:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : "Trade execution failed",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel an existing order
+export async function DELETE(request: Request) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const orderIdParam = searchParams.get("orderId");
+
+    if (!orderIdParam) {
+      return NextResponse.json(
+        { error: "Missing orderId parameter" },
+        { status: 400 }
+      );
+    }
+
+    const orderId = parseInt(orderIdParam, 10);
+    if (isNaN(orderId)) {
+      return NextResponse.json(
+        { error: "Invalid orderId" },
+        { status: 400 }
+      );
+    }
+
+    // Cancel through the account the order was placed from
+    const connection = await findOrderConnection(user.id, "ppi", String(orderId));
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "PPI account not connected" },
+        { status: 400 }
+      );
+    }
+
+    const credentials = decryptCredentials<PPICredentials>(connection.credentials);
+    const client = new PPIClient(credentials);
+    const clientIp = getClientIp(request);
+    const auditCancel = {
+      userId: user.id,
+      action: "cancel",
+      mercado: AUDIT_MARKET,
+      simbolo: String(orderId),
+      ip: clientIp,
+    };
+
+    await db.insert(tradeAuditLog).values({ ...auditCancel, status: "attempted" });
+
+    const result = await client.cancelOrder(orderId, connection.accountNumber ?? undefined);
+
+    await saveCredentials(client.getCredentials(), credentials, connection);
+
+    if (!result.ok) {
+      await db.insert(tradeAuditLog).values({
+        ...auditCancel,
+        status: "failed",
+        responseMessage: result.error || "Cancel failed",
+      });
+
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error || "Cancel failed",
+        },
+        { status: 400 }
+      );
+    }
+
+    await db.insert(tradeAuditLog).values({
+      ...auditCancel,
+      status: "success",
+      responseMessage: result.mensaje,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      mensaje: result.mensaje,
+    });
+  } catch (error) {
+    console.error("[PPI Trade] Cancel Error:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : "Cancel failed",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import {
+  INFLATION_INDICES,
+  indexOnDate,
+  realCostBasis,
+  type InflationIndex,
+  type RealCostBasis,
+} from "@/lib/inflation";
+import {
+  loadArsOpenLots,
+  loadInflationIndex,
+  syncInflationIndex,
+} from "@/lib/inflation-index";
+
+/**
+ * GET /api/real-returns?index=CER
+ *
+ * Inflation factor of each ARS position's cost basis, from its open tax
+ * lots carried forward by CER or UVA to today. The client applies the
+ * factor to the broker's cost to show real P&L.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const index = (request.nextUrl.searchParams.get("index") || "CER").toUpperCase();
+  if (!(INFLATION_INDICES as readonly string[]).includes(index)) {
+    return NextResponse.json({ error: "index must be CER or UVA" }, { status: 400 });
+  }
+
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const syncError = await syncInflationIndex(index as InflationIndex);
+    const [series, lots] = await Promise.all([
+      loadInflationIndex(index as InflationIndex),
+      loadArsOpenLots(user.id),
+    ]);
+
+    const warnings: string[] = [];
+    if (syncError) warnings.push(`BCRA sync incomplete: ${syncError}`);
+    if (series.length === 0) warnings.push(`No ${index} history available`);
+
+    const positions: Record<string, RealCostBasis> = {};
+    for (const [ticker, basis] of realCostBasis(lots, series, today)) {
+      positions[ticker] = basis;
+      if (basis.coverage < 1) {
+        warnings.push(`${ticker}: lots bought before the ${index} history are not adjusted`);
+      }
+    }
+
+    return NextResponse.json({
+      index,
+      asOf: today,
+      indexValue: indexOnDate(series, today),
+      positions,
+      warnings,
+    });
+  } catch (error) {
+    console.error("[Real Returns] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to compute real returns" },
+      { status: 500 }
+    );
+  }
+}
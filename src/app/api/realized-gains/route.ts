@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { realizedGains } from "@/db/schema";
+import { getAuthUser } from "@/lib/auth";
+import { getCostBasisMethod, rebuildUserLedger } from "@/lib/ledger";
+import type { RealizedSale } from "@/lib/tax-lots";
+import { eq, and, gte, lt, type SQL } from "drizzle-orm";
+
+// GET /api/realized-gains?year=2025&assetId=xxx - Realized P&L grouped per sale
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const assetId = searchParams.get("assetId");
+    const year = searchParams.get("year");
+
+    const conditions: SQL[] = [eq(realizedGains.userId, user.id)];
+    if (assetId) conditions.push(eq(realizedGains.assetId, assetId));
+    if (year && /^\d{4}$/.test(year)) {
+      conditions.push(gte(realizedGains.disposedAt, new Date(`${year}-01-01T00:00:00Z`)));
+      conditions.push(lt(realizedGains.disposedAt, new Date(`${Number(year) + 1}-01-01T00:00:00Z`)));
+    }
+
+    const rows = await db.query.realizedGains.findMany({
+      where: and(...conditions),
+      orderBy: (g, { desc }) => [desc(g.disposedAt)],
+      with: { asset: true },
+    });
+
+    // Group lot matches into one entry per sell transaction
+    const bySale = new Map<string, RealizedSale>();
+    for (const row of rows) {
+      const existing = bySale.get(row.sellTransactionId);
+      if (existing) {
+        existing.quantity += Number(row.quantity);
+        existing.proceeds += Number(row.proceeds);
+        existing.costBasis += Number(row.costBasis);
+        existing.realizedPnl += Number(row.realizedPnl);
+        existing.lotsMatched += 1;
+        continue;
+      }
+      bySale.set(row.sellTransactionId, {
+        sellTransactionId: row.sellTransactionId,
+        assetId: row.assetId,
+        ticker: row.asset.ticker,
+        name: row.asset.name,
+        category: row.asset.category,
+        currency: row.currency,
+        method: row.method,
+        disposedAt: row.disposedAt.toISOString(),
+        quantity: Number(row.quantity),
+        proceeds: Number(row.proceeds),
+        costBasis: Number(row.costBasis),
+        realizedPnl: Number(row.realizedPnl),
+        lotsMatched: 1,
+      });
+    }
+
+    const sales = [...bySale.values()];
+    const totals = { USD: 0, ARS: 0 };
+    for (const sale of sales) {
+      totals[sale.currency] += sale.realizedPnl;
+    }
+
+    return NextResponse.json({ sales, totals });
+  } catch (error) {
+    console.error("[Realized Gains] GET Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch realized gains" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/realized-gains - Rebuild every lot from the full transaction history
+export async function POST() {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const rebuilt = await db.transaction(async (tx) => {
+      const method = await getCostBasisMethod(tx, user.id);
+      return rebuildUserLedger(tx, user.id, method);
+    });
+
+    return NextResponse.json({ success: true, rebuilt });
+  } catch (error) {
+    console.error("[Realized Gains] POST Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to rebuild ledger" },
+      { status: 500 }
+    );
+  }
+}
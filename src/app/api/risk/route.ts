@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { db } from "@/db";
+import { portfolioSnapshots } from "@/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { getHistoricalPrices } from "@/services/yahoo/client";
+import { fetchMacroData } from "@/services/macro/client";
+import { loadCashFlows, loadSnapshotInputs } from "@/lib/portfolio-history";
+import { loadUsdCloses } from "@/lib/price-history";
+import { positionKey, weekdaysBetween } from "@/lib/snapshot-replay";
+import type { StoredSnapshotPosition } from "@/lib/position-history";
+import {
+  RISK_FREE_LABELS,
+  RISK_FREE_SOURCES,
+  holdingsReturns,
+  riskMetrics,
+  snapshotReturns,
+  type RiskFreeSource,
+  type WeightedHolding,
+} from "@/lib/risk";
+
+async function riskFreeRate(
+  source: RiskFreeSource,
+  warnings: string[]
+): Promise<number | null> {
+  if (source === "bcra") {
+    const { interestRate } = await fetchMacroData();
+    if (interestRate === null) warnings.push("BCRA rate unavailable: risk-free rate set to 0");
+    return interestRate;
+  }
+
+  // ^IRX quotes the 13-week T-bill yield in percent
+  const { history } = await getHistoricalPrices("^IRX", "index", "1M");
+  const last = history.filter((h) => h.close > 0).at(-1);
+  if (!last) warnings.push("T-bill yield unavailable: risk-free rate set to 0");
+  return last?.close ?? null;
+}
+
+/**
+ * GET /api/risk?days=365&rf=tbill
+ *
+ * Volatility, drawdown, Sharpe/Sortino and one-day VaR for two daily
+ * return series: the realized one from the portfolio snapshots (flows
+ * removed) and today's holdings replayed over their price history.
+ * The risk-free rate is the 13-week T-bill yield or the BCRA policy rate.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get("days") || "365", 10) || 365, 30),
+      1825
+    );
+    const rfParam = searchParams.get("rf") as RiskFreeSource | null;
+    const rfSource: RiskFreeSource =
+      rfParam && RISK_FREE_SOURCES.includes(rfParam) ? rfParam : "tbill";
+
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    const sinceStr = since.toISOString().split("T")[0];
+    const today = new Date().toISOString().split("T")[0];
+
+    const [snapshots, { flows, warnings }, latest] = await Promise.all([
+      loadSnapshotInputs(user.id, sinceStr),
+      loadCashFlows(user.id),
+      db
+        .select({ positions: portfolioSnapshots.positions })
+        .from(portfolioSnapshots)
+        .where(eq(portfolioSnapshots.userId, user.id))
+        .orderBy(desc(portfolioSnapshots.snapshotDate))
+        .limit(1),
+    ]);
+
+    const riskFreePercent = (await riskFreeRate(rfSource, warnings)) ?? 0;
+    const value = snapshots.at(-1)?.totalValue ?? 0;
+
+    // Realized: flow-adjusted returns between snapshots
+    const realized =
+      snapshots.length > 0
+        ? riskMetrics(
+            snapshotReturns(
+              snapshots.map((s) => ({ date: s.date, value: s.totalValue })),
+              flows
+            ),
+            snapshots[0].date,
+            riskFreePercent,
+            value
+          )
+        : null;
+    if (!realized) {
+      warnings.push("Not enough snapshots for realized risk: see current holdings");
+    }
+
+    // Current holdings at their latest snapshot weights
+    const positions = ((latest[0]?.positions ?? []) as StoredSnapshotPosition[]).flatMap((p) =>
+      p?.ticker && p.category && Number(p.value) > 0
+        ? [{ ticker: p.ticker, category: p.category, value: Number(p.value) }]
+        : []
+    );
+
+    const priced = await loadUsdCloses(user.id, positions, since);
+    warnings.push(...priced.warnings);
+    if (priced.unpriced.length > 0) {
+      warnings.push(`No price history for ${priced.unpriced.join(", ")}: left out of holdings risk`);
+    }
+    const holdings: WeightedHolding[] = positions.flatMap((p) => {
+      const closes = priced.closes.get(positionKey(p));
+      return closes ? [{ weight: p.value, closes }] : [];
+    });
+
+    // Measured from the day before the first return, where any listing has history
+    const dates = weekdaysBetween(sinceStr, today);
+    const returns = holdingsReturns(holdings, dates);
+    const start = returns.length > 0 ? dates[dates.indexOf(returns[0].date) - 1] : sinceStr;
+    const current = riskMetrics(returns, start, riskFreePercent, value);
+
+    return NextResponse.json({
+      realized,
+      holdings: current,
+      riskFree: { source: rfSource, label: RISK_FREE_LABELS[rfSource], ratePercent: riskFreePercent },
+      value,
+      warnings,
+    });
+  } catch (error) {
+    console.error("[Risk] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to compute risk metrics" },
+      { status: 500 }
+    );
+  }
+}
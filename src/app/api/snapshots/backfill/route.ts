@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { checkRateLimit, RATE_LIMITS } from "@/lib/rate-limit";
+import { backfillSnapshots } from "@/lib/snapshot-backfill";
+
+/**
+ * POST /api/snapshots/backfill
+ *
+ * Reconstruct the user's past daily snapshots from their transactions and
+ * price history. Real snapshots are kept; reconstructed ones are rewritten.
+ */
+export async function POST() {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rateLimited = await checkRateLimit(user.id, "snapshots-backfill", RATE_LIMITS.backfill);
+  if (rateLimited) return rateLimited;
+
+  try {
+    const summary = await backfillSnapshots(user.id);
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("[Snapshots] Backfill Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to reconstruct snapshots" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser } from "@/lib/auth";
+import { db } from "@/db";
+import { assets, portfolioSnapshots, transactions } from "@/db/schema";
+import { and, eq, gte, sql } from "drizzle-orm";
+import { ASSET_CATEGORIES, type AssetCategory } from "@/lib/constants";
+import { positionSeries, type PositionTrade } from "@/lib/position-history";
+
+/** One holding over time: its snapshot entries plus the trades behind them */
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const ticker = searchParams.get("ticker")?.trim();
+  const category = searchParams.get("category") as AssetCategory | null;
+  if (!ticker || !category || !ASSET_CATEGORIES.includes(category)) {
+    return NextResponse.json({ error: "ticker and category are required" }, { status: 400 });
+  }
+
+  try {
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get("days") || "365", 10) || 365, 1),
+      1825
+    );
+
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    const sinceStr = since.toISOString().split("T")[0];
+
+    // Containment on positions is served by snapshots_positions_idx
+    const snapshots = await db
+      .select({
+        snapshotDate: portfolioSnapshots.snapshotDate,
+        reconstructed: portfolioSnapshots.reconstructed,
+        positions: portfolioSnapshots.positions,
+      })
+      .from(portfolioSnapshots)
+      .where(
+        and(
+          eq(portfolioSnapshots.userId, user.id),
+          gte(portfolioSnapshots.snapshotDate, sinceStr),
+          sql`${portfolioSnapshots.positions} @> ${JSON.stringify([{ ticker, category }])}::jsonb`
+        )
+      )
+      .orderBy(portfolioSnapshots.snapshotDate);
+
+    const rows = await db
+      .select({
+        executedAt: transactions.executedAt,
+        type: transactions.type,
+        quantity: transactions.quantity,
+        pricePerUnit: transactions.pricePerUnit,
+        currency: transactions.currency,
+      })
+      .from(transactions)
+      .innerJoin(assets, eq(transactions.assetId, assets.id))
+      .where(
+        and(
+          eq(transactions.userId, user.id),
+          eq(assets.ticker, ticker),
+          eq(assets.category, category),
+          gte(transactions.executedAt, since)
+        )
+      )
+      .orderBy(transactions.executedAt);
+
+    const trades: PositionTrade[] = rows.map((r) => ({
+      date: r.executedAt.toISOString().split("T")[0],
+      type: r.type,
+      quantity: parseFloat(r.quantity),
+      pricePerUnit: parseFloat(r.pricePerUnit),
+      currency: r.currency,
+    }));
+
+    return NextResponse.json({
+      points: positionSeries(snapshots, ticker, category),
+      trades,
+    });
+  } catch (error) {
+    console.error("[Snapshots] Position history error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch position history" },
+      { status: 500 }
+    );
+  }
+}
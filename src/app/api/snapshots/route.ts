@@ -31,6 +31,9 @@ export async function GET(request: NextRequest) {
         totalPnlPercent: portfolioSnapshots.totalPnlPercent,
         assetCount: portfolioSnapshots.assetCount,
         byCategory: portfolioSnapshots.byCategory,
+        valuationRate: portfolioSnapshots.valuationRate,
+        usdArsRate: portfolioSnapshots.usdArsRate,
+        reconstructed: portfolioSnapshots.reconstructed,
       })
       .from(portfolioSnapshots)
       .where(
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { assets, transactions, realizedGains } from "@/db/schema";
+import { getAuthUser } from "@/lib/auth";
+import { buildLedger } from "@/lib/tax-lots";
+import {
+  summarizeRealizedGains,
+  taxableGains,
+  valueHoldings,
+  type HoldingInput,
+  type TaxReport,
+} from "@/lib/tax-report";
+import { taxReportToCsv, taxReportToPdf } from "@/lib/tax-report-export";
+import { fetchOfficialRate } from "@/services/macro/client";
+import { getCloseOnDate } from "@/services/yahoo/client";
+import { eq, and, gte, lt } from "drizzle-orm";
+
+// GET /api/tax-report?year=2025&format=json|csv|pdf&bnaRate=1045.5
+export async function GET(req: NextRequest) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(req.url);
+    const currentYear = new Date().getUTCFullYear();
+    const yearParam = searchParams.get("year");
+    const year = yearParam && /^\d{4}$/.test(yearParam) ? Number(yearParam) : currentYear - 1;
+    const format = searchParams.get("format") ?? "json";
+
+    if (year > currentYear) {
+      return NextResponse.json({ error: "Year cannot be in the future" }, { status: 400 });
+    }
+    if (!["json", "csv", "pdf"].includes(format)) {
+      return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+    }
+
+    const yearStart = new Date(`${year}-01-01T00:00:00Z`);
+    const yearEnd = new Date(`${year + 1}-01-01T00:00:00Z`);
+    const isOpenYear = year === currentYear;
+    const valuationDate = isOpenYear
+      ? new Date().toISOString().slice(0, 10)
+      : `${year}-12-31`;
+    const warnings: string[] = [];
+
+    // ── BNA official rate (manual override wins) ──
+    let bnaRate: TaxReport["bnaRate"] = null;
+    const override = Number(searchParams.get("bnaRate"));
+    if (override > 0) {
+      bnaRate = { buy: override, date: valuationDate };
+    } else {
+      const official = await fetchOfficialRate(valuationDate);
+      if (official) bnaRate = { buy: official.buy, date: official.date };
+      else warnings.push("No se pudo obtener la cotizacion BNA: los valores en USD no se convirtieron");
+    }
+
+    // ── Holdings at year end ──
+    const userAssets = await db.query.assets.findMany({
+      where: eq(assets.userId, user.id),
+    });
+
+    let holdingInputs: HoldingInput[];
+
+    if (isOpenYear) {
+      holdingInputs = userAssets.map((a) => ({
+        assetId: a.id,
+        ticker: a.ticker,
+        name: a.name,
+        category: a.category,
+        currency: a.currency,
+        quantity: Number(a.quantity),
+        price: Number(a.currentPrice),
+        priceSource: "current",
+      }));
+    } else {
+      // Replay each asset's history up to Dec 31 to get the quantity held then
+      const txns = await db.query.transactions.findMany({
+        where: and(eq(transactions.userId, user.id), lt(transactions.executedAt, yearEnd)),
+      });
+
+      const positions = userAssets
+        .filter((a) => a.createdAt < yearEnd)
+        .map((a) => {
+          const ledger = buildLedger(
+            txns
+              .filter((t) => t.assetId === a.id)
+              .map((t) => ({
+                id: t.id,
+                type: t.type,
+                quantity: Number(t.quantity),
+                pricePerUnit: Number(t.pricePerUnit),
+                executedAt: t.executedAt,
+                createdAt: t.createdAt,
+              })),
+            "fifo",
+            {
+              quantity: Number(a.openingQuantity),
+              costPerUnit: Number(a.openingAveragePrice),
+              openedAt: a.createdAt,
+            }
+          );
+          return { asset: a, quantity: ledger.quantity };
+        })
+        .filter((p) => p.quantity > 0);
+
+      const closeDate = new Date(`${year}-12-31T23:59:59Z`);
+      holdingInputs = await Promise.all(
+        positions.map(async ({ asset: a, quantity }) => {
+          const close =
+            a.category === "cash"
+              ? null
+              : await getCloseOnDate(a.ticker, a.category, closeDate, a.currency);
+          return {
+            assetId: a.id,
+            ticker: a.ticker,
+            name: a.name,
+            category: a.category,
+            currency: a.currency,
+            quantity,
+            price: close ?? Number(a.currentPrice),
+            priceSource: close !== null || a.category === "cash" ? "historical" : "current",
+          } satisfies HoldingInput;
+        })
+      );
+
+      const stale = holdingInputs.filter((h) => h.priceSource === "current");
+      if (stale.length > 0) {
+        warnings.push(
+          `Sin precio de cierre ${year} para ${stale.map((h) => h.ticker).join(", ")}: se usa el precio actual`
+        );
+      }
+    }
+
+    const { holdings, totals: holdingsTotals } = valueHoldings(
+      holdingInputs,
+      bnaRate?.buy ?? 1
+    );
+
+    // ── Realized gains of the year ──
+    const gainRows = await db.query.realizedGains.findMany({
+      where: and(
+        eq(realizedGains.userId, user.id),
+        gte(realizedGains.disposedAt, yearStart),
+        lt(realizedGains.disposedAt, yearEnd)
+      ),
+      with: { asset: true },
+    });
+
+    const gains = summarizeRealizedGains(
+      gainRows.map((g) => ({
+        ticker: g.asset.ticker,
+        category: g.asset.category,
+        currency: g.currency,
+        proceeds: Number(g.proceeds),
+        costBasis: Number(g.costBasis),
+        realizedPnl: Number(g.realizedPnl),
+      }))
+    );
+
+    const report: TaxReport = {
+      year,
+      valuationDate,
+      bnaRate,
+      holdings,
+      holdingsTotals,
+      gains,
+      taxableGains: taxableGains(gains),
+      warnings,
+    };
+
+    if (format === "csv") {
+      return new NextResponse(taxReportToCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="reporte-impositivo-${year}.csv"`,
+        },
+      });
+    }
+
+    if (format === "pdf") {
+      return new NextResponse(Buffer.from(taxReportToPdf(report)), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="reporte-impositivo-${year}.pdf"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[Tax Report] GET Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to build tax report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { transactions, assets } from "@/db/schema";
+import { transactionUpdateSchema } from "@/lib/validators";
+import { getAuthUser } from "@/lib/auth";
+import { getCostBasisMethod, rebuildAssetLedger } from "@/lib/ledger";
+import { eq, and } from "drizzle-orm";
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const parsed = transactionUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { message: "Validation failed", errors: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { executedAt, ...fields } = parsed.data;
+
+    const result = await db.transaction(async (tx) => {
+      const existing = await tx.query.transactions.findFirst({
+        where: and(eq(transactions.id, id), eq(transactions.userId, user.id)),
+        with: { asset: true },
+      });
+
+      if (!existing) return null;
+
+      const quantity = fields.quantity ?? Number(existing.quantity);
+      const pricePerUnit = fields.pricePerUnit ?? Number(existing.pricePerUnit);
+
+      const [txn] = await tx
+        .update(transactions)
+        .set({
+          type: fields.type,
+          currency: fields.currency,
+          notes: fields.notes,
+          quantity: quantity.toString(),
+          pricePerUnit: pricePerUnit.toString(),
+          totalAmount: (quantity * pricePerUnit).toString(),
+          executedAt: executedAt ? new Date(executedAt) : undefined,
+        })
+        .where(eq(transactions.id, id))
+        .returning();
+
+      // Editing a past row can change every later lot match — replay them all
+      const method = await getCostBasisMethod(tx, user.id);
+      await rebuildAssetLedger(tx, existing.asset, method);
+
+      return txn;
+    });
+
+    if (!result) {
+      return NextResponse.json({ message: "Transaction not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("[Transactions PATCH] Error:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Failed to update" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+
+    const deleted = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .delete(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, user.id)))
+        .returning();
+
+      if (!row) return null;
+
+      const asset = await tx.query.assets.findFirst({
+        where: and(eq(assets.id, row.assetId), eq(assets.userId, user.id)),
+      });
+
+      if (asset) {
+        const method = await getCostBasisMethod(tx, user.id);
+        await rebuildAssetLedger(tx, asset, method);
+      }
+
+      return row;
+    });
+
+    if (!deleted) {
+      return NextResponse.json({ message: "Transaction not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Transactions DELETE] Error:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Failed to delete" },
+      { status: 500 }
+    );
+  }
+}
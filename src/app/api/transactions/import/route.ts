@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { transactions, assets, userConnections, type Asset } from "@/db/schema";
+import {
+  transactionImportRowSchema,
+  transactionImportSchema,
+  type TransactionImportRow,
+} from "@/lib/validators";
+import { getAuthUser } from "@/lib/auth";
+import { getCostBasisMethod, rebuildAssetLedger } from "@/lib/ledger";
+import {
+  importAssetKey,
+  importDuplicateKey,
+  importedPosition,
+  type ImportRowResult,
+} from "@/lib/transaction-import";
+import { and, eq } from "drizzle-orm";
+
+// Best-effort echo of an invalid row so the preview can still show it
+function echoInvalid(raw: unknown, index: number, errors: string[]): ImportRowResult {
+  const r = (raw ?? {}) as Record<string, unknown>;
+  return {
+    line: typeof r.line === "number" ? r.line : index + 1,
+    ticker: String(r.ticker ?? ""),
+    type: r.type === "sell" ? "sell" : "buy",
+    quantity: Number(r.quantity) || 0,
+    pricePerUnit: Number(r.pricePerUnit) || 0,
+    currency: r.currency === "ARS" ? "ARS" : "USD",
+    executedAt: String(r.executedAt ?? ""),
+    status: "invalid",
+    errors,
+    newAsset: false,
+  };
+}
+
+/**
+ * POST /api/transactions/import
+ *
+ * Validates normalized rows (parsed client-side from a broker export) and
+ * flags duplicates of already recorded trades. Rows attach to the asset with
+ * the same ticker, category and account (when the import targets one). With
+ * `dryRun: false`, the valid rows are inserted in a single DB transaction:
+ * missing assets are created and every touched asset's ledger is rebuilt.
+ */
+export async function POST(req: NextRequest) {
+  const user = await getAuthUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json();
+  const parsed = transactionImportSchema.safeParse(body);
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { message: "Validation failed", errors: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  const { rows, defaultCategory, source, dryRun } = parsed.data;
+  const accountId = parsed.data.accountId ?? null;
+
+  try {
+    if (accountId) {
+      const account = await db.query.userConnections.findFirst({
+        where: and(eq(userConnections.id, accountId), eq(userConnections.userId, user.id)),
+      });
+      if (!account) {
+        return NextResponse.json({ message: "Account not found" }, { status: 404 });
+      }
+    }
+
+    const userAssets = await db.query.assets.findMany({
+      where: eq(assets.userId, user.id),
+    });
+    const assetByKey = new Map(userAssets.map((a) => [importAssetKey(a), a] as const));
+    const keyOf = (ticker: string) =>
+      importAssetKey({ ticker, category: defaultCategory, accountId });
+    const assetFor = (ticker: string): Asset | undefined => assetByKey.get(keyOf(ticker));
+
+    const existing = await db.query.transactions.findMany({
+      where: eq(transactions.userId, user.id),
+      with: { asset: true },
+    });
+    const seen = new Set(
+      existing.map((t) =>
+        importDuplicateKey({
+          accountId: t.asset.accountId,
+          ticker: t.asset.ticker,
+          type: t.type,
+          quantity: Number(t.quantity),
+          pricePerUnit: Number(t.pricePerUnit),
+          executedAt: t.executedAt,
+        })
+      )
+    );
+
+    // ── Validate + dedupe (against the DB and earlier rows in the file) ──
+    const results: ImportRowResult[] = [];
+    const toInsert: TransactionImportRow[] = [];
+
+    rows.forEach((raw, index) => {
+      const row = transactionImportRowSchema.safeParse(raw);
+      if (!row.success) {
+        results.push(echoInvalid(raw, index, row.error.issues.map((i) => i.message)));
+        return;
+      }
+
+      const key = importDuplicateKey({ ...row.data, accountId });
+      const duplicate = seen.has(key);
+      seen.add(key);
+      if (!duplicate) toInsert.push(row.data);
+
+      results.push({
+        line: row.data.line,
+        ticker: row.data.ticker,
+        type: row.data.type,
+        quantity: row.data.quantity,
+        pricePerUnit: row.data.pricePerUnit,
+        currency: row.data.currency,
+        executedAt: row.data.executedAt,
+        status: duplicate ? "duplicate" : "valid",
+        errors: [],
+        newAsset: !assetFor(row.data.ticker),
+      });
+    });
+
+    const summary = {
+      valid: results.filter((r) => r.status === "valid").length,
+      duplicate: results.filter((r) => r.status === "duplicate").length,
+      invalid: results.filter((r) => r.status === "invalid").length,
+      newAssets: new Set(toInsert.filter((r) => !assetFor(r.ticker)).map((r) => r.ticker)).size,
+    };
+
+    if (dryRun || toInsert.length === 0) {
+      return NextResponse.json({ rows: results, summary, imported: 0 });
+    }
+
+    // ── Commit: all rows or none ──
+    const notes = source ? `Importado (${source})` : "Importado";
+
+    const imported = await db.transaction(async (tx) => {
+      for (const row of toInsert) {
+        if (assetFor(row.ticker)) continue;
+        const [created] = await tx
+          .insert(assets)
+          .values({
+            userId: user.id,
+            accountId,
+            ticker: row.ticker,
+            name: row.ticker,
+            category: defaultCategory,
+            currency: row.currency,
+          })
+          .returning();
+        assetByKey.set(keyOf(row.ticker), created);
+      }
+
+      await tx.insert(transactions).values(
+        toInsert.map((row) => ({
+          userId: user.id,
+          assetId: assetFor(row.ticker)!.id,
+          type: row.type,
+          quantity: row.quantity.toString(),
+          pricePerUnit: row.pricePerUnit.toString(),
+          totalAmount: (row.quantity * row.pricePerUnit).toString(),
+          currency: row.currency,
+          executedAt: new Date(row.executedAt),
+          notes: row.notes ?? notes,
+          source: "import" as const,
+        }))
+      );
+
+      // Replay each touched asset so its lots and realized P&L reflect the
+      // imported history; see importedPosition for what happens to the
+      // position itself
+      const method = await getCostBasisMethod(tx, user.id);
+      const touched = new Set(toInsert.map((r) => r.ticker));
+      for (const ticker of touched) {
+        let asset = assetFor(ticker)!;
+        const { updatePosition, openingQuantity, openingAveragePrice } = importedPosition(
+          {
+            accountId: asset.accountId,
+            openingQuantity: Number(asset.openingQuantity),
+            openingAveragePrice: Number(asset.openingAveragePrice),
+          },
+          toInsert.filter((r) => r.ticker === ticker)
+        );
+        if (
+          openingQuantity !== Number(asset.openingQuantity) ||
+          openingAveragePrice !== Number(asset.openingAveragePrice)
+        ) {
+          [asset] = await tx
+            .update(assets)
+            .set({
+              openingQuantity: openingQuantity.toString(),
+              openingAveragePrice: openingAveragePrice.toString(),
+              updatedAt: new Date(),
+            })
+            .where(eq(assets.id, asset.id))
+            .returning();
+        }
+        await rebuildAssetLedger(tx, asset, method, { updatePosition });
+      }
+
+      return toInsert.length;
+    });
+
+    return NextResponse.json({ rows: results, summary, imported }, { status: 201 });
+  } catch (error) {
+    console.error("[Transactions Import] Error:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Import failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { db } from "@/db";
 import { transactions, assets } from "@/db/schema";
 import { transactionInsertSchema } from "@/lib/validators";
 import { getAuthUser } from "@/lib/auth";
+import { getCostBasisMethod, rebuildAssetLedger } from "@/lib/ledger";
 import { eq, and } from "drizzle-orm";
 
 export async function GET(req: NextRequest) {
@@ -45,10 +46,18 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const { assetId, type, quantity, pricePerUnit, totalAmount, currency, notes } =
-    parsed.data;
-
-  // Wrap asset read + transaction insert + asset update in a DB transaction
+  const {
+    assetId,
+    type,
+    quantity,
+    pricePerUnit,
+    totalAmount,
+    currency,
+    executedAt,
+    notes,
+  } = parsed.data;
+
+  // Wrap asset read + transaction insert + ledger rebuild in a DB transaction
   // to prevent race conditions on concurrent requests for the same asset
   const result = await db.transaction(async (tx) => {
     // Verify asset belongs to user (read within transaction)
@@ -69,35 +78,15 @@ export async function POST(req: NextRequest) {
         pricePerUnit: pricePerUnit.toString(),
         totalAmount: totalAmount.toString(),
         currency,
+        executedAt: executedAt ? new Date(executedAt) : undefined,
         notes,
       })
       .returning();
 
-    // Update asset quantity and average price
-    const currentQty = Number(asset.quantity);
-    const currentAvgPrice = Number(asset.averagePrice);
-
-    let newQty: number;
-    let newAvgPrice: number;
-
-    if (type === "buy") {
-      const totalCost = currentQty * currentAvgPrice + quantity * pricePerUnit;
-      newQty = currentQty + quantity;
-      newAvgPrice = newQty > 0 ? totalCost / newQty : 0;
-    } else {
-      // sell
-      newQty = Math.max(0, currentQty - quantity);
-      newAvgPrice = currentAvgPrice; // Average price doesn't change on sell
-    }
-
-    await tx
-      .update(assets)
-      .set({
-        quantity: newQty.toString(),
-        averagePrice: newAvgPrice.toString(),
-        updatedAt: new Date(),
-      })
-      .where(eq(assets.id, assetId));
+    // Replay the asset's lots so quantity, average price and realized P&L
+    // stay consistent even when the new row is backdated
+    const method = await getCostBasisMethod(tx, user.id);
+    await rebuildAssetLedger(tx, asset, method);
 
     return txn;
   });
@@ -1,14 +1,22 @@
 "use client";
 
 import { useState } from "react";
-import { RefreshCw, Loader2, History, Clock, CheckCircle, XCircle, Download } from "lucide-react";
+import { RefreshCw, Loader2, History, Clock, CheckCircle, XCircle, Download, Upload, ListChecks } from "lucide-react";
 import { useIOLOperations, type OperationStatus } from "@/hooks/useIOLOperations";
+import { useOrders, usePollOrders } from "@/hooks/useOrders";
 import OperationsTable from "@/components/history/OperationsTable";
-import { cn } from "@/lib/utils";
+import OrdersTable from "@/components/history/OrdersTable";
+import RealizedGainsTable from "@/components/history/RealizedGainsTable";
+import { useRealizedGains } from "@/hooks/useRealizedGains";
+import { useAppStore } from "@/stores/useAppStore";
+import { cn, formatCurrency } from "@/lib/utils";
 import { downloadCSV } from "@/lib/csv";
 import { ErrorBoundary } from "@/components/ui/ErrorBoundary";
 
-const TABS: { value: OperationStatus; label: string; icon: React.ReactNode }[] = [
+type Tab = OperationStatus | "ordenes";
+
+const TABS: { value: Tab; label: string; icon: React.ReactNode }[] = [
+  { value: "ordenes", label: "Mis ordenes", icon: <ListChecks className="h-4 w-4" /> },
   { value: "todas", label: "Todas", icon: <History className="h-4 w-4" /> },
   { value: "pendientes", label: "Pendientes", icon: <Clock className="h-4 w-4" /> },
   { value: "terminadas", label: "Completadas", icon: <CheckCircle className="h-4 w-4" /> },
@@ -16,13 +24,26 @@ const TABS: { value: OperationStatus; label: string; icon: React.ReactNode }[] =
 ];
 
 export default function HistoryPage() {
-  const [activeTab, setActiveTab] = useState<OperationStatus>("todas");
+  const [activeTab, setActiveTab] = useState<Tab>("todas");
+  const showOrders = activeTab === "ordenes";
 
   const { data, isLoading, error, refetch, isFetching } = useIOLOperations({
-    status: activeTab,
+    status: showOrders ? "todas" : activeTab,
+    enabled: !showOrders,
   });
+  const ordersQuery = useOrders();
+  const pollOrders = usePollOrders();
 
   const operations = data?.operations || [];
+  const trackedOrders = ordersQuery.data?.orders ?? [];
+  const refreshing = showOrders ? pollOrders.isPending : isFetching;
+  const openImportDialog = useAppStore((s) => s.openImportDialog);
+
+  const {
+    data: realized,
+    isLoading: realizedLoading,
+    error: realizedError,
+  } = useRealizedGains();
 
   const handleExportCSV = () => {
     const headers = [
@@ -58,7 +79,17 @@ export default function HistoryPage() {
           </div>
 
           <div className="flex items-center gap-2">
-            {operations.length > 0 && (
+            <button
+              onClick={openImportDialog}
+              aria-label="Importar operaciones desde un archivo"
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg
+                         bg-zinc-800 hover:bg-zinc-700
+                         text-sm font-medium transition-colors"
+            >
+              <Upload className="h-4 w-4" />
+              <span className="hidden sm:inline">Importar</span>
+            </button>
+            {!showOrders && operations.length > 0 && (
               <button
                 onClick={handleExportCSV}
                 aria-label="Exportar operaciones como CSV"
@@ -71,14 +102,14 @@ export default function HistoryPage() {
               </button>
             )}
             <button
-              onClick={() => refetch()}
-              disabled={isFetching}
+              onClick={() => (showOrders ? pollOrders.mutate() : refetch())}
+              disabled={refreshing}
               aria-label="Actualizar historial de operaciones"
               className="inline-flex items-center gap-2 px-3 py-2 rounded-lg
                          bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50
                          text-sm font-medium transition-colors"
             >
-              {isFetching ? (
+              {refreshing ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : (
                 <RefreshCw className="h-4 w-4" />
@@ -103,9 +134,9 @@ export default function HistoryPage() {
             >
               {tab.icon}
               {tab.label}
-              {tab.value === activeTab && data && (
+              {tab.value === activeTab && (showOrders ? ordersQuery.data : data) && (
                 <span className="ml-1 text-xs text-zinc-500">
-                  ({operations.length})
+                  ({showOrders ? trackedOrders.length : operations.length})
                 </span>
               )}
             </button>
@@ -113,11 +144,50 @@ export default function HistoryPage() {
         </div>
 
         {/* Table */}
-        <OperationsTable
-          operations={operations}
-          isLoading={isLoading}
-          error={error}
-        />
+        {showOrders ? (
+          <OrdersTable
+            orders={trackedOrders}
+            isLoading={ordersQuery.isLoading}
+            error={ordersQuery.error}
+          />
+        ) : (
+          <OperationsTable
+            operations={operations}
+            isLoading={isLoading}
+            error={error}
+          />
+        )}
+
+        {/* Realized P&L (tax-lot ledger) */}
+        <div className="space-y-3">
+          <div className="flex items-end justify-between">
+            <div>
+              <h2 className="text-base font-semibold">Ganancias Realizadas</h2>
+              <p className="text-xs text-zinc-500">
+                Resultado de cada venta segun el metodo de costo elegido en Configuracion
+              </p>
+            </div>
+            {realized && realized.sales.length > 0 && (
+              <div data-sensitive className="text-right text-xs font-mono space-y-0.5">
+                {(["USD", "ARS"] as const)
+                  .filter((c) => realized.totals[c] !== 0)
+                  .map((c) => (
+                    <p
+                      key={c}
+                      className={realized.totals[c] >= 0 ? "text-emerald-400" : "text-red-400"}
+                    >
+                      {formatCurrency(realized.totals[c], c)}
+                    </p>
+                  ))}
+              </div>
+            )}
+          </div>
+          <RealizedGainsTable
+            sales={realized?.sales ?? []}
+            isLoading={realizedLoading}
+            error={realizedError}
+          />
+        </div>
 
         {/* Footer */}
         <div className="text-xs text-zinc-500 text-center">
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, AlertCircle, AlertTriangle } from "lucide-react";
+import { useIncomeCalendar } from "@/hooks/useIncomeCalendar";
+import IncomeMonthlyChart from "@/components/income/IncomeMonthlyChart";
+import IncomeMonthList from "@/components/income/IncomeMonthList";
+import { formatCurrency } from "@/lib/utils";
+import { ErrorBoundary } from "@/components/ui/ErrorBoundary";
+
+const HORIZONS = [6, 12, 24] as const;
+
+export default function IncomePage() {
+  const [months, setMonths] = useState<number>(12);
+  const { data, isLoading, error } = useIncomeCalendar(months);
+
+  return (
+    <ErrorBoundary>
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-bold">Calendario de Rentas</h1>
+            <p className="text-sm text-zinc-500">
+              Cupones, amortizaciones y dividendos proyectados de tus posiciones
+            </p>
+          </div>
+
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            aria-label="Horizonte"
+            className="px-3 py-2 rounded-lg bg-zinc-800 text-sm font-medium
+                       border border-zinc-700 focus:outline-none focus:border-zinc-500"
+          >
+            {HORIZONS.map((h) => (
+              <option key={h} value={h}>
+                Proximos {h} meses
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+            <span className="ml-2 text-sm text-zinc-500">Proyectando pagos...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center py-12 text-red-400">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span className="text-sm">{error.message}</span>
+          </div>
+        )}
+
+        {data && (
+          <>
+            {data.warnings.length > 0 && (
+              <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4 space-y-1">
+                {data.warnings.map((w) => (
+                  <p key={w} className="flex items-start gap-2 text-xs text-amber-400">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    {w}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {/* Totals */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="rounded-xl border border-zinc-800/80 bg-zinc-900/50 p-4">
+                <p className="text-xs text-zinc-500 uppercase tracking-wider">Total USD</p>
+                <p data-sensitive className="text-lg font-mono font-semibold text-emerald-400 mt-1">
+                  {formatCurrency(data.totals.USD, "USD")}
+                </p>
+              </div>
+              <div className="rounded-xl border border-zinc-800/80 bg-zinc-900/50 p-4">
+                <p className="text-xs text-zinc-500 uppercase tracking-wider">Total ARS</p>
+                <p data-sensitive className="text-lg font-mono font-semibold text-sky-400 mt-1">
+                  {formatCurrency(data.totals.ARS, "ARS")}
+                </p>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-zinc-800/80 bg-zinc-900/50 p-4">
+              <IncomeMonthlyChart months={data.months} />
+            </div>
+
+            <IncomeMonthList months={data.months} />
+
+            {/* Footer */}
+            <div className="text-xs text-zinc-500 text-center">
+              Bonos segun condiciones de emision · Dividendos estimados con el ultimo pago y su frecuencia
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+    </ErrorBoundary>
+  );
+}
@@ -39,7 +39,7 @@ export default function MepPage() {
     isFetching,
   } = useIOLMep({ amount: debouncedAmount, direction });
 
-  const { rate: blueRate, isLive: isBlueRateLive } = useExchangeRate();
+  const { rate: blueRate, isLive: isBlueRateLive } = useExchangeRate("blue");
 
   const pairs = data?.pairs || [];
   const averageRate = data?.averageRate || 0;
@@ -14,6 +14,7 @@ import {
   Sparkles,
   FileText,
   Wallet,
+  Scale,
 } from "lucide-react";
 
 const PortfolioAdvisorCard = dynamic(
@@ -40,6 +41,9 @@ const NewsSentiment = dynamic(
 const ChatPanel = dynamic(
   () => import("@/components/portfolio/ChatPanel")
 );
+const RebalancePlanner = dynamic(
+  () => import("@/components/portfolio/RebalancePlanner")
+);
 const ReportAnalyzerSection = dynamic(
   () => import("@/components/portfolio/ReportAnalyzerSection")
 );
@@ -69,6 +73,19 @@ export default function DashboardPage() {
         </ErrorBoundary>
       </div>
 
+      {/* Rebalancing planner */}
+      <div className="animate-fade-in-up stagger-2">
+        <ErrorBoundary>
+          <CollapsibleSection
+            title="Rebalanceo"
+            icon={<Scale className="h-4 w-4 text-blue-400" />}
+            defaultOpen={false}
+          >
+            <RebalancePlanner />
+          </CollapsibleSection>
+        </ErrorBoundary>
+      </div>
+
       {/* 3. Market Intelligence (2-col) */}
       <div className="animate-fade-in-up stagger-3 grid gap-4 md:grid-cols-2">
         <ErrorBoundary>
@@ -16,6 +16,30 @@ import {
 import { relativeDate } from "@/lib/utils";
 import { ErrorBoundary } from "@/components/ui/ErrorBoundary";
 import { EmailPreferences } from "@/components/settings/EmailPreferences";
+import { CostBasisSettings } from "@/components/settings/CostBasisSettings";
+import { ValuationRateSettings } from "@/components/settings/ValuationRateSettings";
+import { ConditionalOrderSettings } from "@/components/settings/ConditionalOrderSettings";
+import { ConnectionHealth } from "@/components/settings/ConnectionHealth";
+import { SnapshotBackfillSettings } from "@/components/settings/SnapshotBackfillSettings";
+import {
+  AccountLabelInput,
+  BrokerAccountList,
+  NEW_ACCOUNT,
+  accountFormFields,
+} from "@/components/settings/BrokerAccountList";
+import { BROKERS_KEY, type BrokerAccount } from "@/hooks/useBrokers";
+
+interface ConnectionStatus {
+  connected: boolean;
+  updatedAt: string | null;
+  accounts: BrokerAccount[];
+}
+
+/** The account a reconnect link (`/settings?reconnect=<id>`) opens, if listed */
+function reconnectTarget(status: ConnectionStatus): string | null {
+  const accountId = new URLSearchParams(window.location.search).get("reconnect");
+  return status.accounts?.some((a) => a.id === accountId) ? accountId : null;
+}
 
 export default function SettingsPage() {
   const { user, loading: authLoading } = useAuth();
@@ -51,6 +75,9 @@ export default function SettingsPage() {
           </div>
         </div>
 
+        {/* Broker connection health */}
+        <ConnectionHealth />
+
         {/* IOL Connection */}
         <IOLConnectionCard />
 
@@ -60,6 +87,18 @@ export default function SettingsPage() {
         {/* PPI Connection */}
         <PPIConnectionCard />
 
+        {/* Cost Basis Method */}
+        <CostBasisSettings />
+
+        {/* USD/ARS Valuation Rate */}
+        <ValuationRateSettings />
+
+        {/* Reconstructed snapshots */}
+        <SnapshotBackfillSettings />
+
+        {/* Stop loss / take profit / trailing stops */}
+        <ConditionalOrderSettings />
+
         {/* Email Notifications */}
         <EmailPreferences />
       </div>
@@ -72,12 +111,12 @@ function IOLConnectionCard() {
   const queryClient = useQueryClient();
   const router = useRouter();
   const { addToast } = useToast();
-  const [status, setStatus] = useState<{
-    connected: boolean;
-    updatedAt: string | null;
-  } | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [connecting, setConnecting] = useState(false);
+  // Connect form target once connected: NEW_ACCOUNT or an account to reconnect
+  const [formTarget, setFormTarget] = useState<string | null>(null);
+  const [accountLabel, setAccountLabel] = useState("");
   const [syncing, setSyncing] = useState(false);
 
   // Form state
@@ -86,10 +125,11 @@ function IOLConnectionCard() {
 
   // Fetch connection status
   useEffect(() => {
-    fetch("/api/iol/status")
+    fetch("/api/brokers/iol/status")
       .then((res) => res.json())
       .then((data) => {
         setStatus(data);
+        setFormTarget(reconnectTarget(data));
         setLoading(false);
       })
       .catch(() => setLoading(false));
@@ -98,6 +138,7 @@ function IOLConnectionCard() {
   const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
     setConnecting(true);
+    const accountFields = accountFormFields(formTarget, accountLabel);
 
     try {
       // Try 1: Authenticate directly from browser (bypasses Vercel IP restrictions)
@@ -124,17 +165,17 @@ function IOLConnectionCard() {
       let res;
       if (clientToken) {
         // Store the pre-authenticated token
-        res = await fetch("/api/iol/auth", {
+        res = await fetch("/api/brokers/iol/auth", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ token: clientToken }),
+          body: JSON.stringify({ token: clientToken, ...accountFields }),
         });
       } else {
         // Fallback: server-side auth (works from localhost / Argentine IPs)
-        res = await fetch("/api/iol/auth", {
+        res = await fetch("/api/brokers/iol/auth", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ username, password }),
+          body: JSON.stringify({ username, password, ...accountFields }),
         });
       }
 
@@ -144,7 +185,13 @@ function IOLConnectionCard() {
         throw new Error(data.error || "Error de conexion");
       }
 
-      setStatus({ connected: true, updatedAt: new Date().toISOString() });
+      setStatus({
+        connected: true,
+        updatedAt: new Date().toISOString(),
+        accounts: status?.accounts ?? [],
+      });
+      setFormTarget(null);
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
       addToast("IOL conectado exitosamente!", "success");
 
       // Invalidate portfolio cache and redirect to dashboard
@@ -165,8 +212,9 @@ function IOLConnectionCard() {
     setLoading(true);
 
     try {
-      await fetch("/api/iol/auth", { method: "DELETE" });
-      setStatus({ connected: false, updatedAt: null });
+      await fetch("/api/brokers/iol/auth", { method: "DELETE" });
+      setStatus({ connected: false, updatedAt: null, accounts: [] });
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
       addToast("IOL desconectado", "info");
     } catch {
       addToast("Error al desconectar", "error");
@@ -179,7 +227,7 @@ function IOLConnectionCard() {
     setSyncing(true);
 
     try {
-      const res = await fetch("/api/iol/sync", { method: "POST" });
+      const res = await fetch("/api/brokers/iol/sync", { method: "POST" });
       const data = await res.json();
 
       if (!res.ok) {
@@ -231,7 +279,7 @@ function IOLConnectionCard() {
         )}
       </div>
 
-      {status?.connected ? (
+      {status?.connected && formTarget === null ? (
         <div className="space-y-4">
           {status.updatedAt && (
             <p className="text-xs text-zinc-500">
@@ -239,6 +287,18 @@ function IOLConnectionCard() {
             </p>
           )}
 
+          <BrokerAccountList
+            provider="iol"
+            accounts={status.accounts}
+            onEdit={setFormTarget}
+            onRemoved={(id) =>
+              setStatus((s) => {
+                const accounts = (s?.accounts ?? []).filter((a) => a.id !== id);
+                return { connected: accounts.length > 0, updatedAt: s?.updatedAt ?? null, accounts };
+              })
+            }
+          />
+
           <div className="flex gap-2">
             <button
               onClick={handleSync}
@@ -269,6 +329,13 @@ function IOLConnectionCard() {
       ) : (
         <form onSubmit={handleConnect} className="space-y-4">
           <div className="space-y-3">
+            {formTarget === null || formTarget === NEW_ACCOUNT ? (
+              <AccountLabelInput value={accountLabel} onChange={setAccountLabel} placeholder="IOL Familia" />
+            ) : (
+              <p className="text-xs text-zinc-400">
+                Reconectando {status?.accounts.find((a) => a.id === formTarget)?.label}
+              </p>
+            )}
             <div className="space-y-1.5">
               <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
                 Usuario / Email de IOL
@@ -322,6 +389,15 @@ function IOLConnectionCard() {
             )}
             {connecting ? "Conectando..." : "Conectar a IOL"}
           </button>
+          {status?.connected && (
+            <button
+              type="button"
+              onClick={() => setFormTarget(null)}
+              className="w-full text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            >
+              Cancelar
+            </button>
+          )}
         </form>
       )}
     </div>
@@ -332,12 +408,12 @@ function BinanceConnectionCard() {
   const queryClient = useQueryClient();
   const router = useRouter();
   const { addToast } = useToast();
-  const [status, setStatus] = useState<{
-    connected: boolean;
-    updatedAt: string | null;
-  } | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [connecting, setConnecting] = useState(false);
+  // Connect form target once connected: NEW_ACCOUNT or an account to reconnect
+  const [formTarget, setFormTarget] = useState<string | null>(null);
+  const [accountLabel, setAccountLabel] = useState("");
 
   // Form state
   const [apiKey, setApiKey] = useState("");
@@ -345,10 +421,11 @@ function BinanceConnectionCard() {
 
   // Fetch connection status
   useEffect(() => {
-    fetch("/api/binance/status")
+    fetch("/api/brokers/binance/status")
       .then((res) => res.json())
       .then((data) => {
         setStatus(data);
+        setFormTarget(reconnectTarget(data));
         setLoading(false);
       })
       .catch(() => setLoading(false));
@@ -357,12 +434,13 @@ function BinanceConnectionCard() {
   const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
     setConnecting(true);
+    const accountFields = accountFormFields(formTarget, accountLabel);
 
     try {
-      const res = await fetch("/api/binance/auth", {
+      const res = await fetch("/api/brokers/binance/auth", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ apiKey, apiSecret }),
+        body: JSON.stringify({ apiKey, apiSecret, ...accountFields }),
       });
 
       const data = await res.json();
@@ -371,7 +449,13 @@ function BinanceConnectionCard() {
         throw new Error(data.error || "Error de conexion");
       }
 
-      setStatus({ connected: true, updatedAt: new Date().toISOString() });
+      setStatus({
+        connected: true,
+        updatedAt: new Date().toISOString(),
+        accounts: status?.accounts ?? [],
+      });
+      setFormTarget(null);
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
       addToast("Binance conectado exitosamente!", "success");
 
       // Invalidate portfolio cache and redirect to dashboard
@@ -392,8 +476,9 @@ function BinanceConnectionCard() {
     setLoading(true);
 
     try {
-      await fetch("/api/binance/auth", { method: "DELETE" });
-      setStatus({ connected: false, updatedAt: null });
+      await fetch("/api/brokers/binance/auth", { method: "DELETE" });
+      setStatus({ connected: false, updatedAt: null, accounts: [] });
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
       queryClient.invalidateQueries({ queryKey: ["binance-portfolio"] });
       addToast("Binance desconectado", "info");
     } catch {
@@ -435,7 +520,7 @@ function BinanceConnectionCard() {
         )}
       </div>
 
-      {status?.connected ? (
+      {status?.connected && formTarget === null ? (
         <div className="space-y-4">
           {status.updatedAt && (
             <p className="text-xs text-zinc-500">
@@ -443,6 +528,18 @@ function BinanceConnectionCard() {
             </p>
           )}
 
+          <BrokerAccountList
+            provider="binance"
+            accounts={status.accounts}
+            onEdit={setFormTarget}
+            onRemoved={(id) =>
+              setStatus((s) => {
+                const accounts = (s?.accounts ?? []).filter((a) => a.id !== id);
+                return { connected: accounts.length > 0, updatedAt: s?.updatedAt ?? null, accounts };
+              })
+            }
+          />
+
           <button
             onClick={handleDisconnect}
             className="w-full h-10 rounded-lg border border-zinc-700 bg-zinc-800
@@ -457,6 +554,13 @@ function BinanceConnectionCard() {
       ) : (
         <form onSubmit={handleConnect} className="space-y-4">
           <div className="space-y-3">
+            {formTarget === null || formTarget === NEW_ACCOUNT ? (
+              <AccountLabelInput value={accountLabel} onChange={setAccountLabel} placeholder="Binance Trading" />
+            ) : (
+              <p className="text-xs text-zinc-400">
+                Reconectando {status?.accounts.find((a) => a.id === formTarget)?.label}
+              </p>
+            )}
             <div className="space-y-1.5">
               <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
                 API Key
@@ -520,6 +624,15 @@ function BinanceConnectionCard() {
             )}
             {connecting ? "Conectando..." : "Conectar a Binance"}
           </button>
+          {status?.connected && (
+            <button
+              type="button"
+              onClick={() => setFormTarget(null)}
+              className="w-full text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            >
+              Cancelar
+            </button>
+          )}
         </form>
       )}
     </div>
@@ -530,12 +643,12 @@ function PPIConnectionCard() {
   const queryClient = useQueryClient();
   const router = useRouter();
   const { addToast } = useToast();
-  const [status, setStatus] = useState<{
-    connected: boolean;
-    updatedAt: string | null;
-  } | null>(null);
+  const [status, setStatus] = useState<ConnectionStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [connecting, setConnecting] = useState(false);
+  // Connect form target once connected: NEW_ACCOUNT or an account to reconnect
+  const [formTarget, setFormTarget] = useState<string | null>(null);
+  const [accountLabel, setAccountLabel] = useState("");
   const [syncing, setSyncing] = useState(false);
 
   // Form state — public + private key
@@ -544,10 +657,11 @@ function PPIConnectionCard() {
 
   // Fetch connection status
   useEffect(() => {
-    fetch("/api/ppi/status")
+    fetch("/api/brokers/ppi/status")
       .then((res) => res.json())
       .then((data) => {
         setStatus(data);
+        setFormTarget(reconnectTarget(data));
         setLoading(false);
       })
       .catch(() => setLoading(false));
@@ -556,12 +670,13 @@ function PPIConnectionCard() {
   const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
     setConnecting(true);
+    const accountFields = accountFormFields(formTarget, accountLabel);
 
     try {
-      const res = await fetch("/api/ppi/auth", {
+      const res = await fetch("/api/brokers/ppi/auth", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ apiKey, apiSecret }),
+        body: JSON.stringify({ apiKey, apiSecret, ...accountFields }),
       });
 
       const data = await res.json();
@@ -570,7 +685,13 @@ function PPIConnectionCard() {
         throw new Error(data.error || "Error de conexion");
       }
 
-      setStatus({ connected: true, updatedAt: new Date().toISOString() });
+      setStatus({
+        connected: true,
+        updatedAt: new Date().toISOString(),
+        accounts: status?.accounts ?? [],
+      });
+      setFormTarget(null);
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
       addToast("PPI conectado exitosamente!", "success");
 
       queryClient.invalidateQueries({ queryKey: ["ppi-portfolio"] });
@@ -591,8 +712,9 @@ function PPIConnectionCard() {
     setLoading(true);
 
     try {
-      await fetch("/api/ppi/auth", { method: "DELETE" });
-      setStatus({ connected: false, updatedAt: null });
+      await fetch("/api/brokers/ppi/auth", { method: "DELETE" });
+      setStatus({ connected: false, updatedAt: null, accounts: [] });
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
       queryClient.invalidateQueries({ queryKey: ["ppi-portfolio"] });
       queryClient.invalidateQueries({ queryKey: ["ppi-status"] });
       addToast("PPI desconectado", "info");
@@ -607,7 +729,7 @@ function PPIConnectionCard() {
     setSyncing(true);
 
     try {
-      const res = await fetch("/api/ppi/sync", { method: "POST" });
+      const res = await fetch("/api/brokers/ppi/sync", { method: "POST" });
       const data = await res.json();
 
       if (!res.ok) {
@@ -655,7 +777,7 @@ function PPIConnectionCard() {
         )}
       </div>
 
-      {status?.connected ? (
+      {status?.connected && formTarget === null ? (
         <div className="space-y-4">
           {status.updatedAt && (
             <p className="text-xs text-zinc-500">
@@ -663,6 +785,18 @@ function PPIConnectionCard() {
             </p>
           )}
 
+          <BrokerAccountList
+            provider="ppi"
+            accounts={status.accounts}
+            onEdit={setFormTarget}
+            onRemoved={(id) =>
+              setStatus((s) => {
+                const accounts = (s?.accounts ?? []).filter((a) => a.id !== id);
+                return { connected: accounts.length > 0, updatedAt: s?.updatedAt ?? null, accounts };
+              })
+            }
+          />
+
           <div className="flex gap-2">
             <button
               onClick={handleSync}
@@ -693,6 +827,13 @@ function PPIConnectionCard() {
       ) : (
         <form onSubmit={handleConnect} className="space-y-4">
           <div className="space-y-3">
+            {formTarget === null || formTarget === NEW_ACCOUNT ? (
+              <AccountLabelInput value={accountLabel} onChange={setAccountLabel} placeholder="PPI Personal" />
+            ) : (
+              <p className="text-xs text-zinc-400">
+                Reconectando {status?.accounts.find((a) => a.id === formTarget)?.label}
+              </p>
+            )}
             <div className="space-y-1.5">
               <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
                 Clave Publica
@@ -748,6 +889,15 @@ function PPIConnectionCard() {
             )}
             {connecting ? "Conectando..." : "Conectar a PPI"}
           </button>
+          {status?.connected && (
+            <button
+              type="button"
+              onClick={() => setFormTarget(null)}
+              className="w-full text-xs text-zinc-500 hover:text-zinc-300 transition-colors"
+            >
+              Cancelar
+            </button>
+          )}
         </form>
       )}
     </div>
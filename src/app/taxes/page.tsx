@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, AlertCircle, AlertTriangle, FileText, Download } from "lucide-react";
+import { useTaxReport } from "@/hooks/useTaxReport";
+import TaxHoldingsTable from "@/components/taxes/TaxHoldingsTable";
+import TaxGainsTable from "@/components/taxes/TaxGainsTable";
+import { TAX_CLASS_LABELS } from "@/lib/tax-report";
+import { formatCurrency, cn } from "@/lib/utils";
+import { ErrorBoundary } from "@/components/ui/ErrorBoundary";
+
+const CURRENT_YEAR = new Date().getFullYear();
+const YEARS = Array.from({ length: 5 }, (_, i) => CURRENT_YEAR - i);
+
+export default function TaxesPage() {
+  // Default to the last closed fiscal year (the one being declared)
+  const [year, setYear] = useState(CURRENT_YEAR - 1);
+  const { data: report, isLoading, error } = useTaxReport(year);
+
+  const exportUrl = (format: "csv" | "pdf") =>
+    `/api/tax-report?year=${year}&format=${format}`;
+
+  return (
+    <ErrorBoundary>
+    <div className="min-h-screen bg-zinc-950 text-zinc-100">
+      <div className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-bold">Reporte Impositivo</h1>
+            <p className="text-sm text-zinc-500">
+              Ganancias y Bienes Personales por periodo fiscal
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select
+              value={year}
+              onChange={(e) => setYear(Number(e.target.value))}
+              aria-label="Periodo fiscal"
+              className="px-3 py-2 rounded-lg bg-zinc-800 text-sm font-medium
+                         border border-zinc-700 focus:outline-none focus:border-zinc-500"
+            >
+              {YEARS.map((y) => (
+                <option key={y} value={y}>
+                  {y}
+                  {y === CURRENT_YEAR ? " (en curso)" : ""}
+                </option>
+              ))}
+            </select>
+            <a
+              href={exportUrl("csv")}
+              aria-label="Exportar reporte como CSV"
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg
+                         bg-zinc-800 hover:bg-zinc-700
+                         text-sm font-medium transition-colors"
+            >
+              <Download className="h-4 w-4" />
+              <span className="hidden sm:inline">CSV</span>
+            </a>
+            <a
+              href={exportUrl("pdf")}
+              aria-label="Exportar reporte como PDF"
+              className="inline-flex items-center gap-2 px-3 py-2 rounded-lg
+                         bg-zinc-800 hover:bg-zinc-700
+                         text-sm font-medium transition-colors"
+            >
+              <FileText className="h-4 w-4" />
+              <span className="hidden sm:inline">PDF</span>
+            </a>
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+            <span className="ml-2 text-sm text-zinc-500">Armando reporte {year}...</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center py-12 text-red-400">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            <span className="text-sm">{error.message}</span>
+          </div>
+        )}
+
+        {report && (
+          <>
+            {report.warnings.length > 0 && (
+              <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-4 space-y-1">
+                {report.warnings.map((w) => (
+                  <p key={w} className="flex items-start gap-2 text-xs text-amber-400">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    {w}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {/* Bienes Personales */}
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-end justify-between gap-2">
+                <div>
+                  <h2 className="text-base font-semibold">Bienes Personales</h2>
+                  <p className="text-xs text-zinc-500">
+                    Tenencias al {report.valuationDate}
+                    {report.bnaRate &&
+                      ` · USD valuados a BNA comprador ${formatCurrency(report.bnaRate.buy, "ARS")} (${report.bnaRate.date})`}
+                  </p>
+                </div>
+                <div data-sensitive className="text-right text-xs font-mono space-y-0.5">
+                  <p className="text-zinc-100">
+                    Total {formatCurrency(report.holdingsTotals.totalArs, "ARS")}
+                  </p>
+                  <p className="text-amber-400">
+                    Gravado {formatCurrency(report.holdingsTotals.taxableArs, "ARS")}
+                  </p>
+                  <p className="text-emerald-400">
+                    Exento {formatCurrency(report.holdingsTotals.exemptArs, "ARS")}
+                  </p>
+                  {report.holdingsTotals.substituteArs > 0 && (
+                    <p className="text-zinc-400">
+                      Resp. sustituto {formatCurrency(report.holdingsTotals.substituteArs, "ARS")}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <TaxHoldingsTable holdings={report.holdings} />
+            </div>
+
+            {/* Ganancias */}
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-end justify-between gap-2">
+                <div>
+                  <h2 className="text-base font-semibold">Ganancias</h2>
+                  <p className="text-xs text-zinc-500">
+                    Resultados realizados en {report.year} por clase de instrumento
+                  </p>
+                </div>
+                <div data-sensitive className="text-right text-xs font-mono space-y-0.5">
+                  {(["ARS", "USD"] as const).map((c) => (
+                    <p
+                      key={c}
+                      className={cn(
+                        report.taxableGains[c] >= 0 ? "text-amber-400" : "text-red-400"
+                      )}
+                    >
+                      Gravado {formatCurrency(report.taxableGains[c], c)}
+                    </p>
+                  ))}
+                </div>
+              </div>
+              <TaxGainsTable gains={report.gains} />
+              {report.gains.length > 0 && (
+                <ul className="space-y-1 text-xs text-zinc-500">
+                  {report.gains.map((g) => (
+                    <li key={g.instrumentClass}>
+                      · {TAX_CLASS_LABELS[g.instrumentClass]}: {g.note}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="text-xs text-zinc-500 text-center">
+              Informativo · Verificar con la normativa vigente antes de presentar la DDJJ
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,32 @@
+import { Bell, RefreshCw, ArrowLeftRight, ShieldAlert, FileText, type LucideIcon } from "lucide-react";
+import type { NotificationKind } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+const KIND_STYLES: Record<NotificationKind, { icon: LucideIcon; className: string }> = {
+  price_alert: { icon: Bell, className: "bg-purple-600/20 text-purple-400" },
+  sync_failure: { icon: RefreshCw, className: "bg-amber-600/20 text-amber-400" },
+  order: { icon: ArrowLeftRight, className: "bg-blue-600/20 text-blue-400" },
+  security: { icon: ShieldAlert, className: "bg-red-600/20 text-red-400" },
+  report: { icon: FileText, className: "bg-emerald-600/20 text-emerald-400" },
+};
+
+export default function NotificationKindIcon({
+  kind,
+  size = "md",
+}: {
+  kind: NotificationKind;
+  size?: "sm" | "md";
+}) {
+  const { icon: Icon, className } = KIND_STYLES[kind];
+  return (
+    <div
+      className={cn(
+        "rounded-full flex items-center justify-center shrink-0",
+        size === "sm" ? "h-6 w-6" : "h-8 w-8",
+        className
+      )}
+    >
+      <Icon className={size === "sm" ? "h-3 w-3" : "h-4 w-4"} />
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { usePerformance } from "@/hooks/usePerformance";
+import {
+  PERFORMANCE_WINDOWS,
+  PERFORMANCE_WINDOW_LABELS,
+  type PerformanceSeries,
+  type PerformanceWindow,
+  type WindowPerformance,
+} from "@/lib/performance";
+import { CATEGORY_LABELS, type AssetCategory } from "@/lib/constants";
+import { cn, formatCurrency, formatPercent } from "@/lib/utils";
+
+type Breakdown = "categories" | "positions";
+
+function PercentCell({ value }: { value: number | null | undefined }) {
+  if (value === null || value === undefined) {
+    return <span className="text-zinc-600">—</span>;
+  }
+  return (
+    <span className={value >= 0 ? "text-emerald-400" : "text-red-400"}>
+      {formatPercent(value)}
+    </span>
+  );
+}
+
+function byWindow(windows: WindowPerformance[], window: PerformanceWindow) {
+  return windows.find((w) => w.window === window);
+}
+
+export function PerformancePanel() {
+  const { data, isLoading, error } = usePerformance();
+  const [breakdown, setBreakdown] = useState<Breakdown>("categories");
+
+  if (isLoading) {
+    return (
+      <div className="h-[200px] flex items-center justify-center">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-zinc-600 border-t-amber-400" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="h-[200px] flex items-center justify-center text-zinc-500 text-sm">
+        {error?.message ?? "No performance data available"}
+      </div>
+    );
+  }
+
+  const rows: PerformanceSeries[] = data[breakdown];
+  const labelFor = (key: string) =>
+    breakdown === "categories" ? CATEGORY_LABELS[key as AssetCategory] ?? key : key;
+
+  return (
+    <div className="space-y-4">
+      {data.warnings.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+          <div>{data.warnings.join(". ")}</div>
+        </div>
+      )}
+
+      {/* Whole portfolio */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-zinc-500 border-b border-zinc-800">
+              <th className="text-left font-medium py-2">Window</th>
+              <th className="text-right font-medium py-2">TWR</th>
+              <th className="text-right font-medium py-2">MWR</th>
+              <th className="text-right font-medium py-2">XIRR (ann.)</th>
+              <th className="text-right font-medium py-2">Net flows</th>
+              <th className="text-right font-medium py-2">Gain</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.total.map((w) => (
+              <tr key={w.window} className="border-b border-zinc-800/50">
+                <td className="py-2 text-zinc-300">
+                  {PERFORMANCE_WINDOW_LABELS[w.window]}
+                  {w.partial && (
+                    <span className="ml-1.5 text-[10px] text-zinc-500" title={`Since ${w.startDate}`}>
+                      since {w.startDate}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 text-right tabular-nums"><PercentCell value={w.twrPercent} /></td>
+                <td className="py-2 text-right tabular-nums"><PercentCell value={w.mwrPercent} /></td>
+                <td className="py-2 text-right tabular-nums"><PercentCell value={w.xirrPercent} /></td>
+                <td className="py-2 text-right tabular-nums text-zinc-400" data-sensitive>
+                  {formatCurrency(w.netFlows)}
+                </td>
+                <td
+                  className={cn(
+                    "py-2 text-right tabular-nums",
+                    w.gain >= 0 ? "text-emerald-400" : "text-red-400"
+                  )}
+                  data-sensitive
+                >
+                  {formatCurrency(w.gain)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Breakdown (TWR per window) */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-medium text-zinc-400">Time-weighted return by</h3>
+          <div className="flex items-center gap-1">
+            {(["categories", "positions"] as const).map((b) => (
+              <button
+                key={b}
+                onClick={() => setBreakdown(b)}
+                className={cn(
+                  "px-2 py-0.5 rounded text-xs font-medium transition-colors",
+                  breakdown === b
+                    ? "bg-blue-500/20 text-blue-400"
+                    : "text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+                )}
+              >
+                {b === "categories" ? "Category" : "Position"}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-xs text-zinc-500 py-4 text-center">No history yet</p>
+        ) : (
+          <div className="overflow-x-auto max-h-[320px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-zinc-500 border-b border-zinc-800">
+                  <th className="text-left font-medium py-2">
+                    {breakdown === "categories" ? "Category" : "Ticker"}
+                  </th>
+                  {PERFORMANCE_WINDOWS.map((w) => (
+                    <th key={w} className="text-right font-medium py-2">
+                      {PERFORMANCE_WINDOW_LABELS[w]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className="border-b border-zinc-800/50">
+                    <td className="py-2 text-zinc-300">{labelFor(row.key)}</td>
+                    {PERFORMANCE_WINDOWS.map((w) => (
+                      <td key={w} className="py-2 text-right tabular-nums">
+                        <PercentCell value={byWindow(row.windows, w)?.twrPercent} />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
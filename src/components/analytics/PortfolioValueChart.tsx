@@ -4,6 +4,8 @@ import { useMemo } from "react";
 import {
   AreaChart,
   Area,
+  LineChart,
+  Line,
   XAxis,
   YAxis,
   Tooltip,
@@ -11,7 +13,10 @@ import {
   CartesianGrid,
 } from "recharts";
 import { usePortfolioSnapshots } from "@/hooks/usePortfolioSnapshots";
-import { formatCurrency } from "@/lib/utils";
+import { useBenchmarks } from "@/hooks/useBenchmarks";
+import { BENCHMARK_COLORS, type BenchmarkId } from "@/lib/benchmarks";
+import { VALUATION_RATE_LABELS } from "@/lib/constants";
+import { cn, formatCurrency, formatPercent } from "@/lib/utils";
 import { Clock } from "lucide-react";
 
 interface ChartPoint {
@@ -19,21 +24,179 @@ interface ChartPoint {
   label: string;
   value: number;
   cost: number;
+  /** e.g. "MEP 1185.50" — the rate ARS positions were valued at */
+  rate: string | null;
+  reconstructed: boolean;
 }
 
-export function PortfolioValueChart({ days = 90 }: { days?: number }) {
+function shortDate(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString("es-AR", {
+    day: "2-digit",
+    month: "short",
+  });
+}
+
+function StatCell({ value, suffix = "%" }: { value: number | null; suffix?: string }) {
+  if (value === null) return <span className="text-zinc-600">—</span>;
+  return (
+    <span>
+      {value.toFixed(2)}
+      {suffix}
+    </span>
+  );
+}
+
+/** Portfolio TWR index vs benchmarks, all rebased to 100 */
+function BenchmarkOverlay({ days, benchmarks }: { days: number; benchmarks: BenchmarkId[] }) {
+  const { data, isLoading, error } = useBenchmarks(days, benchmarks);
+
+  const rows = useMemo(() => {
+    if (!data) return [];
+    const byDate = new Map<string, Record<string, number | string>>();
+    for (const p of data.portfolio) {
+      byDate.set(p.date, { date: p.date, label: shortDate(p.date), portfolio: p.index });
+    }
+    for (const b of data.benchmarks) {
+      for (const p of b.points) {
+        const row = byDate.get(p.date);
+        if (row) row[b.id] = p.index;
+      }
+    }
+    return [...byDate.values()];
+  }, [data]);
+
+  if (isLoading) {
+    return (
+      <div className="h-[300px] flex items-center justify-center">
+        <div className="h-6 w-6 animate-spin rounded-full border-2 border-zinc-600 border-t-blue-400" />
+      </div>
+    );
+  }
+
+  if (error || !data || rows.length < 2) {
+    return (
+      <div className="h-[300px] flex items-center justify-center text-zinc-500 text-sm">
+        {error?.message ?? "Not enough snapshots to compare"}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+            <XAxis
+              dataKey="label"
+              tick={{ fill: "#71717a", fontSize: 11 }}
+              axisLine={{ stroke: "#3f3f46" }}
+              tickLine={false}
+            />
+            <YAxis
+              tick={{ fill: "#71717a", fontSize: 11 }}
+              axisLine={false}
+              tickLine={false}
+              domain={["auto", "auto"]}
+              width={40}
+            />
+            <Tooltip
+              contentStyle={{ background: "#18181b", border: "1px solid #3f3f46", borderRadius: 8, fontSize: 12 }}
+              labelStyle={{ color: "#a1a1aa" }}
+              formatter={(v) => (typeof v === "number" ? v.toFixed(1) : v)}
+            />
+            <Line
+              type="monotone"
+              dataKey="portfolio"
+              name="Portfolio"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              dot={false}
+            />
+            {data.benchmarks.map((b) => (
+              <Line
+                key={b.id}
+                type="monotone"
+                dataKey={b.id}
+                name={b.label}
+                stroke={BENCHMARK_COLORS[b.id]}
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-zinc-500 border-b border-zinc-800">
+            <th className="text-left font-medium py-1.5">Benchmark</th>
+            <th className="text-right font-medium py-1.5">Return</th>
+            <th className="text-right font-medium py-1.5">Excess</th>
+            <th className="text-right font-medium py-1.5">Alpha (ann.)</th>
+            <th className="text-right font-medium py-1.5">Beta</th>
+            <th className="text-right font-medium py-1.5">Tracking err.</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.benchmarks.map((b) => (
+            <tr key={b.id} className="border-b border-zinc-800/50 text-zinc-300 tabular-nums">
+              <td className="py-1.5">
+                <span
+                  className="inline-block h-2 w-2 rounded-full mr-1.5"
+                  style={{ backgroundColor: BENCHMARK_COLORS[b.id] }}
+                />
+                {b.label}
+              </td>
+              <td className="py-1.5 text-right">
+                {b.stats ? formatPercent(b.stats.returnPercent) : "—"}
+              </td>
+              <td
+                className={cn(
+                  "py-1.5 text-right",
+                  b.stats && (b.stats.excessPercent >= 0 ? "text-emerald-400" : "text-red-400")
+                )}
+              >
+                {b.stats ? formatPercent(b.stats.excessPercent) : "—"}
+              </td>
+              <td className="py-1.5 text-right"><StatCell value={b.stats?.alphaPercent ?? null} /></td>
+              <td className="py-1.5 text-right"><StatCell value={b.stats?.beta ?? null} suffix="" /></td>
+              <td className="py-1.5 text-right"><StatCell value={b.stats?.trackingErrorPercent ?? null} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {data.warnings.length > 0 && (
+        <p className="text-[11px] text-amber-400/80">{data.warnings.join(". ")}</p>
+      )}
+    </div>
+  );
+}
+
+export function PortfolioValueChart({
+  days = 90,
+  benchmarks = [],
+}: {
+  days?: number;
+  benchmarks?: BenchmarkId[];
+}) {
   const { data: response, isLoading } = usePortfolioSnapshots(days);
 
   const points: ChartPoint[] = useMemo(() => {
     if (!response?.snapshots?.length) return [];
     return response.snapshots.map((s) => ({
       date: s.snapshotDate,
-      label: new Date(s.snapshotDate + "T12:00:00").toLocaleDateString("es-AR", {
-        day: "2-digit",
-        month: "short",
-      }),
+      label: shortDate(s.snapshotDate),
       value: parseFloat(s.totalValueUsd),
       cost: parseFloat(s.totalCostUsd),
+      rate: s.usdArsRate
+        ? `${VALUATION_RATE_LABELS[s.valuationRate]} ${parseFloat(s.usdArsRate).toFixed(2)}`
+        : null,
+      reconstructed: s.reconstructed,
     }));
   }, [response]);
 
@@ -45,13 +208,19 @@ export function PortfolioValueChart({ days = 90 }: { days?: number }) {
     );
   }
 
+  if (points.length > 0 && benchmarks.length > 0) {
+    return <BenchmarkOverlay days={days} benchmarks={benchmarks} />;
+  }
+
   if (points.length === 0) {
     return (
       <div className="h-[300px] flex flex-col items-center justify-center gap-3 text-zinc-500">
         <Clock className="h-8 w-8 text-zinc-500" />
         <div className="text-center">
           <p className="text-sm font-medium text-zinc-400">No historical data yet</p>
-          <p className="text-xs mt-1">Snapshots are captured daily</p>
+          <p className="text-xs mt-1">
+            Snapshots are captured daily; earlier days can be rebuilt in Settings
+          </p>
         </div>
       </div>
     );
@@ -96,6 +265,12 @@ export function PortfolioValueChart({ days = 90 }: { days?: number }) {
                   <p className="font-mono text-zinc-500 text-xs">
                     Cost: {formatCurrency(d.cost)}
                   </p>
+                  {d.rate && (
+                    <p className="font-mono text-zinc-600 text-[11px]">USD/ARS {d.rate}</p>
+                  )}
+                  {d.reconstructed && (
+                    <p className="text-amber-400/80 text-[11px]">Reconstructed from transactions</p>
+                  )}
                 </div>
               );
             }}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import { AlertTriangle } from "lucide-react";
+import { useRiskMetrics } from "@/hooks/useRiskMetrics";
+import { RISK_FREE_LABELS, RISK_FREE_SOURCES, type RiskFreeSource, type RiskMetrics } from "@/lib/risk";
+import { cn, formatCurrency, formatPercent } from "@/lib/utils";
+
+type Series = "realized" | "holdings";
+
+const SERIES_LABELS: Record<Series, string> = {
+  realized: "Realized",
+  holdings: "Current holdings",
+};
+
+const WINDOWS = [
+  { label: "90D", days: 90 },
+  { label: "1Y", days: 365 },
+  { label: "3Y", days: 1095 },
+] as const;
+
+function shortDate(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString("es-AR", {
+    day: "2-digit",
+    month: "short",
+  });
+}
+
+function Toggle<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: readonly { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      {options.map((o) => (
+        <button
+          key={o.value}
+          onClick={() => onChange(o.value)}
+          className={cn(
+            "px-2 py-0.5 rounded text-xs font-medium transition-colors",
+            value === o.value
+              ? "bg-blue-500/20 text-blue-400"
+              : "text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800"
+          )}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function StatCard({
+  label,
+  value,
+  hint,
+  tone,
+}: {
+  label: string;
+  value: string;
+  hint?: string;
+  tone?: "good" | "bad";
+}) {
+  return (
+    <div className="rounded-lg bg-zinc-800/50 p-3">
+      <p className="text-[11px] text-zinc-500 uppercase tracking-wider">{label}</p>
+      <p
+        className={cn(
+          "text-lg font-semibold font-mono tabular-nums",
+          tone === "good" ? "text-emerald-400" : tone === "bad" ? "text-red-400" : "text-zinc-100"
+        )}
+      >
+        {value}
+      </p>
+      {hint && <p className="text-[10px] text-zinc-500">{hint}</p>}
+    </div>
+  );
+}
+
+const ratio = (v: number | null) => (v === null ? "—" : v.toFixed(2));
+
+function Metrics({ metrics }: { metrics: RiskMetrics }) {
+  const dd = metrics.maxDrawdown;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <StatCard
+          label="Volatility (ann.)"
+          value={`${metrics.volatilityPercent.toFixed(2)}%`}
+          hint={`Return ${formatPercent(metrics.annualReturnPercent)} ann.`}
+        />
+        <StatCard
+          label="Max drawdown"
+          value={dd ? `${dd.percent.toFixed(2)}%` : "0.00%"}
+          hint={
+            dd
+              ? `${dd.peakDate} → ${dd.troughDate}${dd.recoveryDate ? "" : " · not recovered"}`
+              : "No drawdown"
+          }
+          tone={dd ? "bad" : undefined}
+        />
+        <StatCard
+          label="Sharpe"
+          value={ratio(metrics.sharpe)}
+          tone={metrics.sharpe === null ? undefined : metrics.sharpe >= 0 ? "good" : "bad"}
+        />
+        <StatCard
+          label="Sortino"
+          value={ratio(metrics.sortino)}
+          tone={metrics.sortino === null ? undefined : metrics.sortino >= 0 ? "good" : "bad"}
+        />
+      </div>
+
+      {/* Underwater: distance below the running high */}
+      <div>
+        <h3 className="text-xs font-medium text-zinc-400 mb-2">Drawdown (underwater)</h3>
+        <div className="h-[180px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={metrics.underwater} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="underwaterGradient" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#ef4444" stopOpacity={0} />
+                  <stop offset="95%" stopColor="#ef4444" stopOpacity={0.35} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+              <XAxis
+                dataKey="date"
+                tickFormatter={shortDate}
+                tick={{ fill: "#71717a", fontSize: 11 }}
+                axisLine={{ stroke: "#3f3f46" }}
+                tickLine={false}
+                minTickGap={24}
+              />
+              <YAxis
+                tick={{ fill: "#71717a", fontSize: 11 }}
+                axisLine={false}
+                tickLine={false}
+                tickFormatter={(v: number) => `${v.toFixed(0)}%`}
+                domain={["auto", 0]}
+                width={40}
+              />
+              <Tooltip
+                contentStyle={{ background: "#18181b", border: "1px solid #3f3f46", borderRadius: 8, fontSize: 12 }}
+                labelStyle={{ color: "#a1a1aa" }}
+                formatter={(v) => [typeof v === "number" ? `${v.toFixed(2)}%` : v, "Drawdown"]}
+              />
+              <Area
+                type="monotone"
+                dataKey="drawdownPercent"
+                stroke="#ef4444"
+                strokeWidth={1.5}
+                fill="url(#underwaterGradient)"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {/* One-day value at risk */}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-zinc-500 border-b border-zinc-800">
+            <th className="text-left font-medium py-1.5">1-day VaR</th>
+            <th className="text-right font-medium py-1.5">Historical</th>
+            <th className="text-right font-medium py-1.5">Parametric</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.valueAtRisk.map((v) => (
+            <tr key={v.confidence} className="border-b border-zinc-800/50 text-zinc-300 tabular-nums">
+              <td className="py-1.5">{v.confidence}%</td>
+              <td className="py-1.5 text-right">
+                {v.historicalPercent.toFixed(2)}%
+                <span className="ml-1.5 text-zinc-500" data-sensitive>
+                  {formatCurrency(v.historicalUsd)}
+                </span>
+              </td>
+              <td className="py-1.5 text-right">
+                {v.parametricPercent.toFixed(2)}%
+                <span className="ml-1.5 text-zinc-500" data-sensitive>
+                  {formatCurrency(v.parametricUsd)}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-[10px] text-zinc-500">
+        {metrics.observations} daily returns · {metrics.startDate} to {metrics.endDate}
+      </p>
+    </div>
+  );
+}
+
+export function RiskPanel() {
+  const [days, setDays] = useState(365);
+  const [rf, setRf] = useState<RiskFreeSource>("tbill");
+  const [series, setSeries] = useState<Series>("realized");
+  const { data, isLoading, error } = useRiskMetrics(days, rf);
+
+  const metrics = data?.[series] ?? null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Toggle
+          options={(["realized", "holdings"] as const).map((s) => ({ value: s, label: SERIES_LABELS[s] }))}
+          value={series}
+          onChange={setSeries}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <Toggle
+            options={RISK_FREE_SOURCES.map((s) => ({ value: s, label: RISK_FREE_LABELS[s] }))}
+            value={rf}
+            onChange={setRf}
+          />
+          <Toggle
+            options={WINDOWS.map((w) => ({ value: w.days, label: w.label }))}
+            value={days}
+            onChange={setDays}
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-[200px] flex items-center justify-center">
+          <div className="h-6 w-6 animate-spin rounded-full border-2 border-zinc-600 border-t-red-400" />
+        </div>
+      ) : error || !data ? (
+        <div className="h-[200px] flex items-center justify-center text-zinc-500 text-sm">
+          {error?.message ?? "No risk data available"}
+        </div>
+      ) : (
+        <>
+          {data.warnings.length > 0 && (
+            <div className="flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              <div>{data.warnings.join(". ")}</div>
+            </div>
+          )}
+
+          {metrics ? (
+            <Metrics metrics={metrics} />
+          ) : (
+            <p className="text-xs text-zinc-500 py-8 text-center">
+              Not enough history for {SERIES_LABELS[series].toLowerCase()} risk
+            </p>
+          )}
+
+          <p className="text-[10px] text-zinc-500">
+            Risk-free: {data.riskFree.label} {data.riskFree.ratePercent.toFixed(2)}%
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
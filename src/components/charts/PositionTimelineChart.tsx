@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  ReferenceDot,
+} from "recharts";
+import { Loader2 } from "lucide-react";
+import { usePositionHistory } from "@/hooks/usePortfolioSnapshots";
+import { tradeMarkers, type PositionPoint } from "@/lib/position-history";
+import { cn, formatCurrency } from "@/lib/utils";
+
+const RANGES = [
+  { label: "3M", days: 90 },
+  { label: "1Y", days: 365 },
+  { label: "5Y", days: 1825 },
+] as const;
+
+const MARKER_COLORS = { buy: "#10b981", sell: "#ef4444", income: "#a78bfa" } as const;
+const TRADE_LABELS = { buy: "Compra", sell: "Venta", income: "Ingreso" } as const;
+
+interface PositionTimelineChartProps {
+  ticker: string;
+  category: string;
+}
+
+const shortDate = (date: string) =>
+  new Date(date + "T12:00:00").toLocaleDateString("es-AR", { day: "2-digit", month: "short" });
+
+/** Quantity, value, cost basis and unrealized P&L of one holding, from the daily snapshots */
+export default function PositionTimelineChart({ ticker, category }: PositionTimelineChartProps) {
+  const [days, setDays] = useState<number>(365);
+  const { data, isLoading, error } = usePositionHistory(ticker, category, days);
+
+  const points = useMemo(() => data?.points ?? [], [data]);
+  const markers = useMemo(() => tradeMarkers(points, data?.trades ?? []), [points, data]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-zinc-500 uppercase tracking-wider">Historial de la posicion</p>
+        <div className="flex items-center gap-1 bg-zinc-800/50 rounded-lg p-0.5">
+          {RANGES.map((r) => (
+            <button
+              key={r.label}
+              onClick={() => setDays(r.days)}
+              className={cn(
+                "px-2.5 py-1 text-xs font-medium rounded-md transition-colors",
+                days === r.days ? "bg-zinc-700 text-zinc-100" : "text-zinc-500 hover:text-zinc-300"
+              )}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-24">
+          <Loader2 className="h-5 w-5 animate-spin text-blue-400" />
+        </div>
+      ) : error ? (
+        <div className="flex items-center justify-center h-24 text-sm text-red-400">
+          {error.message}
+        </div>
+      ) : points.length < 2 ? (
+        <div className="flex items-center justify-center h-24 text-sm text-zinc-500">
+          Sin snapshots suficientes para esta posicion
+        </div>
+      ) : (
+        <>
+          <div className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={points} margin={{ top: 5, right: 0, left: 0, bottom: 0 }}>
+                <defs>
+                  <linearGradient id={`position-${ticker}`} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3} />
+                    <stop offset="95%" stopColor="#3b82f6" stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={shortDate}
+                  tick={{ fill: "#71717a", fontSize: 10 }}
+                  axisLine={{ stroke: "#3f3f46" }}
+                  tickLine={false}
+                  minTickGap={24}
+                />
+                <YAxis
+                  yAxisId="usd"
+                  tick={{ fill: "#71717a", fontSize: 10 }}
+                  axisLine={false}
+                  tickLine={false}
+                  tickFormatter={(v: number) =>
+                    Math.abs(v) >= 1000 ? `$${(v / 1000).toFixed(0)}k` : `$${v.toFixed(0)}`
+                  }
+                  width={45}
+                />
+                <YAxis
+                  yAxisId="qty"
+                  orientation="right"
+                  tick={{ fill: "#52525b", fontSize: 10 }}
+                  axisLine={false}
+                  tickLine={false}
+                  width={35}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload?.length) return null;
+                    const d = payload[0].payload as PositionPoint;
+                    const trades = markers.filter((m) => m.pointDate === d.date);
+                    return (
+                      <div className="rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-2 text-xs shadow-xl space-y-0.5">
+                        <p className="text-zinc-400">{d.date}</p>
+                        <p className="font-mono text-zinc-100">Valor {formatCurrency(d.value)}</p>
+                        <p className="font-mono text-zinc-500">Costo {formatCurrency(d.cost)}</p>
+                        <p className={cn("font-mono", d.pnl >= 0 ? "text-emerald-400" : "text-red-400")}>
+                          P&L {formatCurrency(d.pnl)}
+                        </p>
+                        <p className="font-mono text-zinc-500">Cantidad {d.quantity}</p>
+                        {trades.map((t, i) => (
+                          <p key={i} className="font-mono" style={{ color: MARKER_COLORS[t.type] }}>
+                            {TRADE_LABELS[t.type]} {t.quantity} @ {formatCurrency(t.pricePerUnit, t.currency as "USD" | "ARS")}
+                          </p>
+                        ))}
+                        {d.reconstructed && (
+                          <p className="text-amber-400/80 text-[11px]">Reconstruido desde transacciones</p>
+                        )}
+                      </div>
+                    );
+                  }}
+                />
+                <Area
+                  yAxisId="usd"
+                  type="monotone"
+                  dataKey="value"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  fill={`url(#position-${ticker})`}
+                />
+                <Line
+                  yAxisId="usd"
+                  type="monotone"
+                  dataKey="cost"
+                  stroke="#a1a1aa"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                  dot={false}
+                />
+                <Line
+                  yAxisId="usd"
+                  type="monotone"
+                  dataKey="pnl"
+                  stroke="#f59e0b"
+                  strokeWidth={1.5}
+                  dot={false}
+                />
+                <Line
+                  yAxisId="qty"
+                  type="stepAfter"
+                  dataKey="quantity"
+                  stroke="#52525b"
+                  strokeWidth={1}
+                  dot={false}
+                />
+                {markers.map((m, i) => (
+                  <ReferenceDot
+                    key={i}
+                    yAxisId="usd"
+                    x={m.pointDate}
+                    y={m.value}
+                    r={4}
+                    fill={MARKER_COLORS[m.type]}
+                    stroke="#18181b"
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] text-zinc-500">
+            <span><span className="inline-block h-0.5 w-3 bg-blue-500 align-middle mr-1" />Valor</span>
+            <span><span className="inline-block h-0.5 w-3 bg-zinc-400 align-middle mr-1" />Costo</span>
+            <span><span className="inline-block h-0.5 w-3 bg-amber-500 align-middle mr-1" />P&L</span>
+            <span><span className="inline-block h-0.5 w-3 bg-zinc-600 align-middle mr-1" />Cantidad</span>
+            <span><span className="inline-block h-2 w-2 rounded-full bg-emerald-500 align-middle mr-1" />Compra</span>
+            <span><span className="inline-block h-2 w-2 rounded-full bg-red-500 align-middle mr-1" />Venta</span>
+            <span className="ml-auto font-mono">
+              {points.length} snapshots · {markers.length} operaciones
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,18 @@ import {
   Banknote,
   Clock,
   ArrowLeftRight,
+  TrendingUp,
 } from "lucide-react";
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
 import {
   getBondMeta,
   getMaturityInfo,
@@ -17,6 +28,17 @@ import {
   getBondPairSpread,
 } from "@/lib/bond-metadata";
 import type { BondMetadata } from "@/lib/bond-metadata";
+import {
+  computeBondAnalytics,
+  computeCerBondAnalytics,
+  resolveUsdPrice,
+  sovereignYieldCurve,
+  type BondAnalytics,
+  type BondCashflow,
+  type YieldCurvePoint,
+} from "@/lib/bond-analytics";
+import { cerIndexRatio } from "@/lib/inflation";
+import { useInflationIndex } from "@/hooks/useRealReturns";
 import { cn } from "@/lib/utils";
 
 // ---------------------------------------------------------------------------
@@ -75,6 +97,17 @@ function formatPrice(price: number): string {
   return `$${price.toLocaleString("es-AR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
+function formatNumber(value: number | null, digits = 2): string {
+  return value === null
+    ? "\u2014"
+    : value.toLocaleString("es-AR", { minimumFractionDigits: digits, maximumFractionDigits: digits });
+}
+
+function formatShortDate(iso: string): string {
+  const [y, m, d] = iso.split("-");
+  return `${d}/${m}/${y}`;
+}
+
 // ---------------------------------------------------------------------------
 // Sub-components
 // ---------------------------------------------------------------------------
@@ -112,7 +145,18 @@ export function BondDetailPanel({ ticker, currentPrice, priceMap }: BondDetailPa
   if (!meta) return null;
 
   const maturityInfo = getMaturityInfo(ticker);
-  const parity = currentPrice > 0 ? getParity(ticker, currentPrice) : null;
+  const settlement = new Date().toISOString().slice(0, 10);
+  const prices = priceMap ?? new Map<string, number>();
+  const usdPrice = resolveUsdPrice(ticker, currentPrice, prices);
+  const analytics = usdPrice !== null ? computeBondAnalytics(meta, usdPrice, settlement) : null;
+  const curve = meta.type === "soberano" ? sovereignYieldCurve(prices, settlement) : [];
+
+  // Parity against technical value when the schedule is known
+  const parity = analytics
+    ? analytics.parity
+    : currentPrice > 0
+      ? getParity(ticker, currentPrice)
+      : null;
   const spread =
     meta.type === "soberano" && meta.pairTicker && priceMap
       ? getBondPairSpread(ticker, priceMap)
@@ -225,6 +269,12 @@ export function BondDetailPanel({ ticker, currentPrice, priceMap }: BondDetailPa
         )}
       </div>
 
+      {analytics && <AnalyticsSection analytics={analytics} />}
+
+      {meta.currency === "CER" && currentPrice > 0 && (
+        <CerAnalyticsSection meta={meta} price={currentPrice} settlement={settlement} />
+      )}
+
       {/* Pair spread section (sovereign bonds only) */}
       {spread && meta.pairTicker && priceMap && (
         <SpreadSection
@@ -237,6 +287,229 @@ export function BondDetailPanel({ ticker, currentPrice, priceMap }: BondDetailPa
           spreadPct={spread.spreadPct}
         />
       )}
+
+      {analytics && analytics.cashflows.length > 0 && (
+        <CashflowSection cashflows={analytics.cashflows} />
+      )}
+
+      {curve.length >= 2 && <YieldCurveSection points={curve} ticker={ticker} />}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Analytics sub-section
+// ---------------------------------------------------------------------------
+
+function AnalyticsSection({ analytics }: { analytics: BondAnalytics }) {
+  const next = analytics.nextPayment;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-zinc-700/50">
+      <p className="text-[11px] text-zinc-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+        <TrendingUp className="h-3.5 w-3.5 text-zinc-500" />
+        Anal\u00edtica (USD)
+      </p>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2.5">
+        <InfoItem label="TIR" mono>
+          <span className="text-amber-400">
+            {analytics.ytmPercent !== null ? `${formatNumber(analytics.ytmPercent)}%` : "\u2014"}
+          </span>
+        </InfoItem>
+        <InfoItem label="Current yield" mono>
+          {analytics.currentYieldPercent !== null
+            ? `${formatNumber(analytics.currentYieldPercent)}%`
+            : "\u2014"}
+        </InfoItem>
+        <InfoItem label="Duration Macaulay" mono>
+          {formatNumber(analytics.macaulayDuration)}
+        </InfoItem>
+        <InfoItem label="Duration modificada" mono>
+          {formatNumber(analytics.modifiedDuration)}
+        </InfoItem>
+        <InfoItem label="Convexidad" mono>
+          {formatNumber(analytics.convexity)}
+        </InfoItem>
+        <InfoItem label="Precio USD" mono>
+          <span data-sensitive>{formatPrice(analytics.price)}</span>
+        </InfoItem>
+        <InfoItem label="Valor t\u00e9cnico" mono>
+          {formatNumber(analytics.technicalValue)}
+        </InfoItem>
+        <InfoItem label="Valor residual" mono>
+          {formatNumber(analytics.residual)}%
+        </InfoItem>
+        {next && (
+          <InfoItem icon={CalendarDays} label="Pr\u00f3ximo pago">
+            {formatShortDate(next.date)}{" "}
+            <span className="text-xs text-zinc-500 font-mono">
+              ({formatNumber(next.total, 3)})
+            </span>
+          </InfoItem>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Boncer sub-section (needs the CER series, so it fetches on its own)
+// ---------------------------------------------------------------------------
+
+function CerAnalyticsSection({
+  meta,
+  price,
+  settlement,
+}: {
+  meta: BondMetadata;
+  price: number;
+  settlement: string;
+}) {
+  const { data } = useInflationIndex("CER");
+  const ratio = data ? cerIndexRatio(meta, data.series, settlement) : null;
+  const analytics = ratio !== null ? computeCerBondAnalytics(meta, price, ratio, settlement) : null;
+  if (!analytics) return null;
+
+  return (
+    <>
+      <div className="mt-3 pt-3 border-t border-zinc-700/50">
+        <p className="text-[11px] text-zinc-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+          <TrendingUp className="h-3.5 w-3.5 text-zinc-500" />
+          Anal\u00edtica (CER)
+        </p>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-2.5">
+          <InfoItem label="TIR real" mono>
+            <span className="text-amber-400">
+              {analytics.ytmPercent !== null ? `${formatNumber(analytics.ytmPercent)}%` : "\u2014"}
+            </span>
+          </InfoItem>
+          <InfoItem label="Coeficiente CER" mono>
+            {formatNumber(analytics.indexRatio, 4)}
+          </InfoItem>
+          <InfoItem label="VN ajustado" mono>
+            {formatNumber(analytics.adjustedResidual)}
+          </InfoItem>
+          <InfoItem label="Valor t\u00e9cnico" mono>
+            {formatNumber(analytics.technicalValue)}
+          </InfoItem>
+          <InfoItem label="Paridad" mono>
+            {analytics.parity.toFixed(1)}%
+          </InfoItem>
+          <InfoItem label="Duration modificada" mono>
+            {formatNumber(analytics.modifiedDuration)}
+          </InfoItem>
+        </div>
+      </div>
+      {analytics.cashflows.length > 0 && <CashflowSection cashflows={analytics.cashflows} />}
+    </>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Cashflow sub-section
+// ---------------------------------------------------------------------------
+
+function CashflowSection({ cashflows }: { cashflows: BondCashflow[] }) {
+  return (
+    <div className="mt-3 pt-3 border-t border-zinc-700/50">
+      <p className="text-[11px] text-zinc-500 uppercase tracking-wider mb-2">
+        Flujo de fondos (c/ 100 VN)
+      </p>
+      <div className="max-h-48 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-zinc-800">
+            <tr className="text-zinc-500">
+              <th className="text-left font-medium py-1">Fecha</th>
+              <th className="text-right font-medium py-1">Renta</th>
+              <th className="text-right font-medium py-1">Amort.</th>
+              <th className="text-right font-medium py-1">Total</th>
+              <th className="text-right font-medium py-1">Residual</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono text-zinc-300">
+            {cashflows.map((c) => (
+              <tr key={c.date} className="border-t border-zinc-700/30">
+                <td className="py-1">{formatShortDate(c.date)}</td>
+                <td className="text-right py-1">{formatNumber(c.coupon, 3)}</td>
+                <td className="text-right py-1">{formatNumber(c.amortization, 3)}</td>
+                <td className="text-right py-1 text-zinc-100">{formatNumber(c.total, 3)}</td>
+                <td className="text-right py-1 text-zinc-500">{formatNumber(c.residual)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Yield curve sub-section
+// ---------------------------------------------------------------------------
+
+function YieldCurveSection({ points, ticker }: { points: YieldCurvePoint[]; ticker: string }) {
+  const ar = points.filter((p) => p.law === "argentina");
+  const ny = points.filter((p) => p.law === "new_york");
+  const current = points.filter((p) => p.ticker === ticker);
+
+  return (
+    <div className="mt-3 pt-3 border-t border-zinc-700/50">
+      <p className="text-[11px] text-zinc-500 uppercase tracking-wider mb-2">
+        Curva soberana (TIR vs duration)
+      </p>
+      <div className="h-[180px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 5, right: 10, left: -15, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+            <XAxis
+              type="number"
+              dataKey="modifiedDuration"
+              name="Duration"
+              tick={{ fill: "#71717a", fontSize: 11 }}
+              axisLine={{ stroke: "#3f3f46" }}
+              tickLine={false}
+              tickFormatter={(v: number) => v.toFixed(1)}
+            />
+            <YAxis
+              type="number"
+              dataKey="ytmPercent"
+              name="TIR"
+              tick={{ fill: "#71717a", fontSize: 11 }}
+              axisLine={false}
+              tickLine={false}
+              domain={["auto", "auto"]}
+              tickFormatter={(v: number) => `${v.toFixed(0)}%`}
+            />
+            <ZAxis range={[50, 50]} />
+            <Tooltip
+              content={({ active, payload }) => {
+                if (!active || !payload?.length) return null;
+                const d = payload[0].payload as YieldCurvePoint;
+                return (
+                  <div className="rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-2 text-sm shadow-xl">
+                    <p className="font-mono font-medium text-zinc-100">{d.ticker}</p>
+                    <p className="font-mono text-amber-400">TIR {formatNumber(d.ytmPercent)}%</p>
+                    <p className="font-mono text-zinc-400 text-xs">
+                      MD {formatNumber(d.modifiedDuration)}
+                    </p>
+                  </div>
+                );
+              }}
+            />
+            <Scatter name="Ley AR" data={ar} fill="#60a5fa" line={{ stroke: "#60a5fa" }} />
+            <Scatter name="Ley NY" data={ny} fill="#34d399" line={{ stroke: "#34d399" }} />
+            <Scatter data={current} fill="#fbbf24" shape="star" />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex gap-3 mt-1 text-[11px] text-zinc-500">
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-full bg-blue-400" /> Ley AR
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="h-2 w-2 rounded-full bg-emerald-400" /> Ley NY
+        </span>
+      </div>
     </div>
   );
 }
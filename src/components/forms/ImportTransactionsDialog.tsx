@@ -0,0 +1,496 @@
+"use client";
+
+import React, { useState } from "react";
+import * as Dialog from "@radix-ui/react-dialog";
+import { X, Loader2, Upload, ArrowLeft, FileSpreadsheet } from "lucide-react";
+import { useAppStore } from "@/stores/useAppStore";
+import { useImportTransactions, type ImportTransactionsResponse } from "@/hooks/useTransactions";
+import { useBrokers } from "@/hooks/useBrokers";
+import { useToast } from "@/components/ui/Toast";
+import { readSpreadsheetFile, type SheetGrid } from "@/lib/spreadsheet";
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  IMPORT_PRESETS,
+  IMPORT_PRESET_IDS,
+  autoMapColumns,
+  detectHeaderRow,
+  mapRows,
+  missingImportFields,
+  type ColumnMapping,
+  type ImportPresetId,
+  type ImportRow,
+  type ImportRowError,
+} from "@/lib/transaction-import";
+import {
+  ASSET_CATEGORIES,
+  CATEGORY_LABELS,
+  type AssetCategory,
+} from "@/lib/constants";
+import { formatCurrency, formatQuantity, cn } from "@/lib/utils";
+
+type Step = "file" | "mapping" | "preview";
+
+const selectClass =
+  "w-full px-3 py-2 text-sm bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const STATUS_STYLES = {
+  valid: "bg-emerald-500/15 text-emerald-400",
+  duplicate: "bg-amber-500/15 text-amber-400",
+  invalid: "bg-red-500/15 text-red-400",
+} as const;
+
+const STATUS_LABELS = {
+  valid: "Nueva",
+  duplicate: "Duplicada",
+  invalid: "Invalida",
+} as const;
+
+export default function ImportTransactionsDialog() {
+  const open = useAppStore((s) => s.isImportDialogOpen);
+  const close = useAppStore((s) => s.closeImportDialog);
+  const mutation = useImportTransactions();
+  const { addToast } = useToast();
+  const { data: brokers } = useBrokers();
+
+  const [step, setStep] = useState<Step>("file");
+  const [presetId, setPresetId] = useState<ImportPresetId>("iol");
+  const [category, setCategory] = useState<AssetCategory>("stock");
+  // Broker account the trades belong to; blank for manual assets
+  const [accountId, setAccountId] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [grid, setGrid] = useState<SheetGrid>([]);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [parseErrors, setParseErrors] = useState<ImportRowError[]>([]);
+  const [preview, setPreview] = useState<ImportTransactionsResponse | null>(null);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const preset = IMPORT_PRESETS[presetId];
+  const accounts = brokers?.find((b) => b.provider === presetId)?.accounts ?? [];
+  const headers = grid[headerRow] ?? [];
+  const missing = missingImportFields(mapping);
+
+  const reset = () => {
+    setStep("file");
+    setFileName("");
+    setGrid([]);
+    setMapping({});
+    setParseErrors([]);
+    setPreview(null);
+    setRows([]);
+    setFileError(null);
+    mutation.reset();
+  };
+
+  const handleClose = () => {
+    reset();
+    close();
+  };
+
+  const handlePresetChange = (id: ImportPresetId) => {
+    setPresetId(id);
+    setCategory(IMPORT_PRESETS[id].defaultCategory);
+    setAccountId("");
+  };
+
+  const runPreview = async (m: ColumnMapping, header: number, g: SheetGrid = grid) => {
+    const result = mapRows(g, header, m, preset);
+    setParseErrors(result.errors);
+    setRows(result.rows);
+    if (result.rows.length === 0) {
+      setPreview(null);
+      setStep("preview");
+      return;
+    }
+    const data = await mutation.mutateAsync({
+      rows: result.rows,
+      defaultCategory: category,
+      accountId: accountId || undefined,
+      source: preset.label,
+      dryRun: true,
+    });
+    setPreview(data);
+    setStep("preview");
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileError(null);
+    try {
+      const g = await readSpreadsheetFile(file);
+      if (g.length < 2) throw new Error("El archivo no tiene filas");
+      const header = detectHeaderRow(g, preset);
+      const m = autoMapColumns(g[header], preset);
+      setFileName(file.name);
+      setGrid(g);
+      setHeaderRow(header);
+      setMapping(m);
+
+      if (presetId === "manual" || missingImportFields(m).length > 0) {
+        setStep("mapping");
+      } else {
+        await runPreview(m, header, g);
+      }
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : "No se pudo leer el archivo");
+    } finally {
+      e.target.value = "";
+    }
+  };
+
+  const handleCommit = async () => {
+    try {
+      const data = await mutation.mutateAsync({
+        rows,
+        defaultCategory: category,
+        accountId: accountId || undefined,
+        source: preset.label,
+        dryRun: false,
+      });
+      addToast(`${data.imported} operaciones importadas`, "success");
+      handleClose();
+    } catch {
+      // Error is rendered from mutation.error
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={(v) => !v && handleClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay
+          className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm
+                     data-[state=open]:animate-in data-[state=closed]:animate-out
+                     data-[state=open]:fade-in-0 data-[state=closed]:fade-out-0"
+        />
+        <Dialog.Content
+          className="fixed left-1/2 top-1/2 z-50 w-full max-w-3xl max-h-[90vh] overflow-y-auto
+                     -translate-x-1/2 -translate-y-1/2 rounded-2xl border border-zinc-800
+                     bg-zinc-950 p-6 shadow-2xl shadow-black/40
+                     data-[state=open]:animate-in data-[state=closed]:animate-out
+                     data-[state=open]:fade-in-0 data-[state=closed]:fade-out-0
+                     data-[state=open]:zoom-in-95 data-[state=closed]:zoom-out-95"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <Dialog.Title className="text-lg font-semibold text-zinc-100">
+              Importar operaciones
+            </Dialog.Title>
+            <Dialog.Close asChild>
+              <button
+                aria-label="Close dialog"
+                className="p-1 rounded-md text-zinc-500 hover:text-zinc-200
+                                 hover:bg-zinc-800 transition-colors"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </Dialog.Close>
+          </div>
+          <Dialog.Description className="sr-only">
+            Import historical trades from a broker CSV or XLSX export.
+          </Dialog.Description>
+
+          {/* Step 1: preset + file */}
+          {step === "file" && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
+                    Formato
+                  </label>
+                  <select
+                    value={presetId}
+                    onChange={(e) => handlePresetChange(e.target.value as ImportPresetId)}
+                    aria-label="Formato del archivo"
+                    className={selectClass}
+                  >
+                    {IMPORT_PRESET_IDS.map((id) => (
+                      <option key={id} value={id}>
+                        {IMPORT_PRESETS[id].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1.5">
+                  <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
+                    Categoria de los activos
+                  </label>
+                  <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value as AssetCategory)}
+                    aria-label="Categoria de los activos"
+                    className={selectClass}
+                  >
+                    {ASSET_CATEGORIES.map((c) => (
+                      <option key={c} value={c}>
+                        {CATEGORY_LABELS[c]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {accounts.length > 0 && (
+                <div className="space-y-1.5">
+                  <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
+                    Cuenta
+                  </label>
+                  <select
+                    value={accountId}
+                    onChange={(e) => setAccountId(e.target.value)}
+                    aria-label="Cuenta"
+                    className={selectClass}
+                  >
+                    <option value="">Sin cuenta (activos manuales)</option>
+                    {accounts.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <label
+                className="flex flex-col items-center justify-center gap-2 rounded-xl border border-dashed
+                           border-zinc-700 bg-zinc-900/50 px-6 py-10 cursor-pointer
+                           hover:border-zinc-500 transition-colors"
+              >
+                {mutation.isPending ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+                ) : (
+                  <Upload className="h-6 w-6 text-zinc-500" />
+                )}
+                <span className="text-sm text-zinc-300">Elegir archivo CSV o XLSX</span>
+                <span className="text-xs text-zinc-500">
+                  Exportacion de operaciones de {preset.label}
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv"
+                  onChange={handleFile}
+                  disabled={mutation.isPending}
+                  className="sr-only"
+                />
+              </label>
+
+              {(fileError || mutation.isError) && (
+                <p className="text-xs text-red-400 text-center">
+                  {fileError ?? mutation.error?.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Step 2: column mapping */}
+          {step === "mapping" && (
+            <div className="space-y-4">
+              <p className="flex items-center gap-2 text-sm text-zinc-400">
+                <FileSpreadsheet className="h-4 w-4" />
+                {fileName} · {grid.length} filas
+              </p>
+
+              <div className="space-y-1.5">
+                <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
+                  Fila de encabezados
+                </label>
+                <select
+                  value={headerRow}
+                  onChange={(e) => {
+                    const header = Number(e.target.value);
+                    setHeaderRow(header);
+                    setMapping(autoMapColumns(grid[header], preset));
+                  }}
+                  aria-label="Fila de encabezados"
+                  className={selectClass}
+                >
+                  {grid.slice(0, 15).map((row, i) => (
+                    <option key={i} value={i}>
+                      {i + 1}: {row.filter(Boolean).slice(0, 4).join(" | ")}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {IMPORT_FIELDS.map((field) => (
+                  <div key={field} className="space-y-1.5">
+                    <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
+                      {IMPORT_FIELD_LABELS[field]}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ""}
+                      onChange={(e) =>
+                        setMapping((m) => ({
+                          ...m,
+                          [field]: e.target.value === "" ? undefined : Number(e.target.value),
+                        }))
+                      }
+                      aria-label={`Columna para ${IMPORT_FIELD_LABELS[field]}`}
+                      className={cn(
+                        selectClass,
+                        missing.includes(field) && "border-amber-500/50"
+                      )}
+                    >
+                      <option value="">—</option>
+                      {headers.map((h, i) => (
+                        <option key={i} value={i}>
+                          {h || `Columna ${i + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={reset}
+                  className="h-10 px-4 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm font-medium
+                             transition-colors inline-flex items-center gap-2"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Volver
+                </button>
+                <button
+                  onClick={() => runPreview(mapping, headerRow).catch(() => {})}
+                  disabled={missing.length > 0 || mutation.isPending}
+                  className="flex-1 h-10 rounded-lg bg-blue-600 hover:bg-blue-500
+                             disabled:opacity-50 text-white text-sm font-medium
+                             transition-colors inline-flex items-center justify-center gap-2"
+                >
+                  {mutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {missing.length > 0
+                    ? `Falta: ${missing.map((f) => IMPORT_FIELD_LABELS[f]).join(", ")}`
+                    : "Vista previa"}
+                </button>
+              </div>
+
+              {mutation.isError && (
+                <p className="text-xs text-red-400 text-center">{mutation.error?.message}</p>
+              )}
+            </div>
+          )}
+
+          {/* Step 3: preview */}
+          {step === "preview" && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="text-zinc-400">{fileName}</span>
+                {preview && (
+                  <>
+                    <span className="text-emerald-400">{preview.summary.valid} nuevas</span>
+                    <span className="text-amber-400">{preview.summary.duplicate} duplicadas</span>
+                    <span className="text-red-400">
+                      {preview.summary.invalid + parseErrors.length} con errores
+                    </span>
+                    {preview.summary.newAssets > 0 && (
+                      <span className="text-zinc-400">
+                        {preview.summary.newAssets} activos nuevos ({CATEGORY_LABELS[category]})
+                      </span>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {parseErrors.length > 0 && (
+                <div className="rounded-lg border border-red-500/30 bg-red-500/5 p-3 max-h-28 overflow-y-auto">
+                  {parseErrors.map((err) => (
+                    <p key={err.line} className="text-xs text-red-400">
+                      Fila {err.line}: {err.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {preview && preview.rows.length > 0 && (
+                <div className="overflow-x-auto max-h-80 rounded-xl border border-zinc-800/80 bg-zinc-950/50">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-zinc-950">
+                      <tr className="border-b border-zinc-800/60 text-left uppercase tracking-wider text-zinc-500">
+                        <th className="px-3 py-2 font-medium">Fila</th>
+                        <th className="px-3 py-2 font-medium">Fecha</th>
+                        <th className="px-3 py-2 font-medium">Ticker</th>
+                        <th className="px-3 py-2 font-medium">Tipo</th>
+                        <th className="px-3 py-2 font-medium">Cantidad</th>
+                        <th className="px-3 py-2 font-medium">Precio</th>
+                        <th className="px-3 py-2 font-medium">Estado</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row) => (
+                        <tr key={row.line} className="border-b border-zinc-800/30">
+                          <td className="px-3 py-1.5 text-zinc-500">{row.line}</td>
+                          <td className="px-3 py-1.5 text-zinc-400">
+                            {row.executedAt ? new Date(row.executedAt).toLocaleDateString("es-AR") : "—"}
+                          </td>
+                          <td className="px-3 py-1.5 font-mono font-semibold text-zinc-100">
+                            {row.ticker}
+                            {row.newAsset && <span className="ml-1 text-blue-400">+</span>}
+                          </td>
+                          <td className="px-3 py-1.5 text-zinc-300">
+                            {row.type === "buy" ? "Compra" : "Venta"}
+                          </td>
+                          <td className="px-3 py-1.5 font-mono text-zinc-300">
+                            {formatQuantity(row.quantity)}
+                          </td>
+                          <td data-sensitive className="px-3 py-1.5 font-mono text-zinc-300">
+                            {formatCurrency(row.pricePerUnit, row.currency)}
+                          </td>
+                          <td className="px-3 py-1.5">
+                            <span
+                              title={row.errors.join(" · ")}
+                              className={cn(
+                                "inline-block rounded px-1.5 py-0.5 font-medium",
+                                STATUS_STYLES[row.status]
+                              )}
+                            >
+                              {STATUS_LABELS[row.status]}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {!preview && (
+                <p className="text-center py-8 text-sm text-zinc-500">
+                  No se encontraron operaciones en el archivo
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setStep("mapping")}
+                  className="h-10 px-4 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-sm font-medium
+                             transition-colors inline-flex items-center gap-2"
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                  Columnas
+                </button>
+                <button
+                  onClick={handleCommit}
+                  disabled={!preview || preview.summary.valid === 0 || mutation.isPending}
+                  className="flex-1 h-10 rounded-lg bg-blue-600 hover:bg-blue-500
+                             disabled:opacity-50 text-white text-sm font-medium
+                             transition-colors inline-flex items-center justify-center gap-2"
+                >
+                  {mutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Importar {preview?.summary.valid ?? 0} operaciones
+                </button>
+              </div>
+
+              {mutation.isError && (
+                <p className="text-xs text-red-400 text-center">{mutation.error?.message}</p>
+              )}
+            </div>
+          )}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
@@ -6,11 +6,72 @@ import { X, Bell, Plus, Trash2, TrendingUp, TrendingDown, Loader2, Pencil, Check
 import { useAppStore } from "@/stores/useAppStore";
 import { useIOLPortfolio } from "@/hooks/useIOLPortfolio";
 import { useBinancePortfolio } from "@/hooks/useBinancePortfolio";
-import { usePriceAlerts, useCreateAlert, useUpdateAlert, useDeleteAlert, type PriceAlert } from "@/hooks/usePriceAlerts";
+import {
+  usePriceAlerts,
+  useCreateAlert,
+  useUpdateAlert,
+  useDeleteAlert,
+  toAlertRule,
+  type PriceAlert,
+} from "@/hooks/usePriceAlerts";
 import { useAlertNarrative } from "@/hooks/useAlertNarrative";
+import {
+  ALERT_CONDITIONS,
+  ALERT_CONDITION_LABELS,
+  DEFAULT_ALERT_PERIODS,
+  HISTORY_CONDITIONS,
+  describeAlert,
+  type AlertCondition,
+  type AlertDirection,
+} from "@/lib/alerts";
 import { formatCurrency, cn } from "@/lib/utils";
 
-type Condition = "above" | "below";
+const THRESHOLD_PLACEHOLDERS: Partial<Record<AlertCondition, string>> = {
+  percent_change: "% change",
+  daily_move: "% move",
+  rsi: "RSI level",
+  volume_spike: "x average",
+  pnl: "% P&L",
+};
+
+function isPriceCondition(condition: AlertCondition): boolean {
+  return condition === "above" || condition === "below";
+}
+
+/** The direction an alert points, for its icon and color */
+function alertDirection(alert: PriceAlert): AlertDirection {
+  if (alert.condition === "above" || alert.condition === "below") return alert.condition;
+  return alert.direction ?? "above";
+}
+
+function DirectionToggle({
+  value,
+  onChange,
+  small,
+}: {
+  value: AlertDirection;
+  onChange: (value: AlertDirection) => void;
+  small?: boolean;
+}) {
+  const Icon = value === "above" ? TrendingUp : TrendingDown;
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(value === "above" ? "below" : "above")}
+      aria-label={`Alert direction: ${value}. Click to toggle.`}
+      className={cn(
+        "font-medium border transition-colors flex items-center",
+        small ? "px-2 py-1 text-xs rounded gap-1" : "px-4 py-2 text-xs rounded-lg gap-1.5",
+        value === "above"
+          ? "border-emerald-500/50 bg-emerald-600/20 text-emerald-400 hover:bg-emerald-600/30"
+          : "border-red-500/50 bg-red-600/20 text-red-400 hover:bg-red-600/30"
+      )}
+    >
+      <Icon className={small ? "h-3 w-3" : "h-3.5 w-3.5"} />
+      {value === "above" ? "Above" : "Below"}
+    </button>
+  );
+}
 
 function NarrativePanel({
   alert,
@@ -102,58 +163,73 @@ export default function PriceAlertsDialog() {
 
   // Form state
   const [selectedTicker, setSelectedTicker] = useState("");
-  const [condition, setCondition] = useState<Condition>("above");
-  const [targetPrice, setTargetPrice] = useState("");
+  const [condition, setCondition] = useState<AlertCondition>("above");
+  const [direction, setDirection] = useState<AlertDirection>("above");
+  const [value, setValue] = useState("");
+  const [period, setPeriod] = useState("");
 
   // Edit state
   const [editingId, setEditingId] = useState<string | null>(null);
-  const [editCondition, setEditCondition] = useState<Condition>("above");
-  const [editTargetPrice, setEditTargetPrice] = useState("");
+  const [editDirection, setEditDirection] = useState<AlertDirection>("above");
+  const [editValue, setEditValue] = useState("");
 
   // Narrative state
   const [expandedNarrativeId, setExpandedNarrativeId] = useState<string | null>(null);
   const narrativeMutation = useAlertNarrative();
 
   const selectedAsset = allAssets.find((a) => a.ticker === selectedTicker);
+  const isPrice = isPriceCondition(condition);
+  const needsValue = condition !== "ma_cross";
+  const canCreate = !!selectedTicker && (!needsValue || value !== "");
 
   const handleCreate = async () => {
-    if (!selectedTicker || !targetPrice) return;
+    if (!canCreate) return;
 
+    const amount = parseFloat(value);
     await createAlert.mutateAsync({
       ticker: selectedTicker,
       condition,
-      targetPrice: parseFloat(targetPrice),
+      targetPrice: isPrice ? amount : null,
+      direction: isPrice || condition === "volume_spike" ? null : direction,
+      threshold: !isPrice && needsValue ? amount : null,
+      period: HISTORY_CONDITIONS.includes(condition) && period ? parseInt(period, 10) : null,
     });
 
     // Reset form
     setSelectedTicker("");
-    setTargetPrice("");
+    setValue("");
+    setPeriod("");
   };
 
   const handleDelete = async (alertId: string) => {
     await deleteAlert.mutateAsync(alertId);
   };
 
-  const startEdit = (alert: typeof alerts[0]) => {
+  const startEdit = (alert: PriceAlert) => {
     setEditingId(alert.id);
-    setEditCondition(alert.condition);
-    setEditTargetPrice(alert.target_price.toString());
+    setEditDirection(alertDirection(alert));
+    setEditValue(String((isPriceCondition(alert.condition) ? alert.target_price : alert.threshold) ?? ""));
   };
 
   const cancelEdit = () => {
     setEditingId(null);
-    setEditCondition("above");
-    setEditTargetPrice("");
+    setEditDirection("above");
+    setEditValue("");
   };
 
-  const handleUpdate = async () => {
-    if (!editingId || !editTargetPrice) return;
-
-    await updateAlert.mutateAsync({
-      id: editingId,
-      condition: editCondition,
-      targetPrice: parseFloat(editTargetPrice),
-    });
+  const handleUpdate = async (alert: PriceAlert) => {
+    if (alert.condition !== "ma_cross" && !editValue) return;
+
+    const amount = parseFloat(editValue);
+    if (isPriceCondition(alert.condition)) {
+      await updateAlert.mutateAsync({ id: alert.id, condition: editDirection, targetPrice: amount });
+    } else {
+      await updateAlert.mutateAsync({
+        id: alert.id,
+        direction: alert.condition === "volume_spike" ? null : editDirection,
+        ...(alert.condition !== "ma_cross" && { threshold: amount }),
+      });
+    }
 
     cancelEdit();
   };
@@ -190,7 +266,7 @@ export default function PriceAlertsDialog() {
                   Price Alerts
                 </Dialog.Title>
                 <Dialog.Description className="text-xs text-zinc-500">
-                  Get notified when prices hit your targets
+                  Get notified on price targets, big moves and indicator signals
                 </Dialog.Description>
               </div>
             </div>
@@ -226,42 +302,62 @@ export default function PriceAlertsDialog() {
                 ))}
               </select>
 
-              {/* Condition Toggle - Single button that switches on click */}
-              <button
-                type="button"
-                onClick={() => setCondition(condition === "above" ? "below" : "above")}
-                aria-label={`Alert condition: ${condition}. Click to toggle.`}
-                className={cn(
-                  "px-4 py-2 text-xs font-medium rounded-lg border transition-colors flex items-center gap-1.5",
-                  condition === "above"
-                    ? "border-emerald-500/50 bg-emerald-600/20 text-emerald-400 hover:bg-emerald-600/30"
-                    : "border-red-500/50 bg-red-600/20 text-red-400 hover:bg-red-600/30"
-                )}
+              {/* Condition Select */}
+              <select
+                value={condition}
+                onChange={(e) => {
+                  setCondition(e.target.value as AlertCondition);
+                  setValue("");
+                  setPeriod("");
+                }}
+                aria-label="Alert condition"
+                className="sm:w-44 px-3 py-2 text-sm bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
               >
-                {condition === "above" ? (
-                  <TrendingUp className="h-3.5 w-3.5" />
-                ) : (
-                  <TrendingDown className="h-3.5 w-3.5" />
-                )}
-                {condition === "above" ? "Above" : "Below"}
-              </button>
+                {ALERT_CONDITIONS.map((c) => (
+                  <option key={c} value={c}>
+                    {ALERT_CONDITION_LABELS[c]}
+                  </option>
+                ))}
+              </select>
+            </div>
 
-              {/* Target Price */}
-              <input
-                type="number"
-                step="0.01"
-                placeholder="Target price"
-                aria-label="Target price"
-                value={targetPrice}
-                onChange={(e) => setTargetPrice(e.target.value)}
-                className="w-28 px-3 py-2 text-sm bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
-              />
+            <div className="flex flex-col sm:flex-row gap-2 mt-2">
+              {!isPrice && condition !== "volume_spike" && (
+                <DirectionToggle value={direction} onChange={setDirection} />
+              )}
+
+              {/* Target price or threshold */}
+              {needsValue && (
+                <input
+                  type="number"
+                  step="0.01"
+                  placeholder={isPrice ? "Target price" : THRESHOLD_PLACEHOLDERS[condition]}
+                  aria-label={isPrice ? "Target price" : "Threshold"}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="flex-1 px-3 py-2 text-sm bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                />
+              )}
+
+              {/* Lookback for MA, RSI and average volume */}
+              {HISTORY_CONDITIONS.includes(condition) && (
+                <input
+                  type="number"
+                  step="1"
+                  min="2"
+                  placeholder={`${DEFAULT_ALERT_PERIODS[condition]} days`}
+                  aria-label="Period in days"
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value)}
+                  className="w-28 px-3 py-2 text-sm bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 placeholder:text-zinc-500 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                />
+              )}
 
               {/* Create Button */}
               <button
                 onClick={handleCreate}
-                disabled={!selectedTicker || !targetPrice || createAlert.isPending}
-                className="px-4 py-2 text-sm font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1.5"
+                disabled={!canCreate || createAlert.isPending}
+                className="px-4 py-2 text-sm font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-1.5"
               >
                 {createAlert.isPending ? (
                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -272,6 +368,10 @@ export default function PriceAlertsDialog() {
               </button>
             </div>
 
+            {createAlert.error && (
+              <p className="text-xs text-red-400 mt-2">{createAlert.error.message}</p>
+            )}
+
             {selectedAsset && (
               <p className="text-xs text-zinc-500 mt-2">
                 Current price: {formatCurrency(selectedAsset.currentPrice, "USD")}
@@ -313,35 +413,23 @@ export default function PriceAlertsDialog() {
                         <>
                           <div className="flex items-center gap-2 flex-1">
                             <span className="text-sm font-medium text-zinc-100">{alert.ticker}</span>
-                            <button
-                              type="button"
-                              onClick={() => setEditCondition(editCondition === "above" ? "below" : "above")}
-                              className={cn(
-                                "px-2 py-1 text-xs font-medium rounded border transition-colors flex items-center gap-1",
-                                editCondition === "above"
-                                  ? "border-emerald-500/50 bg-emerald-600/20 text-emerald-400"
-                                  : "border-red-500/50 bg-red-600/20 text-red-400"
-                              )}
-                            >
-                              {editCondition === "above" ? (
-                                <TrendingUp className="h-3 w-3" />
-                              ) : (
-                                <TrendingDown className="h-3 w-3" />
-                              )}
-                              {editCondition === "above" ? "Above" : "Below"}
-                            </button>
-                            <input
-                              type="number"
-                              step="0.01"
-                              value={editTargetPrice}
-                              onChange={(e) => setEditTargetPrice(e.target.value)}
-                              aria-label="Edit target price"
-                              className="w-24 px-2 py-1 text-sm bg-zinc-700 border border-zinc-600 rounded text-zinc-100 focus:outline-none focus:ring-1 focus:ring-purple-500/50"
-                            />
+                            {alert.condition !== "volume_spike" && (
+                              <DirectionToggle value={editDirection} onChange={setEditDirection} small />
+                            )}
+                            {alert.condition !== "ma_cross" && (
+                              <input
+                                type="number"
+                                step="0.01"
+                                value={editValue}
+                                onChange={(e) => setEditValue(e.target.value)}
+                                aria-label={isPriceCondition(alert.condition) ? "Edit target price" : "Edit threshold"}
+                                className="w-24 px-2 py-1 text-sm bg-zinc-700 border border-zinc-600 rounded text-zinc-100 focus:outline-none focus:ring-1 focus:ring-purple-500/50"
+                              />
+                            )}
                           </div>
                           <div className="flex items-center gap-1">
                             <button
-                              onClick={handleUpdate}
+                              onClick={() => handleUpdate(alert)}
                               disabled={updateAlert.isPending}
                               aria-label="Save alert changes"
                               className="p-1.5 rounded-lg hover:bg-zinc-700 text-emerald-400 transition-colors"
@@ -368,12 +456,12 @@ export default function PriceAlertsDialog() {
                             <div
                               className={cn(
                                 "h-8 w-8 rounded-full flex items-center justify-center",
-                                alert.condition === "above"
+                                alertDirection(alert) === "above"
                                   ? "bg-emerald-600/20"
                                   : "bg-red-600/20"
                               )}
                             >
-                              {alert.condition === "above" ? (
+                              {alertDirection(alert) === "above" ? (
                                 <TrendingUp className="h-4 w-4 text-emerald-400" />
                               ) : (
                                 <TrendingDown className="h-4 w-4 text-red-400" />
@@ -383,15 +471,17 @@ export default function PriceAlertsDialog() {
                               <p className="text-sm font-medium text-zinc-100">
                                 {alert.ticker}
                                 <span className="text-zinc-500 ml-1.5">
-                                  {alert.condition} {formatCurrency(alert.target_price, "USD")}
+                                  {isPriceCondition(alert.condition)
+                                    ? `${alert.condition} ${formatCurrency(alert.target_price ?? 0, "USD")}`
+                                    : describeAlert(toAlertRule(alert))}
                                 </span>
                               </p>
                               <p className="text-xs text-zinc-500">
-                                {alert.is_active ? (
-                                  <>Current: {formatCurrency(alert.current_price || 0, "USD")}</>
-                                ) : (
+                                {alert.triggered_at ? (
                                   <span className="inline-flex items-center gap-1.5">
-                                    Triggered {new Date(alert.triggered_at!).toLocaleDateString()}
+                                    Triggered {new Date(alert.triggered_at).toLocaleDateString()}
+                                    {alert.trigger_count > 1 && ` (${alert.trigger_count}x)`}
+                                    {!alert.is_armed && " · waiting to re-arm"}
                                     <button
                                       onClick={() => handleWhyClick(alert)}
                                       className="inline-flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium rounded bg-amber-600/20 text-amber-400 border border-amber-500/30 hover:bg-amber-600/30 transition-colors"
@@ -400,6 +490,8 @@ export default function PriceAlertsDialog() {
                                       Why?
                                     </button>
                                   </span>
+                                ) : (
+                                  <>Current: {formatCurrency(alert.current_price || 0, "USD")}</>
                                 )}
                               </p>
                             </div>
@@ -429,7 +521,7 @@ export default function PriceAlertsDialog() {
                     </div>
 
                     {/* Narrative Panel */}
-                    {expandedNarrativeId === alert.id && !alert.is_active && (
+                    {expandedNarrativeId === alert.id && alert.triggered_at && (
                       <NarrativePanel
                         alert={alert}
                         isPending={narrativeMutation.isPending && narrativeMutation.variables === alert.id}
@@ -444,7 +536,7 @@ export default function PriceAlertsDialog() {
 
           {/* Footer */}
           <div className="p-3 border-t border-zinc-800 text-xs text-zinc-500 text-center">
-            Alerts are checked every 15 minutes during market hours
+            Alerts are checked every 15 minutes during market hours and re-arm once the condition clears
           </div>
         </Dialog.Content>
       </Dialog.Portal>
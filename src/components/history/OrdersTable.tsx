@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, AlertCircle, ArrowUpRight, ArrowDownRight, Pencil, X, Link2 } from "lucide-react";
+import { useModifyOrder, type TrackedOrder } from "@/hooks/useOrders";
+import { useIOLCancelOrder } from "@/hooks/useIOLTrade";
+import { usePPICancelOrder } from "@/hooks/usePPITrade";
+import { useBinanceCancelOrder } from "@/hooks/useBinanceTrade";
+import { isOpenOrder } from "@/lib/order-lifecycle";
+import { ORDER_STATUS_LABELS, type OrderStatus } from "@/lib/constants";
+import { inferCurrencyFromMarket } from "@/services/shared/mappers";
+import { formatCurrency, relativeDate, cn } from "@/lib/utils";
+
+interface OrdersTableProps {
+  orders: TrackedOrder[];
+  isLoading: boolean;
+  error?: Error | null;
+}
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: "text-amber-400 bg-amber-400/10",
+  partial: "text-blue-400 bg-blue-400/10",
+  filled: "text-emerald-400 bg-emerald-400/10",
+  cancelled: "text-red-400 bg-red-400/10",
+  expired: "text-zinc-400 bg-zinc-400/10",
+};
+
+function ModifyForm({ order, onDone }: { order: TrackedOrder; onDone: () => void }) {
+  const remaining = Number(order.quantity) - Number(order.filledQuantity);
+  const [precio, setPrecio] = useState(String(Number(order.price)));
+  const [cantidad, setCantidad] = useState(String(remaining));
+  const modifyOrder = useModifyOrder();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const newPrice = parseFloat(precio);
+    const newQuantity = parseInt(cantidad, 10);
+    try {
+      await modifyOrder.mutateAsync({
+        numeroOperacion: Number(order.externalId),
+        precio: newPrice !== Number(order.price) ? newPrice : undefined,
+        cantidad: newQuantity !== remaining ? newQuantity : undefined,
+      });
+      onDone();
+    } catch {
+      // Error shown below
+    }
+  };
+
+  const unchanged = parseFloat(precio) === Number(order.price) && parseInt(cantidad, 10) === remaining;
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-2 px-3 py-3 bg-zinc-900/60">
+      <label className="text-xs text-zinc-500">
+        Cantidad
+        <input
+          type="number"
+          min="1"
+          step="1"
+          value={cantidad}
+          onChange={(e) => setCantidad(e.target.value)}
+          className="block mt-1 w-24 px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-zinc-100 font-mono text-sm focus:outline-none focus:border-zinc-500"
+        />
+      </label>
+      <label className="text-xs text-zinc-500">
+        Precio
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={precio}
+          onChange={(e) => setPrecio(e.target.value)}
+          className="block mt-1 w-32 px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-zinc-100 font-mono text-sm focus:outline-none focus:border-zinc-500"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={modifyOrder.isPending || unchanged}
+        className="px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-xs font-medium text-white disabled:opacity-50"
+      >
+        {modifyOrder.isPending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : "Reemplazar orden"}
+      </button>
+      <button
+        type="button"
+        onClick={onDone}
+        className="px-3 py-1.5 rounded bg-zinc-800 hover:bg-zinc-700 text-xs text-zinc-300"
+      >
+        Volver
+      </button>
+      <p className="basis-full text-[11px] text-zinc-500">
+        Se cancela la orden #{order.externalId} y se envia una nueva con estos valores.
+      </p>
+      {modifyOrder.error && (
+        <p className="basis-full text-xs text-red-400">{modifyOrder.error.message}</p>
+      )}
+    </form>
+  );
+}
+
+export default function OrdersTable({ orders, isLoading, error }: OrdersTableProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const cancelIOLOrder = useIOLCancelOrder();
+  const cancelPPIOrder = usePPICancelOrder();
+  const cancelBinanceOrder = useBinanceCancelOrder();
+  const cancelPending =
+    cancelIOLOrder.isPending || cancelPPIOrder.isPending || cancelBinanceOrder.isPending;
+
+  // Each broker cancels through its own trade route; modify is IOL-only
+  const cancelOrder = (order: TrackedOrder) => {
+    const orderId = Number(order.externalId);
+    if (order.provider === "ppi") cancelPPIOrder.mutate(orderId);
+    else if (order.provider === "binance") cancelBinanceOrder.mutate({ symbol: order.simbolo, orderId });
+    else cancelIOLOrder.mutate(orderId);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+        <span className="ml-2 text-sm text-zinc-500">Cargando ordenes...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center py-12 text-red-400">
+        <AlertCircle className="h-5 w-5 mr-2" />
+        <span className="text-sm">{error.message}</span>
+      </div>
+    );
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="text-center py-12 text-zinc-500">
+        <p>No hay ordenes enviadas desde la app</p>
+      </div>
+    );
+  }
+
+  const byId = new Map(orders.map((o) => [o.id, o]));
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-zinc-800/80 bg-zinc-950/50">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-zinc-800/60">
+            {["Fecha", "Ticker", "Tipo", "Ejecutado", "Precio", "Estado", ""].map((label, i) => (
+              <th
+                key={i}
+                className={cn(
+                  "px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500",
+                  (i === 3 || i === 4) && "hidden sm:table-cell"
+                )}
+              >
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {orders.map((order) => {
+            const isBuy = order.action === "buy";
+            const currency =
+              order.provider === "binance" ? "USD" : inferCurrencyFromMarket(order.mercado ?? "");
+            const open = isOpenOrder(order.status);
+            const replaces = order.replacesOrderId ? byId.get(order.replacesOrderId) : null;
+            const replacedBy = order.replacedByOrderId ? byId.get(order.replacedByOrderId) : null;
+
+            return (
+              <React.Fragment key={order.id}>
+                <tr className="border-b border-zinc-800/30 hover:bg-zinc-800/20 transition-colors">
+                  <td className="px-3 py-2">
+                    <span className="text-zinc-400 text-xs">{relativeDate(order.createdAt)}</span>
+                    <p className="text-[11px] text-zinc-600">#{order.externalId}</p>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className="font-mono font-semibold text-zinc-100">{order.simbolo}</span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={cn(
+                        "inline-flex items-center gap-1 font-medium",
+                        isBuy ? "text-emerald-400" : "text-red-400"
+                      )}
+                    >
+                      {isBuy ? (
+                        <ArrowDownRight className="h-3.5 w-3.5" />
+                      ) : (
+                        <ArrowUpRight className="h-3.5 w-3.5" />
+                      )}
+                      {isBuy ? "Compra" : "Venta"}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 hidden sm:table-cell" data-sensitive>
+                    <span className="font-mono text-zinc-300">{Number(order.filledQuantity)}</span>
+                    <span className="text-zinc-500 text-xs ml-1">/ {Number(order.quantity)}</span>
+                  </td>
+                  <td className="px-3 py-2 hidden sm:table-cell" data-sensitive>
+                    <span className="font-mono text-zinc-300">
+                      {formatCurrency(Number(order.avgFillPrice ?? order.price), currency)}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={cn(
+                        "text-xs font-medium px-2 py-0.5 rounded-full",
+                        STATUS_STYLES[order.status]
+                      )}
+                    >
+                      {ORDER_STATUS_LABELS[order.status]}
+                    </span>
+                    {(replaces || replacedBy) && (
+                      <p className="flex items-center gap-1 mt-1 text-[11px] text-zinc-500">
+                        <Link2 className="h-3 w-3" />
+                        {replacedBy ? `Reemplazada por #${replacedBy.externalId}` : `Reemplaza #${replaces!.externalId}`}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    {open && !order.replacedByOrderId && (
+                      <>
+                        {order.provider === "iol" && (
+                          <button
+                            type="button"
+                            onClick={() => setEditing(editing === order.id ? null : order.id)}
+                            aria-label={`Modificar orden ${order.externalId}`}
+                            className="p-1.5 rounded text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => cancelOrder(order)}
+                          disabled={cancelPending}
+                          aria-label={`Cancelar orden ${order.externalId}`}
+                          className="p-1.5 rounded text-zinc-400 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+                {editing === order.id && (
+                  <tr className="border-b border-zinc-800/30">
+                    <td colSpan={7} className="p-0">
+                      <ModifyForm order={order} onDone={() => setEditing(null)} />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import React from "react";
+import { Loader2, AlertCircle } from "lucide-react";
+import type { RealizedSale } from "@/lib/tax-lots";
+import type { CostBasisMethod } from "@/lib/constants";
+import { formatCurrency, formatQuantity, formatPercent, cn } from "@/lib/utils";
+
+interface RealizedGainsTableProps {
+  sales: RealizedSale[];
+  isLoading: boolean;
+  error?: Error | null;
+}
+
+const METHOD_SHORT: Record<CostBasisMethod, string> = {
+  fifo: "FIFO",
+  lifo: "LIFO",
+  average: "PPP",
+};
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("es-AR", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export default function RealizedGainsTable({
+  sales,
+  isLoading,
+  error,
+}: RealizedGainsTableProps) {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-400" />
+        <span className="ml-2 text-sm text-zinc-500">Cargando ganancias realizadas...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center py-12 text-red-400">
+        <AlertCircle className="h-5 w-5 mr-2" />
+        <span className="text-sm">{error.message}</span>
+      </div>
+    );
+  }
+
+  if (sales.length === 0) {
+    return (
+      <div className="text-center py-12 text-zinc-500">
+        <p>Todavia no hay ventas registradas</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-zinc-800/80 bg-zinc-950/50">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-zinc-800/60">
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Fecha
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Ticker
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden sm:table-cell">
+              Cantidad
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden sm:table-cell">
+              Costo
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden sm:table-cell">
+              Venta
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              P&L Realizado
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden md:table-cell">
+              Metodo
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {sales.map((sale) => {
+            const isGain = sale.realizedPnl >= 0;
+            const pct = sale.costBasis > 0 ? (sale.realizedPnl / sale.costBasis) * 100 : 0;
+
+            return (
+              <tr
+                key={sale.sellTransactionId}
+                className="border-b border-zinc-800/30 hover:bg-zinc-800/20 transition-colors"
+              >
+                <td className="px-3 py-2">
+                  <span className="text-zinc-400 text-xs">{formatDate(sale.disposedAt)}</span>
+                </td>
+                <td className="px-3 py-2">
+                  <span className="font-mono font-semibold text-zinc-100">{sale.ticker}</span>
+                </td>
+                <td className="px-3 py-2 hidden sm:table-cell">
+                  <span className="font-mono text-zinc-300">{formatQuantity(sale.quantity)}</span>
+                </td>
+                <td className="px-3 py-2 hidden sm:table-cell">
+                  <span data-sensitive className="font-mono text-zinc-300">
+                    {formatCurrency(sale.costBasis, sale.currency)}
+                  </span>
+                </td>
+                <td className="px-3 py-2 hidden sm:table-cell">
+                  <span data-sensitive className="font-mono text-zinc-300">
+                    {formatCurrency(sale.proceeds, sale.currency)}
+                  </span>
+                </td>
+                <td className="px-3 py-2">
+                  <span
+                    data-sensitive
+                    className={cn(
+                      "font-mono font-semibold",
+                      isGain ? "text-emerald-400" : "text-red-400"
+                    )}
+                  >
+                    {formatCurrency(sale.realizedPnl, sale.currency)}
+                  </span>
+                  <span className={cn("ml-1 text-xs", isGain ? "text-emerald-400/70" : "text-red-400/70")}>
+                    {formatPercent(pct)}
+                  </span>
+                </td>
+                <td className="px-3 py-2 hidden md:table-cell">
+                  <span className="text-xs text-zinc-500">
+                    {METHOD_SHORT[sale.method]}
+                    {sale.lotsMatched > 1 && ` · ${sale.lotsMatched} lotes`}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { INCOME_KIND_LABELS, type IncomeKind, type IncomeMonth } from "@/lib/income";
+import { formatCurrency, cn } from "@/lib/utils";
+import { monthLabel } from "./IncomeMonthlyChart";
+
+const KIND_CLASSES: Record<IncomeKind, string> = {
+  coupon: "bg-blue-500/15 text-blue-400",
+  amortization: "bg-purple-500/15 text-purple-400",
+  dividend: "bg-emerald-500/15 text-emerald-400",
+};
+
+interface IncomeMonthListProps {
+  months: IncomeMonth[];
+}
+
+export default function IncomeMonthList({ months }: IncomeMonthListProps) {
+  const withPayments = months.filter((m) => m.payments.length > 0);
+
+  if (withPayments.length === 0) {
+    return (
+      <div className="text-center py-12 text-zinc-500">
+        <p>Sin pagos proyectados para tus posiciones</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {withPayments.map((m) => (
+        <div key={m.month} className="rounded-xl border border-zinc-800/80 bg-zinc-950/50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-zinc-800/60">
+            <h3 className="text-sm font-semibold text-zinc-200">{monthLabel(m.month)}</h3>
+            <div data-sensitive className="flex gap-3 text-xs font-mono">
+              {m.totals.USD > 0 && (
+                <span className="text-emerald-400">{formatCurrency(m.totals.USD, "USD")}</span>
+              )}
+              {m.totals.ARS > 0 && (
+                <span className="text-sky-400">{formatCurrency(m.totals.ARS, "ARS")}</span>
+              )}
+            </div>
+          </div>
+          <ul className="divide-y divide-zinc-800/40">
+            {m.payments.map((p) => (
+              <li
+                key={`${p.date}-${p.ticker}-${p.kind}`}
+                className="flex items-center justify-between gap-3 px-4 py-2 text-sm"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-mono text-xs text-zinc-500">{p.date.slice(8)}</span>
+                  <span className="font-mono font-medium text-zinc-100">{p.ticker}</span>
+                  <span
+                    className={cn(
+                      "text-[10px] font-medium px-2 py-0.5 rounded-full",
+                      KIND_CLASSES[p.kind]
+                    )}
+                  >
+                    {INCOME_KIND_LABELS[p.kind]}
+                  </span>
+                  {p.estimated && (
+                    <span className="text-[10px] text-zinc-500">estimado</span>
+                  )}
+                </div>
+                <span data-sensitive className="font-mono text-zinc-200">
+                  {formatCurrency(p.amount, p.currency)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+} from "recharts";
+import type { IncomeMonth } from "@/lib/income";
+import { formatCurrency } from "@/lib/utils";
+
+const MONTH_LABELS = ["Ene", "Feb", "Mar", "Abr", "May", "Jun", "Jul", "Ago", "Sep", "Oct", "Nov", "Dic"];
+
+export function monthLabel(month: string): string {
+  const [y, m] = month.split("-");
+  return `${MONTH_LABELS[Number(m) - 1]} ${y.slice(2)}`;
+}
+
+interface IncomeMonthlyChartProps {
+  months: IncomeMonth[];
+}
+
+export default function IncomeMonthlyChart({ months }: IncomeMonthlyChartProps) {
+  const data = months.map((m) => ({
+    label: monthLabel(m.month),
+    usd: m.totals.USD,
+    ars: m.totals.ARS,
+  }));
+  const hasArs = data.some((d) => d.ars > 0);
+
+  return (
+    <div className="h-[240px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 5, right: hasArs ? 10 : 15, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+          <XAxis
+            dataKey="label"
+            tick={{ fill: "#71717a", fontSize: 11 }}
+            axisLine={{ stroke: "#3f3f46" }}
+            tickLine={false}
+          />
+          <YAxis
+            yAxisId="usd"
+            tick={{ fill: "#71717a", fontSize: 11 }}
+            axisLine={false}
+            tickLine={false}
+            tickFormatter={(v: number) => `$${v.toFixed(0)}`}
+          />
+          {hasArs && (
+            <YAxis
+              yAxisId="ars"
+              orientation="right"
+              tick={{ fill: "#71717a", fontSize: 11 }}
+              axisLine={false}
+              tickLine={false}
+              tickFormatter={(v: number) => `${(v / 1000).toFixed(0)}k`}
+            />
+          )}
+          <Tooltip
+            cursor={{ fill: "rgba(63,63,70,0.3)" }}
+            content={({ active, payload, label }) => {
+              if (!active || !payload?.length) return null;
+              const d = payload[0].payload as (typeof data)[number];
+              return (
+                <div className="rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-2 text-sm shadow-xl">
+                  <p className="font-medium text-zinc-100">{label}</p>
+                  <p className="font-mono text-emerald-400">{formatCurrency(d.usd, "USD")}</p>
+                  {d.ars > 0 && (
+                    <p className="font-mono text-sky-400">{formatCurrency(d.ars, "ARS")}</p>
+                  )}
+                </div>
+              );
+            }}
+          />
+          <Bar yAxisId="usd" dataKey="usd" fill="#10b981" fillOpacity={0.8} radius={[4, 4, 0, 0]} maxBarSize={28} />
+          {hasArs && (
+            <Bar yAxisId="ars" dataKey="ars" fill="#38bdf8" fillOpacity={0.8} radius={[4, 4, 0, 0]} maxBarSize={28} />
+          )}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
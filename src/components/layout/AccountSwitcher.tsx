@@ -0,0 +1,43 @@
+"use client";
+
+import { Landmark } from "lucide-react";
+import { useAppStore } from "@/stores/useAppStore";
+import { useAccountFilter, useBrokers } from "@/hooks/useBrokers";
+import { ALL_ACCOUNTS } from "@/lib/accounts";
+
+/**
+ * Pick which broker account the portfolio views show. Hidden until the
+ * user has more than one account connected.
+ */
+export default function AccountSwitcher() {
+  const { data: brokers } = useBrokers();
+  const accountFilter = useAccountFilter();
+  const setAccountFilter = useAppStore((s) => s.setAccountFilter);
+
+  const connected = (brokers ?? []).filter((b) => b.accounts.length > 0);
+  const accountCount = connected.reduce((n, b) => n + b.accounts.length, 0);
+  if (accountCount < 2) return null;
+
+  return (
+    <div className="flex items-center justify-end gap-2 px-4 py-2 border-b border-zinc-800/60">
+      <Landmark className="h-4 w-4 text-zinc-500" />
+      <select
+        value={accountFilter}
+        onChange={(e) => setAccountFilter(e.target.value)}
+        aria-label="Cuenta de broker"
+        className="h-8 px-2 text-xs bg-zinc-900/50 border border-zinc-800 rounded-lg text-zinc-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+      >
+        <option value={ALL_ACCOUNTS}>Todas las cuentas</option>
+        {connected.map((broker) => (
+          <optgroup key={broker.provider} label={broker.label}>
+            {broker.accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.label}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </div>
+  );
+}
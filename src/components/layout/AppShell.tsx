@@ -7,6 +7,7 @@ import { cn } from "@/lib/utils";
 import Sidebar from "./Sidebar";
 import MobileTopBar from "./MobileTopBar";
 import MobileBottomTabBar from "./MobileBottomTabBar";
+import AccountSwitcher from "./AccountSwitcher";
 
 const AssetEntryDialog = dynamic(
   () => import("@/components/forms/AssetEntryDialog")
@@ -17,6 +18,9 @@ const TransactionEntryDialog = dynamic(
 const PriceAlertsDialog = dynamic(
   () => import("@/components/forms/PriceAlertsDialog")
 );
+const ImportTransactionsDialog = dynamic(
+  () => import("@/components/forms/ImportTransactionsDialog")
+);
 
 export default function AppShell({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
@@ -53,6 +57,9 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
         {/* Mobile top bar */}
         <MobileTopBar />
 
+        {/* Broker account picker (only with several accounts) */}
+        <AccountSwitcher />
+
         {/* Page content */}
         <main id="main-content" className="flex-1 app-content-mobile md:overflow-y-auto">
           {children}
@@ -66,6 +73,7 @@ export default function AppShell({ children }: { children: React.ReactNode }) {
       <AssetEntryDialog />
       <TransactionEntryDialog />
       <PriceAlertsDialog />
+      <ImportTransactionsDialog />
     </div>
   );
 }
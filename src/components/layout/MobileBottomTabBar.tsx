@@ -12,7 +12,6 @@ export default function MobileBottomTabBar() {
   const isMoreOpen = useAppStore((s) => s.isMobileMoreOpen);
   const openMore = useAppStore((s) => s.openMobileMore);
   const closeMore = useAppStore((s) => s.closeMobileMore);
-  const openAlerts = useAppStore((s) => s.openPriceAlertsDialog);
 
   return (
     <>
@@ -59,16 +58,19 @@ export default function MobileBottomTabBar() {
               })}
 
               {/* Alerts */}
-              <button
-                onClick={() => {
-                  closeMore();
-                  openAlerts();
-                }}
-                className="flex flex-col items-center gap-1.5 px-2 py-3 rounded-xl text-zinc-400 hover:text-purple-400 hover:bg-purple-500/8 transition-colors"
+              <Link
+                href={ALERTS_NAV.href}
+                onClick={closeMore}
+                className={cn(
+                  "flex flex-col items-center gap-1.5 px-2 py-3 rounded-xl transition-colors",
+                  pathname === ALERTS_NAV.href
+                    ? ACCENT_CLASSES[ALERTS_NAV.accent].active
+                    : "text-zinc-400 hover:text-purple-400 hover:bg-purple-500/8"
+                )}
               >
                 <Bell className="h-5 w-5" />
-                <span className="text-[11px] font-medium">Alertas</span>
-              </button>
+                <span className="text-[11px] font-medium">{ALERTS_NAV.label}</span>
+              </Link>
 
               {/* Settings */}
               <Link
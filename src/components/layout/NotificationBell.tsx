@@ -1,10 +1,14 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Bell, ExternalLink, X } from "lucide-react";
+import Link from "next/link";
+import { Bell, ExternalLink, X, CheckCheck } from "lucide-react";
 import { useIOLNotifications } from "@/hooks/useIOLNotifications";
 import { useIOLStatus } from "@/hooks/useIOLStatus";
-import { cn } from "@/lib/utils";
+import { useUnreadNotifications, useMarkNotifications } from "@/hooks/useNotifications";
+import NotificationKindIcon from "@/components/alerts/NotificationKindIcon";
+import { ALERTS_NAV } from "@/lib/nav";
+import { relativeDate, cn } from "@/lib/utils";
 
 export default function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false);
@@ -12,6 +16,8 @@ export default function NotificationBell() {
 
   const { data: status } = useIOLStatus();
   const { data, isLoading } = useIOLNotifications();
+  const { data: own, isLoading: ownLoading } = useUnreadNotifications();
+  const markNotifications = useMarkNotifications();
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -27,13 +33,12 @@ export default function NotificationBell() {
     }
   }, [isOpen]);
 
-  // Don't show if IOL not connected
-  if (!status?.connected) {
-    return null;
-  }
-
-  const notifications = data?.notifications || [];
-  const hasNotifications = notifications.length > 0;
+  // Our own unread notifications first, then IOL's (only when connected)
+  const ownNotifications = own?.notifications ?? [];
+  const notifications = status?.connected ? data?.notifications || [] : [];
+  const total = (own?.unreadCount ?? 0) + notifications.length;
+  const hasNotifications = total > 0;
+  const loading = ownLoading || (status?.connected && isLoading);
 
   return (
     <div className="relative" ref={dropdownRef}>
@@ -45,13 +50,13 @@ export default function NotificationBell() {
             ? "border-cyan-500/50 bg-cyan-500/10 text-cyan-400 hover:bg-cyan-500/20"
             : "border-zinc-700 bg-zinc-800/50 text-zinc-500 hover:bg-zinc-800"
         )}
-        title="Notificaciones IOL"
-        aria-label="Notificaciones IOL"
+        title="Notificaciones"
+        aria-label="Notificaciones"
       >
         <Bell className="h-3.5 w-3.5" />
         {hasNotifications && (
           <span className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-cyan-500 text-[10px] font-bold text-zinc-900 flex items-center justify-center">
-            {notifications.length > 9 ? "9+" : notifications.length}
+            {total > 9 ? "9+" : total}
           </span>
         )}
       </button>
@@ -59,51 +64,106 @@ export default function NotificationBell() {
       {isOpen && (
         <div className="absolute right-0 mt-2 w-80 max-h-96 overflow-y-auto rounded-xl border border-zinc-700 bg-zinc-900 shadow-xl z-50">
           <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
-            <h3 className="text-sm font-semibold text-zinc-100">Notificaciones IOL</h3>
-            <button
-              onClick={() => setIsOpen(false)}
-              aria-label="Cerrar notificaciones"
-              className="p-1 rounded hover:bg-zinc-800 text-zinc-500"
-            >
-              <X className="h-4 w-4" />
-            </button>
+            <h3 className="text-sm font-semibold text-zinc-100">Notificaciones</h3>
+            <div className="flex items-center gap-1">
+              {ownNotifications.length > 0 && (
+                <button
+                  onClick={() => markNotifications.mutate({ all: true, read: true })}
+                  disabled={markNotifications.isPending}
+                  aria-label="Marcar todas como leidas"
+                  title="Marcar todas como leidas"
+                  className="p-1 rounded hover:bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+                >
+                  <CheckCheck className="h-4 w-4" />
+                </button>
+              )}
+              <button
+                onClick={() => setIsOpen(false)}
+                aria-label="Cerrar notificaciones"
+                className="p-1 rounded hover:bg-zinc-800 text-zinc-500"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
           </div>
 
           <div className="py-2">
-            {isLoading ? (
+            {loading ? (
               <div className="px-4 py-6 text-center text-sm text-zinc-500" aria-live="polite">
                 Cargando...
               </div>
-            ) : notifications.length === 0 ? (
+            ) : !hasNotifications ? (
               <div className="px-4 py-6 text-center text-sm text-zinc-500">
                 No hay notificaciones
               </div>
             ) : (
-              notifications.map((notification, index) => (
-                <div
-                  key={index}
-                  className="px-4 py-3 hover:bg-zinc-800/50 border-b border-zinc-800/50 last:border-0"
-                >
-                  <p className="text-sm font-medium text-zinc-200 mb-1">
-                    {notification.titulo}
-                  </p>
-                  <p className="text-xs text-zinc-400 mb-2">
-                    {notification.mensaje}
-                  </p>
-                  {notification.link && (
-                    <a
-                      href={notification.link}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300"
-                    >
-                      Ver más <ExternalLink className="h-3 w-3" />
-                    </a>
-                  )}
-                </div>
-              ))
+              <>
+                {ownNotifications.map((notification) => {
+                  const content = (
+                    <div className="flex items-start gap-2.5">
+                      <NotificationKindIcon kind={notification.kind} size="sm" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-zinc-200">{notification.title}</p>
+                        {notification.body && (
+                          <p className="text-xs text-zinc-400 line-clamp-2">{notification.body}</p>
+                        )}
+                        <p className="text-[11px] text-zinc-600 mt-0.5">
+                          {relativeDate(notification.createdAt)}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                  const markRead = () => {
+                    markNotifications.mutate({ ids: [notification.id], read: true });
+                    setIsOpen(false);
+                  };
+                  const itemClass =
+                    "block w-full text-left px-4 py-3 hover:bg-zinc-800/50 border-b border-zinc-800/50";
+
+                  return notification.link ? (
+                    <Link key={notification.id} href={notification.link} onClick={markRead} className={itemClass}>
+                      {content}
+                    </Link>
+                  ) : (
+                    <button key={notification.id} type="button" onClick={markRead} className={itemClass}>
+                      {content}
+                    </button>
+                  );
+                })}
+                {notifications.map((notification, index) => (
+                  <div
+                    key={index}
+                    className="px-4 py-3 hover:bg-zinc-800/50 border-b border-zinc-800/50 last:border-0"
+                  >
+                    <p className="text-sm font-medium text-zinc-200 mb-1">
+                      {notification.titulo}
+                    </p>
+                    <p className="text-xs text-zinc-400 mb-2">
+                      {notification.mensaje}
+                    </p>
+                    {notification.link && (
+                      <a
+                        href={notification.link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-xs text-cyan-400 hover:text-cyan-300"
+                      >
+                        Ver más <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                ))}
+              </>
             )}
           </div>
+
+          <Link
+            href={ALERTS_NAV.href}
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-2.5 border-t border-zinc-800 text-center text-xs font-medium text-purple-400 hover:text-purple-300"
+          >
+            Ver todas
+          </Link>
         </div>
       )}
     </div>
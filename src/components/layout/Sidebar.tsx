@@ -17,6 +17,7 @@ import {
 import * as Tooltip from "@radix-ui/react-tooltip";
 import { useAppStore } from "@/stores/useAppStore";
 import { useAuth } from "@/hooks/useAuth";
+import { useUnreadNotifications } from "@/hooks/useNotifications";
 import { NAV_ITEMS, ALERTS_NAV, ACCENT_CLASSES } from "@/lib/nav";
 import { cn } from "@/lib/utils";
 
@@ -55,7 +56,8 @@ export default function Sidebar() {
   const setHovered = useAppStore((s) => s.setSidebarHovered);
   const togglePin = useAppStore((s) => s.toggleSidebarPinned);
   const sync = useAppStore((s) => s.sync);
-  const openAlerts = useAppStore((s) => s.openPriceAlertsDialog);
+  const { data: unread } = useUnreadNotifications();
+  const unreadCount = unread?.unreadCount ?? 0;
 
   const expanded = pinned || hovered;
 
@@ -134,14 +136,16 @@ export default function Sidebar() {
           );
         })}
 
-        {/* Alerts button */}
+        {/* Alerts */}
         <SidebarTooltip label={ALERTS_NAV.label} enabled={!expanded}>
-          <button
-            onClick={openAlerts}
+          <Link
+            href={ALERTS_NAV.href}
             className={cn(
-              "relative flex items-center rounded-lg transition-all duration-150 w-full",
+              "relative flex items-center rounded-lg transition-all duration-150",
               expanded ? "gap-3 px-3 h-9" : "justify-center h-9",
-              "text-zinc-500 hover:text-purple-400 hover:bg-purple-500/8"
+              pathname === ALERTS_NAV.href
+                ? ACCENT_CLASSES[ALERTS_NAV.accent].active
+                : "text-zinc-500 hover:text-purple-400 hover:bg-purple-500/8"
             )}
           >
             <Bell className="h-[18px] w-[18px] shrink-0" />
@@ -150,7 +154,17 @@ export default function Sidebar() {
                 {ALERTS_NAV.label}
               </span>
             )}
-          </button>
+            {unreadCount > 0 && (
+              <span
+                className={cn(
+                  "h-4 min-w-4 px-1 rounded-full bg-purple-500 text-[10px] font-bold text-zinc-950 flex items-center justify-center",
+                  expanded ? "ml-auto" : "absolute top-0.5 right-2"
+                )}
+              >
+                {unreadCount > 9 ? "9+" : unreadCount}
+              </span>
+            )}
+          </Link>
         </SidebarTooltip>
 
         {/* Settings */}
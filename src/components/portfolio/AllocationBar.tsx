@@ -3,7 +3,9 @@
 import { useIOLPortfolio } from "@/hooks/useIOLPortfolio";
 import { useBinancePortfolio } from "@/hooks/useBinancePortfolio";
 import { usePPIPortfolio } from "@/hooks/usePPIPortfolio";
+import { useAccountFilter } from "@/hooks/useBrokers";
 import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { selectAccountAssets } from "@/lib/accounts";
 import {
   CATEGORY_COLORS,
   CATEGORY_LABELS,
@@ -14,14 +16,19 @@ export default function AllocationBar() {
   const { data: iolPortfolio } = useIOLPortfolio();
   const { data: binancePortfolio } = useBinancePortfolio();
   const { data: ppiPortfolio } = usePPIPortfolio();
+  const accountFilter = useAccountFilter();
   const { convertToDisplay } = useCurrencyConversion();
 
-  // Merge assets from all sources
-  const allAssets = [
-    ...(iolPortfolio?.assets ?? []),
-    ...(binancePortfolio?.assets ?? []),
-    ...(ppiPortfolio?.assets ?? []),
-  ];
+  // Merge assets from all sources, in the account picked in the switcher
+  const allAssets = selectAccountAssets(
+    [
+      ...(iolPortfolio?.assets ?? []),
+      ...(binancePortfolio?.assets ?? []),
+      ...(ppiPortfolio?.assets ?? []),
+    ],
+    accountFilter,
+    "split"
+  );
 
   // Calculate allocation by category from all connected sources
   const allocation = allAssets.reduce(
@@ -8,6 +8,7 @@ import { CATEGORY_COLORS, CATEGORY_LABELS } from "@/lib/constants";
 import { useAssetDetail } from "@/hooks/useAssetDetail";
 import PriceChart from "@/components/charts/PriceChart";
 import TradingViewChart from "@/components/charts/TradingViewChart";
+import PositionTimelineChart from "@/components/charts/PositionTimelineChart";
 
 const TIME_PERIODS: TimePeriod[] = ["1D", "1W", "1M", "1Y", "5Y", "ALL"];
 
@@ -342,6 +343,11 @@ export default function AssetDetailModal({
               )}
             </div>
           )}
+
+          {/* Position history (daily snapshots + trades) */}
+          <div className="bg-zinc-800/50 rounded-lg p-3">
+            <PositionTimelineChart ticker={asset.ticker} category={asset.category} />
+          </div>
         </div>
 
         {/* Footer */}
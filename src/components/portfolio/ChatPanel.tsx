@@ -23,8 +23,8 @@ function mapRowsToChat(rows: PortfolioRow[]): PortfolioAsset[] {
     category: row.category,
     currency: row.currency,
     quantity: row.quantity,
-    currentValue: row.currentValue,
-    pnl: row.pnl,
+    currentValue: row.valueUsd,
+    pnl: row.pnlUsd,
     pnlPercent: row.pnlPercent,
     allocation: row.allocation,
   }));
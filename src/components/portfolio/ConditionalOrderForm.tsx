@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useState } from "react";
+import { Loader2, AlertTriangle, ShieldCheck } from "lucide-react";
+import { useCreateConditionalOrder } from "@/hooks/useConditionalOrders";
+import { SETTLEMENT_OPTIONS } from "@/hooks/useIOLTrade";
+import {
+  conditionalOrderIssue,
+  describeConditionalOrder,
+  trailingStopPrice,
+} from "@/lib/conditional-orders";
+import {
+  CONDITIONAL_ORDER_TYPES,
+  CONDITIONAL_ORDER_TYPE_LABELS,
+  type ConditionalOrderType,
+} from "@/lib/constants";
+import { formatCurrency, cn } from "@/lib/utils";
+import type { IOLSettlement } from "@/services/iol";
+
+interface ConditionalOrderFormProps {
+  ticker: string;
+  market: string;
+  currency: "USD" | "ARS";
+  quantity: number;
+  currentPrice: number;
+  /** IOL account holding the position */
+  accountId?: string;
+  onCreated: () => void;
+}
+
+/** Sell-side stop loss / take profit / trailing stop on a held IOL position */
+export default function ConditionalOrderForm({
+  ticker,
+  market,
+  currency,
+  quantity,
+  currentPrice,
+  accountId,
+  onCreated,
+}: ConditionalOrderFormProps) {
+  const [type, setType] = useState<ConditionalOrderType>("stop_loss");
+  const [cantidad, setCantidad] = useState<string>(String(quantity));
+  const [trigger, setTrigger] = useState<string>((currentPrice * 0.9).toFixed(2));
+  const [trail, setTrail] = useState<string>("5");
+  const [limit, setLimit] = useState<string>("");
+  const [plazo, setPlazo] = useState<IOLSettlement>("t2");
+  const [errorMessage, setErrorMessage] = useState<string>("");
+
+  const createOrder = useCreateConditionalOrder();
+
+  const parsedCantidad = parseInt(cantidad, 10) || 0;
+  const isTrailing = type === "trailing_stop";
+  const rule = {
+    type,
+    side: "sell" as const,
+    triggerPrice: isTrailing ? null : parseFloat(trigger) || null,
+    trailPercent: isTrailing ? parseFloat(trail) || null : null,
+  };
+  const issue = conditionalOrderIssue(rule);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (parsedCantidad <= 0 || parsedCantidad > quantity) {
+      setErrorMessage(`La cantidad debe estar entre 1 y ${quantity}`);
+      return;
+    }
+    if (issue) {
+      setErrorMessage(isTrailing ? "El trailing debe estar entre 0 y 100%" : "Ingresa un precio de disparo");
+      return;
+    }
+
+    setErrorMessage("");
+    try {
+      await createOrder.mutateAsync({
+        mercado: market,
+        simbolo: ticker,
+        side: "sell",
+        type,
+        quantity: parsedCantidad,
+        triggerPrice: rule.triggerPrice,
+        trailPercent: rule.trailPercent,
+        limitPrice: parseFloat(limit) || null,
+        plazo,
+        accountId,
+      });
+      onCreated();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Error al crear la orden");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* Type */}
+      <div className="grid grid-cols-3 gap-2">
+        {CONDITIONAL_ORDER_TYPES.map((t) => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => {
+              setType(t);
+              setTrigger((currentPrice * (t === "take_profit" ? 1.1 : 0.9)).toFixed(2));
+            }}
+            className={cn(
+              "px-2 py-2 rounded-lg text-xs font-medium transition-colors",
+              type === t ? "bg-blue-600 text-white" : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+            )}
+          >
+            {CONDITIONAL_ORDER_TYPE_LABELS[t]}
+          </button>
+        ))}
+      </div>
+
+      {/* Quantity */}
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-1">Cantidad</label>
+        <input
+          type="number"
+          min="1"
+          max={quantity}
+          step="1"
+          value={cantidad}
+          onChange={(e) => setCantidad(e.target.value)}
+          className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+          required
+        />
+      </div>
+
+      {/* Trigger */}
+      {isTrailing ? (
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-1">
+            Distancia desde el maximo (%)
+          </label>
+          <input
+            type="number"
+            min="0.1"
+            max="99"
+            step="0.1"
+            value={trail}
+            onChange={(e) => setTrail(e.target.value)}
+            className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            required
+          />
+          {rule.trailPercent != null && !issue && (
+            <p className="text-xs text-zinc-500 mt-1">
+              Hoy se dispararia en{" "}
+              <span className="font-mono text-zinc-300">
+                {formatCurrency(trailingStopPrice("sell", currentPrice, rule.trailPercent), currency)}
+              </span>
+              ; sube si el precio sube
+            </p>
+          )}
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-zinc-400 mb-1">
+            Precio de disparo ({currency})
+          </label>
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={trigger}
+            onChange={(e) => setTrigger(e.target.value)}
+            className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+            required
+          />
+        </div>
+      )}
+
+      {/* Limit */}
+      <div>
+        <label className="block text-sm font-medium text-zinc-400 mb-1">
+          Precio limite al disparar (opcional)
+        </label>
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={limit}
+          onChange={(e) => setLimit(e.target.value)}
+          placeholder="A mercado"
+          className="w-full px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-zinc-100 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+        />
+      </div>
+
+      {/* Settlement */}
+      <div className="grid grid-cols-3 gap-2">
+        {SETTLEMENT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setPlazo(option.value)}
+            className={cn(
+              "px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+              plazo === option.value
+                ? "bg-blue-600 text-white"
+                : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {parsedCantidad > 0 && !issue && (
+        <div className="flex items-start gap-2 bg-zinc-800/50 rounded-lg p-3 text-xs text-zinc-400">
+          <ShieldCheck className="h-4 w-4 text-blue-400 shrink-0" />
+          <span>
+            {describeConditionalOrder({ ...rule, simbolo: ticker, quantity: parsedCantidad })}. Se
+            evalua cada 5 minutos en horario de mercado y te avisamos por email cuando se ejecute.
+          </span>
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="flex items-center gap-2 text-red-400 text-sm">
+          <AlertTriangle className="h-4 w-4" />
+          {errorMessage}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={createOrder.isPending || parsedCantidad <= 0}
+        className="w-full py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white"
+      >
+        {createOrder.isPending ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Creando...
+          </>
+        ) : (
+          "Crear orden condicional"
+        )}
+      </button>
+    </form>
+  );
+}
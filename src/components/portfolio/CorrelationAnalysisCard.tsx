@@ -1,5 +1,16 @@
 "use client";
 
+import { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
 import {
   Network,
   Loader2,
@@ -14,7 +25,9 @@ import type {
   PortfolioAsset as CorrPortfolioAsset,
   CorrelationAnalysis,
   GroupAllocation,
+  QuantCorrelation,
 } from "@/hooks/useCorrelationAnalysis";
+import { CLUSTER_THRESHOLD, ROLLING_WINDOW, rollingCorrelation } from "@/lib/correlation";
 import { usePortfolioData } from "@/hooks/usePortfolioData";
 import { cn } from "@/lib/utils";
 import type { PortfolioRow } from "@/components/portfolio/columns";
@@ -30,8 +43,8 @@ function mapRowsToAssets(rows: PortfolioRow[]): CorrPortfolioAsset[] {
     quantity: row.quantity,
     averagePrice: row.averagePrice,
     currentPrice: row.currentPrice,
-    currentValue: row.currentValue,
-    pnl: row.pnl,
+    currentValue: row.valueUsd,
+    pnl: row.pnlUsd,
     pnlPercent: row.pnlPercent,
     allocation: row.allocation,
   }));
@@ -103,6 +116,194 @@ function GroupBars({
   );
 }
 
+// ── Correlation Heatmap ──────────────────────────────────────────────────────
+
+/** Red for moving together, blue for moving apart */
+function heatColor(value: number | null): string {
+  if (value === null) return "rgba(63, 63, 70, 0.4)";
+  const alpha = Math.min(Math.abs(value), 1) * 0.85 + 0.05;
+  return value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`;
+}
+
+function CorrelationHeatmap({
+  quant,
+  selected,
+  onSelect,
+}: {
+  quant: QuantCorrelation;
+  selected: [string, string] | null;
+  onSelect: (pair: [string, string]) => void;
+}) {
+  const { tickers, correlation } = quant;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="border-separate border-spacing-0.5 text-[10px] font-mono">
+        <thead>
+          <tr>
+            <th />
+            {tickers.map((t) => (
+              <th key={t} className="px-0.5 pb-1 font-medium text-zinc-500 [writing-mode:vertical-rl] rotate-180">
+                {t}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {tickers.map((row, i) => (
+            <tr key={row}>
+              <th className="pr-1.5 text-right font-medium text-zinc-500">{row}</th>
+              {tickers.map((col, j) => {
+                const value = correlation[i][j];
+                const isSelected =
+                  selected !== null &&
+                  ((selected[0] === row && selected[1] === col) ||
+                    (selected[0] === col && selected[1] === row));
+                return (
+                  <td key={col} className="p-0">
+                    <button
+                      type="button"
+                      disabled={i === j || value === null}
+                      onClick={() => onSelect([row, col])}
+                      title={`${row} / ${col}: ${value === null ? "sin datos" : value.toFixed(2)}`}
+                      className={cn(
+                        "h-7 w-7 rounded-sm text-zinc-100 disabled:cursor-default",
+                        isSelected && "ring-1 ring-violet-400"
+                      )}
+                      style={{ backgroundColor: heatColor(value) }}
+                    >
+                      {value === null || i === j ? "" : value.toFixed(1)}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function RollingCorrelationChart({
+  quant,
+  pair,
+}: {
+  quant: QuantCorrelation;
+  pair: [string, string];
+}) {
+  const points = useMemo(
+    () => rollingCorrelation(quant.returns[pair[0]], quant.returns[pair[1]], quant.dates),
+    [quant, pair]
+  );
+
+  if (points.length < 2) {
+    return <p className="text-xs text-zinc-500 py-4 text-center">Sin historia suficiente para este par</p>;
+  }
+
+  return (
+    <div className="h-[160px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={points} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+          <XAxis
+            dataKey="date"
+            tick={{ fill: "#71717a", fontSize: 10 }}
+            axisLine={{ stroke: "#3f3f46" }}
+            tickLine={false}
+            minTickGap={32}
+            tickFormatter={(d: string) => d.slice(5)}
+          />
+          <YAxis
+            domain={[-1, 1]}
+            tick={{ fill: "#71717a", fontSize: 10 }}
+            axisLine={false}
+            tickLine={false}
+            width={30}
+          />
+          <ReferenceLine y={CLUSTER_THRESHOLD} stroke="#f59e0b" strokeDasharray="3 3" />
+          <ReferenceLine y={0} stroke="#52525b" />
+          <Tooltip
+            contentStyle={{ background: "#18181b", border: "1px solid #3f3f46", borderRadius: 8, fontSize: 12 }}
+            labelStyle={{ color: "#a1a1aa" }}
+            formatter={(v) => [typeof v === "number" ? v.toFixed(2) : v, "Correlacion"]}
+          />
+          <Line type="monotone" dataKey="value" stroke="#a78bfa" strokeWidth={1.5} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function MeasuredCorrelations({ quant }: { quant: QuantCorrelation }) {
+  const [pair, setPair] = useState<[string, string] | null>(
+    quant.topPairs[0] ? [quant.topPairs[0].a, quant.topPairs[0].b] : null
+  );
+
+  if (quant.tickers.length < 2) {
+    return (
+      <p className="text-xs text-zinc-500">
+        Sin historia de precios suficiente para medir correlaciones.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wider">
+          Matriz de Correlacion (1A)
+        </h4>
+        {quant.averageCorrelation !== null && (
+          <span className="text-xs text-zinc-500">
+            Promedio ponderado{" "}
+            <span className="font-mono text-zinc-300">{quant.averageCorrelation.toFixed(2)}</span>
+          </span>
+        )}
+      </div>
+
+      <CorrelationHeatmap quant={quant} selected={pair} onSelect={setPair} />
+
+      {pair && (
+        <div className="space-y-1">
+          <p className="text-xs text-zinc-400">
+            {pair[0]} / {pair[1]}: correlacion movil {ROLLING_WINDOW} dias
+          </p>
+          <RollingCorrelationChart quant={quant} pair={pair} />
+        </div>
+      )}
+
+      {quant.clusters.length > 0 && (
+        <div className="space-y-1.5">
+          <h4 className="text-xs font-medium text-zinc-400 uppercase tracking-wider">
+            Grupos Altamente Correlacionados (≥ {CLUSTER_THRESHOLD})
+          </h4>
+          {quant.clusters.map((c) => (
+            <div
+              key={c.tickers.join()}
+              className="flex items-center justify-between rounded-md bg-zinc-800/50 px-2.5 py-1.5 text-xs"
+            >
+              <span className="text-zinc-300">{c.tickers.join(", ")}</span>
+              <span className="font-mono text-zinc-400">
+                ρ {c.averageCorrelation.toFixed(2)} · {c.allocation.toFixed(1)}%
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(quant.unmeasured.length > 0 || quant.warnings.length > 0) && (
+        <p className="text-[11px] text-zinc-500">
+          {[
+            ...quant.warnings,
+            ...(quant.unmeasured.length > 0 ? [`Sin medir: ${quant.unmeasured.join(", ")}`] : []),
+          ].join(". ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
 // ── Result Display ───────────────────────────────────────────────────────────
 
 function CorrelationResult({
@@ -148,6 +349,9 @@ function CorrelationResult({
       {/* Summary */}
       <p className="text-sm text-zinc-300 leading-relaxed">{result.summary}</p>
 
+      {/* Measured from price history */}
+      <MeasuredCorrelations quant={result.quant} />
+
       {/* Group Charts */}
       <div className="grid grid-cols-1 gap-4">
         <GroupBars title="Por Sector" groups={result.groups.bySector} />
@@ -229,8 +433,8 @@ export default function CorrelationAnalysisCard() {
       {!result && !isPending && (
         <>
           <p className="text-sm text-zinc-500 mb-4">
-            Detecta riesgos de concentracion ocultos analizando sectores, paises y
-            clusters de correlacion en tu portfolio.
+            Detecta riesgos de concentracion ocultos midiendo la correlacion entre tus
+            posiciones con un ano de precios diarios, junto a sectores y paises.
           </p>
 
           {error && (
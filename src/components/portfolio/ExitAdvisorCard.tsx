@@ -36,8 +36,8 @@ function mapRowsToAssets(rows: PortfolioRow[]): ExitPortfolioAsset[] {
     quantity: row.quantity,
     averagePrice: row.averagePrice,
     currentPrice: row.currentPrice,
-    currentValue: row.currentValue,
-    pnl: row.pnl,
+    currentValue: row.valueUsd,
+    pnl: row.pnlUsd,
     pnlPercent: row.pnlPercent,
     allocation: row.allocation,
   }));
@@ -41,8 +41,8 @@ function mapRowsToAssets(rows: PortfolioRow[]): PortfolioAsset[] {
     category: row.category,
     currency: row.currency,
     quantity: row.quantity,
-    currentValue: row.currentValue,
-    pnl: row.pnl,
+    currentValue: row.valueUsd,
+    pnl: row.pnlUsd,
     pnlPercent: row.pnlPercent,
   }));
 }
@@ -38,7 +38,8 @@ export function PortfolioCardList({
   return (
     <div className="space-y-2">
       {rows.map((row) => {
-        const pnlPositive = row.pnlPercent >= 0;
+        const pnlPercent = row.realPnlPercent ?? row.pnlPercent;
+        const pnlPositive = pnlPercent >= 0;
         const dailyPositive = row.dailyChange !== null ? row.dailyChange >= 0 : null;
         const isExpanded = expandedRowId === row.id;
 
@@ -109,7 +110,7 @@ export function PortfolioCardList({
                   ) : (
                     <TrendingDown className="h-3 w-3" />
                   )}
-                  {formatPercent(row.pnlPercent)}
+                  {formatPercent(pnlPercent)}
                 </span>
               </div>
             </div>
@@ -3,7 +3,13 @@
 import { useIOLPortfolio } from "@/hooks/useIOLPortfolio";
 import { useBinancePortfolio } from "@/hooks/useBinancePortfolio";
 import { usePPIPortfolio } from "@/hooks/usePPIPortfolio";
+import { useAccountFilter } from "@/hooks/useBrokers";
 import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { selectAccountAssets } from "@/lib/accounts";
+import { useRealizedGains } from "@/hooks/useRealizedGains";
+import { useRealReturns } from "@/hooks/useRealReturns";
+import { useAppStore } from "@/stores/useAppStore";
+import { RETURN_MODES, RETURN_MODE_LABELS } from "@/lib/inflation";
 import {
   CATEGORY_COLORS,
   CATEGORY_LABELS,
@@ -16,14 +22,30 @@ export default function PortfolioSummary() {
   const { data: iolPortfolio } = useIOLPortfolio();
   const { data: binancePortfolio } = useBinancePortfolio();
   const { data: ppiPortfolio } = usePPIPortfolio();
+  const accountFilter = useAccountFilter();
   const { convertToDisplay, displayCurrency } = useCurrencyConversion();
+  const { data: realized } = useRealizedGains();
+  const returnMode = useAppStore((s) => s.preferences.returnMode) ?? "nominal";
+  const setReturnMode = useAppStore((s) => s.setReturnMode);
+  const { data: realReturns } = useRealReturns(returnMode);
 
-  // Merge assets from all sources
-  const allAssets = [
-    ...(iolPortfolio?.assets ?? []),
-    ...(binancePortfolio?.assets ?? []),
-    ...(ppiPortfolio?.assets ?? []),
-  ];
+  // Realized P&L from the tax-lot ledger, converted to display currency
+  const realizedPnl = realized
+    ? convertToDisplay(realized.totals.USD, "USD") +
+      convertToDisplay(realized.totals.ARS, "ARS")
+    : 0;
+  const hasRealized = (realized?.sales.length ?? 0) > 0;
+
+  // Merge assets from all sources, in the account picked in the switcher
+  const allAssets = selectAccountAssets(
+    [
+      ...(iolPortfolio?.assets ?? []),
+      ...(binancePortfolio?.assets ?? []),
+      ...(ppiPortfolio?.assets ?? []),
+    ],
+    accountFilter,
+    "split"
+  );
 
   // Calculate totals from all connected sources
   const summary = allAssets.reduce(
@@ -36,6 +58,14 @@ export default function PortfolioSummary() {
       acc.totalCost += costBasis;
       acc.totalPnl += pnl;
 
+      // ARS positions against their CER/UVA-adjusted cost
+      const basis = realReturns?.positions[asset.ticker];
+      if (returnMode !== "nominal" && asset.currency === "ARS" && basis) {
+        const adjustedCost = asset.averagePrice * asset.quantity * basis.factor;
+        acc.realArsValue += currentValue;
+        acc.realArsCost += convertToDisplay(adjustedCost, "ARS");
+      }
+
       // Group by category
       if (!acc.byCategory[asset.category]) {
         acc.byCategory[asset.category] = { value: 0, count: 0 };
@@ -49,6 +79,8 @@ export default function PortfolioSummary() {
       totalValue: 0,
       totalCost: 0,
       totalPnl: 0,
+      realArsValue: 0,
+      realArsCost: 0,
       byCategory: {} as Record<AssetCategory, { value: number; count: number }>,
     }
   );
@@ -56,6 +88,8 @@ export default function PortfolioSummary() {
   const totalPnlPct =
     summary.totalCost > 0 ? (summary.totalPnl / summary.totalCost) * 100 : 0;
   const isPositive = summary.totalPnl >= 0;
+  const realArsPnl = summary.realArsValue - summary.realArsCost;
+  const realArsPct = summary.realArsCost > 0 ? (realArsPnl / summary.realArsCost) * 100 : 0;
 
   return (
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -75,6 +109,24 @@ export default function PortfolioSummary() {
         <div className="flex items-center gap-2 text-zinc-500 mb-2">
           <Activity className="h-4 w-4" />
           <span className="text-xs uppercase tracking-wider">Total P&L</span>
+          <div className="ml-auto flex rounded-md bg-zinc-800/80 p-0.5" role="group" aria-label="Tipo de retorno">
+            {RETURN_MODES.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setReturnMode(mode)}
+                title={RETURN_MODE_LABELS[mode]}
+                className={cn(
+                  "px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors",
+                  returnMode === mode
+                    ? "bg-zinc-700 text-zinc-100"
+                    : "text-zinc-500 hover:text-zinc-300"
+                )}
+              >
+                {mode === "nominal" ? "Nom" : mode}
+              </button>
+            ))}
+          </div>
         </div>
         <p
           data-sensitive
@@ -101,6 +153,34 @@ export default function PortfolioSummary() {
         >
           {formatPercent(totalPnlPct)}
         </p>
+        {returnMode !== "nominal" && summary.realArsCost > 0 && (
+          <p className="text-xs text-zinc-500 mt-2">
+            ARS {RETURN_MODE_LABELS[returnMode].toLowerCase()}:{" "}
+            <span
+              data-sensitive
+              className={cn(
+                "font-mono",
+                realArsPnl >= 0 ? "text-emerald-400/80" : "text-red-400/80"
+              )}
+            >
+              {formatCurrency(realArsPnl, displayCurrency)} ({formatPercent(realArsPct)})
+            </span>
+          </p>
+        )}
+        {hasRealized && (
+          <p className="text-xs text-zinc-500 mt-2">
+            Realizado:{" "}
+            <span
+              data-sensitive
+              className={cn(
+                "font-mono",
+                realizedPnl >= 0 ? "text-emerald-400/80" : "text-red-400/80"
+              )}
+            >
+              {formatCurrency(realizedPnl, displayCurrency)}
+            </span>
+          </p>
+        )}
       </div>
 
       {/* Cost Basis */}
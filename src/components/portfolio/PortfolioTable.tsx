@@ -25,11 +25,15 @@ import { useRouter } from "next/navigation";
 import { useAppStore } from "@/stores/useAppStore";
 import { CATEGORY_LABELS, CATEGORY_COLORS } from "@/lib/constants";
 import { usePortfolioData } from "@/hooks/usePortfolioData";
+import { useBrokers } from "@/hooks/useBrokers";
+import { ACCOUNT_VIEWS, ACCOUNT_VIEW_LABELS } from "@/lib/accounts";
 import { buildColumns, buildActionsColumn, type PortfolioRow } from "./columns";
 import { PortfolioTableSkeleton } from "./PortfolioTableSkeleton";
 import { PortfolioCardList, PortfolioCardListSkeleton } from "./PortfolioCardList";
 import { formatCurrency, formatPercent, cn } from "@/lib/utils";
 import { downloadCSV } from "@/lib/csv";
+import { toIOLMarket, toPPIInstrumentType } from "@/services/shared/mappers";
+import type { TradeBroker } from "./TradeDialog";
 
 // Lazy-load heavy components — only rendered when user interacts
 const AssetExpandedRow = dynamic(() => import("./AssetExpandedRow"), {
@@ -54,9 +58,15 @@ export default function PortfolioTable() {
     ppiConnected,
     anyConnected,
     iolExpired,
+    accountView,
   } = usePortfolioData();
 
   const compact = useAppStore((s) => s.preferences.compactTable);
+  const setAccountView = useAppStore((s) => s.setAccountView);
+  const { data: brokers } = useBrokers();
+  // Consolidating only matters with several accounts at one broker
+  const canConsolidate = brokers?.some((b) => b.accounts.length > 1) ?? false;
+  const showAccounts = canConsolidate && accountView === "split";
   const router = useRouter();
 
   const [sorting, setSorting] = React.useState<SortingState>([
@@ -118,12 +128,23 @@ export default function PortfolioTable() {
     setTradeAction("sell");
   };
 
+  // Brokers that can execute the selected trade
+  const tradeBrokers = useMemo((): TradeBroker[] => {
+    if (!tradeAsset) return [];
+    // Crypto only trades where it is held
+    if (tradeAsset.source === "binance") return binanceConnected ? ["binance"] : [];
+    const brokers: TradeBroker[] = [];
+    if (iolConnected) brokers.push("iol");
+    if (ppiConnected && toPPIInstrumentType(tradeAsset.category)) brokers.push("ppi");
+    return brokers;
+  }, [tradeAsset, iolConnected, ppiConnected, binanceConnected]);
+
   const handleExportCSV = () => {
     const rows = table.getFilteredRowModel().rows.map((r) => r.original);
     const headers = [
       "Ticker", "Name", "Category", "Currency", "Quantity",
       "Avg Price", "Current Price", "Value", "P&L ($)", "P&L (%)",
-      "Allocation (%)", "Source",
+      "Allocation (%)", "Source", "Account",
     ];
     const csvRows = rows.map((r) => [
       r.ticker,
@@ -138,14 +159,18 @@ export default function PortfolioTable() {
       r.pnlPercent.toFixed(2),
       r.allocation.toFixed(2),
       r.source,
+      r.accountLabel ?? "",
     ]);
     const date = new Date().toISOString().slice(0, 10);
     downloadCSV(`portfolio-${date}.csv`, headers, csvRows);
   };
 
   const columns = useMemo(
-    () => [...buildColumns(displayCurrency), buildActionsColumn(handleBuy, handleSell)],
-    [displayCurrency]
+    () => [
+      ...buildColumns(displayCurrency, showAccounts),
+      buildActionsColumn(handleBuy, handleSell),
+    ],
+    [displayCurrency, showAccounts]
   );
 
   // ── Table instance ────────────────────────────────────────────────────
@@ -242,6 +267,28 @@ export default function PortfolioTable() {
 
           {/* Controls row */}
           <div className="flex items-center gap-2">
+            {canConsolidate && (
+              <div
+                className="inline-flex shrink-0 rounded-lg border border-zinc-800 bg-zinc-900/50 p-0.5"
+                role="group"
+                aria-label="Vista de cuentas"
+              >
+                {ACCOUNT_VIEWS.map((view) => (
+                  <button
+                    key={view}
+                    onClick={() => setAccountView(view)}
+                    className={cn(
+                      "px-2.5 py-1.5 text-xs font-medium rounded-md transition-all whitespace-nowrap",
+                      accountView === view
+                        ? "bg-zinc-800 text-zinc-100 shadow-sm"
+                        : "text-zinc-500 hover:text-zinc-300"
+                    )}
+                  >
+                    {ACCOUNT_VIEW_LABELS[view]}
+                  </button>
+                ))}
+              </div>
+            )}
             {/* Global search */}
             <input
               type="text"
@@ -462,8 +509,11 @@ export default function PortfolioTable() {
             currency: tradeAsset.currency,
             quantity: tradeAsset.quantity,
             currentPrice: tradeAsset.currentPrice,
-            market: tradeAsset.category === "stock" ? "nYSE" : "bCBA",
+            market: toIOLMarket(tradeAsset.category, tradeAsset.currency),
+            source: tradeAsset.source,
+            accountId: tradeAsset.accountId,
           }}
+          brokers={tradeBrokers}
           action={tradeAction}
           onClose={() => setTradeAsset(null)}
           onSuccess={() => {
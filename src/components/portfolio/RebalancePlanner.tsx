@@ -0,0 +1,438 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { AlertTriangle, Loader2, Plus, Save, Send, Trash2 } from "lucide-react";
+import { usePortfolioData } from "@/hooks/usePortfolioData";
+import { usePortfolioSettings, useUpdatePortfolioSettings } from "@/hooks/usePortfolioSettings";
+import { useIOLBalance } from "@/hooks/useIOLBalance";
+import { usePPIBalance } from "@/hooks/usePPIBalance";
+import {
+  ASSET_CATEGORIES,
+  CATEGORY_LABELS,
+  REBALANCE_SCOPES,
+  REBALANCE_SCOPE_LABELS,
+  type RebalanceScope,
+} from "@/lib/constants";
+import {
+  DEFAULT_TOLERANCE_PERCENT,
+  planRebalance,
+  type CashPool,
+  type RebalanceHolding,
+  type RebalancePlan,
+} from "@/lib/rebalance";
+import { cn, formatCurrency } from "@/lib/utils";
+import { toIOLMarket } from "@/services/shared/mappers";
+import type { BatchOrder } from "./TradeDialog";
+
+const TradeDialog = dynamic(() => import("./TradeDialog"), { ssr: false });
+
+interface Bucket {
+  name: string;
+  tickers: string[];
+  percent: string;
+}
+
+/** Percent inputs keyed by category or ticker; blank means no target */
+type Percents = Record<string, string>;
+
+function initialPercents(plan: RebalancePlan | null, scope: RebalanceScope): Percents {
+  if (!plan || plan.scope !== scope) return {};
+  return Object.fromEntries(plan.targets.map((t) => [t.key, String(t.percent)]));
+}
+
+function initialBuckets(plan: RebalancePlan | null): Bucket[] {
+  if (plan?.scope !== "bucket") return [];
+  return plan.targets.map((t) => ({
+    name: t.key,
+    tickers: t.tickers ?? [],
+    percent: String(t.percent),
+  }));
+}
+
+const percentValue = (s: string | undefined) => {
+  const n = parseFloat(s ?? "");
+  return Number.isFinite(n) ? n : null;
+};
+
+function PercentInput({
+  value,
+  onChange,
+  label,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  label: string;
+}) {
+  return (
+    <div className="relative w-20">
+      <input
+        type="number"
+        min="0"
+        max="100"
+        step="0.5"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="—"
+        aria-label={label}
+        className="w-full pl-2 pr-5 py-1 bg-zinc-800 border border-zinc-700 rounded text-right text-sm font-mono text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+      />
+      <span className="absolute right-1.5 top-1/2 -translate-y-1/2 text-xs text-zinc-500">%</span>
+    </div>
+  );
+}
+
+function Planner({ saved }: { saved: RebalancePlan | null }) {
+  const { data: rows, usdArsRate, iolConnected, ppiConnected, refetch } = usePortfolioData();
+  const { data: iolBalance } = useIOLBalance();
+  const { data: ppiBalance } = usePPIBalance(ppiConnected);
+  const updateSettings = useUpdatePortfolioSettings();
+
+  const [scope, setScope] = useState<RebalanceScope>(saved?.scope ?? "category");
+  const [percents, setPercents] = useState<Percents>(() => initialPercents(saved, saved?.scope ?? "category"));
+  const [buckets, setBuckets] = useState<Bucket[]>(() => initialBuckets(saved));
+  const [tolerance, setTolerance] = useState(String(saved?.tolerancePercent ?? DEFAULT_TOLERANCE_PERCENT));
+  const [batch, setBatch] = useState<BatchOrder[] | null>(null);
+
+  const heldTickers = useMemo(
+    () =>
+      [...new Set(rows.filter((r) => r.category !== "cash").map((r) => r.ticker.toUpperCase()))].sort(),
+    [rows]
+  );
+
+  const plan = useMemo((): RebalancePlan => {
+    const targets =
+      scope === "bucket"
+        ? buckets.flatMap((b) => {
+            const percent = percentValue(b.percent);
+            return b.name.trim() && percent !== null
+              ? [{ key: b.name.trim(), tickers: b.tickers, percent }]
+              : [];
+          })
+        : Object.entries(percents).flatMap(([key, value]) => {
+            const percent = percentValue(value);
+            return percent === null
+              ? []
+              : [{ key, label: scope === "category" ? CATEGORY_LABELS[key as keyof typeof CATEGORY_LABELS] : undefined, percent }];
+          });
+    return {
+      scope,
+      tolerancePercent: Math.max(0, percentValue(tolerance) ?? DEFAULT_TOLERANCE_PERCENT),
+      targets,
+    };
+  }, [scope, percents, buckets, tolerance]);
+
+  const assigned = plan.targets.reduce((s, t) => s + t.percent, 0);
+  const overAssigned = assigned > 100.0001;
+
+  const holdings = useMemo(
+    (): RebalanceHolding[] =>
+      rows.map((r) => ({
+        ticker: r.ticker,
+        category: r.category,
+        source: r.source,
+        accountId: r.accountId,
+        currency: r.currency,
+        quantity: r.quantity,
+        price: r.currentPrice,
+        valueUsd: r.valueUsd,
+      })),
+    [rows]
+  );
+
+  // Free cash the buys can draw on, from the broker balance endpoints
+  const cash = useMemo((): CashPool[] => {
+    const pools: CashPool[] = [];
+    const add = (source: "iol" | "ppi", balances: typeof iolBalance) => {
+      if (!balances?.balances) return;
+      const { ars, usd } = balances.balances;
+      if (ars.disponible > 0 && usdArsRate > 0) {
+        pools.push({ source, currency: "ARS", amountUsd: ars.disponible / usdArsRate });
+      }
+      if (usd.disponible > 0) pools.push({ source, currency: "USD", amountUsd: usd.disponible });
+    };
+    if (iolConnected) add("iol", iolBalance);
+    if (ppiConnected) add("ppi", ppiBalance);
+    return pools;
+  }, [iolConnected, ppiConnected, iolBalance, ppiBalance, usdArsRate]);
+
+  const proposal = useMemo(
+    () => (overAssigned ? null : planRebalance(holdings, cash, plan)),
+    [holdings, cash, plan, overAssigned]
+  );
+
+  const changeScope = (next: RebalanceScope) => {
+    setScope(next);
+    setPercents(initialPercents(saved, next));
+  };
+
+  const updateBucket = (index: number, patch: Partial<Bucket>) =>
+    setBuckets((prev) => prev.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+
+  const toggleBucketTicker = (index: number, ticker: string) =>
+    setBuckets((prev) =>
+      prev.map((b, i) => {
+        if (i === index) {
+          return {
+            ...b,
+            tickers: b.tickers.includes(ticker)
+              ? b.tickers.filter((t) => t !== ticker)
+              : [...b.tickers, ticker],
+          };
+        }
+        // A ticker counts toward one bucket only
+        return { ...b, tickers: b.tickers.filter((t) => t !== ticker) };
+      })
+    );
+
+  const reviewOrders = () => {
+    if (!proposal) return;
+    setBatch(
+      proposal.orders.map((o) => {
+        const row = rows.find((r) => r.ticker === o.ticker && r.source === o.source);
+        return {
+          ticker: o.ticker,
+          name: row?.name ?? o.ticker,
+          category: o.category,
+          currency: o.currency,
+          action: o.action,
+          quantity: o.quantity,
+          // Crypto prices need more than cents (e.g. SHIB)
+          price: o.category === "crypto" ? o.price : Number(o.price.toFixed(2)),
+          market: toIOLMarket(o.category, o.currency),
+          broker: o.source,
+          accountId: o.accountId,
+        };
+      })
+    );
+  };
+
+  const options =
+    scope === "category"
+      ? ASSET_CATEGORIES.map((c) => ({ key: c as string, label: CATEGORY_LABELS[c] }))
+      : heldTickers.map((t) => ({ key: t, label: t }));
+
+  return (
+    <div className="space-y-4">
+      {/* Scope and tolerance */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="grid grid-cols-3 gap-1 p-1 bg-zinc-800/50 rounded-lg" role="tablist">
+          {REBALANCE_SCOPES.map((s) => (
+            <button
+              key={s}
+              type="button"
+              role="tab"
+              aria-selected={scope === s}
+              onClick={() => changeScope(s)}
+              className={cn(
+                "px-3 py-1.5 rounded-md text-xs font-medium transition-colors",
+                scope === s ? "bg-zinc-700 text-zinc-100" : "text-zinc-400 hover:text-zinc-200"
+              )}
+            >
+              {REBALANCE_SCOPE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-zinc-500">
+          Tolerancia
+          <PercentInput value={tolerance} onChange={setTolerance} label="Tolerancia" />
+        </label>
+      </div>
+
+      {/* Targets */}
+      {scope === "bucket" ? (
+        <div className="space-y-3">
+          {buckets.map((b, i) => (
+            <div key={i} className="rounded-lg bg-zinc-800/40 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  value={b.name}
+                  onChange={(e) => updateBucket(i, { name: e.target.value })}
+                  placeholder="Nombre del grupo"
+                  maxLength={40}
+                  className="flex-1 px-2 py-1 bg-zinc-800 border border-zinc-700 rounded text-sm text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+                <PercentInput
+                  value={b.percent}
+                  onChange={(percent) => updateBucket(i, { percent })}
+                  label={`Objetivo ${b.name}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setBuckets((prev) => prev.filter((_, j) => j !== i))}
+                  aria-label="Eliminar grupo"
+                  className="p-1.5 rounded hover:bg-zinc-700 text-zinc-500 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {heldTickers.map((t) => (
+                  <button
+                    key={t}
+                    type="button"
+                    onClick={() => toggleBucketTicker(i, t)}
+                    className={cn(
+                      "px-2 py-0.5 rounded text-[11px] font-mono transition-colors",
+                      b.tickers.includes(t)
+                        ? "bg-blue-500/20 text-blue-400"
+                        : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+                    )}
+                  >
+                    {t}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setBuckets((prev) => [...prev, { name: "", tickers: [], percent: "" }])}
+            className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Agregar grupo
+          </button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+          {options.map((o) => (
+            <div key={o.key} className="flex items-center justify-between gap-2 rounded-lg bg-zinc-800/40 px-3 py-1.5">
+              <span className={cn("text-sm text-zinc-300", scope === "ticker" && "font-mono")}>{o.label}</span>
+              <PercentInput
+                value={percents[o.key] ?? ""}
+                onChange={(value) => setPercents((prev) => ({ ...prev, [o.key]: value }))}
+                label={`Objetivo ${o.label}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className={cn("text-xs", overAssigned ? "text-red-400" : "text-zinc-500")}>
+          Asignado {assigned.toFixed(1)}%
+          {overAssigned ? " · los objetivos suman mas de 100%" : assigned < 100 ? " · el resto queda sin rebalancear" : ""}
+        </p>
+        <button
+          type="button"
+          onClick={() => updateSettings.mutate({ rebalancePlan: plan })}
+          disabled={overAssigned || updateSettings.isPending}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 disabled:opacity-50 transition-colors"
+        >
+          {updateSettings.isPending ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <Save className="h-3.5 w-3.5" />
+          )}
+          Guardar objetivos
+        </button>
+      </div>
+
+      {/* Proposal */}
+      {proposal && proposal.groups.length > 0 && (
+        <div className="space-y-3">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-zinc-500 border-b border-zinc-800">
+                <th className="text-left font-medium py-1.5">Grupo</th>
+                <th className="text-right font-medium py-1.5">Actual</th>
+                <th className="text-right font-medium py-1.5">Objetivo</th>
+                <th className="text-right font-medium py-1.5">Desvio</th>
+                <th className="text-right font-medium py-1.5">Despues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {proposal.groups.map((g) => (
+                <tr key={g.key} className="border-b border-zinc-800/50 text-zinc-300 tabular-nums">
+                  <td className="py-1.5">{g.label}</td>
+                  <td className="py-1.5 text-right">{g.currentPercent.toFixed(1)}%</td>
+                  <td className="py-1.5 text-right">{g.targetPercent.toFixed(1)}%</td>
+                  <td
+                    className={cn(
+                      "py-1.5 text-right",
+                      g.status === "ok" ? "text-zinc-500" : g.status === "over" ? "text-amber-400" : "text-blue-400"
+                    )}
+                  >
+                    {g.driftPercent >= 0 ? "+" : ""}
+                    {g.driftPercent.toFixed(1)}
+                  </td>
+                  <td className="py-1.5 text-right">{g.afterPercent.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {proposal.warnings.length > 0 && (
+            <div className="flex items-start gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              <div>{proposal.warnings.join(". ")}</div>
+            </div>
+          )}
+
+          {proposal.orders.length === 0 ? (
+            <p className="text-xs text-zinc-500 text-center py-4">
+              Todo dentro de la tolerancia: no hay ordenes para enviar
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <div className="rounded-lg bg-zinc-800/40 divide-y divide-zinc-800">
+                {proposal.orders.map((o, i) => (
+                  <div key={i} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                    <span
+                      className={cn(
+                        "w-14 font-semibold",
+                        o.action === "buy" ? "text-emerald-400" : "text-red-400"
+                      )}
+                    >
+                      {o.action === "buy" ? "Comprar" : "Vender"}
+                    </span>
+                    <span className="font-mono text-zinc-100">{o.ticker}</span>
+                    <span className="text-[10px] text-zinc-500 uppercase">{o.source}</span>
+                    <span className="ml-auto font-mono text-zinc-400 tabular-nums">{o.quantity}</span>
+                    <span className="w-24 text-right font-mono text-zinc-300 tabular-nums" data-sensitive>
+                      {formatCurrency(o.amountUsd)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={reviewOrders}
+                className="w-full py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white transition-colors flex items-center justify-center gap-2"
+              >
+                <Send className="h-4 w-4" />
+                Revisar {proposal.orders.length} ordenes
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {batch && (
+        <TradeDialog
+          orders={batch}
+          onClose={() => setBatch(null)}
+          onSuccess={() => {
+            refetch();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/** Target weights per category, ticker or custom bucket and the orders that restore them */
+export default function RebalancePlanner() {
+  const { data: settings, isLoading } = usePortfolioSettings();
+
+  if (isLoading) {
+    return (
+      <div className="h-[120px] flex items-center justify-center">
+        <Loader2 className="h-5 w-5 animate-spin text-zinc-500" />
+      </div>
+    );
+  }
+
+  return <Planner saved={settings?.rebalancePlan ?? null} />;
+}
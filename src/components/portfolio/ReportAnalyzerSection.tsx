@@ -16,6 +16,7 @@ import {
 import { useIOLPortfolio } from "@/hooks/useIOLPortfolio";
 import { useBinancePortfolio } from "@/hooks/useBinancePortfolio";
 import { usePPIPortfolio } from "@/hooks/usePPIPortfolio";
+import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
 import { cn } from "@/lib/utils";
 
 type Recommendation = {
@@ -78,6 +79,7 @@ export default function ReportAnalyzerSection() {
   const { data: iolPortfolio } = useIOLPortfolio();
   const { data: binancePortfolio } = useBinancePortfolio();
   const { data: ppiPortfolio } = usePPIPortfolio();
+  const { convertToUsd } = useCurrencyConversion();
 
   const [file, setFile] = useState<File | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
@@ -94,8 +96,8 @@ export default function ReportAnalyzerSection() {
     name: asset.name,
     category: asset.category,
     quantity: asset.quantity,
-    currentValue: asset.currentValue,
-    pnl: asset.pnl,
+    currentValue: convertToUsd(asset.currentValue, asset.currency),
+    pnl: convertToUsd(asset.pnl, asset.currency),
     pnlPercent: asset.pnlPercent,
   }));
 
@@ -9,14 +9,36 @@ import {
   AlertTriangle,
   CheckCircle2,
   ArrowRight,
+  ListOrdered,
+  Circle,
+  XCircle,
+  Clock,
 } from "lucide-react";
 import { useIOLTrade, SETTLEMENT_OPTIONS, formatOrderSummary } from "@/hooks/useIOLTrade";
+import { usePPITrade, usePPIBudgets, type PPIBudget } from "@/hooks/usePPITrade";
+import { useBinanceTrade } from "@/hooks/useBinanceTrade";
 import { useIOLQuote } from "@/hooks/useIOLQuotes";
 import { useIOLBalance } from "@/hooks/useIOLBalance";
+import { usePPIBalance } from "@/hooks/usePPIBalance";
 import { formatCurrency, cn } from "@/lib/utils";
+import { TRADE_RATE_LIMIT } from "@/lib/constants";
+import { toIOLMarket, toPPIInstrumentType } from "@/services/shared/mappers";
+import type { UseQueryResult } from "@tanstack/react-query";
 import type { IOLSettlement } from "@/services/iol";
+import ConditionalOrderForm from "./ConditionalOrderForm";
 
-interface TradeDialogProps {
+export type TradeBroker = "iol" | "ppi" | "binance";
+
+const BROKER_LABELS: Record<TradeBroker, string> = {
+  iol: "IOL",
+  ppi: "PPI",
+  binance: "Binance",
+};
+
+/** Binance pairs are traded against USDT */
+const BINANCE_QUOTE = "USDT";
+
+interface SingleTradeProps {
   asset: {
     ticker: string;
     name: string;
@@ -25,31 +47,82 @@ interface TradeDialogProps {
     quantity: number;
     currentPrice: number;
     market?: string;
+    source?: TradeBroker;
+    /** Account the position is held in, at `source` */
+    accountId?: string;
   };
+  /** Brokers able to execute this trade; a picker shows when there are several */
+  brokers?: TradeBroker[];
+  action: "buy" | "sell";
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+/** One order of a batch, already sized (e.g. by the rebalancing planner) */
+export interface BatchOrder {
+  ticker: string;
+  name: string;
+  category: string;
+  currency: "USD" | "ARS";
   action: "buy" | "sell";
+  quantity: number;
+  price: number;
+  market?: string;
+  broker: TradeBroker;
+  /** Account at `broker` to trade in; the first one when omitted */
+  accountId?: string;
+}
+
+interface BatchTradeProps {
+  /** Sent in this order after a single confirmation */
+  orders: BatchOrder[];
   onClose: () => void;
   onSuccess?: () => void;
 }
 
+type TradeDialogProps = SingleTradeProps | BatchTradeProps;
+
 type Step = "form" | "confirm" | "success" | "error";
 
-export default function TradeDialog({
+export default function TradeDialog(props: TradeDialogProps) {
+  return "orders" in props ? <BatchTrade {...props} /> : <SingleTrade {...props} />;
+}
+
+function SingleTrade({
   asset,
+  brokers = ["iol"],
   action,
   onClose,
   onSuccess,
-}: TradeDialogProps) {
+}: SingleTradeProps) {
+  const initialBroker: TradeBroker =
+    asset.source && brokers.includes(asset.source) ? asset.source : brokers[0] ?? "iol";
   const [step, setStep] = useState<Step>("form");
   const [cantidad, setCantidad] = useState<string>("");
-  const [precio, setPrecio] = useState<string>(asset.currentPrice.toFixed(2));
+  const [precio, setPrecio] = useState<string>(
+    // Crypto prices need more than cents (e.g. SHIB)
+    initialBroker === "binance" ? String(asset.currentPrice) : asset.currentPrice.toFixed(2)
+  );
   const [plazo, setPlazo] = useState<IOLSettlement>("t2");
   const [errorMessage, setErrorMessage] = useState<string>("");
+  // Sells can also be armed as a stop loss / take profit / trailing stop
+  const [mode, setMode] = useState<"now" | "conditional">("now");
+  const [broker, setBroker] = useState<TradeBroker>(initialBroker);
+
+  const isCrypto = broker === "binance";
 
-  const tradeMutation = useIOLTrade();
-  const { data: balanceData, isLoading: balanceLoading } = useIOLBalance();
+  const iolTrade = useIOLTrade();
+  const ppiTrade = usePPITrade();
+  const binanceTrade = useBinanceTrade();
+  const tradeMutation =
+    broker === "ppi" ? ppiTrade : broker === "binance" ? binanceTrade : iolTrade;
+  const iolBalance = useIOLBalance();
+  const ppiBalance = usePPIBalance(brokers.includes("ppi"));
+  const { data: balanceData, isLoading: balanceLoading } =
+    broker === "ppi" ? ppiBalance : iolBalance;
 
   // Fetch live quote for current price
-  const { data: liveQuote } = useIOLQuote(asset.ticker, asset.market, true);
+  const { data: liveQuote } = useIOLQuote(asset.ticker, asset.market, !isCrypto);
 
   // Update price when quote changes
   useEffect(() => {
@@ -59,14 +132,41 @@ export default function TradeDialog({
     }
   }, [liveQuote]);
 
-  const parsedCantidad = parseInt(cantidad, 10) || 0;
+  // Crypto quantities are fractional
+  const parsedCantidad = (isCrypto ? parseFloat(cantidad) : parseInt(cantidad, 10)) || 0;
   const parsedPrecio = parseFloat(precio) || 0;
   const totalAmount = parsedCantidad * parsedPrecio;
 
   // For sells, max quantity is what user owns
   const maxQuantity = action === "sell" ? asset.quantity : undefined;
 
-  const market = asset.market || (asset.category === "stock" ? "nYSE" : "bCBA");
+  const market = asset.market || toIOLMarket(asset.category, asset.currency);
+
+  // Trade in the position's own account; another broker uses its first one
+  const accountId = broker === asset.source ? asset.accountId : undefined;
+
+  const order = {
+    action,
+    simbolo: asset.ticker,
+    cantidad: parsedCantidad,
+    precio: parsedPrecio,
+    plazo,
+    validez: new Date().toISOString().split("T")[0],
+    tipoOrden: "precioLimite" as const,
+    accountId,
+  };
+  const instrumentType = toPPIInstrumentType(asset.category);
+
+  // PPI quotes commissions and disclaimers before the order is confirmed
+  const [ppiBudget] = usePPIBudgets(
+    step === "confirm" && broker === "ppi" && instrumentType ? [{ ...order, instrumentType }] : []
+  );
+  const budgetItems: BudgetItem[] = ppiBudget
+    ? [{ label: asset.ticker, currency: asset.currency, query: ppiBudget }]
+    : [];
+  const disclaimers = budgetDisclaimers(budgetItems);
+  const [acceptedKey, setAcceptedKey] = useState<string | null>(null);
+  const accepted = acceptedKey === disclaimerKey(disclaimers);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -91,17 +191,31 @@ export default function TradeDialog({
   };
 
   const handleConfirm = async () => {
+    if (broker === "ppi" && !instrumentType) {
+      setErrorMessage(`PPI no opera ${asset.ticker}`);
+      setStep("error");
+      return;
+    }
+
     try {
-      await tradeMutation.mutateAsync({
-        action,
-        mercado: market,
-        simbolo: asset.ticker,
-        cantidad: parsedCantidad,
-        precio: parsedPrecio,
-        plazo,
-        validez: new Date().toISOString().split("T")[0],
-        tipoOrden: "precioLimite",
-      });
+      if (broker === "ppi" && instrumentType) {
+        await ppiTrade.mutateAsync({
+          ...order,
+          instrumentType,
+          acceptedDisclaimers: disclaimers.map((d) => d.code),
+        });
+      } else if (broker === "binance") {
+        await binanceTrade.mutateAsync({
+          action,
+          simbolo: `${asset.ticker}${BINANCE_QUOTE}`,
+          cantidad: parsedCantidad,
+          precio: parsedPrecio,
+          tipoOrden: "precioLimite",
+          accountId,
+        });
+      } else {
+        await iolTrade.mutateAsync({ ...order, mercado: market });
+      }
       setStep("success");
       onSuccess?.();
     } catch (error) {
@@ -164,10 +278,69 @@ export default function TradeDialog({
 
         {/* Content */}
         <div className="p-4">
-          {step === "form" && (
+          {step === "form" && brokers.length > 1 && (
+            <div className="mb-4">
+              <span className="block text-xs text-zinc-500 mb-1">Ejecutar con</span>
+              <div className="grid grid-cols-2 gap-1 p-1 bg-zinc-800/50 rounded-lg" role="tablist">
+                {brokers.map((b) => (
+                  <button
+                    key={b}
+                    type="button"
+                    role="tab"
+                    aria-selected={broker === b}
+                    onClick={() => {
+                      setBroker(b);
+                      // Conditional orders are only armed on IOL
+                      if (b !== "iol") setMode("now");
+                    }}
+                    className={cn(
+                      "py-1.5 rounded-md text-sm font-medium transition-colors",
+                      broker === b ? "bg-zinc-700 text-zinc-100" : "text-zinc-400 hover:text-zinc-200"
+                    )}
+                  >
+                    {BROKER_LABELS[b]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {step === "form" && action === "sell" && broker === "iol" && (
+            <div className="grid grid-cols-2 gap-1 p-1 mb-4 bg-zinc-800/50 rounded-lg" role="tablist">
+              {(["now", "conditional"] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  role="tab"
+                  aria-selected={mode === m}
+                  onClick={() => setMode(m)}
+                  className={cn(
+                    "py-1.5 rounded-md text-sm font-medium transition-colors",
+                    mode === m ? "bg-zinc-700 text-zinc-100" : "text-zinc-400 hover:text-zinc-200"
+                  )}
+                >
+                  {m === "now" ? "Vender ahora" : "Condicional"}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {step === "form" && mode === "conditional" && (
+            <ConditionalOrderForm
+              ticker={asset.ticker}
+              market={market}
+              currency={asset.currency}
+              quantity={asset.quantity}
+              currentPrice={liveQuote?.ultimoPrecio || asset.currentPrice}
+              accountId={accountId}
+              onCreated={onClose}
+            />
+          )}
+
+          {step === "form" && mode === "now" && (
             <form onSubmit={handleSubmit} className="space-y-4">
               {/* Available Balance */}
-              {balanceLoading ? (
+              {isCrypto ? null : balanceLoading ? (
                 <div className="bg-zinc-800/50 rounded-lg px-3 py-2 animate-pulse">
                   <div className="h-4 w-40 bg-zinc-700 rounded" />
                 </div>
@@ -227,9 +400,9 @@ export default function TradeDialog({
                 <div className="relative">
                   <input
                     type="number"
-                    min="1"
+                    min={isCrypto ? "0" : "1"}
                     max={maxQuantity}
-                    step="1"
+                    step={isCrypto ? "any" : "1"}
                     value={cantidad}
                     onChange={(e) => setCantidad(e.target.value)}
                     placeholder="0"
@@ -255,8 +428,8 @@ export default function TradeDialog({
                 </label>
                 <input
                   type="number"
-                  min="0.01"
-                  step="0.01"
+                  min={isCrypto ? "0" : "0.01"}
+                  step={isCrypto ? "any" : "0.01"}
                   value={precio}
                   onChange={(e) => setPrecio(e.target.value)}
                   placeholder="0.00"
@@ -271,28 +444,30 @@ export default function TradeDialog({
               </div>
 
               {/* Settlement */}
-              <div>
-                <label className="block text-sm font-medium text-zinc-400 mb-1">
-                  Plazo de liquidación
-                </label>
-                <div className="grid grid-cols-3 gap-2">
-                  {SETTLEMENT_OPTIONS.map((option) => (
-                    <button
-                      key={option.value}
-                      type="button"
-                      onClick={() => setPlazo(option.value)}
-                      className={cn(
-                        "px-3 py-2 rounded-lg text-sm font-medium transition-colors",
-                        plazo === option.value
-                          ? "bg-blue-600 text-white"
-                          : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
-                      )}
-                    >
-                      {option.label}
-                    </button>
-                  ))}
+              {!isCrypto && (
+                <div>
+                  <label className="block text-sm font-medium text-zinc-400 mb-1">
+                    Plazo de liquidación
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {SETTLEMENT_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setPlazo(option.value)}
+                        className={cn(
+                          "px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                          plazo === option.value
+                            ? "bg-blue-600 text-white"
+                            : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* Total */}
               {parsedCantidad > 0 && parsedPrecio > 0 && (
@@ -349,7 +524,7 @@ export default function TradeDialog({
                     Confirmar operación
                   </p>
                   <p className="text-xs text-amber-400/70 mt-1">
-                    Esta orden se enviará a IOL para su ejecución. Una vez
+                    Esta orden se enviará a {BROKER_LABELS[broker]} para su ejecución. Una vez
                     enviada, solo podrás cancelarla si no ha sido ejecutada.
                   </p>
                 </div>
@@ -368,6 +543,10 @@ export default function TradeDialog({
                     {actionLabel}
                   </span>
                 </div>
+                <div className="flex justify-between">
+                  <span className="text-zinc-500">Broker</span>
+                  <span className="text-zinc-100">{BROKER_LABELS[broker]}</span>
+                </div>
                 <div className="flex justify-between">
                   <span className="text-zinc-500">Símbolo</span>
                   <span className="font-mono text-zinc-100">{asset.ticker}</span>
@@ -382,12 +561,14 @@ export default function TradeDialog({
                     {formatCurrency(parsedPrecio, asset.currency)}
                   </span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-zinc-500">Plazo</span>
-                  <span className="text-zinc-100">
-                    {SETTLEMENT_OPTIONS.find((o) => o.value === plazo)?.label}
-                  </span>
-                </div>
+                {!isCrypto && (
+                  <div className="flex justify-between">
+                    <span className="text-zinc-500">Plazo</span>
+                    <span className="text-zinc-100">
+                      {SETTLEMENT_OPTIONS.find((o) => o.value === plazo)?.label}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between pt-2 border-t border-zinc-700">
                   <span className="text-zinc-400 font-medium">Total</span>
                   <span
@@ -401,6 +582,14 @@ export default function TradeDialog({
                 </div>
               </div>
 
+              <PPIBudgetNotice
+                items={budgetItems}
+                accepted={accepted}
+                onAcceptedChange={(checked) =>
+                  setAcceptedKey(checked ? disclaimerKey(disclaimers) : null)
+                }
+              />
+
               {/* Actions */}
               <div className="flex gap-3">
                 <button
@@ -411,7 +600,7 @@ export default function TradeDialog({
                 </button>
                 <button
                   onClick={handleConfirm}
-                  disabled={tradeMutation.isPending}
+                  disabled={tradeMutation.isPending || !budgetReady(budgetItems, accepted)}
                   className={cn(
                     "flex-1 py-3 rounded-lg font-semibold transition-colors flex items-center justify-center gap-2",
                     isBuy
@@ -460,7 +649,7 @@ export default function TradeDialog({
                     simbolo: asset.ticker,
                     cantidad: parsedCantidad,
                     precio: parsedPrecio,
-                    plazo,
+                    plazo: isCrypto ? undefined : plazo,
                   })}
                 </p>
                 {tradeMutation.data?.numeroOperacion && (
@@ -510,3 +699,416 @@ export default function TradeDialog({
     </div>
   );
 }
+
+type BatchStatus = "queued" | "sent" | "failed" | "skipped";
+
+// The trade routes share one sliding-window limit that also weighs the
+// previous window, so after a full chunk the next one waits two windows
+const BATCH_CHUNK = TRADE_RATE_LIMIT.limit;
+const BATCH_PAUSE_MS = 2 * TRADE_RATE_LIMIT.windowSeconds * 1000;
+
+/**
+ * Reviews a list of orders and sends them one after another on a single
+ * confirmation. Stops at the first rejection: later buys are usually paid
+ * with the proceeds of the sells before them. Batches longer than the trade
+ * rate limit go out in chunks with a pause between them.
+ */
+function BatchTrade({ orders, onClose, onSuccess }: BatchTradeProps) {
+  const [step, setStep] = useState<"confirm" | "sending" | "done">("confirm");
+  const [plazo, setPlazo] = useState<IOLSettlement>("t2");
+  const [statuses, setStatuses] = useState<BatchStatus[]>(() => orders.map(() => "queued"));
+  const [errorMessage, setErrorMessage] = useState<string>("");
+  const [pausedUntil, setPausedUntil] = useState<Date | null>(null);
+
+  const iolTrade = useIOLTrade();
+  const ppiTrade = usePPITrade();
+  const binanceTrade = useBinanceTrade();
+
+  const pauses = Math.ceil(orders.length / BATCH_CHUNK) - 1;
+  const hasSettlement = orders.some((o) => o.broker !== "binance");
+  const totals = orders.reduce(
+    (acc, o) => {
+      acc[o.currency][o.action] += o.quantity * o.price;
+      return acc;
+    },
+    { USD: { buy: 0, sell: 0 }, ARS: { buy: 0, sell: 0 } }
+  );
+
+  const toOrder = (o: BatchOrder) => ({
+    action: o.action,
+    simbolo: o.ticker,
+    cantidad: o.quantity,
+    precio: o.price,
+    plazo,
+    validez: new Date().toISOString().split("T")[0],
+    tipoOrden: "precioLimite" as const,
+    accountId: o.accountId,
+  });
+
+  // Every PPI order is budgeted up front so its terms are accepted once
+  const ppiOrders = orders.flatMap((o) => {
+    const instrumentType = o.broker === "ppi" ? toPPIInstrumentType(o.category) : null;
+    return instrumentType ? [{ order: o, request: { ...toOrder(o), instrumentType } }] : [];
+  });
+  const ppiBudgets = usePPIBudgets(step === "confirm" ? ppiOrders.map((p) => p.request) : []);
+  const budgetItems: BudgetItem[] = ppiBudgets.map((query, i) => ({
+    label: ppiOrders[i].order.ticker,
+    currency: ppiOrders[i].order.currency,
+    query,
+  }));
+  const disclaimers = budgetDisclaimers(budgetItems);
+  const [acceptedKey, setAcceptedKey] = useState<string | null>(null);
+  const accepted = acceptedKey === disclaimerKey(disclaimers);
+
+  const submit = async (o: BatchOrder, acceptedDisclaimers: string[]) => {
+    const order = toOrder(o);
+
+    if (o.broker === "ppi") {
+      const instrumentType = toPPIInstrumentType(o.category);
+      if (!instrumentType) throw new Error(`PPI no opera ${o.ticker}`);
+      await ppiTrade.mutateAsync({
+        ...order,
+        instrumentType,
+        acceptedDisclaimers,
+      });
+    } else if (o.broker === "binance") {
+      await binanceTrade.mutateAsync({
+        action: o.action,
+        simbolo: `${o.ticker}${BINANCE_QUOTE}`,
+        cantidad: o.quantity,
+        precio: o.price,
+        tipoOrden: "precioLimite",
+        accountId: o.accountId,
+      });
+    } else {
+      const mercado = o.market || toIOLMarket(o.category, o.currency);
+      await iolTrade.mutateAsync({ ...order, mercado });
+    }
+  };
+
+  const handleConfirm = async () => {
+    // Read before the budgets switch off with the confirm step
+    const acceptedCodes = new Map(
+      ppiOrders.map((p, i) => [p.order, ppiBudgets[i].data?.disclaimers.map((d) => d.code) ?? []])
+    );
+    setStep("sending");
+    const next = [...statuses];
+    let sent = 0;
+    for (let i = 0; i < orders.length; i++) {
+      if (i > 0 && i % BATCH_CHUNK === 0) {
+        const resume = new Date(Date.now() + BATCH_PAUSE_MS);
+        setPausedUntil(resume);
+        await new Promise((resolve) => setTimeout(resolve, BATCH_PAUSE_MS));
+        setPausedUntil(null);
+      }
+      try {
+        await submit(orders[i], acceptedCodes.get(orders[i]) ?? []);
+        next[i] = "sent";
+        sent++;
+      } catch (error) {
+        next[i] = "failed";
+        for (let j = i + 1; j < orders.length; j++) next[j] = "skipped";
+        setErrorMessage(
+          `${orders[i].ticker}: ${error instanceof Error ? error.message : "Error al ejecutar la orden"}`
+        );
+        setStatuses([...next]);
+        break;
+      }
+      setStatuses([...next]);
+    }
+    if (sent > 0) onSuccess?.();
+    setStep("done");
+  };
+
+  const sentCount = statuses.filter((s) => s === "sent").length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 modal-backdrop"
+        onClick={step === "sending" ? undefined : onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal */}
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Enviar ${orders.length} ordenes`}
+        className="relative z-10 w-full max-w-lg mx-2 sm:mx-4 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl modal-content"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-zinc-800">
+          <div className="flex items-center gap-3">
+            <ListOrdered className="h-5 w-5 text-blue-400" />
+            <div>
+              <h2 className="text-lg font-bold text-zinc-100">Confirmar lote</h2>
+              <p className="text-sm text-zinc-500">{orders.length} ordenes límite</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={step === "sending"}
+            aria-label="Close dialog"
+            className="p-1.5 rounded-lg hover:bg-zinc-800 transition-colors disabled:opacity-50"
+          >
+            <X className="h-5 w-5 text-zinc-400" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {step === "confirm" && (
+            <div className="flex items-start gap-3 p-3 bg-amber-950/30 border border-amber-800/50 rounded-lg">
+              <AlertTriangle className="h-5 w-5 text-amber-400 flex-shrink-0 mt-0.5" />
+              <p className="text-xs text-amber-400/70">
+                Las ordenes se envían en este orden, ventas primero. Si un broker rechaza una,
+                las siguientes no se envían.
+                {pauses > 0 &&
+                  ` Por el limite de ${BATCH_CHUNK} ordenes por minuto se envían de a ${BATCH_CHUNK}, con ${BATCH_PAUSE_MS / 60000} minutos de pausa entre tandas: el lote tarda unos ${pauses * BATCH_PAUSE_MS / 60000} minutos y la ventana tiene que quedar abierta.`}
+              </p>
+            </div>
+          )}
+
+          {step === "sending" && pausedUntil && (
+            <p className="flex items-center gap-2 text-xs text-zinc-400">
+              <Clock className="h-4 w-4 shrink-0" />
+              Pausa por el limite de {BATCH_CHUNK} ordenes por minuto; sigue a las{" "}
+              {pausedUntil.toLocaleTimeString("es-AR")}
+            </p>
+          )}
+
+          {/* Orders */}
+          <div className="max-h-[320px] overflow-y-auto rounded-lg bg-zinc-800/50 divide-y divide-zinc-700/50">
+            {orders.map((o, i) => (
+              <div key={i} className="flex items-center gap-3 px-3 py-2 text-sm">
+                {statuses[i] === "sent" ? (
+                  <CheckCircle2 className="h-4 w-4 text-emerald-400 shrink-0" />
+                ) : statuses[i] === "failed" ? (
+                  <XCircle className="h-4 w-4 text-red-400 shrink-0" />
+                ) : step === "sending" && statuses[i] === "queued" && statuses.indexOf("queued") === i ? (
+                  <Loader2 className="h-4 w-4 text-zinc-400 animate-spin shrink-0" />
+                ) : (
+                  <Circle className={cn("h-4 w-4 shrink-0", statuses[i] === "skipped" ? "text-zinc-700" : "text-zinc-600")} />
+                )}
+                <span
+                  className={cn(
+                    "w-16 text-xs font-semibold",
+                    o.action === "buy" ? "text-emerald-400" : "text-red-400"
+                  )}
+                >
+                  {o.action === "buy" ? "Comprar" : "Vender"}
+                </span>
+                <span className="font-mono text-zinc-100">{o.ticker}</span>
+                <span className="text-[10px] text-zinc-500">{BROKER_LABELS[o.broker]}</span>
+                <span className="ml-auto font-mono text-xs text-zinc-400 tabular-nums">
+                  {o.quantity} × {formatCurrency(o.price, o.currency)}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* Totals */}
+          <div className="rounded-lg bg-zinc-800/50 p-3 space-y-1 text-sm">
+            {(["ARS", "USD"] as const)
+              .filter((c) => totals[c].buy > 0 || totals[c].sell > 0)
+              .map((c) => (
+                <div key={c} className="flex justify-between font-mono">
+                  <span className="text-zinc-500 font-sans">{c}</span>
+                  <span>
+                    <span className="text-emerald-400">+{formatCurrency(totals[c].sell, c)}</span>
+                    <span className="text-zinc-600"> / </span>
+                    <span className="text-red-400">-{formatCurrency(totals[c].buy, c)}</span>
+                  </span>
+                </div>
+              ))}
+          </div>
+
+          {step === "confirm" && (
+            <PPIBudgetNotice
+              items={budgetItems}
+              accepted={accepted}
+              onAcceptedChange={(checked) =>
+                setAcceptedKey(checked ? disclaimerKey(disclaimers) : null)
+              }
+            />
+          )}
+
+          {/* Settlement, shared so sale proceeds settle in time for the buys */}
+          {step === "confirm" && hasSettlement && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-400 mb-1">
+                Plazo de liquidación
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                {SETTLEMENT_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setPlazo(option.value)}
+                    className={cn(
+                      "px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                      plazo === option.value
+                        ? "bg-blue-600 text-white"
+                        : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {step === "done" && (
+            <div className="space-y-1">
+              <p className="text-sm text-zinc-300">
+                {sentCount} de {orders.length} ordenes enviadas
+              </p>
+              {errorMessage && (
+                <p className="flex items-center gap-2 text-sm text-red-400">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {errorMessage}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Actions */}
+          {step === "done" ? (
+            <button
+              onClick={onClose}
+              className="w-full py-3 rounded-lg font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors"
+            >
+              Cerrar
+            </button>
+          ) : (
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                disabled={step === "sending"}
+                className="flex-1 py-3 rounded-lg font-medium bg-zinc-800 hover:bg-zinc-700 text-zinc-300 transition-colors disabled:opacity-50"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={
+                  step === "sending" || orders.length === 0 || !budgetReady(budgetItems, accepted)
+                }
+                className="flex-1 py-3 rounded-lg font-semibold bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white transition-colors flex items-center justify-center gap-2"
+              >
+                {step === "sending" ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Enviando...
+                  </>
+                ) : (
+                  <>Confirmar {orders.length} ordenes</>
+                )}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface BudgetItem {
+  label: string;
+  currency: "USD" | "ARS";
+  query: UseQueryResult<PPIBudget, Error>;
+}
+
+/** Disclaimers across the budgets, each once */
+function budgetDisclaimers(items: BudgetItem[]): PPIBudget["disclaimers"] {
+  const byCode = new Map<string, PPIBudget["disclaimers"][number]>();
+  for (const item of items) {
+    for (const d of item.query.data?.disclaimers ?? []) byCode.set(d.code, d);
+  }
+  return [...byCode.values()];
+}
+
+/** Acceptance is tied to the exact disclaimers shown; a new set asks again */
+function disclaimerKey(disclaimers: PPIBudget["disclaimers"]): string {
+  return disclaimers.map((d) => d.code).join("|");
+}
+
+function budgetReady(items: BudgetItem[], accepted: boolean): boolean {
+  return (
+    items.every((i) => i.query.data) && (budgetDisclaimers(items).length === 0 || accepted)
+  );
+}
+
+/**
+ * PPI's commissions and disclaimers for the orders about to be sent; the
+ * disclaimers have to be accepted before confirming.
+ */
+function PPIBudgetNotice({
+  items,
+  accepted,
+  onAcceptedChange,
+}: {
+  items: BudgetItem[];
+  accepted: boolean;
+  onAcceptedChange: (accepted: boolean) => void;
+}) {
+  if (items.length === 0) return null;
+
+  if (items.some((i) => i.query.isPending)) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg bg-zinc-800/50 p-3 text-sm text-zinc-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Consultando comisiones y condiciones de PPI...
+      </div>
+    );
+  }
+
+  const failed = items.find((i) => i.query.error);
+  if (failed) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-red-400">
+        <AlertTriangle className="h-4 w-4 shrink-0" />
+        PPI no pudo cotizar {failed.label}: {failed.query.error?.message}
+      </div>
+    );
+  }
+
+  const disclaimers = budgetDisclaimers(items);
+
+  return (
+    <div className="rounded-lg bg-zinc-800/50 p-3 space-y-2 text-sm">
+      {items.map((i) =>
+        i.query.data?.commissions != null ? (
+          <div key={i.label} className="flex justify-between">
+            <span className="text-zinc-500">
+              Comisiones PPI{items.length > 1 ? ` · ${i.label}` : ""}
+            </span>
+            <span className="font-mono text-zinc-100">
+              {formatCurrency(i.query.data.commissions, i.currency)}
+            </span>
+          </div>
+        ) : null
+      )}
+      {disclaimers.length > 0 && (
+        <>
+          <ul className="max-h-32 overflow-y-auto space-y-1 text-xs text-zinc-400">
+            {disclaimers.map((d) => (
+              <li key={d.code}>{d.description}</li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 text-xs text-zinc-300">
+            <input
+              type="checkbox"
+              checked={accepted}
+              onChange={(e) => onAcceptedChange(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Acepto las condiciones de PPI
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -35,8 +35,8 @@ function mapRowsToTradeAssets(rows: PortfolioRow[]): TradePortfolioAsset[] {
     quantity: row.quantity,
     averagePrice: row.averagePrice,
     currentPrice: row.currentPrice,
-    currentValue: row.currentValue,
-    pnl: row.pnl,
+    currentValue: row.valueUsd,
+    pnl: row.pnlUsd,
     pnlPercent: row.pnlPercent,
     allocation: row.allocation,
   }));
@@ -17,6 +17,11 @@ import {
   formatQuantity,
   cn,
 } from "@/lib/utils";
+import { BINANCE_QUOTE_ASSETS } from "@/lib/broker-history";
+import {
+  BINANCE_WALLET_LABELS,
+  type BinanceWallet,
+} from "@/hooks/useBinancePortfolio";
 
 // ── Row type with allocation ─────────────────────────────────────────────────
 
@@ -32,23 +37,49 @@ export interface PortfolioRow {
   currentValue: number;
   pnl: number;
   pnlPercent: number;
+  /** CER/UVA-deflated P&L % for ARS positions when a real return mode is on */
+  realPnlPercent: number | null;
   source: "iol" | "binance" | "ppi";
+  /** Broker account holding it; unset when merged across accounts */
+  accountId?: string;
+  /** Account name, or the names of the accounts merged into the row */
+  accountLabel?: string;
+  /** Units per Binance wallet (spot, Earn, staking, futures) */
+  wallets?: Record<BinanceWallet, number>;
   allocation: number; // 0–100
   // Display values (converted to display currency)
   displayPrice: number;
   displayAvgPrice: number;
   displayValue: number;
   displayPnl: number;
+  // USD at the valuation rate (AI payloads, independent of display currency)
+  valueUsd: number;
+  pnlUsd: number;
   // Live quote data
   dailyChange: number | null;
   hasLiveQuote: boolean;
 }
 
+/** "Spot: 0.5 · Staking: 1.2" for holdings spread over several wallets */
+function walletBreakdown(wallets: PortfolioRow["wallets"]): string | null {
+  if (!wallets) return null;
+  const held = (Object.keys(BINANCE_WALLET_LABELS) as BinanceWallet[]).filter(
+    (w) => wallets[w] > 0
+  );
+  if (held.length === 0 || (held.length === 1 && held[0] === "spot")) return null;
+  return held
+    .map((w) => `${BINANCE_WALLET_LABELS[w]}: ${formatQuantity(wallets[w])}`)
+    .join(" · ");
+}
+
 // ── Column definitions ──────────────────────────────────────────────────────
 
 const col = createColumnHelper<PortfolioRow>();
 
-export function buildColumns(displayCurrency: "USD" | "ARS") {
+/**
+ * @param showAccounts - Tag each row with its broker account (per-account view)
+ */
+export function buildColumns(displayCurrency: "USD" | "ARS", showAccounts = false) {
   return [
     col.accessor("ticker", {
       header: "Ticker",
@@ -64,6 +95,11 @@ export function buildColumns(displayCurrency: "USD" | "ARS") {
           <span className="font-mono font-semibold text-zinc-100">
             {info.getValue()}
           </span>
+          {showAccounts && info.row.original.accountLabel && (
+            <span className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400 whitespace-nowrap">
+              {info.row.original.accountLabel}
+            </span>
+          )}
         </div>
       ),
       meta: { hideOnMobile: false },
@@ -98,11 +134,20 @@ export function buildColumns(displayCurrency: "USD" | "ARS") {
 
     col.accessor("quantity", {
       header: "Qty",
-      cell: (info) => (
-        <span className="font-mono text-zinc-300">
-          {formatQuantity(info.getValue())}
-        </span>
-      ),
+      cell: (info) => {
+        const breakdown = walletBreakdown(info.row.original.wallets);
+        return (
+          <span
+            className={cn(
+              "font-mono text-zinc-300",
+              breakdown && "underline decoration-dotted decoration-zinc-600 cursor-help"
+            )}
+            title={breakdown ?? undefined}
+          >
+            {formatQuantity(info.getValue())}
+          </span>
+        );
+      },
       meta: { hideOnMobile: true },
     }),
 
@@ -179,7 +224,8 @@ export function buildColumns(displayCurrency: "USD" | "ARS") {
     col.accessor("pnlPercent", {
       header: "P&L %",
       cell: (info) => {
-        const v = info.getValue();
+        const real = info.row.original.realPnlPercent;
+        const v = real ?? info.getValue();
         const isPositive = v >= 0;
         return (
           <span
@@ -195,6 +241,9 @@ export function buildColumns(displayCurrency: "USD" | "ARS") {
               <TrendingDown className="h-3.5 w-3.5" />
             )}
             {formatPercent(v)}
+            {real !== null && (
+              <span className="text-[10px] font-normal text-zinc-500">real</span>
+            )}
           </span>
         );
       },
@@ -234,8 +283,11 @@ export function buildActionsColumn(
     header: "",
     cell: (info) => {
       const row = info.row.original;
-      // Only show trade buttons for IOL assets (not crypto/binance)
-      if (row.source !== "iol") {
+      // Stablecoins are the quote side of every Binance pair, not tradeable
+      if (
+        row.source === "binance" &&
+        (BINANCE_QUOTE_ASSETS as readonly string[]).includes(row.ticker.toUpperCase())
+      ) {
         return null;
       }
       return (
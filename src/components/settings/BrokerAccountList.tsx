@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/Toast";
+import { BROKERS_KEY, useBrokers, type BrokerAccount } from "@/hooks/useBrokers";
+import { relativeDate } from "@/lib/utils";
+import { CONNECTION_STATUS_LABELS, type BrokerProvider } from "@/lib/constants";
+
+/** Connect-form target for adding an account; otherwise it's the id to reconnect */
+export const NEW_ACCOUNT = "new";
+
+/** Extra auth body fields for the connect form's target */
+export function accountFormFields(target: string | null, label: string) {
+  if (target && target !== NEW_ACCOUNT) return { accountId: target };
+  return label.trim() ? { label: label.trim() } : {};
+}
+
+interface BrokerAccountListProps {
+  provider: BrokerProvider;
+  accounts: BrokerAccount[];
+  /** Open the connect form for NEW_ACCOUNT or an account id */
+  onEdit: (target: string) => void;
+  onRemoved: (accountId: string) => void;
+}
+
+/**
+ * The accounts connected at one broker, each with reconnect and remove,
+ * plus a way to add another login.
+ */
+export function BrokerAccountList({ provider, accounts, onEdit, onRemoved }: BrokerAccountListProps) {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const [removing, setRemoving] = useState<string | null>(null);
+  const { data: brokers } = useBrokers();
+
+  // Health changes with syncs and checks after the card loaded its accounts
+  const statusOf = (account: BrokerAccount) =>
+    brokers?.flatMap((b) => b.accounts).find((a) => a.id === account.id)?.status ??
+    account.status;
+
+  const handleRemove = async (account: BrokerAccount) => {
+    const confirmed = window.confirm(`Desconectar la cuenta "${account.label}"?`);
+    if (!confirmed) return;
+
+    setRemoving(account.id);
+    try {
+      const res = await fetch(`/api/brokers/${provider}/auth?account=${account.id}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) throw new Error();
+
+      onRemoved(account.id);
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
+      queryClient.invalidateQueries({ queryKey: [`${provider}-portfolio`] });
+      addToast(`${account.label} desconectada`, "info");
+    } catch {
+      addToast("Error al desconectar", "error");
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <ul className="divide-y divide-zinc-800 rounded-lg border border-zinc-800">
+        {accounts.map((account) => (
+          <li key={account.id} className="flex items-center gap-3 px-3 py-2">
+            <div className="min-w-0 flex-1">
+              <p className="text-sm font-medium text-zinc-200 truncate">
+                {account.label}
+                {statusOf(account) !== "ok" && (
+                  <span
+                    className={`ml-2 text-[10px] font-medium uppercase tracking-wider ${
+                      statusOf(account) === "expired" ? "text-red-400" : "text-amber-400"
+                    }`}
+                  >
+                    {CONNECTION_STATUS_LABELS[statusOf(account)]}
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-zinc-500">
+                {account.accountNumber && `Cuenta ${account.accountNumber} · `}
+                Actualizada {relativeDate(account.updatedAt)}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => onEdit(account.id)}
+              aria-label={`Reconectar ${account.label}`}
+              title="Reconectar"
+              className="h-8 w-8 rounded-md text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800
+                         inline-flex items-center justify-center transition-colors"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRemove(account)}
+              disabled={removing === account.id}
+              aria-label={`Desconectar ${account.label}`}
+              title="Desconectar"
+              className="h-8 w-8 rounded-md text-zinc-500 hover:text-red-400 hover:bg-zinc-800
+                         disabled:opacity-50 inline-flex items-center justify-center transition-colors"
+            >
+              {removing === account.id ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4" />
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button
+        type="button"
+        onClick={() => onEdit(NEW_ACCOUNT)}
+        className="text-xs font-medium text-zinc-400 hover:text-zinc-200 inline-flex items-center gap-1.5 transition-colors"
+      >
+        <Plus className="h-3.5 w-3.5" />
+        Agregar otra cuenta
+      </button>
+    </div>
+  );
+}
+
+/** Name field for a new account in a connect form */
+export function AccountLabelInput({
+  value,
+  onChange,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <label className="text-xs font-medium uppercase tracking-wider text-zinc-400">
+        Nombre de la cuenta (opcional)
+      </label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        maxLength={60}
+        aria-label="Nombre de la cuenta"
+        className="h-10 w-full rounded-lg border border-zinc-700 bg-zinc-900
+                   px-3 text-sm text-zinc-200 placeholder:text-zinc-500
+                   focus:outline-none focus:ring-1 focus:ring-zinc-500/50"
+      />
+    </div>
+  );
+}
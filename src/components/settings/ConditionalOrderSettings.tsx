@@ -0,0 +1,150 @@
+"use client";
+
+import { Loader2, ShieldCheck, AlertTriangle, X } from "lucide-react";
+import {
+  useConditionalOrders,
+  useCancelConditionalOrder,
+  type ConditionalOrder,
+} from "@/hooks/useConditionalOrders";
+import { useUpdatePortfolioSettings } from "@/hooks/usePortfolioSettings";
+import { describeConditionalOrder } from "@/lib/conditional-orders";
+import { CONDITIONAL_ORDER_STATUS_LABELS, type ConditionalOrderStatus } from "@/lib/constants";
+import { cn, relativeDate } from "@/lib/utils";
+
+const STATUS_STYLES: Record<ConditionalOrderStatus, string> = {
+  active: "bg-blue-500/15 text-blue-300",
+  triggered: "bg-emerald-500/15 text-emerald-300",
+  failed: "bg-red-500/15 text-red-300",
+  cancelled: "bg-zinc-700/50 text-zinc-400",
+};
+
+function OrderRow({
+  order,
+  onCancel,
+  cancelling,
+}: {
+  order: ConditionalOrder;
+  onCancel: () => void;
+  cancelling: boolean;
+}) {
+  const description = describeConditionalOrder({
+    ...order,
+    triggerPrice: order.triggerPrice != null ? Number(order.triggerPrice) : null,
+    trailPercent: order.trailPercent != null ? Number(order.trailPercent) : null,
+  });
+
+  return (
+    <div className="flex items-start gap-3 py-3 border-b border-zinc-800/60 last:border-0">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-zinc-200" data-sensitive>
+          {description}
+        </p>
+        <p className="text-[11px] text-zinc-500 mt-0.5">
+          {order.mercado} · {order.limitPrice ? `Limite $${Number(order.limitPrice)}` : "A mercado"} ·{" "}
+          {order.triggeredAt
+            ? `Disparada ${relativeDate(order.triggeredAt)} a $${Number(order.triggeredPrice)}`
+            : `Creada ${relativeDate(order.createdAt)}`}
+          {order.numeroOperacion && ` · Operacion #${order.numeroOperacion}`}
+        </p>
+        {order.lastError && <p className="text-[11px] text-red-400 mt-0.5">{order.lastError}</p>}
+      </div>
+      <span
+        className={cn("px-2 py-0.5 rounded text-[11px] font-medium shrink-0", STATUS_STYLES[order.status])}
+      >
+        {CONDITIONAL_ORDER_STATUS_LABELS[order.status]}
+      </span>
+      {order.status === "active" && (
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={cancelling}
+          aria-label={`Cancelar ${description}`}
+          className="p-1 rounded text-zinc-500 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-50"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function ConditionalOrderSettings() {
+  const { data, isLoading } = useConditionalOrders();
+  const updateSettings = useUpdatePortfolioSettings();
+  const cancelOrder = useCancelConditionalOrder();
+
+  if (isLoading) {
+    return (
+      <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-zinc-500" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const enabled = data.enabled;
+
+  return (
+    <div id="conditional-orders" className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="h-10 w-10 rounded-lg bg-blue-600/20 flex items-center justify-center">
+          <ShieldCheck className="h-5 w-5 text-blue-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-zinc-100">Ordenes Condicionales</h3>
+          <p className="text-xs text-zinc-500">
+            Stop loss, take profit y trailing stops sobre IOL, evaluados cada 5 minutos en horario de mercado
+          </p>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={enabled}
+          aria-label="Ejecutar ordenes condicionales"
+          disabled={updateSettings.isPending}
+          onClick={() => updateSettings.mutate({ conditionalOrdersEnabled: !enabled })}
+          className={`relative inline-flex h-5 w-9 shrink-0 cursor-pointer rounded-full
+                      transition-colors duration-200 ease-in-out
+                      focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:ring-offset-2 focus:ring-offset-zinc-900
+                      disabled:opacity-50 disabled:cursor-not-allowed
+                      ${enabled ? "bg-blue-600" : "bg-zinc-700"}`}
+        >
+          <span
+            className={`pointer-events-none inline-block h-4 w-4 transform rounded-full
+                        bg-white shadow-sm ring-0 transition duration-200 ease-in-out mt-0.5
+                        ${enabled ? "translate-x-4 ml-0.5" : "translate-x-0 ml-0.5"}`}
+          />
+        </button>
+      </div>
+
+      {(data.globallyDisabled || !enabled) && (
+        <div className="flex items-start gap-2 mb-4 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {data.globallyDisabled
+            ? "Las ordenes condicionales estan suspendidas temporalmente. Ninguna regla se va a ejecutar."
+            : "Pausadas: las reglas activas no se ejecutan hasta que vuelvas a activarlas."}
+        </div>
+      )}
+
+      {data.orders.length === 0 ? (
+        <p className="text-sm text-zinc-500 py-4 text-center">
+          No hay ordenes condicionales. Crealas desde el boton Vender de una posicion de IOL.
+        </p>
+      ) : (
+        <div>
+          {data.orders.map((order) => (
+            <OrderRow
+              key={order.id}
+              order={order}
+              cancelling={cancelOrder.isPending}
+              onCancel={() => cancelOrder.mutate(order.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
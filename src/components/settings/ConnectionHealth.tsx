@@ -0,0 +1,86 @@
+"use client";
+
+import { Activity, Loader2, RefreshCw } from "lucide-react";
+import { useBrokers, useCheckConnections } from "@/hooks/useBrokers";
+import { CONNECTION_STATUS_LABELS, type ConnectionStatus } from "@/lib/constants";
+import { cn, relativeDate } from "@/lib/utils";
+
+const STATUS_DOT: Record<ConnectionStatus, string> = {
+  ok: "bg-emerald-400",
+  error: "bg-amber-400",
+  expired: "bg-red-400",
+};
+
+/**
+ * Health of every connected broker account, with a manual check and a
+ * reconnect link for accounts that need re-authentication.
+ */
+export function ConnectionHealth() {
+  const { data: brokers, isLoading } = useBrokers();
+  const checkConnections = useCheckConnections();
+
+  const accounts = (brokers ?? []).flatMap((broker) =>
+    broker.accounts.map((account) => ({ ...account, broker: broker.label }))
+  );
+
+  if (isLoading || accounts.length === 0) return null;
+
+  return (
+    <div id="connection-health" className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="h-10 w-10 rounded-lg bg-emerald-600/20 flex items-center justify-center">
+          <Activity className="h-5 w-5 text-emerald-400" />
+        </div>
+        <div className="flex-1">
+          <h3 className="font-semibold text-zinc-100">Estado de conexiones</h3>
+          <p className="text-xs text-zinc-500">
+            Los tokens se renuevan cada hora; te avisamos por email si una cuenta hay que reconectarla
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => checkConnections.mutate()}
+          disabled={checkConnections.isPending}
+          className="inline-flex items-center gap-1.5 text-xs text-zinc-400 hover:text-zinc-200
+                     disabled:opacity-50 transition-colors"
+        >
+          {checkConnections.isPending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3 w-3" />
+          )}
+          Verificar
+        </button>
+      </div>
+
+      <ul className="divide-y divide-zinc-800 rounded-lg border border-zinc-800">
+        {accounts.map((account) => (
+          <li key={account.id} className="flex items-center gap-3 px-3 py-2">
+            <span className={cn("h-2 w-2 shrink-0 rounded-full", STATUS_DOT[account.status])} />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-zinc-200 truncate">
+                {account.label}
+                {account.label !== account.broker && (
+                  <span className="ml-1.5 text-xs text-zinc-500">{account.broker}</span>
+                )}
+              </p>
+              <p className="text-xs text-zinc-500 truncate">
+                {CONNECTION_STATUS_LABELS[account.status]}
+                {account.lastSuccessAt && ` · Ultimo acceso ${relativeDate(account.lastSuccessAt)}`}
+                {account.status !== "ok" && account.lastError && ` · ${account.lastError}`}
+              </p>
+            </div>
+            {account.status === "expired" && (
+              <a
+                href={`/settings?reconnect=${account.id}`}
+                className="text-xs font-medium text-red-400 hover:text-red-300 transition-colors"
+              >
+                Reconectar
+              </a>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
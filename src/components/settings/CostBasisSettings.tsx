@@ -0,0 +1,105 @@
+"use client";
+
+import { Loader2, Calculator, RefreshCw } from "lucide-react";
+import {
+  usePortfolioSettings,
+  useUpdatePortfolioSettings,
+} from "@/hooks/usePortfolioSettings";
+import { useRebuildLedger } from "@/hooks/useRealizedGains";
+import {
+  COST_BASIS_METHODS,
+  COST_BASIS_LABELS,
+  type CostBasisMethod,
+} from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+const METHOD_DESCRIPTIONS: Record<CostBasisMethod, string> = {
+  fifo: "Cada venta consume primero los lotes mas antiguos",
+  lifo: "Cada venta consume primero los lotes mas recientes",
+  average: "Cada venta usa el costo promedio de todas las compras abiertas",
+};
+
+export function CostBasisSettings() {
+  const { data: settings, isLoading } = usePortfolioSettings();
+  const updateSettings = useUpdatePortfolioSettings();
+  const rebuildLedger = useRebuildLedger();
+
+  if (isLoading) {
+    return (
+      <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-zinc-500" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!settings) return null;
+
+  return (
+    <div id="cost-basis" className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="h-10 w-10 rounded-lg bg-cyan-600/20 flex items-center justify-center">
+          <Calculator className="h-5 w-5 text-cyan-400" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-zinc-100">Metodo de Costo</h3>
+          <p className="text-xs text-zinc-500">
+            Como se calculan las ganancias realizadas de cada venta
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {COST_BASIS_METHODS.map((method) => {
+          const selected = settings.costBasisMethod === method;
+          return (
+            <button
+              key={method}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              disabled={updateSettings.isPending}
+              onClick={() => {
+                if (!selected) updateSettings.mutate({ costBasisMethod: method });
+              }}
+              className={cn(
+                "w-full text-left rounded-lg border px-4 py-3 transition-colors disabled:opacity-50",
+                selected
+                  ? "border-cyan-500/40 bg-cyan-500/10"
+                  : "border-zinc-800 hover:border-zinc-700 hover:bg-zinc-800/50"
+              )}
+            >
+              <p className={cn("text-sm font-medium", selected ? "text-cyan-300" : "text-zinc-200")}>
+                {COST_BASIS_LABELS[method]}
+              </p>
+              <p className="text-xs text-zinc-500">{METHOD_DESCRIPTIONS[method]}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex items-center justify-between">
+        <p className="text-xs text-zinc-500">
+          {updateSettings.isPending || rebuildLedger.isPending
+            ? "Recalculando lotes..."
+            : "Los lotes se recalculan al editar o borrar una transaccion"}
+        </p>
+        <button
+          type="button"
+          onClick={() => rebuildLedger.mutate()}
+          disabled={rebuildLedger.isPending || updateSettings.isPending}
+          className="inline-flex items-center gap-1.5 text-xs text-zinc-400 hover:text-zinc-200
+                     disabled:opacity-50 transition-colors"
+        >
+          {rebuildLedger.isPending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3 w-3" />
+          )}
+          Recalcular
+        </button>
+      </div>
+    </div>
+  );
+}
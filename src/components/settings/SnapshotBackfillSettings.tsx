@@ -0,0 +1,54 @@
+"use client";
+
+import { History, Loader2, RefreshCw } from "lucide-react";
+import { useBackfillSnapshots } from "@/hooks/usePortfolioSnapshots";
+
+export function SnapshotBackfillSettings() {
+  const backfill = useBackfillSnapshots();
+  const summary = backfill.data;
+
+  return (
+    <div id="snapshot-backfill" className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="h-10 w-10 rounded-lg bg-blue-600/20 flex items-center justify-center">
+          <History className="h-5 w-5 text-blue-400" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-zinc-100">Historial del Portafolio</h3>
+          <p className="text-xs text-zinc-500">
+            Reconstruir el valor diario anterior al primer snapshot con tus transacciones y
+            precios historicos
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-zinc-500">
+          {backfill.isPending
+            ? "Reconstruyendo... puede tardar un minuto"
+            : summary?.from
+              ? `Reconstruido del ${summary.from} al ${summary.to}`
+              : "Los dias con snapshot real no se modifican"}
+        </p>
+        <button
+          type="button"
+          onClick={() => backfill.mutate()}
+          disabled={backfill.isPending}
+          className="inline-flex shrink-0 items-center gap-1.5 text-xs text-zinc-400 hover:text-zinc-200
+                     disabled:opacity-50 transition-colors"
+        >
+          {backfill.isPending ? (
+            <Loader2 className="h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3 w-3" />
+          )}
+          Reconstruir
+        </button>
+      </div>
+
+      {summary && summary.warnings.length > 0 && (
+        <p className="mt-3 text-[11px] text-amber-400/80">{summary.warnings.join(". ")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { Loader2, DollarSign } from "lucide-react";
+import {
+  usePortfolioSettings,
+  useUpdatePortfolioSettings,
+} from "@/hooks/usePortfolioSettings";
+import { useExchangeRate } from "@/hooks/useExchangeRate";
+import {
+  VALUATION_RATES,
+  VALUATION_RATE_LABELS,
+  type ValuationRate,
+} from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+const RATE_DESCRIPTIONS: Record<ValuationRate, string> = {
+  oficial: "Cotizacion mayorista/minorista del BNA",
+  mep: "Dolar bolsa, comprando y vendiendo bonos en pesos y dolares",
+  ccl: "Contado con liquidacion, el tipo de cambio implicito de los CEDEARs",
+  blue: "Mercado informal (valor historico de los snapshots)",
+  crypto: "Dolar cripto, via stablecoins en exchanges locales",
+};
+
+export function ValuationRateSettings() {
+  const { data: settings, isLoading } = usePortfolioSettings();
+  const updateSettings = useUpdatePortfolioSettings();
+  const { rate, isLive } = useExchangeRate();
+
+  if (isLoading) {
+    return (
+      <div className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-zinc-500" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!settings) return null;
+
+  return (
+    <div id="valuation-rate" className="rounded-xl border border-zinc-800 bg-zinc-900/50 p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="h-10 w-10 rounded-lg bg-emerald-600/20 flex items-center justify-center">
+          <DollarSign className="h-5 w-5 text-emerald-400" />
+        </div>
+        <div>
+          <h3 className="font-semibold text-zinc-100">Tipo de Cambio de Valuacion</h3>
+          <p className="text-xs text-zinc-500">
+            Dolar usado para convertir las posiciones en pesos en el portfolio, los snapshots y los reportes
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {VALUATION_RATES.map((valuationRate) => {
+          const selected = settings.valuationRate === valuationRate;
+          return (
+            <button
+              key={valuationRate}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              disabled={updateSettings.isPending}
+              onClick={() => {
+                if (!selected) updateSettings.mutate({ valuationRate });
+              }}
+              className={cn(
+                "w-full text-left rounded-lg border px-4 py-3 transition-colors disabled:opacity-50",
+                selected
+                  ? "border-emerald-500/40 bg-emerald-500/10"
+                  : "border-zinc-800 hover:border-zinc-700 hover:bg-zinc-800/50"
+              )}
+            >
+              <p className={cn("text-sm font-medium", selected ? "text-emerald-300" : "text-zinc-200")}>
+                {VALUATION_RATE_LABELS[valuationRate]}
+              </p>
+              <p className="text-xs text-zinc-500">{RATE_DESCRIPTIONS[valuationRate]}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="mt-4 text-xs text-zinc-500">
+        {isLive ? (
+          <>
+            Cotizacion actual:{" "}
+            <span className="font-mono text-zinc-300">
+              ${rate.toLocaleString("es-AR", { minimumFractionDigits: 2 })}
+            </span>
+            . Cada snapshot guarda el tipo de cambio con el que fue valuado.
+          </>
+        ) : (
+          "Cotizacion no disponible, se usa un valor aproximado"
+        )}
+      </p>
+    </div>
+  );
+}
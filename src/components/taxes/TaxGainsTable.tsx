@@ -0,0 +1,99 @@
+"use client";
+
+import { TAX_CLASS_LABELS, type GainsByClass } from "@/lib/tax-report";
+import { formatCurrency, cn } from "@/lib/utils";
+
+interface TaxGainsTableProps {
+  gains: GainsByClass[];
+}
+
+export default function TaxGainsTable({ gains }: TaxGainsTableProps) {
+  if (gains.length === 0) {
+    return (
+      <div className="text-center py-12 text-zinc-500">
+        <p>Sin ventas registradas en el periodo</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-zinc-800/80 bg-zinc-950/50">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-zinc-800/60">
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Clase
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden sm:table-cell">
+              Ventas
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden sm:table-cell">
+              Costo
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Resultado
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Ganancias
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {gains.flatMap((g) =>
+            (["ARS", "USD"] as const)
+              .filter((c) => g.totals[c].proceeds !== 0 || g.totals[c].costBasis !== 0)
+              .map((c) => {
+                const t = g.totals[c];
+                const isGain = t.realizedPnl >= 0;
+                return (
+                  <tr
+                    key={`${g.instrumentClass}-${c}`}
+                    className="border-b border-zinc-800/30 hover:bg-zinc-800/20 transition-colors"
+                  >
+                    <td className="px-3 py-2">
+                      <span className="text-zinc-100">{TAX_CLASS_LABELS[g.instrumentClass]}</span>
+                      <span className="ml-1 text-xs text-zinc-500">{c}</span>
+                    </td>
+                    <td className="px-3 py-2 hidden sm:table-cell">
+                      <span data-sensitive className="font-mono text-zinc-300">
+                        {formatCurrency(t.proceeds, c)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 hidden sm:table-cell">
+                      <span data-sensitive className="font-mono text-zinc-300">
+                        {formatCurrency(t.costBasis, c)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        data-sensitive
+                        className={cn(
+                          "font-mono font-semibold",
+                          isGain ? "text-emerald-400" : "text-red-400"
+                        )}
+                      >
+                        {formatCurrency(t.realizedPnl, c)}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span
+                        title={g.note}
+                        className={cn(
+                          "inline-block rounded px-1.5 py-0.5 text-xs font-medium",
+                          g.exempt
+                            ? "bg-emerald-500/15 text-emerald-400"
+                            : "bg-amber-500/15 text-amber-400"
+                        )}
+                      >
+                        {g.exempt ? "Exento" : "Gravado"}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import {
+  BP_TREATMENT_LABELS,
+  TAX_CLASS_LABELS,
+  type BienesPersonalesTreatment,
+  type YearEndHolding,
+} from "@/lib/tax-report";
+import { formatCurrency, formatQuantity, cn } from "@/lib/utils";
+
+interface TaxHoldingsTableProps {
+  holdings: YearEndHolding[];
+}
+
+const TREATMENT_CLASSES: Record<BienesPersonalesTreatment, string> = {
+  gravado: "bg-amber-500/15 text-amber-400",
+  exento: "bg-emerald-500/15 text-emerald-400",
+  responsable_sustituto: "bg-zinc-500/15 text-zinc-400",
+};
+
+export default function TaxHoldingsTable({ holdings }: TaxHoldingsTableProps) {
+  if (holdings.length === 0) {
+    return (
+      <div className="text-center py-12 text-zinc-500">
+        <p>Sin tenencias al cierre del periodo</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-zinc-800/80 bg-zinc-950/50">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-zinc-800/60">
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Ticker
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden sm:table-cell">
+              Clase
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden sm:table-cell">
+              Cantidad
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500 hidden md:table-cell">
+              Valor
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Valor ARS
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-medium uppercase tracking-wider text-zinc-500">
+              Tratamiento
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {holdings.map((h) => (
+            <tr
+              key={h.assetId}
+              className="border-b border-zinc-800/30 hover:bg-zinc-800/20 transition-colors"
+            >
+              <td className="px-3 py-2">
+                <span className="font-mono font-semibold text-zinc-100">{h.ticker}</span>
+                {h.priceSource === "current" && (
+                  <span className="ml-1 text-xs text-amber-400/70" title="Precio actual (sin cierre historico)">
+                    *
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 hidden sm:table-cell">
+                <span className="text-xs text-zinc-400">{TAX_CLASS_LABELS[h.instrumentClass]}</span>
+              </td>
+              <td className="px-3 py-2 hidden sm:table-cell">
+                <span className="font-mono text-zinc-300">{formatQuantity(h.quantity)}</span>
+              </td>
+              <td className="px-3 py-2 hidden md:table-cell">
+                <span data-sensitive className="font-mono text-zinc-300">
+                  {formatCurrency(h.value, h.currency)}
+                </span>
+              </td>
+              <td className="px-3 py-2">
+                <span data-sensitive className="font-mono text-zinc-100">
+                  {formatCurrency(h.valueArs, "ARS")}
+                </span>
+              </td>
+              <td className="px-3 py-2">
+                <span
+                  title={h.note}
+                  className={cn(
+                    "inline-block rounded px-1.5 py-0.5 text-xs font-medium",
+                    TREATMENT_CLASSES[h.bienesPersonales]
+                  )}
+                >
+                  {BP_TREATMENT_LABELS[h.bienesPersonales]}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
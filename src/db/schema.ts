@@ -9,11 +9,14 @@ import {
   integer,
   text,
   uniqueIndex,
+  unique,
   boolean,
   date,
   jsonb,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import type { TransactionType } from "../lib/constants";
+import type { RebalancePlan } from "../lib/rebalance";
 
 // ── Enums ───────────────────────────────────────────────────────────────────
 
@@ -29,6 +32,72 @@ export const currencyEnum = pgEnum("currency", ["USD", "ARS"]);
 export const transactionTypeEnum = pgEnum("transaction_type", [
   "buy",
   "sell",
+  "income",
+]);
+
+export const costBasisMethodEnum = pgEnum("cost_basis_method", [
+  "fifo",
+  "lifo",
+  "average",
+]);
+
+export const transactionSourceEnum = pgEnum("transaction_source", [
+  "manual",
+  "import",
+  "iol",
+  "ppi",
+  "binance",
+]);
+
+export const incomeKindEnum = pgEnum("income_kind", [
+  "coupon",
+  "amortization",
+  "dividend",
+]);
+
+export const inflationIndexEnum = pgEnum("inflation_index", ["CER", "UVA"]);
+
+export const valuationRateEnum = pgEnum("valuation_rate", [
+  "oficial",
+  "mep",
+  "ccl",
+  "blue",
+  "crypto",
+]);
+
+export const notificationKindEnum = pgEnum("notification_kind", [
+  "price_alert",
+  "sync_failure",
+  "order",
+  "security",
+  "report",
+]);
+
+export const connectionStatusEnum = pgEnum("connection_status", [
+  "ok",
+  "error",
+  "expired",
+]);
+
+export const orderStatusEnum = pgEnum("order_status", [
+  "pending",
+  "partial",
+  "filled",
+  "cancelled",
+  "expired",
+]);
+
+export const conditionalOrderTypeEnum = pgEnum("conditional_order_type", [
+  "stop_loss",
+  "take_profit",
+  "trailing_stop",
+]);
+
+export const conditionalOrderStatusEnum = pgEnum("conditional_order_status", [
+  "active",
+  "triggered",
+  "failed",
+  "cancelled",
 ]);
 
 // ── Assets ──────────────────────────────────────────────────────────────────
@@ -51,6 +120,18 @@ export const assets = pgTable(
     currentPrice: numeric("current_price", { precision: 18, scale: 8 })
       .notNull()
       .default("0"),
+    // Broker account (user_connections.id) holding it; null for manual assets
+    accountId: uuid("account_id"),
+    // Position entered manually before any recorded transaction (opens a lot)
+    openingQuantity: numeric("opening_quantity", { precision: 18, scale: 8 })
+      .notNull()
+      .default("0"),
+    openingAveragePrice: numeric("opening_average_price", {
+      precision: 18,
+      scale: 8,
+    })
+      .notNull()
+      .default("0"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -61,11 +142,10 @@ export const assets = pgTable(
   (table) => ({
     userIdx: index("assets_user_idx").on(table.userId),
     tickerIdx: index("assets_ticker_idx").on(table.ticker),
-    userTickerCategoryIdx: uniqueIndex("assets_user_ticker_category_idx").on(
-      table.userId,
-      table.ticker,
-      table.category
-    ),
+    accountIdx: index("assets_account_idx").on(table.accountId),
+    userTickerCategoryAccountKey: unique("assets_user_ticker_category_account_key")
+      .on(table.userId, table.ticker, table.category, table.accountId)
+      .nullsNotDistinct(),
   })
 );
 
@@ -90,6 +170,11 @@ export const transactions = pgTable(
       .defaultNow()
       .notNull(),
     notes: varchar("notes", { length: 500 }),
+    source: transactionSourceEnum("source").notNull().default("manual"),
+    // Broker operation / trade id; null for manual and file-imported rows
+    externalId: varchar("external_id", { length: 100 }),
+    // Broker account (user_connections.id) it was synced from
+    accountId: uuid("account_id"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -98,6 +183,81 @@ export const transactions = pgTable(
     userIdx: index("txn_user_idx").on(table.userId),
     assetIdx: index("txn_asset_idx").on(table.assetId),
     dateIdx: index("txn_date_idx").on(table.executedAt),
+    accountIdx: index("txn_account_idx").on(table.accountId),
+    externalIdx: uniqueIndex("txn_user_source_external_idx").on(
+      table.userId,
+      table.source,
+      table.externalId
+    ),
+  })
+);
+
+// ── Tax Lots (rebuilt from transactions by src/lib/ledger.ts) ───────────────
+
+export const taxLots = pgTable(
+  "tax_lots",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    assetId: uuid("asset_id")
+      .notNull()
+      .references(() => assets.id, { onDelete: "cascade" }),
+    // Null for the asset's opening position
+    buyTransactionId: uuid("buy_transaction_id").references(
+      () => transactions.id,
+      { onDelete: "cascade" }
+    ),
+    openedAt: timestamp("opened_at", { withTimezone: true }).notNull(),
+    quantity: numeric("quantity", { precision: 18, scale: 8 }).notNull(),
+    remainingQuantity: numeric("remaining_quantity", { precision: 18, scale: 8 })
+      .notNull(),
+    costPerUnit: numeric("cost_per_unit", { precision: 18, scale: 8 }).notNull(),
+    currency: currencyEnum("currency").notNull().default("USD"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userIdx: index("lots_user_idx").on(table.userId),
+    assetIdx: index("lots_asset_idx").on(table.assetId),
+  })
+);
+
+// ── Realized Gains (one row per lot consumed by a sell) ─────────────────────
+
+export const realizedGains = pgTable(
+  "realized_gains",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    assetId: uuid("asset_id")
+      .notNull()
+      .references(() => assets.id, { onDelete: "cascade" }),
+    sellTransactionId: uuid("sell_transaction_id")
+      .notNull()
+      .references(() => transactions.id, { onDelete: "cascade" }),
+    // Null for the opening position or when matched at average cost
+    buyTransactionId: uuid("buy_transaction_id").references(
+      () => transactions.id,
+      { onDelete: "cascade" }
+    ),
+    method: costBasisMethodEnum("method").notNull(),
+    quantity: numeric("quantity", { precision: 18, scale: 8 }).notNull(),
+    proceeds: numeric("proceeds", { precision: 18, scale: 8 }).notNull(),
+    costBasis: numeric("cost_basis", { precision: 18, scale: 8 }).notNull(),
+    realizedPnl: numeric("realized_pnl", { precision: 18, scale: 8 }).notNull(),
+    currency: currencyEnum("currency").notNull().default("USD"),
+    acquiredAt: timestamp("acquired_at", { withTimezone: true }),
+    disposedAt: timestamp("disposed_at", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userIdx: index("gains_user_idx").on(table.userId),
+    assetIdx: index("gains_asset_idx").on(table.assetId),
+    sellIdx: index("gains_sell_idx").on(table.sellTransactionId),
+    disposedIdx: index("gains_disposed_idx").on(table.disposedAt),
   })
 );
 
@@ -105,6 +265,8 @@ export const transactions = pgTable(
 
 export const assetsRelations = relations(assets, ({ many }) => ({
   transactions: many(transactions),
+  taxLots: many(taxLots),
+  realizedGains: many(realizedGains),
 }));
 
 export const transactionsRelations = relations(transactions, ({ one }) => ({
@@ -114,6 +276,24 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   }),
 }));
 
+export const taxLotsRelations = relations(taxLots, ({ one }) => ({
+  asset: one(assets, {
+    fields: [taxLots.assetId],
+    references: [assets.id],
+  }),
+}));
+
+export const realizedGainsRelations = relations(realizedGains, ({ one }) => ({
+  asset: one(assets, {
+    fields: [realizedGains.assetId],
+    references: [assets.id],
+  }),
+  sellTransaction: one(transactions, {
+    fields: [realizedGains.sellTransactionId],
+    references: [transactions.id],
+  }),
+}));
+
 // ── User Connections (Broker API tokens) ────────────────────────────────────
 
 export const userConnections = pgTable(
@@ -122,7 +302,25 @@ export const userConnections = pgTable(
     id: uuid("id").defaultRandom().primaryKey(),
     userId: uuid("user_id").notNull(),
     provider: varchar("provider", { length: 50 }).notNull(), // "iol", "binance", etc.
+    // User-facing account name, e.g. "IOL" or "IOL Family"
+    label: varchar("label", { length: 60 }).notNull(),
+    // Broker sub-account (PPI account number); null when the login is the account
+    accountNumber: varchar("account_number", { length: 50 }),
     credentials: text("credentials").notNull(), // JSON encrypted token data
+    // Provider-specific transaction history cursor (see src/lib/broker-history.ts)
+    syncCursor: jsonb("sync_cursor").$type<Record<string, unknown>>(),
+    transactionsSyncedAt: timestamp("transactions_synced_at", {
+      withTimezone: true,
+    }),
+    // Health, from syncs and the scheduled check (see src/lib/connection-health.ts)
+    status: connectionStatusEnum("status").notNull().default("ok"),
+    lastSuccessAt: timestamp("last_success_at", { withTimezone: true }),
+    lastFailureAt: timestamp("last_failure_at", { withTimezone: true }),
+    lastError: text("last_error"),
+    // Where re-authentication alerts go, captured from the session at connect
+    notifyEmail: varchar("notify_email", { length: 255 }),
+    // Set once the user was alerted that the connection expired
+    reauthNotifiedAt: timestamp("reauth_notified_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -131,9 +329,10 @@ export const userConnections = pgTable(
       .notNull(),
   },
   (table) => ({
-    userProviderIdx: index("connections_user_provider_idx").on(
+    userProviderAccountIdx: uniqueIndex("connections_user_provider_account_idx").on(
       table.userId,
-      table.provider
+      table.provider,
+      table.accountNumber
     ),
   })
 );
@@ -171,6 +370,104 @@ export const tradeAuditLog = pgTable(
 export type TradeAuditEntry = typeof tradeAuditLog.$inferSelect;
 export type NewTradeAuditEntry = typeof tradeAuditLog.$inferInsert;
 
+// ── Orders (placed through the app, followed by /api/orders/poll) ──────────
+
+export const orders = pgTable(
+  "orders",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    provider: varchar("provider", { length: 20 }).notNull(),
+    // Broker order id (IOL numeroOperacion)
+    externalId: varchar("external_id", { length: 50 }).notNull(),
+    // Account the order was placed through (user_connections.id)
+    accountId: uuid("account_id"),
+    auditLogId: uuid("audit_log_id").references(() => tradeAuditLog.id, {
+      onDelete: "set null",
+    }),
+    // Orders only buy or sell; "income" is a ledger-only type
+    action: transactionTypeEnum("action").notNull().$type<TransactionType>(),
+    mercado: varchar("mercado", { length: 20 }),
+    simbolo: varchar("simbolo", { length: 20 }).notNull(),
+    quantity: numeric("quantity", { precision: 18, scale: 8 }).notNull(),
+    price: numeric("price", { precision: 18, scale: 8 }).notNull(),
+    plazo: varchar("plazo", { length: 10 }),
+    tipoOrden: varchar("tipo_orden", { length: 30 }),
+    validez: date("validez"),
+    status: orderStatusEnum("status").notNull().default("pending"),
+    filledQuantity: numeric("filled_quantity", { precision: 18, scale: 8 }).notNull().default("0"),
+    avgFillPrice: numeric("avg_fill_price", { precision: 18, scale: 8 }),
+    // Modify = cancel + re-place; both sides of the chain are linked
+    replacesOrderId: uuid("replaces_order_id"),
+    replacedByOrderId: uuid("replaced_by_order_id"),
+    conditionalOrderId: uuid("conditional_order_id"),
+    filledAt: timestamp("filled_at", { withTimezone: true }),
+    lastCheckedAt: timestamp("last_checked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userIdx: index("orders_user_idx").on(table.userId),
+    statusIdx: index("orders_status_idx").on(table.status),
+    externalIdx: uniqueIndex("orders_provider_external_idx").on(
+      table.userId,
+      table.provider,
+      table.externalId
+    ),
+  })
+);
+
+export type Order = typeof orders.$inferSelect;
+export type NewOrder = typeof orders.$inferInsert;
+
+// ── Conditional Orders (evaluated by /api/conditional-orders/evaluate) ──────
+
+export const conditionalOrders = pgTable(
+  "conditional_orders",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    // IOL account the rule fires through (user_connections.id)
+    accountId: uuid("account_id"),
+    mercado: varchar("mercado", { length: 20 }).notNull(),
+    simbolo: varchar("simbolo", { length: 20 }).notNull(),
+    side: transactionTypeEnum("side").notNull().default("sell").$type<TransactionType>(),
+    type: conditionalOrderTypeEnum("type").notNull(),
+    quantity: integer("quantity").notNull(),
+    triggerPrice: numeric("trigger_price", { precision: 18, scale: 8 }),
+    trailPercent: numeric("trail_percent", { precision: 6, scale: 2 }),
+    // Best price seen since creation (high for sells, low for buys); trailing stops follow it
+    extremePrice: numeric("extreme_price", { precision: 18, scale: 8 }),
+    // Null sends a precioMercado order at the price that triggered
+    limitPrice: numeric("limit_price", { precision: 18, scale: 8 }),
+    plazo: varchar("plazo", { length: 10 }).notNull().default("t2"),
+    // Where the confirmation email goes, captured from the session at creation
+    notifyEmail: varchar("notify_email", { length: 255 }),
+    status: conditionalOrderStatusEnum("status").notNull().default("active"),
+    triggeredAt: timestamp("triggered_at", { withTimezone: true }),
+    triggeredPrice: numeric("triggered_price", { precision: 18, scale: 8 }),
+    numeroOperacion: varchar("numero_operacion", { length: 50 }),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userIdx: index("conditional_orders_user_idx").on(table.userId),
+    statusIdx: index("conditional_orders_status_idx").on(table.status),
+  })
+);
+
+export type ConditionalOrder = typeof conditionalOrders.$inferSelect;
+export type NewConditionalOrder = typeof conditionalOrders.$inferInsert;
+
 // ── Watchlist ─────────────────────────────────────────────────────────────
 
 export const watchlist = pgTable(
@@ -311,6 +608,24 @@ export const exchangeRates = pgTable(
 export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type NewExchangeRate = typeof exchangeRates.$inferInsert;
 
+// ── Inflation Index Values (BCRA CER/UVA, synced by src/lib/inflation-index.ts) ──
+
+export const inflationIndexValues = pgTable(
+  "inflation_index_values",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    index: inflationIndexEnum("index").notNull(),
+    date: date("date").notNull(),
+    value: numeric("value", { precision: 18, scale: 6 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    indexDateIdx: uniqueIndex("inflation_index_date_idx").on(table.index, table.date),
+  })
+);
+
 // ── Ticker Price Cache (populated by watchlist-price-sync edge function) ─────
 
 export const tickerPriceCache = pgTable(
@@ -389,6 +704,36 @@ export const userEmailPreferences = pgTable(
 export type UserEmailPreferences = typeof userEmailPreferences.$inferSelect;
 export type NewUserEmailPreferences = typeof userEmailPreferences.$inferInsert;
 
+// ── User Portfolio Settings ─────────────────────────────────────────────────
+
+export const userPortfolioSettings = pgTable(
+  "user_portfolio_settings",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    costBasisMethod: costBasisMethodEnum("cost_basis_method")
+      .notNull()
+      .default("fifo"),
+    // USD/ARS rate ARS positions are valued at (app, snapshots, reports)
+    valuationRate: valuationRateEnum("valuation_rate").notNull().default("blue"),
+    // Per-user kill switch for the conditional order evaluator
+    conditionalOrdersEnabled: boolean("conditional_orders_enabled").notNull().default(true),
+    // Target weights for the rebalancing planner; null until one is saved
+    rebalancePlan: jsonb("rebalance_plan").$type<RebalancePlan>(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userIdx: uniqueIndex("portfolio_settings_user_idx").on(table.userId),
+  })
+);
+
+export type UserPortfolioSettings = typeof userPortfolioSettings.$inferSelect;
+
 // ── Portfolio Snapshots (populated by portfolio-snapshot edge function) ────────
 
 export const portfolioSnapshots = pgTable(
@@ -404,6 +749,10 @@ export const portfolioSnapshots = pgTable(
     assetCount: integer("asset_count").notNull().default(0),
     byCategory: jsonb("by_category").default({}),
     positions: jsonb("positions").default([]),
+    valuationRate: valuationRateEnum("valuation_rate").notNull().default("blue"),
+    usdArsRate: numeric("usd_ars_rate", { precision: 18, scale: 4 }),
+    // Rebuilt from transactions and price history (see src/lib/snapshot-backfill.ts)
+    reconstructed: boolean("reconstructed").notNull().default(false),
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
@@ -412,14 +761,70 @@ export const portfolioSnapshots = pgTable(
     userIdx: index("snapshots_user_idx").on(table.userId),
     dateIdx: index("snapshots_date_idx").on(table.snapshotDate),
     userDateIdx: uniqueIndex("snapshots_user_date_idx").on(table.userId, table.snapshotDate),
+    // jsonb_path_ops, for containment filters on one holding (migration 017)
+    positionsIdx: index("snapshots_positions_idx").using("gin", sql`${table.positions} jsonb_path_ops`),
   })
 );
 
 export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
 
+// ── Projected Income (rewritten by /api/income, read by weekly-digest) ──────
+
+export const projectedIncome = pgTable(
+  "projected_income",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    ticker: varchar("ticker", { length: 20 }).notNull(),
+    kind: incomeKindEnum("kind").notNull(),
+    payDate: date("pay_date").notNull(),
+    currency: currencyEnum("currency").notNull(),
+    amount: numeric("amount", { precision: 18, scale: 8 }).notNull(),
+    estimated: boolean("estimated").notNull().default(true),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userDateIdx: index("projected_income_user_date_idx").on(table.userId, table.payDate),
+  })
+);
+
+export type ProjectedIncomeRow = typeof projectedIncome.$inferSelect;
+
+// ── Notifications (in-app notification center; written by API routes and
+//    the price-alerts, auth-activity-log, daily-report and weekly-digest
+//    edge functions) ────────────────────────────────────────────────────────
+
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    kind: notificationKindEnum("kind").notNull(),
+    title: varchar("title", { length: 200 }).notNull(),
+    body: text("body"),
+    // In-app path to open, e.g. "/history"
+    link: varchar("link", { length: 300 }),
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    readAt: timestamp("read_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userDateIdx: index("notifications_user_date_idx").on(table.userId, table.createdAt),
+  })
+);
+
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+
 // Inferred types for use across the app
 export type Asset = typeof assets.$inferSelect;
 export type NewAsset = typeof assets.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
 export type UserConnection = typeof userConnections.$inferSelect;
+export type TaxLotRow = typeof taxLots.$inferSelect;
+export type RealizedGain = typeof realizedGains.$inferSelect;
@@ -1,122 +1,93 @@
 "use client";
 
 import { useEffect, useRef } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { useAppStore } from "@/stores/useAppStore";
+import { REALIZED_GAINS_KEY } from "./useRealizedGains";
+import { BROKERS_KEY, useBrokers } from "./useBrokers";
+import type { BrokerProvider } from "@/lib/constants";
 
-interface ConnectionStatus {
-  connected: boolean;
-  updatedAt: string | null;
+/** Upper bound on history pages fetched per provider in one session */
+const MAX_HISTORY_RUNS = 10;
+
+/**
+ * Ingest an account's trade history, repeating while the server reports
+ * more backfill left. Returns an error message, or null on success.
+ */
+async function syncTransactions(
+  provider: BrokerProvider,
+  accountId: string
+): Promise<string | null> {
+  for (let run = 0; run < MAX_HISTORY_RUNS; run++) {
+    const res = await fetch(`/api/brokers/${provider}/transactions?account=${accountId}`, {
+      method: "POST",
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) return data.error || "sync failed";
+    if (!data.hasMore) break;
+  }
+  return null;
 }
 
 /**
  * Auto-sync hook that runs once on mount to sync connected brokers.
- * Checks IOL and Binance connection status, then triggers sync for each.
+ * Reads every registered broker's connected accounts, then syncs positions
+ * and ingests trade history for each account on its own, so one expired
+ * login doesn't hold the others back. Accounts already known to need
+ * re-authentication are skipped until reconnected.
  */
 export function useAutoSync() {
   const queryClient = useQueryClient();
   const hasSynced = useRef(false);
   const { startSync, completeSync, failSync } = useAppStore();
 
-  // Check IOL connection status
-  const { data: iolStatus } = useQuery<ConnectionStatus>({
-    queryKey: ["iol-status"],
-    queryFn: async () => {
-      const res = await fetch("/api/iol/status");
-      return res.json();
-    },
-    staleTime: Infinity, // Don't refetch automatically
-  });
-
-  // Check Binance connection status
-  const { data: binanceStatus } = useQuery<ConnectionStatus>({
-    queryKey: ["binance-status"],
-    queryFn: async () => {
-      const res = await fetch("/api/binance/status");
-      return res.json();
-    },
-    staleTime: Infinity,
-  });
-
-  // Check PPI connection status
-  const { data: ppiStatus } = useQuery<ConnectionStatus>({
-    queryKey: ["ppi-status"],
-    queryFn: async () => {
-      const res = await fetch("/api/ppi/status");
-      return res.json();
-    },
-    staleTime: Infinity,
-  });
+  const { data: brokers } = useBrokers();
 
   // Run sync once when we have status info
   useEffect(() => {
     if (hasSynced.current) return;
-    if (iolStatus === undefined || binanceStatus === undefined || ppiStatus === undefined) return;
+    if (brokers === undefined) return;
 
     const runSync = async () => {
       hasSynced.current = true;
       const errors: string[] = [];
 
-      const hasIOL = iolStatus?.connected;
-      const hasBinance = binanceStatus?.connected;
-      const hasPPI = ppiStatus?.connected;
-
-      if (!hasIOL && !hasBinance && !hasPPI) return;
+      const connected = brokers.filter((b) => b.connected);
+      if (connected.length === 0) return;
 
-      const sources = [hasIOL && "IOL", hasBinance && "Binance", hasPPI && "PPI"].filter(Boolean);
-      startSync(sources.length > 1 ? "all" : sources[0]!.toString().toLowerCase());
-
-      // Sync IOL if connected (assets + transactions)
-      if (hasIOL) {
-        try {
-          const res = await fetch("/api/iol/sync", { method: "POST" });
-          const data = await res.json();
-          if (!res.ok) {
-            errors.push(`IOL sync: ${data.error || "failed"}`);
-          } else if (data?.success) {
-            const txRes = await fetch("/api/iol/transactions", { method: "POST" });
-            if (!txRes.ok) {
-              const txData = await txRes.json().catch(() => ({}));
-              errors.push(`IOL transactions: ${txData.error || "sync failed"}`);
-            }
-          }
-        } catch (err) {
-          console.error("IOL auto-sync failed:", err);
-          errors.push("IOL sync: network error");
-        }
-      }
+      startSync(connected.length > 1 ? "all" : connected[0].provider);
 
-      // Sync Binance if connected
-      if (hasBinance) {
-        try {
-          const res = await fetch("/api/binance/sync", { method: "POST" });
-          if (!res.ok) {
-            const data = await res.json();
-            errors.push(`Binance sync: ${data.error || "failed"}`);
+      // Positions first, then trade history
+      for (const { provider, accounts } of connected) {
+        for (const { id, label, status } of accounts) {
+          if (status === "expired") {
+            errors.push(`${label}: reconnect required`);
+            continue;
           }
-        } catch (err) {
-          console.error("Binance auto-sync failed:", err);
-          errors.push("Binance sync: network error");
-        }
-      }
-
-      // Sync PPI if connected
-      if (hasPPI) {
-        try {
-          const res = await fetch("/api/ppi/sync", { method: "POST" });
-          if (!res.ok) {
-            const data = await res.json();
-            errors.push(`PPI sync: ${data.error || "failed"}`);
+          try {
+            const res = await fetch(`/api/brokers/${provider}/sync?account=${id}`, {
+              method: "POST",
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+              errors.push(`${label} sync: ${data.error || "failed"}`);
+            } else {
+              const txError = await syncTransactions(provider, id);
+              if (txError) errors.push(`${label} transactions: ${txError}`);
+            }
+          } catch (err) {
+            console.error(`${label} auto-sync failed:`, err);
+            errors.push(`${label} sync: network error`);
           }
-        } catch (err) {
-          console.error("PPI auto-sync failed:", err);
-          errors.push("PPI sync: network error");
         }
       }
 
       // Invalidate queries to refresh the UI
       queryClient.invalidateQueries({ queryKey: ["assets"] });
       queryClient.invalidateQueries({ queryKey: ["transactions"] });
+      queryClient.invalidateQueries({ queryKey: REALIZED_GAINS_KEY });
+      // Syncs record each account's connection health
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
 
       if (errors.length > 0) {
         failSync(errors.join("; "));
@@ -126,11 +97,15 @@ export function useAutoSync() {
     };
 
     runSync();
-  }, [iolStatus, binanceStatus, ppiStatus, queryClient, startSync, completeSync, failSync]);
+  }, [brokers, queryClient, startSync, completeSync, failSync]);
+
+  const isConnected = (provider: BrokerProvider) =>
+    brokers?.some((b) => b.provider === provider && b.connected) ?? false;
 
   return {
-    iolConnected: iolStatus?.connected ?? false,
-    binanceConnected: binanceStatus?.connected ?? false,
-    ppiConnected: ppiStatus?.connected ?? false,
+    brokers: brokers ?? [],
+    iolConnected: isConnected("iol"),
+    binanceConnected: isConnected("binance"),
+    ppiConnected: isConnected("ppi"),
   };
 }
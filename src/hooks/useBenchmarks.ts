@@ -0,0 +1,35 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { BenchmarkId, BenchmarkStats, IndexPoint } from "@/lib/benchmarks";
+
+export interface BenchmarkSeries {
+  id: BenchmarkId;
+  label: string;
+  points: IndexPoint[];
+  stats: BenchmarkStats | null;
+}
+
+export interface BenchmarksResponse {
+  portfolio: IndexPoint[];
+  benchmarks: BenchmarkSeries[];
+  warnings: string[];
+}
+
+async function fetchBenchmarks(days: number, ids: BenchmarkId[]): Promise<BenchmarksResponse> {
+  const params = new URLSearchParams({ days: String(days), ids: ids.join(",") });
+  const res = await fetch(`/api/benchmarks?${params.toString()}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch benchmarks");
+  return data;
+}
+
+export function useBenchmarks(days: number, ids: BenchmarkId[]) {
+  return useQuery<BenchmarksResponse>({
+    queryKey: ["benchmarks", days, [...ids].sort()],
+    queryFn: () => fetchBenchmarks(days, ids),
+    enabled: ids.length > 0,
+    staleTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
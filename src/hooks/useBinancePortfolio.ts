@@ -3,17 +3,33 @@
 import { useQuery } from "@tanstack/react-query";
 
 import type { BrokerPortfolioAsset } from "@/types/portfolio";
+import type { BinanceFuturesPosition, BinanceWallet } from "@/services/binance";
+
+export type { BinanceFuturesPosition, BinanceWallet };
+
+export const BINANCE_WALLET_LABELS: Record<BinanceWallet, string> = {
+  spot: "Spot",
+  earn: "Earn flexible",
+  staking: "Staking",
+  futures: "Futuros USDⓈ-M",
+};
 
 export interface BinanceAsset extends BrokerPortfolioAsset {
   locked: number;
+  /** Units held in each wallet; `quantity` is their sum */
+  wallets: Record<BinanceWallet, number>;
 }
 
 interface BinancePortfolioResponse {
   connected: boolean;
   expired?: boolean;
   assets: BinanceAsset[];
+  /** Open USDⓈ-M positions; their P&L is already in the futures wallet */
+  futuresPositions?: (BinanceFuturesPosition & { accountId: string })[];
   totals?: {
     usd: number;
+    /** USD value per wallet */
+    wallets: Record<BinanceWallet, number>;
   };
   error?: string;
 }
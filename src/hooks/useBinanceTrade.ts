@@ -0,0 +1,101 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { IOLOrderType } from "@/services/iol";
+import { ORDERS_KEY } from "./useOrders";
+
+interface BinanceTradeRequest {
+  action: "buy" | "sell";
+  simbolo: string; // Pair, e.g. "BTCUSDT"
+  cantidad: number;
+  precio: number;
+  tipoOrden: IOLOrderType;
+  /** Broker account (user_connections.id); the first one when omitted */
+  accountId?: string;
+}
+
+interface BinanceTradeResponse {
+  ok: boolean;
+  numeroOperacion?: number;
+  status?: string;
+  mensaje?: string;
+  error?: string;
+  order?: {
+    action: "buy" | "sell";
+    simbolo: string;
+    cantidad: number;
+    precio: number;
+    executedQty: number;
+  };
+}
+
+interface CancelResponse {
+  ok: boolean;
+  mensaje?: string;
+  error?: string;
+}
+
+async function executeTrade(request: BinanceTradeRequest): Promise<BinanceTradeResponse> {
+  const res = await fetch("/api/binance/trade", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+
+  const data = await res.json();
+
+  if (!res.ok || !data.ok) {
+    throw new Error(data.error || "Trade failed");
+  }
+
+  return data;
+}
+
+async function cancelOrder({
+  symbol,
+  orderId,
+}: {
+  symbol: string;
+  orderId: number;
+}): Promise<CancelResponse> {
+  const params = new URLSearchParams({ symbol, orderId: String(orderId) });
+  const res = await fetch(`/api/binance/trade?${params.toString()}`, { method: "DELETE" });
+
+  const data = await res.json();
+
+  if (!res.ok || !data.ok) {
+    throw new Error(data.error || "Cancel failed");
+  }
+
+  return data;
+}
+
+/**
+ * Hook for executing Binance spot trades (buy/sell)
+ */
+export function useBinanceTrade() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: executeTrade,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["binance-portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
+    },
+  });
+}
+
+/**
+ * Hook for canceling open Binance orders
+ */
+export function useBinanceCancelOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: cancelOrder,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["binance-portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
+    },
+  });
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/Toast";
+import { useAppStore } from "@/stores/useAppStore";
+import { ALL_ACCOUNTS } from "@/lib/accounts";
+import type { BrokerProvider, ConnectionStatus } from "@/lib/constants";
+
+export const BROKERS_KEY = ["brokers"] as const;
+
+/** One connected account at a broker */
+export interface BrokerAccount {
+  id: string;
+  label: string;
+  /** Broker sub-account (PPI); null when the login is the account */
+  accountNumber: string | null;
+  updatedAt: string;
+  status: ConnectionStatus;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+/** A registered broker and the user's accounts there (see GET /api/brokers) */
+export interface BrokerStatus {
+  provider: BrokerProvider;
+  label: string;
+  connected: boolean;
+  updatedAt: string | null;
+  accounts: BrokerAccount[];
+}
+
+async function fetchBrokers(): Promise<BrokerStatus[]> {
+  const res = await fetch("/api/brokers");
+  const data = await res.json();
+  return data.brokers ?? [];
+}
+
+export function useBrokers() {
+  return useQuery<BrokerStatus[]>({
+    queryKey: BROKERS_KEY,
+    queryFn: fetchBrokers,
+    staleTime: Infinity, // Changes through connect / disconnect, syncs and health checks
+  });
+}
+
+/**
+ * The account picked in the switcher, falling back to every account once
+ * the picked one is no longer connected.
+ */
+export function useAccountFilter(): string {
+  const selected = useAppStore((s) => s.preferences.accountFilter) ?? ALL_ACCOUNTS;
+  const { data: brokers } = useBrokers();
+
+  if (selected === ALL_ACCOUNTS || !brokers) return selected;
+  const connected = brokers.some((b) => b.accounts.some((a) => a.id === selected));
+  return connected ? selected : ALL_ACCOUNTS;
+}
+
+/** Run the connection health check on the user's accounts now */
+export function useCheckConnections() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/brokers/health", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to check connections");
+      return data as { checked: number } & Record<ConnectionStatus, number>;
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: BROKERS_KEY });
+      const failing = summary.error + summary.expired;
+      addToast(
+        failing > 0
+          ? `${failing} de ${summary.checked} cuentas con problemas`
+          : "Todas las conexiones funcionan",
+        failing > 0 ? "error" : "success"
+      );
+    },
+    onError: (error) => {
+      addToast(error.message, "error");
+    },
+  });
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/Toast";
+import type {
+  ConditionalOrderStatus,
+  ConditionalOrderType,
+  TransactionType,
+} from "@/lib/constants";
+import type { IOLSettlement } from "@/services/iol";
+
+export const CONDITIONAL_ORDERS_KEY = ["conditional-orders"] as const;
+
+export interface ConditionalOrder {
+  id: string;
+  userId: string;
+  accountId: string | null;
+  mercado: string;
+  simbolo: string;
+  side: TransactionType;
+  type: ConditionalOrderType;
+  quantity: number;
+  triggerPrice: string | null;
+  trailPercent: string | null;
+  extremePrice: string | null;
+  limitPrice: string | null;
+  plazo: IOLSettlement;
+  notifyEmail: string | null;
+  status: ConditionalOrderStatus;
+  triggeredAt: string | null;
+  triggeredPrice: string | null;
+  numeroOperacion: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ConditionalOrdersResponse {
+  orders: ConditionalOrder[];
+  /** Per-user switch from portfolio settings */
+  enabled: boolean;
+  /** Deployment-wide kill switch */
+  globallyDisabled: boolean;
+}
+
+export interface CreateConditionalOrderParams {
+  mercado: string;
+  simbolo: string;
+  side: TransactionType;
+  type: ConditionalOrderType;
+  quantity: number;
+  triggerPrice?: number | null;
+  trailPercent?: number | null;
+  limitPrice?: number | null;
+  plazo: IOLSettlement;
+  /** IOL account holding the position; the first one when omitted */
+  accountId?: string;
+}
+
+async function fetchConditionalOrders(): Promise<ConditionalOrdersResponse> {
+  const res = await fetch("/api/conditional-orders");
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch conditional orders");
+  return data;
+}
+
+export function useConditionalOrders() {
+  return useQuery({
+    queryKey: CONDITIONAL_ORDERS_KEY,
+    queryFn: fetchConditionalOrders,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+export function useCreateConditionalOrder() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  return useMutation({
+    mutationFn: async (params: CreateConditionalOrderParams) => {
+      const res = await fetch("/api/conditional-orders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create conditional order");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CONDITIONAL_ORDERS_KEY });
+      addToast("Orden condicional creada", "success");
+    },
+    onError: (error) => {
+      addToast(error.message, "error");
+    },
+  });
+}
+
+export function useCancelConditionalOrder() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/conditional-orders?id=${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to cancel conditional order");
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CONDITIONAL_ORDERS_KEY });
+    },
+    onError: (error) => {
+      addToast(error.message, "error");
+    },
+  });
+}
@@ -3,6 +3,7 @@
 import { useMutation } from "@tanstack/react-query";
 
 import type { PortfolioAsset } from "@/types/portfolio";
+import type { CorrelationMatrix, CorrelationPair } from "@/lib/correlation";
 
 // Re-export for consumers
 export type { PortfolioAsset } from "@/types/portfolio";
@@ -23,6 +24,17 @@ export interface GroupAllocation {
   isConcentrated: boolean;
 }
 
+/** Correlations measured from 1Y of daily USD returns */
+export interface QuantCorrelation extends CorrelationMatrix {
+  /** Daily returns per ticker on `dates`, for rolling correlation */
+  returns: Record<string, (number | null)[]>;
+  topPairs: CorrelationPair[];
+  bottomPairs: CorrelationPair[];
+  /** Holdings without price history or beyond the largest measured */
+  unmeasured: string[];
+  warnings: string[];
+}
+
 export interface CorrelationAnalysis {
   concentrationScore: number;
   rating: "Well Diversified" | "Moderate Risk" | "Concentrated" | "Highly Concentrated";
@@ -34,6 +46,7 @@ export interface CorrelationAnalysis {
     byCountry: GroupAllocation[];
     byCorrelationGroup: GroupAllocation[];
   };
+  quant: QuantCorrelation;
 }
 
 // ── Fetch Function ────────────────────────────────────────────────────────────
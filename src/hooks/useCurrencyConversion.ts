@@ -10,7 +10,7 @@ import { useExchangeRate } from "./useExchangeRate";
  */
 export function useCurrencyConversion() {
   const displayCurrency = useAppStore((s) => s.preferences.displayCurrency);
-  const { rate, isLive, updatedAt } = useExchangeRate();
+  const { rate, valuationRate, isLive, updatedAt } = useExchangeRate();
 
   const convertToDisplay = useCallback(
     (value: number, assetCurrency: string): number => {
@@ -26,10 +26,19 @@ export function useCurrencyConversion() {
     [displayCurrency, rate]
   );
 
+  /** USD at the valuation rate, whatever the display currency (AI payloads) */
+  const convertToUsd = useCallback(
+    (value: number, assetCurrency: string): number =>
+      assetCurrency === "ARS" ? value / rate : value,
+    [rate]
+  );
+
   return {
     convertToDisplay,
+    convertToUsd,
     displayCurrency,
     rate,
+    valuationRate,
     isLive,
     updatedAt,
   };
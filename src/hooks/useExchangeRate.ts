@@ -1,20 +1,32 @@
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
+import { usePortfolioSettings } from "./usePortfolioSettings";
+import {
+  DEFAULT_VALUATION_RATE,
+  FALLBACK_USD_ARS_RATE,
+  type ValuationRate,
+} from "@/lib/constants";
 
 interface ExchangeRateResponse {
   rate: number | null;
   updatedAt: string | null;
+  valuationRate: ValuationRate;
   error?: string;
 }
 
-const FALLBACK_RATE = 1250; // Last known approximate rate
+/**
+ * USD/ARS sell rate. Defaults to the user's valuation rate setting; pass a
+ * rate to read a specific one regardless of the setting.
+ */
+export function useExchangeRate(rate?: ValuationRate) {
+  const { data: settings } = usePortfolioSettings();
+  const valuationRate = rate ?? settings?.valuationRate ?? DEFAULT_VALUATION_RATE;
 
-export function useExchangeRate() {
   const query = useQuery<ExchangeRateResponse>({
-    queryKey: ["exchange-rate"],
+    queryKey: ["exchange-rate", valuationRate],
     queryFn: async () => {
-      const res = await fetch("/api/exchange-rate");
+      const res = await fetch(`/api/exchange-rate?rate=${valuationRate}`);
       if (!res.ok) throw new Error("Failed to fetch exchange rate");
       return res.json();
     },
@@ -25,7 +37,9 @@ export function useExchangeRate() {
 
   return {
     /** USD/ARS sell rate — always a number (fallback if API fails) */
-    rate: query.data?.rate ?? FALLBACK_RATE,
+    rate: query.data?.rate ?? FALLBACK_USD_ARS_RATE,
+    /** Which dollar the rate is */
+    valuationRate,
     /** Whether using the real rate (vs fallback) */
     isLive: query.data?.rate != null,
     /** Last update timestamp from dolarapi */
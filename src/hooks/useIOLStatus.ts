@@ -8,7 +8,7 @@ interface IOLStatusResponse {
 }
 
 async function fetchIOLStatus(): Promise<IOLStatusResponse> {
-  const res = await fetch("/api/iol/status");
+  const res = await fetch("/api/brokers/iol/status");
   return res.json();
 }
 
@@ -2,6 +2,7 @@
 
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import type { IOLSettlement, IOLOrderType } from "@/services/iol";
+import { ORDERS_KEY } from "./useOrders";
 
 interface TradeRequest {
   action: "buy" | "sell";
@@ -12,6 +13,8 @@ interface TradeRequest {
   plazo: IOLSettlement;
   validez: string;
   tipoOrden: IOLOrderType;
+  /** Broker account (user_connections.id); the first one when omitted */
+  accountId?: string;
 }
 
 interface TradeResponse {
@@ -79,6 +82,7 @@ export function useIOLTrade() {
       queryClient.invalidateQueries({ queryKey: ["iol-balance"] });
       queryClient.invalidateQueries({ queryKey: ["iol-operations"] });
       queryClient.invalidateQueries({ queryKey: ["iol-quotes"] });
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
     },
   });
 }
@@ -94,6 +98,7 @@ export function useIOLCancelOrder() {
     onSuccess: () => {
       // Invalidate operations to refresh pending orders
       queryClient.invalidateQueries({ queryKey: ["iol-operations"] });
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
     },
   });
 }
@@ -109,8 +114,11 @@ export function formatOrderSummary(order: {
   plazo?: string;
 }): string {
   const actionLabel = order.action === "buy" ? "Comprar" : "Vender";
+  const summary = `${actionLabel} ${order.cantidad} ${order.simbolo} a $${order.precio.toFixed(2)}`;
+  // Crypto orders settle immediately and carry no plazo
+  if (!order.plazo) return summary;
   const plazoLabel = order.plazo === "t0" ? "Contado" : order.plazo === "t1" ? "24hs" : "48hs";
-  return `${actionLabel} ${order.cantidad} ${order.simbolo} a $${order.precio.toFixed(2)} (${plazoLabel})`;
+  return `${summary} (${plazoLabel})`;
 }
 
 /**
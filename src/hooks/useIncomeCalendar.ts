@@ -0,0 +1,30 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { IncomeMonth } from "@/lib/income";
+import type { Currency } from "@/lib/constants";
+
+export const INCOME_KEY = ["income-calendar"];
+
+export interface IncomeCalendarResponse {
+  asOf: string;
+  months: IncomeMonth[];
+  totals: Record<Currency, number>;
+  warnings: string[];
+}
+
+async function fetchIncomeCalendar(months: number): Promise<IncomeCalendarResponse> {
+  const res = await fetch(`/api/income?months=${months}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch income calendar");
+  return data;
+}
+
+export function useIncomeCalendar(months: number) {
+  return useQuery<IncomeCalendarResponse>({
+    queryKey: [...INCOME_KEY, months],
+    queryFn: () => fetchIncomeCalendar(months),
+    staleTime: 30 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
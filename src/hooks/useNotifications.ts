@@ -0,0 +1,103 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { NotificationKind } from "@/lib/constants";
+
+export const NOTIFICATIONS_KEY = ["notifications"] as const;
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  kind: NotificationKind;
+  title: string;
+  body: string | null;
+  link: string | null;
+  metadata: Record<string, unknown> | null;
+  readAt: string | null;
+  createdAt: string;
+}
+
+interface NotificationsResponse {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+export interface NotificationFilters {
+  kind?: NotificationKind;
+  status?: "all" | "unread" | "read";
+  limit?: number;
+}
+
+async function fetchNotifications(filters: NotificationFilters): Promise<NotificationsResponse> {
+  const params = new URLSearchParams();
+  if (filters.kind) params.set("kind", filters.kind);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.limit) params.set("limit", String(filters.limit));
+
+  const res = await fetch(`/api/notifications?${params}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch notifications");
+  return data;
+}
+
+export function useNotifications(filters: NotificationFilters = {}) {
+  return useQuery({
+    queryKey: [...NOTIFICATIONS_KEY, filters],
+    queryFn: () => fetchNotifications(filters),
+    staleTime: 60 * 1000, // 1 minute
+    refetchInterval: 2 * 60 * 1000, // Refetch every 2 minutes
+  });
+}
+
+interface MarkParams {
+  ids?: string[];
+  all?: true;
+  read: boolean;
+}
+
+export function useMarkNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: MarkParams) => {
+      const res = await fetch("/api/notifications", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update notifications");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    },
+  });
+}
+
+export function useDeleteNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids: string[]) => {
+      const res = await fetch(`/api/notifications?ids=${ids.join(",")}`, {
+        method: "DELETE",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to delete notifications");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_KEY });
+    },
+  });
+}
+
+/** Latest unread notifications and the unread total, shared by the bell and nav badges */
+export function useUnreadNotifications() {
+  return useNotifications({ status: "unread", limit: 20 });
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { OrderStatus, TransactionType } from "@/lib/constants";
+
+export const ORDERS_KEY = ["orders"] as const;
+
+export interface TrackedOrder {
+  id: string;
+  userId: string;
+  provider: string;
+  externalId: string;
+  auditLogId: string | null;
+  action: TransactionType;
+  mercado: string | null;
+  simbolo: string;
+  quantity: string;
+  price: string;
+  plazo: string | null;
+  tipoOrden: string | null;
+  validez: string | null;
+  status: OrderStatus;
+  filledQuantity: string;
+  avgFillPrice: string | null;
+  replacesOrderId: string | null;
+  replacedByOrderId: string | null;
+  conditionalOrderId: string | null;
+  filledAt: string | null;
+  lastCheckedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+async function fetchOrders(status: "all" | "open"): Promise<{ orders: TrackedOrder[] }> {
+  const res = await fetch(`/api/orders?status=${status}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch orders");
+  return data;
+}
+
+/** Orders placed through the app; open ones are re-polled while the page is visible */
+export function useOrders(status: "all" | "open" = "all") {
+  return useQuery({
+    queryKey: [...ORDERS_KEY, status],
+    queryFn: () => fetchOrders(status),
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+/** Ask the broker for the latest state of the user's open orders */
+export function usePollOrders() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/orders/poll", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to refresh orders");
+      return data as { checked: number; updated: number; filled: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
+      if (data.filled > 0) {
+        queryClient.invalidateQueries({ queryKey: ["iol-portfolio"] });
+      }
+    },
+  });
+}
+
+interface ModifyOrderParams {
+  numeroOperacion: number;
+  cantidad?: number;
+  precio?: number;
+}
+
+/** Cancel an open order and re-place it with a new price and/or quantity */
+export function useModifyOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: ModifyOrderParams) => {
+      const res = await fetch("/api/iol/trade", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.ok) throw new Error(data.error || "Modify failed");
+      return data;
+    },
+    // A rejected replacement still cancelled the original
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["iol-operations"] });
+    },
+  });
+}
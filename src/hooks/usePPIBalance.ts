@@ -30,10 +30,11 @@ async function fetchPPIBalance(): Promise<PPIBalanceResponse> {
   return data;
 }
 
-export function usePPIBalance() {
+export function usePPIBalance(enabled = true) {
   return useQuery({
     queryKey: ["ppi-balance"],
     queryFn: fetchPPIBalance,
+    enabled,
     staleTime: 1000 * 60 * 5, // 5 minutes
     refetchOnWindowFocus: true,
   });
@@ -8,7 +8,7 @@ interface PPIStatusResponse {
 }
 
 async function fetchPPIStatus(): Promise<PPIStatusResponse> {
-  const res = await fetch("/api/ppi/status");
+  const res = await fetch("/api/brokers/ppi/status");
   return res.json();
 }
 
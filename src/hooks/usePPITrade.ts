@@ -0,0 +1,138 @@
+"use client";
+
+import { useMutation, useQueries, useQueryClient } from "@tanstack/react-query";
+import type { IOLSettlement, IOLOrderType } from "@/services/iol";
+import { ORDERS_KEY } from "./useOrders";
+
+export type PPIInstrumentType = "ACCIONES" | "CEDEARS" | "BONOS" | "LETRAS" | "ON" | "ETF";
+
+export interface PPITradeRequest {
+  action: "buy" | "sell";
+  instrumentType: PPIInstrumentType;
+  simbolo: string;
+  cantidad: number;
+  precio: number;
+  plazo: IOLSettlement;
+  validez: string;
+  tipoOrden: IOLOrderType;
+  /** Disclaimer codes accepted on the order's budget */
+  acceptedDisclaimers?: string[];
+  /** Broker account (user_connections.id); the first one when omitted */
+  accountId?: string;
+}
+
+export interface PPIBudget {
+  amount: number | null;
+  commissions: number | null;
+  disclaimers: { code: string; description: string }[];
+}
+
+interface PPITradeResponse {
+  ok: boolean;
+  numeroOperacion?: number;
+  mensaje?: string;
+  error?: string;
+  order?: {
+    action: "buy" | "sell";
+    simbolo: string;
+    cantidad: number;
+    precio: number;
+    plazo: string;
+  };
+}
+
+interface CancelResponse {
+  ok: boolean;
+  mensaje?: string;
+  error?: string;
+}
+
+async function executeTrade(request: PPITradeRequest): Promise<PPITradeResponse> {
+  const res = await fetch("/api/ppi/trade", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+
+  const data = await res.json();
+
+  if (!res.ok || !data.ok) {
+    throw new Error(data.error || "Trade failed");
+  }
+
+  return data;
+}
+
+async function fetchBudget(request: PPITradeRequest): Promise<PPIBudget> {
+  const res = await fetch("/api/ppi/trade/budget", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+
+  const data = await res.json();
+
+  if (!res.ok || !data.ok) {
+    throw new Error(data.error || "Budget failed");
+  }
+
+  return data;
+}
+
+async function cancelOrder(orderId: number): Promise<CancelResponse> {
+  const res = await fetch(`/api/ppi/trade?orderId=${orderId}`, { method: "DELETE" });
+
+  const data = await res.json();
+
+  if (!res.ok || !data.ok) {
+    throw new Error(data.error || "Cancel failed");
+  }
+
+  return data;
+}
+
+/**
+ * Hook for executing trades (buy/sell) through PPI
+ */
+export function usePPITrade() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: executeTrade,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ppi-portfolio"] });
+      queryClient.invalidateQueries({ queryKey: ["ppi-balance"] });
+      queryClient.invalidateQueries({ queryKey: ["ppi-quotes"] });
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
+    },
+  });
+}
+
+/**
+ * PPI's budget for each order: commissions and the disclaimers the user
+ * must accept before the order is sent
+ */
+export function usePPIBudgets(requests: PPITradeRequest[]) {
+  return useQueries({
+    queries: requests.map((request) => ({
+      queryKey: ["ppi-budget", request],
+      queryFn: () => fetchBudget(request),
+      staleTime: 1000 * 30,
+      retry: false,
+    })),
+  });
+}
+
+/**
+ * Hook for canceling pending PPI orders
+ */
+export function usePPICancelOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: cancelOrder,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ORDERS_KEY });
+    },
+  });
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { PerformanceReport } from "@/lib/performance";
+
+export const PERFORMANCE_KEY = ["performance"] as const;
+
+export interface PerformanceResponse extends PerformanceReport {
+  warnings: string[];
+}
+
+async function fetchPerformance(): Promise<PerformanceResponse> {
+  const res = await fetch("/api/performance");
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch performance");
+  return data;
+}
+
+export function usePerformance() {
+  return useQuery<PerformanceResponse>({
+    queryKey: PERFORMANCE_KEY,
+    queryFn: fetchPerformance,
+    staleTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
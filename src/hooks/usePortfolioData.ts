@@ -6,6 +6,11 @@ import { useBinancePortfolio } from "@/hooks/useBinancePortfolio";
 import { usePPIPortfolio } from "@/hooks/usePPIPortfolio";
 import { useIOLQuotes } from "@/hooks/useIOLQuotes";
 import { useCurrencyConversion } from "@/hooks/useCurrencyConversion";
+import { useRealReturns } from "@/hooks/useRealReturns";
+import { useAccountFilter } from "@/hooks/useBrokers";
+import { useAppStore } from "@/stores/useAppStore";
+import { realReturnPercent } from "@/lib/inflation";
+import { selectAccountAssets } from "@/lib/accounts";
 import type { PortfolioRow } from "@/components/portfolio/columns";
 
 function calculatePnl(currentPrice: number, averagePrice: number, quantity: number) {
@@ -16,7 +21,8 @@ function calculatePnl(currentPrice: number, averagePrice: number, quantity: numb
 
 /**
  * Merges IOL + Binance portfolios, overlays live quotes,
- * calculates P&L and allocation percentages.
+ * calculates P&L and allocation percentages. Follows the account switcher:
+ * one account or all, consolidated or listed per account.
  */
 export function usePortfolioData() {
   const {
@@ -38,7 +44,12 @@ export function usePortfolioData() {
     refetch: refetchPPI,
     isFetching: ppiFetching,
   } = usePPIPortfolio();
-  const { convertToDisplay, displayCurrency } = useCurrencyConversion();
+  const { convertToDisplay, convertToUsd, displayCurrency, valuationRate, rate } =
+    useCurrencyConversion();
+  const returnMode = useAppStore((s) => s.preferences.returnMode) ?? "nominal";
+  const { data: realReturns } = useRealReturns(returnMode);
+  const accountFilter = useAccountFilter();
+  const accountView = useAppStore((s) => s.preferences.accountView) ?? "consolidated";
 
   // Prepare ticker list for live quotes (IOL assets only)
   const iolTickers = useMemo(() => {
@@ -78,7 +89,7 @@ export function usePortfolioData() {
 
     // Add IOL assets
     if (iolPortfolio?.assets?.length) {
-      for (const asset of iolPortfolio.assets) {
+      for (const asset of selectAccountAssets(iolPortfolio.assets, accountFilter, accountView)) {
         const quote = quotes[asset.ticker.toUpperCase()];
         const livePrice = quote?.ultimoPrecio ?? asset.currentPrice;
         const liveValue = livePrice * asset.quantity;
@@ -96,7 +107,10 @@ export function usePortfolioData() {
           displayAvgPrice: convertToDisplay(asset.averagePrice, asset.currency),
           displayValue: convertToDisplay(liveValue, asset.currency),
           displayPnl: convertToDisplay(pnl, asset.currency),
+          valueUsd: convertToUsd(liveValue, asset.currency),
+          pnlUsd: convertToUsd(pnl, asset.currency),
           allocation: 0,
+          realPnlPercent: null,
           dailyChange,
           hasLiveQuote: !!quote,
         });
@@ -105,7 +119,7 @@ export function usePortfolioData() {
 
     // Add Binance assets
     if (binancePortfolio?.assets?.length) {
-      for (const asset of binancePortfolio.assets) {
+      for (const asset of selectAccountAssets(binancePortfolio.assets, accountFilter, accountView)) {
         const { pnl, pnlPercent } = calculatePnl(asset.currentPrice, asset.averagePrice, asset.quantity);
         rows.push({
           ...asset,
@@ -116,7 +130,10 @@ export function usePortfolioData() {
           displayAvgPrice: convertToDisplay(asset.averagePrice, asset.currency),
           displayValue: convertToDisplay(asset.currentValue, asset.currency),
           displayPnl: convertToDisplay(pnl, asset.currency),
+          valueUsd: convertToUsd(asset.currentValue, asset.currency),
+          pnlUsd: convertToUsd(pnl, asset.currency),
           allocation: 0,
+          realPnlPercent: null,
           dailyChange: null,
           hasLiveQuote: false,
         });
@@ -125,7 +142,7 @@ export function usePortfolioData() {
 
     // Add PPI assets
     if (ppiPortfolio?.assets?.length) {
-      for (const asset of ppiPortfolio.assets) {
+      for (const asset of selectAccountAssets(ppiPortfolio.assets, accountFilter, accountView)) {
         const { pnl, pnlPercent } = calculatePnl(asset.currentPrice, asset.averagePrice, asset.quantity);
         rows.push({
           ...asset,
@@ -136,7 +153,10 @@ export function usePortfolioData() {
           displayAvgPrice: convertToDisplay(asset.averagePrice, asset.currency),
           displayValue: convertToDisplay(asset.currentValue, asset.currency),
           displayPnl: convertToDisplay(pnl, asset.currency),
+          valueUsd: convertToUsd(asset.currentValue, asset.currency),
+          pnlUsd: convertToUsd(pnl, asset.currency),
           allocation: 0,
+          realPnlPercent: null,
           dailyChange: null,
           hasLiveQuote: false,
         });
@@ -149,8 +169,32 @@ export function usePortfolioData() {
       r.allocation = total > 0 ? (r.displayValue / total) * 100 : 0;
     });
 
+    // Deflate ARS positions by CER/UVA since their lots were bought
+    if (returnMode !== "nominal" && realReturns) {
+      rows.forEach((r) => {
+        const basis = realReturns.positions[r.ticker];
+        if (r.currency !== "ARS" || !basis) return;
+        r.realPnlPercent = realReturnPercent(
+          r.currentValue,
+          r.averagePrice * r.quantity,
+          basis.factor
+        );
+      });
+    }
+
     return rows;
-  }, [iolPortfolio, binancePortfolio, ppiPortfolio, convertToDisplay, quotesData]);
+  }, [
+    iolPortfolio,
+    binancePortfolio,
+    ppiPortfolio,
+    convertToDisplay,
+    convertToUsd,
+    quotesData,
+    returnMode,
+    realReturns,
+    accountFilter,
+    accountView,
+  ]);
 
   return {
     data,
@@ -159,6 +203,11 @@ export function usePortfolioData() {
     error,
     refetch,
     displayCurrency,
+    valuationRate,
+    usdArsRate: rate,
+    returnMode,
+    realReturns,
+    accountView,
     iolConnected,
     binanceConnected,
     ppiConnected,
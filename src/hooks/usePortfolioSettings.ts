@@ -0,0 +1,74 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/Toast";
+import type { CostBasisMethod, ValuationRate } from "@/lib/constants";
+import type { RebalancePlan } from "@/lib/rebalance";
+import { REALIZED_GAINS_KEY } from "./useRealizedGains";
+import { PERFORMANCE_KEY } from "./usePerformance";
+import { CONDITIONAL_ORDERS_KEY } from "./useConditionalOrders";
+
+export interface PortfolioSettings {
+  id: string;
+  userId: string;
+  costBasisMethod: CostBasisMethod;
+  valuationRate: ValuationRate;
+  conditionalOrdersEnabled: boolean;
+  rebalancePlan: RebalancePlan | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+async function fetchPortfolioSettings(): Promise<PortfolioSettings> {
+  const res = await fetch("/api/portfolio-settings");
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch settings");
+  return data;
+}
+
+export function usePortfolioSettings() {
+  return useQuery<PortfolioSettings>({
+    queryKey: ["portfolio-settings"],
+    queryFn: fetchPortfolioSettings,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+interface UpdateParams {
+  costBasisMethod?: CostBasisMethod;
+  valuationRate?: ValuationRate;
+  conditionalOrdersEnabled?: boolean;
+  rebalancePlan?: RebalancePlan | null;
+}
+
+export function useUpdatePortfolioSettings() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  return useMutation({
+    mutationFn: async (params: UpdateParams) => {
+      const res = await fetch("/api/portfolio-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(params),
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to update settings");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["portfolio-settings"] });
+      // Changing the method re-matches all lots
+      queryClient.invalidateQueries({ queryKey: REALIZED_GAINS_KEY });
+      // ARS cash flows are converted at the valuation rate
+      queryClient.invalidateQueries({ queryKey: PERFORMANCE_KEY });
+      queryClient.invalidateQueries({ queryKey: CONDITIONAL_ORDERS_KEY });
+      addToast("Configuracion del portfolio actualizada", "success");
+    },
+    onError: (error) => {
+      addToast(error.message, "error");
+    },
+  });
+}
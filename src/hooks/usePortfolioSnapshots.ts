@@ -1,6 +1,10 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/Toast";
+import type { BackfillSummary } from "@/lib/snapshot-backfill";
+import type { PositionPoint, PositionTrade } from "@/lib/position-history";
+import type { ValuationRate } from "@/lib/constants";
 
 export interface SnapshotRow {
   id: string;
@@ -11,6 +15,11 @@ export interface SnapshotRow {
   totalPnlPercent: string | null;
   assetCount: number;
   byCategory: Record<string, { value: number; cost: number; count: number }> | null;
+  /** Dollar the ARS positions were converted at */
+  valuationRate: ValuationRate;
+  usdArsRate: string | null;
+  /** Rebuilt from transactions and price history rather than taken that day */
+  reconstructed: boolean;
 }
 
 interface SnapshotsResponse {
@@ -32,3 +41,57 @@ export function usePortfolioSnapshots(days = 90) {
     refetchOnWindowFocus: false,
   });
 }
+
+interface PositionHistoryResponse {
+  points: PositionPoint[];
+  trades: PositionTrade[];
+}
+
+async function fetchPositionHistory(
+  ticker: string,
+  category: string,
+  days: number
+): Promise<PositionHistoryResponse> {
+  const params = new URLSearchParams({ ticker, category, days: String(days) });
+  const res = await fetch(`/api/snapshots/positions?${params}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch position history");
+  return data;
+}
+
+/** One holding's quantity, value, cost and P&L per snapshot, with its trades */
+export function usePositionHistory(ticker: string, category: string, days = 365) {
+  return useQuery({
+    queryKey: ["portfolio-snapshots", "position", ticker, category, days],
+    queryFn: () => fetchPositionHistory(ticker, category, days),
+    staleTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/** Rebuild past snapshots from the transaction history */
+export function useBackfillSnapshots() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/snapshots/backfill", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to reconstruct snapshots");
+      return data as BackfillSummary;
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries({ queryKey: ["portfolio-snapshots"] });
+      addToast(
+        summary.written > 0
+          ? `${summary.written} dias reconstruidos`
+          : "No hay historial para reconstruir",
+        "success"
+      );
+    },
+    onError: (error) => {
+      addToast(error.message, "error");
+    },
+  });
+}
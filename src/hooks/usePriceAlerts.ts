@@ -1,6 +1,7 @@
 "use client";
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { AlertCondition, AlertDirection, AlertRule } from "@/lib/alerts";
 
 export interface AlertNarrative {
   narrative: string;
@@ -12,24 +13,52 @@ export interface PriceAlert {
   id: string;
   user_id: string;
   ticker: string;
-  condition: "above" | "below";
-  target_price: number;
+  condition: AlertCondition;
+  target_price: number | null;
+  direction: AlertDirection | null;
+  threshold: number | null;
+  period: number | null;
+  reference_price: number | null;
+  cooldown_minutes: number;
   current_price: number | null;
   is_active: boolean;
+  /** False after a trigger until the condition stops holding */
+  is_armed: boolean;
+  /** Most recent trigger */
   triggered_at: string | null;
+  trigger_count: number;
   created_at: string;
   narrative: AlertNarrative | null;
   narrative_generated_at: string | null;
 }
 
+/** The rule part of an alert row, for evaluateAlert/describeAlert */
+export function toAlertRule(alert: PriceAlert): AlertRule {
+  return {
+    condition: alert.condition,
+    targetPrice: alert.target_price,
+    direction: alert.direction,
+    threshold: alert.threshold,
+    period: alert.period,
+    referencePrice: alert.reference_price,
+  };
+}
+
 interface AlertsResponse {
   alerts: PriceAlert[];
 }
 
-interface CreateAlertParams {
+interface AlertRuleParams {
+  targetPrice?: number | null;
+  direction?: AlertDirection | null;
+  threshold?: number | null;
+  period?: number | null;
+  cooldownMinutes?: number;
+}
+
+interface CreateAlertParams extends AlertRuleParams {
   ticker: string;
-  condition: "above" | "below";
-  targetPrice: number;
+  condition: AlertCondition;
 }
 
 // Fetch all alerts for the current user
@@ -69,10 +98,9 @@ export function useCreateAlert() {
 }
 
 // Update an alert
-interface UpdateAlertParams {
+interface UpdateAlertParams extends AlertRuleParams {
   id: string;
-  condition?: "above" | "below";
-  targetPrice?: number;
+  condition?: AlertCondition;
 }
 
 export function useUpdateAlert() {
@@ -0,0 +1,55 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { IndexValue, InflationIndex, RealCostBasis, ReturnMode } from "@/lib/inflation";
+
+export const REAL_RETURNS_KEY = ["real-returns"];
+
+export interface RealReturnsResponse {
+  index: InflationIndex;
+  asOf: string;
+  indexValue: number | null;
+  positions: Record<string, RealCostBasis>;
+  warnings: string[];
+}
+
+export interface InflationIndexResponse {
+  index: InflationIndex;
+  series: IndexValue[];
+  warnings: string[];
+}
+
+async function fetchRealReturns(index: InflationIndex): Promise<RealReturnsResponse> {
+  const res = await fetch(`/api/real-returns?index=${index}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch real returns");
+  return data;
+}
+
+async function fetchInflationIndex(index: InflationIndex): Promise<InflationIndexResponse> {
+  const res = await fetch(`/api/inflation?index=${index}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch inflation index");
+  return data;
+}
+
+/** Inflation factors per ARS position; idle while showing nominal returns */
+export function useRealReturns(mode: ReturnMode) {
+  return useQuery<RealReturnsResponse>({
+    queryKey: [...REAL_RETURNS_KEY, mode],
+    queryFn: () => fetchRealReturns(mode as InflationIndex),
+    enabled: mode !== "nominal",
+    staleTime: 60 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useInflationIndex(index: InflationIndex, enabled = true) {
+  return useQuery<InflationIndexResponse>({
+    queryKey: ["inflation-index", index],
+    queryFn: () => fetchInflationIndex(index),
+    enabled,
+    staleTime: 6 * 60 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/Toast";
+import type { RealizedSale } from "@/lib/tax-lots";
+
+export const REALIZED_GAINS_KEY = ["realized-gains"] as const;
+
+export interface RealizedGainsResponse {
+  sales: RealizedSale[];
+  totals: { USD: number; ARS: number };
+}
+
+async function fetchRealizedGains(year?: number): Promise<RealizedGainsResponse> {
+  const url = year ? `/api/realized-gains?year=${year}` : "/api/realized-gains";
+  const res = await fetch(url);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch realized gains");
+  return data;
+}
+
+export function useRealizedGains(year?: number) {
+  return useQuery<RealizedGainsResponse>({
+    queryKey: year ? [...REALIZED_GAINS_KEY, year] : REALIZED_GAINS_KEY,
+    queryFn: () => fetchRealizedGains(year),
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+export function useRebuildLedger() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/realized-gains", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to rebuild ledger");
+      return data as { success: boolean; rebuilt: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: REALIZED_GAINS_KEY });
+      addToast("Lotes recalculados", "success");
+    },
+    onError: (error) => {
+      addToast(error.message, "error");
+    },
+  });
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { RiskFreeSource, RiskMetrics } from "@/lib/risk";
+
+export interface RiskResponse {
+  /** From the portfolio snapshots, flows removed; null with too little history */
+  realized: RiskMetrics | null;
+  /** Today's holdings over their price history */
+  holdings: RiskMetrics | null;
+  riskFree: { source: RiskFreeSource; label: string; ratePercent: number };
+  /** Latest snapshot value, USD */
+  value: number;
+  warnings: string[];
+}
+
+async function fetchRisk(days: number, rf: RiskFreeSource): Promise<RiskResponse> {
+  const params = new URLSearchParams({ days: String(days), rf });
+  const res = await fetch(`/api/risk?${params.toString()}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch risk metrics");
+  return data;
+}
+
+export function useRiskMetrics(days: number, rf: RiskFreeSource) {
+  return useQuery<RiskResponse>({
+    queryKey: ["risk", days, rf],
+    queryFn: () => fetchRisk(days, rf),
+    staleTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+}
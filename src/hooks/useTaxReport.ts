@@ -0,0 +1,21 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { TaxReport } from "@/lib/tax-report";
+
+export const TAX_REPORT_KEY = ["tax-report"] as const;
+
+async function fetchTaxReport(year: number): Promise<TaxReport> {
+  const res = await fetch(`/api/tax-report?year=${year}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Failed to fetch tax report");
+  return data;
+}
+
+export function useTaxReport(year: number) {
+  return useQuery<TaxReport>({
+    queryKey: [...TAX_REPORT_KEY, year],
+    queryFn: () => fetchTaxReport(year),
+    staleTime: 10 * 60 * 1000, // 10 minutes — year-end prices rarely change
+  });
+}
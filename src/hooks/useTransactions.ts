@@ -6,7 +6,13 @@ import {
   useQueryClient,
 } from "@tanstack/react-query";
 import type { Transaction } from "@/db/schema";
-import type { TransactionFormValues } from "@/lib/validators";
+import type {
+  TransactionFormValues,
+  TransactionImportValues,
+  TransactionUpdateValues,
+} from "@/lib/validators";
+import type { ImportRowResult } from "@/lib/transaction-import";
+import { REALIZED_GAINS_KEY } from "./useRealizedGains";
 
 const TRANSACTIONS_KEY = ["transactions"] as const;
 const ASSETS_KEY = ["assets"] as const;
@@ -35,6 +41,25 @@ async function createTransaction(
   return res.json();
 }
 
+async function updateTransaction({
+  id,
+  data,
+}: {
+  id: string;
+  data: TransactionUpdateValues;
+}): Promise<Transaction> {
+  const res = await fetch(`/api/transactions/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error(err.message ?? "Failed to update transaction");
+  }
+  return res.json();
+}
+
 async function deleteTransaction(id: string): Promise<void> {
   const res = await fetch(`/api/transactions/${id}`, {
     method: "DELETE",
@@ -45,6 +70,27 @@ async function deleteTransaction(id: string): Promise<void> {
   }
 }
 
+export interface ImportTransactionsResponse {
+  rows: ImportRowResult[];
+  summary: { valid: number; duplicate: number; invalid: number; newAssets: number };
+  imported: number;
+}
+
+async function importTransactions(
+  data: TransactionImportValues
+): Promise<ImportTransactionsResponse> {
+  const res = await fetch("/api/transactions/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  if (!res.ok) {
+    const err = await res.json();
+    throw new Error(err.message ?? "Failed to import transactions");
+  }
+  return res.json();
+}
+
 export function useTransactions(assetId?: string) {
   return useQuery({
     queryKey: assetId ? [...TRANSACTIONS_KEY, assetId] : TRANSACTIONS_KEY,
@@ -62,6 +108,19 @@ export function useCreateTransaction() {
       qc.invalidateQueries({ queryKey: TRANSACTIONS_KEY });
       // Also refresh assets since transaction affects quantity/avg price
       qc.invalidateQueries({ queryKey: ASSETS_KEY });
+      qc.invalidateQueries({ queryKey: REALIZED_GAINS_KEY });
+    },
+  });
+}
+
+export function useUpdateTransaction() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: updateTransaction,
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: TRANSACTIONS_KEY });
+      qc.invalidateQueries({ queryKey: ASSETS_KEY });
+      qc.invalidateQueries({ queryKey: REALIZED_GAINS_KEY });
     },
   });
 }
@@ -73,6 +132,21 @@ export function useDeleteTransaction() {
     onSuccess: () => {
       qc.invalidateQueries({ queryKey: TRANSACTIONS_KEY });
       qc.invalidateQueries({ queryKey: ASSETS_KEY });
+      qc.invalidateQueries({ queryKey: REALIZED_GAINS_KEY });
+    },
+  });
+}
+
+/** Preview (dryRun) or commit a broker export import. */
+export function useImportTransactions() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: importTransactions,
+    onSuccess: (data) => {
+      if (data.imported === 0) return;
+      qc.invalidateQueries({ queryKey: TRANSACTIONS_KEY });
+      qc.invalidateQueries({ queryKey: ASSETS_KEY });
+      qc.invalidateQueries({ queryKey: REALIZED_GAINS_KEY });
     },
   });
 }
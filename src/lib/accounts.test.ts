@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { consolidateAccounts, selectAccountAssets } from "./accounts";
+import type { PortfolioAsset } from "@/types/portfolio";
+
+function position(
+  ticker: string,
+  accountId: string,
+  overrides: Partial<PortfolioAsset> = {}
+): PortfolioAsset {
+  return {
+    id: `iol-${accountId}-${ticker}`,
+    ticker,
+    category: "cedear",
+    currency: "ARS",
+    quantity: 10,
+    averagePrice: 100,
+    currentPrice: 150,
+    currentValue: 1500,
+    pnl: 500,
+    pnlPercent: 50,
+    accountId,
+    accountLabel: accountId === "a" ? "IOL" : "IOL Family",
+    ...overrides,
+  };
+}
+
+// ===========================================================================
+// Consolidation
+// ===========================================================================
+
+describe("consolidateAccounts", () => {
+  it("merges an instrument held in several accounts", () => {
+    const [merged] = consolidateAccounts([
+      position("GGAL", "a"),
+      position("GGAL", "b", {
+        quantity: 30,
+        averagePrice: 200,
+        currentValue: 4500,
+        pnl: -1500,
+      }),
+    ]);
+
+    expect(merged.quantity).toBe(40);
+    expect(merged.currentValue).toBe(6000);
+    expect(merged.averagePrice).toBeCloseTo(175, 10); // (10×100 + 30×200) / 40
+    expect(merged.pnl).toBe(-1000);
+    expect(merged.pnlPercent).toBeCloseTo((-1000 / 7000) * 100, 10);
+    expect(merged.accountId).toBeUndefined();
+    expect(merged.accountLabel).toBe("IOL, IOL Family");
+  });
+
+  it("keeps the same ticker in different categories apart", () => {
+    const rows = consolidateAccounts([
+      position("AAPL", "a"),
+      position("AAPL", "b", { category: "stock" }),
+    ]);
+    expect(rows).toHaveLength(2);
+  });
+
+  it("leaves positions without a cost basis out of the average", () => {
+    const [merged] = consolidateAccounts([
+      position("BTC", "a", { category: "crypto", quantity: 1, averagePrice: 50000 }),
+      position("BTC", "b", { category: "crypto", quantity: 1, averagePrice: 0, pnl: 0 }),
+    ]);
+    expect(merged.averagePrice).toBe(50000);
+  });
+
+  it("sums locked units and wallets", () => {
+    const btc = (accountId: string, spot: number, earn: number) => ({
+      ...position("BTC", accountId, { category: "crypto", quantity: spot + earn, locked: 0.1 }),
+      wallets: { spot, earn, staking: 0, futures: 0 },
+    });
+
+    const [merged] = consolidateAccounts([btc("a", 1, 2), btc("b", 0.5, 0)]);
+
+    expect(merged.locked).toBeCloseTo(0.2, 10);
+    expect(merged.wallets).toEqual({ spot: 1.5, earn: 2, staking: 0, futures: 0 });
+  });
+});
+
+// ===========================================================================
+// Switcher selection
+// ===========================================================================
+
+describe("selectAccountAssets", () => {
+  const assets = [position("GGAL", "a"), position("GGAL", "b"), position("YPFD", "b")];
+
+  it("narrows to the selected account", () => {
+    const rows = selectAccountAssets(assets, "b", "split");
+    expect(rows.map((r) => r.ticker)).toEqual(["GGAL", "YPFD"]);
+    expect(rows.every((r) => r.accountId === "b")).toBe(true);
+  });
+
+  it("lists every account's rows in the split view", () => {
+    expect(selectAccountAssets(assets, "all", "split")).toHaveLength(3);
+  });
+
+  it("merges across accounts in the consolidated view", () => {
+    const rows = selectAccountAssets(assets, "all", "consolidated");
+    expect(rows).toHaveLength(2);
+    expect(rows[0].quantity).toBe(20);
+  });
+});
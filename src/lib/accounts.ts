@@ -0,0 +1,97 @@
+import type { PortfolioAsset } from "@/types/portfolio";
+
+/**
+ * Per-account portfolio views.
+ *
+ * Live broker portfolios list each connected account's positions on their
+ * own, tagged with the account. The account switcher narrows them to one
+ * account; the consolidated view merges a ticker held in several accounts
+ * of a broker into a single position.
+ */
+
+/** Account filter value for every connected account */
+export const ALL_ACCOUNTS = "all";
+
+export const ACCOUNT_VIEWS = ["consolidated", "split"] as const;
+export type AccountView = (typeof ACCOUNT_VIEWS)[number];
+
+export const ACCOUNT_VIEW_LABELS: Record<AccountView, string> = {
+  consolidated: "Consolidado",
+  split: "Por cuenta",
+};
+
+function walletsOf(asset: PortfolioAsset): Record<string, number> | undefined {
+  return (asset as { wallets?: Record<string, number> }).wallets;
+}
+
+/**
+ * One position from the same instrument held in several accounts. Average
+ * price is weighted over the positions that have a cost basis.
+ */
+function mergePositions<T extends PortfolioAsset>(group: T[]): T {
+  const [first] = group;
+  const sum = (pick: (a: T) => number | undefined) =>
+    group.reduce((total, a) => total + (pick(a) ?? 0), 0);
+
+  const costed = group.filter((a) => (a.averagePrice ?? 0) > 0);
+  const costedQuantity = costed.reduce((total, a) => total + a.quantity, 0);
+  const cost = costed.reduce((total, a) => total + (a.averagePrice ?? 0) * a.quantity, 0);
+  const pnl = sum((a) => a.pnl);
+
+  const merged: T = {
+    ...first,
+    accountId: undefined,
+    accountLabel: group.flatMap((a) => (a.accountLabel ? [a.accountLabel] : [])).join(", "),
+    quantity: sum((a) => a.quantity),
+    currentValue: sum((a) => a.currentValue),
+    averagePrice: costedQuantity > 0 ? cost / costedQuantity : 0,
+    pnl,
+    pnlPercent: cost > 0 ? (pnl / cost) * 100 : 0,
+  };
+
+  if (first.locked !== undefined) merged.locked = sum((a) => a.locked);
+
+  const wallets = walletsOf(first);
+  if (wallets) {
+    const totals = Object.fromEntries(Object.keys(wallets).map((w) => [w, 0]));
+    for (const asset of group) {
+      for (const [wallet, units] of Object.entries(walletsOf(asset) ?? {})) {
+        totals[wallet] = (totals[wallet] ?? 0) + units;
+      }
+    }
+    Object.assign(merged, { wallets: totals });
+  }
+
+  return merged;
+}
+
+/**
+ * Merge positions in the same instrument (ticker and category) across
+ * accounts. Pass one broker's assets at a time.
+ */
+export function consolidateAccounts<T extends PortfolioAsset>(assets: T[]): T[] {
+  const groups = new Map<string, T[]>();
+  for (const asset of assets) {
+    const key = `${asset.category}:${asset.ticker}`;
+    groups.set(key, [...(groups.get(key) ?? []), asset]);
+  }
+
+  return [...groups.values()].map((group) =>
+    group.length === 1 ? group[0] : mergePositions(group)
+  );
+}
+
+/**
+ * The positions to show for the account switcher's selection and view.
+ */
+export function selectAccountAssets<T extends PortfolioAsset>(
+  assets: T[],
+  accountFilter: string,
+  view: AccountView
+): T[] {
+  const selected =
+    accountFilter === ALL_ACCOUNTS
+      ? assets
+      : assets.filter((a) => a.accountId === accountFilter);
+  return view === "consolidated" ? consolidateAccounts(selected) : selected;
+}
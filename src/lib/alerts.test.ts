@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  alertRuleIssue,
+  describeAlert,
+  evaluateAlert,
+  nextAlertState,
+  rsi,
+  sma,
+  type AlertMarketData,
+  type AlertRule,
+} from "./alerts";
+
+const RULE: AlertRule = {
+  condition: "above",
+  targetPrice: null,
+  direction: null,
+  threshold: null,
+  period: null,
+  referencePrice: null,
+};
+
+const MARKET: AlertMarketData = {
+  price: 110,
+  changePercent: 4,
+  volume: 3000,
+  closes: [100, 101, 102, 103, 104],
+  volumes: [1000, 1000, 1000, 1000, 1000],
+  averagePrice: 80,
+};
+
+// ===========================================================================
+// Validation
+// ===========================================================================
+
+describe("alertRuleIssue", () => {
+  it("asks each condition for the fields it uses", () => {
+    expect(alertRuleIssue({ ...RULE, targetPrice: 100 })).toBeNull();
+    expect(alertRuleIssue(RULE)).toMatch(/targetPrice/);
+    expect(alertRuleIssue({ ...RULE, condition: "ma_cross", direction: "below" })).toBeNull();
+    expect(alertRuleIssue({ ...RULE, condition: "rsi", threshold: 30 })).toMatch(/direction/);
+    expect(alertRuleIssue({ ...RULE, condition: "volume_spike", threshold: 0 })).toMatch(/positive/);
+  });
+});
+
+// ===========================================================================
+// Indicators
+// ===========================================================================
+
+describe("sma", () => {
+  it("averages the last `period` values", () => {
+    expect(sma([1, 2, 3, 4], 2)).toBe(3.5);
+    expect(sma([1, 2], 3)).toBeNull();
+  });
+});
+
+describe("rsi", () => {
+  it("is 100 without losses and 0 without gains", () => {
+    expect(rsi([1, 2, 3, 4, 5], 4)).toBe(100);
+    expect(rsi([5, 4, 3, 2, 1], 4)).toBe(0);
+  });
+
+  it("balances equal gains and losses at 50", () => {
+    expect(rsi([10, 11, 10, 11, 10], 4)).toBeCloseTo(50, 10);
+  });
+
+  it("needs period + 1 closes", () => {
+    expect(rsi([1, 2, 3], 3)).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Conditions
+// ===========================================================================
+
+describe("evaluateAlert", () => {
+  it("keeps absolute price alerts working", () => {
+    expect(evaluateAlert({ ...RULE, targetPrice: 105 }, MARKET)).toEqual({ met: true, metric: 110 });
+    expect(evaluateAlert({ ...RULE, condition: "below", targetPrice: 105 }, MARKET)?.met).toBe(false);
+  });
+
+  it("measures percent change from the reference price", () => {
+    const down = { ...RULE, condition: "percent_change" as const, direction: "below" as const, threshold: -10 };
+    expect(evaluateAlert({ ...down, referencePrice: 125 }, MARKET)?.met).toBe(true);
+    expect(evaluateAlert({ ...down, referencePrice: 115 }, MARKET)?.met).toBe(false);
+    expect(evaluateAlert({ ...down, referencePrice: null }, MARKET)).toBeNull();
+  });
+
+  it("uses today's change for daily moves", () => {
+    const rule = { ...RULE, condition: "daily_move" as const, direction: "above" as const, threshold: 3 };
+    expect(evaluateAlert(rule, MARKET)).toEqual({ met: true, metric: 4 });
+  });
+
+  it("detects a cross only when yesterday closed on the other side", () => {
+    const rule = { ...RULE, condition: "ma_cross" as const, direction: "above" as const, period: 5 };
+    // MA 102, last close 104 already above
+    expect(evaluateAlert(rule, MARKET)?.met).toBe(false);
+    const crossing = { ...MARKET, closes: [104, 103, 102, 101, 100] };
+    expect(evaluateAlert(rule, crossing)).toEqual({ met: true, metric: 102 });
+  });
+
+  it("compares RSI including the live price", () => {
+    const rule = { ...RULE, condition: "rsi" as const, direction: "above" as const, threshold: 70, period: 4 };
+    expect(evaluateAlert(rule, MARKET)?.metric).toBe(100);
+    expect(evaluateAlert({ ...rule, period: 14 }, MARKET)).toBeNull();
+  });
+
+  it("flags volume against its average", () => {
+    const rule = { ...RULE, condition: "volume_spike" as const, threshold: 2, period: 5 };
+    expect(evaluateAlert(rule, MARKET)).toEqual({ met: true, metric: 3 });
+  });
+
+  it("needs a position for P&L alerts", () => {
+    const rule = { ...RULE, condition: "pnl" as const, direction: "above" as const, threshold: 25 };
+    expect(evaluateAlert(rule, MARKET)?.metric).toBeCloseTo(37.5, 10);
+    expect(evaluateAlert(rule, { ...MARKET, averagePrice: null })).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Re-arming
+// ===========================================================================
+
+describe("nextAlertState", () => {
+  const now = new Date("2026-10-19T15:00:00Z");
+
+  it("fires once and disarms while the condition holds", () => {
+    const state = { armed: true, lastTriggeredAt: null, cooldownMinutes: 60 };
+    expect(nextAlertState(state, true, now)).toEqual({ trigger: true, armed: false });
+    expect(nextAlertState({ ...state, armed: false }, true, now)).toEqual({ trigger: false, armed: false });
+  });
+
+  it("re-arms when the condition clears", () => {
+    const state = { armed: false, lastTriggeredAt: "2026-10-19T14:00:00Z", cooldownMinutes: 60 };
+    expect(nextAlertState(state, false, now)).toEqual({ trigger: false, armed: true });
+  });
+
+  it("holds a re-armed alert until the cooldown ends", () => {
+    const state = { armed: true, lastTriggeredAt: "2026-10-19T14:30:00Z", cooldownMinutes: 60 };
+    expect(nextAlertState(state, true, now).trigger).toBe(false);
+    expect(nextAlertState({ ...state, cooldownMinutes: 30 }, true, now).trigger).toBe(true);
+  });
+});
+
+describe("describeAlert", () => {
+  it("reads naturally", () => {
+    expect(describeAlert({ ...RULE, condition: "rsi", direction: "below", threshold: 30 })).toBe(
+      "RSI(14) below 30"
+    );
+    expect(describeAlert({ ...RULE, condition: "ma_cross", direction: "above", period: 200 })).toBe(
+      "Crosses above 200-day MA"
+    );
+  });
+});
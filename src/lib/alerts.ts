@@ -0,0 +1,279 @@
+/**
+ * Price alert conditions.
+ *
+ * Every condition reduces to a metric compared against a threshold in a
+ * direction ("above" = metric >= threshold, "below" = metric <= threshold),
+ * except the legacy absolute-price alerts whose condition *is* the
+ * direction, and moving-average crosses, which need the previous close.
+ *
+ * Alerts are re-arming: a trigger disarms the alert until its condition
+ * stops holding, and a cooldown spaces out repeated triggers. The
+ * price-alerts edge function carries a copy of `evaluateAlert` and
+ * `nextAlertState` (edge functions can't import app code); keep them in
+ * sync.
+ */
+
+export const ALERT_CONDITIONS = [
+  "above",
+  "below",
+  "percent_change",
+  "daily_move",
+  "ma_cross",
+  "rsi",
+  "volume_spike",
+  "pnl",
+] as const;
+export type AlertCondition = (typeof ALERT_CONDITIONS)[number];
+
+export const ALERT_DIRECTIONS = ["above", "below"] as const;
+export type AlertDirection = (typeof ALERT_DIRECTIONS)[number];
+
+export const ALERT_CONDITION_LABELS: Record<AlertCondition, string> = {
+  above: "Price above",
+  below: "Price below",
+  percent_change: "Change since created",
+  daily_move: "Daily move",
+  ma_cross: "Moving average cross",
+  rsi: "RSI",
+  volume_spike: "Volume spike",
+  pnl: "Position P&L",
+};
+
+/** Conditions that compare a metric with `threshold` in `direction` */
+export const THRESHOLD_CONDITIONS: readonly AlertCondition[] = [
+  "percent_change",
+  "daily_move",
+  "rsi",
+  "volume_spike",
+  "pnl",
+];
+
+/** Conditions that need daily history from Yahoo */
+export const HISTORY_CONDITIONS: readonly AlertCondition[] = ["ma_cross", "rsi", "volume_spike"];
+
+export const DEFAULT_ALERT_PERIODS: Partial<Record<AlertCondition, number>> = {
+  ma_cross: 50,
+  rsi: 14,
+  volume_spike: 20,
+};
+
+/** Minimum time between two triggers of the same alert */
+export const DEFAULT_COOLDOWN_MINUTES = 24 * 60;
+
+export interface AlertRule {
+  condition: AlertCondition;
+  /** Absolute price for above/below */
+  targetPrice: number | null;
+  direction: AlertDirection | null;
+  /** Percent, RSI level or volume multiple depending on the condition */
+  threshold: number | null;
+  /** Lookback in days for MA, RSI and average volume */
+  period: number | null;
+  /** Price when the alert was created (percent_change) */
+  referencePrice: number | null;
+}
+
+export interface AlertMarketData {
+  price: number;
+  /** Today's change, percent */
+  changePercent: number | null;
+  /** Today's volume */
+  volume: number | null;
+  /** Daily closes before today, oldest first */
+  closes: number[];
+  /** Daily volumes before today, oldest first */
+  volumes: number[];
+  /** Average cost of the user's position, if held */
+  averagePrice: number | null;
+}
+
+export interface AlertEvaluation {
+  met: boolean;
+  /** The value compared: price, percent, RSI, volume multiple... */
+  metric: number;
+}
+
+/** What a condition is missing to be evaluable, or null if the rule is complete */
+export function alertRuleIssue(
+  rule: Pick<AlertRule, "condition" | "targetPrice" | "direction" | "threshold">
+): string | null {
+  switch (rule.condition) {
+    case "above":
+    case "below":
+      return rule.targetPrice == null ? "targetPrice is required for price alerts" : null;
+    case "ma_cross":
+      return rule.direction == null ? "direction is required for moving average crosses" : null;
+    case "volume_spike":
+      return rule.threshold == null || rule.threshold <= 0
+        ? "threshold must be a positive volume multiple"
+        : null;
+    default:
+      if (rule.threshold == null) return `threshold is required for ${rule.condition}`;
+      if (rule.direction == null) return `direction is required for ${rule.condition}`;
+      return null;
+  }
+}
+
+// ── Indicators ──────────────────────────────────────────────────────────────
+
+/** Simple moving average of the last `period` values, or null if too short */
+export function sma(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  let sum = 0;
+  for (let i = values.length - period; i < values.length; i++) sum += values[i];
+  return sum / period;
+}
+
+/**
+ * Wilder's RSI over `closes` (oldest first). Needs period + 1 closes;
+ * 100 when there were no losses.
+ */
+export function rsi(closes: number[], period = 14): number | null {
+  if (period <= 0 || closes.length < period + 1) return null;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change >= 0) gain += change;
+    else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (loss === 0) return 100;
+  return 100 - 100 / (1 + gain / loss);
+}
+
+// ── Evaluation ──────────────────────────────────────────────────────────────
+
+function compare(metric: number, direction: AlertDirection | null, threshold: number): boolean {
+  return direction === "below" ? metric <= threshold : metric >= threshold;
+}
+
+/**
+ * Whether the alert's condition holds on `data`. Null when the data needed
+ * is missing (no history, no position, no reference price).
+ */
+export function evaluateAlert(rule: AlertRule, data: AlertMarketData): AlertEvaluation | null {
+  const { price } = data;
+  if (!(price > 0)) return null;
+  const period = rule.period ?? DEFAULT_ALERT_PERIODS[rule.condition] ?? 0;
+
+  switch (rule.condition) {
+    case "above":
+    case "below": {
+      if (rule.targetPrice === null) return null;
+      return { met: compare(price, rule.condition, rule.targetPrice), metric: price };
+    }
+
+    case "percent_change": {
+      if (!rule.referencePrice || rule.threshold === null) return null;
+      const metric = (price / rule.referencePrice - 1) * 100;
+      return { met: compare(metric, rule.direction, rule.threshold), metric };
+    }
+
+    case "daily_move": {
+      if (data.changePercent === null || rule.threshold === null) return null;
+      const metric = data.changePercent;
+      return { met: compare(metric, rule.direction, rule.threshold), metric };
+    }
+
+    case "ma_cross": {
+      // Crossed today: yesterday's close on the other side of the average
+      const average = sma(data.closes, period);
+      const lastClose = data.closes[data.closes.length - 1];
+      if (average === null || lastClose === undefined) return null;
+      const met =
+        rule.direction === "below"
+          ? lastClose >= average && price < average
+          : lastClose <= average && price > average;
+      return { met, metric: average };
+    }
+
+    case "rsi": {
+      if (rule.threshold === null) return null;
+      const metric = rsi([...data.closes, price], period);
+      if (metric === null) return null;
+      return { met: compare(metric, rule.direction, rule.threshold), metric };
+    }
+
+    case "volume_spike": {
+      const average = sma(data.volumes, period);
+      if (!average || data.volume === null || rule.threshold === null) return null;
+      const metric = data.volume / average;
+      return { met: metric >= rule.threshold, metric };
+    }
+
+    case "pnl": {
+      if (!data.averagePrice || rule.threshold === null) return null;
+      const metric = (price / data.averagePrice - 1) * 100;
+      return { met: compare(metric, rule.direction, rule.threshold), metric };
+    }
+  }
+}
+
+// ── Re-arming ───────────────────────────────────────────────────────────────
+
+export interface AlertState {
+  armed: boolean;
+  /** ISO timestamp of the last trigger */
+  lastTriggeredAt: string | null;
+  cooldownMinutes: number;
+}
+
+/**
+ * Fire when armed, met and out of cooldown; a trigger disarms the alert
+ * and it re-arms as soon as the condition stops holding.
+ */
+export function nextAlertState(
+  state: AlertState,
+  met: boolean,
+  now: Date
+): { trigger: boolean; armed: boolean } {
+  if (!met) return { trigger: false, armed: true };
+  if (!state.armed) return { trigger: false, armed: false };
+
+  if (state.lastTriggeredAt) {
+    const elapsed = now.getTime() - Date.parse(state.lastTriggeredAt);
+    if (elapsed < state.cooldownMinutes * 60_000) return { trigger: false, armed: true };
+  }
+  return { trigger: true, armed: false };
+}
+
+// ── Display ─────────────────────────────────────────────────────────────────
+
+function signed(value: number, suffix: string): string {
+  return `${value > 0 ? "+" : ""}${value}${suffix}`;
+}
+
+/** Short human description, e.g. "RSI(14) below 30" or "Down 10% since created" */
+export function describeAlert(rule: AlertRule): string {
+  const dir = rule.direction ?? "above";
+  const t = rule.threshold ?? 0;
+  const period = rule.period ?? DEFAULT_ALERT_PERIODS[rule.condition];
+
+  switch (rule.condition) {
+    case "above":
+    case "below":
+      return `Price ${rule.condition} ${rule.targetPrice ?? "?"}`;
+    case "percent_change":
+      return `${signed(t, "%")} or ${dir === "below" ? "lower" : "higher"} since created`;
+    case "daily_move":
+      return `Daily move ${dir} ${signed(t, "%")}`;
+    case "ma_cross":
+      return `Crosses ${dir} ${period}-day MA`;
+    case "rsi":
+      return `RSI(${period}) ${dir} ${t}`;
+    case "volume_spike":
+      return `Volume ${t}x the ${period}-day average`;
+    case "pnl":
+      return `Position P&L ${dir} ${signed(t, "%")}`;
+  }
+}
@@ -1,5 +1,14 @@
 import { z } from "zod";
 import { NextResponse } from "next/server";
+import { ALERT_CONDITIONS, ALERT_DIRECTIONS, alertRuleIssue } from "./alerts";
+import {
+  CONDITIONAL_ORDER_TYPES,
+  COST_BASIS_METHODS,
+  REBALANCE_SCOPES,
+  VALUATION_RATES,
+} from "./constants";
+import { BINANCE_QUOTE_ASSETS } from "./broker-history";
+import { conditionalOrderIssue } from "./conditional-orders";
 
 // ── Trade ────────────────────────────────────────────────────────────────────
 
@@ -14,22 +23,115 @@ export const tradeSchema = z.object({
   tipoOrden: z.enum(["precioLimite", "precioMercado"], {
     message: "Must be 'precioLimite' or 'precioMercado'",
   }),
+  /** Broker account (user_connections.id); the first one when omitted */
+  accountId: z.string().uuid().optional(),
 });
 
 export type TradeInput = z.infer<typeof tradeSchema>;
 
+/**
+ * PPI orders take the same fields as IOL's, with the PPI instrument type in
+ * place of the market. Settlement keeps the t0/t1/t2 form. The disclaimer
+ * codes are the ones the user accepted on the order's budget.
+ */
+export const ppiTradeSchema = tradeSchema.omit({ mercado: true }).extend({
+  instrumentType: z.enum(["ACCIONES", "CEDEARS", "BONOS", "LETRAS", "ON", "ETF"], {
+    message: "Must be a PPI instrument type (ACCIONES, CEDEARS, BONOS, LETRAS, ON, ETF)",
+  }),
+  acceptedDisclaimers: z.array(z.string().min(1).max(100)).max(50).default([]),
+});
+
+export type PPITradeInput = z.infer<typeof ppiTradeSchema>;
+
+const BINANCE_PAIR = new RegExp(`^[A-Z0-9]{2,12}(${BINANCE_QUOTE_ASSETS.join("|")})$`);
+
+/**
+ * Binance spot orders: `simbolo` is the pair (only stablecoin quotes, so
+ * fills land in the ledger in USD) and `cantidad` may be fractional. Market
+ * orders still send the reference `precio` for auditing.
+ */
+export const binanceTradeSchema = tradeSchema
+  .pick({ action: true, precio: true, tipoOrden: true, accountId: true })
+  .extend({
+    simbolo: z
+      .string()
+      .transform((s) => s.toUpperCase())
+      .pipe(z.string().regex(BINANCE_PAIR, `simbolo must be a pair quoted in ${BINANCE_QUOTE_ASSETS.join(", ")}`)),
+    cantidad: z.number().positive("cantidad must be positive").finite().max(1_000_000_000, "cantidad exceeds maximum of 1,000,000,000"),
+  });
+
+export type BinanceTradeInput = z.infer<typeof binanceTradeSchema>;
+
+export const replaceOrderSchema = z
+  .object({
+    numeroOperacion: z.number().int().positive("numeroOperacion must be positive"),
+    cantidad: z.number().int("cantidad must be a whole number").positive("cantidad must be positive").max(1_000_000, "cantidad exceeds maximum of 1,000,000").optional(),
+    precio: z.number().positive("precio must be positive").finite().max(100_000_000, "precio exceeds maximum of 100,000,000").optional(),
+  })
+  .refine((body) => body.cantidad != null || body.precio != null, {
+    message: "cantidad or precio is required",
+  });
+
+// ── Conditional Orders ───────────────────────────────────────────────────────
+
+export const createConditionalOrderSchema = z
+  .object({
+    mercado: z.string().min(1, "mercado is required"),
+    simbolo: z.string().min(1, "simbolo is required").max(20),
+    side: z.enum(["buy", "sell"], { message: "Must be 'buy' or 'sell'" }).default("sell"),
+    type: z.enum(CONDITIONAL_ORDER_TYPES, {
+      message: `Must be one of: ${CONDITIONAL_ORDER_TYPES.join(", ")}`,
+    }),
+    quantity: z.number().int("quantity must be a whole number").positive("quantity must be positive").max(1_000_000, "quantity exceeds maximum of 1,000,000"),
+    triggerPrice: z.number().positive("triggerPrice must be positive").finite().nullable().optional(),
+    trailPercent: z.number().finite().nullable().optional(),
+    limitPrice: z.number().positive("limitPrice must be positive").finite().nullable().optional(),
+    plazo: z.enum(["t0", "t1", "t2"], { message: "Must be 't0', 't1', or 't2'" }).default("t2"),
+    /** IOL account holding the position (user_connections.id); the first one when omitted */
+    accountId: z.string().uuid().optional(),
+  })
+  .superRefine((order, ctx) => {
+    const issue = conditionalOrderIssue({
+      type: order.type,
+      triggerPrice: order.triggerPrice ?? null,
+      trailPercent: order.trailPercent ?? null,
+    });
+    if (issue) ctx.addIssue({ code: "custom", message: issue });
+  });
+
+export type CreateConditionalOrderInput = z.infer<typeof createConditionalOrderSchema>;
+
 // ── Alerts ───────────────────────────────────────────────────────────────────
 
-export const createAlertSchema = z.object({
-  ticker: z.string().min(1, "ticker is required").max(20),
-  condition: z.enum(["above", "below"], { message: "Must be 'above' or 'below'" }),
-  targetPrice: z.number().positive("targetPrice must be positive"),
-});
+const alertRuleFields = {
+  condition: z.enum(ALERT_CONDITIONS, { message: `Must be one of: ${ALERT_CONDITIONS.join(", ")}` }),
+  targetPrice: z.number().positive("targetPrice must be positive").nullable().optional(),
+  direction: z.enum(ALERT_DIRECTIONS, { message: "Must be 'above' or 'below'" }).nullable().optional(),
+  threshold: z.number().finite().nullable().optional(),
+  period: z.number().int().min(2, "period must be at least 2").max(200, "period must be at most 200").nullable().optional(),
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60, "cooldownMinutes must be at most a week").optional(),
+};
+
+export const createAlertSchema = z
+  .object({
+    ticker: z.string().min(1, "ticker is required").max(20),
+    ...alertRuleFields,
+  })
+  .superRefine((alert, ctx) => {
+    const issue = alertRuleIssue({
+      condition: alert.condition,
+      targetPrice: alert.targetPrice ?? null,
+      direction: alert.direction ?? null,
+      threshold: alert.threshold ?? null,
+    });
+    if (issue) ctx.addIssue({ code: "custom", message: issue });
+  });
 
+// Partial; the route re-checks the merged rule with alertRuleIssue
 export const updateAlertSchema = z.object({
   id: z.string().uuid("Invalid alert id"),
-  condition: z.enum(["above", "below"]).optional(),
-  targetPrice: z.number().positive("targetPrice must be positive").optional(),
+  ...alertRuleFields,
+  condition: alertRuleFields.condition.optional(),
 });
 
 // ── Alert Narrative ─────────────────────────────────────────────────────────
@@ -44,6 +146,23 @@ export const alertNarrativeResponseSchema = z.object({
   sentiment: z.enum(["positive", "negative", "neutral"]),
 });
 
+// ── Notifications ───────────────────────────────────────────────────────────
+
+export const updateNotificationsSchema = z
+  .object({
+    ids: z.array(z.string().uuid("Invalid notification id")).max(500).optional(),
+    all: z.literal(true).optional(),
+    read: z.boolean(),
+  })
+  .refine((b) => b.all || (b.ids && b.ids.length > 0), {
+    message: "Provide ids or all: true",
+  });
+
+export const deleteNotificationsSchema = z
+  .array(z.string().uuid("Invalid notification id"))
+  .min(1, "Missing notification ids")
+  .max(500);
+
 // ── Auth ─────────────────────────────────────────────────────────────────────
 
 // Server-side auth: username + password → IOL API call
@@ -75,6 +194,13 @@ export const ppiAuthSchema = z.object({
   apiSecret: z.string().min(1, "Private Key is required"),
 });
 
+// Sent alongside any broker's credentials
+export const brokerAccountSchema = z.object({
+  label: z.string().trim().max(60).optional(),
+  // Reconnect this account instead of adding another
+  accountId: z.string().uuid().optional(),
+});
+
 // ── Batch Quotes ─────────────────────────────────────────────────────────────
 
 export const batchQuoteSchema = z.object({
@@ -87,6 +213,37 @@ export const batchQuoteSchema = z.object({
   ).default([]),
 });
 
+// ── Portfolio Settings ──────────────────────────────────────────────────────
+
+export const rebalancePlanSchema = z
+  .object({
+    scope: z.enum(REBALANCE_SCOPES),
+    tolerancePercent: z.number().min(0).max(50),
+    targets: z
+      .array(
+        z.object({
+          key: z.string().trim().min(1).max(40),
+          label: z.string().trim().max(40).optional(),
+          tickers: z.array(z.string().trim().min(1).max(20)).max(50).optional(),
+          percent: z.number().min(0).max(100),
+        })
+      )
+      .max(100),
+  })
+  .refine((p) => p.targets.reduce((s, t) => s + t.percent, 0) <= 100.0001, {
+    message: "Los objetivos suman mas de 100%",
+  })
+  .refine((p) => new Set(p.targets.map((t) => t.key)).size === p.targets.length, {
+    message: "Hay objetivos repetidos",
+  });
+
+export const updatePortfolioSettingsSchema = z.object({
+  costBasisMethod: z.enum(COST_BASIS_METHODS).optional(),
+  valuationRate: z.enum(VALUATION_RATES).optional(),
+  conditionalOrdersEnabled: z.boolean().optional(),
+  rebalancePlan: rebalancePlanSchema.nullable().optional(),
+});
+
 // ── Helper ───────────────────────────────────────────────────────────────────
 
 /**
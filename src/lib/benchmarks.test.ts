@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  alignToDates,
+  benchmarkStats,
+  plazoFijoSeries,
+  portfolioIndex,
+  rebase,
+} from "./benchmarks";
+
+const DATES = ["2026-06-01", "2026-06-02", "2026-06-03", "2026-06-04"];
+
+// ===========================================================================
+// Series helpers
+// ===========================================================================
+
+describe("alignToDates", () => {
+  it("carries the last close over non-trading days", () => {
+    const series = [
+      { date: "2026-06-02", value: 10 },
+      { date: "2026-06-04", value: 12 },
+    ];
+    expect(alignToDates(series, DATES)).toEqual([null, 10, 10, 12]);
+  });
+});
+
+describe("rebase", () => {
+  it("starts at 100 on the first known value", () => {
+    const points = rebase(DATES, [null, 50, 55, null]);
+    expect(points.map((p) => p.date)).toEqual(DATES.slice(1));
+    expect(points[0].index).toBe(100);
+    expect(points[1].index).toBeCloseTo(110, 10);
+    expect(points[2].index).toBeCloseTo(110, 10);
+  });
+});
+
+describe("portfolioIndex", () => {
+  it("removes deposits from the index", () => {
+    const index = portfolioIndex(
+      [
+        { date: "2026-06-01", value: 100 },
+        { date: "2026-06-02", value: 210 },
+      ],
+      [{ date: "2026-06-02", amount: 100 }]
+    );
+    expect(index[1].index).toBeCloseTo(105, 10);
+  });
+});
+
+describe("plazoFijoSeries", () => {
+  it("compounds the TNA in pesos and converts at MEP", () => {
+    const values = plazoFijoSeries(["2026-01-01", "2027-01-01"], 36.5, [1000, 1000]);
+    expect(values[0]).toBeCloseTo(1, 10);
+    expect(values[1]).toBeCloseTo(Math.pow(1.001, 365), 8);
+
+    // Peso deposit loses in USD when MEP doubles
+    const devalued = plazoFijoSeries(["2026-01-01", "2026-01-01"], 40, [1000, 2000]);
+    expect(devalued[1]).toBeCloseTo(0.5, 10);
+  });
+});
+
+// ===========================================================================
+// Stats
+// ===========================================================================
+
+describe("benchmarkStats", () => {
+  const bench = [
+    { date: "2026-06-01", index: 100 },
+    { date: "2026-06-02", index: 102 },
+    { date: "2026-06-03", index: 99 },
+    { date: "2026-06-04", index: 103 },
+  ];
+
+  it("has beta 1 and no tracking error against itself", () => {
+    const stats = benchmarkStats(bench, bench)!;
+    expect(stats.beta).toBeCloseTo(1, 10);
+    expect(stats.alphaPercent).toBeCloseTo(0, 8);
+    expect(stats.trackingErrorPercent).toBeCloseTo(0, 8);
+    expect(stats.excessPercent).toBeCloseTo(0, 10);
+  });
+
+  it("reports beta 2 for a doubly levered portfolio", () => {
+    const levered = [{ date: "2026-06-01", index: 100 }];
+    for (let i = 1; i < bench.length; i++) {
+      const r = bench[i].index / bench[i - 1].index - 1;
+      levered.push({ date: bench[i].date, index: levered[i - 1].index * (1 + 2 * r) });
+    }
+    const stats = benchmarkStats(levered, bench)!;
+    expect(stats.beta).toBeCloseTo(2, 8);
+    expect(stats.returnPercent).toBeCloseTo(3, 8);
+    expect(stats.trackingErrorPercent).toBeGreaterThan(0);
+  });
+
+  it("returns null without overlapping history", () => {
+    expect(benchmarkStats(bench, [{ date: "2026-06-04", index: 100 }])).toBeNull();
+  });
+});
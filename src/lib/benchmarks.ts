@@ -0,0 +1,189 @@
+import { periodReturns, type CashFlow, type ValuePoint } from "./performance";
+
+/**
+ * Benchmark comparison.
+ *
+ * Every series is expressed in USD and rebased to 100 on the first snapshot
+ * of the chart window. The portfolio line is its time-weighted index (flows
+ * removed), so deposits don't look like outperformance.
+ */
+
+export const BENCHMARK_IDS = ["MERVAL", "SPY", "BTC", "USD_MEP", "PLAZO_FIJO"] as const;
+export type BenchmarkId = (typeof BENCHMARK_IDS)[number];
+
+export const BENCHMARK_LABELS: Record<BenchmarkId, string> = {
+  MERVAL: "MERVAL (USD MEP)",
+  SPY: "S&P 500 (SPY)",
+  BTC: "Bitcoin",
+  USD_MEP: "USD MEP",
+  PLAZO_FIJO: "Plazo fijo",
+};
+
+export const BENCHMARK_COLORS: Record<BenchmarkId, string> = {
+  MERVAL: "#38bdf8", // sky-400
+  SPY: "#a78bfa", // violet-400
+  BTC: "#f59e0b", // amber-500
+  USD_MEP: "#22c55e", // green-500
+  PLAZO_FIJO: "#f472b6", // pink-400
+};
+
+export interface IndexPoint {
+  date: string;
+  /** 100 at the first point */
+  index: number;
+}
+
+export interface BenchmarkStats {
+  /** Percent over the window */
+  returnPercent: number;
+  /** Portfolio return minus benchmark return, percent */
+  excessPercent: number;
+  /** Annualized Jensen's alpha (no risk-free rate), percent */
+  alphaPercent: number | null;
+  beta: number | null;
+  /** Annualized stdev of return differences, percent */
+  trackingErrorPercent: number | null;
+}
+
+/**
+ * Value of a dated series on each requested date: the last value on or
+ * before it, null before the series starts. Both inputs sorted by date.
+ */
+export function alignToDates(series: ValuePoint[], dates: string[]): (number | null)[] {
+  const out: (number | null)[] = [];
+  let j = -1;
+  for (const date of dates) {
+    while (j + 1 < series.length && series[j + 1].date <= date) j++;
+    out.push(j >= 0 ? series[j].value : null);
+  }
+  return out;
+}
+
+/**
+ * Rebase a series to 100 at its first known value. Leading gaps are
+ * dropped; later gaps carry the previous index.
+ */
+export function rebase(dates: string[], values: (number | null)[]): IndexPoint[] {
+  const first = values.find((v): v is number => v !== null && v > 0);
+  if (first === undefined) return [];
+
+  const out: IndexPoint[] = [];
+  let last: number | null = null;
+  dates.forEach((date, i) => {
+    const v = values[i];
+    if (v !== null && v > 0) last = (v / first) * 100;
+    if (last !== null) out.push({ date, index: last });
+  });
+  return out;
+}
+
+/**
+ * Time-weighted portfolio index over the snapshot dates.
+ */
+export function portfolioIndex(points: ValuePoint[], flows: CashFlow[]): IndexPoint[] {
+  if (points.length === 0) return [];
+  let index = 100;
+  const out: IndexPoint[] = [{ date: points[0].date, index }];
+  for (const r of periodReturns(points, flows)) {
+    if (r.value !== null) index *= 1 + r.value;
+    out.push({ date: r.date, index });
+  }
+  return out;
+}
+
+/**
+ * Peso deposit renewed daily at a fixed TNA (percent), measured in USD by
+ * converting at the MEP rate of each date.
+ */
+export function plazoFijoSeries(
+  dates: string[],
+  tnaPercent: number,
+  mepOnDates: (number | null)[]
+): (number | null)[] {
+  const start = mepOnDates.find((v): v is number => v !== null && v > 0);
+  if (start === undefined || dates.length === 0) return dates.map(() => null);
+
+  const t0 = Date.parse(`${dates[0]}T00:00:00Z`);
+  return dates.map((date, i) => {
+    const mep = mepOnDates[i];
+    if (mep === null || !(mep > 0)) return null;
+    const days = (Date.parse(`${date}T00:00:00Z`) - t0) / 86_400_000;
+    const pesos = Math.pow(1 + tnaPercent / 100 / 365, days);
+    return (pesos * start) / mep;
+  });
+}
+
+function returnsOf(index: IndexPoint[]): Map<string, number> {
+  const out = new Map<string, number>();
+  for (let i = 1; i < index.length; i++) {
+    out.set(index[i].date, index[i].index / index[i - 1].index - 1);
+  }
+  return out;
+}
+
+function mean(xs: number[]): number {
+  return xs.reduce((s, x) => s + x, 0) / xs.length;
+}
+
+/**
+ * Alpha, beta and tracking error of the portfolio against one benchmark,
+ * from period returns on the dates both series share. Annualized by the
+ * average spacing of the snapshots.
+ */
+export function benchmarkStats(
+  portfolio: IndexPoint[],
+  benchmark: IndexPoint[]
+): BenchmarkStats | null {
+  if (portfolio.length < 2 || benchmark.length < 2) return null;
+
+  // Compare over the dates both cover, rebased to the shared start
+  const common = new Set(benchmark.map((p) => p.date));
+  const p = portfolio.filter((x) => common.has(x.date));
+  const bByDate = new Map(benchmark.map((x) => [x.date, x.index]));
+  const b = p.map((x) => ({ date: x.date, index: bByDate.get(x.date)! }));
+  if (p.length < 2) return null;
+
+  const portfolioReturn = p[p.length - 1].index / p[0].index - 1;
+  const benchmarkReturn = b[b.length - 1].index / b[0].index - 1;
+
+  const rp = returnsOf(p);
+  const rb = returnsOf(b);
+  const pairs = [...rp.keys()].map((d) => [rp.get(d)!, rb.get(d)!] as const);
+
+  let alphaPercent: number | null = null;
+  let beta: number | null = null;
+  let trackingErrorPercent: number | null = null;
+
+  if (pairs.length >= 2) {
+    const spanDays =
+      (Date.parse(`${p[p.length - 1].date}T00:00:00Z`) - Date.parse(`${p[0].date}T00:00:00Z`)) /
+      86_400_000;
+    const periodsPerYear = (365 * pairs.length) / Math.max(spanDays, 1);
+
+    const mp = mean(pairs.map(([x]) => x));
+    const mb = mean(pairs.map(([, y]) => y));
+    let cov = 0;
+    let varB = 0;
+    for (const [x, y] of pairs) {
+      cov += (x - mp) * (y - mb);
+      varB += (y - mb) ** 2;
+    }
+    if (varB > 0) {
+      beta = cov / varB;
+      alphaPercent = (mp - beta * mb) * periodsPerYear * 100;
+    }
+
+    const diffs = pairs.map(([x, y]) => x - y);
+    const md = mean(diffs);
+    const variance = diffs.reduce((s, d) => s + (d - md) ** 2, 0) / (diffs.length - 1);
+    trackingErrorPercent = Math.sqrt(variance * periodsPerYear) * 100;
+  }
+
+  return {
+    returnPercent: benchmarkReturn * 100,
+    excessPercent: (portfolioReturn - benchmarkReturn) * 100,
+    alphaPercent,
+    beta,
+    trackingErrorPercent,
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  accruedInterest,
+  buildCashflowSchedule,
+  computeBondAnalytics,
+  computeCerBondAnalytics,
+  impliedMep,
+  resolveUsdPrice,
+  sovereignYieldCurve,
+} from "./bond-analytics";
+import { getBondMeta, type BondMetadata } from "./bond-metadata";
+
+const AL30 = getBondMeta("AL30")!;
+
+const BULLET: BondMetadata = {
+  ticker: "TEST",
+  maturityDate: "2028-01-01",
+  law: "new_york",
+  currency: "USD",
+  couponRate: "10%",
+  couponFrequency: "semestral",
+  faceValue: 100,
+  type: "corporate",
+  couponSteps: [{ from: "2020-01-01", rate: 10 }],
+};
+
+const ZERO: BondMetadata = {
+  ...BULLET,
+  ticker: "ZERO",
+  maturityDate: "2027-01-01",
+  couponFrequency: "al_vencimiento",
+  couponSteps: undefined,
+};
+
+// ===========================================================================
+// Schedule
+// ===========================================================================
+
+describe("buildCashflowSchedule", () => {
+  it("amortizes AL30 down to zero with step-up coupons", () => {
+    const flows = buildCashflowSchedule(AL30, "2026-10-19");
+    expect(flows[0]).toMatchObject({ date: "2027-01-09", amortization: 8, residual: 56 });
+    expect(flows[0].coupon).toBeCloseTo((64 * 0.0075) / 2, 10);
+
+    // 1.75% applies from the Jul 2027 - Jan 2028 period on
+    const jan28 = flows.find((f) => f.date === "2028-01-09")!;
+    expect(jan28.coupon).toBeCloseTo((48 * 0.0175) / 2, 10);
+
+    const last = flows[flows.length - 1];
+    expect(last.date).toBe("2030-07-09");
+    expect(last.residual).toBe(0);
+    expect(flows.reduce((s, f) => s + f.amortization, 0)).toBeCloseTo(64, 10);
+  });
+
+  it("repays a bullet at maturity", () => {
+    const flows = buildCashflowSchedule(BULLET, "2026-03-01");
+    expect(flows.map((f) => f.date)).toEqual(["2026-07-01", "2027-01-01", "2027-07-01", "2028-01-01"]);
+    expect(flows[3].total).toBeCloseTo(105, 10);
+    expect(buildCashflowSchedule(BULLET, "2028-01-01")).toEqual([]);
+  });
+});
+
+describe("accruedInterest", () => {
+  it("accrues 30/360 on the residual since the last coupon", () => {
+    // 100 days (30/360) from Jul 9 on 64 residual at 0.75%
+    expect(accruedInterest(AL30, "2026-10-19")).toBeCloseTo((64 * 0.75 * 100) / 36_000, 10);
+    expect(accruedInterest(BULLET, "2026-01-01")).toBe(0);
+  });
+});
+
+// ===========================================================================
+// Yield and risk
+// ===========================================================================
+
+describe("computeBondAnalytics", () => {
+  it("matches the closed form for a zero coupon", () => {
+    const a = computeBondAnalytics(ZERO, 90, "2026-01-01")!;
+    const y = 100 / 90 - 1;
+    expect(a.ytmPercent).toBeCloseTo(y * 100, 6);
+    expect(a.macaulayDuration).toBeCloseTo(1, 8);
+    expect(a.modifiedDuration).toBeCloseTo(1 / (1 + y), 8);
+    expect(a.convexity).toBeCloseTo(2 / (1 + y) ** 2, 8);
+    expect(a.currentYieldPercent).toBeNull();
+  });
+
+  it("yields about the coupon for a par bond on a coupon date", () => {
+    const a = computeBondAnalytics(BULLET, 100, "2026-01-01")!;
+    expect(a.accruedInterest).toBe(0);
+    expect(a.parity).toBeCloseTo(100, 10);
+    expect(a.ytmPercent!).toBeCloseTo(10.25, 1);
+    expect(a.currentYieldPercent).toBeCloseTo(10, 10);
+    expect(a.macaulayDuration!).toBeLessThan(2);
+    expect(a.modifiedDuration!).toBeLessThan(a.macaulayDuration!);
+  });
+
+  it("skips peso and matured bonds", () => {
+    expect(computeBondAnalytics(getBondMeta("TX26")!, 100, "2026-01-01")).toBeNull();
+    expect(computeBondAnalytics(BULLET, 100, "2028-02-01")).toBeNull();
+  });
+});
+
+describe("computeCerBondAnalytics", () => {
+  const TX26 = getBondMeta("TX26")!;
+
+  it("prices the real schedule and reports pesos at the current CER", () => {
+    // 20% residual, last coupon + amortization on Nov 9
+    const nominal = computeCerBondAnalytics(TX26, 20.2 * 30, 30, "2026-05-09")!;
+    expect(nominal.indexRatio).toBe(30);
+    expect(nominal.adjustedResidual).toBeCloseTo(600, 10);
+    expect(nominal.cashflows).toHaveLength(1);
+    expect(nominal.cashflows[0].total).toBeCloseTo(20.2 * 30, 10);
+    // Paying exactly the final flow in real terms yields zero real return
+    expect(nominal.ytmPercent).toBeCloseTo(0, 6);
+  });
+
+  it("ignores hard-dollar bonds", () => {
+    expect(computeCerBondAnalytics(AL30, 60, 30, "2026-01-01")).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Prices and curve
+// ===========================================================================
+
+describe("resolveUsdPrice", () => {
+  const prices = new Map([
+    ["AL30", 90_000],
+    ["AL30D", 60],
+    ["GD35", 110_000],
+  ]);
+
+  it("prefers the D line, then converts pesos at the implied MEP", () => {
+    expect(impliedMep(prices)).toBe(1500);
+    expect(resolveUsdPrice("AL30", 90_000, prices)).toBe(60);
+    expect(resolveUsdPrice("GD35", 110_000, prices)).toBeCloseTo(110_000 / 1500, 10);
+    expect(resolveUsdPrice("GD35", 70, new Map())).toBe(70);
+    expect(resolveUsdPrice("GD35", 110_000, new Map())).toBeNull();
+  });
+
+  it("plots sovereigns by modified duration", () => {
+    const curve = sovereignYieldCurve(prices, "2026-10-19");
+    expect(curve.map((p) => p.ticker)).toEqual(["AL30", "GD35"]);
+    expect(curve[0].modifiedDuration).toBeLessThan(curve[1].modifiedDuration);
+  });
+});
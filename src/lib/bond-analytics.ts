@@ -0,0 +1,325 @@
+import { BOND_METADATA, getBondMeta, type BondMetadata } from "./bond-metadata";
+import { xirr } from "./performance";
+
+/**
+ * Fixed-income math for the bonds in BOND_METADATA.
+ *
+ * Amounts are per 100 of original face value, like the quotes. Coupons and
+ * accrued interest use 30/360; yields are effective annual rates over
+ * actual/365, so they line up with the XIRR used for portfolio returns.
+ * Prices are taken as dirty (BYMA quotes include accrued interest).
+ */
+
+export interface BondCashflow {
+  date: string;
+  coupon: number;
+  amortization: number;
+  total: number;
+  /** Outstanding face after this payment */
+  residual: number;
+}
+
+export interface BondAnalytics {
+  ticker: string;
+  settlementDate: string;
+  /** Dirty price in USD per 100 original face */
+  price: number;
+  /** Outstanding face at settlement */
+  residual: number;
+  accruedInterest: number;
+  /** Residual plus accrued interest */
+  technicalValue: number;
+  /** Price over technical value, percent */
+  parity: number;
+  /** Yield to maturity, effective annual percent */
+  ytmPercent: number | null;
+  macaulayDuration: number | null;
+  modifiedDuration: number | null;
+  convexity: number | null;
+  /** Coupon rate in force on the residual over the price, percent */
+  currentYieldPercent: number | null;
+  nextPayment: BondCashflow | null;
+  cashflows: BondCashflow[];
+}
+
+export interface YieldCurvePoint {
+  ticker: string;
+  law: BondMetadata["law"];
+  modifiedDuration: number;
+  ytmPercent: number;
+}
+
+const MONTHS_PER_PERIOD: Partial<Record<BondMetadata["couponFrequency"], number>> = {
+  semestral: 6,
+  mensual: 1,
+};
+
+/** Shift an ISO date by whole months, clamping to the month end */
+export function addMonths(date: string, months: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  const out = new Date(Date.UTC(y, m - 1 + months, d));
+  // Clamp month-end overflow (Aug 31 - 6m = Feb 28/29)
+  if (out.getUTCDate() !== d) out.setUTCDate(0);
+  return out.toISOString().slice(0, 10);
+}
+
+/** 30/360 (US) day count between two ISO dates */
+function days360(from: string, to: string): number {
+  const [y1, m1, d1] = from.split("-").map(Number);
+  const [y2, m2, d2] = to.split("-").map(Number);
+  const a = Math.min(d1, 30);
+  const b = d2 === 31 && a === 30 ? 30 : d2;
+  return (y2 - y1) * 360 + (m2 - m1) * 30 + (b - a);
+}
+
+function yearsBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (365 * 86_400_000);
+}
+
+/** Annual coupon rate (%) in force for a period starting on `date` */
+function couponRateOn(meta: BondMetadata, date: string): number {
+  let rate = 0;
+  for (const step of meta.couponSteps ?? []) {
+    if (step.from <= date) rate = step.rate;
+  }
+  return rate;
+}
+
+/** Outstanding face (per 100 original) after all repayments up to `date` */
+function residualAfter(meta: BondMetadata, date: string): number {
+  const repaid = (meta.amortization ?? [])
+    .filter((a) => a.date <= date)
+    .reduce((s, a) => s + a.percent, 0);
+  return Math.max(0, 100 - repaid);
+}
+
+/**
+ * Coupon dates rolled back from maturity: every date after `settlement`,
+ * plus the last one on or before it (the start of the current period).
+ */
+function paymentDates(meta: BondMetadata, settlement: string): string[] {
+  const step = MONTHS_PER_PERIOD[meta.couponFrequency];
+  if (!step) return [settlement, meta.maturityDate];
+
+  const dates: string[] = [meta.maturityDate];
+  let i = 1;
+  while (dates[0] > settlement) {
+    dates.unshift(addMonths(meta.maturityDate, -step * i++));
+  }
+  return dates;
+}
+
+/**
+ * Remaining payments after `settlement`, per 100 original face. The whole
+ * residual is repaid at maturity, so bullets need no amortization entries.
+ */
+export function buildCashflowSchedule(meta: BondMetadata, settlement: string): BondCashflow[] {
+  if (meta.maturityDate <= settlement) return [];
+
+  const dates = paymentDates(meta, settlement);
+  const periodsPerYear = 12 / (MONTHS_PER_PERIOD[meta.couponFrequency] ?? 12);
+  const out: BondCashflow[] = [];
+  let residual = residualAfter(meta, dates[0]);
+
+  for (let i = 1; i < dates.length; i++) {
+    const date = dates[i];
+    const rate = couponRateOn(meta, dates[i - 1]);
+    const coupon = MONTHS_PER_PERIOD[meta.couponFrequency]
+      ? (residual * rate) / 100 / periodsPerYear
+      : (residual * rate * days360(dates[i - 1], date)) / 36_000;
+
+    const after = date === meta.maturityDate ? 0 : residualAfter(meta, date);
+    const amortization = residual - after;
+    residual = after;
+
+    out.push({ date, coupon, amortization, total: coupon + amortization, residual });
+  }
+  return out;
+}
+
+/** Interest accrued since the last coupon date, per 100 original face */
+export function accruedInterest(meta: BondMetadata, settlement: string): number {
+  if (meta.maturityDate <= settlement) return 0;
+  const [start] = paymentDates(meta, settlement);
+  const rate = couponRateOn(meta, start);
+  return (residualAfter(meta, start) * rate * days360(start, settlement)) / 36_000;
+}
+
+export interface CerBondAnalytics extends BondAnalytics {
+  /** CER accrued since issue (lagged CER over the base coefficient) */
+  indexRatio: number;
+  /** Outstanding face carried by CER, per 100 original */
+  adjustedResidual: number;
+}
+
+/**
+ * Full analytics for a USD-priced bond. Returns null when the bond has
+ * matured, has no USD schedule (LECAP, CER-linked) or the price is unusable.
+ */
+export function computeBondAnalytics(
+  meta: BondMetadata,
+  price: number,
+  settlement: string
+): BondAnalytics | null {
+  if (meta.currency !== "USD") return null;
+  return analyzeSchedule(meta, price, settlement);
+}
+
+/**
+ * Analytics for a Boncer quoted in pesos. Flows are in base (real) units,
+ * so the price is deflated by the index ratio and the yield is real.
+ * Technical value and accrued interest are reported in pesos again.
+ */
+export function computeCerBondAnalytics(
+  meta: BondMetadata,
+  price: number,
+  indexRatio: number,
+  settlement: string
+): CerBondAnalytics | null {
+  if (meta.currency !== "CER" || !(indexRatio > 0)) return null;
+  const real = analyzeSchedule(meta, price / indexRatio, settlement);
+  if (!real) return null;
+  return {
+    ...real,
+    price,
+    accruedInterest: real.accruedInterest * indexRatio,
+    technicalValue: real.technicalValue * indexRatio,
+    nextPayment: real.nextPayment && scaleCashflow(real.nextPayment, indexRatio),
+    cashflows: real.cashflows.map((c) => scaleCashflow(c, indexRatio)),
+    indexRatio,
+    adjustedResidual: real.residual * indexRatio,
+  };
+}
+
+/** Payment in pesos at today's CER (later payments also carry future CER) */
+function scaleCashflow(c: BondCashflow, ratio: number): BondCashflow {
+  return {
+    date: c.date,
+    coupon: c.coupon * ratio,
+    amortization: c.amortization * ratio,
+    total: c.total * ratio,
+    residual: c.residual * ratio,
+  };
+}
+
+function analyzeSchedule(
+  meta: BondMetadata,
+  price: number,
+  settlement: string
+): BondAnalytics | null {
+  if (!(price > 0)) return null;
+
+  const cashflows = buildCashflowSchedule(meta, settlement);
+  if (cashflows.length === 0) return null;
+
+  const [start] = paymentDates(meta, settlement);
+  const residual = residualAfter(meta, start);
+  const accrued = accruedInterest(meta, settlement);
+  const technicalValue = residual + accrued;
+
+  const rate = xirr([
+    { date: settlement, amount: -price },
+    ...cashflows.map((c) => ({ date: c.date, amount: c.total })),
+  ]);
+
+  let macaulayDuration: number | null = null;
+  let modifiedDuration: number | null = null;
+  let convexity: number | null = null;
+
+  if (rate !== null) {
+    let pv = 0;
+    let weighted = 0;
+    let curvature = 0;
+    for (const c of cashflows) {
+      const t = yearsBetween(settlement, c.date);
+      const discounted = c.total / Math.pow(1 + rate, t);
+      pv += discounted;
+      weighted += t * discounted;
+      curvature += t * (t + 1) * discounted;
+    }
+    if (pv > 0) {
+      macaulayDuration = weighted / pv;
+      modifiedDuration = macaulayDuration / (1 + rate);
+      convexity = curvature / (pv * Math.pow(1 + rate, 2));
+    }
+  }
+
+  const annualCoupon = (residual * couponRateOn(meta, start)) / 100;
+
+  return {
+    ticker: meta.ticker,
+    settlementDate: settlement,
+    price,
+    residual,
+    accruedInterest: accrued,
+    technicalValue,
+    parity: technicalValue > 0 ? (price / technicalValue) * 100 : 0,
+    ytmPercent: rate !== null ? rate * 100 : null,
+    macaulayDuration,
+    modifiedDuration,
+    convexity,
+    currentYieldPercent: meta.couponSteps ? (annualCoupon / price) * 100 : null,
+    nextPayment: cashflows[0] ?? null,
+    cashflows,
+  };
+}
+
+/**
+ * USD price per 100 face for a bond quote. Uses the "D" (MEP dollar) line
+ * when the price map has it; otherwise a quote near face value is taken as
+ * USD already, and a peso quote is converted at the MEP implied by the
+ * AL30/AL30D pair.
+ */
+export function resolveUsdPrice(
+  ticker: string,
+  price: number,
+  prices: Map<string, number>
+): number | null {
+  const meta = getBondMeta(ticker);
+  if (!meta || !(price > 0)) return null;
+
+  const usdLine = prices.get(`${ticker}D`);
+  if (usdLine && usdLine > 0) return usdLine;
+  if (price <= meta.faceValue * 3) return price;
+
+  const mep = impliedMep(prices);
+  return mep ? price / mep : null;
+}
+
+/** Peso/dollar rate implied by the first sovereign quoted in both lines */
+export function impliedMep(prices: Map<string, number>): number | null {
+  for (const ticker of ["AL30", "GD30", "AL35", "GD35", "AE38", "GD38", "AL41", "GD41"]) {
+    const ars = prices.get(ticker);
+    const usd = prices.get(`${ticker}D`);
+    if (ars && usd && ars > 0 && usd > 0) return ars / usd;
+  }
+  return null;
+}
+
+/**
+ * Yield vs modified duration for every USD sovereign with a usable quote.
+ */
+export function sovereignYieldCurve(
+  prices: Map<string, number>,
+  settlement: string
+): YieldCurvePoint[] {
+  const points: YieldCurvePoint[] = [];
+  for (const meta of Object.values(BOND_METADATA)) {
+    if (meta.type !== "soberano") continue;
+    const quote = prices.get(meta.ticker);
+    if (quote === undefined) continue;
+
+    const usd = resolveUsdPrice(meta.ticker, quote, prices);
+    if (usd === null) continue;
+
+    const a = computeBondAnalytics(meta, usd, settlement);
+    if (a?.ytmPercent == null || a.modifiedDuration === null) continue;
+    points.push({
+      ticker: meta.ticker,
+      law: meta.law,
+      modifiedDuration: a.modifiedDuration,
+      ytmPercent: a.ytmPercent,
+    });
+  }
+  return points.sort((a, b) => a.modifiedDuration - b.modifiedDuration);
+}
@@ -12,6 +12,79 @@ export interface BondMetadata {
   sector?: string; // For ONs: "Energia", "Telecomunicaciones", etc.
   type: "soberano" | "corporate" | "lecap" | "boncer";
   pairTicker?: string; // For AL30 -> "GD30" and vice versa (Ley AR <-> Ley NY pair)
+  /** Annual coupon rate (%) in force from each date; omitted for zero coupon */
+  couponSteps?: CouponStep[];
+  /** Principal repayments as % of original face; omitted = bullet at maturity */
+  amortization?: Amortization[];
+  /** CER coefficient at issue, for CER-linked bonds */
+  cerBase?: number;
+}
+
+export interface CouponStep {
+  from: string; // ISO date
+  rate: number; // Annual %, e.g. 0.75
+}
+
+export interface Amortization {
+  date: string; // ISO date
+  percent: number; // % of original face value
+}
+
+/**
+ * Equal semi-annual installments (Jan 9 / Jul 9 for the 2020 sovereigns),
+ * starting on `first` and summing to 100%.
+ */
+function semiannualInstallments(first: string, count: number): Amortization[] {
+  const [y, m, d] = first.split("-").map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(Date.UTC(y, m - 1 + i * 6, d));
+    return { date: date.toISOString().slice(0, 10), percent: 100 / count };
+  });
+}
+
+// 2020 restructuring step-up schedules (Ley AR and Ley NY share terms)
+const STEPS_30: CouponStep[] = [
+  { from: "2020-09-04", rate: 0.125 },
+  { from: "2021-07-09", rate: 0.5 },
+  { from: "2023-07-09", rate: 0.75 },
+  { from: "2027-07-09", rate: 1.75 },
+];
+const AMORT_30: Amortization[] = [
+  { date: "2024-07-09", percent: 4 },
+  ...semiannualInstallments("2025-01-09", 12).map((a) => ({ ...a, percent: 8 })),
+];
+
+const STEPS_35: CouponStep[] = [
+  { from: "2020-09-04", rate: 0.125 },
+  { from: "2021-07-09", rate: 1.125 },
+  { from: "2022-07-09", rate: 1.5 },
+  { from: "2023-07-09", rate: 3.625 },
+  { from: "2024-07-09", rate: 4.125 },
+  { from: "2027-07-09", rate: 4.75 },
+  { from: "2028-07-09", rate: 5 },
+];
+const AMORT_35 = semiannualInstallments("2031-01-09", 10);
+
+const STEPS_38: CouponStep[] = [
+  { from: "2020-09-04", rate: 0.125 },
+  { from: "2021-07-09", rate: 2 },
+  { from: "2022-07-09", rate: 3.875 },
+  { from: "2023-07-09", rate: 4.25 },
+  { from: "2024-07-09", rate: 5 },
+];
+const AMORT_38 = semiannualInstallments("2027-07-09", 22);
+
+const STEPS_41: CouponStep[] = [
+  { from: "2020-09-04", rate: 0.125 },
+  { from: "2021-07-09", rate: 2.5 },
+  { from: "2022-07-09", rate: 3.5 },
+  { from: "2029-07-09", rate: 4.875 },
+];
+const AMORT_41 = semiannualInstallments("2028-01-09", 28);
+
+/** Fixed-rate coupon for the whole life of the bond */
+function fixedCoupon(rate: number): CouponStep[] {
+  return [{ from: "2000-01-01", rate }];
 }
 
 // ---------------------------------------------------------------------------
@@ -31,6 +104,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "GD30",
+    couponSteps: STEPS_30,
+    amortization: AMORT_30,
   },
   GD30: {
     ticker: "GD30",
@@ -42,6 +117,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "AL30",
+    couponSteps: STEPS_30,
+    amortization: AMORT_30,
   },
 
   AL35: {
@@ -54,6 +131,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "GD35",
+    couponSteps: STEPS_35,
+    amortization: AMORT_35,
   },
   GD35: {
     ticker: "GD35",
@@ -65,6 +144,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "AL35",
+    couponSteps: STEPS_35,
+    amortization: AMORT_35,
   },
 
   AL41: {
@@ -77,6 +158,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "GD41",
+    couponSteps: STEPS_41,
+    amortization: AMORT_41,
   },
   GD41: {
     ticker: "GD41",
@@ -88,6 +171,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "AL41",
+    couponSteps: STEPS_41,
+    amortization: AMORT_41,
   },
 
   AE38: {
@@ -100,6 +185,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "GD38",
+    couponSteps: STEPS_38,
+    amortization: AMORT_38,
   },
   GD38: {
     ticker: "GD38",
@@ -111,6 +198,8 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     faceValue: 100,
     type: "soberano",
     pairTicker: "AE38",
+    couponSteps: STEPS_38,
+    amortization: AMORT_38,
   },
 
   // ---- LECAP ----
@@ -137,6 +226,15 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     couponFrequency: "semestral",
     faceValue: 1000,
     type: "boncer",
+    couponSteps: fixedCoupon(2),
+    amortization: [
+      { date: "2024-11-09", percent: 20 },
+      { date: "2025-05-09", percent: 20 },
+      { date: "2025-11-09", percent: 20 },
+      { date: "2026-05-09", percent: 20 },
+      { date: "2026-11-09", percent: 20 },
+    ],
+    cerBase: 22.5439,
   },
 
   // ---- Corporate ONs ----
@@ -152,6 +250,7 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     issuer: "YPF",
     sector: "Energia",
     type: "corporate",
+    couponSteps: fixedCoupon(8.5),
   },
   MRCAO: {
     ticker: "MRCAO",
@@ -164,6 +263,7 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     issuer: "Mirgor",
     sector: "Tecnologia",
     type: "corporate",
+    couponSteps: fixedCoupon(7),
   },
   TLCHO: {
     ticker: "TLCHO",
@@ -176,6 +276,7 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     issuer: "Telecom Argentina",
     sector: "Telecomunicaciones",
     type: "corporate",
+    couponSteps: fixedCoupon(8),
   },
   PNDCO: {
     ticker: "PNDCO",
@@ -188,6 +289,7 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     issuer: "Pampa Energia",
     sector: "Energia",
     type: "corporate",
+    couponSteps: fixedCoupon(7.5),
   },
   YMCHO: {
     ticker: "YMCHO",
@@ -200,6 +302,7 @@ export const BOND_METADATA: Record<string, BondMetadata> = {
     issuer: "YPF",
     sector: "Energia",
     type: "corporate",
+    couponSteps: fixedCoupon(9),
   },
 };
 
@@ -0,0 +1,390 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/db";
+import { assets, userConnections, type NewAsset, type UserConnection } from "@/db/schema";
+import { eq, and, isNull, sql } from "drizzle-orm";
+import { decryptCredentials, encryptCredentials } from "./crypto";
+import { notifySyncFailure } from "./notifications";
+import type { BrokerAdapter, BrokerPosition, BrokerSession } from "@/services/brokers";
+
+/**
+ * Server-side glue between the broker adapters and the user's stored
+ * connections, shared by the /api/brokers/[provider]/* routes.
+ */
+
+export function findBrokerConnections(
+  userId: string,
+  provider: string
+): Promise<UserConnection[]> {
+  return db.query.userConnections.findMany({
+    where: and(
+      eq(userConnections.userId, userId),
+      eq(userConnections.provider, provider)
+    ),
+    orderBy: (c, { asc }) => [asc(c.createdAt)],
+  });
+}
+
+/**
+ * One of the user's accounts at a broker: `accountId` if given, otherwise
+ * the first one connected (the account trading and quotes go through).
+ */
+export function findBrokerConnection(
+  userId: string,
+  provider: string,
+  accountId?: string | null
+): Promise<UserConnection | undefined> {
+  if (accountId && !z.string().uuid().safeParse(accountId).success) {
+    return Promise.resolve(undefined);
+  }
+
+  return db.query.userConnections.findFirst({
+    where: and(
+      eq(userConnections.userId, userId),
+      eq(userConnections.provider, provider),
+      accountId ? eq(userConnections.id, accountId) : undefined
+    ),
+    orderBy: (c, { asc }) => [asc(c.createdAt)],
+  });
+}
+
+/** An account as listed to the client */
+export function toBrokerAccount(connection: UserConnection) {
+  return {
+    id: connection.id,
+    label: connection.label,
+    accountNumber: connection.accountNumber,
+    updatedAt: connection.updatedAt,
+    status: connection.status,
+    lastSuccessAt: connection.lastSuccessAt,
+    lastFailureAt: connection.lastFailureAt,
+    lastError: connection.lastError,
+  };
+}
+
+/**
+ * The accounts a request targets: the one in `?account=`, or all of them.
+ */
+export async function findRequestedConnections(
+  req: Request,
+  userId: string,
+  provider: string
+): Promise<UserConnection[]> {
+  const accountId = new URL(req.url).searchParams.get("account");
+  if (!accountId) return findBrokerConnections(userId, provider);
+
+  const connection = await findBrokerConnection(userId, provider, accountId);
+  return connection ? [connection] : [];
+}
+
+/** "IOL", then "IOL 2", "IOL 3"... for further logins */
+function defaultAccountLabel(adapter: BrokerAdapter, existing: UserConnection[]): string {
+  const taken = new Set(existing.map((c) => c.label));
+  if (!taken.has(adapter.label)) return adapter.label;
+
+  let n = 2;
+  while (taken.has(`${adapter.label} ${n}`)) n++;
+  return `${adapter.label} ${n}`;
+}
+
+export interface SaveConnectionOptions {
+  /** User-facing name for a new account */
+  label?: string;
+  /** Reconnect this account instead of adding one */
+  accountId?: string;
+  /** Where re-authentication alerts go (the signed-in user's email) */
+  notifyEmail?: string;
+}
+
+/**
+ * Store freshly issued credentials. Reconnecting an account also updates the
+ * other accounts of the same login. A new login adds an account, or one per
+ * sub-account for brokers that have several per login; sub-accounts already
+ * connected just get the new credentials.
+ *
+ * Returns the saved connections, or null if `accountId` isn't the user's.
+ */
+export async function saveBrokerConnection(
+  userId: string,
+  adapter: BrokerAdapter,
+  credentials: unknown,
+  { label, accountId, notifyEmail }: SaveConnectionOptions = {}
+): Promise<UserConnection[] | null> {
+  const encrypted = encryptCredentials(credentials);
+  const existing = await findBrokerConnections(userId, adapter.provider);
+  // Fresh credentials clear a failed or expired connection
+  const healthy = {
+    status: "ok" as const,
+    lastSuccessAt: new Date(),
+    lastError: null,
+    reauthNotifiedAt: null,
+    ...(notifyEmail && { notifyEmail }),
+  };
+
+  if (accountId) {
+    const target = existing.find((c) => c.id === accountId);
+    if (!target) return null;
+
+    return db
+      .update(userConnections)
+      .set({
+        credentials: encrypted,
+        ...(label && { label }),
+        ...healthy,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(userConnections.userId, userId),
+          eq(userConnections.provider, adapter.provider),
+          eq(userConnections.credentials, target.credentials)
+        )
+      )
+      .returning();
+  }
+
+  const subAccounts = (await adapter.connect(credentials).getAccounts?.()) ?? [];
+  const baseLabel = label?.trim() || defaultAccountLabel(adapter, existing);
+
+  if (subAccounts.length === 0) {
+    return db
+      .insert(userConnections)
+      .values({
+        userId,
+        provider: adapter.provider,
+        label: baseLabel,
+        credentials: encrypted,
+        ...healthy,
+      })
+      .returning();
+  }
+
+  // A connection made before accounts were tracked is the login's first
+  // account, which is what the broker defaults to without an account number
+  const legacy = existing.find((c) => c.accountNumber === null);
+  const saved: UserConnection[] = [];
+
+  for (const [i, sub] of subAccounts.entries()) {
+    const current =
+      existing.find((c) => c.accountNumber === sub.accountNumber) ?? (i === 0 ? legacy : undefined);
+
+    if (current) {
+      const [row] = await db
+        .update(userConnections)
+        .set({
+          credentials: encrypted,
+          accountNumber: sub.accountNumber,
+          ...healthy,
+          updatedAt: new Date(),
+        })
+        .where(eq(userConnections.id, current.id))
+        .returning();
+      saved.push(row);
+    } else {
+      const [row] = await db
+        .insert(userConnections)
+        .values({
+          userId,
+          provider: adapter.provider,
+          label: subAccounts.length > 1 ? `${baseLabel} ${sub.accountNumber}` : baseLabel,
+          accountNumber: sub.accountNumber,
+          credentials: encrypted,
+          ...healthy,
+        })
+        .returning();
+      saved.push(row);
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Disconnect one account, or every account at the broker.
+ */
+export async function deleteBrokerConnection(
+  userId: string,
+  provider: string,
+  accountId?: string | null
+): Promise<void> {
+  await db
+    .delete(userConnections)
+    .where(
+      and(
+        eq(userConnections.userId, userId),
+        eq(userConnections.provider, provider),
+        accountId ? eq(userConnections.id, accountId) : undefined
+      )
+    );
+}
+
+/**
+ * Open a session on the stored credentials. Call `persistCredentials` when
+ * done so a token refreshed along the way is kept.
+ */
+export function openBrokerSession(
+  adapter: BrokerAdapter,
+  connection: UserConnection
+): { session: BrokerSession<unknown>; persistCredentials: () => Promise<void> } {
+  const credentials = decryptCredentials<unknown>(connection.credentials);
+  const session = adapter.connect(credentials, connection.accountNumber ?? undefined);
+
+  return {
+    session,
+    async persistCredentials() {
+      const current = session.credentials();
+      if (JSON.stringify(current) === JSON.stringify(credentials)) return;
+      await saveRefreshedCredentials(connection, current);
+    },
+  };
+}
+
+/**
+ * Store a refreshed token on the account and on the other accounts sharing
+ * its login (PPI sub-accounts hold the same encrypted credentials).
+ */
+export async function saveRefreshedCredentials(
+  connection: UserConnection,
+  credentials: unknown
+): Promise<void> {
+  await db
+    .update(userConnections)
+    .set({
+      credentials: encryptCredentials(credentials),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(userConnections.userId, connection.userId),
+        eq(userConnections.provider, connection.provider),
+        eq(userConnections.credentials, connection.credentials)
+      )
+    );
+}
+
+/**
+ * Upsert an account's broker positions into the user's assets. Positions
+ * without a broker cost basis keep the stored average price.
+ */
+export async function upsertBrokerPositions(
+  userId: string,
+  accountId: string,
+  positions: BrokerPosition[]
+): Promise<number> {
+  if (positions.length === 0) return 0;
+
+  // Assets synced before accounts were tracked carry no account (and sync
+  // used to overwrite a manual asset with the same ticker): the first
+  // account to report the position takes them over. The broker's quantity
+  // and average replace a manual opening lot, which would count them twice
+  const held = await db
+    .select({ ticker: assets.ticker, category: assets.category })
+    .from(assets)
+    .where(and(eq(assets.userId, userId), eq(assets.accountId, accountId)));
+  const heldKeys = new Set(held.map((a) => `${a.ticker}:${a.category}`));
+
+  for (const p of positions) {
+    if (heldKeys.has(`${p.ticker}:${p.category}`)) continue;
+    await db
+      .update(assets)
+      .set({ accountId, openingQuantity: "0", openingAveragePrice: "0", updatedAt: new Date() })
+      .where(
+        and(
+          eq(assets.userId, userId),
+          eq(assets.ticker, p.ticker),
+          eq(assets.category, p.category),
+          isNull(assets.accountId)
+        )
+      );
+  }
+
+  const toRow = (p: BrokerPosition): NewAsset => ({
+    userId,
+    accountId,
+    ticker: p.ticker,
+    name: p.name,
+    category: p.category,
+    currency: p.currency,
+    quantity: p.quantity.toString(),
+    averagePrice: (p.averagePrice ?? 0).toString(),
+    currentPrice: p.currentPrice.toString(),
+  });
+
+  const withCost = positions.filter((p) => p.averagePrice !== null).map(toRow);
+  const withoutCost = positions.filter((p) => p.averagePrice === null).map(toRow);
+  const target = [assets.userId, assets.ticker, assets.category, assets.accountId];
+
+  if (withCost.length > 0) {
+    await db
+      .insert(assets)
+      .values(withCost)
+      .onConflictDoUpdate({
+        target,
+        set: {
+          quantity: sql`excluded.quantity`,
+          averagePrice: sql`excluded.average_price`,
+          currentPrice: sql`excluded.current_price`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  if (withoutCost.length > 0) {
+    await db
+      .insert(assets)
+      .values(withoutCost)
+      .onConflictDoUpdate({
+        target,
+        set: {
+          quantity: sql`excluded.quantity`,
+          currentPrice: sql`excluded.current_price`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  return withCost.length + withoutCost.length;
+}
+
+/**
+ * Error response for a broker call. Expired sessions answer 401 with
+ * `expired: true` so the client can prompt a reconnect.
+ */
+export function brokerErrorResponse(
+  adapter: BrokerAdapter,
+  error: unknown,
+  fallback: string
+): NextResponse {
+  if (adapter.isExpiredError(error)) {
+    return NextResponse.json(
+      {
+        success: false,
+        expired: true,
+        error: `Session expired. Please reconnect your ${adapter.label} account.`,
+      },
+      { status: 401 }
+    );
+  }
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+/**
+ * Like brokerErrorResponse, also notifying the user that a sync failed.
+ */
+export async function syncFailureResponse(
+  userId: string,
+  adapter: BrokerAdapter,
+  error: unknown
+): Promise<NextResponse> {
+  const expired = adapter.isExpiredError(error);
+  const message = expired
+    ? "Session expired"
+    : error instanceof Error ? error.message : "Sync failed";
+
+  if (!expired) console.error(`${adapter.label} sync error:`, error);
+  await notifySyncFailure(userId, adapter.provider, message, expired);
+  return brokerErrorResponse(adapter, error, "Sync failed");
+}
@@ -0,0 +1,383 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  HISTORY_START,
+  binanceSymbolsToSync,
+  fetchBinanceHistory,
+  fetchBinanceRewards,
+  fetchIOLHistory,
+  mapBinanceOrderFills,
+  mapBinanceReward,
+  mapBinanceTrade,
+  mapIOLOperation,
+  mapPPIMovement,
+  mapPPIOrderFill,
+  normalizeFlexibleReward,
+  parseBinanceCursor,
+  parseDateCursor,
+  planDateWindows,
+  planRewardWindows,
+} from "./broker-history";
+import type { IOLOperation } from "@/services/iol";
+import type { BinanceOrder, BinanceTrade } from "@/services/binance";
+import type { PPIMovement, PPIOrderDetail } from "@/services/ppi";
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-06-30T12:00:00.000Z");
+
+function iolOp(overrides: Partial<IOLOperation> = {}): IOLOperation {
+  return {
+    numero: 1001,
+    fechaOrden: "2026-03-05T10:00:00",
+    fechaOperada: "2026-03-05T11:30:00",
+    tipo: "Compra",
+    estado: "terminada",
+    mercado: "bCBA",
+    simbolo: "ggal",
+    cantidad: 100,
+    cantidadOperada: 100,
+    precio: 5000,
+    precioOperado: 4990,
+    montoTotal: 500000,
+    montoOperado: 499000,
+    ...overrides,
+  };
+}
+
+function binanceTrade(id: number, overrides: Partial<BinanceTrade> = {}): BinanceTrade {
+  return {
+    symbol: "BTCUSDT",
+    id,
+    orderId: id * 10,
+    price: "65000",
+    qty: "0.001",
+    quoteQty: "65",
+    commission: "0",
+    commissionAsset: "BNB",
+    time: Date.UTC(2026, 2, 5),
+    isBuyer: true,
+    isMaker: false,
+    ...overrides,
+  };
+}
+
+// ===========================================================================
+// Mappers
+// ===========================================================================
+
+describe("mapIOLOperation", () => {
+  it("uses executed quantity, price and date", () => {
+    expect(mapIOLOperation(iolOp())).toMatchObject({
+      externalId: "1001",
+      ticker: "GGAL",
+      type: "buy",
+      quantity: 100,
+      pricePerUnit: 4990,
+      totalAmount: 499000,
+      currency: "ARS",
+      executedAt: new Date("2026-03-05T11:30:00"),
+    });
+  });
+
+  it("skips non-trades and empty fills", () => {
+    expect(mapIOLOperation(iolOp({ tipo: "Pago de Dividendos" }))).toBeNull();
+    expect(mapIOLOperation(iolOp({ cantidad: 0, cantidadOperada: 0 }))).toBeNull();
+  });
+});
+
+describe("mapPPIMovement", () => {
+  it("derives the price from the amount and keys id-less rows by content", () => {
+    const trade = mapPPIMovement({
+      AgreementDate: "2026-04-01T00:00:00",
+      Description: "VENTA AL30",
+      Ticker: "al30",
+      InstrumentType: "BONOS",
+      Quantity: -200,
+      Amount: 120000,
+      Currency: "Pesos",
+    });
+    expect(trade).toMatchObject({
+      externalId: "2026-04-01|AL30|sell|200|600",
+      type: "sell",
+      quantity: 200,
+      pricePerUnit: 600,
+      currency: "ARS",
+      category: "stock",
+    });
+  });
+
+  it("ignores cash movements", () => {
+    expect(
+      mapPPIMovement({ AgreementDate: "2026-04-01", Description: "DIVIDENDO", Amount: 10, Currency: "USD" })
+    ).toBeNull();
+  });
+});
+
+describe("mapPPIOrderFill", () => {
+  const order: PPIOrderDetail = {
+    Id: 3141,
+    Ticker: "ggal",
+    Operation: "COMPRA",
+    Status: "EJECUTADA",
+    Quantity: 10,
+    ExecutedQuantity: 10,
+    Price: 1500,
+    Date: "2026-04-01T11:30:00",
+  };
+  const movement = (overrides: Partial<PPIMovement>): PPIMovement => ({
+    Id: 77,
+    AgreementDate: "2026-04-01T00:00:00",
+    Description: "COMPRA GGAL",
+    Ticker: "GGAL",
+    InstrumentType: "ACCIONES",
+    Quantity: 10,
+    Price: 1500,
+    Amount: -15000,
+    Currency: "Pesos",
+    ...overrides,
+  });
+
+  it("keys the fill like the PPI history sync", () => {
+    const movements = [movement({}), movement({ Id: 78, Description: "VENTA GGAL" })];
+
+    expect(mapPPIOrderFill(order, 10, movements)).toEqual([mapPPIMovement(movements[0])]);
+  });
+
+  it("waits for the history sync when no single movement matches", () => {
+    expect(mapPPIOrderFill(order, 10, [])).toEqual([]);
+    expect(mapPPIOrderFill(order, 10, [movement({ AgreementDate: "2026-03-31" })])).toEqual([]);
+    expect(mapPPIOrderFill(order, 10, [movement({}), movement({ Id: 79 })])).toEqual([]);
+  });
+});
+
+describe("mapBinanceTrade", () => {
+  it("reads the base asset of stablecoin pairs", () => {
+    expect(mapBinanceTrade(binanceTrade(7, { isBuyer: false }))).toMatchObject({
+      externalId: "BTCUSDT:7",
+      ticker: "BTC",
+      type: "sell",
+      quantity: 0.001,
+      pricePerUnit: 65000,
+      totalAmount: 65,
+      currency: "USD",
+      category: "crypto",
+    });
+  });
+
+  it("skips pairs not quoted in USD", () => {
+    expect(mapBinanceTrade(binanceTrade(1, { symbol: "ETHBTC" }))).toBeNull();
+  });
+});
+
+describe("mapBinanceOrderFills", () => {
+  const order: BinanceOrder = {
+    symbol: "ETHUSDT",
+    orderId: 55,
+    clientOrderId: "c1",
+    price: "0",
+    origQty: "1.5",
+    executedQty: "1.5",
+    cummulativeQuoteQty: "4800",
+    status: "FILLED",
+    type: "MARKET",
+    side: "BUY",
+    transactTime: Date.parse("2026-03-05T12:00:00Z"),
+    fills: [
+      { price: "3200", qty: "1", commission: "0", commissionAsset: "BNB", tradeId: 901 },
+      { price: "3200", qty: "0.5", commission: "0", commissionAsset: "BNB", tradeId: 902 },
+    ],
+  };
+
+  it("keys each fill like the myTrades history sync", () => {
+    const trades = mapBinanceOrderFills(order);
+
+    expect(trades.map((t) => t.externalId)).toEqual(["ETHUSDT:901", "ETHUSDT:902"]);
+    expect(trades[1]).toMatchObject({
+      ticker: "ETH",
+      type: "buy",
+      quantity: 0.5,
+      pricePerUnit: 3200,
+      totalAmount: 1600,
+      executedAt: new Date("2026-03-05T12:00:00Z"),
+    });
+  });
+
+  it("returns nothing for orders that have not filled", () => {
+    expect(mapBinanceOrderFills({ ...order, fills: [] })).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// Date-window cursor
+// ===========================================================================
+
+describe("planDateWindows", () => {
+  it("starts with the last year and a first batch of backfill", () => {
+    const { windows, next } = planDateWindows(null, NOW);
+    expect(windows).toHaveLength(5);
+    expect(windows[0].to).toEqual(NOW);
+    // Contiguous, newest first
+    for (let i = 1; i < windows.length; i++) {
+      expect(windows[i].to).toEqual(windows[i - 1].from);
+    }
+    expect(next.syncedThrough).toBe(NOW.toISOString());
+    expect(next.backfilledFrom).toBe(windows[4].from.toISOString());
+    expect(next.complete).toBe(false);
+  });
+
+  it("completes the backfill at HISTORY_START", () => {
+    let cursor = planDateWindows(null, NOW).next;
+    for (let run = 0; run < 10 && !cursor.complete; run++) {
+      cursor = planDateWindows(cursor, NOW).next;
+    }
+    expect(cursor.complete).toBe(true);
+    expect(cursor.backfilledFrom).toBe(HISTORY_START.toISOString());
+  });
+
+  it("only fetches since the last sync once complete", () => {
+    const cursor = {
+      syncedThrough: "2026-06-20T12:00:00.000Z",
+      backfilledFrom: HISTORY_START.toISOString(),
+      complete: true,
+    };
+    const { windows } = planDateWindows(cursor, NOW);
+    expect(windows).toEqual([{ from: new Date("2026-06-17T12:00:00.000Z"), to: NOW }]);
+  });
+
+  it("rejects cursors of another shape", () => {
+    expect(parseDateCursor({ fromIds: {} })).toBeNull();
+    expect(parseDateCursor(null)).toBeNull();
+  });
+});
+
+describe("fetchIOLHistory", () => {
+  it("dedupes operations returned by overlapping windows", async () => {
+    const getOperations = vi.fn().mockResolvedValue([iolOp(), iolOp({ tipo: "Suscripcion FCI" })]);
+    const page = await fetchIOLHistory({ getOperations }, null, NOW);
+
+    expect(getOperations).toHaveBeenCalledTimes(5);
+    expect(getOperations.mock.calls[0][0]).toBe("terminadas");
+    expect(page.trades).toHaveLength(1);
+    expect(page.hasMore).toBe(true);
+  });
+});
+
+// ===========================================================================
+// Binance trade-id cursor
+// ===========================================================================
+
+describe("binanceSymbolsToSync", () => {
+  it("pairs held assets with listed stablecoin quotes and keeps cursor symbols", () => {
+    const listed = new Set(["BTCUSDT", "BTCFDUSD", "ETHUSDT"]);
+    expect(
+      binanceSymbolsToSync(["BTC", "USDT", "eth"], listed, { fromIds: { SOLUSDT: 42 } })
+    ).toEqual(["BTCFDUSD", "BTCUSDT", "ETHUSDT", "SOLUSDT"]);
+  });
+});
+
+describe("fetchBinanceHistory", () => {
+  it("pages each symbol from its cursor id", async () => {
+    const full = Array.from({ length: 1000 }, (_, i) => binanceTrade(i));
+    const getMyTrades = vi
+      .fn()
+      .mockResolvedValueOnce(full)
+      .mockResolvedValueOnce([binanceTrade(1000)])
+      .mockResolvedValueOnce([]);
+
+    const page = await fetchBinanceHistory({ getMyTrades }, ["BTCUSDT", "ETHUSDT"], {
+      fromIds: { ETHUSDT: 5 },
+    });
+
+    expect(getMyTrades.mock.calls.map((c) => [c[0], c[1]])).toEqual([
+      ["BTCUSDT", 0],
+      ["BTCUSDT", 1000],
+      ["ETHUSDT", 5],
+    ]);
+    expect(page.trades).toHaveLength(1001);
+    expect(page.cursor.fromIds).toEqual({ BTCUSDT: 1001, ETHUSDT: 5 });
+    expect(page.hasMore).toBe(false);
+  });
+});
+
+describe("parseBinanceCursor", () => {
+  it("keeps the rewards position alongside the trade ids", () => {
+    expect(
+      parseBinanceCursor({ fromIds: { BTCUSDT: 3 }, rewardsSyncedThrough: "2026-06-01T00:00:00.000Z" })
+    ).toEqual({ fromIds: { BTCUSDT: 3 }, rewardsSyncedThrough: "2026-06-01T00:00:00.000Z" });
+    expect(parseBinanceCursor({ fromIds: {}, rewardsSyncedThrough: 5 })).toEqual({ fromIds: {} });
+  });
+});
+
+describe("mapBinanceReward", () => {
+  const reward = normalizeFlexibleReward({
+    asset: "eth",
+    rewards: "0.0125",
+    projectId: "ETH001",
+    type: "REALTIME",
+    time: Date.parse("2026-06-01T08:00:00Z"),
+  });
+
+  it("records the reward as income valued at the given price", () => {
+    expect(mapBinanceReward(reward, 3_000)).toMatchObject({
+      externalId: `earn:REALTIME:ETH001:ETH:${reward.time}`,
+      ticker: "ETH",
+      type: "income",
+      quantity: 0.0125,
+      pricePerUnit: 3_000,
+      totalAmount: 37.5,
+    });
+  });
+
+  it("keeps unpriced rewards at zero cost and drops empty ones", () => {
+    expect(mapBinanceReward(reward, 0)).toMatchObject({ quantity: 0.0125, pricePerUnit: 0 });
+    expect(mapBinanceReward({ ...reward, amount: 0 }, 3_000)).toBeNull();
+  });
+});
+
+describe("planRewardWindows", () => {
+  it("covers the lookback in 3-month windows on the first run", () => {
+    const windows = planRewardWindows(undefined, NOW);
+    expect(windows).toHaveLength(2);
+    expect(windows[1].to).toEqual(NOW);
+    expect(NOW.getTime() - windows[0].from.getTime()).toBe(180 * 24 * 60 * 60 * 1000);
+  });
+
+  it("resumes a little before the last run", () => {
+    const windows = planRewardWindows("2026-06-20T12:00:00.000Z", NOW);
+    expect(windows).toEqual([{ from: new Date("2026-06-17T12:00:00.000Z"), to: NOW }]);
+  });
+});
+
+describe("fetchBinanceRewards", () => {
+  it("values rewards at their day's close and skips stablecoin rewards", async () => {
+    const day = Date.parse("2026-06-25T10:00:00Z");
+    const getFlexibleRewards = vi.fn(async (type: string) =>
+      type === "REALTIME"
+        ? [
+            { asset: "BNB", rewards: "0.5", projectId: "BNB001", type, time: day },
+            { asset: "USDT", rewards: "1.2", projectId: "USDT001", type, time: day },
+          ]
+        : []
+    );
+    const getLockedRewards = vi.fn().mockResolvedValue([
+      { positionId: 9, asset: "DOT", amount: "2", lockPeriod: "60", time: day },
+    ]);
+    const getDailyCloses = vi.fn().mockResolvedValue(new Map([["2026-06-25", 600]]));
+
+    const result = await fetchBinanceRewards(
+      { getFlexibleRewards, getLockedRewards, getDailyCloses },
+      { fromIds: {}, rewardsSyncedThrough: "2026-06-28T00:00:00.000Z" },
+      new Set(["BNBUSDT"]),
+      NOW
+    );
+
+    expect(getFlexibleRewards).toHaveBeenCalledTimes(3);
+    expect(getDailyCloses).toHaveBeenCalledOnce();
+    expect(getDailyCloses.mock.calls[0][0]).toBe("BNBUSDT");
+    expect(result.trades).toEqual([
+      expect.objectContaining({ ticker: "BNB", pricePerUnit: 600, totalAmount: 300 }),
+      expect.objectContaining({ ticker: "DOT", pricePerUnit: 0, externalId: `earn:LOCKED:9:${day}` }),
+    ]);
+    expect(result.syncedThrough).toBe(NOW.toISOString());
+  });
+});
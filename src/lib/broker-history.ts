@@ -0,0 +1,565 @@
+import type { IOLClient, IOLOperation } from "@/services/iol";
+import type { PPIClient, PPIMovement, PPIOrderDetail } from "@/services/ppi";
+import type {
+  BinanceClient,
+  BinanceFlexibleReward,
+  BinanceFlexibleRewardType,
+  BinanceLockedReward,
+  BinanceOrder,
+  BinanceTrade,
+} from "@/services/binance";
+import {
+  mapOperationType,
+  mapPPICategory,
+  mapPPICurrency,
+  inferCategoryFromMarket,
+  inferCurrencyFromMarket,
+} from "@/services/shared/mappers";
+import type { AssetCategory, Currency, LedgerEntryType } from "./constants";
+
+/**
+ * Broker trade history: normalizes IOL operations, PPI movements, Binance
+ * trades and Binance Earn rewards into one shape, and plans which pages to
+ * fetch from a per-connection cursor. The first sync pages back through the whole account history a few
+ * windows per run; once complete, runs only fetch what is new.
+ *
+ * Persistence lives in src/lib/broker-ingest.ts.
+ */
+
+// ── Normalized trade ────────────────────────────────────────────────────────
+
+export interface ExternalTrade {
+  /** Broker id, unique per user + source */
+  externalId: string;
+  ticker: string;
+  category: AssetCategory;
+  type: LedgerEntryType;
+  quantity: number;
+  pricePerUnit: number;
+  totalAmount: number;
+  currency: Currency;
+  executedAt: Date;
+}
+
+export interface HistoryPage<C> {
+  trades: ExternalTrade[];
+  cursor: C;
+  /** More history is left for the next run */
+  hasMore: boolean;
+}
+
+/**
+ * Map a completed IOL operation. Returns null for non-trades
+ * (dividends, coupons, subscriptions) and empty fills.
+ */
+export function mapIOLOperation(op: IOLOperation): ExternalTrade | null {
+  const type = mapOperationType(op.tipo);
+  if (!type || !op.simbolo) return null;
+
+  const quantity = op.cantidadOperada || op.cantidad;
+  const pricePerUnit = op.precioOperado || op.precio || 0;
+  if (!(quantity > 0) || !(pricePerUnit > 0)) return null;
+
+  return {
+    externalId: String(op.numero),
+    ticker: op.simbolo.toUpperCase(),
+    category: inferCategoryFromMarket(op.mercado),
+    type,
+    quantity,
+    pricePerUnit,
+    totalAmount: op.montoOperado || op.montoTotal || quantity * pricePerUnit,
+    currency: inferCurrencyFromMarket(op.mercado),
+    executedAt: new Date(op.fechaOperada || op.fechaOrden),
+  };
+}
+
+/**
+ * Map a PPI account movement. Only buys and sells with a ticker are trades.
+ * Movements without an id get a key built from their content, which is
+ * stable across re-fetches of the same window.
+ */
+export function mapPPIMovement(m: PPIMovement): ExternalTrade | null {
+  const type = mapOperationType(m.MovementType || m.Description);
+  if (!type || !m.Ticker) return null;
+
+  const quantity = Math.abs(m.Quantity ?? 0);
+  const totalAmount = Math.abs(m.Amount ?? 0);
+  const pricePerUnit = m.Price || (quantity > 0 ? totalAmount / quantity : 0);
+  if (!(quantity > 0) || !(pricePerUnit > 0)) return null;
+
+  const ticker = m.Ticker.toUpperCase();
+  const day = m.AgreementDate.slice(0, 10);
+
+  return {
+    externalId:
+      m.Id != null && m.Id !== ""
+        ? String(m.Id)
+        : `${day}|${ticker}|${type}|${quantity}|${pricePerUnit}`,
+    ticker,
+    category: mapPPICategory(m.InstrumentType ?? ""),
+    type,
+    quantity,
+    pricePerUnit,
+    totalAmount: totalAmount || quantity * pricePerUnit,
+    currency: mapPPICurrency(m.Currency),
+    executedAt: new Date(m.AgreementDate),
+  };
+}
+
+/**
+ * Find the movement a filled PPI order settled as: same ticker, side and
+ * filled quantity, agreed on or after the order date. It is mapped by
+ * mapPPIMovement, so the history sync skips it later. Returns nothing until
+ * PPI lists a single such movement; the history sync records it then.
+ */
+export function mapPPIOrderFill(
+  order: PPIOrderDetail,
+  filledQuantity: number,
+  movements: PPIMovement[]
+): ExternalTrade[] {
+  const type = mapOperationType(order.Operation);
+  const ticker = order.Ticker.toUpperCase();
+  const since = order.Date.slice(0, 10);
+
+  const matches = movements
+    .filter((m) => m.AgreementDate.slice(0, 10) >= since)
+    .map(mapPPIMovement)
+    .filter(
+      (t): t is ExternalTrade =>
+        t !== null && t.ticker === ticker && t.type === type && t.quantity === filledQuantity
+    );
+  return matches.length === 1 ? matches : [];
+}
+
+/** Quote assets treated as USD when reading Binance pairs */
+export const BINANCE_QUOTE_ASSETS = ["USDT", "USDC", "FDUSD"] as const;
+
+/**
+ * Map a Binance spot fill. Only pairs quoted in a USD stablecoin are
+ * ingested, so the price is already in USD.
+ */
+export function mapBinanceTrade(trade: BinanceTrade): ExternalTrade | null {
+  const quote = BINANCE_QUOTE_ASSETS.find((q) => trade.symbol.endsWith(q));
+  const base = quote ? trade.symbol.slice(0, -quote.length) : "";
+  if (!base) return null;
+
+  const quantity = Number(trade.qty);
+  const pricePerUnit = Number(trade.price);
+  if (!(quantity > 0) || !(pricePerUnit > 0)) return null;
+
+  return {
+    externalId: `${trade.symbol}:${trade.id}`,
+    ticker: base,
+    category: "crypto",
+    type: trade.isBuyer ? "buy" : "sell",
+    quantity,
+    pricePerUnit,
+    totalAmount: Number(trade.quoteQty) || quantity * pricePerUnit,
+    currency: "USD",
+    executedAt: new Date(trade.time),
+  };
+}
+
+/**
+ * Map the fills returned with a just-placed Binance order. They carry the
+ * same trade ids `myTrades` reports, so the history sync skips them later.
+ */
+export function mapBinanceOrderFills(order: BinanceOrder): ExternalTrade[] {
+  return (order.fills ?? [])
+    .map((fill) =>
+      mapBinanceTrade({
+        symbol: order.symbol,
+        id: fill.tradeId,
+        orderId: order.orderId,
+        price: fill.price,
+        qty: fill.qty,
+        quoteQty: String(Number(fill.price) * Number(fill.qty)),
+        commission: fill.commission,
+        commissionAsset: fill.commissionAsset,
+        time: order.transactTime ?? Date.now(),
+        isBuyer: order.side === "BUY",
+        isMaker: false,
+      })
+    )
+    .filter((t): t is ExternalTrade => t !== null);
+}
+
+// ── Date-window cursor (IOL, PPI) ───────────────────────────────────────────
+
+export interface DateSyncCursor {
+  /** End of the last fetched window; the next run starts a little before */
+  syncedThrough: string;
+  /** Oldest date the history backfill has reached */
+  backfilledFrom: string;
+  /** Backfill reached HISTORY_START */
+  complete: boolean;
+}
+
+export interface DateWindow {
+  from: Date;
+  to: Date;
+}
+
+/** Oldest date the backfill pages back to */
+export const HISTORY_START = new Date("2010-01-01T00:00:00.000Z");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_DAYS = 365;
+const BACKFILL_WINDOWS_PER_RUN = 4;
+/** Re-read a few days so late-settled operations are not missed */
+const OVERLAP_DAYS = 3;
+
+/**
+ * Read a stored cursor, discarding anything that doesn't look like one
+ * (e.g. a cursor written by another provider's sync).
+ */
+export function parseDateCursor(raw: unknown): DateSyncCursor | null {
+  if (!raw || typeof raw !== "object") return null;
+  const c = raw as Record<string, unknown>;
+  if (
+    typeof c.syncedThrough !== "string" ||
+    typeof c.backfilledFrom !== "string" ||
+    typeof c.complete !== "boolean"
+  ) {
+    return null;
+  }
+  return {
+    syncedThrough: c.syncedThrough,
+    backfilledFrom: c.backfilledFrom,
+    complete: c.complete,
+  };
+}
+
+/**
+ * Plan the windows for one run: everything since the last sync (split into
+ * year-long windows), then up to BACKFILL_WINDOWS_PER_RUN older windows
+ * while the backfill is incomplete. `next` is the cursor to store once all
+ * windows were ingested.
+ */
+export function planDateWindows(
+  cursor: DateSyncCursor | null,
+  now: Date
+): { windows: DateWindow[]; next: DateSyncCursor } {
+  const recentFrom = cursor
+    ? new Date(new Date(cursor.syncedThrough).getTime() - OVERLAP_DAYS * DAY_MS)
+    : new Date(now.getTime() - WINDOW_DAYS * DAY_MS);
+
+  const windows: DateWindow[] = [];
+  for (let to = now; to > recentFrom; ) {
+    const from = new Date(Math.max(to.getTime() - WINDOW_DAYS * DAY_MS, recentFrom.getTime()));
+    windows.push({ from, to });
+    to = from;
+  }
+
+  let backfilledFrom = cursor ? new Date(cursor.backfilledFrom) : recentFrom;
+  let complete = cursor?.complete ?? false;
+
+  for (let i = 0; !complete && i < BACKFILL_WINDOWS_PER_RUN; i++) {
+    if (backfilledFrom <= HISTORY_START) {
+      complete = true;
+      break;
+    }
+    const from = new Date(
+      Math.max(backfilledFrom.getTime() - WINDOW_DAYS * DAY_MS, HISTORY_START.getTime())
+    );
+    windows.push({ from, to: backfilledFrom });
+    backfilledFrom = from;
+  }
+  if (backfilledFrom <= HISTORY_START) complete = true;
+
+  return {
+    windows,
+    next: {
+      syncedThrough: now.toISOString(),
+      backfilledFrom: backfilledFrom.toISOString(),
+      complete,
+    },
+  };
+}
+
+/** Keep the first trade seen for each external id (windows overlap) */
+function dedupeTrades(trades: ExternalTrade[]): ExternalTrade[] {
+  const byId = new Map<string, ExternalTrade>();
+  for (const t of trades) {
+    if (!byId.has(t.externalId)) byId.set(t.externalId, t);
+  }
+  return [...byId.values()];
+}
+
+async function fetchDateWindows<T>(
+  cursor: DateSyncCursor | null,
+  now: Date,
+  fetchWindow: (w: DateWindow) => Promise<T[]>,
+  map: (item: T) => ExternalTrade | null
+): Promise<HistoryPage<DateSyncCursor>> {
+  const { windows, next } = planDateWindows(cursor, now);
+  const trades: ExternalTrade[] = [];
+
+  // Sequential: brokers rate-limit bursts of history requests
+  for (const window of windows) {
+    for (const item of await fetchWindow(window)) {
+      const trade = map(item);
+      if (trade) trades.push(trade);
+    }
+  }
+
+  return { trades: dedupeTrades(trades), cursor: next, hasMore: !next.complete };
+}
+
+/**
+ * Fetch the next slice of completed IOL operations.
+ */
+export function fetchIOLHistory(
+  client: Pick<IOLClient, "getOperations">,
+  cursor: DateSyncCursor | null,
+  now = new Date()
+): Promise<HistoryPage<DateSyncCursor>> {
+  return fetchDateWindows(
+    cursor,
+    now,
+    (w) => client.getOperations("terminadas", w.from, w.to),
+    mapIOLOperation
+  );
+}
+
+/**
+ * Fetch the next slice of PPI movements (trades only).
+ */
+export async function fetchPPIHistory(
+  client: Pick<PPIClient, "getMovements" | "getAccountNumber">,
+  cursor: DateSyncCursor | null,
+  now = new Date()
+): Promise<HistoryPage<DateSyncCursor>> {
+  const accountNumber = await client.getAccountNumber();
+  return fetchDateWindows(
+    cursor,
+    now,
+    (w) => client.getMovements(w.from, w.to, accountNumber),
+    mapPPIMovement
+  );
+}
+
+// ── Trade-id cursor (Binance) ───────────────────────────────────────────────
+
+export interface BinanceSyncCursor {
+  /** Next trade id to request, per symbol */
+  fromIds: Record<string, number>;
+  /** End of the last Earn rewards window read */
+  rewardsSyncedThrough?: string;
+}
+
+const BINANCE_PAGE_SIZE = 1000;
+/** myTrades weighs 20; stay well under the 6000/min budget */
+const BINANCE_REQUESTS_PER_RUN = 40;
+
+export function parseBinanceCursor(raw: unknown): BinanceSyncCursor | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { fromIds, rewardsSyncedThrough } = raw as Record<string, unknown>;
+  if (!fromIds || typeof fromIds !== "object") return null;
+  return {
+    fromIds: Object.fromEntries(
+      Object.entries(fromIds).filter(([, v]) => typeof v === "number")
+    ) as Record<string, number>,
+    ...(typeof rewardsSyncedThrough === "string" && { rewardsSyncedThrough }),
+  };
+}
+
+/**
+ * Pairs to read trades for. Binance only lists trades per symbol, so this
+ * is every stablecoin pair of a held or previously traded asset, plus any
+ * symbol already in the cursor (covers fully sold positions).
+ */
+export function binanceSymbolsToSync(
+  baseAssets: string[],
+  listedSymbols: Set<string>,
+  cursor: BinanceSyncCursor | null
+): string[] {
+  const quotes: readonly string[] = BINANCE_QUOTE_ASSETS;
+  const symbols = new Set(Object.keys(cursor?.fromIds ?? {}));
+
+  for (const raw of baseAssets) {
+    const base = raw.toUpperCase();
+    if (quotes.includes(base)) continue;
+    for (const quote of quotes) {
+      if (listedSymbols.has(base + quote)) symbols.add(base + quote);
+    }
+  }
+
+  return [...symbols].sort();
+}
+
+/**
+ * Fetch the next pages of Binance spot trades. Each symbol is paged from
+ * its cursor id until exhausted or the per-run request budget runs out.
+ */
+export async function fetchBinanceHistory(
+  client: Pick<BinanceClient, "getMyTrades">,
+  symbols: string[],
+  cursor: BinanceSyncCursor | null
+): Promise<HistoryPage<BinanceSyncCursor>> {
+  const fromIds = { ...(cursor?.fromIds ?? {}) };
+  const trades: ExternalTrade[] = [];
+  let requests = 0;
+  let hasMore = false;
+
+  for (const symbol of symbols) {
+    let exhausted = false;
+
+    while (!exhausted) {
+      if (requests >= BINANCE_REQUESTS_PER_RUN) {
+        hasMore = true;
+        break;
+      }
+      const page = await client.getMyTrades(symbol, fromIds[symbol] ?? 0, BINANCE_PAGE_SIZE);
+      requests++;
+
+      for (const raw of page) {
+        const trade = mapBinanceTrade(raw);
+        if (trade) trades.push(trade);
+      }
+      if (page.length > 0) {
+        fromIds[symbol] = page[page.length - 1].id + 1;
+      } else if (!(symbol in fromIds)) {
+        fromIds[symbol] = 0;
+      }
+      exhausted = page.length < BINANCE_PAGE_SIZE;
+    }
+
+    if (hasMore) break;
+  }
+
+  return { trades: dedupeTrades(trades), cursor: { ...cursor, fromIds }, hasMore };
+}
+
+// ── Earn rewards (Binance) ──────────────────────────────────────────────────
+
+/** Flexible and locked Earn reward, normalized */
+export interface BinanceEarnReward {
+  /** Unique per user; prefixed so it never collides with a trade id */
+  externalId: string;
+  asset: string;
+  amount: number;
+  /** ms epoch */
+  time: number;
+}
+
+const FLEXIBLE_REWARD_TYPES: BinanceFlexibleRewardType[] = ["BONUS", "REALTIME", "REWARDS"];
+/** Binance caps each rewards query at 3 months */
+const REWARD_WINDOW_DAYS = 90;
+/** How far back the first run reads; Binance only serves recent Earn history */
+const REWARD_LOOKBACK_DAYS = 180;
+
+export function normalizeFlexibleReward(r: BinanceFlexibleReward): BinanceEarnReward {
+  const asset = r.asset.toUpperCase();
+  return {
+    externalId: `earn:${r.type}:${r.projectId}:${asset}:${r.time}`,
+    asset,
+    amount: Number(r.rewards),
+    time: r.time,
+  };
+}
+
+export function normalizeLockedReward(r: BinanceLockedReward): BinanceEarnReward {
+  return {
+    externalId: `earn:LOCKED:${r.positionId}:${r.time}`,
+    asset: r.asset.toUpperCase(),
+    amount: Number(r.amount),
+    time: r.time,
+  };
+}
+
+/**
+ * Map an Earn reward to an income entry valued at `pricePerUnit`, which
+ * opens a lot at that cost. Rewards that could not be priced keep a zero
+ * cost rather than being dropped, so held quantities still add up.
+ */
+export function mapBinanceReward(
+  reward: BinanceEarnReward,
+  pricePerUnit: number
+): ExternalTrade | null {
+  if (!(reward.amount > 0)) return null;
+  const price = pricePerUnit > 0 ? pricePerUnit : 0;
+
+  return {
+    externalId: reward.externalId,
+    ticker: reward.asset,
+    category: "crypto",
+    type: "income",
+    quantity: reward.amount,
+    pricePerUnit: price,
+    totalAmount: reward.amount * price,
+    currency: "USD",
+    executedAt: new Date(reward.time),
+  };
+}
+
+/**
+ * Windows for one rewards run: from a little before the last one (or the
+ * lookback on the first run) up to now, each at most REWARD_WINDOW_DAYS.
+ */
+export function planRewardWindows(
+  syncedThrough: string | undefined,
+  now: Date
+): DateWindow[] {
+  const start = syncedThrough
+    ? new Date(syncedThrough).getTime() - OVERLAP_DAYS * DAY_MS
+    : now.getTime() - REWARD_LOOKBACK_DAYS * DAY_MS;
+
+  const windows: DateWindow[] = [];
+  for (let from = start; from < now.getTime(); from += REWARD_WINDOW_DAYS * DAY_MS) {
+    windows.push({
+      from: new Date(from),
+      to: new Date(Math.min(from + REWARD_WINDOW_DAYS * DAY_MS, now.getTime())),
+    });
+  }
+  return windows;
+}
+
+/**
+ * Fetch Earn rewards since the cursor as income entries. Each reward is
+ * valued at the daily close of its asset's USDT pair; rewards paid in the
+ * quote stablecoins are cash, which the ledger does not track.
+ */
+export async function fetchBinanceRewards(
+  client: Pick<BinanceClient, "getFlexibleRewards" | "getLockedRewards" | "getDailyCloses">,
+  cursor: BinanceSyncCursor | null,
+  listedSymbols: Set<string>,
+  now = new Date()
+): Promise<{ trades: ExternalTrade[]; syncedThrough: string }> {
+  const quotes: readonly string[] = BINANCE_QUOTE_ASSETS;
+  const rewards: BinanceEarnReward[] = [];
+
+  // Sequential, like the trade history: the Earn endpoints are heavy
+  for (const w of planRewardWindows(cursor?.rewardsSyncedThrough, now)) {
+    const [start, end] = [w.from.getTime(), w.to.getTime()];
+    for (const type of FLEXIBLE_REWARD_TYPES) {
+      for (const r of await client.getFlexibleRewards(type, start, end)) {
+        rewards.push(normalizeFlexibleReward(r));
+      }
+    }
+    for (const r of await client.getLockedRewards(start, end)) {
+      rewards.push(normalizeLockedReward(r));
+    }
+  }
+
+  const held = rewards.filter((r) => !quotes.includes(r.asset));
+
+  // One klines request per asset, covering all of its rewards
+  const closes = new Map<string, Map<string, number>>();
+  for (const asset of new Set(held.map((r) => r.asset))) {
+    const symbol = `${asset}USDT`;
+    if (!listedSymbols.has(symbol)) continue;
+    const times = held.filter((r) => r.asset === asset).map((r) => r.time);
+    const from = Math.floor(Math.min(...times) / DAY_MS) * DAY_MS;
+    closes.set(asset, await client.getDailyCloses(symbol, from, Math.max(...times)));
+  }
+
+  const trades = held
+    .map((r) => {
+      const day = new Date(r.time).toISOString().slice(0, 10);
+      return mapBinanceReward(r, closes.get(r.asset)?.get(day) ?? 0);
+    })
+    .filter((t): t is ExternalTrade => t !== null);
+
+  return { trades: dedupeTrades(trades), syncedThrough: now.toISOString() };
+}
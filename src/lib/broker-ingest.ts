@@ -0,0 +1,179 @@
+import { db } from "@/db";
+import { assets, transactions, userConnections, type Asset } from "@/db/schema";
+import { eq, and, isNotNull, isNull, or } from "drizzle-orm";
+import { getCostBasisMethod, rebuildAssetLedger } from "./ledger";
+import { importedPosition } from "./transaction-import";
+import type { ExternalTrade } from "./broker-history";
+import type { TransactionSource } from "./constants";
+
+/**
+ * Server-side persistence for broker trade history.
+ *
+ * Trades are keyed by (user, source, external id), so re-fetching an
+ * overlapping window is harmless. Positions stay broker-owned: only lots
+ * and realized gains are rebuilt for the touched assets.
+ */
+
+const INSERT_CHUNK = 500;
+
+/** Trades land on the asset with the same ticker and category */
+function assetKey(asset: { ticker: string; category: string }): string {
+  return `${asset.ticker}:${asset.category}`;
+}
+
+export interface IngestResult {
+  created: number;
+  skipped: number;
+}
+
+/**
+ * Insert the trades not yet recorded, creating missing assets, and rebuild
+ * the ledger of every asset that received new history.
+ *
+ * Trades go to the assets of `accountId` (the connection they came from).
+ * An asset without an account (recorded manually or before accounts were
+ * tracked) is taken over by it, its opening lot shrunk by the adopted
+ * history as an import would (see importedPosition).
+ */
+export async function ingestExternalTrades(
+  userId: string,
+  source: TransactionSource,
+  trades: ExternalTrade[],
+  accountId: string | null = null
+): Promise<IngestResult> {
+  if (trades.length === 0) return { created: 0, skipped: 0 };
+
+  const recorded = await db
+    .select({ externalId: transactions.externalId })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        eq(transactions.source, source),
+        isNotNull(transactions.externalId)
+      )
+    );
+  const seen = new Set(recorded.map((r) => r.externalId));
+  const fresh = trades.filter((t) => !seen.has(t.externalId));
+
+  if (fresh.length === 0) return { created: 0, skipped: trades.length };
+
+  const created = await db.transaction(async (tx) => {
+    const userAssets = await tx.query.assets.findMany({
+      where: and(
+        eq(assets.userId, userId),
+        accountId
+          ? or(eq(assets.accountId, accountId), isNull(assets.accountId))
+          : isNull(assets.accountId)
+      ),
+    });
+    // The account's own assets win over unassigned ones
+    userAssets.sort((a, b) => Number(b.accountId !== null) - Number(a.accountId !== null));
+    const assetByKey = new Map<string, Asset>();
+    for (const asset of userAssets) {
+      if (!assetByKey.has(assetKey(asset))) assetByKey.set(assetKey(asset), asset);
+    }
+
+    for (const trade of fresh) {
+      const key = assetKey(trade);
+      const existing = assetByKey.get(key);
+      if (existing && existing.accountId === accountId) continue;
+
+      if (existing) {
+        // Its opening lot already counts the holding this history built
+        const { openingQuantity, openingAveragePrice } = importedPosition(
+          {
+            accountId: existing.accountId,
+            openingQuantity: Number(existing.openingQuantity),
+            openingAveragePrice: Number(existing.openingAveragePrice),
+          },
+          fresh.filter((t) => assetKey(t) === key)
+        );
+        const [adopted] = await tx
+          .update(assets)
+          .set({
+            accountId,
+            openingQuantity: openingQuantity.toString(),
+            openingAveragePrice: openingAveragePrice.toString(),
+            updatedAt: new Date(),
+          })
+          .where(eq(assets.id, existing.id))
+          .returning();
+        assetByKey.set(key, adopted);
+        continue;
+      }
+
+      const [asset] = await tx
+        .insert(assets)
+        .values({
+          userId,
+          accountId,
+          ticker: trade.ticker,
+          name: trade.ticker, // Trade history has no instrument names
+          category: trade.category,
+          currency: trade.currency,
+          currentPrice: trade.pricePerUnit.toString(),
+        })
+        .returning();
+      assetByKey.set(key, asset);
+    }
+
+    let inserted = 0;
+    const touched = new Set<string>();
+
+    for (let i = 0; i < fresh.length; i += INSERT_CHUNK) {
+      const rows = await tx
+        .insert(transactions)
+        .values(
+          fresh.slice(i, i + INSERT_CHUNK).map((trade) => ({
+            userId,
+            assetId: assetByKey.get(assetKey(trade))!.id,
+            type: trade.type,
+            quantity: trade.quantity.toString(),
+            pricePerUnit: trade.pricePerUnit.toString(),
+            totalAmount: trade.totalAmount.toString(),
+            currency: trade.currency,
+            executedAt: trade.executedAt,
+            source,
+            externalId: trade.externalId,
+            accountId,
+          }))
+        )
+        .onConflictDoNothing({
+          target: [transactions.userId, transactions.source, transactions.externalId],
+        })
+        .returning({ assetId: transactions.assetId });
+
+      inserted += rows.length;
+      for (const row of rows) touched.add(row.assetId);
+    }
+
+    const method = await getCostBasisMethod(tx, userId);
+    for (const asset of assetByKey.values()) {
+      if (touched.has(asset.id)) {
+        await rebuildAssetLedger(tx, asset, method, { updatePosition: false });
+      }
+    }
+
+    return inserted;
+  });
+
+  return { created, skipped: trades.length - created };
+}
+
+/**
+ * Store the connection's history cursor after a successful run. The shape
+ * is the adapter's own (see BrokerOperationsPage.cursor).
+ */
+export async function saveSyncCursor(
+  connectionId: string,
+  cursor: object
+): Promise<void> {
+  await db
+    .update(userConnections)
+    .set({
+      syncCursor: { ...cursor },
+      transactionsSyncedAt: new Date(),
+    })
+    .where(eq(userConnections.id, connectionId));
+}
@@ -0,0 +1,367 @@
+import { db } from "@/db";
+import {
+  conditionalOrders,
+  tickerPriceCache,
+  tradeAuditLog,
+  userConnections,
+  userPortfolioSettings,
+  type ConditionalOrder,
+  type TickerPrice,
+  type UserConnection,
+} from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { IOLClient, IOLTokenExpiredError } from "@/services/iol";
+import type { IOLOrderRequest, IOLSettlement, IOLToken } from "@/services/iol";
+import { findBrokerConnection } from "./broker-connections";
+import { decryptCredentials, encryptCredentials } from "./crypto";
+import {
+  cachedTriggerPrice,
+  describeConditionalOrder,
+  evaluateConditionalOrder,
+} from "./conditional-orders";
+import { notify, notifySyncFailure } from "./notifications";
+import { sendEmail } from "./email";
+import { trackPlacedOrder } from "./order-tracker";
+
+/**
+ * Scheduled evaluator for conditional orders on IOL.
+ *
+ * Each run loads the active rules, prices every listing once (a fresh
+ * ticker_price_cache row quoting the rule's market, else an IOL quote),
+ * moves trailing watermarks and places the order for every rule that fires.
+ * A rule is checked and fired through the IOL account it was set on.
+ * Firing is recorded in trade_audit_log like a manual trade, then surfaced
+ * as an "order" notification and a confirmation email.
+ *
+ * A rule is claimed (active -> triggered) before its order is sent, so two
+ * overlapping runs can't place it twice. Any failure after the claim settles
+ * it: back to active when the IOL session expired (it fires once the user
+ * reconnects), otherwise to failed with the error recorded.
+ */
+
+/** Marks conditional-order rows in trade_audit_log.ip */
+const AUDIT_SOURCE = "conditional-order";
+
+export interface ConditionalOrderRunSummary {
+  disabled: boolean;
+  evaluated: number;
+  triggered: number;
+  failed: number;
+  skippedUsers: number;
+}
+
+/** Global kill switch, set in the deployment environment */
+export function conditionalOrdersDisabled(): boolean {
+  return process.env.CONDITIONAL_ORDERS_DISABLED === "true";
+}
+
+export async function runConditionalOrders(): Promise<ConditionalOrderRunSummary> {
+  const summary: ConditionalOrderRunSummary = {
+    disabled: conditionalOrdersDisabled(),
+    evaluated: 0,
+    triggered: 0,
+    failed: 0,
+    skippedUsers: 0,
+  };
+  if (summary.disabled) return summary;
+
+  const active = await db
+    .select()
+    .from(conditionalOrders)
+    .where(eq(conditionalOrders.status, "active"));
+  if (active.length === 0) return summary;
+
+  const byUser = new Map<string, ConditionalOrder[]>();
+  for (const order of active) {
+    const list = byUser.get(order.userId) ?? [];
+    list.push(order);
+    byUser.set(order.userId, list);
+  }
+
+  const userIds = [...byUser.keys()];
+  const [settings, cached] = await Promise.all([
+    db
+      .select({
+        userId: userPortfolioSettings.userId,
+        enabled: userPortfolioSettings.conditionalOrdersEnabled,
+      })
+      .from(userPortfolioSettings)
+      .where(inArray(userPortfolioSettings.userId, userIds)),
+    db
+      .select()
+      .from(tickerPriceCache)
+      .where(inArray(tickerPriceCache.ticker, [...new Set(active.map((o) => o.simbolo))])),
+  ]);
+
+  const disabledUsers = new Set(settings.filter((s) => !s.enabled).map((s) => s.userId));
+  const cachedRows = new Map(cached.map((row) => [row.ticker, row]));
+  // Prices by market and symbol: the same ticker trades at other prices elsewhere
+  const prices = new Map<string, number>();
+
+  for (const [userId, orders] of byUser) {
+    if (disabledUsers.has(userId)) {
+      summary.skippedUsers++;
+      continue;
+    }
+
+    // Each rule fires through the account holding its position
+    const byAccount = new Map<string | null, ConditionalOrder[]>();
+    for (const order of orders) {
+      const list = byAccount.get(order.accountId) ?? [];
+      list.push(order);
+      byAccount.set(order.accountId, list);
+    }
+
+    let connected = false;
+    for (const [accountId, accountOrders] of byAccount) {
+      const connection = await findBrokerConnection(userId, "iol", accountId);
+      if (!connection) continue;
+      connected = true;
+      await runAccountOrders(connection, accountOrders, cachedRows, prices, summary);
+    }
+    if (!connected) summary.skippedUsers++;
+  }
+
+  return summary;
+}
+
+/** Evaluate one account's rules through a single IOL session */
+async function runAccountOrders(
+  connection: UserConnection,
+  orders: ConditionalOrder[],
+  cachedRows: Map<string, TickerPrice>,
+  prices: Map<string, number>,
+  summary: ConditionalOrderRunSummary
+): Promise<void> {
+  const token = decryptCredentials<IOLToken>(connection.credentials);
+  const client = new IOLClient(token);
+
+  try {
+    for (const order of orders) {
+      summary.evaluated++;
+      const price = await getPrice(client, order, cachedRows, prices);
+      if (price == null) continue;
+
+      const rule = {
+        type: order.type,
+        side: order.side,
+        triggerPrice: order.triggerPrice != null ? Number(order.triggerPrice) : null,
+        trailPercent: order.trailPercent != null ? Number(order.trailPercent) : null,
+        extremePrice: order.extremePrice != null ? Number(order.extremePrice) : null,
+      };
+      const evaluation = evaluateConditionalOrder(rule, price);
+
+      if (!evaluation.fire) {
+        if (evaluation.extremePrice !== rule.extremePrice && evaluation.extremePrice != null) {
+          await db
+            .update(conditionalOrders)
+            .set({ extremePrice: String(evaluation.extremePrice), updatedAt: new Date() })
+            .where(eq(conditionalOrders.id, order.id));
+        }
+        continue;
+      }
+
+      const ok = await fireOrder(client, connection.id, order, price);
+      if (ok) summary.triggered++;
+      else summary.failed++;
+    }
+  } catch (error) {
+    if (error instanceof IOLTokenExpiredError) {
+      await notifySyncFailure(connection.userId, "iol", error.message, true);
+    } else {
+      console.error("[Conditional Orders] Error:", error);
+    }
+  } finally {
+    const newToken = client.getToken();
+    if (newToken && newToken.access_token !== token.access_token) {
+      await db
+        .update(userConnections)
+        .set({ credentials: encryptCredentials(newToken), updatedAt: new Date() })
+        .where(eq(userConnections.id, connection.id));
+    }
+  }
+}
+
+async function getPrice(
+  client: IOLClient,
+  order: ConditionalOrder,
+  cachedRows: Map<string, TickerPrice>,
+  prices: Map<string, number>
+): Promise<number | null> {
+  const key = `${order.mercado.toLowerCase()}:${order.simbolo}`;
+  const known = prices.get(key);
+  if (known != null) return known;
+
+  const row = cachedRows.get(order.simbolo);
+  const cachedPrice = row
+    ? cachedTriggerPrice({ ...row, price: Number(row.price) }, order.mercado)
+    : null;
+  if (cachedPrice != null) {
+    prices.set(key, cachedPrice);
+    return cachedPrice;
+  }
+
+  try {
+    const quote = await client.getQuote(order.mercado, order.simbolo);
+    if (!(quote.ultimoPrecio > 0)) return null;
+    prices.set(key, quote.ultimoPrecio);
+    return quote.ultimoPrecio;
+  } catch (error) {
+    if (error instanceof IOLTokenExpiredError) throw error;
+    console.error(`[Conditional Orders] Quote failed for ${order.simbolo}:`, error);
+    return null;
+  }
+}
+
+/** Claim, place and record one fired rule. Returns whether IOL accepted the order. */
+async function fireOrder(
+  client: IOLClient,
+  accountId: string,
+  order: ConditionalOrder,
+  price: number
+): Promise<boolean> {
+  const [claimed] = await db
+    .update(conditionalOrders)
+    .set({
+      status: "triggered",
+      triggeredAt: new Date(),
+      triggeredPrice: String(price),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(conditionalOrders.id, order.id), eq(conditionalOrders.status, "active")))
+    .returning({ id: conditionalOrders.id });
+  if (!claimed) return false;
+
+  const request: IOLOrderRequest = {
+    mercado: order.mercado,
+    simbolo: order.simbolo,
+    cantidad: order.quantity,
+    precio: order.limitPrice != null ? Number(order.limitPrice) : price,
+    plazo: order.plazo as IOLSettlement,
+    validez: new Date().toISOString().split("T")[0],
+    tipoOrden: order.limitPrice != null ? "precioLimite" : "precioMercado",
+  };
+  const description = describeConditionalOrder({
+    ...order,
+    triggerPrice: order.triggerPrice != null ? Number(order.triggerPrice) : null,
+    trailPercent: order.trailPercent != null ? Number(order.trailPercent) : null,
+  });
+
+  const audit = {
+    userId: order.userId,
+    action: order.side,
+    mercado: request.mercado,
+    simbolo: request.simbolo,
+    cantidad: String(request.cantidad),
+    precio: String(request.precio),
+    plazo: request.plazo,
+    tipoOrden: request.tipoOrden,
+    ip: AUDIT_SOURCE,
+  };
+
+  let result: { ok: boolean; numeroOperacion?: number; mensaje?: string; error?: string };
+  try {
+    await db.insert(tradeAuditLog).values({
+      ...audit,
+      status: "attempted",
+      responseMessage: `${description} (triggered at $${price})`,
+    });
+
+    const holdingError = order.side === "sell" ? await checkHoldings(client, order) : null;
+    result = holdingError
+      ? { ok: false, error: holdingError }
+      : order.side === "buy"
+        ? await client.placeBuyOrder(request)
+        : await client.placeSellOrder(request);
+  } catch (error) {
+    if (error instanceof IOLTokenExpiredError) {
+      // Leave the rule active so it fires once the user reconnects
+      await db
+        .update(conditionalOrders)
+        .set({ status: "active", triggeredAt: null, triggeredPrice: null, updatedAt: new Date() })
+        .where(eq(conditionalOrders.id, order.id));
+      throw error;
+    }
+    result = { ok: false, error: error instanceof Error ? error.message : "Order failed" };
+  }
+
+  // Settle the rule before the bookkeeping below, which may throw
+  await db
+    .update(conditionalOrders)
+    .set({
+      status: result.ok ? "triggered" : "failed",
+      numeroOperacion: result.numeroOperacion ? String(result.numeroOperacion) : null,
+      lastError: result.ok ? null : result.error || "Order failed",
+      updatedAt: new Date(),
+    })
+    .where(eq(conditionalOrders.id, order.id));
+
+  const [auditRow] = await db
+    .insert(tradeAuditLog)
+    .values({
+      ...audit,
+      status: result.ok ? "success" : "failed",
+      numeroOperacion: result.numeroOperacion ? String(result.numeroOperacion) : undefined,
+      responseMessage: result.ok ? result.mensaje : result.error || "Order failed",
+    })
+    .returning({ id: tradeAuditLog.id });
+
+  if (result.ok && result.numeroOperacion) {
+    await trackPlacedOrder({
+      userId: order.userId,
+      provider: "iol",
+      externalId: String(result.numeroOperacion),
+      accountId,
+      auditLogId: auditRow?.id,
+      action: order.side,
+      mercado: request.mercado,
+      simbolo: request.simbolo,
+      quantity: String(request.cantidad),
+      price: String(request.precio),
+      plazo: request.plazo,
+      tipoOrden: request.tipoOrden,
+      validez: request.validez,
+      conditionalOrderId: order.id,
+    });
+  }
+
+  const title = result.ok
+    ? `Orden condicional ejecutada: ${order.simbolo}`
+    : `Orden condicional fallida: ${order.simbolo}`;
+  const body = result.ok
+    ? `${description}. Precio $${price}${result.numeroOperacion ? ` · Operacion #${result.numeroOperacion}` : ""}`
+    : `${description}. ${result.error || "Order failed"}`;
+
+  await notify(order.userId, {
+    kind: "order",
+    title,
+    body,
+    link: "/history",
+    metadata: {
+      conditionalOrderId: order.id,
+      simbolo: order.simbolo,
+      numeroOperacion: result.numeroOperacion ?? null,
+    },
+  });
+
+  if (order.notifyEmail) {
+    await sendEmail({
+      to: order.notifyEmail,
+      subject: title,
+      html: `<p>${body}</p><p>Mercado: ${request.mercado} · Cantidad: ${request.cantidad} · Tipo: ${request.tipoOrden}</p>`,
+    });
+  }
+
+  return result.ok;
+}
+
+async function checkHoldings(client: IOLClient, order: ConditionalOrder): Promise<string | null> {
+  const { argentina, us } = await client.getAllPortfolios();
+  const holding = [...(argentina.activos || []), ...(us.activos || [])].find(
+    (item) => item.titulo?.simbolo?.toUpperCase() === order.simbolo
+  );
+  const heldQuantity = holding?.cantidad ?? 0;
+  return heldQuantity < order.quantity
+    ? `Insufficient holdings: you have ${heldQuantity} shares of ${order.simbolo}`
+    : null;
+}
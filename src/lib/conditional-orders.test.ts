@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import {
+  CACHED_PRICE_MAX_AGE_MS,
+  cachedTriggerPrice,
+  conditionalOrderIssue,
+  describeConditionalOrder,
+  evaluateConditionalOrder,
+  firesOnDrop,
+  trailingStopPrice,
+  type ConditionalOrderRule,
+} from "./conditional-orders";
+
+const RULE: ConditionalOrderRule = {
+  type: "stop_loss",
+  side: "sell",
+  triggerPrice: 100,
+  trailPercent: null,
+  extremePrice: null,
+};
+
+// ============================================================================
+// conditionalOrderIssue
+// ============================================================================
+
+describe("conditionalOrderIssue", () => {
+  it("requires a trigger price for stop losses and take profits", () => {
+    expect(conditionalOrderIssue({ ...RULE, triggerPrice: null })).toMatch(/triggerPrice/);
+    expect(
+      conditionalOrderIssue({ type: "take_profit", triggerPrice: 0, trailPercent: null })
+    ).toMatch(/take profits/);
+    expect(conditionalOrderIssue(RULE)).toBeNull();
+  });
+
+  it("requires a trail percent strictly between 0 and 100 for trailing stops", () => {
+    const trailing = { type: "trailing_stop" as const, triggerPrice: null };
+    expect(conditionalOrderIssue({ ...trailing, trailPercent: null })).toMatch(/required/);
+    expect(conditionalOrderIssue({ ...trailing, trailPercent: 0 })).toMatch(/between/);
+    expect(conditionalOrderIssue({ ...trailing, trailPercent: 100 })).toMatch(/between/);
+    expect(conditionalOrderIssue({ ...trailing, trailPercent: 5 })).toBeNull();
+  });
+});
+
+// ============================================================================
+// firesOnDrop
+// ============================================================================
+
+describe("firesOnDrop", () => {
+  it("guards sells against a drop with stops and buys with take profits", () => {
+    expect(firesOnDrop({ type: "stop_loss", side: "sell" })).toBe(true);
+    expect(firesOnDrop({ type: "take_profit", side: "sell" })).toBe(false);
+    expect(firesOnDrop({ type: "stop_loss", side: "buy" })).toBe(false);
+    expect(firesOnDrop({ type: "take_profit", side: "buy" })).toBe(true);
+    expect(firesOnDrop({ type: "trailing_stop", side: "sell" })).toBe(true);
+    expect(firesOnDrop({ type: "trailing_stop", side: "buy" })).toBe(false);
+  });
+});
+
+// ============================================================================
+// evaluateConditionalOrder
+// ============================================================================
+
+describe("evaluateConditionalOrder", () => {
+  it("fires a sell stop loss at or below the trigger", () => {
+    expect(evaluateConditionalOrder(RULE, 101).fire).toBe(false);
+    expect(evaluateConditionalOrder(RULE, 100).fire).toBe(true);
+    expect(evaluateConditionalOrder(RULE, 95).fire).toBe(true);
+  });
+
+  it("fires a sell take profit at or above the trigger", () => {
+    const rule = { ...RULE, type: "take_profit" as const, triggerPrice: 120 };
+    expect(evaluateConditionalOrder(rule, 119).fire).toBe(false);
+    expect(evaluateConditionalOrder(rule, 120).fire).toBe(true);
+  });
+
+  it("fires a buy stop on the way up", () => {
+    const rule = { ...RULE, side: "buy" as const };
+    expect(evaluateConditionalOrder(rule, 99).fire).toBe(false);
+    expect(evaluateConditionalOrder(rule, 100).fire).toBe(true);
+  });
+
+  it("raises the watermark of a trailing sell stop and fires on the pullback", () => {
+    const rule: ConditionalOrderRule = {
+      ...RULE,
+      type: "trailing_stop",
+      triggerPrice: null,
+      trailPercent: 10,
+    };
+
+    const first = evaluateConditionalOrder(rule, 100);
+    expect(first).toEqual({ fire: false, stopPrice: 90, extremePrice: 100 });
+
+    const rally = evaluateConditionalOrder({ ...rule, extremePrice: 100 }, 120);
+    expect(rally.fire).toBe(false);
+    expect(rally.extremePrice).toBe(120);
+    expect(rally.stopPrice).toBeCloseTo(108);
+
+    // The watermark never moves down
+    const dip = evaluateConditionalOrder({ ...rule, extremePrice: 120 }, 110);
+    expect(dip.fire).toBe(false);
+    expect(dip.extremePrice).toBe(120);
+
+    expect(evaluateConditionalOrder({ ...rule, extremePrice: 120 }, 108).fire).toBe(true);
+  });
+
+  it("tracks the low for trailing buys and fires on the bounce", () => {
+    const rule: ConditionalOrderRule = {
+      ...RULE,
+      type: "trailing_stop",
+      side: "buy",
+      triggerPrice: null,
+      trailPercent: 5,
+      extremePrice: 100,
+    };
+
+    const lower = evaluateConditionalOrder(rule, 80);
+    expect(lower.fire).toBe(false);
+    expect(lower.extremePrice).toBe(80);
+
+    expect(evaluateConditionalOrder({ ...rule, extremePrice: 80 }, 84).fire).toBe(true);
+  });
+
+  it("ignores missing prices and keeps the watermark", () => {
+    const rule = { ...RULE, type: "trailing_stop" as const, trailPercent: 5, extremePrice: 130 };
+    expect(evaluateConditionalOrder(rule, 0)).toEqual({
+      fire: false,
+      stopPrice: null,
+      extremePrice: 130,
+    });
+    expect(evaluateConditionalOrder(RULE, NaN).fire).toBe(false);
+  });
+});
+
+// ============================================================================
+// trailingStopPrice / describeConditionalOrder
+// ============================================================================
+
+describe("trailingStopPrice", () => {
+  it("sits below the high for sells and above the low for buys", () => {
+    expect(trailingStopPrice("sell", 200, 5)).toBeCloseTo(190);
+    expect(trailingStopPrice("buy", 200, 5)).toBeCloseTo(210);
+  });
+});
+
+describe("describeConditionalOrder", () => {
+  it("summarizes fixed and trailing rules", () => {
+    expect(describeConditionalOrder({ ...RULE, simbolo: "GGAL", quantity: 10 })).toBe(
+      "Stop loss: sell 10 GGAL at or below $100"
+    );
+    expect(
+      describeConditionalOrder({
+        ...RULE,
+        type: "trailing_stop",
+        trailPercent: 5,
+        simbolo: "AL30",
+        quantity: 3,
+      })
+    ).toBe("Trailing stop: sell 3 AL30 when it falls 5% from its high");
+  });
+});
+
+describe("cachedTriggerPrice", () => {
+  const now = Date.parse("2026-03-02T15:00:00Z");
+  const row = { price: 7.5, currency: "USD", source: "yahoo", updatedAt: new Date(now - 60_000) };
+
+  it("uses a fresh row quoted in the market's currency", () => {
+    expect(cachedTriggerPrice(row, "nYSE", now)).toBe(7.5);
+    expect(cachedTriggerPrice({ ...row, price: 6200, currency: "ARS" }, "bCBA", now)).toBe(6200);
+  });
+
+  it("ignores a row in another currency than the rule's market", () => {
+    // GGAL cached as the US ADR while the rule sells the BCBA share in pesos
+    expect(cachedTriggerPrice(row, "bCBA", now)).toBeNull();
+  });
+
+  it("ignores stale rows, other sources and markets it can't map", () => {
+    expect(
+      cachedTriggerPrice({ ...row, updatedAt: new Date(now - CACHED_PRICE_MAX_AGE_MS - 1) }, "nYSE", now)
+    ).toBeNull();
+    expect(cachedTriggerPrice({ ...row, source: "manual" }, "nYSE", now)).toBeNull();
+    expect(cachedTriggerPrice({ ...row, currency: "ARS" }, "rOFX", now)).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Conditional order triggers.
+ *
+ * Sell rules protect a held position: a stop loss fires when the price falls
+ * to the trigger, a take profit when it rises to it, and a trailing stop when
+ * it falls `trailPercent` below the highest price seen since the rule was
+ * created. Buy rules mirror them: a buy stop fires on the way up, a buy take
+ * profit (buying the dip) on the way down, and a trailing buy when the price
+ * bounces `trailPercent` off the lowest price seen.
+ *
+ * The evaluator in `conditional-order-engine.ts` calls `evaluateConditionalOrder`
+ * on every run and persists the returned `extremePrice`.
+ */
+
+import type { ConditionalOrderType, TransactionType } from "./constants";
+
+export interface ConditionalOrderRule {
+  type: ConditionalOrderType;
+  side: TransactionType;
+  triggerPrice: number | null;
+  trailPercent: number | null;
+  /** Highest price seen for sells, lowest for buys (trailing stops only) */
+  extremePrice: number | null;
+}
+
+export interface ConditionalOrderEvaluation {
+  fire: boolean;
+  /** Price the rule fires at after this tick, null if not yet known */
+  stopPrice: number | null;
+  /** Watermark to persist for the next run */
+  extremePrice: number | null;
+}
+
+/** Why a rule can't be evaluated, or null if it is complete */
+export function conditionalOrderIssue(
+  rule: Pick<ConditionalOrderRule, "type" | "triggerPrice" | "trailPercent">
+): string | null {
+  if (rule.type === "trailing_stop") {
+    if (rule.trailPercent == null) return "trailPercent is required for trailing stops";
+    if (rule.trailPercent <= 0 || rule.trailPercent >= 100) {
+      return "trailPercent must be between 0 and 100";
+    }
+    return null;
+  }
+  if (rule.triggerPrice == null || rule.triggerPrice <= 0) {
+    return `triggerPrice is required for ${rule.type === "stop_loss" ? "stop losses" : "take profits"}`;
+  }
+  return null;
+}
+
+/**
+ * Whether the rule fires when the price falls to the trigger. Stop losses
+ * on sells and take profits on buys guard against a drop; the rest fire on
+ * the way up.
+ */
+export function firesOnDrop(rule: Pick<ConditionalOrderRule, "type" | "side">): boolean {
+  if (rule.type === "trailing_stop") return rule.side === "sell";
+  return (rule.type === "stop_loss") === (rule.side === "sell");
+}
+
+/** Trailing stop level for a watermark */
+export function trailingStopPrice(
+  side: TransactionType,
+  extremePrice: number,
+  trailPercent: number
+): number {
+  return side === "sell"
+    ? extremePrice * (1 - trailPercent / 100)
+    : extremePrice * (1 + trailPercent / 100);
+}
+
+export function evaluateConditionalOrder(
+  rule: ConditionalOrderRule,
+  price: number
+): ConditionalOrderEvaluation {
+  if (!(price > 0)) {
+    return {
+      fire: false,
+      stopPrice: rule.type === "trailing_stop" ? null : rule.triggerPrice,
+      extremePrice: rule.extremePrice,
+    };
+  }
+
+  if (rule.type === "trailing_stop") {
+    if (rule.trailPercent == null) {
+      return { fire: false, stopPrice: null, extremePrice: rule.extremePrice };
+    }
+    const previous = rule.extremePrice ?? price;
+    const extremePrice =
+      rule.side === "sell" ? Math.max(previous, price) : Math.min(previous, price);
+    const stopPrice = trailingStopPrice(rule.side, extremePrice, rule.trailPercent);
+    const fire = rule.side === "sell" ? price <= stopPrice : price >= stopPrice;
+    return { fire, stopPrice, extremePrice };
+  }
+
+  if (rule.triggerPrice == null) {
+    return { fire: false, stopPrice: null, extremePrice: rule.extremePrice };
+  }
+  const fire = firesOnDrop(rule) ? price <= rule.triggerPrice : price >= rule.triggerPrice;
+  return { fire, stopPrice: rule.triggerPrice, extremePrice: rule.extremePrice };
+}
+
+const TYPE_PHRASES: Record<ConditionalOrderType, Record<TransactionType, string>> = {
+  stop_loss: { sell: "Stop loss", buy: "Buy stop" },
+  take_profit: { sell: "Take profit", buy: "Buy limit" },
+  trailing_stop: { sell: "Trailing stop", buy: "Trailing buy" },
+};
+
+/** One-line summary, e.g. "Trailing stop: sell 10 GGAL when it falls 5% from its high" */
+export function describeConditionalOrder(
+  rule: Pick<ConditionalOrderRule, "type" | "side" | "triggerPrice" | "trailPercent"> & {
+    simbolo: string;
+    quantity: number;
+  }
+): string {
+  const action = `${rule.side} ${rule.quantity} ${rule.simbolo}`;
+  const phrase = TYPE_PHRASES[rule.type][rule.side];
+
+  if (rule.type === "trailing_stop") {
+    const swing = rule.side === "sell" ? "falls" : "rises";
+    const from = rule.side === "sell" ? "high" : "low";
+    return `${phrase}: ${action} when it ${swing} ${rule.trailPercent}% from its ${from}`;
+  }
+
+  const comparison = firesOnDrop(rule) ? "at or below" : "at or above";
+  return `${phrase}: ${action} ${comparison} $${rule.triggerPrice}`;
+}
+
+/** Currency each IOL market quotes in; markets not listed are always quoted from IOL */
+const MARKET_CURRENCIES: Record<string, "ARS" | "USD"> = {
+  bcba: "ARS",
+  nyse: "USD",
+  nasdaq: "USD",
+  amex: "USD",
+};
+
+/** Cached prices older than this are re-quoted from IOL */
+export const CACHED_PRICE_MAX_AGE_MS = 15 * 60 * 1000;
+
+/**
+ * Trigger price from a ticker_price_cache row, or null when the row can't
+ * stand in for the rule's listing. The cache is keyed by ticker alone and
+ * filled from Yahoo, so "GGAL" may hold the US ADR in USD while the rule
+ * sells the BCBA share in pesos: only a fresh Yahoo row in the market's
+ * currency counts.
+ */
+export function cachedTriggerPrice(
+  row: { price: number; currency: string; source: string; updatedAt: Date },
+  mercado: string,
+  now = Date.now()
+): number | null {
+  const currency = MARKET_CURRENCIES[mercado.toLowerCase()];
+  if (!currency || row.currency.toUpperCase() !== currency) return null;
+  if (row.source !== "yahoo") return null;
+  if (now - row.updatedAt.getTime() > CACHED_PRICE_MAX_AGE_MS) return null;
+  return row.price > 0 ? row.price : null;
+}
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockFindMany = vi.fn();
+const mockUpdateSet = vi.fn();
+
+vi.mock("@/db", () => ({
+  db: {
+    query: {
+      userConnections: {
+        findMany: (...args: unknown[]) => mockFindMany(...args),
+      },
+    },
+    update: () => ({
+      set: (values: unknown) => ({
+        where: (where: unknown) => Promise.resolve(mockUpdateSet(values, where)),
+      }),
+    }),
+  },
+}));
+
+vi.mock("@/db/schema", () => ({
+  userConnections: { id: "id", userId: "userId" },
+}));
+
+vi.mock("drizzle-orm", () => ({
+  eq: vi.fn((...args: unknown[]) => args),
+  inArray: vi.fn((_column: unknown, ids: unknown) => ids),
+}));
+
+const mockNotify = vi.fn();
+vi.mock("./notifications", () => ({
+  notify: (...args: unknown[]) => mockNotify(...args),
+}));
+
+const mockSendEmail = vi.fn();
+vi.mock("./email", () => ({
+  sendEmail: (...args: unknown[]) => mockSendEmail(...args),
+}));
+
+const mockRefresh = vi.fn();
+const mockGetBalances = vi.fn();
+const mockPersistCredentials = vi.fn();
+const mockOpenBrokerSession = vi.fn();
+vi.mock("./broker-connections", () => ({
+  openBrokerSession: (...args: unknown[]) => mockOpenBrokerSession(...args),
+}));
+
+class ExpiredError extends Error {}
+
+const adapter = {
+  provider: "ppi",
+  label: "PPI",
+  isExpiredError: (error: unknown) => error instanceof ExpiredError,
+};
+vi.mock("@/services/brokers", () => ({
+  getBrokerAdapter: (provider: string) => (provider === "ppi" ? adapter : undefined),
+}));
+
+import { checkConnectionHealth } from "./connection-health";
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function connection(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    userId: "user-1",
+    provider: "ppi",
+    label: `PPI ${id}`,
+    accountNumber: id,
+    credentials: "encrypted-login",
+    notifyEmail: "user@example.com",
+    reauthNotifiedAt: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockOpenBrokerSession.mockReturnValue({
+    session: { refresh: mockRefresh, getBalances: mockGetBalances },
+    persistCredentials: mockPersistCredentials,
+  });
+  mockRefresh.mockResolvedValue(undefined);
+  mockGetBalances.mockResolvedValue([]);
+});
+
+// ===========================================================================
+// Scheduled check
+// ===========================================================================
+
+describe("checkConnectionHealth", () => {
+  it("refreshes a login once for all of its accounts and saves the token", async () => {
+    mockFindMany.mockResolvedValue([connection("a"), connection("b")]);
+
+    const summary = await checkConnectionHealth();
+
+    expect(mockOpenBrokerSession).toHaveBeenCalledTimes(1);
+    expect(mockRefresh).toHaveBeenCalledTimes(1);
+    expect(mockPersistCredentials).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "ok", lastError: null, reauthNotifiedAt: null }),
+      ["a", "b"]
+    );
+    expect(summary).toEqual({ checked: 2, ok: 2, error: 0, expired: 0 });
+  });
+
+  it("checks separate logins separately", async () => {
+    mockFindMany.mockResolvedValue([
+      connection("a"),
+      connection("b", { credentials: "other-login" }),
+    ]);
+
+    await checkConnectionHealth();
+
+    expect(mockRefresh).toHaveBeenCalledTimes(2);
+  });
+
+  it("marks revoked credentials expired and alerts in-app and by email", async () => {
+    mockFindMany.mockResolvedValue([connection("a")]);
+    mockRefresh.mockRejectedValue(new ExpiredError("Token expired"));
+
+    const summary = await checkConnectionHealth();
+
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "expired", lastError: "Token expired" }),
+      ["a"]
+    );
+    expect(mockNotify).toHaveBeenCalledWith(
+      "user-1",
+      expect.objectContaining({ kind: "sync_failure", link: "/settings?reconnect=a" }),
+      expect.anything()
+    );
+    expect(mockSendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "user@example.com", subject: "La conexion con PPI a expiro" })
+    );
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ reauthNotifiedAt: expect.any(Date) }),
+      ["id", "a"]
+    );
+    expect(summary.expired).toBe(1);
+  });
+
+  it("alerts only once per expiry", async () => {
+    mockFindMany.mockResolvedValue([connection("a", { reauthNotifiedAt: new Date() })]);
+    mockRefresh.mockRejectedValue(new ExpiredError("Token expired"));
+
+    await checkConnectionHealth();
+
+    expect(mockNotify).not.toHaveBeenCalled();
+    expect(mockSendEmail).not.toHaveBeenCalled();
+  });
+
+  it("records other failures without asking to reconnect", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFindMany.mockResolvedValue([connection("a")]);
+    mockGetBalances.mockRejectedValue(new Error("Service unavailable"));
+
+    const summary = await checkConnectionHealth();
+
+    expect(mockUpdateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "error", lastError: "Service unavailable" }),
+      ["a"]
+    );
+    expect(mockNotify).not.toHaveBeenCalled();
+    expect(summary.error).toBe(1);
+  });
+
+  it("skips providers without an adapter", async () => {
+    mockFindMany.mockResolvedValue([connection("a", { provider: "legacy" })]);
+
+    const summary = await checkConnectionHealth();
+
+    expect(mockOpenBrokerSession).not.toHaveBeenCalled();
+    expect(summary.checked).toBe(0);
+  });
+});
@@ -0,0 +1,164 @@
+import { db } from "@/db";
+import { userConnections, type UserConnection } from "@/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { getBrokerAdapter, type BrokerAdapter } from "@/services/brokers";
+import { openBrokerSession } from "./broker-connections";
+import { notify } from "./notifications";
+import { sendEmail } from "./email";
+import type { ConnectionStatus } from "./constants";
+
+/**
+ * Broker connection health.
+ *
+ * Each account keeps its last successful and failed broker call: syncs
+ * record theirs, and the scheduled `checkConnectionHealth` refreshes every
+ * login's token (saving the new one) and makes a cheap authenticated call
+ * to catch revoked credentials. An account that needs re-authentication
+ * alerts its user once, in-app and by email, until it is reconnected.
+ */
+
+const APP_URL = process.env.APP_URL || "https://invblock.vercel.app";
+
+export type HealthCheckSummary = { checked: number } & Record<ConnectionStatus, number>;
+
+/** Settings link that opens the reconnect form for the account */
+export function reconnectLink(connection: Pick<UserConnection, "id">): string {
+  return `/settings?reconnect=${connection.id}`;
+}
+
+/** Mark accounts healthy. Never throws: the broker call already succeeded. */
+export async function recordConnectionSuccess(connections: UserConnection[]): Promise<void> {
+  if (connections.length === 0) return;
+
+  try {
+    await db
+      .update(userConnections)
+      .set({
+        status: "ok",
+        lastSuccessAt: new Date(),
+        lastError: null,
+        reauthNotifiedAt: null,
+      })
+      .where(inArray(userConnections.id, connections.map((c) => c.id)));
+  } catch (error) {
+    console.error("[Connections] Health Error:", error);
+  }
+}
+
+/**
+ * Record a failed broker call on the accounts. Expired or revoked
+ * credentials also alert the user, once per account. Never throws.
+ */
+export async function recordConnectionFailure(
+  adapter: BrokerAdapter,
+  connections: UserConnection[],
+  error: unknown
+): Promise<void> {
+  if (connections.length === 0) return;
+
+  const expired = adapter.isExpiredError(error);
+  const message = error instanceof Error ? error.message : "Unknown error";
+
+  try {
+    await db
+      .update(userConnections)
+      .set({
+        status: expired ? "expired" : "error",
+        lastFailureAt: new Date(),
+        lastError: message.slice(0, 500),
+      })
+      .where(inArray(userConnections.id, connections.map((c) => c.id)));
+
+    if (!expired) return;
+
+    for (const connection of connections) {
+      if (connection.reauthNotifiedAt) continue;
+      await alertReauthentication(adapter, connection);
+      await db
+        .update(userConnections)
+        .set({ reauthNotifiedAt: new Date() })
+        .where(eq(userConnections.id, connection.id));
+    }
+  } catch (dbError) {
+    console.error("[Connections] Health Error:", dbError);
+  }
+}
+
+async function alertReauthentication(
+  adapter: BrokerAdapter,
+  connection: UserConnection
+): Promise<void> {
+  const title = `La conexion con ${connection.label} expiro`;
+  const body = `${adapter.label} rechazo las credenciales guardadas. Volve a conectar la cuenta para seguir sincronizandola.`;
+
+  await notify(
+    connection.userId,
+    {
+      kind: "sync_failure",
+      title,
+      body,
+      link: reconnectLink(connection),
+      metadata: { provider: adapter.provider, accountId: connection.id },
+    },
+    { dedupeHours: 6 }
+  );
+
+  if (connection.notifyEmail) {
+    await sendEmail({
+      to: connection.notifyEmail,
+      subject: title,
+      html: `<p>${body}</p><p><a href="${APP_URL}${reconnectLink(connection)}">Reconectar ${connection.label}</a></p>`,
+    });
+  }
+}
+
+/**
+ * Check every connected account, or only `userId`'s when given. Accounts
+ * sharing a login (PPI sub-accounts) are checked once, with one refresh.
+ */
+export async function checkConnectionHealth(userId?: string): Promise<HealthCheckSummary> {
+  const summary: HealthCheckSummary = { checked: 0, ok: 0, error: 0, expired: 0 };
+
+  const connections = await db.query.userConnections.findMany({
+    where: userId ? eq(userConnections.userId, userId) : undefined,
+    orderBy: (c, { asc }) => [asc(c.createdAt)],
+  });
+
+  const logins = new Map<string, UserConnection[]>();
+  for (const connection of connections) {
+    const key = `${connection.userId}|${connection.provider}|${connection.credentials}`;
+    logins.set(key, [...(logins.get(key) ?? []), connection]);
+  }
+
+  for (const group of logins.values()) {
+    const adapter = getBrokerAdapter(group[0].provider);
+    if (!adapter) continue;
+
+    const status = await checkLogin(adapter, group);
+    summary.checked += group.length;
+    summary[status] += group.length;
+  }
+
+  return summary;
+}
+
+async function checkLogin(
+  adapter: BrokerAdapter,
+  group: UserConnection[]
+): Promise<ConnectionStatus> {
+  try {
+    const { session, persistCredentials } = openBrokerSession(adapter, group[0]);
+    await session.refresh();
+    // Refreshing alone doesn't notice revoked API keys (Binance has no token)
+    await session.getBalances();
+    await persistCredentials();
+    await recordConnectionSuccess(group);
+    return "ok";
+  } catch (error) {
+    if (!adapter.isExpiredError(error)) {
+      console.error(`[Connections] ${adapter.label} health check error:`, error);
+    }
+    await recordConnectionFailure(adapter, group, error);
+    return adapter.isExpiredError(error) ? "expired" : "error";
+  }
+}
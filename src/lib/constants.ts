@@ -7,10 +7,130 @@ export const ASSET_CATEGORIES = [
 
 export const CURRENCIES = ["USD", "ARS"] as const;
 export const TRANSACTION_TYPES = ["buy", "sell"] as const;
+/** Ledger rows: trades plus income received in kind (e.g. staking rewards) */
+export const LEDGER_ENTRY_TYPES = [...TRANSACTION_TYPES, "income"] as const;
+export const COST_BASIS_METHODS = ["fifo", "lifo", "average"] as const;
+/** Brokers with an adapter in src/services/brokers */
+export const BROKER_PROVIDERS = ["iol", "ppi", "binance"] as const;
+export const TRANSACTION_SOURCES = ["manual", "import", ...BROKER_PROVIDERS] as const;
+export const VALUATION_RATES = ["oficial", "mep", "ccl", "blue", "crypto"] as const;
+export const NOTIFICATION_KINDS = ["price_alert", "sync_failure", "order", "security", "report"] as const;
+export const CONDITIONAL_ORDER_TYPES = ["stop_loss", "take_profit", "trailing_stop"] as const;
+export const CONDITIONAL_ORDER_STATUSES = ["active", "triggered", "failed", "cancelled"] as const;
+export const ORDER_STATUSES = ["pending", "partial", "filled", "cancelled", "expired"] as const;
+export const CONNECTION_STATUSES = ["ok", "error", "expired"] as const;
+export const REBALANCE_SCOPES = ["category", "ticker", "bucket"] as const;
 
 export type AssetCategory = (typeof ASSET_CATEGORIES)[number];
 export type Currency = (typeof CURRENCIES)[number];
 export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+export type BrokerProvider = (typeof BROKER_PROVIDERS)[number];
+export type TransactionSource = (typeof TRANSACTION_SOURCES)[number];
+export type ValuationRate = (typeof VALUATION_RATES)[number];
+export type NotificationKind = (typeof NOTIFICATION_KINDS)[number];
+export type ConditionalOrderType = (typeof CONDITIONAL_ORDER_TYPES)[number];
+export type ConditionalOrderStatus = (typeof CONDITIONAL_ORDER_STATUSES)[number];
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+export type ConnectionStatus = (typeof CONNECTION_STATUSES)[number];
+export type RebalanceScope = (typeof REBALANCE_SCOPES)[number];
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO (primero en entrar, primero en salir)",
+  lifo: "LIFO (ultimo en entrar, primero en salir)",
+  average: "Promedio ponderado",
+};
+
+// ── Valuation Rates ─────────────────────────────────────────────────────────
+
+/** Blue was the only rate before the setting existed */
+export const DEFAULT_VALUATION_RATE: ValuationRate = "blue";
+
+export const VALUATION_RATE_LABELS: Record<ValuationRate, string> = {
+  oficial: "Oficial",
+  mep: "MEP",
+  ccl: "CCL",
+  blue: "Blue",
+  crypto: "Cripto",
+};
+
+/** `exchange_rates.pair` written by the mep-rate-calculator edge function */
+export const VALUATION_RATE_PAIRS: Record<ValuationRate, string> = {
+  oficial: "USD_ARS_OFICIAL",
+  mep: "USD_ARS_MEP",
+  ccl: "USD_ARS_CCL",
+  blue: "USD_ARS_BLUE",
+  crypto: "USD_ARS_CRYPTO",
+};
+
+/** dolarapi.com / argentinadatos.com "casa" for each rate */
+export const DOLAR_CASAS = {
+  oficial: "oficial",
+  mep: "bolsa",
+  ccl: "contadoconliqui",
+  blue: "blue",
+  crypto: "cripto",
+} as const satisfies Record<ValuationRate, string>;
+
+export type DolarCasa = (typeof DOLAR_CASAS)[ValuationRate];
+
+/** Last-resort USD/ARS rate when no quote is available */
+export const FALLBACK_USD_ARS_RATE = 1250;
+
+// ── Notifications ───────────────────────────────────────────────────────────
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  price_alert: "Alertas de precio",
+  sync_failure: "Sincronizacion",
+  order: "Ordenes",
+  security: "Seguridad",
+  report: "Reportes",
+};
+
+// ── Conditional Orders ──────────────────────────────────────────────────────
+
+export const CONDITIONAL_ORDER_TYPE_LABELS: Record<ConditionalOrderType, string> = {
+  stop_loss: "Stop loss",
+  take_profit: "Take profit",
+  trailing_stop: "Trailing stop",
+};
+
+export const CONDITIONAL_ORDER_STATUS_LABELS: Record<ConditionalOrderStatus, string> = {
+  active: "Activa",
+  triggered: "Ejecutada",
+  failed: "Fallida",
+  cancelled: "Cancelada",
+};
+
+// ── Broker Orders ───────────────────────────────────────────────────────────
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pendiente",
+  partial: "Parcial",
+  filled: "Ejecutada",
+  cancelled: "Cancelada",
+  expired: "Vencida",
+};
+
+/** Orders a user can place per window, shared by every broker's trade route */
+export const TRADE_RATE_LIMIT = { limit: 5, windowSeconds: 60 } as const;
+
+// ── Broker Connections ──────────────────────────────────────────────────────
+
+export const CONNECTION_STATUS_LABELS: Record<ConnectionStatus, string> = {
+  ok: "Conectada",
+  error: "Con errores",
+  expired: "Reconexion necesaria",
+};
+
+// ── Rebalancing ─────────────────────────────────────────────────────────────
+
+export const REBALANCE_SCOPE_LABELS: Record<RebalanceScope, string> = {
+  category: "Por categoria",
+  ticker: "Por ticker",
+  bucket: "Grupos propios",
+};
 
 
 export const CATEGORY_LABELS: Record<AssetCategory, string> = {
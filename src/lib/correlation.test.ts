@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import {
+  clusterHoldings,
+  correlationMatrix,
+  gridReturns,
+  pearson,
+  rankedPairs,
+  rollingCorrelation,
+  type ReturnSeries,
+} from "./correlation";
+
+/** Deterministic zig-zag returns, 30 days */
+const base = Array.from({ length: 30 }, (_, i) => ((i * 7) % 11) / 100 - 0.05);
+
+function series(ticker: string, returns: (number | null)[]): ReturnSeries {
+  return { ticker, returns };
+}
+
+const dates = Array.from({ length: 31 }, (_, i) => `2026-01-${String(i + 1).padStart(2, "0")}`);
+
+// ===========================================================================
+// Returns and Pearson
+// ===========================================================================
+
+describe("gridReturns", () => {
+  it("needs an exact close on both days", () => {
+    const returns = gridReturns(
+      [
+        { date: "2026-03-02", close: 100 },
+        { date: "2026-03-03", close: 110 },
+        { date: "2026-03-05", close: 121 },
+      ],
+      ["2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05"]
+    );
+    expect(returns[0]).toBeCloseTo(0.1, 10);
+    expect(returns.slice(1)).toEqual([null, null]);
+  });
+});
+
+describe("pearson", () => {
+  it("is 1 for series moving together and -1 for opposite ones", () => {
+    expect(pearson(base, base.map((r) => r * 2))).toBeCloseTo(1, 10);
+    expect(pearson(base, base.map((r) => -r))).toBeCloseTo(-1, 10);
+  });
+
+  it("is null below the minimum overlap or for a flat series", () => {
+    expect(pearson(base.slice(0, 10), base.slice(0, 10))).toBeNull();
+    expect(pearson(base, base.map(() => 0))).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Matrix and clusters
+// ===========================================================================
+
+describe("correlationMatrix", () => {
+  it("builds symmetric correlation and annualized covariance", () => {
+    const matrix = correlationMatrix(
+      [series("A", base), series("B", base.map((r) => r * 2)), series("C", base.map((r) => -r))],
+      [1, 1, 1],
+      dates
+    );
+
+    expect(matrix.dates).toHaveLength(30);
+    expect(matrix.correlation[0][0]).toBe(1);
+    expect(matrix.correlation[0][1]).toBeCloseTo(1, 10);
+    expect(matrix.correlation[2][0]).toBeCloseTo(-1, 10);
+    // cov(A, 2A) = 2 var(A)
+    expect(matrix.covariance[0][1]!).toBeCloseTo(2 * matrix.covariance[0][0]!, 10);
+    expect(matrix.clusters.map((c) => c.tickers)).toEqual([["A", "B"]]);
+  });
+
+  it("measures each pair over the days both have", () => {
+    const late = [...new Array(5).fill(null), ...base.slice(5)];
+    const matrix = correlationMatrix([series("A", base), series("L", late)], [1, 1], dates);
+    expect(matrix.correlation[0][1]).toBeCloseTo(1, 10);
+    expect(rankedPairs(matrix, [series("A", base), series("L", late)])[0].observations).toBe(25);
+  });
+
+  it("leaves pairs with too little overlap out", () => {
+    const short = [...base.slice(0, 10), ...new Array(20).fill(null)];
+    const matrix = correlationMatrix([series("A", base), series("S", short)], [1, 1], dates);
+    expect(matrix.correlation[0][1]).toBeNull();
+    expect(matrix.averageCorrelation).toBeNull();
+  });
+
+  it("weights the average correlation by position size", () => {
+    const matrix = correlationMatrix(
+      [series("A", base), series("B", base), series("C", base.map((r) => -r))],
+      [1, 1, 0.1],
+      dates
+    );
+    // A/B (+1) weighs 1, A/C and B/C (-1) weigh 0.1 each
+    expect(matrix.averageCorrelation).toBeCloseTo((1 - 0.2) / 1.2, 10);
+  });
+});
+
+describe("clusterHoldings", () => {
+  it("chains pairs above the threshold and sizes the cluster", () => {
+    const c = [
+      [1, 0.8, 0.1, 0],
+      [0.8, 1, 0.75, 0],
+      [0.1, 0.75, 1, 0],
+      [0, 0, 0, 1],
+    ];
+    const clusters = clusterHoldings(["A", "B", "C", "D"], c, [10, 20, 30, 40]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].tickers).toEqual(["A", "B", "C"]);
+    expect(clusters[0].averageCorrelation).toBeCloseTo((0.8 + 0.1 + 0.75) / 3, 10);
+    expect(clusters[0].allocation).toBeCloseTo(60, 10);
+  });
+});
+
+describe("rollingCorrelation", () => {
+  it("reports the trailing-window correlation from the first full window", () => {
+    const points = rollingCorrelation(base, base.map((r) => -r), dates.slice(1), 20);
+    expect(points).toHaveLength(11);
+    expect(points[0].date).toBe("2026-01-21");
+    expect(points.every((p) => Math.abs(p.value + 1) < 1e-9)).toBe(true);
+  });
+});
@@ -0,0 +1,244 @@
+import type { DailyClose } from "./snapshot-replay";
+
+/**
+ * Correlation engine over daily USD returns.
+ *
+ * Every series is sampled on the same date grid; a day's return needs a
+ * close on it and on the previous grid day, so a market holiday drops the
+ * day for that listing only. Pairs are measured over the days both have
+ * (pairwise-complete), which keeps a late listing from shortening the
+ * window of every other pair. Everything here is pure.
+ */
+
+/** Fewer shared returns than this and a pair's figure is left out */
+export const MIN_OVERLAP = 20;
+
+/** Pairs at or above this correlation are clustered together */
+export const CLUSTER_THRESHOLD = 0.7;
+
+export const ROLLING_WINDOW = 60;
+
+const TRADING_DAYS = 252;
+
+export interface ReturnSeries {
+  ticker: string;
+  /** Daily return ending on each grid date after the first; null when unpriced */
+  returns: (number | null)[];
+}
+
+export interface CorrelationPair {
+  a: string;
+  b: string;
+  correlation: number;
+  observations: number;
+}
+
+export interface CorrelationCluster {
+  tickers: string[];
+  /** Mean correlation between the cluster's members */
+  averageCorrelation: number;
+  /** Share of the measured holdings' value, percent */
+  allocation: number;
+}
+
+export interface CorrelationMatrix {
+  tickers: string[];
+  /** Grid dates closing each return */
+  dates: string[];
+  /** Symmetric; null where the pair shares fewer than MIN_OVERLAP returns */
+  correlation: (number | null)[][];
+  /** Annualized covariance of daily returns */
+  covariance: (number | null)[][];
+  /** Value-weighted mean correlation across distinct pairs */
+  averageCorrelation: number | null;
+  clusters: CorrelationCluster[];
+}
+
+export interface DatedCorrelation {
+  date: string;
+  value: number;
+}
+
+/**
+ * Daily returns of a close series on a date grid. Only exact closes count:
+ * a missing day yields null for it and the next.
+ */
+export function gridReturns(closes: DailyClose[], dates: string[]): (number | null)[] {
+  const byDate = new Map(closes.map((c) => [c.date, c.close]));
+  const out: (number | null)[] = [];
+  for (let i = 1; i < dates.length; i++) {
+    const prev = byDate.get(dates[i - 1]);
+    const curr = byDate.get(dates[i]);
+    out.push(prev && curr && prev > 0 ? curr / prev - 1 : null);
+  }
+  return out;
+}
+
+/** Returns both series have, in order */
+function overlap(a: (number | null)[], b: (number | null)[]): [number[], number[]] {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x !== null && y !== null) {
+      xs.push(x);
+      ys.push(y);
+    }
+  }
+  return [xs, ys];
+}
+
+function moments(xs: number[], ys: number[]): { cov: number; varX: number; varY: number } {
+  const n = xs.length;
+  const mx = xs.reduce((s, x) => s + x, 0) / n;
+  const my = ys.reduce((s, y) => s + y, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    varX += (xs[i] - mx) ** 2;
+    varY += (ys[i] - my) ** 2;
+  }
+  return { cov: cov / (n - 1), varX: varX / (n - 1), varY: varY / (n - 1) };
+}
+
+/** Pearson correlation; null when either side is flat or the sample is too short */
+export function pearson(xs: number[], ys: number[], minOverlap = MIN_OVERLAP): number | null {
+  if (xs.length < Math.max(minOverlap, 2)) return null;
+  const { cov, varX, varY } = moments(xs, ys);
+  if (varX === 0 || varY === 0) return null;
+  return Math.max(-1, Math.min(1, cov / Math.sqrt(varX * varY)));
+}
+
+/**
+ * Correlation over a trailing window of grid days, reported on each day
+ * the window has at least half its returns for both series.
+ */
+export function rollingCorrelation(
+  a: (number | null)[],
+  b: (number | null)[],
+  dates: string[],
+  window = ROLLING_WINDOW
+): DatedCorrelation[] {
+  const out: DatedCorrelation[] = [];
+  for (let end = window; end <= Math.min(a.length, b.length); end++) {
+    const [xs, ys] = overlap(a.slice(end - window, end), b.slice(end - window, end));
+    const value = pearson(xs, ys, Math.ceil(window / 2));
+    if (value !== null) out.push({ date: dates[end - 1], value });
+  }
+  return out;
+}
+
+/**
+ * Group holdings linked by a chain of pairs at or above the threshold
+ * (single linkage). Singletons aren't clusters.
+ */
+export function clusterHoldings(
+  tickers: string[],
+  correlation: (number | null)[][],
+  weights: number[],
+  threshold = CLUSTER_THRESHOLD
+): CorrelationCluster[] {
+  const parent = tickers.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < tickers.length; i++) {
+    for (let j = i + 1; j < tickers.length; j++) {
+      const c = correlation[i][j];
+      if (c !== null && c >= threshold) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  tickers.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  const total = weights.reduce((s, w) => s + w, 0);
+  const clusters: CorrelationCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+    const pairs: number[] = [];
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const c = correlation[members[x]][members[y]];
+        if (c !== null) pairs.push(c);
+      }
+    }
+    const weight = members.reduce((s, i) => s + weights[i], 0);
+    clusters.push({
+      tickers: members.map((i) => tickers[i]),
+      averageCorrelation: pairs.reduce((s, c) => s + c, 0) / pairs.length,
+      allocation: total > 0 ? (weight / total) * 100 : 0,
+    });
+  }
+
+  return clusters.sort((a, b) => b.allocation - a.allocation);
+}
+
+/**
+ * Correlation and covariance matrices, the weighted average correlation
+ * and the clusters of highly correlated holdings.
+ */
+export function correlationMatrix(
+  series: ReturnSeries[],
+  weights: number[],
+  dates: string[]
+): CorrelationMatrix {
+  const n = series.length;
+  const correlation: (number | null)[][] = series.map(() => new Array(n).fill(null));
+  const covariance: (number | null)[][] = series.map(() => new Array(n).fill(null));
+
+  let weightedSum = 0;
+  let weightTotal = 0;
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i; j < n; j++) {
+      const [xs, ys] = overlap(series[i].returns, series[j].returns);
+      if (xs.length < Math.max(MIN_OVERLAP, 2)) continue;
+
+      const { cov } = moments(xs, ys);
+      covariance[i][j] = covariance[j][i] = cov * TRADING_DAYS;
+
+      const c = i === j ? 1 : pearson(xs, ys);
+      correlation[i][j] = correlation[j][i] = c;
+
+      if (i !== j && c !== null) {
+        const w = weights[i] * weights[j];
+        weightedSum += w * c;
+        weightTotal += w;
+      }
+    }
+  }
+
+  const tickers = series.map((s) => s.ticker);
+  return {
+    tickers,
+    dates: dates.slice(1),
+    correlation,
+    covariance,
+    averageCorrelation: weightTotal > 0 ? weightedSum / weightTotal : null,
+    clusters: clusterHoldings(tickers, correlation, weights),
+  };
+}
+
+/** Distinct pairs by correlation, strongest first */
+export function rankedPairs(matrix: CorrelationMatrix, series: ReturnSeries[]): CorrelationPair[] {
+  const pairs: CorrelationPair[] = [];
+  for (let i = 0; i < matrix.tickers.length; i++) {
+    for (let j = i + 1; j < matrix.tickers.length; j++) {
+      const c = matrix.correlation[i][j];
+      if (c === null) continue;
+      pairs.push({
+        a: matrix.tickers[i],
+        b: matrix.tickers[j],
+        correlation: c,
+        observations: overlap(series[i].returns, series[j].returns)[0].length,
+      });
+    }
+  }
+  return pairs.sort((x, y) => y.correlation - x.correlation);
+}
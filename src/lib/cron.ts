@@ -0,0 +1,9 @@
+/**
+ * Scheduled routes are called by pg_cron with
+ * `Authorization: Bearer <CRON_SECRET>`. Without a configured secret no
+ * request is accepted as a cron call.
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -1,8 +1,11 @@
 /**
- * Client-side CSV download utility.
- * Adds UTF-8 BOM so Excel opens it correctly.
+ * CSV helpers. `toCSV` is environment-agnostic (also used by API routes);
+ * `downloadCSV` is the client-side download utility.
  */
 
+/** UTF-8 BOM so Excel opens the file with the right encoding. */
+export const CSV_BOM = "\uFEFF";
+
 function escapeCell(value: string): string {
   if (value.includes(",") || value.includes('"') || value.includes("\n")) {
     return `"${value.replace(/"/g, '""')}"`;
@@ -10,18 +13,22 @@ function escapeCell(value: string): string {
   return value;
 }
 
+export function toCSV(headers: string[], rows: string[][]): string {
+  return (
+    headers.map(escapeCell).join(",") +
+    "\n" +
+    rows.map((row) => row.map(escapeCell).join(",")).join("\n")
+  );
+}
+
 export function downloadCSV(
   filename: string,
   headers: string[],
   rows: string[][]
 ) {
-  const bom = "\uFEFF";
-  const csv =
-    headers.map(escapeCell).join(",") +
-    "\n" +
-    rows.map((row) => row.map(escapeCell).join(",")).join("\n");
-
-  const blob = new Blob([bom + csv], { type: "text/csv;charset=utf-8;" });
+  const blob = new Blob([CSV_BOM + toCSV(headers, rows)], {
+    type: "text/csv;charset=utf-8;",
+  });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
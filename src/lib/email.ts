@@ -0,0 +1,40 @@
+/**
+ * Transactional email via Brevo, for app-side events. Edge functions send
+ * their own reports through the same API.
+ *
+ * Returns false instead of throwing so callers can treat email as
+ * best-effort; without BREVO_API_KEY nothing is sent.
+ */
+
+interface EmailInput {
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export async function sendEmail({ to, subject, html }: EmailInput): Promise<boolean> {
+  const apiKey = process.env.BREVO_API_KEY;
+  const senderEmail = process.env.SENDER_EMAIL;
+  if (!apiKey || !senderEmail) return false;
+
+  try {
+    const response = await fetch("https://api.brevo.com/v3/smtp/email", {
+      method: "POST",
+      headers: {
+        "api-key": apiKey,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({
+        sender: { name: process.env.SENDER_NAME || "Slock", email: senderEmail },
+        to: [{ email: to }],
+        subject,
+        htmlContent: html,
+      }),
+    });
+    return response.ok;
+  } catch (error) {
+    console.error("[Email] Error:", error);
+    return false;
+  }
+}
@@ -0,0 +1,135 @@
+import { db } from "@/db";
+import { assets, projectedIncome } from "@/db/schema";
+import { and, eq, gt } from "drizzle-orm";
+import { getDividendHistory } from "@/services/yahoo/client";
+import { getCompanyOverview } from "@/services/alphavantage";
+import { getBondMeta } from "./bond-metadata";
+import {
+  CEDEAR_RATIOS,
+  inferDividendSchedule,
+  projectBondIncome,
+  projectDividends,
+  type DividendRecord,
+  type IncomeHolding,
+  type IncomePayment,
+} from "./income";
+import type { Currency } from "./constants";
+
+/**
+ * Server-side inputs for the income calendar: open positions from `assets`,
+ * dividend history from Yahoo and announced pay dates from Alpha Vantage.
+ */
+
+const FETCH_BATCH = 5;
+
+async function dividendPayments(
+  holding: IncomeHolding,
+  from: string,
+  to: string,
+  warnings: string[]
+): Promise<IncomePayment[]> {
+  // CEDEARs pay the US dividend in dollars; local stocks pay pesos
+  const currency: Currency = holding.category === "cedear" ? "USD" : "ARS";
+  const history: DividendRecord[] = (
+    await getDividendHistory(holding.ticker, holding.category, currency)
+  ).map((d) => ({ date: d.date.toISOString().slice(0, 10), amount: d.amount }));
+  if (history.length === 0) return [];
+
+  let ratio = 1;
+  let announced: DividendRecord | null = null;
+
+  if (holding.category === "cedear") {
+    const cedearRatio = CEDEAR_RATIOS[holding.ticker];
+    if (!cedearRatio) {
+      warnings.push(`${holding.ticker}: CEDEAR ratio unknown, dividends not projected`);
+      return [];
+    }
+    ratio = cedearRatio;
+
+    const schedule = inferDividendSchedule(history, from);
+    const overview = schedule ? await getCompanyOverview(holding.ticker) : null;
+    if (schedule && overview?.dividendDate && overview.dividendPerShare > 0) {
+      announced = {
+        date: overview.dividendDate,
+        amount: (overview.dividendPerShare * schedule.intervalMonths) / 12,
+      };
+    }
+  }
+
+  return projectDividends(holding, history, currency, from, to, { ratio, announced });
+}
+
+/**
+ * Every projected payment of the user's open positions between `from`
+ * (exclusive) and `to` (inclusive), sorted by date.
+ */
+export async function projectUserIncome(
+  userId: string,
+  from: string,
+  to: string
+): Promise<{ payments: IncomePayment[]; warnings: string[] }> {
+  const rows = await db
+    .select({ ticker: assets.ticker, category: assets.category, quantity: assets.quantity })
+    .from(assets)
+    .where(and(eq(assets.userId, userId), gt(assets.quantity, "0")));
+
+  const holdings = new Map<string, IncomeHolding>();
+  for (const row of rows) {
+    const key = `${row.category}:${row.ticker}`;
+    const existing = holdings.get(key);
+    const quantity = Number(row.quantity) || 0;
+    if (existing) existing.quantity += quantity;
+    else holdings.set(key, { ticker: row.ticker, category: row.category, quantity });
+  }
+
+  const payments: IncomePayment[] = [];
+  const warnings: string[] = [];
+  const dividendPayers: IncomeHolding[] = [];
+
+  for (const holding of holdings.values()) {
+    const meta = getBondMeta(holding.ticker);
+    if (meta) {
+      if (meta.currency !== "USD") {
+        warnings.push(`${holding.ticker}: peso and CER-linked bond flows are not projected`);
+      }
+      payments.push(...projectBondIncome(holding, meta, from, to));
+    } else if (holding.category === "stock" || holding.category === "cedear") {
+      dividendPayers.push(holding);
+    }
+  }
+
+  for (let i = 0; i < dividendPayers.length; i += FETCH_BATCH) {
+    const batch = dividendPayers.slice(i, i + FETCH_BATCH);
+    const results = await Promise.all(
+      batch.map((h) => dividendPayments(h, from, to, warnings))
+    );
+    payments.push(...results.flat());
+  }
+
+  payments.sort((a, b) => a.date.localeCompare(b.date) || a.ticker.localeCompare(b.ticker));
+  return { payments, warnings };
+}
+
+/**
+ * Replace the user's stored projection (read by the weekly digest).
+ */
+export async function saveProjectedIncome(
+  userId: string,
+  payments: IncomePayment[]
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.delete(projectedIncome).where(eq(projectedIncome.userId, userId));
+    if (payments.length === 0) return;
+    await tx.insert(projectedIncome).values(
+      payments.map((p) => ({
+        userId,
+        ticker: p.ticker,
+        kind: p.kind,
+        payDate: p.date,
+        currency: p.currency,
+        amount: p.amount.toString(),
+        estimated: p.estimated,
+      }))
+    );
+  });
+}
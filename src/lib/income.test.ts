@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  groupByMonth,
+  inferDividendSchedule,
+  projectBondIncome,
+  projectDividends,
+} from "./income";
+import { getBondMeta } from "./bond-metadata";
+
+const QUARTERLY = [
+  { date: "2025-12-15", amount: 0.25 },
+  { date: "2026-03-15", amount: 0.25 },
+  { date: "2026-06-15", amount: 0.26 },
+  { date: "2026-09-15", amount: 0.26 },
+];
+
+// ===========================================================================
+// Bonds
+// ===========================================================================
+
+describe("projectBondIncome", () => {
+  it("splits each AL30 payment into coupon and amortization per VN", () => {
+    const payments = projectBondIncome(
+      { ticker: "AL30", category: "stock", quantity: 1000 },
+      getBondMeta("AL30")!,
+      "2026-10-19",
+      "2027-06-30"
+    );
+    expect(payments.map((p) => p.kind)).toEqual(["coupon", "amortization"]);
+    expect(payments[0].date).toBe("2027-01-09");
+    expect(payments[0].amount).toBeCloseTo(1000 * 0.64 * 0.0075 / 2, 10);
+    expect(payments[1].amount).toBeCloseTo(80, 10);
+    expect(payments.every((p) => p.currency === "USD" && !p.estimated)).toBe(true);
+  });
+
+  it("skips CER-linked bonds", () => {
+    const payments = projectBondIncome(
+      { ticker: "TX26", category: "stock", quantity: 1000 },
+      getBondMeta("TX26")!,
+      "2025-01-01",
+      "2026-12-31"
+    );
+    expect(payments).toEqual([]);
+  });
+});
+
+// ===========================================================================
+// Dividends
+// ===========================================================================
+
+describe("inferDividendSchedule", () => {
+  it("detects a quarterly payer and keeps the last amount", () => {
+    expect(inferDividendSchedule(QUARTERLY, "2026-10-19")).toEqual({
+      intervalMonths: 3,
+      amount: 0.26,
+      lastDate: "2026-09-15",
+    });
+  });
+
+  it("treats long-silent payers as suspended", () => {
+    expect(inferDividendSchedule([{ date: "2024-01-10", amount: 1 }], "2026-10-19")).toBeNull();
+  });
+});
+
+describe("projectDividends", () => {
+  const holding = { ticker: "KO", category: "cedear" as const, quantity: 50 };
+
+  it("projects the cadence forward and converts per CEDEAR", () => {
+    const payments = projectDividends(holding, QUARTERLY, "USD", "2026-10-19", "2027-06-30", {
+      ratio: 5,
+    });
+    expect(payments.map((p) => p.date)).toEqual(["2026-12-15", "2027-03-15", "2027-06-15"]);
+    expect(payments[0].perUnit).toBeCloseTo(0.052, 10);
+    expect(payments[0].amount).toBeCloseTo(2.6, 10);
+    expect(payments[0].estimated).toBe(true);
+  });
+
+  it("replaces the nearest projection with an announced payment", () => {
+    const payments = projectDividends(holding, QUARTERLY, "USD", "2026-10-19", "2027-01-31", {
+      announced: { date: "2026-12-01", amount: 0.3 },
+    });
+    expect(payments).toHaveLength(1);
+    expect(payments[0]).toMatchObject({ date: "2026-12-01", perUnit: 0.3, estimated: false });
+  });
+});
+
+// ===========================================================================
+// Calendar
+// ===========================================================================
+
+describe("groupByMonth", () => {
+  it("totals by currency and keeps empty months", () => {
+    const months = groupByMonth(
+      [
+        { date: "2026-12-15", ticker: "KO", kind: "dividend", currency: "USD", amount: 2, perUnit: 0.04, estimated: true },
+        { date: "2026-12-20", ticker: "GGAL", kind: "dividend", currency: "ARS", amount: 500, perUnit: 5, estimated: true },
+        { date: "2027-05-01", ticker: "X", kind: "coupon", currency: "USD", amount: 1, perUnit: 1, estimated: false },
+      ],
+      "2026-10-19",
+      3
+    );
+    expect(months.map((m) => m.month)).toEqual(["2026-10", "2026-11", "2026-12"]);
+    expect(months[2].totals).toEqual({ USD: 2, ARS: 500 });
+    expect(months[0].payments).toEqual([]);
+  });
+});
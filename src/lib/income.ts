@@ -0,0 +1,256 @@
+import { addMonths, buildCashflowSchedule } from "./bond-analytics";
+import type { BondMetadata } from "./bond-metadata";
+import type { AssetCategory, Currency } from "./constants";
+
+/**
+ * Projected income calendar.
+ *
+ * Bond coupons and amortizations come from the schedules in BOND_METADATA
+ * and are exact up to the terms recorded there. Dividends are estimates:
+ * the last paid amount repeated at the cadence seen over the past year,
+ * unless the issuer has announced the next payment date.
+ *
+ * Pure functions only; the API route loads holdings and dividend history.
+ */
+
+export const INCOME_KINDS = ["coupon", "amortization", "dividend"] as const;
+export type IncomeKind = (typeof INCOME_KINDS)[number];
+
+export const INCOME_KIND_LABELS: Record<IncomeKind, string> = {
+  coupon: "Renta",
+  amortization: "Amortizacion",
+  dividend: "Dividendo",
+};
+
+export interface IncomeHolding {
+  ticker: string;
+  category: AssetCategory;
+  /** Shares, or nominal value (VN) for bonds */
+  quantity: number;
+}
+
+export interface IncomePayment {
+  date: string;
+  ticker: string;
+  kind: IncomeKind;
+  currency: Currency;
+  /** Amount for the whole holding */
+  amount: number;
+  /** Amount per share, or per 1 VN for bonds */
+  perUnit: number;
+  /** False for scheduled bond flows and announced dividends */
+  estimated: boolean;
+}
+
+export interface IncomeMonth {
+  /** YYYY-MM */
+  month: string;
+  totals: Record<Currency, number>;
+  payments: IncomePayment[];
+}
+
+export interface DividendRecord {
+  date: string;
+  /** Per share, in the currency of the listing */
+  amount: number;
+}
+
+export interface DividendSchedule {
+  intervalMonths: number;
+  amount: number;
+  lastDate: string;
+}
+
+/**
+ * Shares of the underlying per CEDEAR is 1 / ratio. Ratios are set by the
+ * issuing banks and change with splits; tickers missing here are skipped.
+ */
+export const CEDEAR_RATIOS: Record<string, number> = {
+  AAPL: 20,
+  MSFT: 30,
+  GOOGL: 58,
+  AMZN: 144,
+  META: 24,
+  NVDA: 24,
+  KO: 5,
+  PEP: 18,
+  PG: 15,
+  JNJ: 15,
+  PFE: 4,
+  MRK: 5,
+  ABBV: 10,
+  JPM: 15,
+  BAC: 4,
+  C: 3,
+  GS: 13,
+  V: 18,
+  MA: 33,
+  WMT: 18,
+  MCD: 24,
+  HD: 32,
+  DIS: 12,
+  XOM: 10,
+  CVX: 16,
+  T: 3,
+  VZ: 4,
+  IBM: 15,
+  INTC: 5,
+  CSCO: 5,
+  QCOM: 11,
+  AVGO: 39,
+  SPY: 20,
+  QQQ: 20,
+  DIA: 20,
+  IWM: 10,
+  EEM: 5,
+};
+
+/** Unit of the bond schedules: amounts are per 100 VN */
+const BOND_SCHEDULE_FACE = 100;
+
+/**
+ * Coupons and amortizations of a bond holding between `from` (exclusive)
+ * and `to` (inclusive). Only hard-dollar bonds have a schedule here; peso
+ * and CER-linked issues need an index projection and are skipped.
+ */
+export function projectBondIncome(
+  holding: IncomeHolding,
+  meta: BondMetadata,
+  from: string,
+  to: string
+): IncomePayment[] {
+  if (meta.currency !== "USD" || !(holding.quantity > 0)) return [];
+
+  const out: IncomePayment[] = [];
+  for (const cf of buildCashflowSchedule(meta, from)) {
+    if (cf.date > to) break;
+    const parts: [IncomeKind, number][] = [
+      ["coupon", cf.coupon],
+      ["amortization", cf.amortization],
+    ];
+    for (const [kind, value] of parts) {
+      if (!(value > 0)) continue;
+      const perUnit = value / BOND_SCHEDULE_FACE;
+      out.push({
+        date: cf.date,
+        ticker: holding.ticker,
+        kind,
+        currency: "USD",
+        amount: perUnit * holding.quantity,
+        perUnit,
+        estimated: false,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Cadence and size of a dividend from its payment history. Null when the
+ * company hasn't paid in the last 18 months (suspended or irregular).
+ */
+export function inferDividendSchedule(
+  history: DividendRecord[],
+  asOf: string
+): DividendSchedule | null {
+  const paid = history.filter((d) => d.amount > 0 && d.date <= asOf);
+  if (paid.length === 0) return null;
+  const sorted = [...paid].sort((a, b) => a.date.localeCompare(b.date));
+  const last = sorted[sorted.length - 1];
+  if (last.date < addMonths(asOf, -18)) return null;
+
+  // Payments in the year up to the last one; a small margin absorbs
+  // calendar drift between quarters
+  const yearStart = addMonths(last.date, -12);
+  const perYear = sorted.filter((d) => d.date > yearStart).length;
+  const intervalMonths =
+    perYear >= 10 ? 1 : perYear >= 3 ? 3 : perYear === 2 ? 6 : 12;
+
+  return { intervalMonths, amount: last.amount, lastDate: last.date };
+}
+
+/**
+ * Projected dividends for a holding between `from` (exclusive) and `to`
+ * (inclusive). `ratio` converts per-share amounts to per-CEDEAR; an
+ * announced payment replaces the projection nearest to it.
+ */
+export function projectDividends(
+  holding: IncomeHolding,
+  history: DividendRecord[],
+  currency: Currency,
+  from: string,
+  to: string,
+  options: { ratio?: number; announced?: DividendRecord | null } = {}
+): IncomePayment[] {
+  if (!(holding.quantity > 0)) return [];
+  const ratio = options.ratio ?? 1;
+  const schedule = inferDividendSchedule(history, from);
+
+  const dates: { date: string; amount: number; estimated: boolean }[] = [];
+  if (schedule) {
+    for (let i = 1; ; i++) {
+      const date = addMonths(schedule.lastDate, schedule.intervalMonths * i);
+      if (date > to) break;
+      if (date > from) dates.push({ date, amount: schedule.amount, estimated: true });
+    }
+  }
+
+  const announced = options.announced;
+  if (announced && announced.date > from && announced.date <= to && announced.amount > 0) {
+    // Drop the projected payment closest to the announced one (within half a period)
+    const window = ((schedule?.intervalMonths ?? 12) * 30) / 2;
+    const t = Date.parse(`${announced.date}T00:00:00Z`);
+    let nearest = -1;
+    let best = Infinity;
+    dates.forEach((d, i) => {
+      const gap = Math.abs(Date.parse(`${d.date}T00:00:00Z`) - t) / 86_400_000;
+      if (gap < best) {
+        best = gap;
+        nearest = i;
+      }
+    });
+    if (nearest >= 0 && best <= window) dates.splice(nearest, 1);
+    dates.push({ ...announced, estimated: false });
+  }
+
+  return dates
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((d) => {
+      const perUnit = d.amount / ratio;
+      return {
+        date: d.date,
+        ticker: holding.ticker,
+        kind: "dividend" as const,
+        currency,
+        amount: perUnit * holding.quantity,
+        perUnit,
+        estimated: d.estimated,
+      };
+    });
+}
+
+/**
+ * Payments bucketed by calendar month, including empty months, for the
+ * `months` months starting with the one containing `from`.
+ */
+export function groupByMonth(
+  payments: IncomePayment[],
+  from: string,
+  months: number
+): IncomeMonth[] {
+  const first = `${from.slice(0, 7)}-01`;
+  const buckets = Array.from({ length: months }, (_, i): IncomeMonth => ({
+    month: addMonths(first, i).slice(0, 7),
+    totals: { USD: 0, ARS: 0 },
+    payments: [],
+  }));
+  const byMonth = new Map(buckets.map((b) => [b.month, b]));
+
+  for (const p of [...payments].sort((a, b) => a.date.localeCompare(b.date))) {
+    const bucket = byMonth.get(p.date.slice(0, 7));
+    if (!bucket) continue;
+    bucket.payments.push(p);
+    bucket.totals[p.currency] += p.amount;
+  }
+  return buckets;
+}
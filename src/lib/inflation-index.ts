@@ -0,0 +1,111 @@
+import { db } from "@/db";
+import { inflationIndexValues, taxLots, assets } from "@/db/schema";
+import { and, desc, eq, gt, gte } from "drizzle-orm";
+import { BCRA_VARIABLES, fetchBcraSeries } from "@/services/macro/client";
+import type { IndexValue, InflationIndex, LotInput } from "./inflation";
+
+/**
+ * Stored CER/UVA history. The BCRA publishes both indices ahead of time
+ * (CER is derived from past CPI), so once synced past today a series only
+ * needs a refresh every few weeks.
+ */
+
+/** UVA starts on 2016-03-31; CER is fetched from the same date */
+const SERIES_START = "2016-03-31";
+/** Days past today to request; the BCRA returns what it has published */
+const LOOKAHEAD_DAYS = 45;
+const INSERT_CHUNK = 500;
+
+const VARIABLE_IDS: Record<InflationIndex, number> = {
+  CER: BCRA_VARIABLES.cer,
+  UVA: BCRA_VARIABLES.uva,
+};
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Append the values published since the last stored date. Returns an error
+ * message when the BCRA fails; what was fetched before it is kept.
+ */
+export async function syncInflationIndex(index: InflationIndex): Promise<string | null> {
+  const today = new Date().toISOString().slice(0, 10);
+  const [latest] = await db
+    .select({ date: inflationIndexValues.date })
+    .from(inflationIndexValues)
+    .where(eq(inflationIndexValues.index, index))
+    .orderBy(desc(inflationIndexValues.date))
+    .limit(1);
+
+  if (latest && latest.date >= today) return null;
+
+  const from = latest ? addDays(latest.date, 1) : SERIES_START;
+  const { series, error } = await fetchBcraSeries(
+    VARIABLE_IDS[index],
+    index,
+    from,
+    addDays(today, LOOKAHEAD_DAYS)
+  );
+
+  for (let i = 0; i < series.length; i += INSERT_CHUNK) {
+    await db
+      .insert(inflationIndexValues)
+      .values(
+        series.slice(i, i + INSERT_CHUNK).map((v) => ({
+          index,
+          date: v.date,
+          value: v.value.toString(),
+        }))
+      )
+      .onConflictDoNothing();
+  }
+
+  return error;
+}
+
+/** Stored values of an index, oldest first, optionally from a date on */
+export async function loadInflationIndex(
+  index: InflationIndex,
+  since?: string
+): Promise<IndexValue[]> {
+  const rows = await db
+    .select({ date: inflationIndexValues.date, value: inflationIndexValues.value })
+    .from(inflationIndexValues)
+    .where(
+      since
+        ? and(eq(inflationIndexValues.index, index), gte(inflationIndexValues.date, since))
+        : eq(inflationIndexValues.index, index)
+    )
+    .orderBy(inflationIndexValues.date);
+  return rows.map((r) => ({ date: r.date, value: Number(r.value) }));
+}
+
+/** Open ARS lots of the user, for inflation-adjusted cost basis */
+export async function loadArsOpenLots(userId: string): Promise<LotInput[]> {
+  const rows = await db
+    .select({
+      ticker: assets.ticker,
+      openedAt: taxLots.openedAt,
+      remainingQuantity: taxLots.remainingQuantity,
+      costPerUnit: taxLots.costPerUnit,
+    })
+    .from(taxLots)
+    .innerJoin(assets, eq(taxLots.assetId, assets.id))
+    .where(
+      and(
+        eq(taxLots.userId, userId),
+        eq(taxLots.currency, "ARS"),
+        gt(taxLots.remainingQuantity, "0")
+      )
+    );
+
+  return rows.map((r) => ({
+    ticker: r.ticker,
+    openedAt: r.openedAt.toISOString().slice(0, 10),
+    quantity: Number(r.remainingQuantity),
+    costPerUnit: Number(r.costPerUnit),
+  }));
+}
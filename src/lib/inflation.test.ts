@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  cerIndexRatio,
+  indexOnDate,
+  inflationFactor,
+  realCostBasis,
+  realReturnPercent,
+} from "./inflation";
+import { getBondMeta } from "./bond-metadata";
+
+const CER = [
+  { date: "2026-01-01", value: 100 },
+  { date: "2026-02-01", value: 110 },
+  { date: "2026-03-01", value: 121 },
+];
+
+// ===========================================================================
+// Index lookups
+// ===========================================================================
+
+describe("indexOnDate", () => {
+  it("carries the last value forward and is null before the series", () => {
+    expect(indexOnDate(CER, "2026-02-15")).toBe(110);
+    expect(indexOnDate(CER, "2027-01-01")).toBe(121);
+    expect(indexOnDate(CER, "2025-12-31")).toBeNull();
+  });
+});
+
+describe("inflationFactor", () => {
+  it("is the growth of the index between two dates", () => {
+    expect(inflationFactor(CER, "2026-01-01", "2026-03-01")).toBeCloseTo(1.21, 10);
+    expect(inflationFactor(CER, "2025-06-01", "2026-03-01")).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Real returns
+// ===========================================================================
+
+describe("realCostBasis", () => {
+  it("carries each lot's cost by the index since its purchase", () => {
+    const basis = realCostBasis(
+      [
+        { ticker: "GGAL", openedAt: "2026-01-01", quantity: 10, costPerUnit: 100 },
+        { ticker: "GGAL", openedAt: "2026-02-01", quantity: 10, costPerUnit: 100 },
+      ],
+      CER,
+      "2026-03-01"
+    ).get("GGAL")!;
+    expect(basis.nominalCost).toBe(2000);
+    expect(basis.adjustedCost).toBeCloseTo(1000 * 1.21 + 1000 * 1.1, 8);
+    expect(basis.coverage).toBe(1);
+  });
+
+  it("leaves lots older than the series at nominal cost", () => {
+    const basis = realCostBasis(
+      [{ ticker: "YPFD", openedAt: "2015-01-01", quantity: 1, costPerUnit: 50 }],
+      CER,
+      "2026-03-01"
+    ).get("YPFD")!;
+    expect(basis.factor).toBe(1);
+    expect(basis.coverage).toBe(0);
+  });
+});
+
+describe("realReturnPercent", () => {
+  it("turns a nominal gain into a real loss when inflation is higher", () => {
+    // +15% nominal against +21% CER
+    expect(realReturnPercent(1150, 1000, 1.21)).toBeCloseTo((1150 / 1210 - 1) * 100, 10);
+    expect(realReturnPercent(100, 0, 1.2)).toBeNull();
+  });
+});
+
+describe("cerIndexRatio", () => {
+  it("uses the lagged CER over the bond's base coefficient", () => {
+    const tx26 = getBondMeta("TX26")!;
+    const series = [{ date: "2026-02-10", value: tx26.cerBase! * 25 }];
+    expect(cerIndexRatio(tx26, series, "2026-03-01")).toBeCloseTo(25, 10);
+    // Lag pushes the lookup before the series
+    expect(cerIndexRatio(tx26, series, "2026-02-20")).toBeNull();
+    expect(cerIndexRatio(getBondMeta("AL30")!, series, "2026-03-01")).toBeNull();
+  });
+});
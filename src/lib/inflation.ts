@@ -0,0 +1,137 @@
+import type { BondMetadata } from "./bond-metadata";
+
+/**
+ * Inflation adjustment for ARS positions.
+ *
+ * CER (daily, from monthly CPI) and UVA (CER-linked housing unit) are the
+ * BCRA indices Argentine contracts adjust by. A position's real return
+ * compares its current value with its cost carried forward by the index
+ * from each lot's purchase date. USD positions are left nominal.
+ */
+
+export const INFLATION_INDICES = ["CER", "UVA"] as const;
+export type InflationIndex = (typeof INFLATION_INDICES)[number];
+
+export const RETURN_MODES = ["nominal", ...INFLATION_INDICES] as const;
+export type ReturnMode = (typeof RETURN_MODES)[number];
+
+export const RETURN_MODE_LABELS: Record<ReturnMode, string> = {
+  nominal: "Nominal",
+  CER: "Real (CER)",
+  UVA: "Real (UVA)",
+};
+
+/** Boncer adjustments use the CER of 10 business days before the date */
+export const CER_LAG_DAYS = 14;
+
+export interface IndexValue {
+  /** YYYY-MM-DD */
+  date: string;
+  value: number;
+}
+
+export interface LotInput {
+  ticker: string;
+  /** YYYY-MM-DD */
+  openedAt: string;
+  quantity: number;
+  costPerUnit: number;
+}
+
+export interface RealCostBasis {
+  nominalCost: number;
+  /** Cost of each lot carried to `asOf` by the index */
+  adjustedCost: number;
+  /** adjustedCost / nominalCost */
+  factor: number;
+  /** Share of the cost bought inside the index history (0-1) */
+  coverage: number;
+}
+
+/**
+ * Index value in force on a date: the last one on or before it. Null
+ * before the series starts. Series sorted by date.
+ */
+export function indexOnDate(series: IndexValue[], date: string): number | null {
+  let lo = 0;
+  let hi = series.length - 1;
+  let found: number | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].date <= date) {
+      found = series[mid].value;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** Growth of the index between two dates, or null outside its history */
+export function inflationFactor(series: IndexValue[], from: string, to: string): number | null {
+  const start = indexOnDate(series, from);
+  const end = indexOnDate(series, to);
+  if (start === null || end === null || !(start > 0)) return null;
+  return end / start;
+}
+
+/**
+ * Inflation-adjusted cost basis per ticker from its open lots. Lots bought
+ * before the index history stay at nominal cost and lower `coverage`.
+ */
+export function realCostBasis(
+  lots: LotInput[],
+  series: IndexValue[],
+  asOf: string
+): Map<string, RealCostBasis> {
+  const acc = new Map<string, { nominal: number; adjusted: number; covered: number }>();
+  for (const lot of lots) {
+    const cost = lot.quantity * lot.costPerUnit;
+    if (!(cost > 0)) continue;
+    const factor = inflationFactor(series, lot.openedAt, asOf);
+    const entry = acc.get(lot.ticker) ?? { nominal: 0, adjusted: 0, covered: 0 };
+    entry.nominal += cost;
+    entry.adjusted += cost * (factor ?? 1);
+    if (factor !== null) entry.covered += cost;
+    acc.set(lot.ticker, entry);
+  }
+
+  const out = new Map<string, RealCostBasis>();
+  for (const [ticker, e] of acc) {
+    out.set(ticker, {
+      nominalCost: e.nominal,
+      adjustedCost: e.adjusted,
+      factor: e.adjusted / e.nominal,
+      coverage: e.covered / e.nominal,
+    });
+  }
+  return out;
+}
+
+/** Percent return over an inflation-adjusted cost */
+export function realReturnPercent(
+  currentValue: number,
+  nominalCost: number,
+  factor: number
+): number | null {
+  const adjusted = nominalCost * factor;
+  if (!(adjusted > 0)) return null;
+  return (currentValue / adjusted - 1) * 100;
+}
+
+/**
+ * CER accrued since issue for a Boncer: the lagged CER over the bond's base
+ * coefficient. Null without a base or index data.
+ */
+export function cerIndexRatio(
+  meta: BondMetadata,
+  series: IndexValue[],
+  settlement: string
+): number | null {
+  if (meta.currency !== "CER" || !meta.cerBase) return null;
+  const lagged = new Date(`${settlement}T00:00:00Z`);
+  lagged.setUTCDate(lagged.getUTCDate() - CER_LAG_DAYS);
+  const cer = indexOnDate(series, lagged.toISOString().slice(0, 10));
+  return cer !== null ? cer / meta.cerBase : null;
+}
@@ -0,0 +1,187 @@
+import { db } from "@/db";
+import {
+  assets,
+  transactions,
+  taxLots,
+  realizedGains,
+  userPortfolioSettings,
+  type Asset,
+} from "@/db/schema";
+import { eq, and, gt } from "drizzle-orm";
+import { buildLedger, type LedgerResult } from "./tax-lots";
+import type { AssetCategory, CostBasisMethod } from "./constants";
+
+/**
+ * Server-side persistence for the tax-lot ledger.
+ *
+ * Lots and realized gains are derived data: they are always rebuilt from the
+ * asset's full transaction history, never patched incrementally.
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+/**
+ * Read the user's cost-basis method (defaults to FIFO).
+ */
+export async function getCostBasisMethod(
+  executor: DbExecutor,
+  userId: string
+): Promise<CostBasisMethod> {
+  const settings = await executor.query.userPortfolioSettings.findFirst({
+    where: eq(userPortfolioSettings.userId, userId),
+  });
+  return settings?.costBasisMethod ?? "fifo";
+}
+
+/**
+ * Rebuild lots and realized gains for one asset from its transactions.
+ *
+ * When `updatePosition` is set, the asset's quantity and average price are
+ * overwritten with the ledger's result. Broker-synced assets (those with an
+ * account) never are: their opening lot is empty, so the ledger only knows
+ * the recorded trades, and the broker stays the source of truth for the
+ * position itself.
+ */
+export async function rebuildAssetLedger(
+  executor: DbExecutor,
+  asset: Asset,
+  method: CostBasisMethod,
+  { updatePosition = true }: { updatePosition?: boolean } = {}
+): Promise<LedgerResult> {
+  const rows = await executor.query.transactions.findMany({
+    where: and(
+      eq(transactions.assetId, asset.id),
+      eq(transactions.userId, asset.userId)
+    ),
+  });
+
+  const ledger = buildLedger(
+    rows.map((t) => ({
+      id: t.id,
+      type: t.type,
+      quantity: Number(t.quantity),
+      pricePerUnit: Number(t.pricePerUnit),
+      executedAt: t.executedAt,
+      createdAt: t.createdAt,
+    })),
+    method,
+    {
+      quantity: Number(asset.openingQuantity),
+      costPerUnit: Number(asset.openingAveragePrice),
+      openedAt: asset.createdAt,
+    }
+  );
+
+  await executor.delete(realizedGains).where(eq(realizedGains.assetId, asset.id));
+  await executor.delete(taxLots).where(eq(taxLots.assetId, asset.id));
+
+  if (ledger.lots.length > 0) {
+    await executor.insert(taxLots).values(
+      ledger.lots.map((lot) => ({
+        userId: asset.userId,
+        assetId: asset.id,
+        buyTransactionId: lot.buyTransactionId,
+        openedAt: lot.openedAt,
+        quantity: lot.quantity.toString(),
+        remainingQuantity: lot.remainingQuantity.toString(),
+        costPerUnit: lot.costPerUnit.toString(),
+        currency: asset.currency,
+      }))
+    );
+  }
+
+  if (ledger.matches.length > 0) {
+    await executor.insert(realizedGains).values(
+      ledger.matches.map((m) => ({
+        userId: asset.userId,
+        assetId: asset.id,
+        sellTransactionId: m.sellTransactionId,
+        buyTransactionId: m.buyTransactionId,
+        method,
+        quantity: m.quantity.toString(),
+        proceeds: m.proceeds.toString(),
+        costBasis: m.costBasis.toString(),
+        realizedPnl: m.realizedPnl.toString(),
+        currency: asset.currency,
+        acquiredAt: m.acquiredAt,
+        disposedAt: m.disposedAt,
+      }))
+    );
+  }
+
+  if (updatePosition && !asset.accountId) {
+    await executor
+      .update(assets)
+      .set({
+        quantity: ledger.quantity.toString(),
+        averagePrice: ledger.averagePrice.toString(),
+        updatedAt: new Date(),
+      })
+      .where(eq(assets.id, asset.id));
+  }
+
+  return ledger;
+}
+
+/**
+ * Rebuild every asset's ledger for a user (e.g. after changing the method).
+ * Positions are left untouched: only the lot matching changes.
+ */
+export async function rebuildUserLedger(
+  executor: DbExecutor,
+  userId: string,
+  method: CostBasisMethod
+): Promise<number> {
+  const userAssets = await executor.query.assets.findMany({
+    where: eq(assets.userId, userId),
+  });
+
+  for (const asset of userAssets) {
+    await rebuildAssetLedger(executor, asset, method, { updatePosition: false });
+  }
+
+  return userAssets.length;
+}
+
+/**
+ * Average cost of the open lots of each asset in `category`, by ticker.
+ * Broker-synced positions keep the broker's quantity, so for brokers that
+ * report no cost basis (Binance) the lots are the only source of one.
+ * Pass `accountId` to only count one broker account's assets.
+ */
+export async function loadOpenLotCostBasis(
+  userId: string,
+  category: AssetCategory,
+  accountId?: string
+): Promise<Map<string, number>> {
+  const rows = await db
+    .select({
+      ticker: assets.ticker,
+      remainingQuantity: taxLots.remainingQuantity,
+      costPerUnit: taxLots.costPerUnit,
+    })
+    .from(taxLots)
+    .innerJoin(assets, eq(taxLots.assetId, assets.id))
+    .where(
+      and(
+        eq(taxLots.userId, userId),
+        eq(assets.category, category),
+        accountId ? eq(assets.accountId, accountId) : undefined,
+        gt(taxLots.remainingQuantity, "0")
+      )
+    );
+
+  const totals = new Map<string, { quantity: number; cost: number }>();
+  for (const r of rows) {
+    const quantity = Number(r.remainingQuantity);
+    const t = totals.get(r.ticker) ?? { quantity: 0, cost: 0 };
+    t.quantity += quantity;
+    t.cost += quantity * Number(r.costPerUnit);
+    totals.set(r.ticker, t);
+  }
+
+  return new Map(
+    [...totals].map(([ticker, t]) => [ticker, t.quantity > 0 ? t.cost / t.quantity : 0])
+  );
+}
@@ -7,6 +7,8 @@ import {
   History,
   BarChart3,
   Bell,
+  Receipt,
+  CalendarClock,
   type LucideIcon,
 } from "lucide-react";
 
@@ -34,6 +36,8 @@ export const NAV_ITEMS: NavItem[] = [
   { href: "/funds", label: "Fondos", icon: Landmark, accent: "green" },
   { href: "/history", label: "Historial", icon: History, accent: "cyan" },
   { href: "/analytics", label: "Analiticas", icon: BarChart3, accent: "purple" },
+  { href: "/taxes", label: "Impuestos", icon: Receipt, accent: "amber" },
+  { href: "/income", label: "Rentas", icon: CalendarClock, accent: "green" },
 ];
 
 /** Items shown in mobile bottom tab bar (max 4 + "More") */
@@ -49,6 +53,8 @@ export const MOBILE_MORE_ITEMS: NavItem[] = [
   NAV_ITEMS[5], // Historial
   NAV_ITEMS[3], // MEP
   NAV_ITEMS[6], // Analytics
+  NAV_ITEMS[7], // Impuestos
+  NAV_ITEMS[8], // Rentas
 ];
 
 export const ALERTS_NAV: NavItem = {
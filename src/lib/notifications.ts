@@ -0,0 +1,90 @@
+import { db } from "@/db";
+import { notifications } from "@/db/schema";
+import { and, eq, gte, isNull } from "drizzle-orm";
+import type { NotificationKind } from "./constants";
+
+/**
+ * Server-side writer for the in-app notification center. Edge functions
+ * insert into the same table directly.
+ *
+ * Notifying never throws: a failed insert is logged and the caller's
+ * request carries on.
+ */
+
+export interface NotifyInput {
+  kind: NotificationKind;
+  title: string;
+  body?: string;
+  link?: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface NotifyOptions {
+  /** Skip if an unread notification with the same kind and title is this recent */
+  dedupeHours?: number;
+}
+
+export async function notify(
+  userId: string,
+  input: NotifyInput,
+  options: NotifyOptions = {}
+): Promise<void> {
+  try {
+    if (options.dedupeHours) {
+      const since = new Date(Date.now() - options.dedupeHours * 3_600_000);
+      const existing = await db.query.notifications.findFirst({
+        where: and(
+          eq(notifications.userId, userId),
+          eq(notifications.kind, input.kind),
+          eq(notifications.title, input.title),
+          isNull(notifications.readAt),
+          gte(notifications.createdAt, since)
+        ),
+      });
+      if (existing) return;
+    }
+
+    await db.insert(notifications).values({
+      userId,
+      kind: input.kind,
+      title: input.title.slice(0, 200),
+      body: input.body ?? null,
+      link: input.link ?? null,
+      metadata: input.metadata ?? null,
+    });
+  } catch (error) {
+    console.error("[Notifications] Error:", error);
+  }
+}
+
+const PROVIDER_NAMES: Record<string, string> = {
+  iol: "IOL",
+  ppi: "PPI",
+  binance: "Binance",
+};
+
+/**
+ * Broker sync failure. Syncs retry often, so repeats are folded into the
+ * unread notification for a few hours.
+ */
+export function notifySyncFailure(
+  userId: string,
+  provider: string,
+  message: string,
+  expired = false
+): Promise<void> {
+  const name = PROVIDER_NAMES[provider] ?? provider;
+  return notify(
+    userId,
+    {
+      kind: "sync_failure",
+      title: expired
+        ? `La conexion con ${name} expiro`
+        : `Fallo la sincronizacion con ${name}`,
+      body: expired ? "Volve a conectar la cuenta desde Configuracion." : message,
+      link: "/settings",
+      metadata: { provider },
+    },
+    { dedupeHours: 6 }
+  );
+}
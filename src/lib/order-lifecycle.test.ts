@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  binanceOrderStatus,
+  iolOrderStatus,
+  isOpenOrder,
+  orderEvent,
+  ppiOrderStatus,
+} from "./order-lifecycle";
+
+const NOW = new Date("2026-03-10T15:00:00Z");
+
+function op(estado: string, cantidadOperada?: number, validez?: string) {
+  return { estado, cantidad: 10, cantidadOperada, validez };
+}
+
+// ============================================================================
+// iolOrderStatus
+// ============================================================================
+
+describe("iolOrderStatus", () => {
+  it("maps IOL states", () => {
+    expect(iolOrderStatus(op("iniciada"), NOW)).toBe("pending");
+    expect(iolOrderStatus(op("pendiente"), NOW)).toBe("pending");
+    expect(iolOrderStatus(op("terminada", 10), NOW)).toBe("filled");
+    expect(iolOrderStatus(op("Parcialmente terminada", 4), NOW)).toBe("partial");
+    expect(iolOrderStatus(op("cancelada"), NOW)).toBe("cancelled");
+    expect(iolOrderStatus(op("rechazada"), NOW)).toBe("cancelled");
+  });
+
+  it("treats validity cancellations as expired", () => {
+    expect(iolOrderStatus(op("Cancelada por vencimiento de validez"), NOW)).toBe("expired");
+  });
+
+  it("reads fills off orders IOL still reports as pending", () => {
+    expect(iolOrderStatus(op("pendiente", 3), NOW)).toBe("partial");
+    expect(iolOrderStatus(op("en proceso", 10), NOW)).toBe("filled");
+  });
+
+  it("expires open orders past their validity date", () => {
+    expect(iolOrderStatus(op("pendiente", 0, "2026-03-09T00:00:00"), NOW)).toBe("expired");
+    expect(iolOrderStatus(op("pendiente", 0, "2026-03-10T00:00:00"), NOW)).toBe("pending");
+  });
+});
+
+describe("ppiOrderStatus", () => {
+  function detail(Status: string, ExecutedQuantity?: number, OperationMaxDate?: string) {
+    return { Status, Quantity: 10, ExecutedQuantity, OperationMaxDate };
+  }
+
+  it("maps PPI states", () => {
+    expect(ppiOrderStatus(detail("PENDIENTE"), NOW)).toBe("pending");
+    expect(ppiOrderStatus(detail("PARCIALMENTE EJECUTADA", 4), NOW)).toBe("partial");
+    expect(ppiOrderStatus(detail("EJECUTADA", 10), NOW)).toBe("filled");
+    expect(ppiOrderStatus(detail("CANCELADA"), NOW)).toBe("cancelled");
+    expect(ppiOrderStatus(detail("RECHAZADA"), NOW)).toBe("cancelled");
+    expect(ppiOrderStatus(detail("VENCIDA", 2), NOW)).toBe("expired");
+  });
+
+  it("expires open orders past their max date", () => {
+    expect(ppiOrderStatus(detail("PENDIENTE", 0, "2026-03-09"), NOW)).toBe("expired");
+  });
+});
+
+describe("binanceOrderStatus", () => {
+  it("maps Binance status codes", () => {
+    expect(binanceOrderStatus({ status: "NEW", executedQty: "0" })).toBe("pending");
+    expect(binanceOrderStatus({ status: "PARTIALLY_FILLED", executedQty: "0.1" })).toBe("partial");
+    expect(binanceOrderStatus({ status: "FILLED", executedQty: "1" })).toBe("filled");
+    expect(binanceOrderStatus({ status: "CANCELED", executedQty: "0" })).toBe("cancelled");
+    expect(binanceOrderStatus({ status: "REJECTED", executedQty: "0" })).toBe("cancelled");
+    expect(binanceOrderStatus({ status: "EXPIRED", executedQty: "0" })).toBe("expired");
+  });
+});
+
+describe("isOpenOrder", () => {
+  it("is true only for pending and partial orders", () => {
+    expect(isOpenOrder("pending")).toBe(true);
+    expect(isOpenOrder("partial")).toBe(true);
+    expect(isOpenOrder("filled")).toBe(false);
+    expect(isOpenOrder("expired")).toBe(false);
+  });
+});
+
+// ============================================================================
+// orderEvent
+// ============================================================================
+
+describe("orderEvent", () => {
+  const pending = { status: "pending" as const, filledQuantity: 0 };
+
+  it("returns null when nothing changed", () => {
+    expect(orderEvent(pending, pending)).toBeNull();
+    expect(
+      orderEvent({ status: "partial", filledQuantity: 4 }, { status: "partial", filledQuantity: 4 })
+    ).toBeNull();
+  });
+
+  it("reports each new partial fill", () => {
+    expect(orderEvent(pending, { status: "partial", filledQuantity: 4 })).toBe("partial_fill");
+    expect(
+      orderEvent({ status: "partial", filledQuantity: 4 }, { status: "partial", filledQuantity: 7 })
+    ).toBe("partial_fill");
+  });
+
+  it("reports terminal states", () => {
+    expect(orderEvent(pending, { status: "filled", filledQuantity: 10 })).toBe("filled");
+    expect(
+      orderEvent({ status: "partial", filledQuantity: 4 }, { status: "cancelled", filledQuantity: 4 })
+    ).toBe("cancelled");
+    expect(orderEvent(pending, { status: "expired", filledQuantity: 0 })).toBe("expired");
+  });
+});
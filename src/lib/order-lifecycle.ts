@@ -0,0 +1,111 @@
+/**
+ * Broker order lifecycle: pending -> partial -> filled, or cancelled /
+ * expired at any point before the fill completes (keeping whatever was
+ * already filled).
+ *
+ * `iolOrderStatus` reads IOL's free-text `estado` together with the filled
+ * quantity, since IOL reports some partial fills as plain "pendiente".
+ * PPI's `Status` uses the same Spanish vocabulary, so `ppiOrderStatus`
+ * shares the reading. Binance reports a fixed set of status codes.
+ */
+
+import type { IOLOperation } from "@/services/iol";
+import type { PPIOrderDetail } from "@/services/ppi";
+import type { BinanceOrder } from "@/services/binance";
+import type { OrderStatus } from "./constants";
+
+export const OPEN_ORDER_STATUSES: readonly OrderStatus[] = ["pending", "partial"];
+
+export function isOpenOrder(status: OrderStatus): boolean {
+  return OPEN_ORDER_STATUSES.includes(status);
+}
+
+export function iolOrderStatus(
+  op: Pick<IOLOperation, "estado" | "cantidad" | "cantidadOperada" | "validez">,
+  now: Date = new Date()
+): OrderStatus {
+  return readOrderStatus(op.estado, op.cantidad, op.cantidadOperada ?? 0, op.validez, now);
+}
+
+export function ppiOrderStatus(
+  detail: Pick<PPIOrderDetail, "Status" | "Quantity" | "ExecutedQuantity" | "OperationMaxDate">,
+  now: Date = new Date()
+): OrderStatus {
+  return readOrderStatus(
+    detail.Status,
+    detail.Quantity,
+    detail.ExecutedQuantity ?? 0,
+    detail.OperationMaxDate,
+    now
+  );
+}
+
+function readOrderStatus(
+  state: string,
+  quantity: number,
+  filled: number,
+  validUntil: string | undefined,
+  now: Date
+): OrderStatus {
+  const estado = state.toLowerCase();
+
+  if (estado.includes("venc")) return "expired";
+  if (estado.includes("cancel") || estado.includes("rechaz")) return "cancelled";
+  if (estado.includes("parcial")) return "partial";
+  if (estado.includes("terminada") || estado.includes("ejecutada")) return "filled";
+
+  if (filled > 0) return filled >= quantity ? "filled" : "partial";
+
+  // Still open past its validity date: brokers drop these at the close
+  if (validUntil && validUntil.slice(0, 10) < now.toISOString().slice(0, 10)) {
+    return "expired";
+  }
+  return "pending";
+}
+
+export function binanceOrderStatus(
+  order: Pick<BinanceOrder, "status" | "executedQty">
+): OrderStatus {
+  switch (order.status) {
+    case "FILLED":
+      return "filled";
+    case "PARTIALLY_FILLED":
+      return "partial";
+    case "EXPIRED":
+    case "EXPIRED_IN_MATCH":
+      return "expired";
+    case "CANCELED":
+    case "PENDING_CANCEL":
+    case "REJECTED":
+      return "cancelled";
+    default:
+      return Number(order.executedQty) > 0 ? "partial" : "pending";
+  }
+}
+
+export type OrderEvent = "partial_fill" | "filled" | "cancelled" | "expired";
+
+/**
+ * What changed between two polls, for notifications. A new partial fill
+ * on an order that was already partial counts as another partial fill.
+ */
+export function orderEvent(
+  previous: { status: OrderStatus; filledQuantity: number },
+  next: { status: OrderStatus; filledQuantity: number }
+): OrderEvent | null {
+  if (next.status === previous.status && next.filledQuantity === previous.filledQuantity) {
+    return null;
+  }
+  switch (next.status) {
+    case "filled":
+      return "filled";
+    case "cancelled":
+      return "cancelled";
+    case "expired":
+      return "expired";
+    case "partial":
+      return next.filledQuantity > previous.filledQuantity ? "partial_fill" : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,385 @@
+import { db } from "@/db";
+import {
+  orders,
+  userConnections,
+  type NewOrder,
+  type Order,
+  type UserConnection,
+} from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { IOLClient, IOLTokenExpiredError } from "@/services/iol";
+import type { IOLToken } from "@/services/iol";
+import { PPIClient, PPITokenExpiredError } from "@/services/ppi";
+import type { PPICredentials } from "@/services/ppi";
+import { BinanceClient, type BinanceCredentials } from "@/services/binance";
+import { decryptCredentials, encryptCredentials } from "./crypto";
+import {
+  mapIOLOperation,
+  mapPPIOrderFill,
+  mapBinanceTrade,
+  type ExternalTrade,
+} from "./broker-history";
+import { ingestExternalTrades } from "./broker-ingest";
+import { findBrokerConnection, saveRefreshedCredentials } from "./broker-connections";
+import {
+  iolOrderStatus,
+  ppiOrderStatus,
+  binanceOrderStatus,
+  orderEvent,
+  OPEN_ORDER_STATUSES,
+  type OrderEvent,
+} from "./order-lifecycle";
+import type { OrderStatus, TransactionSource } from "./constants";
+import { notify, notifySyncFailure } from "./notifications";
+
+/**
+ * Persistence and polling for orders placed through the app.
+ *
+ * Routes call `trackPlacedOrder` once the broker accepts an order; the
+ * scheduled `pollOpenOrders` then follows it until it is filled, cancelled
+ * or expired. Filled quantity lands in the transaction ledger under the
+ * same external ids the history sync uses, so the two never double count.
+ */
+
+/** Look back this far before the oldest open order when listing IOL operations */
+const POLL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export type TrackOrderInput = Omit<
+  NewOrder,
+  "id" | "status" | "filledQuantity" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * The account a tracked order was placed through, for cancelling or
+ * modifying it; orders the app never tracked go through the first account.
+ */
+export async function findOrderConnection(
+  userId: string,
+  provider: string,
+  externalId: string
+): Promise<UserConnection | undefined> {
+  const order = await db.query.orders.findFirst({
+    where: and(
+      eq(orders.userId, userId),
+      eq(orders.provider, provider),
+      eq(orders.externalId, externalId)
+    ),
+  });
+  return findBrokerConnection(userId, provider, order?.accountId);
+}
+
+/** Record an accepted order. Never throws: the order is already live at the broker. */
+export async function trackPlacedOrder(input: TrackOrderInput): Promise<Order | null> {
+  try {
+    const [order] = await db
+      .insert(orders)
+      .values(input)
+      .onConflictDoNothing({ target: [orders.userId, orders.provider, orders.externalId] })
+      .returning();
+    return order ?? null;
+  } catch (error) {
+    console.error("[Orders] Track Error:", error);
+    return null;
+  }
+}
+
+export interface OrderPollSummary {
+  checked: number;
+  updated: number;
+  filled: number;
+}
+
+/** The broker's view of an order, normalized across providers */
+interface OrderState {
+  status: OrderStatus;
+  filledQuantity: number;
+  fillPrice?: number;
+  filledAt?: string;
+}
+
+/**
+ * Refresh every open order, or only `userId`'s when given, each through
+ * the account it was placed from. One IOL operations listing per account
+ * covers all of its orders; PPI and Binance orders are looked up one by one.
+ */
+export async function pollOpenOrders(userId?: string): Promise<OrderPollSummary> {
+  const summary: OrderPollSummary = { checked: 0, updated: 0, filled: 0 };
+
+  const open = await db
+    .select()
+    .from(orders)
+    .where(
+      and(
+        inArray(orders.status, [...OPEN_ORDER_STATUSES]),
+        inArray(orders.provider, ["iol", "ppi", "binance"]),
+        userId ? eq(orders.userId, userId) : undefined
+      )
+    );
+  if (open.length === 0) return summary;
+
+  const byAccount = new Map<string, Order[]>();
+  for (const order of open) {
+    const key = `${order.userId}|${order.provider}|${order.accountId ?? ""}`;
+    const list = byAccount.get(key) ?? [];
+    list.push(order);
+    byAccount.set(key, list);
+  }
+
+  for (const [key, userOrders] of byAccount) {
+    const [uid, provider, accountId] = key.split("|");
+    // Orders tracked without an account went through the first one
+    const connection = await findBrokerConnection(uid, provider, accountId || null);
+    if (!connection) continue;
+
+    if (provider === "ppi") {
+      await pollPPIOrders(connection, userOrders, summary);
+    } else if (provider === "binance") {
+      await pollBinanceOrders(connection, userOrders, summary);
+    } else {
+      await pollIOLOrders(connection, userOrders, summary);
+    }
+  }
+
+  return summary;
+}
+
+async function pollIOLOrders(
+  connection: UserConnection,
+  userOrders: Order[],
+  summary: OrderPollSummary
+): Promise<void> {
+  const token = decryptCredentials<IOLToken>(connection.credentials);
+  const client = new IOLClient(token);
+
+  try {
+    const oldest = Math.min(...userOrders.map((o) => o.createdAt.getTime()));
+    const operations = await client.getOperations(
+      "todas",
+      new Date(oldest - POLL_LOOKBACK_MS)
+    );
+    const byNumero = new Map(operations.map((op) => [String(op.numero), op]));
+
+    for (const order of userOrders) {
+      summary.checked++;
+      const op = byNumero.get(order.externalId);
+      if (!op) continue;
+
+      const status = iolOrderStatus(op);
+      const filledQuantity = op.cantidadOperada ?? (status === "filled" ? op.cantidad : 0);
+      const event = await applyOrderState(
+        order,
+        { status, filledQuantity, fillPrice: op.precioOperado, filledAt: op.fechaOperada },
+        // Same external id as the IOL history sync
+        async () => {
+          const trade = mapIOLOperation({ ...op, cantidadOperada: filledQuantity });
+          return trade ? [trade] : [];
+        },
+        connection.id
+      );
+      if (event) summary.updated++;
+      if (event === "filled") summary.filled++;
+    }
+  } catch (error) {
+    if (error instanceof IOLTokenExpiredError) {
+      await notifySyncFailure(connection.userId, "iol", error.message, true);
+    } else {
+      console.error("[Orders] Poll Error:", error);
+    }
+  } finally {
+    const newToken = client.getToken();
+    if (newToken && newToken.access_token !== token.access_token) {
+      await db
+        .update(userConnections)
+        .set({ credentials: encryptCredentials(newToken), updatedAt: new Date() })
+        .where(eq(userConnections.id, connection.id));
+    }
+  }
+}
+
+async function pollPPIOrders(
+  connection: UserConnection,
+  userOrders: Order[],
+  summary: OrderPollSummary
+): Promise<void> {
+  const credentials = decryptCredentials<PPICredentials>(connection.credentials);
+  const client = new PPIClient(credentials);
+
+  try {
+    const accountNumber = connection.accountNumber ?? (await client.getAccountNumber());
+
+    for (const order of userOrders) {
+      summary.checked++;
+      const detail = await client.getOrderStatus(Number(order.externalId), accountNumber);
+
+      const status = ppiOrderStatus(detail);
+      const filledQuantity =
+        detail.ExecutedQuantity ?? (status === "filled" ? detail.Quantity : 0);
+      const event = await applyOrderState(
+        order,
+        { status, filledQuantity, fillPrice: detail.ExecutedPrice },
+        // PPI movements carry their own ids, unrelated to the order id: the
+        // fill is recorded as its movement, keyed like the PPI history sync
+        async () => {
+          const movements = await client.getMovements(
+            new Date(detail.Date || order.createdAt),
+            new Date(),
+            accountNumber
+          );
+          return mapPPIOrderFill(detail, filledQuantity, movements);
+        },
+        connection.id
+      );
+      if (event) summary.updated++;
+      if (event === "filled") summary.filled++;
+    }
+  } catch (error) {
+    if (error instanceof PPITokenExpiredError) {
+      await notifySyncFailure(connection.userId, "ppi", error.message, true);
+    } else {
+      console.error("[Orders] PPI Poll Error:", error);
+    }
+  } finally {
+    const updated = client.getCredentials();
+    if (updated.accessToken !== credentials.accessToken) {
+      await saveRefreshedCredentials(connection, updated);
+    }
+  }
+}
+
+async function pollBinanceOrders(
+  connection: UserConnection,
+  userOrders: Order[],
+  summary: OrderPollSummary
+): Promise<void> {
+  const credentials = decryptCredentials<BinanceCredentials>(connection.credentials);
+  const client = new BinanceClient(credentials);
+
+  try {
+    for (const order of userOrders) {
+      summary.checked++;
+      const orderId = Number(order.externalId);
+      const detail = await client.getOrder(order.simbolo, orderId);
+
+      const status = binanceOrderStatus(detail);
+      const filledQuantity = Number(detail.executedQty);
+      const quoteQuantity = Number(detail.cummulativeQuoteQty);
+      const event = await applyOrderState(
+        order,
+        {
+          status,
+          filledQuantity,
+          fillPrice: filledQuantity > 0 ? quoteQuantity / filledQuantity : undefined,
+          filledAt: detail.updateTime ? new Date(detail.updateTime).toISOString() : undefined,
+        },
+        // One ledger trade per fill, keyed like the Binance history sync
+        async () => {
+          const fills = await client.getOrderTrades(order.simbolo, orderId);
+          return fills.map(mapBinanceTrade).filter((t): t is ExternalTrade => t !== null);
+        },
+        connection.id
+      );
+      if (event) summary.updated++;
+      if (event === "filled") summary.filled++;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (
+      message.includes("Invalid API") ||
+      message.includes("-2015") ||
+      message.includes("-2014")
+    ) {
+      await notifySyncFailure(connection.userId, "binance", message, true);
+    } else {
+      console.error("[Orders] Binance Poll Error:", error);
+    }
+  }
+}
+
+/**
+ * Store the broker's view of one order and act on what changed. Fills are
+ * recorded on `accountId`, the connection the order was polled through.
+ */
+async function applyOrderState(
+  order: Order,
+  state: OrderState,
+  toTrades: () => Promise<ExternalTrade[]>,
+  accountId: string
+): Promise<OrderEvent | null> {
+  const { status, filledQuantity, fillPrice } = state;
+  const event = orderEvent(
+    { status: order.status, filledQuantity: Number(order.filledQuantity) },
+    { status, filledQuantity }
+  );
+
+  await db
+    .update(orders)
+    .set({
+      status,
+      filledQuantity: String(filledQuantity),
+      avgFillPrice: fillPrice ? String(fillPrice) : order.avgFillPrice,
+      filledAt: status === "filled" ? new Date(state.filledAt || Date.now()) : order.filledAt,
+      lastCheckedAt: new Date(),
+      ...(event ? { updatedAt: new Date() } : {}),
+    })
+    .where(eq(orders.id, order.id));
+
+  if (!event) return null;
+
+  // Filled quantity is final once the order closes; partial fills wait
+  // for it so the ledger gets a single trade per order.
+  if (event !== "partial_fill" && filledQuantity > 0) {
+    const trades = await toTrades();
+    await ingestExternalTrades(
+      order.userId,
+      order.provider as TransactionSource,
+      trades,
+      accountId
+    );
+  }
+
+  // Cancelling as part of a modify is not news
+  if (event === "cancelled" && order.replacedByOrderId) return event;
+
+  await notify(order.userId, {
+    kind: "order",
+    ...describeEvent(event, order, filledQuantity, fillPrice),
+    link: "/history",
+    metadata: { orderId: order.id, numeroOperacion: order.externalId, event },
+  });
+
+  return event;
+}
+
+function describeEvent(
+  event: OrderEvent,
+  order: Order,
+  filledQuantity: number,
+  fillPrice: number | undefined
+): { title: string; body: string } {
+  const side = order.action === "buy" ? "compra" : "venta";
+  const price = fillPrice ? ` a $${fillPrice}` : "";
+  const quantity = Number(order.quantity);
+
+  switch (event) {
+    case "filled":
+      return {
+        title: `Orden de ${side} ejecutada: ${order.simbolo}`,
+        body: `${filledQuantity}${price} · Operacion #${order.externalId}`,
+      };
+    case "partial_fill":
+      return {
+        title: `Orden de ${side} parcialmente ejecutada: ${order.simbolo}`,
+        body: `${filledQuantity} de ${quantity}${price} · Operacion #${order.externalId}`,
+      };
+    case "expired":
+      return {
+        title: `Orden de ${side} vencida: ${order.simbolo}`,
+        body: `${filledQuantity > 0 ? `Se ejecutaron ${filledQuantity} de ${quantity}. ` : ""}Operacion #${order.externalId}`,
+      };
+    case "cancelled":
+      return {
+        title: `Orden de ${side} cancelada: ${order.simbolo}`,
+        body: `${filledQuantity > 0 ? `Se ejecutaron ${filledQuantity} de ${quantity}. ` : ""}Operacion #${order.externalId}`,
+      };
+  }
+}
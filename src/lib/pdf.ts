@@ -0,0 +1,128 @@
+/**
+ * Minimal text-only PDF writer (no dependencies).
+ *
+ * Lays out lines top to bottom on A4 pages using the standard Type 1 fonts,
+ * breaking pages as needed. Enough for tabular reports; tables are rendered
+ * as padded rows in Courier so columns line up.
+ */
+
+export type PdfFont = "regular" | "bold" | "mono";
+
+export interface PdfLine {
+  text: string;
+  font?: PdfFont;
+  /** Font size in points (default 10) */
+  size?: number;
+  /** Extra space above the line in points */
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+const LINE_HEIGHT = 1.35;
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; base: string }> = {
+  regular: { name: "F1", base: "Helvetica" },
+  bold: { name: "F2", base: "Helvetica-Bold" },
+  mono: { name: "F3", base: "Courier" },
+};
+
+/** Escape a string for a PDF literal, mapping to WinAnsi (Latin-1) bytes. */
+function pdfString(text: string): string {
+  let out = "";
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 63;
+    if (ch === "(" || ch === ")" || ch === "\\") out += `\\${ch}`;
+    else if (code >= 32 && code < 127) out += ch;
+    else if (code >= 160 && code <= 255) out += `\\${code.toString(8).padStart(3, "0")}`;
+    else out += "?";
+  }
+  return `(${out})`;
+}
+
+/** Pad/truncate cells to fixed widths for a monospaced table row. */
+export function pdfTableRow(cells: string[], widths: number[]): string {
+  return cells
+    .map((cell, i) => {
+      const w = widths[i] ?? cell.length;
+      const clipped = cell.length > w ? cell.slice(0, w - 1) + "." : cell;
+      // Right-align numeric-looking cells
+      return /^[-+$\d]/.test(clipped) && i > 0 ? clipped.padStart(w) : clipped.padEnd(w);
+    })
+    .join(" ");
+}
+
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? 10;
+    const advance = (line.spaceBefore ?? 0) + size * LINE_HEIGHT;
+    if (y - advance < MARGIN && ops.length > 0) {
+      pages.push(ops.join("\n"));
+      ops = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= advance;
+    const font = FONT_RESOURCES[line.font ?? "regular"].name;
+    ops.push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td ${pdfString(line.text)} Tj ET`);
+  }
+
+  pages.push(ops.join("\n"));
+  return pages;
+}
+
+/**
+ * Render lines into a PDF document.
+ */
+export function renderPdf(lines: PdfLine[], title = "Report"): Uint8Array {
+  const pages = paginate(lines);
+  const objects: string[] = [];
+
+  // 1: catalog, 2: page tree, 3: info, 4-6: fonts, then page/content pairs
+  const fontIds = Object.values(FONT_RESOURCES).map((_, i) => 4 + i);
+  const firstPageId = 4 + fontIds.length;
+  const pageIds = pages.map((_, i) => firstPageId + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = `<< /Title ${pdfString(title)} /Producer (slock) >>`;
+  Object.values(FONT_RESOURCES).forEach((font, i) => {
+    objects[fontIds[i]] =
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font.base} /Encoding /WinAnsiEncoding >>`;
+  });
+
+  const fontDict = Object.values(FONT_RESOURCES)
+    .map((font, i) => `/${font.name} ${fontIds[i]} 0 R`)
+    .join(" ");
+
+  pages.forEach((content, i) => {
+    const pageId = pageIds[i];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << ${fontDict} >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  // Every character is a single Latin-1 byte, so string length == byte length
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+  return bytes;
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildPerformanceReport,
+  computeWindow,
+  rateOnDate,
+  timeWeightedReturn,
+  windowStartDate,
+  xirr,
+} from "./performance";
+
+// ===========================================================================
+// TWR
+// ===========================================================================
+
+describe("timeWeightedReturn", () => {
+  it("ignores deposits when measuring growth", () => {
+    // 100 -> 110 (+10%), deposit 100, 210 -> 231 (+10%)
+    const points = [
+      { date: "2026-01-01", value: 100 },
+      { date: "2026-01-02", value: 110 },
+      { date: "2026-01-03", value: 231 },
+    ];
+    const flows = [{ date: "2026-01-03", amount: 100 }];
+    expect(timeWeightedReturn(points, flows)).toBeCloseTo(0.21, 10);
+  });
+
+  it("credits sell proceeds to the period they were realized in", () => {
+    // Sold everything for 105 after starting at 100
+    const points = [
+      { date: "2026-01-01", value: 100 },
+      { date: "2026-01-02", value: 0 },
+    ];
+    expect(timeWeightedReturn(points, [{ date: "2026-01-02", amount: -105 }])).toBeCloseTo(0.05, 10);
+  });
+
+  it("starts measuring at the first contribution", () => {
+    const points = [
+      { date: "2026-01-01", value: 0 },
+      { date: "2026-01-02", value: 101 },
+    ];
+    expect(timeWeightedReturn(points, [{ date: "2026-01-02", amount: 100 }])).toBeCloseTo(0.01, 10);
+    expect(timeWeightedReturn([{ date: "2026-01-01", value: 0 }, { date: "2026-01-02", value: 0 }], [])).toBeNull();
+  });
+});
+
+// ===========================================================================
+// XIRR
+// ===========================================================================
+
+describe("xirr", () => {
+  it("returns the annual rate of a one-year investment", () => {
+    const rate = xirr([
+      { date: "2025-01-01", amount: -1000 },
+      { date: "2026-01-01", amount: 1100 },
+    ]);
+    expect(rate).toBeCloseTo(0.1, 6);
+  });
+
+  it("matches the spreadsheet XIRR for irregular flows", () => {
+    // Excel XIRR reference example
+    const rate = xirr([
+      { date: "2008-01-01", amount: -10000 },
+      { date: "2008-03-01", amount: 2750 },
+      { date: "2008-10-30", amount: 4250 },
+      { date: "2009-02-15", amount: 3250 },
+      { date: "2009-04-01", amount: 2750 },
+    ]);
+    expect(rate).toBeCloseTo(0.373362535, 6);
+  });
+
+  it("is null when flows don't change sign", () => {
+    expect(xirr([{ date: "2026-01-01", amount: 100 }])).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Windows
+// ===========================================================================
+
+describe("windowStartDate", () => {
+  it("anchors YTD at the previous year end", () => {
+    expect(windowStartDate("YTD", "2026-06-30")).toBe("2025-12-31");
+    expect(windowStartDate("1M", "2026-03-31")).toBe("2026-03-03");
+    expect(windowStartDate("1Y", "2026-06-30")).toBe("2025-06-30");
+    expect(windowStartDate("inception", "2026-06-30")).toBeNull();
+  });
+});
+
+describe("computeWindow", () => {
+  const points = [
+    { date: "2026-01-10", value: 1000 },
+    { date: "2026-05-29", value: 1100 },
+    { date: "2026-06-30", value: 1650 },
+  ];
+  const flows = [{ date: "2026-06-15", amount: 500 }];
+
+  it("uses the last snapshot on or before the window start", () => {
+    const w = computeWindow("1M", points, flows)!;
+    expect(w.startDate).toBe("2026-05-29");
+    expect(w.partial).toBe(false);
+    expect(w.netFlows).toBe(500);
+    expect(w.gain).toBeCloseTo(50, 10);
+    expect(w.twrPercent).toBeCloseTo((1650 / 1600 - 1) * 100, 8);
+  });
+
+  it("flags windows longer than the available history", () => {
+    const w = computeWindow("1Y", points, flows)!;
+    expect(w.startDate).toBe("2026-01-10");
+    expect(w.partial).toBe(true);
+    expect(w.mwrPercent).not.toBeNull();
+  });
+});
+
+// ===========================================================================
+// Report
+// ===========================================================================
+
+describe("buildPerformanceReport", () => {
+  it("splits returns by category and position, treating absent as zero", () => {
+    const report = buildPerformanceReport(
+      [
+        { date: "2026-06-02", totalValue: 200, byCategory: { crypto: 100, stock: 100 }, positions: { BTC: 100, AAPL: 100 } },
+        { date: "2026-06-01", totalValue: 100, byCategory: { stock: 100 }, positions: { AAPL: 100 } },
+      ],
+      [{ date: "2026-06-02", amount: 90, category: "crypto", ticker: "BTC" }]
+    );
+
+    expect(report.asOf).toBe("2026-06-02");
+    const btc = report.positions.find((p) => p.key === "BTC")!;
+    const inception = btc.windows.find((w) => w.window === "inception")!;
+    expect(inception.twrPercent).toBeCloseTo((100 / 90 - 1) * 100, 8);
+    expect(report.categories.map((c) => c.key)).toEqual(["crypto", "stock"]);
+  });
+});
+
+describe("rateOnDate", () => {
+  const rates = [
+    { date: "2026-01-02", sell: 1000 },
+    { date: "2026-01-05", sell: 1010 },
+  ];
+
+  it("uses the last rate on or before the date", () => {
+    expect(rateOnDate(rates, "2026-01-04", 0)).toBe(1000);
+    expect(rateOnDate(rates, "2026-01-09", 0)).toBe(1010);
+    expect(rateOnDate(rates, "2025-12-31", 0)).toBe(1000);
+    expect(rateOnDate([], "2026-01-01", 1200)).toBe(1200);
+  });
+});
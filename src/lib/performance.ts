@@ -0,0 +1,374 @@
+/**
+ * Portfolio performance engine.
+ *
+ * Combines daily value snapshots with the cash flows implied by trades, so
+ * deposits don't read as gains:
+ *   - TWR (time-weighted): chain-links the return of every period between
+ *     two snapshots, neutralizing the size and timing of flows.
+ *   - MWR / XIRR (money-weighted): the internal rate of return of the flows,
+ *     i.e. what the investor actually earned given when money went in.
+ *
+ * Without a cash account, a buy is money added to the portfolio and a sell
+ * is money taken out. Everything here is pure and works in USD.
+ */
+
+// ── Inputs ──────────────────────────────────────────────────────────────────
+
+export interface ValuePoint {
+  /** YYYY-MM-DD */
+  date: string;
+  value: number;
+}
+
+export interface CashFlow {
+  /** YYYY-MM-DD */
+  date: string;
+  /** Positive = contribution (buy), negative = withdrawal (sell proceeds) */
+  amount: number;
+}
+
+export const PERFORMANCE_WINDOWS = ["1M", "3M", "YTD", "1Y", "inception"] as const;
+export type PerformanceWindow = (typeof PERFORMANCE_WINDOWS)[number];
+
+export const PERFORMANCE_WINDOW_LABELS: Record<PerformanceWindow, string> = {
+  "1M": "1M",
+  "3M": "3M",
+  YTD: "YTD",
+  "1Y": "1Y",
+  inception: "Inception",
+};
+
+// ── Outputs ─────────────────────────────────────────────────────────────────
+
+export interface WindowPerformance {
+  window: PerformanceWindow;
+  /** Baseline snapshot date (later than the window start if history is short) */
+  startDate: string;
+  endDate: string;
+  /** History doesn't reach back to the window start */
+  partial: boolean;
+  startValue: number;
+  endValue: number;
+  /** Contributions minus withdrawals inside the window */
+  netFlows: number;
+  /** endValue - startValue - netFlows */
+  gain: number;
+  /** Percent; null when there is nothing invested to measure */
+  twrPercent: number | null;
+  /** XIRR de-annualized to the window length, percent */
+  mwrPercent: number | null;
+  /** Annualized XIRR, percent */
+  xirrPercent: number | null;
+}
+
+export interface PerformanceSeries {
+  /** Category or ticker */
+  key: string;
+  windows: WindowPerformance[];
+}
+
+export interface PerformanceReport {
+  asOf: string | null;
+  total: WindowPerformance[];
+  categories: PerformanceSeries[];
+  positions: PerformanceSeries[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS;
+}
+
+// ── TWR ─────────────────────────────────────────────────────────────────────
+
+export interface PeriodReturn {
+  /** Snapshot closing the period */
+  date: string;
+  /** Fraction; null when nothing was invested during the period */
+  value: number | null;
+}
+
+/**
+ * Flow-adjusted return of every period between two consecutive snapshots.
+ *
+ * Flows dated after a snapshot and up to the next one belong to that period.
+ * Contributions are assumed at the start of the period (they were invested
+ * the whole day) and withdrawals at the end (sell proceeds already include
+ * the period's move).
+ */
+export function periodReturns(points: ValuePoint[], flows: CashFlow[]): PeriodReturn[] {
+  const out: PeriodReturn[] = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const curr = points[i];
+    let contributions = 0;
+    let withdrawals = 0;
+
+    for (const f of flows) {
+      if (f.date <= prev.date || f.date > curr.date) continue;
+      if (f.amount > 0) contributions += f.amount;
+      else withdrawals -= f.amount;
+    }
+
+    const invested = prev.value + contributions;
+    out.push({
+      date: curr.date,
+      value: invested > 0 ? (curr.value + withdrawals) / invested - 1 : null,
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Chain-linked time-weighted return (fraction) over a snapshot series.
+ * Periods with nothing invested are skipped. Returns null if no period
+ * could be measured.
+ */
+export function timeWeightedReturn(
+  points: ValuePoint[],
+  flows: CashFlow[]
+): number | null {
+  let growth = 1;
+  let measured = false;
+
+  for (const r of periodReturns(points, flows)) {
+    if (r.value === null) continue;
+    growth *= 1 + r.value;
+    measured = true;
+  }
+
+  return measured ? growth - 1 : null;
+}
+
+// ── XIRR ────────────────────────────────────────────────────────────────────
+
+export interface DatedAmount {
+  date: string;
+  /** Investor's view: negative = money paid in, positive = money received */
+  amount: number;
+}
+
+function npv(rate: number, cashflows: DatedAmount[], t0: string): number {
+  let total = 0;
+  for (const cf of cashflows) {
+    total += cf.amount / Math.pow(1 + rate, daysBetween(t0, cf.date) / 365);
+  }
+  return total;
+}
+
+/**
+ * Annualized internal rate of return (fraction) of irregular cash flows.
+ * Newton's method from 10%, falling back to bisection when it diverges.
+ * Returns null if the flows don't change sign or no root is found.
+ */
+export function xirr(cashflows: DatedAmount[]): number | null {
+  const flows = cashflows.filter((c) => c.amount !== 0);
+  if (!flows.some((c) => c.amount > 0) || !flows.some((c) => c.amount < 0)) {
+    return null;
+  }
+
+  const t0 = flows.reduce((min, c) => (c.date < min ? c.date : min), flows[0].date);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate, flows, t0);
+    let derivative = 0;
+    for (const cf of flows) {
+      const years = daysBetween(t0, cf.date) / 365;
+      derivative -= (years * cf.amount) / Math.pow(1 + rate, years + 1);
+    }
+    if (derivative === 0) break;
+
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < 1e-10) return next;
+    rate = next;
+  }
+
+  // Bisection over (-99.99%, 100000%)
+  let lo = -0.9999;
+  let hi = 1000;
+  let fLo = npv(lo, flows, t0);
+  if (fLo * npv(hi, flows, t0) > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(mid, flows, t0);
+    if (Math.abs(fMid) < 1e-9 || hi - lo < 1e-12) return mid;
+    if (fLo * fMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+// ── Windows ─────────────────────────────────────────────────────────────────
+
+/**
+ * First calendar day a window measures from, relative to `endDate`.
+ * Null for inception (the first snapshot).
+ */
+export function windowStartDate(window: PerformanceWindow, endDate: string): string | null {
+  const d = new Date(`${endDate}T00:00:00Z`);
+  switch (window) {
+    case "1M":
+      d.setUTCMonth(d.getUTCMonth() - 1);
+      break;
+    case "3M":
+      d.setUTCMonth(d.getUTCMonth() - 3);
+      break;
+    case "YTD":
+      return `${d.getUTCFullYear() - 1}-12-31`;
+    case "1Y":
+      d.setUTCFullYear(d.getUTCFullYear() - 1);
+      break;
+    case "inception":
+      return null;
+  }
+  return d.toISOString().slice(0, 10);
+}
+
+function toPercent(fraction: number | null): number | null {
+  return fraction === null ? null : fraction * 100;
+}
+
+/**
+ * Performance of one value series over one window. The baseline is the last
+ * snapshot on or before the window start (or the first snapshot, flagged
+ * `partial`). Points must be sorted by date.
+ */
+export function computeWindow(
+  window: PerformanceWindow,
+  points: ValuePoint[],
+  flows: CashFlow[]
+): WindowPerformance | null {
+  if (points.length === 0) return null;
+
+  const end = points[points.length - 1];
+  const start = windowStartDate(window, end.date);
+
+  let baseIdx = 0;
+  if (start) {
+    for (let i = 0; i < points.length; i++) {
+      if (points[i].date <= start) baseIdx = i;
+      else break;
+    }
+  }
+  const base = points[baseIdx];
+  const span = points.slice(baseIdx);
+  const windowFlows = flows.filter((f) => f.date > base.date && f.date <= end.date);
+  const netFlows = windowFlows.reduce((s, f) => s + f.amount, 0);
+
+  // Investor's view for XIRR: the starting value counts as money paid in
+  const cashflows: DatedAmount[] = [
+    { date: base.date, amount: -base.value },
+    ...windowFlows.map((f) => ({ date: f.date, amount: -f.amount })),
+    { date: end.date, amount: end.value },
+  ];
+  const annual = span.length > 1 ? xirr(cashflows) : null;
+  const days = daysBetween(base.date, end.date);
+
+  return {
+    window,
+    startDate: base.date,
+    endDate: end.date,
+    partial: start !== null && base.date > start,
+    startValue: base.value,
+    endValue: end.value,
+    netFlows,
+    gain: end.value - base.value - netFlows,
+    twrPercent: toPercent(timeWeightedReturn(span, windowFlows)),
+    mwrPercent: toPercent(annual === null ? null : Math.pow(1 + annual, days / 365) - 1),
+    xirrPercent: toPercent(annual),
+  };
+}
+
+/** All windows for one series, skipping those with no data */
+export function computeWindows(points: ValuePoint[], flows: CashFlow[]): WindowPerformance[] {
+  return PERFORMANCE_WINDOWS.map((w) => computeWindow(w, points, flows)).filter(
+    (w): w is WindowPerformance => w !== null
+  );
+}
+
+// ── Report ──────────────────────────────────────────────────────────────────
+
+export interface SnapshotInput {
+  date: string;
+  totalValue: number;
+  /** Category -> USD value */
+  byCategory: Record<string, number>;
+  /** Ticker -> USD value */
+  positions: Record<string, number>;
+}
+
+export interface FlowInput extends CashFlow {
+  category: string;
+  ticker: string;
+}
+
+/**
+ * Build TWR/XIRR for the whole portfolio, each category and each position.
+ * A category or position missing from a snapshot is worth 0 that day.
+ */
+export function buildPerformanceReport(
+  snapshots: SnapshotInput[],
+  flows: FlowInput[]
+): PerformanceReport {
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date));
+  const asOf = sorted.length > 0 ? sorted[sorted.length - 1].date : null;
+
+  const total = computeWindows(
+    sorted.map((s) => ({ date: s.date, value: s.totalValue })),
+    flows
+  );
+
+  const series = (
+    keys: Set<string>,
+    valueOf: (s: SnapshotInput, key: string) => number,
+    flowKey: (f: FlowInput) => string
+  ): PerformanceSeries[] =>
+    [...keys].sort().map((key) => ({
+      key,
+      windows: computeWindows(
+        sorted.map((s) => ({ date: s.date, value: valueOf(s, key) })),
+        flows.filter((f) => flowKey(f) === key)
+      ),
+    }));
+
+  const categoryKeys = new Set(sorted.flatMap((s) => Object.keys(s.byCategory)));
+  const positionKeys = new Set(sorted.flatMap((s) => Object.keys(s.positions)));
+
+  return {
+    asOf,
+    total,
+    categories: series(categoryKeys, (s, k) => s.byCategory[k] ?? 0, (f) => f.category),
+    positions: series(positionKeys, (s, k) => s.positions[k] ?? 0, (f) => f.ticker),
+  };
+}
+
+/**
+ * USD/ARS rate in force on a date: the last rate on or before it, else the
+ * earliest known. `rates` must be sorted by date.
+ */
+export function rateOnDate(
+  rates: { date: string; sell: number }[],
+  date: string,
+  fallback: number
+): number {
+  if (rates.length === 0 || date < rates[0].date) return rates[0]?.sell ?? fallback;
+
+  let lo = 0;
+  let hi = rates.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (rates[mid].date <= date) lo = mid;
+    else hi = mid - 1;
+  }
+  return rates[lo].sell;
+}
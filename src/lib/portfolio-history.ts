@@ -0,0 +1,113 @@
+import { db } from "@/db";
+import { portfolioSnapshots, transactions } from "@/db/schema";
+import { and, eq, gte } from "drizzle-orm";
+import { fetchDollarRateHistory } from "@/services/macro/client";
+import { rateOnDate, type FlowInput, type SnapshotInput } from "./performance";
+import { DOLAR_CASAS, VALUATION_RATE_LABELS } from "./constants";
+import { getStoredUsdArsRate, getValuationRate } from "./valuation";
+
+/**
+ * Server-side loaders for the performance engine: daily snapshot values and
+ * trade cash flows, both in USD at the user's valuation rate.
+ */
+
+interface SnapshotPosition {
+  ticker: string;
+  value: number;
+}
+
+/**
+ * The user's portfolio snapshots, oldest first, optionally from a date
+ * (YYYY-MM-DD) on.
+ */
+export async function loadSnapshotInputs(
+  userId: string,
+  since?: string
+): Promise<SnapshotInput[]> {
+  const rows = await db
+    .select({
+      snapshotDate: portfolioSnapshots.snapshotDate,
+      totalValueUsd: portfolioSnapshots.totalValueUsd,
+      byCategory: portfolioSnapshots.byCategory,
+      positions: portfolioSnapshots.positions,
+    })
+    .from(portfolioSnapshots)
+    .where(
+      since
+        ? and(eq(portfolioSnapshots.userId, userId), gte(portfolioSnapshots.snapshotDate, since))
+        : eq(portfolioSnapshots.userId, userId)
+    )
+    .orderBy(portfolioSnapshots.snapshotDate);
+
+  return rows.map((s) => {
+    const byCategory: Record<string, number> = {};
+    const rawCategories = (s.byCategory ?? {}) as Record<string, { value?: number }>;
+    for (const [category, entry] of Object.entries(rawCategories)) {
+      byCategory[category] = Number(entry?.value) || 0;
+    }
+
+    const positions: Record<string, number> = {};
+    for (const p of (s.positions ?? []) as SnapshotPosition[]) {
+      if (!p?.ticker) continue;
+      positions[p.ticker] = (positions[p.ticker] ?? 0) + (Number(p.value) || 0);
+    }
+
+    return {
+      date: s.snapshotDate,
+      totalValue: Number(s.totalValueUsd),
+      byCategory,
+      positions,
+    };
+  });
+}
+
+/**
+ * Every trade as a USD cash flow (buys in, sells out). ARS amounts are
+ * converted at the valuation rate of their trade date, like the snapshots.
+ * Income received in kind is return, not a flow, and is left out.
+ */
+export async function loadCashFlows(
+  userId: string
+): Promise<{ flows: FlowInput[]; warnings: string[] }> {
+  const txns = await db.query.transactions.findMany({
+    where: eq(transactions.userId, userId),
+    with: { asset: true },
+  });
+
+  const warnings: string[] = [];
+  let rates: { date: string; sell: number }[] = [];
+  let fallbackRate = 0;
+
+  if (txns.some((t) => t.currency === "ARS")) {
+    const valuationRate = await getValuationRate(userId);
+    rates = await fetchDollarRateHistory(DOLAR_CASAS[valuationRate]);
+    if (rates.length === 0) {
+      fallbackRate = (await getStoredUsdArsRate(valuationRate)) ?? 0;
+      warnings.push(
+        fallbackRate > 0
+          ? `${VALUATION_RATE_LABELS[valuationRate]} rate history unavailable: ARS flows converted at the current rate`
+          : "No USD/ARS rate available: ARS flows were skipped"
+      );
+    }
+  }
+
+  const flows: FlowInput[] = [];
+  for (const t of txns) {
+    if (t.type === "income") continue;
+    const date = t.executedAt.toISOString().slice(0, 10);
+    let amount = Number(t.totalAmount);
+    if (t.currency === "ARS") {
+      const rate = rateOnDate(rates, date, fallbackRate);
+      if (!(rate > 0)) continue;
+      amount /= rate;
+    }
+    flows.push({
+      date,
+      amount: t.type === "buy" ? amount : -amount,
+      category: t.asset.category,
+      ticker: t.asset.ticker,
+    });
+  }
+
+  return { flows, warnings };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { positionSeries, tradeMarkers, type PositionTrade } from "./position-history";
+
+function snapshot(snapshotDate: string, positions: unknown[], reconstructed = false) {
+  return { snapshotDate, reconstructed, positions };
+}
+
+const aapl = (quantity: number, value: number, avgPrice = 100) => ({
+  ticker: "AAPL",
+  category: "stock",
+  quantity,
+  avgPrice,
+  value,
+  pnl: value - avgPrice * quantity,
+});
+
+function trade(overrides: Partial<PositionTrade>): PositionTrade {
+  return { date: "2026-03-02", type: "buy", quantity: 10, pricePerUnit: 100, currency: "USD", ...overrides };
+}
+
+// ===========================================================================
+// Series
+// ===========================================================================
+
+describe("positionSeries", () => {
+  it("picks the holding out of each snapshot, sorted by date", () => {
+    const points = positionSeries(
+      [
+        snapshot("2026-03-03", [aapl(10, 1100), { ticker: "MSFT", category: "stock", value: 500 }]),
+        snapshot("2026-03-02", [aapl(10, 1050)], true),
+      ],
+      "AAPL",
+      "stock"
+    );
+
+    expect(points).toEqual([
+      { date: "2026-03-02", quantity: 10, value: 1050, cost: 1000, pnl: 50, reconstructed: true },
+      { date: "2026-03-03", quantity: 10, value: 1100, cost: 1000, pnl: 100, reconstructed: false },
+    ]);
+  });
+
+  it("merges the same ticker held in several accounts", () => {
+    const [point] = positionSeries(
+      [snapshot("2026-03-02", [aapl(10, 1100), aapl(5, 550, 120)])],
+      "AAPL",
+      "stock"
+    );
+
+    expect(point.quantity).toBe(15);
+    expect(point.value).toBe(1650);
+    expect(point.cost).toBe(1600);
+    expect(point.pnl).toBe(50);
+  });
+
+  it("skips snapshots without the holding and tells categories apart", () => {
+    const points = positionSeries(
+      [
+        snapshot("2026-03-02", [{ ...aapl(1, 100), category: "cedear" }]),
+        snapshot("2026-03-03", []),
+        snapshot("2026-03-04", [aapl(1, 100)]),
+      ],
+      "AAPL",
+      "stock"
+    );
+    expect(points.map((p) => p.date)).toEqual(["2026-03-04"]);
+  });
+});
+
+// ===========================================================================
+// Trade markers
+// ===========================================================================
+
+describe("tradeMarkers", () => {
+  const points = positionSeries(
+    [snapshot("2026-03-06", [aapl(10, 1000)]), snapshot("2026-03-09", [aapl(20, 2100)])],
+    "AAPL",
+    "stock"
+  );
+
+  it("places a trade on its day or the next snapshot", () => {
+    const markers = tradeMarkers(points, [
+      trade({ date: "2026-03-06" }),
+      trade({ date: "2026-03-07" }), // Saturday
+    ]);
+    expect(markers.map((m) => [m.pointDate, m.value])).toEqual([
+      ["2026-03-06", 1000],
+      ["2026-03-09", 2100],
+    ]);
+  });
+
+  it("keeps trades after the last snapshot on it and drops earlier ones", () => {
+    const markers = tradeMarkers(points, [
+      trade({ date: "2026-03-01" }),
+      trade({ date: "2026-03-12", type: "sell", quantity: 20 }),
+    ]);
+    expect(markers).toHaveLength(1);
+    expect(markers[0]).toMatchObject({ type: "sell", pointDate: "2026-03-09" });
+  });
+
+  it("returns nothing without points", () => {
+    expect(tradeMarkers([], [trade({})])).toEqual([]);
+  });
+});
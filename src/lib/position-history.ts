@@ -0,0 +1,97 @@
+/**
+ * One holding's history, read out of the daily snapshots' positions and
+ * the transaction ledger. Pure; values are USD like the snapshots.
+ */
+
+/** A `positions` entry as written by the snapshot edge function / backfill */
+export interface StoredSnapshotPosition {
+  ticker?: string;
+  category?: string;
+  quantity?: number;
+  avgPrice?: number;
+  currentPrice?: number;
+  value?: number;
+  pnl?: number;
+}
+
+export interface PositionPoint {
+  /** YYYY-MM-DD */
+  date: string;
+  quantity: number;
+  value: number;
+  cost: number;
+  pnl: number;
+  reconstructed: boolean;
+}
+
+export interface PositionTrade {
+  /** YYYY-MM-DD */
+  date: string;
+  type: "buy" | "sell" | "income";
+  quantity: number;
+  pricePerUnit: number;
+  currency: string;
+}
+
+export interface TradeMarker extends PositionTrade {
+  /** Series date the marker sits on: the trade's day or the next snapshot */
+  pointDate: string;
+  /** Position value on that date, to place the marker on the value line */
+  value: number;
+}
+
+/**
+ * The holding's point on every snapshot that holds it. A ticker held in
+ * several accounts appears once per account in a snapshot; those merge.
+ */
+export function positionSeries(
+  snapshots: { snapshotDate: string; reconstructed: boolean; positions: unknown }[],
+  ticker: string,
+  category: string
+): PositionPoint[] {
+  const points: PositionPoint[] = [];
+
+  for (const snapshot of snapshots) {
+    const entries = ((snapshot.positions ?? []) as StoredSnapshotPosition[]).filter(
+      (p) => p?.ticker === ticker && p.category === category
+    );
+    if (entries.length === 0) continue;
+
+    const point: PositionPoint = {
+      date: snapshot.snapshotDate,
+      quantity: 0,
+      value: 0,
+      cost: 0,
+      pnl: 0,
+      reconstructed: snapshot.reconstructed,
+    };
+    for (const p of entries) {
+      const quantity = Number(p.quantity) || 0;
+      point.quantity += quantity;
+      point.value += Number(p.value) || 0;
+      point.cost += (Number(p.avgPrice) || 0) * quantity;
+      point.pnl += Number(p.pnl) || 0;
+    }
+    points.push(point);
+  }
+
+  return points.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Place each trade on the series: on its own day, or the next snapshot
+ * (weekend trades, gaps in the snapshots). Trades after the last snapshot,
+ * like the sell that closed the position, sit on the last one; trades
+ * before the series starts are left out.
+ */
+export function tradeMarkers(points: PositionPoint[], trades: PositionTrade[]): TradeMarker[] {
+  const markers: TradeMarker[] = [];
+  if (points.length === 0) return markers;
+
+  for (const trade of trades) {
+    if (trade.date < points[0].date) continue;
+    const point = points.find((p) => p.date >= trade.date) ?? points[points.length - 1];
+    markers.push({ ...trade, pointDate: point.date, value: point.value });
+  }
+  return markers;
+}
@@ -0,0 +1,134 @@
+import { IOLClient, type IOLToken } from "@/services/iol";
+import { getDailyCloses } from "@/services/yahoo/client";
+import { fetchDollarRateHistory } from "@/services/macro/client";
+import { decryptCredentials } from "./crypto";
+import { findBrokerConnection, saveRefreshedCredentials } from "./broker-connections";
+import { rateOnDate } from "./performance";
+import { positionKey, type DailyClose, type DatedRate } from "./snapshot-replay";
+import { DOLAR_CASAS, VALUATION_RATE_LABELS } from "./constants";
+import { getStoredUsdArsRate, getValuationRate } from "./valuation";
+
+/**
+ * Server-side daily closes in USD for the risk and correlation engines.
+ *
+ * A holding is priced from its USD listing when Yahoo has one (a CEDEAR's
+ * US share, a crypto pair); otherwise from its peso listing on Yahoo, or
+ * from IOL's BCBA series when Yahoo has none, converted at the user's
+ * valuation rate of each day. Cash is flat at 1.
+ */
+
+/** Price series fetched in parallel */
+const PRICE_BATCH_SIZE = 5;
+
+export interface PricedHolding {
+  ticker: string;
+  category: string;
+}
+
+export interface UsdCloses {
+  /** By positionKey; holdings without any history are absent */
+  closes: Map<string, DailyClose[]>;
+  /** Tickers no source had history for */
+  unpriced: string[];
+  warnings: string[];
+}
+
+interface IOLSession {
+  client: IOLClient;
+  persist(): Promise<void>;
+}
+
+export async function loadUsdCloses(
+  userId: string,
+  holdings: PricedHolding[],
+  since: Date
+): Promise<UsdCloses> {
+  const result: UsdCloses = { closes: new Map(), unpriced: [], warnings: [] };
+  const sinceStr = since.toISOString().slice(0, 10);
+
+  // Loaded on first use: most portfolios price everything in USD
+  let rates: Promise<{ history: DatedRate[]; fallback: number }> | null = null;
+  const loadRates = () =>
+    (rates ??= (async () => {
+      const valuationRate = await getValuationRate(userId);
+      const history = await fetchDollarRateHistory(DOLAR_CASAS[valuationRate]);
+      if (history.length > 0) return { history, fallback: 0 };
+      const fallback = (await getStoredUsdArsRate(valuationRate)) ?? 0;
+      result.warnings.push(
+        `${VALUATION_RATE_LABELS[valuationRate]} rate history unavailable: peso prices converted at the current rate`
+      );
+      return { history: [], fallback };
+    })());
+
+  // Only for peso listings Yahoo doesn't carry
+  const iol: { session?: Promise<IOLSession | null> } = {};
+  const iolSession = () =>
+    (iol.session ??= findBrokerConnection(userId, "iol").then((connection) => {
+      if (!connection) return null;
+      const token = decryptCredentials<IOLToken>(connection.credentials);
+      const client = new IOLClient(token);
+      return {
+        client,
+        // Keep a token refreshed along the way
+        async persist() {
+          const current = client.getToken();
+          if (current && current.access_token !== token.access_token) {
+            await saveRefreshedCredentials(connection, current);
+          }
+        },
+      };
+    }));
+
+  async function pesoCloses(h: PricedHolding): Promise<DailyClose[]> {
+    const yahoo = await getDailyCloses(h.ticker, h.category, since, "ARS");
+    if (yahoo.length > 0) return yahoo;
+    if (h.category === "crypto") return [];
+
+    const session = await iolSession();
+    if (!session) return [];
+    try {
+      const history = await session.client.getHistoricalPrices(
+        "bCBA",
+        h.ticker.toUpperCase(),
+        sinceStr,
+        new Date().toISOString().slice(0, 10)
+      );
+      return history
+        .filter((p) => p.ultimoPrecio > 0)
+        .map((p) => ({ date: p.fecha.slice(0, 10), close: p.ultimoPrecio }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    } catch {
+      return [];
+    }
+  }
+
+  async function usdCloses(h: PricedHolding): Promise<DailyClose[]> {
+    if (h.category === "cash") return [{ date: sinceStr, close: 1 }];
+
+    const usd = await getDailyCloses(h.ticker, h.category, since, "USD");
+    if (usd.length > 0) return usd;
+
+    const ars = await pesoCloses(h);
+    if (ars.length === 0) return [];
+    const { history, fallback } = await loadRates();
+    return ars.flatMap((c) => {
+      const rate = rateOnDate(history, c.date, fallback);
+      return rate > 0 ? [{ date: c.date, close: c.close / rate }] : [];
+    });
+  }
+
+  for (let i = 0; i < holdings.length; i += PRICE_BATCH_SIZE) {
+    await Promise.all(
+      holdings.slice(i, i + PRICE_BATCH_SIZE).map(async (h) => {
+        const closes = await usdCloses(h);
+        if (closes.length > 0) result.closes.set(positionKey(h), closes);
+        else result.unpriced.push(h.ticker);
+      })
+    );
+  }
+
+  const session = await iol.session;
+  if (session) await session.persist();
+
+  return result;
+}
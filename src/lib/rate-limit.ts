@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { Ratelimit } from "@upstash/ratelimit";
 import { Redis } from "@upstash/redis";
+import { TRADE_RATE_LIMIT } from "@/lib/constants";
 
 export interface RateLimitConfig {
   /** Max requests per window */
@@ -11,12 +12,13 @@ export interface RateLimitConfig {
 
 /** Per-endpoint rate limit presets */
 export const RATE_LIMITS = {
-  trade: { limit: 5, windowSeconds: 60 },
+  trade: TRADE_RATE_LIMIT,
   quote: { limit: 60, windowSeconds: 60 },
   securities: { limit: 30, windowSeconds: 60 },
   insights: { limit: 5, windowSeconds: 60 },
   chat: { limit: 15, windowSeconds: 60 },
   mep: { limit: 30, windowSeconds: 60 },
+  backfill: { limit: 2, windowSeconds: 300 },
   default: { limit: 120, windowSeconds: 60 },
 } as const;
 
@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import {
+  planRebalance,
+  roundToLot,
+  targetFor,
+  type RebalanceHolding,
+  type RebalancePlan,
+} from "./rebalance";
+
+function holding(overrides: Partial<RebalanceHolding> & { ticker: string }): RebalanceHolding {
+  return {
+    category: "cedear",
+    source: "iol",
+    currency: "ARS",
+    quantity: 10,
+    price: 1000,
+    valueUsd: 1000,
+    ...overrides,
+  };
+}
+
+// ===========================================================================
+// Lots and grouping
+// ===========================================================================
+
+describe("roundToLot", () => {
+  it("rounds down to whole lots without losing one to float error", () => {
+    expect(roundToLot(7.9, 1)).toBe(7);
+    expect(roundToLot(0.3 / 0.1, 1)).toBe(3);
+    expect(roundToLot(0.12345678, 0.000001)).toBe(0.123456);
+    expect(roundToLot(-2, 1)).toBe(0);
+  });
+});
+
+describe("targetFor", () => {
+  const h = holding({ ticker: "aapl", category: "cedear" });
+
+  it("matches by category, ticker or bucket membership", () => {
+    expect(targetFor(h, { scope: "category", tolerancePercent: 5, targets: [{ key: "cedear", percent: 50 }] })).toBe("cedear");
+    expect(targetFor(h, { scope: "ticker", tolerancePercent: 5, targets: [{ key: "AAPL", percent: 50 }] })).toBe("AAPL");
+    expect(
+      targetFor(h, {
+        scope: "bucket",
+        tolerancePercent: 5,
+        targets: [{ key: "Tech", tickers: ["MSFT", "AAPL"], percent: 50 }],
+      })
+    ).toBe("Tech");
+  });
+
+  it("leaves holdings outside every target unassigned", () => {
+    expect(targetFor(h, { scope: "ticker", tolerancePercent: 5, targets: [{ key: "MSFT", percent: 50 }] })).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Orders
+// ===========================================================================
+
+describe("planRebalance", () => {
+  const plan: RebalancePlan = {
+    scope: "ticker",
+    tolerancePercent: 5,
+    targets: [
+      { key: "AAPL", percent: 50 },
+      { key: "KO", percent: 50 },
+    ],
+  };
+
+  it("sells the overweight group to fund the underweight one", () => {
+    const proposal = planRebalance(
+      [
+        holding({ ticker: "AAPL", quantity: 70, valueUsd: 7000 }),
+        holding({ ticker: "KO", quantity: 30, valueUsd: 3000 }),
+      ],
+      [],
+      plan
+    );
+
+    expect(proposal.orders).toEqual([
+      expect.objectContaining({ ticker: "AAPL", action: "sell", quantity: 20, amountUsd: 2000 }),
+      expect.objectContaining({ ticker: "KO", action: "buy", quantity: 20, amountUsd: 2000 }),
+    ]);
+    expect(proposal.groups.map((g) => g.afterPercent)).toEqual([50, 50]);
+    expect(proposal.warnings).toEqual([]);
+  });
+
+  it("leaves groups within the tolerance alone", () => {
+    const proposal = planRebalance(
+      [
+        holding({ ticker: "AAPL", quantity: 53, valueUsd: 5300 }),
+        holding({ ticker: "KO", quantity: 47, valueUsd: 4700 }),
+      ],
+      [],
+      plan
+    );
+    expect(proposal.orders).toEqual([]);
+    expect(proposal.groups.map((g) => g.status)).toEqual(["ok", "ok"]);
+    expect(proposal.groups[0].driftPercent).toBeCloseTo(3, 10);
+  });
+
+  it("invests free cash at the broker and counts it in the total", () => {
+    const proposal = planRebalance(
+      [holding({ ticker: "AAPL", quantity: 10, valueUsd: 1000 })],
+      [{ source: "iol", currency: "ARS", amountUsd: 1000 }],
+      { scope: "ticker", tolerancePercent: 5, targets: [{ key: "AAPL", percent: 100 }] }
+    );
+    expect(proposal.totalUsd).toBe(2000);
+    expect(proposal.orders).toEqual([expect.objectContaining({ action: "buy", quantity: 10 })]);
+    expect(proposal.cash[0].amountUsd).toBeCloseTo(0, 10);
+  });
+
+  it("trims buys to the cash at the holding's own broker and currency", () => {
+    const proposal = planRebalance(
+      [holding({ ticker: "AAPL", quantity: 10, valueUsd: 1000 })],
+      [
+        { source: "iol", currency: "ARS", amountUsd: 450 },
+        { source: "ppi", currency: "ARS", amountUsd: 5000 },
+      ],
+      { scope: "ticker", tolerancePercent: 5, targets: [{ key: "AAPL", percent: 100 }] }
+    );
+    expect(proposal.orders).toEqual([expect.objectContaining({ action: "buy", quantity: 4 })]);
+    expect(proposal.warnings).toEqual(["AAPL: compras recortadas al efectivo disponible"]);
+  });
+
+  it("buys the most underweight group first when cash runs short", () => {
+    const proposal = planRebalance(
+      [
+        holding({ ticker: "AAPL", quantity: 10, valueUsd: 1000 }),
+        holding({ ticker: "KO", quantity: 20, valueUsd: 2000 }),
+      ],
+      [{ source: "iol", currency: "ARS", amountUsd: 1000 }],
+      {
+        scope: "ticker",
+        tolerancePercent: 1,
+        targets: [
+          { key: "AAPL", percent: 60 },
+          { key: "KO", percent: 60 },
+        ],
+      }
+    );
+    // AAPL is 35 points under, KO 10: AAPL takes all the cash
+    expect(proposal.orders).toEqual([expect.objectContaining({ ticker: "AAPL", quantity: 10 })]);
+  });
+
+  it("never sells more than is held and keeps crypto fractional", () => {
+    const proposal = planRebalance(
+      [
+        holding({ ticker: "BTC", category: "crypto", source: "binance", currency: "USD", quantity: 0.1, price: 60000, valueUsd: 6000 }),
+        holding({ ticker: "ETH", category: "crypto", source: "binance", currency: "USD", quantity: 1, price: 4000, valueUsd: 4000 }),
+      ],
+      [],
+      {
+        scope: "ticker",
+        tolerancePercent: 5,
+        targets: [
+          { key: "BTC", percent: 0 },
+          { key: "ETH", percent: 100 },
+        ],
+      }
+    );
+    expect(proposal.orders).toEqual([
+      expect.objectContaining({ ticker: "BTC", action: "sell", quantity: 0.1 }),
+      expect.objectContaining({ ticker: "ETH", action: "buy", quantity: 1.5 }),
+    ]);
+  });
+
+  it("spreads a bucket's trade across its holdings by value", () => {
+    const proposal = planRebalance(
+      [
+        holding({ ticker: "AAPL", quantity: 30, valueUsd: 3000 }),
+        holding({ ticker: "MSFT", quantity: 10, valueUsd: 5000, price: 5000 }),
+        holding({ ticker: "KO", quantity: 20, valueUsd: 2000 }),
+      ],
+      [],
+      {
+        scope: "bucket",
+        tolerancePercent: 5,
+        targets: [{ key: "Tech", tickers: ["AAPL", "MSFT"], percent: 60 }],
+      }
+    );
+    // $2000 out of Tech: 3/8 from AAPL ($100 units), 5/8 from MSFT ($500 units)
+    expect(proposal.orders).toEqual([
+      expect.objectContaining({ ticker: "AAPL", action: "sell", quantity: 7 }),
+      expect.objectContaining({ ticker: "MSFT", action: "sell", quantity: 2 }),
+    ]);
+    // KO has no target: nothing bought with the proceeds
+    expect(proposal.orders.some((o) => o.ticker === "KO")).toBe(false);
+  });
+
+  it("treats free cash as the cash category's weight", () => {
+    const proposal = planRebalance(
+      [holding({ ticker: "AAPL", quantity: 10, valueUsd: 1000 })],
+      [{ source: "iol", currency: "ARS", amountUsd: 1000 }],
+      {
+        scope: "category",
+        tolerancePercent: 5,
+        targets: [
+          { key: "cedear", percent: 80 },
+          { key: "cash", percent: 20 },
+        ],
+      }
+    );
+    expect(proposal.orders).toEqual([expect.objectContaining({ action: "buy", quantity: 6 })]);
+    expect(proposal.groups[1].currentPercent).toBe(50);
+    expect(proposal.groups[1].afterPercent).toBeCloseTo(20, 10);
+  });
+
+  it("warns when an underweight group has nothing to buy", () => {
+    const proposal = planRebalance(
+      [holding({ ticker: "AAPL" })],
+      [{ source: "iol", currency: "ARS", amountUsd: 1000 }],
+      { scope: "ticker", tolerancePercent: 5, targets: [{ key: "KO", percent: 50 }] }
+    );
+    expect(proposal.orders).toEqual([]);
+    expect(proposal.warnings).toEqual(["KO: sin posiciones para comprar"]);
+  });
+});
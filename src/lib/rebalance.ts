@@ -0,0 +1,253 @@
+import type { RebalanceScope } from "./constants";
+
+/**
+ * Rebalancing planner: target weights per category, ticker or custom bucket
+ * and the orders that bring drifted groups back to them.
+ *
+ * Weights are shares of the whole portfolio, free broker cash included, so
+ * targets summing under 100% leave the rest (unassigned holdings, cash)
+ * untouched. A group is only traded once it drifts past the tolerance; it
+ * is then sold or bought across its holdings in proportion to their value,
+ * in whole lots, never selling more than is held. Sales fund purchases on
+ * the same broker and currency; buys go to the most underweight groups
+ * first and are trimmed to the cash there. Everything here is pure.
+ */
+
+export const DEFAULT_TOLERANCE_PERCENT = 5;
+
+/** Crypto trades in fractions; brokers reject anything under their own minimum */
+const CRYPTO_LOT = 0.000001;
+
+export type TradeVenue = "iol" | "ppi" | "binance";
+
+export interface RebalanceTarget {
+  /** Category or ticker; for a bucket, its name */
+  key: string;
+  label?: string;
+  /** Bucket members */
+  tickers?: string[];
+  percent: number;
+}
+
+export interface RebalancePlan {
+  scope: RebalanceScope;
+  tolerancePercent: number;
+  targets: RebalanceTarget[];
+}
+
+export interface RebalanceHolding {
+  ticker: string;
+  category: string;
+  source: TradeVenue;
+  /** Broker account it is held in */
+  accountId?: string;
+  currency: "USD" | "ARS";
+  quantity: number;
+  /** Per unit, in the listing currency */
+  price: number;
+  valueUsd: number;
+}
+
+/** Free cash at a broker, in one currency */
+export interface CashPool {
+  source: TradeVenue;
+  currency: "USD" | "ARS";
+  amountUsd: number;
+}
+
+export interface RebalanceOrder {
+  ticker: string;
+  category: string;
+  source: TradeVenue;
+  /** Account of the holding traded */
+  accountId?: string;
+  currency: "USD" | "ARS";
+  action: "buy" | "sell";
+  quantity: number;
+  /** Limit price in the listing currency */
+  price: number;
+  amountUsd: number;
+  /** Target key the order rebalances */
+  group: string;
+}
+
+export interface GroupDrift {
+  key: string;
+  label: string;
+  currentPercent: number;
+  targetPercent: number;
+  /** Current minus target, percentage points */
+  driftPercent: number;
+  /** Weight once the proposed orders fill */
+  afterPercent: number;
+  status: "ok" | "over" | "under";
+}
+
+export interface RebalanceProposal {
+  totalUsd: number;
+  groups: GroupDrift[];
+  /** Sells first: their proceeds fund the buys */
+  orders: RebalanceOrder[];
+  /** Cash left at each broker after the orders */
+  cash: CashPool[];
+  warnings: string[];
+}
+
+export function lotSize(category: string): number {
+  return category === "crypto" ? CRYPTO_LOT : 1;
+}
+
+/** Round down to a whole number of lots */
+export function roundToLot(quantity: number, lot: number): number {
+  if (!(quantity > 0)) return 0;
+  // The epsilon keeps 2.9999999 from losing a lot to float error
+  const lots = Math.floor(quantity / lot + 1e-9);
+  return Number((lots * lot).toFixed(8));
+}
+
+/** Target key a holding counts toward; null when no target covers it */
+export function targetFor(holding: RebalanceHolding, plan: RebalancePlan): string | null {
+  const ticker = holding.ticker.toUpperCase();
+  for (const t of plan.targets) {
+    if (plan.scope === "category" && t.key === holding.category) return t.key;
+    if (plan.scope === "ticker" && t.key.toUpperCase() === ticker) return t.key;
+    if (plan.scope === "bucket" && t.tickers?.some((m) => m.toUpperCase() === ticker)) return t.key;
+  }
+  return null;
+}
+
+/** Cash holdings are the residual of the other trades, never traded themselves */
+const tradable = (h: RebalanceHolding) => h.category !== "cash" && h.quantity > 0 && h.valueUsd > 0;
+
+const poolKey = (source: TradeVenue, currency: string) => `${source}:${currency}`;
+
+export function planRebalance(
+  holdings: RebalanceHolding[],
+  cash: CashPool[],
+  plan: RebalancePlan
+): RebalanceProposal {
+  const pools = new Map<string, CashPool>();
+  for (const p of cash) {
+    const key = poolKey(p.source, p.currency);
+    const existing = pools.get(key);
+    pools.set(key, { ...p, amountUsd: (existing?.amountUsd ?? 0) + Math.max(0, p.amountUsd) });
+  }
+  const freeCash = () => [...pools.values()].reduce((s, p) => s + p.amountUsd, 0);
+
+  const totalUsd = holdings.reduce((s, h) => s + h.valueUsd, 0) + freeCash();
+  const warnings: string[] = [];
+  if (totalUsd <= 0) return { totalUsd: 0, groups: [], orders: [], cash: [...pools.values()], warnings };
+
+  const members = new Map<string, RebalanceHolding[]>(plan.targets.map((t) => [t.key, []]));
+  for (const h of holdings) {
+    const key = targetFor(h, plan);
+    if (key !== null) members.get(key)!.push(h);
+  }
+
+  // Free cash belongs to the cash category
+  const cashKey = plan.scope === "category" ? "cash" : null;
+  const valueOf = (key: string) =>
+    members.get(key)!.reduce((s, h) => s + h.valueUsd, 0) + (key === cashKey ? freeCash() : 0);
+
+  const groups: GroupDrift[] = plan.targets.map((t) => {
+    const currentPercent = (valueOf(t.key) / totalUsd) * 100;
+    const driftPercent = currentPercent - t.percent;
+    return {
+      key: t.key,
+      label: t.label ?? t.key,
+      currentPercent,
+      targetPercent: t.percent,
+      driftPercent,
+      afterPercent: currentPercent,
+      status:
+        Math.abs(driftPercent) <= plan.tolerancePercent ? "ok" : driftPercent > 0 ? "over" : "under",
+    };
+  });
+
+  const sells: RebalanceOrder[] = [];
+  const buys: RebalanceOrder[] = [];
+
+  const order = (h: RebalanceHolding, action: "buy" | "sell", quantity: number, group: string) => {
+    const unitUsd = h.valueUsd / h.quantity;
+    return {
+      ticker: h.ticker,
+      category: h.category,
+      source: h.source,
+      accountId: h.accountId,
+      currency: h.currency,
+      action,
+      quantity,
+      price: h.price,
+      amountUsd: quantity * unitUsd,
+      group,
+    };
+  };
+
+  // Trim overweight groups first; the proceeds fund the buys
+  for (const g of groups.filter((g) => g.status === "over" && g.key !== cashKey)) {
+    const excess = ((g.currentPercent - g.targetPercent) / 100) * totalUsd;
+    const sellable = members.get(g.key)!.filter(tradable);
+    const value = sellable.reduce((s, h) => s + h.valueUsd, 0);
+    let placed = 0;
+    for (const h of sellable) {
+      const unitUsd = h.valueUsd / h.quantity;
+      const quantity = Math.min(
+        roundToLot(((excess * h.valueUsd) / value) / unitUsd, lotSize(h.category)),
+        h.quantity
+      );
+      if (quantity <= 0) continue;
+      const o = order(h, "sell", quantity, g.key);
+      sells.push(o);
+      placed++;
+      const key = poolKey(h.source, h.currency);
+      const pool = pools.get(key) ?? { source: h.source, currency: h.currency, amountUsd: 0 };
+      pools.set(key, { ...pool, amountUsd: pool.amountUsd + o.amountUsd });
+    }
+    if (placed === 0) warnings.push(`${g.label}: el desvio no llega a un lote`);
+  }
+
+  // Most underweight first, each buy paid from cash at its own broker
+  const under = groups
+    .filter((g) => g.status === "under" && g.key !== cashKey)
+    .sort((a, b) => a.driftPercent - b.driftPercent);
+  for (const g of under) {
+    const shortfall = ((g.targetPercent - g.currentPercent) / 100) * totalUsd;
+    const buyable = members.get(g.key)!.filter(tradable);
+    if (buyable.length === 0) {
+      warnings.push(`${g.label}: sin posiciones para comprar`);
+      continue;
+    }
+    const value = buyable.reduce((s, h) => s + h.valueUsd, 0);
+    let placed = 0;
+    let trimmed = false;
+    for (const h of buyable) {
+      const unitUsd = h.valueUsd / h.quantity;
+      const lot = lotSize(h.category);
+      const wanted = roundToLot(((shortfall * h.valueUsd) / value) / unitUsd, lot);
+      const key = poolKey(h.source, h.currency);
+      const pool = pools.get(key);
+      const affordable = pool ? roundToLot(pool.amountUsd / unitUsd, lot) : 0;
+      const quantity = Math.min(wanted, affordable);
+      if (quantity < wanted) trimmed = true;
+      if (quantity <= 0) continue;
+      const o = order(h, "buy", quantity, g.key);
+      buys.push(o);
+      placed++;
+      pools.set(key, { ...pool!, amountUsd: Math.max(0, pool!.amountUsd - o.amountUsd) });
+    }
+    if (trimmed) warnings.push(`${g.label}: compras recortadas al efectivo disponible`);
+    else if (placed === 0) warnings.push(`${g.label}: el desvio no llega a un lote`);
+  }
+
+  const orders = [...sells, ...buys];
+  const moved = new Map<string, number>();
+  for (const o of orders) {
+    moved.set(o.group, (moved.get(o.group) ?? 0) + (o.action === "buy" ? o.amountUsd : -o.amountUsd));
+  }
+  for (const g of groups) {
+    const after = g.key === cashKey ? valueOf(g.key) : valueOf(g.key) + (moved.get(g.key) ?? 0);
+    g.afterPercent = (after / totalUsd) * 100;
+  }
+
+  return { totalUsd, groups, orders, cash: [...pools.values()], warnings };
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import {
+  annualizedVolatility,
+  drawdowns,
+  historicalVaR,
+  holdingsReturns,
+  parametricVaR,
+  periodsPerYear,
+  riskMetrics,
+  sharpeRatio,
+  snapshotReturns,
+  sortinoRatio,
+  type DatedReturn,
+} from "./risk";
+
+function dated(values: number[], start = 2): DatedReturn[] {
+  return values.map((value, i) => ({
+    date: `2026-03-${String(start + i).padStart(2, "0")}`,
+    value,
+  }));
+}
+
+// ===========================================================================
+// Return series
+// ===========================================================================
+
+describe("snapshotReturns", () => {
+  it("removes deposits from the daily return", () => {
+    const returns = snapshotReturns(
+      [
+        { date: "2026-03-02", value: 1000 },
+        { date: "2026-03-03", value: 2100 },
+      ],
+      [{ date: "2026-03-03", amount: 1000 }]
+    );
+    expect(returns).toHaveLength(1);
+    expect(returns[0].value).toBeCloseTo(0.05, 10);
+  });
+
+  it("drops periods with nothing invested", () => {
+    const returns = snapshotReturns(
+      [
+        { date: "2026-03-02", value: 0 },
+        { date: "2026-03-03", value: 0 },
+        { date: "2026-03-04", value: 0 },
+      ],
+      []
+    );
+    expect(returns).toEqual([]);
+  });
+});
+
+describe("holdingsReturns", () => {
+  const dates = ["2026-03-02", "2026-03-03", "2026-03-04"];
+
+  it("weights each holding's daily return", () => {
+    const returns = holdingsReturns(
+      [
+        { weight: 3, closes: [{ date: "2026-03-02", close: 100 }, { date: "2026-03-03", close: 110 }] },
+        { weight: 1, closes: [{ date: "2026-03-02", close: 1 }] },
+      ],
+      dates
+    );
+    expect(returns[0].value).toBeCloseTo(0.075, 10); // 3/4 × 10%
+    expect(returns[1].value).toBe(0); // both carried over
+  });
+
+  it("re-weights among holdings priced on both days", () => {
+    const returns = holdingsReturns(
+      [
+        { weight: 1, closes: [{ date: "2026-03-02", close: 10 }, { date: "2026-03-03", close: 11 }] },
+        { weight: 1, closes: [{ date: "2026-03-03", close: 50 }, { date: "2026-03-04", close: 40 }] },
+      ],
+      dates
+    );
+    expect(returns[0].value).toBeCloseTo(0.1, 10);
+    expect(returns[1].value).toBeCloseTo(-0.1, 10); // (0 + -20%) / 2
+  });
+});
+
+describe("periodsPerYear", () => {
+  it("annualizes by the spacing of the series", () => {
+    // 5 returns over 5 calendar days: daily snapshots
+    expect(periodsPerYear(dated([0, 0, 0, 0, 0], 3), "2026-03-02")).toBeCloseTo(365, 10);
+  });
+});
+
+// ===========================================================================
+// Measures
+// ===========================================================================
+
+describe("annualizedVolatility", () => {
+  it("scales the sample stdev by the square root of time", () => {
+    // stdev of [0.01, -0.01] is √2 × 0.01
+    expect(annualizedVolatility([0.01, -0.01], 252)).toBeCloseTo(Math.SQRT2 * Math.sqrt(252), 10);
+  });
+});
+
+describe("sharpeRatio / sortinoRatio", () => {
+  const returns = [0.02, -0.01, 0.03, -0.02, 0.01];
+
+  it("subtracts the risk-free rate per period", () => {
+    const withoutRf = sharpeRatio(returns, 0, 252)!;
+    const withRf = sharpeRatio(returns, 5, 252)!;
+    expect(withoutRf).toBeGreaterThan(withRf);
+  });
+
+  it("only counts downside moves in Sortino", () => {
+    expect(sortinoRatio(returns, 0, 252)!).toBeGreaterThan(sharpeRatio(returns, 0, 252)!);
+  });
+
+  it("is null for a flat series", () => {
+    expect(sharpeRatio([0.01, 0.01, 0.01], 0, 252)).toBeNull();
+    expect(sortinoRatio([0.01, 0.01, 0.01], 0, 252)).toBeNull();
+  });
+});
+
+describe("drawdowns", () => {
+  it("finds the deepest fall and when it recovered", () => {
+    const { underwater, max } = drawdowns(dated([0.1, -0.2, -0.1, 0.5, 0.1], 3), "2026-03-02");
+
+    expect(underwater[0]).toEqual({ date: "2026-03-02", drawdownPercent: 0 });
+    // 1.1 → 0.88 → 0.792 → 1.188
+    expect(max!.percent).toBeCloseTo(-28, 10);
+    expect(max).toMatchObject({
+      peakDate: "2026-03-03",
+      troughDate: "2026-03-05",
+      recoveryDate: "2026-03-06",
+    });
+    expect(underwater.at(-1)!.drawdownPercent).toBe(0);
+  });
+
+  it("leaves the recovery open while under water", () => {
+    const { max } = drawdowns(dated([-0.1, 0.05]), "2026-03-01");
+    expect(max).toMatchObject({ peakDate: "2026-03-01", troughDate: "2026-03-02", recoveryDate: null });
+  });
+
+  it("has no max drawdown for a rising series", () => {
+    expect(drawdowns(dated([0.01, 0.02]), "2026-03-01").max).toBeNull();
+  });
+});
+
+describe("value at risk", () => {
+  // -5%, -4%, ..., +4%: 10 evenly spaced returns
+  const returns = Array.from({ length: 10 }, (_, i) => (i - 5) / 100);
+
+  it("reads historical VaR off the loss tail", () => {
+    // 5th percentile: between -5% and -4%
+    expect(historicalVaR(returns, 95)).toBeCloseTo(4.55, 10);
+    expect(historicalVaR(returns, 99)).toBeCloseTo(4.91, 10);
+  });
+
+  it("is zero when even the worst day gained", () => {
+    expect(historicalVaR([0.01, 0.02], 95)).toBe(0);
+  });
+
+  it("uses the normal quantile for parametric VaR", () => {
+    const m = -0.005;
+    const sd = Math.sqrt(returns.reduce((s, r) => s + (r - m) ** 2, 0) / 9);
+    expect(parametricVaR(returns, 95)).toBeCloseTo((1.6449 * sd - m) * 100, 10);
+    expect(parametricVaR(returns, 99)).toBeGreaterThan(parametricVaR(returns, 95));
+  });
+});
+
+describe("riskMetrics", () => {
+  it("expresses VaR in dollars of the current value", () => {
+    const metrics = riskMetrics(dated([0.01, -0.02, 0.015, -0.01]), "2026-03-01", 4, 10_000)!;
+
+    expect(metrics.observations).toBe(4);
+    expect(metrics.endDate).toBe("2026-03-05");
+    expect(metrics.valueAtRisk.map((v) => v.confidence)).toEqual([95, 99]);
+    for (const v of metrics.valueAtRisk) {
+      expect(v.historicalUsd).toBeCloseTo(v.historicalPercent * 100, 10);
+    }
+  });
+
+  it("is null with fewer than two returns", () => {
+    expect(riskMetrics(dated([0.01]), "2026-03-01", 0, 100)).toBeNull();
+  });
+});
@@ -0,0 +1,274 @@
+import { periodReturns, type CashFlow, type ValuePoint } from "./performance";
+import { closeOnOrBefore, type DailyClose } from "./snapshot-replay";
+
+/**
+ * Portfolio risk metrics.
+ *
+ * Two daily return series feed the same measures:
+ *   - realized: the flow-adjusted (TWR) return between consecutive
+ *     snapshots, so deposits don't read as volatility;
+ *   - holdings: today's positions at today's weights, replayed over each
+ *     asset's price history — what the current mix would have done.
+ *
+ * Returns are fractions; reported figures are percent. Everything is USD.
+ */
+
+export const VAR_CONFIDENCES = [95, 99] as const;
+export type VarConfidence = (typeof VAR_CONFIDENCES)[number];
+
+export const RISK_FREE_SOURCES = ["tbill", "bcra"] as const;
+export type RiskFreeSource = (typeof RISK_FREE_SOURCES)[number];
+
+export const RISK_FREE_LABELS: Record<RiskFreeSource, string> = {
+  tbill: "US T-bill 13W",
+  bcra: "BCRA policy rate",
+};
+
+/** One-sided normal quantiles for parametric VaR */
+const Z_SCORES: Record<VarConfidence, number> = { 95: 1.6449, 99: 2.3263 };
+
+export interface DatedReturn {
+  /** YYYY-MM-DD, the day closing the period */
+  date: string;
+  value: number;
+}
+
+export interface DrawdownPoint {
+  date: string;
+  /** 0 at a new high, negative below it, percent */
+  drawdownPercent: number;
+}
+
+export interface MaxDrawdown {
+  /** Negative, percent */
+  percent: number;
+  peakDate: string;
+  troughDate: string;
+  /** First date back at the peak; null while still under water */
+  recoveryDate: string | null;
+}
+
+export interface ValueAtRisk {
+  confidence: VarConfidence;
+  /** One-day loss not exceeded at this confidence, positive percent */
+  historicalPercent: number;
+  parametricPercent: number;
+  historicalUsd: number;
+  parametricUsd: number;
+}
+
+export interface RiskMetrics {
+  startDate: string;
+  endDate: string;
+  /** Number of daily returns measured */
+  observations: number;
+  annualReturnPercent: number;
+  volatilityPercent: number;
+  sharpe: number | null;
+  sortino: number | null;
+  maxDrawdown: MaxDrawdown | null;
+  underwater: DrawdownPoint[];
+  valueAtRisk: ValueAtRisk[];
+}
+
+export interface WeightedHolding {
+  /** Share of the portfolio's value, any scale (normalized here) */
+  weight: number;
+  /** USD closes, oldest first */
+  closes: DailyClose[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mean(xs: number[]): number {
+  return xs.reduce((s, x) => s + x, 0) / xs.length;
+}
+
+/** Sample standard deviation */
+function stdev(xs: number[]): number {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) ** 2, 0) / (xs.length - 1));
+}
+
+// ── Return series ───────────────────────────────────────────────────────────
+
+/** Flow-adjusted daily returns between snapshots; unmeasurable periods are dropped */
+export function snapshotReturns(points: ValuePoint[], flows: CashFlow[]): DatedReturn[] {
+  return periodReturns(points, flows).filter(
+    (r): r is DatedReturn => r.value !== null && Number.isFinite(r.value)
+  );
+}
+
+/**
+ * Daily returns of a fixed-weight basket over `dates`. Each day averages
+ * the returns of the holdings priced on both days, re-weighted among them,
+ * so a listing that starts late joins when it has history.
+ */
+export function holdingsReturns(holdings: WeightedHolding[], dates: string[]): DatedReturn[] {
+  const out: DatedReturn[] = [];
+
+  for (let i = 1; i < dates.length; i++) {
+    let weighted = 0;
+    let weights = 0;
+    for (const h of holdings) {
+      if (!(h.weight > 0)) continue;
+      const prev = closeOnOrBefore(h.closes, dates[i - 1]);
+      const curr = closeOnOrBefore(h.closes, dates[i]);
+      if (prev === null || curr === null || !(prev > 0)) continue;
+      weighted += h.weight * (curr / prev - 1);
+      weights += h.weight;
+    }
+    if (weights > 0) out.push({ date: dates[i], value: weighted / weights });
+  }
+
+  return out;
+}
+
+/**
+ * Observations per year implied by the spacing of the series, so daily
+ * snapshots (calendar days) and market days both annualize correctly.
+ */
+export function periodsPerYear(returns: DatedReturn[], startDate: string): number {
+  if (returns.length === 0) return 252;
+  const span =
+    (Date.parse(`${returns[returns.length - 1].date}T00:00:00Z`) -
+      Date.parse(`${startDate}T00:00:00Z`)) /
+    DAY_MS;
+  return (365 * returns.length) / Math.max(span, 1);
+}
+
+// ── Measures ────────────────────────────────────────────────────────────────
+
+/** Annualized standard deviation of the returns, percent */
+export function annualizedVolatility(returns: number[], perYear: number): number {
+  return stdev(returns) * Math.sqrt(perYear) * 100;
+}
+
+/**
+ * Annualized excess return over the risk-free rate per unit of volatility.
+ * Null when the series is flat.
+ */
+export function sharpeRatio(
+  returns: number[],
+  riskFreePercent: number,
+  perYear: number
+): number | null {
+  const sd = stdev(returns);
+  if (returns.length < 2 || sd === 0) return null;
+  const rf = riskFreePercent / 100 / perYear;
+  return ((mean(returns) - rf) / sd) * Math.sqrt(perYear);
+}
+
+/**
+ * Like Sharpe, but only returns below the risk-free rate count as risk
+ * (downside deviation). Null when nothing fell below it.
+ */
+export function sortinoRatio(
+  returns: number[],
+  riskFreePercent: number,
+  perYear: number
+): number | null {
+  if (returns.length < 2) return null;
+  const rf = riskFreePercent / 100 / perYear;
+  const downside = Math.sqrt(
+    returns.reduce((s, r) => s + Math.min(0, r - rf) ** 2, 0) / returns.length
+  );
+  if (downside === 0) return null;
+  return ((mean(returns) - rf) / downside) * Math.sqrt(perYear);
+}
+
+/**
+ * Drawdown below the running peak of the compounded series, and the
+ * deepest one. The series starts at 1 on `startDate`.
+ */
+export function drawdowns(
+  returns: DatedReturn[],
+  startDate: string
+): { underwater: DrawdownPoint[]; max: MaxDrawdown | null } {
+  const underwater: DrawdownPoint[] = [{ date: startDate, drawdownPercent: 0 }];
+  let index = 1;
+  let peak = 1;
+  let peakDate = startDate;
+  let max: MaxDrawdown | null = null;
+
+  for (const r of returns) {
+    index *= 1 + r.value;
+    if (index >= peak) {
+      if (max && max.recoveryDate === null && max.peakDate === peakDate) {
+        max.recoveryDate = r.date;
+      }
+      peak = index;
+      peakDate = r.date;
+    }
+    const percent = (index / peak - 1) * 100;
+    underwater.push({ date: r.date, drawdownPercent: percent });
+    if (percent < 0 && (!max || percent < max.percent)) {
+      max = { percent, peakDate, troughDate: r.date, recoveryDate: null };
+    }
+  }
+
+  return { underwater, max };
+}
+
+/** Linear-interpolated quantile of an unsorted sample, q in [0, 1] */
+function quantile(xs: number[], q: number): number {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+/** One-day loss at the confidence level from the empirical returns, positive percent */
+export function historicalVaR(returns: number[], confidence: VarConfidence): number {
+  if (returns.length === 0) return 0;
+  return Math.max(0, -quantile(returns, 1 - confidence / 100)) * 100;
+}
+
+/** One-day loss at the confidence level assuming normal returns, positive percent */
+export function parametricVaR(returns: number[], confidence: VarConfidence): number {
+  if (returns.length < 2) return 0;
+  return Math.max(0, Z_SCORES[confidence] * stdev(returns) - mean(returns)) * 100;
+}
+
+/**
+ * Every measure for one return series. `value` is today's portfolio value,
+ * to express VaR in dollars. Null with fewer than two returns.
+ */
+export function riskMetrics(
+  returns: DatedReturn[],
+  startDate: string,
+  riskFreePercent: number,
+  value: number
+): RiskMetrics | null {
+  if (returns.length < 2) return null;
+
+  const values = returns.map((r) => r.value);
+  const perYear = periodsPerYear(returns, startDate);
+  const growth = values.reduce((g, r) => g * (1 + r), 1);
+  const { underwater, max } = drawdowns(returns, startDate);
+
+  return {
+    startDate,
+    endDate: returns[returns.length - 1].date,
+    observations: returns.length,
+    annualReturnPercent: (Math.pow(growth, perYear / returns.length) - 1) * 100,
+    volatilityPercent: annualizedVolatility(values, perYear),
+    sharpe: sharpeRatio(values, riskFreePercent, perYear),
+    sortino: sortinoRatio(values, riskFreePercent, perYear),
+    maxDrawdown: max,
+    underwater,
+    valueAtRisk: VAR_CONFIDENCES.map((confidence) => {
+      const historicalPercent = historicalVaR(values, confidence);
+      const parametricPercent = parametricVaR(values, confidence);
+      return {
+        confidence,
+        historicalPercent,
+        parametricPercent,
+        historicalUsd: (historicalPercent / 100) * value,
+        parametricUsd: (parametricPercent / 100) * value,
+      };
+    }),
+  };
+}
@@ -0,0 +1,212 @@
+import { db } from "@/db";
+import { assets, portfolioSnapshots, transactions } from "@/db/schema";
+import { and, eq, gt, gte, sql } from "drizzle-orm";
+import { fetchDollarRateHistory } from "@/services/macro/client";
+import { getDailyCloses } from "@/services/yahoo/client";
+import {
+  openingEntry,
+  positionKey,
+  replaySnapshots,
+  weekdaysBetween,
+  type DailyClose,
+  type DatedRate,
+  type ReplayEntry,
+} from "./snapshot-replay";
+import { DOLAR_CASAS, VALUATION_RATE_LABELS } from "./constants";
+import { getStoredUsdArsRate, getValuationRate } from "./valuation";
+
+/**
+ * Snapshot backfill: writes reconstructed snapshots (see snapshot-replay.ts)
+ * for the weekdays before the daily edge function took its first one.
+ * Snapshots it took are never touched, and days it missed afterwards stay
+ * gaps; reconstructed ones are rewritten on every run, so running it again
+ * is safe and picks up newly imported history.
+ */
+
+/** Reconstruct at most this far back */
+const MAX_BACKFILL_YEARS = 5;
+
+/** Price series fetched in parallel */
+const PRICE_BATCH_SIZE = 5;
+
+const INSERT_CHUNK_SIZE = 200;
+
+export interface BackfillSummary {
+  /** First and last reconstructed date; null when there was nothing to replay */
+  from: string | null;
+  to: string | null;
+  /** Reconstructed snapshots written (new or rewritten) */
+  written: number;
+  warnings: string[];
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+async function loadCloses(
+  entries: ReplayEntry[],
+  since: Date
+): Promise<Map<string, DailyClose[]>> {
+  const positions = new Map<string, ReplayEntry>();
+  for (const e of entries) {
+    if (e.category !== "cash") positions.set(positionKey(e), e);
+  }
+
+  const closes = new Map<string, DailyClose[]>();
+  const list = [...positions.entries()];
+  for (let i = 0; i < list.length; i += PRICE_BATCH_SIZE) {
+    await Promise.all(
+      list.slice(i, i + PRICE_BATCH_SIZE).map(async ([key, e]) => {
+        closes.set(key, await getDailyCloses(e.ticker, e.category, since, e.currency));
+      })
+    );
+  }
+  return closes;
+}
+
+/**
+ * Reconstruct the user's snapshots from their first transaction or opening
+ * lot (at most MAX_BACKFILL_YEARS ago) through the day before their first
+ * real snapshot, or yesterday when there is none.
+ */
+export async function backfillSnapshots(userId: string): Promise<BackfillSummary> {
+  const [txns, opened, [firstReal]] = await Promise.all([
+    db.query.transactions.findMany({
+      where: eq(transactions.userId, userId),
+      with: { asset: true },
+    }),
+    db.query.assets.findMany({
+      where: and(eq(assets.userId, userId), gt(assets.openingQuantity, "0")),
+    }),
+    db
+      .select({ date: sql<string | null>`min(${portfolioSnapshots.snapshotDate})` })
+      .from(portfolioSnapshots)
+      .where(
+        and(eq(portfolioSnapshots.userId, userId), eq(portfolioSnapshots.reconstructed, false))
+      ),
+  ]);
+
+  const summary: BackfillSummary = { from: null, to: null, written: 0, warnings: [] };
+
+  // Opening lots go first so they apply before trades on the same day
+  const entries: ReplayEntry[] = [
+    ...opened.flatMap((a) => {
+      const opening = openingEntry({
+        ...a,
+        openingQuantity: Number(a.openingQuantity),
+        openingAveragePrice: Number(a.openingAveragePrice),
+      });
+      return opening ? [opening] : [];
+    }),
+    ...txns.map((t) => ({
+      date: isoDate(t.executedAt),
+      ticker: t.asset.ticker,
+      name: t.asset.name,
+      category: t.asset.category,
+      currency: t.asset.currency,
+      type: t.type,
+      quantity: Number(t.quantity),
+      pricePerUnit: Number(t.pricePerUnit),
+      totalAmount: Number(t.totalAmount),
+    })),
+  ];
+  if (entries.length === 0) return summary;
+
+  // Today's snapshot is the edge function's, and so is every day from its first
+  const last = firstReal?.date ? new Date(`${firstReal.date}T00:00:00Z`) : new Date();
+  last.setUTCDate(last.getUTCDate() - 1);
+  const earliest = new Date();
+  earliest.setUTCFullYear(earliest.getUTCFullYear() - MAX_BACKFILL_YEARS);
+
+  const firstEntry = entries.reduce((min, e) => (e.date < min ? e.date : min), entries[0].date);
+  const from = firstEntry > isoDate(earliest) ? firstEntry : isoDate(earliest);
+  const to = isoDate(last);
+  if (from > to) return summary;
+
+  const valuationRate = await getValuationRate(userId);
+  let rates: DatedRate[] = [];
+  let fallbackRate = 0;
+  if (entries.some((e) => e.currency === "ARS")) {
+    rates = await fetchDollarRateHistory(DOLAR_CASAS[valuationRate]);
+    if (rates.length === 0) {
+      fallbackRate = (await getStoredUsdArsRate(valuationRate)) ?? 0;
+      summary.warnings.push(
+        fallbackRate > 0
+          ? `${VALUATION_RATE_LABELS[valuationRate]} rate history unavailable: ARS positions valued at the current rate`
+          : "No USD/ARS rate available: ARS positions were left out"
+      );
+    }
+  }
+
+  const closes = await loadCloses(entries, new Date(`${from}T00:00:00Z`));
+  const unpriced = [
+    ...new Set(
+      entries
+        .filter((e) => e.category !== "cash" && !closes.get(positionKey(e))?.length)
+        .map((e) => e.ticker)
+    ),
+  ];
+  if (unpriced.length > 0) {
+    summary.warnings.push(
+      `No price history for ${unpriced.join(", ")}: valued at their last trade price`
+    );
+  }
+
+  const days = weekdaysBetween(from, to);
+  const replayed = replaySnapshots(entries, closes, days, rates, fallbackRate);
+  const rows = replayed.map((s) => ({
+    userId,
+    snapshotDate: s.date,
+    totalValueUsd: s.totalValue.toFixed(2),
+    totalCostUsd: s.totalCost.toFixed(2),
+    totalPnlUsd: s.totalPnl.toFixed(2),
+    totalPnlPercent: s.totalPnlPercent.toFixed(4),
+    assetCount: s.positions.length,
+    byCategory: s.byCategory,
+    positions: s.positions,
+    valuationRate,
+    usdArsRate: s.usdArsRate > 0 ? s.usdArsRate.toFixed(4) : null,
+    reconstructed: true,
+  }));
+
+  // Earlier runs also filled the gaps between real snapshots
+  if (firstReal?.date) {
+    await db
+      .delete(portfolioSnapshots)
+      .where(
+        and(
+          eq(portfolioSnapshots.userId, userId),
+          eq(portfolioSnapshots.reconstructed, true),
+          gte(portfolioSnapshots.snapshotDate, firstReal.date)
+        )
+      );
+  }
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await db
+      .insert(portfolioSnapshots)
+      .values(rows.slice(i, i + INSERT_CHUNK_SIZE))
+      .onConflictDoUpdate({
+        target: [portfolioSnapshots.userId, portfolioSnapshots.snapshotDate],
+        set: {
+          totalValueUsd: sql`excluded.total_value_usd`,
+          totalCostUsd: sql`excluded.total_cost_usd`,
+          totalPnlUsd: sql`excluded.total_pnl_usd`,
+          totalPnlPercent: sql`excluded.total_pnl_percent`,
+          assetCount: sql`excluded.asset_count`,
+          byCategory: sql`excluded.by_category`,
+          positions: sql`excluded.positions`,
+          valuationRate: sql`excluded.valuation_rate`,
+          usdArsRate: sql`excluded.usd_ars_rate`,
+        },
+        // A snapshot the edge function took in the meantime wins
+        setWhere: eq(portfolioSnapshots.reconstructed, true),
+      });
+  }
+
+  summary.from = rows[0]?.snapshotDate ?? null;
+  summary.to = rows.at(-1)?.snapshotDate ?? null;
+  summary.written = rows.length;
+  return summary;
+}
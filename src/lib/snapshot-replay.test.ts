@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import {
+  closeOnOrBefore,
+  openingEntry,
+  replaySnapshots,
+  weekdaysBetween,
+  type DailyClose,
+  type ReplayEntry,
+} from "./snapshot-replay";
+
+function entry(overrides: Partial<ReplayEntry>): ReplayEntry {
+  return {
+    date: "2026-03-02",
+    ticker: "AAPL",
+    name: "Apple",
+    category: "stock",
+    currency: "USD",
+    type: "buy",
+    quantity: 10,
+    pricePerUnit: 100,
+    totalAmount: 1000,
+    ...overrides,
+  };
+}
+
+const closes = (key: string, series: DailyClose[]) => new Map([[key, series]]);
+
+// ===========================================================================
+// Calendar and price lookup
+// ===========================================================================
+
+describe("weekdaysBetween", () => {
+  it("lists weekdays only, inclusive", () => {
+    // 2026-03-06 is a Friday
+    expect(weekdaysBetween("2026-03-06", "2026-03-10")).toEqual([
+      "2026-03-06",
+      "2026-03-09",
+      "2026-03-10",
+    ]);
+  });
+});
+
+describe("closeOnOrBefore", () => {
+  const series = [
+    { date: "2026-03-02", close: 10 },
+    { date: "2026-03-04", close: 12 },
+  ];
+
+  it("carries the last close over days without one", () => {
+    expect(closeOnOrBefore(series, "2026-03-03")).toBe(10);
+    expect(closeOnOrBefore(series, "2026-03-09")).toBe(12);
+  });
+
+  it("is null before the series starts", () => {
+    expect(closeOnOrBefore(series, "2026-03-01")).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Replay
+// ===========================================================================
+
+describe("replaySnapshots", () => {
+  it("values holdings from the day they were bought", () => {
+    const snapshots = replaySnapshots(
+      [entry({ date: "2026-03-03" })],
+      closes("stock:AAPL", [
+        { date: "2026-03-02", close: 95 },
+        { date: "2026-03-03", close: 110 },
+      ]),
+      ["2026-03-02", "2026-03-03", "2026-03-04"],
+      [],
+      0
+    );
+
+    expect(snapshots.map((s) => s.date)).toEqual(["2026-03-03", "2026-03-04"]);
+    expect(snapshots[0].totalValue).toBe(1100);
+    expect(snapshots[0].totalCost).toBe(1000);
+    expect(snapshots[0].totalPnlPercent).toBeCloseTo(10, 10);
+    expect(snapshots[0].byCategory.stock).toEqual({ value: 1100, count: 1, pnl: 100 });
+  });
+
+  it("reduces cost at the average on sells", () => {
+    const [snapshot] = replaySnapshots(
+      [
+        entry({ quantity: 10, totalAmount: 1000 }),
+        entry({ quantity: 10, totalAmount: 3000 }),
+        entry({ type: "sell", quantity: 5, totalAmount: 1000, pricePerUnit: 200 }),
+      ],
+      closes("stock:AAPL", [{ date: "2026-03-02", close: 200 }]),
+      ["2026-03-02"],
+      [],
+      0
+    );
+
+    expect(snapshot.positions[0].quantity).toBe(15);
+    expect(snapshot.totalCost).toBe(3000); // 4000 × 15/20
+    expect(snapshot.positions[0].avgPrice).toBe(200);
+  });
+
+  it("drops fully sold positions and days with nothing held", () => {
+    const snapshots = replaySnapshots(
+      [entry({}), entry({ date: "2026-03-03", type: "sell", quantity: 10 })],
+      closes("stock:AAPL", [{ date: "2026-03-02", close: 100 }]),
+      ["2026-03-02", "2026-03-03"],
+      [],
+      0
+    );
+    expect(snapshots.map((s) => s.date)).toEqual(["2026-03-02"]);
+  });
+
+  it("converts ARS positions at the rate of each day", () => {
+    const snapshots = replaySnapshots(
+      [entry({ ticker: "GGAL", currency: "ARS", quantity: 1, totalAmount: 1000 })],
+      closes("stock:GGAL", [{ date: "2026-03-02", close: 2000 }]),
+      ["2026-03-02", "2026-03-03"],
+      [
+        { date: "2026-03-02", sell: 1000 },
+        { date: "2026-03-03", sell: 2000 },
+      ],
+      0
+    );
+
+    expect(snapshots[0].totalValue).toBe(2);
+    expect(snapshots[0].totalCost).toBe(1);
+    expect(snapshots[1].totalValue).toBe(1);
+    expect(snapshots[1].usdArsRate).toBe(2000);
+  });
+
+  it("holds unpriced positions at their last trade price and cash at par", () => {
+    const [snapshot] = replaySnapshots(
+      [
+        entry({ ticker: "AL30", category: "stock", pricePerUnit: 70, totalAmount: 700 }),
+        entry({ ticker: "USD", category: "cash", pricePerUnit: 1, quantity: 50, totalAmount: 50 }),
+      ],
+      new Map(),
+      ["2026-03-02"],
+      [],
+      0
+    );
+
+    expect(snapshot.totalValue).toBe(750);
+    expect(snapshot.positions.map((p) => p.ticker)).toEqual(["AL30", "USD"]);
+  });
+
+  it("counts income in kind as held quantity", () => {
+    const [snapshot] = replaySnapshots(
+      [
+        entry({ ticker: "ETH", category: "crypto", quantity: 1, totalAmount: 2000 }),
+        entry({ ticker: "ETH", category: "crypto", type: "income", quantity: 0.1, totalAmount: 200 }),
+      ],
+      closes("crypto:ETH", [{ date: "2026-03-02", close: 2000 }]),
+      ["2026-03-02"],
+      [],
+      0
+    );
+
+    expect(snapshot.positions[0].quantity).toBeCloseTo(1.1, 10);
+    expect(snapshot.totalCost).toBe(2200);
+  });
+
+  it("holds an opening lot from the day its asset was created", () => {
+    const opening = openingEntry({
+      createdAt: new Date("2026-03-03T15:00:00Z"),
+      ticker: "AAPL",
+      name: "Apple",
+      category: "stock",
+      currency: "USD",
+      openingQuantity: 10,
+      openingAveragePrice: 90,
+    });
+    const snapshots = replaySnapshots(
+      [opening!, entry({ date: "2026-03-03", type: "sell", quantity: 4, pricePerUnit: 110 })],
+      closes("stock:AAPL", [{ date: "2026-03-02", close: 110 }]),
+      ["2026-03-02", "2026-03-03"],
+      [],
+      0
+    );
+
+    expect(snapshots.map((s) => s.date)).toEqual(["2026-03-03"]);
+    expect(snapshots[0].positions[0].quantity).toBe(6);
+    expect(snapshots[0].totalCost).toBe(540);
+  });
+
+  it("has no opening entry for an asset without an opening lot", () => {
+    expect(
+      openingEntry({
+        createdAt: new Date("2026-03-03T15:00:00Z"),
+        ticker: "AAPL",
+        name: "Apple",
+        category: "stock",
+        currency: "USD",
+        openingQuantity: 0,
+        openingAveragePrice: 0,
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Reconstructed portfolio snapshots.
+ *
+ * Replays the transaction ledger day by day to recover the holdings on each
+ * past weekday, then values them with daily closes and the USD/ARS rate of
+ * that day, in the same shape the portfolio-snapshot edge function writes.
+ * Cost basis is the running average cost; income received in kind opens at
+ * its recorded amount, like a buy, and so does an asset's opening lot on the
+ * day the asset was created. Everything here is pure.
+ */
+
+import { rateOnDate } from "./performance";
+import type { AssetCategory, Currency, LedgerEntryType } from "./constants";
+
+// ── Inputs ──────────────────────────────────────────────────────────────────
+
+export interface ReplayEntry {
+  /** YYYY-MM-DD */
+  date: string;
+  ticker: string;
+  name: string;
+  category: AssetCategory;
+  currency: Currency;
+  type: LedgerEntryType;
+  quantity: number;
+  pricePerUnit: number;
+  totalAmount: number;
+}
+
+export interface DailyClose {
+  /** YYYY-MM-DD */
+  date: string;
+  /** In the position's currency */
+  close: number;
+}
+
+export interface DatedRate {
+  /** YYYY-MM-DD */
+  date: string;
+  sell: number;
+}
+
+// ── Outputs ─────────────────────────────────────────────────────────────────
+
+/** Mirrors the edge function's positions entries (all USD) */
+export interface SnapshotPosition {
+  ticker: string;
+  name: string;
+  category: AssetCategory;
+  quantity: number;
+  avgPrice: number;
+  currentPrice: number;
+  value: number;
+  pnl: number;
+  pnlPercent: number;
+}
+
+export interface CategoryBreakdown {
+  value: number;
+  count: number;
+  pnl: number;
+}
+
+export interface ReplayedSnapshot {
+  /** YYYY-MM-DD */
+  date: string;
+  totalValue: number;
+  totalCost: number;
+  totalPnl: number;
+  totalPnlPercent: number;
+  byCategory: Record<string, CategoryBreakdown>;
+  positions: SnapshotPosition[];
+  /** USD/ARS rate ARS positions were converted at */
+  usdArsRate: number;
+}
+
+/**
+ * An asset's manually entered opening lot (assets.openingQuantity) as a buy
+ * on the day the asset was created, or null when it has none
+ */
+export function openingEntry(asset: {
+  createdAt: Date;
+  ticker: string;
+  name: string;
+  category: AssetCategory;
+  currency: Currency;
+  openingQuantity: number;
+  openingAveragePrice: number;
+}): ReplayEntry | null {
+  if (!(asset.openingQuantity > 0)) return null;
+  return {
+    date: asset.createdAt.toISOString().slice(0, 10),
+    ticker: asset.ticker,
+    name: asset.name,
+    category: asset.category,
+    currency: asset.currency,
+    type: "buy",
+    quantity: asset.openingQuantity,
+    pricePerUnit: asset.openingAveragePrice,
+    totalAmount: asset.openingQuantity * asset.openingAveragePrice,
+  };
+}
+
+/** Holdings below this are treated as closed (float dust from sells) */
+const QUANTITY_EPSILON = 1e-9;
+
+/** Series key for a position: the same ticker in two accounts is one holding */
+export function positionKey(p: { ticker: string; category: string }): string {
+  return `${p.category}:${p.ticker}`;
+}
+
+/** YYYY-MM-DD weekdays from `from` to `to`, inclusive (snapshots run Mon-Fri) */
+export function weekdaysBetween(from: string, to: string): string[] {
+  const days: string[] = [];
+  const cursor = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (cursor <= end) {
+    const weekday = cursor.getUTCDay();
+    if (weekday !== 0 && weekday !== 6) days.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+/** Last close on or before `date`, or null before the series starts */
+export function closeOnOrBefore(series: DailyClose[], date: string): number | null {
+  if (series.length === 0 || date < series[0].date) return null;
+
+  let lo = 0;
+  let hi = series.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (series[mid].date <= date) lo = mid;
+    else hi = mid - 1;
+  }
+  return series[lo].close;
+}
+
+interface Holding {
+  ticker: string;
+  name: string;
+  category: AssetCategory;
+  currency: Currency;
+  quantity: number;
+  /** Average-cost basis, in the position's currency */
+  cost: number;
+  /** Mark used when there is no close (bonds, delisted tickers) */
+  lastTradePrice: number;
+}
+
+function applyEntry(holdings: Map<string, Holding>, entry: ReplayEntry): void {
+  const key = positionKey(entry);
+  const holding = holdings.get(key) ?? {
+    ticker: entry.ticker,
+    name: entry.name,
+    category: entry.category,
+    currency: entry.currency,
+    quantity: 0,
+    cost: 0,
+    lastTradePrice: entry.pricePerUnit,
+  };
+  if (entry.pricePerUnit > 0) holding.lastTradePrice = entry.pricePerUnit;
+
+  if (entry.type === "sell") {
+    const sold = Math.min(entry.quantity, holding.quantity);
+    holding.cost -= holding.quantity > 0 ? holding.cost * (sold / holding.quantity) : 0;
+    holding.quantity -= sold;
+    if (holding.quantity < QUANTITY_EPSILON) {
+      holding.quantity = 0;
+      holding.cost = 0;
+    }
+  } else {
+    holding.quantity += entry.quantity;
+    holding.cost += entry.totalAmount;
+  }
+
+  holdings.set(key, holding);
+}
+
+/**
+ * One snapshot per weekday in `days` on which something was held. `entries`
+ * may come in any order across days; within a day they apply in the order
+ * given (opening lots first). `closes` is keyed by `positionKey`, oldest first.
+ * Cash positions are worth their quantity.
+ */
+export function replaySnapshots(
+  entries: ReplayEntry[],
+  closes: Map<string, DailyClose[]>,
+  days: string[],
+  rates: DatedRate[],
+  fallbackRate: number
+): ReplayedSnapshot[] {
+  const ordered = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+  const holdings = new Map<string, Holding>();
+  const snapshots: ReplayedSnapshot[] = [];
+  let next = 0;
+
+  for (const date of days) {
+    while (next < ordered.length && ordered[next].date <= date) {
+      applyEntry(holdings, ordered[next++]);
+    }
+
+    const usdArsRate = rateOnDate(rates, date, fallbackRate);
+    const toUsd = (amount: number, currency: Currency) =>
+      currency === "ARS" ? (usdArsRate > 0 ? amount / usdArsRate : 0) : amount;
+
+    const positions: SnapshotPosition[] = [];
+    const byCategory: Record<string, CategoryBreakdown> = {};
+    let totalValue = 0;
+    let totalCost = 0;
+
+    for (const [key, h] of holdings) {
+      if (h.quantity <= 0) continue;
+
+      const price =
+        h.category === "cash"
+          ? 1
+          : closeOnOrBefore(closes.get(key) ?? [], date) ?? h.lastTradePrice;
+      const value = toUsd(h.quantity * price, h.currency);
+      const cost = toUsd(h.cost, h.currency);
+      const pnl = value - cost;
+
+      positions.push({
+        ticker: h.ticker,
+        name: h.name,
+        category: h.category,
+        quantity: h.quantity,
+        avgPrice: toUsd(h.cost / h.quantity, h.currency),
+        currentPrice: toUsd(price, h.currency),
+        value,
+        pnl,
+        pnlPercent: cost > 0 ? (pnl / cost) * 100 : 0,
+      });
+
+      const category = (byCategory[h.category] ??= { value: 0, count: 0, pnl: 0 });
+      category.value += value;
+      category.count += 1;
+      category.pnl += pnl;
+      totalValue += value;
+      totalCost += cost;
+    }
+
+    if (positions.length === 0) continue;
+
+    positions.sort((a, b) => b.value - a.value);
+    const totalPnl = totalValue - totalCost;
+    snapshots.push({
+      date,
+      totalValue,
+      totalCost,
+      totalPnl,
+      totalPnlPercent: totalCost > 0 ? (totalPnl / totalCost) * 100 : 0,
+      byCategory,
+      positions,
+      usdArsRate,
+    });
+  }
+
+  return snapshots;
+}
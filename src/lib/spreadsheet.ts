@@ -0,0 +1,240 @@
+/**
+ * Spreadsheet readers for broker exports (CSV and XLSX), dependency-free.
+ *
+ * Both return the raw grid of cell strings; interpreting columns is left to
+ * the import presets. XLSX is read straight from the zip container using
+ * the platform's DecompressionStream, so it works in the browser and Node.
+ */
+
+export type SheetGrid = string[][];
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+
+/** Pick the delimiter that splits the first line into the most columns. */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  let best = ",";
+  let bestCount = 0;
+  for (const candidate of [",", ";", "\t"]) {
+    const count = firstLine.split(candidate).length;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function parseCSV(input: string, delimiter?: string): SheetGrid {
+  const text = input.replace(/^\uFEFF/, "");
+  const sep = delimiter ?? detectDelimiter(text);
+  const rows: SheetGrid = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === sep) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+// ── XLSX (zip container) ─────────────────────────────────────────────────────
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory: last occurrence of PK\x05\x06
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a valid XLSX file");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function readZipEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localHeaderOffset;
+  const nameLength = view.getUint16(start + 26, true);
+  const extraLength = view.getUint16(start + 28, true);
+  const dataStart = start + 30 + nameLength + extraLength;
+  const data = bytes.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported XLSX compression (${entry.method})`);
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Concatenate every <t> run inside a fragment (rich text has several). */
+function textRuns(fragment: string): string {
+  let out = "";
+  for (const m of fragment.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    out += decodeXml(m[1]);
+  }
+  return out;
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, "");
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Path of the first worksheet, resolved through the workbook relationships. */
+async function firstSheetPath(
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>
+): Promise<string> {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = entries.get("xl/workbook.xml");
+  const rels = entries.get("xl/_rels/workbook.xml.rels");
+  if (!workbook || !rels) return fallback;
+
+  const sheetRel = (await readZipEntry(bytes, workbook)).match(
+    /<sheet\b[^>]*\br:id="([^"]+)"/
+  )?.[1];
+  if (!sheetRel) return fallback;
+
+  const relsXml = await readZipEntry(bytes, rels);
+  for (const m of relsXml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attrs = m[1];
+    if (attrs.includes(`Id="${sheetRel}"`)) {
+      const target = attrs.match(/Target="([^"]+)"/)?.[1];
+      if (target) return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Read the first worksheet of an XLSX file. Numbers are returned as their
+ * raw stored text (dates stay Excel serial numbers).
+ */
+export async function parseXLSX(data: ArrayBuffer | Uint8Array): Promise<SheetGrid> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const entries = readZipDirectory(bytes);
+
+  const sharedStrings: string[] = [];
+  const sst = entries.get("xl/sharedStrings.xml");
+  if (sst) {
+    const xml = await readZipEntry(bytes, sst);
+    for (const m of xml.matchAll(/<si>([\s\S]*?)<\/si>/g)) {
+      sharedStrings.push(textRuns(m[1]));
+    }
+  }
+
+  const sheet = entries.get(await firstSheetPath(bytes, entries));
+  if (!sheet) throw new Error("XLSX file has no worksheet");
+  const xml = await readZipEntry(bytes, sheet);
+
+  const rows: SheetGrid = [];
+  for (const rowMatch of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const ref = attrs.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attrs.match(/\bt="(\w+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && raw !== undefined) value = sharedStrings[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    if (row.some((c) => c.trim() !== "")) rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Read a CSV or XLSX File (browser) by extension.
+ */
+export async function readSpreadsheetFile(file: File): Promise<SheetGrid> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return parseXLSX(await file.arrayBuffer());
+  }
+  return parseCSV(await file.text());
+}
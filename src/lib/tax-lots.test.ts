@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { buildLedger, sortLedgerTransactions, type LedgerTransaction } from "./tax-lots";
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+let seq = 0;
+
+function txn(
+  type: LedgerTransaction["type"],
+  quantity: number,
+  pricePerUnit: number,
+  date: string,
+  id = `t${++seq}`
+): LedgerTransaction {
+  return { id, type, quantity, pricePerUnit, executedAt: new Date(date) };
+}
+
+// Buy 10 @ 100, buy 10 @ 200, sell 15 @ 300
+function scenario(): LedgerTransaction[] {
+  return [
+    txn("buy", 10, 100, "2025-01-10", "b1"),
+    txn("buy", 10, 200, "2025-02-10", "b2"),
+    txn("sell", 15, 300, "2025-03-10", "s1"),
+  ];
+}
+
+// ===========================================================================
+// FIFO
+// ===========================================================================
+
+describe("buildLedger — FIFO", () => {
+  it("consumes the oldest lot first", () => {
+    const ledger = buildLedger(scenario(), "fifo");
+
+    expect(ledger.matches).toHaveLength(2);
+    expect(ledger.matches[0]).toMatchObject({ buyTransactionId: "b1", quantity: 10, costBasis: 1000 });
+    expect(ledger.matches[1]).toMatchObject({ buyTransactionId: "b2", quantity: 5, costBasis: 1000 });
+
+    // Proceeds 15*300 = 4500, cost 2000 -> 2500
+    const realized = ledger.matches.reduce((s, m) => s + m.realizedPnl, 0);
+    expect(realized).toBe(2500);
+  });
+
+  it("remaining position is priced at the unsold lot's cost", () => {
+    const ledger = buildLedger(scenario(), "fifo");
+    expect(ledger.quantity).toBe(5);
+    expect(ledger.averagePrice).toBe(200);
+  });
+});
+
+// ===========================================================================
+// LIFO
+// ===========================================================================
+
+describe("buildLedger — LIFO", () => {
+  it("consumes the newest lot first", () => {
+    const ledger = buildLedger(scenario(), "lifo");
+
+    expect(ledger.matches[0]).toMatchObject({ buyTransactionId: "b2", quantity: 10, costBasis: 2000 });
+    expect(ledger.matches[1]).toMatchObject({ buyTransactionId: "b1", quantity: 5, costBasis: 500 });
+
+    const realized = ledger.matches.reduce((s, m) => s + m.realizedPnl, 0);
+    expect(realized).toBe(2000);
+    expect(ledger.averagePrice).toBe(100);
+  });
+});
+
+// ===========================================================================
+// Weighted average
+// ===========================================================================
+
+describe("buildLedger — average cost", () => {
+  it("matches the sale at the pool's average cost", () => {
+    const ledger = buildLedger(scenario(), "average");
+
+    expect(ledger.matches).toHaveLength(1);
+    expect(ledger.matches[0].buyTransactionId).toBeNull();
+    // avg 150 -> cost 2250, proceeds 4500
+    expect(ledger.matches[0].costBasis).toBe(2250);
+    expect(ledger.matches[0].realizedPnl).toBe(2250);
+  });
+
+  it("keeps the average unchanged after a sale", () => {
+    const ledger = buildLedger(scenario(), "average");
+    expect(ledger.quantity).toBeCloseTo(5, 10);
+    expect(ledger.averagePrice).toBeCloseTo(150, 10);
+  });
+});
+
+// ===========================================================================
+// Determinism and edge cases
+// ===========================================================================
+
+describe("buildLedger — replay", () => {
+  it("is independent of input order", () => {
+    const ordered = buildLedger(scenario(), "fifo");
+    const shuffled = buildLedger([...scenario()].reverse(), "fifo");
+    expect(shuffled.matches).toEqual(ordered.matches);
+  });
+
+  it("a backdated buy changes which lot a later sale consumes", () => {
+    const txns = [...scenario(), txn("buy", 10, 50, "2025-01-01", "b0")];
+    const ledger = buildLedger(txns, "fifo");
+    expect(ledger.matches[0]).toMatchObject({ buyTransactionId: "b0", quantity: 10 });
+    expect(ledger.matches[1]).toMatchObject({ buyTransactionId: "b1", quantity: 5 });
+  });
+
+  it("deleting a buy re-matches the sale against the remaining lots", () => {
+    const txns = scenario().filter((t) => t.id !== "b1");
+    const ledger = buildLedger(txns, "fifo");
+    expect(ledger.matches).toHaveLength(1);
+    expect(ledger.matches[0]).toMatchObject({ buyTransactionId: "b2", quantity: 10 });
+    expect(ledger.unmatchedQuantity).toBe(5);
+    expect(ledger.quantity).toBe(0);
+  });
+
+  it("opening position is the first lot", () => {
+    const ledger = buildLedger(
+      [txn("sell", 4, 20, "2025-05-01", "s1")],
+      "fifo",
+      { quantity: 10, costPerUnit: 12, openedAt: new Date("2024-12-01") }
+    );
+    expect(ledger.matches[0]).toMatchObject({ buyTransactionId: null, quantity: 4, costBasis: 48 });
+    expect(ledger.quantity).toBe(6);
+    expect(ledger.averagePrice).toBe(12);
+  });
+
+  it("sells with no lots are reported as unmatched", () => {
+    const ledger = buildLedger([txn("sell", 3, 10, "2025-01-01")], "average");
+    expect(ledger.matches).toHaveLength(0);
+    expect(ledger.unmatchedQuantity).toBe(3);
+  });
+
+  it("income opens a lot at its value on receipt", () => {
+    const ledger = buildLedger(
+      [
+        txn("buy", 1, 2_000, "2025-01-01", "b1"),
+        txn("income", 0.05, 3_000, "2025-02-01", "i1"),
+        txn("sell", 1.05, 3_500, "2025-03-01", "s1"),
+      ],
+      "fifo"
+    );
+    expect(ledger.matches.map((m) => m.buyTransactionId)).toEqual(["b1", "i1"]);
+    expect(ledger.matches[1].costBasis).toBeCloseTo(150, 6);
+    expect(ledger.quantity).toBe(0);
+  });
+
+  it("handles fractional crypto quantities without leaving dust", () => {
+    const ledger = buildLedger(
+      [
+        txn("buy", 0.1, 60_000, "2025-01-01"),
+        txn("buy", 0.2, 90_000, "2025-02-01"),
+        txn("sell", 0.3, 100_000, "2025-03-01"),
+      ],
+      "fifo"
+    );
+    expect(ledger.quantity).toBe(0);
+    expect(ledger.averagePrice).toBe(0);
+    const realized = ledger.matches.reduce((s, m) => s + m.realizedPnl, 0);
+    // Proceeds 30,000 - cost (6,000 + 18,000) = 6,000
+    expect(realized).toBeCloseTo(6_000, 6);
+  });
+});
+
+describe("sortLedgerTransactions", () => {
+  it("breaks ties on createdAt, then id", () => {
+    const same = "2025-01-01T10:00:00Z";
+    const a = { ...txn("buy", 1, 1, same, "b"), createdAt: new Date("2025-01-02") };
+    const b = { ...txn("sell", 1, 1, same, "a"), createdAt: new Date("2025-01-01") };
+    const c = { ...txn("buy", 1, 1, same, "c"), createdAt: new Date("2025-01-01") };
+    expect(sortLedgerTransactions([a, c, b]).map((t) => t.id)).toEqual(["a", "c", "b"]);
+  });
+});
@@ -0,0 +1,241 @@
+import type { CostBasisMethod, LedgerEntryType } from "./constants";
+
+/**
+ * Tax-lot matching engine.
+ *
+ * Replays an asset's transactions in chronological order: every buy or
+ * income receipt opens a lot, every sell closes lots according to the
+ * user's cost-basis method and produces one realized-P&L match per lot
+ * consumed. The replay is a pure
+ * function of its inputs, so the ledger can be rebuilt from scratch whenever
+ * a past transaction is edited or deleted.
+ */
+
+/** Quantities below this are treated as fully consumed (float dust). */
+const QTY_EPSILON = 1e-9;
+
+export interface LedgerTransaction {
+  id: string;
+  type: LedgerEntryType;
+  quantity: number;
+  pricePerUnit: number;
+  executedAt: Date;
+  /** Tie-breaker for transactions executed at the same instant */
+  createdAt?: Date;
+}
+
+/** Position held before the first recorded transaction (manual asset entry). */
+export interface OpeningPosition {
+  quantity: number;
+  costPerUnit: number;
+  openedAt: Date;
+}
+
+export interface TaxLot {
+  /** Buy that opened the lot; null for the opening position */
+  buyTransactionId: string | null;
+  openedAt: Date;
+  quantity: number;
+  remainingQuantity: number;
+  costPerUnit: number;
+}
+
+export interface LotMatch {
+  sellTransactionId: string;
+  /** Lot's buy transaction; null for the opening position or average cost */
+  buyTransactionId: string | null;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  realizedPnl: number;
+  acquiredAt: Date | null;
+  disposedAt: Date;
+}
+
+export interface LedgerResult {
+  /** Every lot ever opened, with its remaining quantity after the replay */
+  lots: TaxLot[];
+  matches: LotMatch[];
+  /** Quantity still held after all transactions */
+  quantity: number;
+  /** Weighted average cost of the remaining lots */
+  averagePrice: number;
+  /** Quantity sold beyond what was held (no lots left to match) */
+  unmatchedQuantity: number;
+}
+
+/**
+ * Deterministic ordering: execution time, then insertion time, then id.
+ */
+export function sortLedgerTransactions<T extends LedgerTransaction>(txns: T[]): T[] {
+  return [...txns].sort((a, b) => {
+    const byExecuted = a.executedAt.getTime() - b.executedAt.getTime();
+    if (byExecuted !== 0) return byExecuted;
+    const byCreated =
+      (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0);
+    if (byCreated !== 0) return byCreated;
+    return a.id.localeCompare(b.id);
+  });
+}
+
+function openLotsOf(lots: TaxLot[]): TaxLot[] {
+  return lots.filter((l) => l.remainingQuantity > QTY_EPSILON);
+}
+
+function matchSpecificLots(
+  lots: TaxLot[],
+  sell: LedgerTransaction,
+  method: "fifo" | "lifo"
+): { matches: LotMatch[]; unmatched: number } {
+  const candidates = openLotsOf(lots);
+  if (method === "lifo") candidates.reverse();
+
+  const matches: LotMatch[] = [];
+  let toSell = sell.quantity;
+
+  for (const lot of candidates) {
+    if (toSell <= QTY_EPSILON) break;
+    const qty = Math.min(lot.remainingQuantity, toSell);
+    const proceeds = qty * sell.pricePerUnit;
+    const costBasis = qty * lot.costPerUnit;
+
+    matches.push({
+      sellTransactionId: sell.id,
+      buyTransactionId: lot.buyTransactionId,
+      quantity: qty,
+      proceeds,
+      costBasis,
+      realizedPnl: proceeds - costBasis,
+      acquiredAt: lot.openedAt,
+      disposedAt: sell.executedAt,
+    });
+
+    lot.remainingQuantity -= qty;
+    if (lot.remainingQuantity < QTY_EPSILON) lot.remainingQuantity = 0;
+    toSell -= qty;
+  }
+
+  return { matches, unmatched: Math.max(0, toSell) };
+}
+
+function matchAverageCost(
+  lots: TaxLot[],
+  sell: LedgerTransaction
+): { matches: LotMatch[]; unmatched: number } {
+  const open = openLotsOf(lots);
+  const heldQty = open.reduce((sum, l) => sum + l.remainingQuantity, 0);
+  if (heldQty <= QTY_EPSILON) return { matches: [], unmatched: sell.quantity };
+
+  const heldCost = open.reduce(
+    (sum, l) => sum + l.remainingQuantity * l.costPerUnit,
+    0
+  );
+  const avgCost = heldCost / heldQty;
+  const qty = Math.min(sell.quantity, heldQty);
+
+  // Shrink every open lot pro rata so the pool keeps the same average
+  const ratio = qty / heldQty;
+  for (const lot of open) {
+    lot.remainingQuantity -= lot.remainingQuantity * ratio;
+    if (lot.remainingQuantity < QTY_EPSILON) lot.remainingQuantity = 0;
+  }
+
+  const proceeds = qty * sell.pricePerUnit;
+  const costBasis = qty * avgCost;
+
+  return {
+    matches: [
+      {
+        sellTransactionId: sell.id,
+        buyTransactionId: null,
+        quantity: qty,
+        proceeds,
+        costBasis,
+        realizedPnl: proceeds - costBasis,
+        acquiredAt: null,
+        disposedAt: sell.executedAt,
+      },
+    ],
+    unmatched: Math.max(0, sell.quantity - qty),
+  };
+}
+
+/**
+ * Replay transactions and match sells against open lots.
+ */
+export function buildLedger(
+  txns: LedgerTransaction[],
+  method: CostBasisMethod,
+  opening?: OpeningPosition | null
+): LedgerResult {
+  const lots: TaxLot[] = [];
+  const matches: LotMatch[] = [];
+  let unmatchedQuantity = 0;
+
+  if (opening && opening.quantity > QTY_EPSILON) {
+    lots.push({
+      buyTransactionId: null,
+      openedAt: opening.openedAt,
+      quantity: opening.quantity,
+      remainingQuantity: opening.quantity,
+      costPerUnit: opening.costPerUnit,
+    });
+  }
+
+  for (const txn of sortLedgerTransactions(txns)) {
+    // Income in kind (staking rewards) is acquired at its value on receipt
+    if (txn.type === "buy" || txn.type === "income") {
+      lots.push({
+        buyTransactionId: txn.id,
+        openedAt: txn.executedAt,
+        quantity: txn.quantity,
+        remainingQuantity: txn.quantity,
+        costPerUnit: txn.pricePerUnit,
+      });
+      continue;
+    }
+
+    const result =
+      method === "average"
+        ? matchAverageCost(lots, txn)
+        : matchSpecificLots(lots, txn, method);
+
+    matches.push(...result.matches);
+    unmatchedQuantity += result.unmatched;
+  }
+
+  const open = openLotsOf(lots);
+  const quantity = open.reduce((sum, l) => sum + l.remainingQuantity, 0);
+  const remainingCost = open.reduce(
+    (sum, l) => sum + l.remainingQuantity * l.costPerUnit,
+    0
+  );
+
+  return {
+    lots,
+    matches,
+    quantity,
+    averagePrice: quantity > 0 ? remainingCost / quantity : 0,
+    unmatchedQuantity,
+  };
+}
+
+/**
+ * Realized P&L for one sell transaction, aggregated over its lot matches
+ * (shape returned by GET /api/realized-gains).
+ */
+export interface RealizedSale {
+  sellTransactionId: string;
+  assetId: string;
+  ticker: string;
+  name: string;
+  category: string;
+  currency: "USD" | "ARS";
+  method: CostBasisMethod;
+  disposedAt: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  realizedPnl: number;
+  lotsMatched: number;
+}
@@ -0,0 +1,188 @@
+import { CSV_BOM, toCSV } from "./csv";
+import { pdfTableRow, renderPdf, type PdfLine } from "./pdf";
+import {
+  BP_TREATMENT_LABELS,
+  TAX_CLASS_LABELS,
+  type TaxReport,
+} from "./tax-report";
+
+/**
+ * CSV / PDF renderings of a TaxReport (served by GET /api/tax-report).
+ */
+
+function num(value: number, decimals = 2): string {
+  return value.toFixed(decimals);
+}
+
+export function taxReportToCsv(report: TaxReport): string {
+  const rate = report.bnaRate ? `${num(report.bnaRate.buy)} (${report.bnaRate.date})` : "N/D";
+
+  const summary = toCSV(
+    ["Periodo fiscal", "Fecha de valuacion", "Cotizacion BNA comprador"],
+    [[String(report.year), report.valuationDate, rate]]
+  );
+
+  const holdings = toCSV(
+    [
+      "Bienes Personales", "Ticker", "Nombre", "Clase", "Moneda", "Cantidad",
+      "Precio", "Fuente precio", "Valor", "Valor ARS", "Tratamiento", "Norma",
+    ],
+    report.holdings.map((h) => [
+      "Tenencia",
+      h.ticker,
+      h.name,
+      TAX_CLASS_LABELS[h.instrumentClass],
+      h.currency,
+      num(h.quantity, 8).replace(/\.?0+$/, ""),
+      num(h.price),
+      h.priceSource === "historical" ? "Cierre" : "Actual",
+      num(h.value),
+      num(h.valueArs),
+      BP_TREATMENT_LABELS[h.bienesPersonales],
+      h.note,
+    ])
+  );
+
+  const holdingsTotals = toCSV(
+    ["Bienes Personales", "Total ARS", "Gravado ARS", "Exento ARS", "Resp. sustituto ARS"],
+    [[
+      "Totales",
+      num(report.holdingsTotals.totalArs),
+      num(report.holdingsTotals.taxableArs),
+      num(report.holdingsTotals.exemptArs),
+      num(report.holdingsTotals.substituteArs),
+    ]]
+  );
+
+  const gains = toCSV(
+    [
+      "Ganancias", "Clase", "Moneda", "Ventas", "Costo", "Resultado",
+      "Exento", "Norma",
+    ],
+    report.gains.flatMap((g) =>
+      (["ARS", "USD"] as const)
+        .filter((c) => g.totals[c].proceeds !== 0 || g.totals[c].costBasis !== 0)
+        .map((c) => [
+          "Resultado realizado",
+          TAX_CLASS_LABELS[g.instrumentClass],
+          c,
+          num(g.totals[c].proceeds),
+          num(g.totals[c].costBasis),
+          num(g.totals[c].realizedPnl),
+          g.exempt ? "Si" : "No",
+          g.note,
+        ])
+    )
+  );
+
+  return CSV_BOM + [summary, holdings, holdingsTotals, gains].join("\n\n") + "\n";
+}
+
+export function taxReportToPdf(report: TaxReport): Uint8Array {
+  const lines: PdfLine[] = [
+    { text: `Reporte impositivo ${report.year}`, font: "bold", size: 16 },
+    {
+      text: "Ganancias y Bienes Personales - personas humanas residentes",
+      size: 9,
+    },
+    {
+      text: report.bnaRate
+        ? `Cotizacion BNA comprador: ${num(report.bnaRate.buy)} (${report.bnaRate.date}) - valuacion al ${report.valuationDate}`
+        : `Cotizacion BNA no disponible - valuacion al ${report.valuationDate}`,
+      size: 9,
+    },
+  ];
+
+  // Bienes Personales
+  const hWidths = [8, 22, 4, 14, 16, 18, 14];
+  lines.push(
+    { text: "Bienes Personales - tenencias al cierre", font: "bold", size: 12, spaceBefore: 14 },
+    {
+      text: pdfTableRow(["Ticker", "Clase", "Mon", "Cantidad", "Valor", "Valor ARS", "Tratamiento"], hWidths),
+      font: "mono",
+      size: 8,
+      spaceBefore: 4,
+    }
+  );
+  for (const h of report.holdings) {
+    lines.push({
+      text: pdfTableRow(
+        [
+          h.ticker,
+          TAX_CLASS_LABELS[h.instrumentClass],
+          h.currency,
+          num(h.quantity, 4),
+          num(h.value),
+          num(h.valueArs),
+          BP_TREATMENT_LABELS[h.bienesPersonales],
+        ],
+        hWidths
+      ),
+      font: "mono",
+      size: 8,
+    });
+  }
+  const t = report.holdingsTotals;
+  lines.push(
+    { text: `Total: ARS ${num(t.totalArs)}`, font: "bold", size: 9, spaceBefore: 6 },
+    { text: `Gravado: ARS ${num(t.taxableArs)}   Exento: ARS ${num(t.exemptArs)}   Resp. sustituto: ARS ${num(t.substituteArs)}`, size: 9 }
+  );
+
+  // Ganancias
+  const gWidths = [26, 4, 16, 16, 16, 6];
+  lines.push(
+    { text: "Ganancias - resultados realizados por clase", font: "bold", size: 12, spaceBefore: 14 },
+    {
+      text: pdfTableRow(["Clase", "Mon", "Ventas", "Costo", "Resultado", "Exento"], gWidths),
+      font: "mono",
+      size: 8,
+      spaceBefore: 4,
+    }
+  );
+  for (const g of report.gains) {
+    for (const c of ["ARS", "USD"] as const) {
+      const totals = g.totals[c];
+      if (totals.proceeds === 0 && totals.costBasis === 0) continue;
+      lines.push({
+        text: pdfTableRow(
+          [
+            TAX_CLASS_LABELS[g.instrumentClass],
+            c,
+            num(totals.proceeds),
+            num(totals.costBasis),
+            num(totals.realizedPnl),
+            g.exempt ? "Si" : "No",
+          ],
+          gWidths
+        ),
+        font: "mono",
+        size: 8,
+      });
+    }
+  }
+  if (report.gains.length === 0) {
+    lines.push({ text: "Sin ventas registradas en el periodo.", size: 9 });
+  }
+  lines.push({
+    text: `Resultado gravado: ARS ${num(report.taxableGains.ARS)}   USD ${num(report.taxableGains.USD)}`,
+    font: "bold",
+    size: 9,
+    spaceBefore: 6,
+  });
+
+  // Notes
+  lines.push({ text: "Normas aplicadas", font: "bold", size: 10, spaceBefore: 14 });
+  for (const g of report.gains) {
+    lines.push({ text: `${TAX_CLASS_LABELS[g.instrumentClass]}: ${g.note}`, size: 8 });
+  }
+  for (const warning of report.warnings) {
+    lines.push({ text: `Aviso: ${warning}`, size: 8 });
+  }
+  lines.push({
+    text: "Informativo. Verificar con la normativa vigente y un contador antes de presentar DDJJ.",
+    size: 8,
+    spaceBefore: 6,
+  });
+
+  return renderPdf(lines, `Reporte impositivo ${report.year}`);
+}
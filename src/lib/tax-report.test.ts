@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyInstrument,
+  getTaxTreatment,
+  summarizeRealizedGains,
+  taxableGains,
+  valueHoldings,
+  type HoldingInput,
+} from "./tax-report";
+import { taxReportToCsv, taxReportToPdf } from "./tax-report-export";
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function holding(overrides: Partial<HoldingInput>): HoldingInput {
+  return {
+    assetId: overrides.ticker ?? "a1",
+    ticker: "GGAL",
+    name: "Grupo Galicia",
+    category: "stock",
+    currency: "ARS",
+    quantity: 1,
+    price: 1,
+    priceSource: "historical",
+    ...overrides,
+  };
+}
+
+// ===========================================================================
+// Classification
+// ===========================================================================
+
+describe("classifyInstrument", () => {
+  it("uses the asset category for crypto and CEDEARs", () => {
+    expect(classifyInstrument("BTC", "crypto")).toBe("crypto");
+    expect(classifyInstrument("AAPL", "cedear")).toBe("cedear");
+  });
+
+  it("tells sovereign bonds and ONs apart via the bond registry", () => {
+    expect(classifyInstrument("AL30", "stock")).toBe("bono_soberano");
+    expect(classifyInstrument("GD30", "stock")).toBe("bono_soberano");
+    expect(classifyInstrument("YCA6O", "stock")).toBe("on");
+  });
+
+  it("treats local stocks as acciones and known foreign tickers as otro", () => {
+    expect(classifyInstrument("GGAL", "stock")).toBe("accion");
+    expect(classifyInstrument("MSFT", "stock")).toBe("otro");
+    expect(classifyInstrument("USD", "cash")).toBe("otro");
+  });
+});
+
+describe("getTaxTreatment", () => {
+  it("flags crypto as taxable and listed Argentine instruments as exempt", () => {
+    expect(getTaxTreatment("crypto", "USD").gananciasExempt).toBe(false);
+    expect(getTaxTreatment("accion", "ARS").gananciasExempt).toBe(true);
+    expect(getTaxTreatment("bono_soberano", "USD").gananciasExempt).toBe(true);
+  });
+
+  it("only exempts peso ONs from Bienes Personales", () => {
+    expect(getTaxTreatment("on", "ARS").bienesPersonales).toBe("exento");
+    expect(getTaxTreatment("on", "USD").bienesPersonales).toBe("gravado");
+  });
+});
+
+// ===========================================================================
+// Bienes Personales
+// ===========================================================================
+
+describe("valueHoldings", () => {
+  it("converts USD holdings at the BNA rate and splits totals by treatment", () => {
+    const { holdings, totals } = valueHoldings(
+      [
+        holding({ ticker: "GGAL", quantity: 100, price: 5_000 }), // 500k, sustituto
+        holding({ ticker: "AL30", currency: "USD", quantity: 100, price: 0.6 }), // 60 USD, exento
+        holding({ ticker: "BTC", category: "crypto", currency: "USD", quantity: 0.01, price: 90_000 }), // 900 USD
+      ],
+      1_000
+    );
+
+    expect(holdings.map((h) => h.ticker)).toEqual(["BTC", "GGAL", "AL30"]);
+    expect(holdings[0].valueArs).toBeCloseTo(900_000, 6);
+    expect(totals.taxableArs).toBeCloseTo(900_000, 6);
+    expect(totals.exemptArs).toBeCloseTo(60_000, 6);
+    expect(totals.substituteArs).toBe(500_000);
+    expect(totals.totalArs).toBeCloseTo(1_460_000, 6);
+  });
+
+  it("drops positions that were closed before year end", () => {
+    const { holdings } = valueHoldings([holding({ quantity: 0 })], 1_000);
+    expect(holdings).toHaveLength(0);
+  });
+});
+
+// ===========================================================================
+// Ganancias
+// ===========================================================================
+
+describe("summarizeRealizedGains", () => {
+  const rows = [
+    { ticker: "BTC", category: "crypto" as const, currency: "USD" as const, proceeds: 1_000, costBasis: 600, realizedPnl: 400 },
+    { ticker: "ETH", category: "crypto" as const, currency: "USD" as const, proceeds: 500, costBasis: 700, realizedPnl: -200 },
+    { ticker: "AAPL", category: "cedear" as const, currency: "ARS" as const, proceeds: 90_000, costBasis: 60_000, realizedPnl: 30_000 },
+  ];
+
+  it("groups by class in report order", () => {
+    const gains = summarizeRealizedGains(rows);
+    expect(gains.map((g) => g.instrumentClass)).toEqual(["cedear", "crypto"]);
+    expect(gains[1].matches).toBe(2);
+    expect(gains[1].totals.USD.realizedPnl).toBe(200);
+  });
+
+  it("only counts non-exempt classes as taxable", () => {
+    const taxable = taxableGains(summarizeRealizedGains(rows));
+    expect(taxable).toEqual({ USD: 200, ARS: 0 });
+  });
+});
+
+// ===========================================================================
+// Export
+// ===========================================================================
+
+describe("tax report export", () => {
+  const { holdings, totals } = valueHoldings(
+    [holding({ ticker: "AL30", name: "Bonar (2030)", currency: "USD", quantity: 10, price: 0.6 })],
+    1_000
+  );
+  const report = {
+    year: 2025,
+    valuationDate: "2025-12-31",
+    bnaRate: { buy: 1_000, date: "2025-12-30" },
+    holdings,
+    holdingsTotals: totals,
+    gains: [],
+    taxableGains: { USD: 0, ARS: 0 },
+    warnings: [],
+  };
+
+  it("writes one CSV row per holding", () => {
+    const csv = taxReportToCsv(report);
+    expect(csv).toContain("AL30,Bonar (2030),Bonos soberanos,USD,10,0.60,Cierre,6.00,6000.00,Exento");
+  });
+
+  it("produces a well-formed PDF with escaped text", () => {
+    const pdf = new TextDecoder("latin1").decode(taxReportToPdf(report));
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("Reporte impositivo 2025");
+    expect(pdf).toContain("%%EOF");
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+  });
+});
@@ -0,0 +1,267 @@
+import { getBondMeta } from "./bond-metadata";
+import { getTickerMeta } from "./ticker-metadata";
+import type { AssetCategory, Currency } from "./constants";
+
+/**
+ * Argentine tax-year report (personas humanas residentes).
+ *
+ * - Bienes Personales: holdings at December 31, valued in ARS at the BNA
+ *   official buy rate of the last business day of the year.
+ * - Ganancias: realized gains of the year split by instrument class, each
+ *   flagged with the exemption that applies to it.
+ *
+ * Pure functions only; the API route supplies quantities, prices and rates.
+ * Treatments are informational and must be checked against current rules.
+ */
+
+export const TAX_INSTRUMENT_CLASSES = [
+  "cedear",
+  "accion",
+  "bono_soberano",
+  "on",
+  "crypto",
+  "otro",
+] as const;
+
+export type TaxInstrumentClass = (typeof TAX_INSTRUMENT_CLASSES)[number];
+
+export const TAX_CLASS_LABELS: Record<TaxInstrumentClass, string> = {
+  cedear: "CEDEARs",
+  accion: "Acciones argentinas",
+  bono_soberano: "Bonos soberanos",
+  on: "Obligaciones negociables",
+  crypto: "Criptoactivos",
+  otro: "Otros (exterior / efectivo)",
+};
+
+export type BienesPersonalesTreatment = "gravado" | "exento" | "responsable_sustituto";
+
+export interface TaxTreatment {
+  gananciasExempt: boolean;
+  gananciasNote: string;
+  bienesPersonales: BienesPersonalesTreatment;
+  bienesPersonalesNote: string;
+}
+
+export const BP_TREATMENT_LABELS: Record<BienesPersonalesTreatment, string> = {
+  gravado: "Gravado",
+  exento: "Exento",
+  responsable_sustituto: "Resp. sustituto",
+};
+
+/**
+ * Map a portfolio asset to its tax instrument class.
+ * Bonds and ONs are stored as "stock"; the bond registry tells them apart.
+ */
+export function classifyInstrument(ticker: string, category: AssetCategory): TaxInstrumentClass {
+  if (category === "crypto") return "crypto";
+  if (category === "cedear") return "cedear";
+  if (category === "cash") return "otro";
+
+  const bond = getBondMeta(ticker);
+  if (bond) return bond.type === "corporate" ? "on" : "bono_soberano";
+
+  const country = getTickerMeta(ticker).country;
+  if (country !== "Unknown" && country !== "Argentina") return "otro";
+  return "accion";
+}
+
+export function getTaxTreatment(cls: TaxInstrumentClass, currency: Currency): TaxTreatment {
+  switch (cls) {
+    case "accion":
+      return {
+        gananciasExempt: true,
+        gananciasNote: "Exento: art. 26 inc. u) LIG (oferta publica en mercado autorizado por CNV)",
+        bienesPersonales: "responsable_sustituto",
+        bienesPersonalesNote: "Lo ingresa la sociedad como responsable sustituto (art. 25.1 Ley 23.966)",
+      };
+    case "cedear":
+      return {
+        gananciasExempt: true,
+        gananciasNote: "Exento: art. 26 inc. u) LIG (negociado en mercado autorizado por CNV)",
+        bienesPersonales: "gravado",
+        bienesPersonalesNote: "Gravado",
+      };
+    case "bono_soberano":
+      return {
+        gananciasExempt: true,
+        gananciasNote: "Exento: art. 26 inc. u) LIG y art. 33 Ley 27.541",
+        bienesPersonales: "exento",
+        bienesPersonalesNote: "Exento: titulos publicos (art. 21 inc. g) Ley 23.966)",
+      };
+    case "on":
+      return {
+        gananciasExempt: true,
+        gananciasNote: "Exento: art. 36 bis Ley 23.576 (colocacion por oferta publica)",
+        bienesPersonales: currency === "ARS" ? "exento" : "gravado",
+        bienesPersonalesNote:
+          currency === "ARS"
+            ? "Exento: ON en moneda nacional (Ley 27.638)"
+            : "Gravado: ON en moneda extranjera",
+      };
+    case "crypto":
+      return {
+        gananciasExempt: false,
+        gananciasNote: "Gravado: impuesto cedular (5% en pesos / 15% en moneda extranjera)",
+        bienesPersonales: "gravado",
+        bienesPersonalesNote: "Gravado",
+      };
+    case "otro":
+      return {
+        gananciasExempt: false,
+        gananciasNote: "Gravado: revisar fuente (titulos del exterior tributan 15%)",
+        bienesPersonales: "gravado",
+        bienesPersonalesNote: "Gravado",
+      };
+  }
+}
+
+// ── Bienes Personales ────────────────────────────────────────────────────────
+
+export interface HoldingInput {
+  assetId: string;
+  ticker: string;
+  name: string;
+  category: AssetCategory;
+  currency: Currency;
+  quantity: number;
+  price: number;
+  /** Close on or before Dec 31 ("historical") or today's price ("current") */
+  priceSource: "historical" | "current";
+}
+
+export interface YearEndHolding extends HoldingInput {
+  instrumentClass: TaxInstrumentClass;
+  value: number;
+  valueArs: number;
+  bienesPersonales: BienesPersonalesTreatment;
+  note: string;
+}
+
+export interface HoldingsTotals {
+  totalArs: number;
+  taxableArs: number;
+  exemptArs: number;
+  substituteArs: number;
+}
+
+export function valueHoldings(
+  inputs: HoldingInput[],
+  bnaBuyRate: number
+): { holdings: YearEndHolding[]; totals: HoldingsTotals } {
+  const totals: HoldingsTotals = { totalArs: 0, taxableArs: 0, exemptArs: 0, substituteArs: 0 };
+
+  const holdings = inputs
+    .filter((h) => h.quantity > 0)
+    .map((h) => {
+      const instrumentClass = classifyInstrument(h.ticker, h.category);
+      const treatment = getTaxTreatment(instrumentClass, h.currency);
+      const value = h.quantity * h.price;
+      const valueArs = h.currency === "USD" ? value * bnaBuyRate : value;
+
+      totals.totalArs += valueArs;
+      if (treatment.bienesPersonales === "gravado") totals.taxableArs += valueArs;
+      else if (treatment.bienesPersonales === "exento") totals.exemptArs += valueArs;
+      else totals.substituteArs += valueArs;
+
+      return {
+        ...h,
+        instrumentClass,
+        value,
+        valueArs,
+        bienesPersonales: treatment.bienesPersonales,
+        note: treatment.bienesPersonalesNote,
+      };
+    })
+    .sort((a, b) => b.valueArs - a.valueArs);
+
+  return { holdings, totals };
+}
+
+// ── Ganancias ────────────────────────────────────────────────────────────────
+
+export interface RealizedGainInput {
+  ticker: string;
+  category: AssetCategory;
+  currency: Currency;
+  proceeds: number;
+  costBasis: number;
+  realizedPnl: number;
+}
+
+export interface GainTotals {
+  proceeds: number;
+  costBasis: number;
+  realizedPnl: number;
+}
+
+export interface GainsByClass {
+  instrumentClass: TaxInstrumentClass;
+  exempt: boolean;
+  note: string;
+  /** Lot matches included in the class */
+  matches: number;
+  totals: Record<Currency, GainTotals>;
+}
+
+function emptyGainTotals(): Record<Currency, GainTotals> {
+  return {
+    USD: { proceeds: 0, costBasis: 0, realizedPnl: 0 },
+    ARS: { proceeds: 0, costBasis: 0, realizedPnl: 0 },
+  };
+}
+
+/**
+ * Group realized gains by instrument class, in class order. The exemption
+ * flag of ONs does not depend on currency, so ARS is passed for the note.
+ */
+export function summarizeRealizedGains(rows: RealizedGainInput[]): GainsByClass[] {
+  const byClass = new Map<TaxInstrumentClass, GainsByClass>();
+
+  for (const row of rows) {
+    const cls = classifyInstrument(row.ticker, row.category);
+    let entry = byClass.get(cls);
+    if (!entry) {
+      const treatment = getTaxTreatment(cls, "ARS");
+      entry = {
+        instrumentClass: cls,
+        exempt: treatment.gananciasExempt,
+        note: treatment.gananciasNote,
+        matches: 0,
+        totals: emptyGainTotals(),
+      };
+      byClass.set(cls, entry);
+    }
+    entry.matches += 1;
+    entry.totals[row.currency].proceeds += row.proceeds;
+    entry.totals[row.currency].costBasis += row.costBasis;
+    entry.totals[row.currency].realizedPnl += row.realizedPnl;
+  }
+
+  return TAX_INSTRUMENT_CLASSES.filter((c) => byClass.has(c)).map((c) => byClass.get(c)!);
+}
+
+/** Realized P&L of the classes not covered by an exemption, per currency. */
+export function taxableGains(gains: GainsByClass[]): Record<Currency, number> {
+  const result: Record<Currency, number> = { USD: 0, ARS: 0 };
+  for (const g of gains) {
+    if (g.exempt) continue;
+    result.USD += g.totals.USD.realizedPnl;
+    result.ARS += g.totals.ARS.realizedPnl;
+  }
+  return result;
+}
+
+// ── Report ───────────────────────────────────────────────────────────────────
+
+export interface TaxReport {
+  year: number;
+  /** Valuation date: Dec 31, or today while the year is still open */
+  valuationDate: string;
+  bnaRate: { buy: number; date: string } | null;
+  holdings: YearEndHolding[];
+  holdingsTotals: HoldingsTotals;
+  gains: GainsByClass[];
+  taxableGains: Record<Currency, number>;
+  warnings: string[];
+}
@@ -0,0 +1,306 @@
+import { describe, it, expect } from "vitest";
+import {
+  IMPORT_PRESETS,
+  autoMapColumns,
+  detectHeaderRow,
+  importAssetKey,
+  importDuplicateKey,
+  importedPosition,
+  mapRows,
+  missingImportFields,
+  parseImportDate,
+  parseLocaleNumber,
+  parseTradeType,
+} from "./transaction-import";
+import { parseCSV, parseXLSX } from "./spreadsheet";
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Build an uncompressed (stored) zip — enough for the XLSX reader. */
+function storedZip(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    chunks.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const centralSize = central.reduce((s, c) => s + c.length, 0);
+  const eocd = new DataView(new ArrayBuffer(22));
+  eocd.setUint32(0, 0x06054b50, true);
+  eocd.setUint16(8, Object.keys(files).length, true);
+  eocd.setUint16(10, Object.keys(files).length, true);
+  eocd.setUint32(12, centralSize, true);
+  eocd.setUint32(16, offset, true);
+
+  const all = [...chunks, ...central, new Uint8Array(eocd.buffer)];
+  const out = new Uint8Array(all.reduce((s, c) => s + c.length, 0));
+  let pos = 0;
+  for (const c of all) {
+    out.set(c, pos);
+    pos += c.length;
+  }
+  return out;
+}
+
+// ===========================================================================
+// Cell parsers
+// ===========================================================================
+
+describe("parseLocaleNumber", () => {
+  it("reads Argentine and US formats", () => {
+    expect(parseLocaleNumber("1.234,56")).toBe(1234.56);
+    expect(parseLocaleNumber("1,234.56")).toBe(1234.56);
+    expect(parseLocaleNumber("$ 12.500,75")).toBe(12500.75);
+    expect(parseLocaleNumber("1.234.567")).toBe(1234567);
+    expect(parseLocaleNumber("1,234,567")).toBe(1234567);
+  });
+
+  it("strips unit suffixes and keeps the sign", () => {
+    expect(parseLocaleNumber("0.00150000BTC")).toBe(0.0015);
+    expect(parseLocaleNumber("-10")).toBe(-10);
+    expect(parseLocaleNumber("(250,00)")).toBe(-250);
+    expect(parseLocaleNumber("")).toBeNaN();
+  });
+});
+
+describe("parseImportDate", () => {
+  it("reads day-first dates as used by Argentine brokers", () => {
+    expect(parseImportDate("05/03/2024")).toBe("2024-03-05T12:00:00.000Z");
+    expect(parseImportDate("05/03/2024 14:30")).toBe("2024-03-05T14:30:00.000Z");
+  });
+
+  it("reads Binance UTC timestamps and Excel serials", () => {
+    expect(parseImportDate("2024-03-05 09:15:00")).toBe("2024-03-05T09:15:00.000Z");
+    expect(parseImportDate("45356")).toBe("2024-03-05T00:00:00.000Z");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseImportDate("31/02/2024")).toBeNull();
+    expect(parseImportDate("not a date")).toBeNull();
+  });
+});
+
+describe("parseTradeType", () => {
+  it("maps Spanish and English sides", () => {
+    expect(parseTradeType("Compra")).toBe("buy");
+    expect(parseTradeType("VENTA")).toBe("sell");
+    expect(parseTradeType("BUY")).toBe("buy");
+    expect(parseTradeType("Pago de Dividendos")).toBeNull();
+  });
+});
+
+// ===========================================================================
+// Presets
+// ===========================================================================
+
+describe("IOL preset", () => {
+  const grid = parseCSV(
+    [
+      "Operaciones;;;;;",
+      "Fecha Operada;Tipo;Símbolo;Cantidad Operada;Precio Operado;Moneda",
+      "05/03/2024;Compra;GGAL;100;1.234,50;Pesos",
+      "06/03/2024;Venta;ggal;40;1.300,00;Pesos",
+      "07/03/2024;Pago de Dividendos;GGAL;0;0;Pesos",
+    ].join("\n")
+  );
+
+  it("finds the header below title rows", () => {
+    expect(detectHeaderRow(grid, IMPORT_PRESETS.iol)).toBe(1);
+  });
+
+  it("maps rows and reports non-trade lines", () => {
+    const mapping = autoMapColumns(grid[1], IMPORT_PRESETS.iol);
+    expect(missingImportFields(mapping)).toEqual([]);
+
+    const { rows, errors } = mapRows(grid, 1, mapping, IMPORT_PRESETS.iol);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      line: 3,
+      ticker: "GGAL",
+      type: "buy",
+      quantity: 100,
+      pricePerUnit: 1234.5,
+      currency: "ARS",
+    });
+    expect(rows[1]).toMatchObject({ ticker: "GGAL", type: "sell" });
+    expect(errors).toEqual([{ line: 5, message: 'Operacion desconocida: "Pago de Dividendos"' }]);
+  });
+});
+
+describe("Binance preset", () => {
+  it("splits the pair and reads executed quantity", () => {
+    const grid = parseCSV(
+      [
+        "Date(UTC),Pair,Side,Price,Executed,Amount,Fee",
+        "2024-03-05 09:15:00,BTCUSDT,BUY,65000,0.00150000BTC,97.5USDT,0.0000015BTC",
+      ].join("\n")
+    );
+    const preset = IMPORT_PRESETS.binance;
+    const { rows } = mapRows(grid, 0, autoMapColumns(grid[0], preset), preset);
+    expect(rows[0]).toMatchObject({
+      ticker: "BTC",
+      type: "buy",
+      quantity: 0.0015,
+      pricePerUnit: 65000,
+      currency: "USD",
+      executedAt: "2024-03-05T09:15:00.000Z",
+    });
+  });
+});
+
+describe("manual mapping", () => {
+  it("derives the price from the total when no price column is mapped", () => {
+    const grid = [
+      ["When", "Asset", "Side", "Qty", "Total"],
+      ["2024-01-02", "AAPL", "buy", "4", "800"],
+    ];
+    const mapping = { date: 0, ticker: 1, type: 2, quantity: 3, total: 4 };
+    expect(missingImportFields(mapping)).toEqual([]);
+    const { rows } = mapRows(grid, 0, mapping, IMPORT_PRESETS.manual);
+    expect(rows[0].pricePerUnit).toBe(200);
+  });
+
+  it("requires a price or total column", () => {
+    expect(missingImportFields({ date: 0, ticker: 1, type: 2, quantity: 3 })).toEqual(["price"]);
+  });
+});
+
+describe("importDuplicateKey", () => {
+  it("matches the same trade regardless of time of day and ticker case", () => {
+    const a = importDuplicateKey({
+      accountId: null, ticker: "ggal", type: "buy", quantity: 100, pricePerUnit: 1234.5,
+      executedAt: "2024-03-05T12:00:00.000Z",
+    });
+    const b = importDuplicateKey({
+      accountId: null, ticker: "GGAL", type: "buy", quantity: 100, pricePerUnit: 1234.5,
+      executedAt: new Date("2024-03-05T17:45:00.000Z"),
+    });
+    expect(a).toBe(b);
+  });
+
+  it("tells apart the same trade in another account", () => {
+    const trade = {
+      ticker: "GGAL", type: "buy" as const, quantity: 100, pricePerUnit: 1234.5,
+      executedAt: "2024-03-05T12:00:00.000Z",
+    };
+    expect(importDuplicateKey({ ...trade, accountId: "acc-1" })).not.toBe(
+      importDuplicateKey({ ...trade, accountId: "acc-2" })
+    );
+  });
+});
+
+describe("importAssetKey", () => {
+  it("tells apart the same ticker in another category or account", () => {
+    const manual = importAssetKey({ ticker: "aapl", category: "cedear", accountId: null });
+    expect(manual).toBe(importAssetKey({ ticker: "AAPL", category: "cedear", accountId: null }));
+    expect(manual).not.toBe(importAssetKey({ ticker: "AAPL", category: "stock", accountId: null }));
+    expect(manual).not.toBe(importAssetKey({ ticker: "AAPL", category: "cedear", accountId: "acc-2" }));
+  });
+});
+
+describe("importedPosition", () => {
+  const trades = [
+    { type: "buy" as const, quantity: 60, pricePerUnit: 10 },
+    { type: "buy" as const, quantity: 50, pricePerUnit: 12 },
+    { type: "sell" as const, quantity: 30, pricePerUnit: 15 },
+  ];
+
+  it("leaves a broker-synced asset's position to the broker", () => {
+    expect(
+      importedPosition({ accountId: "acc-1", openingQuantity: 0, openingAveragePrice: 0 }, trades)
+    ).toEqual({ updatePosition: false, openingQuantity: 0, openingAveragePrice: 0 });
+  });
+
+  it("takes the imported net quantity and its cost out of a manual asset's opening lot", () => {
+    // 100 held at 11: 80 came from the imported trades (bought at 10.91 on
+    // average), the 20 that predate them cost the rest
+    const position = importedPosition(
+      { accountId: null, openingQuantity: 100, openingAveragePrice: 11 },
+      trades
+    );
+    expect(position.updatePosition).toBe(true);
+    expect(position.openingQuantity).toBe(20);
+    expect(position.openingAveragePrice).toBeCloseTo((1100 - 80 * (1200 / 110)) / 20, 6);
+  });
+
+  it("never leaves a negative opening lot", () => {
+    expect(
+      importedPosition({ accountId: null, openingQuantity: 50, openingAveragePrice: 11 }, trades)
+    ).toEqual({ updatePosition: true, openingQuantity: 0, openingAveragePrice: 0 });
+  });
+
+  it("keeps the lot's price when the imports sold more than they bought", () => {
+    expect(
+      importedPosition({ accountId: null, openingQuantity: 10, openingAveragePrice: 11 }, [
+        { type: "sell", quantity: 5, pricePerUnit: 15 },
+      ])
+    ).toEqual({ updatePosition: true, openingQuantity: 15, openingAveragePrice: 11 });
+  });
+
+  it("counts income received in kind toward the adopted holding", () => {
+    const position = importedPosition({ accountId: null, openingQuantity: 100, openingAveragePrice: 11 }, [
+      { type: "buy", quantity: 60, pricePerUnit: 10 },
+      { type: "income", quantity: 5, pricePerUnit: 12 },
+    ]);
+    expect(position.openingQuantity).toBe(35);
+    expect(position.openingAveragePrice).toBeCloseTo((1100 - 65 * 10) / 35, 6);
+  });
+
+  it("replays an asset without an opening lot from the trades alone", () => {
+    expect(
+      importedPosition({ accountId: null, openingQuantity: 0, openingAveragePrice: 0 }, trades)
+    ).toEqual({ updatePosition: true, openingQuantity: 0, openingAveragePrice: 0 });
+  });
+});
+
+// ===========================================================================
+// Spreadsheet readers
+// ===========================================================================
+
+describe("parseCSV", () => {
+  it("handles quoted cells, escaped quotes and CRLF", () => {
+    const grid = parseCSV('\uFEFFa,b\r\n"1,5","say ""hi"""\r\n\r\n');
+    expect(grid).toEqual([["a", "b"], ["1,5", 'say "hi"']]);
+  });
+});
+
+describe("parseXLSX", () => {
+  it("reads shared strings, inline strings and sparse cells", async () => {
+    const xlsx = storedZip({
+      "xl/sharedStrings.xml":
+        '<sst><si><t>Fecha</t></si><si><r><t>Tick</t></r><r><t>er</t></r></si><si><t>AT&amp;T</t></si></sst>',
+      "xl/worksheets/sheet1.xml":
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2"><v>45356</v></c><c r="C2" t="s"><v>2</v></c>' +
+        '<c r="D2" t="inlineStr"><is><t>x</t></is></c></row>' +
+        "</sheetData></worksheet>",
+    });
+
+    expect(await parseXLSX(xlsx)).toEqual([
+      ["Fecha", "", "Ticker"],
+      ["45356", "", "AT&T", "x"],
+    ]);
+  });
+});
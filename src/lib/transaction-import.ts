@@ -0,0 +1,475 @@
+import type { AssetCategory, Currency, LedgerEntryType, TransactionType } from "./constants";
+import type { SheetGrid } from "./spreadsheet";
+
+/**
+ * Broker export → transaction rows.
+ *
+ * A preset knows the header names a broker uses for each field; the manual
+ * mapper produces the same ColumnMapping by hand. Either way, mapRows turns
+ * the grid into normalized rows that the import endpoint validates with the
+ * transaction form schema.
+ */
+
+export const IMPORT_FIELDS = [
+  "date",
+  "ticker",
+  "type",
+  "quantity",
+  "price",
+  "total",
+  "currency",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Fecha",
+  ticker: "Ticker",
+  type: "Operacion",
+  quantity: "Cantidad",
+  price: "Precio",
+  total: "Monto total",
+  currency: "Moneda",
+};
+
+/** Fields a mapping must cover (price may be derived from total). */
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["date", "ticker", "type", "quantity"];
+
+/** Column index per field */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export const IMPORT_PRESET_IDS = ["iol", "ppi", "balanz", "cocos", "binance", "manual"] as const;
+export type ImportPresetId = (typeof IMPORT_PRESET_IDS)[number];
+
+export interface ImportPreset {
+  id: ImportPresetId;
+  label: string;
+  /** Accepted header names per field (compared without case/accents) */
+  headers: Partial<Record<ImportField, string[]>>;
+  defaultCurrency: Currency;
+  defaultCategory: AssetCategory;
+  /** Normalize the raw ticker cell; may also imply the currency */
+  parseTicker?: (raw: string) => { ticker: string; currency?: Currency };
+}
+
+// Quote assets stripped from Binance pairs (BTCUSDT -> BTC)
+const BINANCE_QUOTES = ["USDT", "FDUSD", "USDC", "BUSD", "TUSD", "DAI", "USD", "ARS"];
+
+export const IMPORT_PRESETS: Record<ImportPresetId, ImportPreset> = {
+  iol: {
+    id: "iol",
+    label: "InvertirOnline",
+    headers: {
+      date: ["fecha operada", "fecha concertacion", "fecha liquidacion", "fecha orden", "fecha"],
+      ticker: ["simbolo", "especie", "titulo"],
+      type: ["tipo", "tipo operacion", "operacion"],
+      quantity: ["cantidad operada", "cantidad"],
+      price: ["precio operado", "precio ponderado", "precio"],
+      total: ["monto operado", "monto", "importe"],
+      currency: ["moneda"],
+    },
+    defaultCurrency: "ARS",
+    defaultCategory: "stock",
+  },
+  ppi: {
+    id: "ppi",
+    label: "Portfolio Personal (PPI)",
+    headers: {
+      date: ["fecha concertacion", "fecha de concertacion", "fecha"],
+      ticker: ["ticker", "especie", "instrumento"],
+      type: ["operacion", "tipo de operacion", "tipo"],
+      quantity: ["cantidad", "nominales", "cantidad vn"],
+      price: ["precio"],
+      total: ["importe", "monto", "importe neto"],
+      currency: ["moneda"],
+    },
+    defaultCurrency: "ARS",
+    defaultCategory: "stock",
+  },
+  balanz: {
+    id: "balanz",
+    label: "Balanz",
+    headers: {
+      date: ["fecha concertacion", "fecha", "concertacion"],
+      ticker: ["ticker", "especie", "instrumento"],
+      type: ["tipo", "operacion", "tipo operacion"],
+      quantity: ["cantidad", "nominales"],
+      price: ["precio"],
+      total: ["importe", "monto", "neto"],
+      currency: ["moneda"],
+    },
+    defaultCurrency: "ARS",
+    defaultCategory: "stock",
+  },
+  cocos: {
+    id: "cocos",
+    label: "Cocos Capital",
+    headers: {
+      date: ["fecha de ejecucion", "fecha ejecucion", "fecha"],
+      ticker: ["instrumento", "ticker", "especie"],
+      type: ["tipo de operacion", "operacion", "tipo"],
+      quantity: ["cantidad"],
+      price: ["precio"],
+      total: ["monto", "importe", "total"],
+      currency: ["moneda"],
+    },
+    defaultCurrency: "ARS",
+    defaultCategory: "stock",
+  },
+  binance: {
+    id: "binance",
+    label: "Binance",
+    headers: {
+      date: ["date(utc)", "date (utc)", "date", "time"],
+      ticker: ["pair", "market", "symbol"],
+      type: ["side", "type"],
+      quantity: ["executed", "amount", "quantity", "filled"],
+      price: ["price", "avg price", "average price"],
+      total: ["total", "amount (quote)"],
+    },
+    defaultCurrency: "USD",
+    defaultCategory: "crypto",
+    parseTicker: (raw) => {
+      const symbol = raw.toUpperCase().replace(/[^A-Z0-9]/g, "");
+      const quote = BINANCE_QUOTES.find((q) => symbol.endsWith(q) && symbol.length > q.length);
+      return {
+        ticker: quote ? symbol.slice(0, -quote.length) : symbol,
+        currency: quote === "ARS" ? "ARS" : "USD",
+      };
+    },
+  },
+  manual: {
+    id: "manual",
+    label: "Mapeo manual",
+    headers: {},
+    defaultCurrency: "USD",
+    defaultCategory: "stock",
+  },
+};
+
+// ── Header matching ──────────────────────────────────────────────────────────
+
+function normalizeHeader(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[._]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Map a header row to columns using a preset's aliases. Earlier aliases win,
+ * so "fecha operada" beats a generic "fecha" column.
+ */
+export function autoMapColumns(headers: string[], preset: ImportPreset): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of preset.headers[field] ?? []) {
+      const index = normalized.findIndex((h, i) => h === alias && !used.has(i));
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Exports often start with title rows; the header is the first row (within
+ * the first 15) that maps the most required fields.
+ */
+export function detectHeaderRow(grid: SheetGrid, preset: ImportPreset): number {
+  let best = 0;
+  let bestScore = 0;
+  for (let i = 0; i < Math.min(grid.length, 15); i++) {
+    const mapping = autoMapColumns(grid[i], preset);
+    const score = Object.keys(mapping).length;
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function missingImportFields(mapping: ColumnMapping): ImportField[] {
+  const missing = REQUIRED_IMPORT_FIELDS.filter((f) => mapping[f] === undefined);
+  if (mapping.price === undefined && mapping.total === undefined) missing.push("price");
+  return missing;
+}
+
+// ── Cell parsers ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse numbers in either locale ("1.234,56" or "1,234.56"), with currency
+ * symbols, unit suffixes ("0.5BTC") or accounting parentheses.
+ */
+export function parseLocaleNumber(raw: string): number {
+  let s = raw.trim();
+  if (!s) return NaN;
+  const negative = /^\(.*\)$/.test(s) || s.includes("-");
+  s = s.replace(/[^\d.,]/g, "");
+  if (!s) return NaN;
+
+  const lastComma = s.lastIndexOf(",");
+  const lastDot = s.lastIndexOf(".");
+  if (lastComma > lastDot && lastDot === -1 && (s.match(/,/g) ?? []).length > 1) {
+    // "1,234,567" — commas are thousand separators
+    s = s.replace(/,/g, "");
+  } else if (lastComma > lastDot) {
+    // Comma is the decimal separator
+    s = s.replace(/\./g, "").replace(",", ".");
+  } else if (lastDot > lastComma && lastComma !== -1) {
+    s = s.replace(/,/g, "");
+  } else if (lastDot === -1 && lastComma === -1) {
+    // Integer
+  } else if ((s.match(/\./g) ?? []).length > 1) {
+    // "1.234.567" — dots are thousand separators
+    s = s.replace(/\./g, "");
+  }
+
+  const value = Number(s);
+  return negative ? -value : value;
+}
+
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+/**
+ * Parse a trade date to an ISO string. Accepts ISO dates, "dd/mm/yyyy[ hh:mm[:ss]]"
+ * (Argentine brokers), "yyyy-mm-dd hh:mm:ss" (Binance, UTC) and Excel serials.
+ */
+export function parseImportDate(raw: string): string | null {
+  const s = raw.trim();
+  if (!s) return null;
+
+  // Excel serial date (XLSX numeric cell)
+  if (/^\d{5}(\.\d+)?$/.test(s)) {
+    const serial = Number(s);
+    return new Date(EXCEL_EPOCH_MS + serial * 86_400_000).toISOString();
+  }
+
+  const dmy = s.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dmy) {
+    const [, d, m, y, hh = "12", mm = "00", ss = "00"] = dmy;
+    const year = y.length === 2 ? 2000 + Number(y) : Number(y);
+    const date = new Date(Date.UTC(year, Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)));
+    return isNaN(date.getTime()) || date.getUTCDate() !== Number(d) ? null : date.toISOString();
+  }
+
+  const ymd = s.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (ymd && !/[zZ]|[+-]\d{2}:?\d{2}$/.test(s)) {
+    const [, y, m, d, hh = "12", mm = "00", ss = "00"] = ymd;
+    const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  const parsed = new Date(s);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+export function parseTradeType(raw: string): TransactionType | null {
+  const s = normalizeHeader(raw);
+  if (/^(buy|compra|suscripcion|bid)|\bcompra\b/.test(s)) return "buy";
+  if (/^(sell|venta|rescate|ask)|\bventa\b/.test(s)) return "sell";
+  return null;
+}
+
+export function parseCurrency(raw: string): Currency | null {
+  const s = normalizeHeader(raw);
+  if (!s) return null;
+  if (/usd|us\$|u\$s|dolar|dollar|mep|ccl|cable|usdt/.test(s)) return "USD";
+  if (/ars|peso|^\$$/.test(s)) return "ARS";
+  return null;
+}
+
+// ── Rows ─────────────────────────────────────────────────────────────────────
+
+/** Normalized row sent to POST /api/transactions/import */
+export interface ImportRow {
+  /** 1-based line in the source file, for error messages */
+  line: number;
+  ticker: string;
+  type: TransactionType;
+  quantity: number;
+  pricePerUnit: number;
+  currency: Currency;
+  executedAt: string;
+}
+
+export interface ImportRowError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Convert the data rows below the header into ImportRows. Rows that cannot
+ * be read are reported instead of silently dropped; non-trade lines
+ * (dividends, transfers, cash movements) surface as "unknown operation".
+ */
+export function mapRows(
+  grid: SheetGrid,
+  headerRow: number,
+  mapping: ColumnMapping,
+  preset: ImportPreset
+): { rows: ImportRow[]; errors: ImportRowError[] } {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const cell = (row: string[], field: ImportField) =>
+    mapping[field] !== undefined ? (row[mapping[field]!] ?? "").trim() : "";
+
+  for (let i = headerRow + 1; i < grid.length; i++) {
+    const raw = grid[i];
+    const line = i + 1;
+
+    const tickerCell = cell(raw, "ticker");
+    if (!tickerCell) continue; // Totals / blank separator rows
+
+    const parsedTicker = preset.parseTicker
+      ? preset.parseTicker(tickerCell)
+      : { ticker: tickerCell.toUpperCase().split(/\s+/)[0] };
+
+    const executedAt = parseImportDate(cell(raw, "date"));
+    if (!executedAt) {
+      errors.push({ line, message: `Fecha invalida: "${cell(raw, "date")}"` });
+      continue;
+    }
+
+    let quantity = parseLocaleNumber(cell(raw, "quantity"));
+    let type = parseTradeType(cell(raw, "type"));
+    // Some exports sign the quantity instead of naming the side
+    if (!type && !isNaN(quantity) && quantity !== 0) type = quantity > 0 ? "buy" : "sell";
+    if (!type) {
+      errors.push({ line, message: `Operacion desconocida: "${cell(raw, "type")}"` });
+      continue;
+    }
+    quantity = Math.abs(quantity);
+
+    let price = Math.abs(parseLocaleNumber(cell(raw, "price")));
+    if (!(price > 0)) {
+      const total = Math.abs(parseLocaleNumber(cell(raw, "total")));
+      if (total > 0 && quantity > 0) price = total / quantity;
+    }
+
+    const currency =
+      parseCurrency(cell(raw, "currency")) ?? parsedTicker.currency ?? preset.defaultCurrency;
+
+    rows.push({
+      line,
+      ticker: parsedTicker.ticker,
+      type,
+      quantity,
+      pricePerUnit: price,
+      currency,
+      executedAt,
+    });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Key used to spot a trade that is already recorded: same account, ticker,
+ * side and day, same quantity and price (rounded to the DB's 8 decimals).
+ * The same export imported into another account is not a duplicate.
+ */
+export function importDuplicateKey(row: {
+  accountId: string | null;
+  ticker: string;
+  type: LedgerEntryType;
+  quantity: number;
+  pricePerUnit: number;
+  executedAt: string | Date;
+}): string {
+  const day = new Date(row.executedAt).toISOString().slice(0, 10);
+  return [
+    row.accountId ?? "",
+    row.ticker.toUpperCase(),
+    row.type,
+    day,
+    row.quantity.toFixed(8),
+    row.pricePerUnit.toFixed(8),
+  ].join("|");
+}
+
+/**
+ * Asset an imported row belongs to: the same ticker in the same category and
+ * broker account (null for manual assets). A ticker held elsewhere is a
+ * different asset, so a row never attaches to it.
+ */
+export function importAssetKey(asset: {
+  ticker: string;
+  category: string;
+  accountId: string | null;
+}): string {
+  return [asset.ticker.toUpperCase(), asset.category, asset.accountId ?? ""].join("|");
+}
+
+/**
+ * How an existing asset takes in imported trades. A broker-synced asset keeps
+ * the broker's quantity and average price: its ledger only gains the lots. A
+ * manual asset's opening lot already counts the holding those trades built,
+ * so it shrinks by their net quantity, and its average price drops the cost
+ * of that quantity at the imported buys' average. The position is then
+ * replayed from the rest; an asset without an opening lot is replayed as is.
+ */
+export function importedPosition(
+  asset: { accountId: string | null; openingQuantity: number; openingAveragePrice: number },
+  rows: { type: LedgerEntryType; quantity: number; pricePerUnit: number }[]
+): { updatePosition: boolean; openingQuantity: number; openingAveragePrice: number } {
+  const unchanged = {
+    openingQuantity: asset.openingQuantity,
+    openingAveragePrice: asset.openingAveragePrice,
+  };
+  if (asset.accountId) return { updatePosition: false, ...unchanged };
+  if (asset.openingQuantity <= 0) return { updatePosition: true, ...unchanged };
+
+  let net = 0;
+  let boughtQuantity = 0;
+  let boughtCost = 0;
+  for (const r of rows) {
+    net += r.type === "sell" ? -r.quantity : r.quantity;
+    if (r.type === "buy") {
+      boughtQuantity += r.quantity;
+      boughtCost += r.quantity * r.pricePerUnit;
+    }
+  }
+
+  const openingQuantity = Math.max(0, Number((asset.openingQuantity - net).toFixed(8)));
+  if (openingQuantity === 0) {
+    return { updatePosition: true, openingQuantity, openingAveragePrice: 0 };
+  }
+  // Imports that sold more than they bought predate the lot's cost: keep it
+  if (net <= 0) {
+    return { updatePosition: true, openingQuantity, openingAveragePrice: asset.openingAveragePrice };
+  }
+  const importedCost = net * (boughtCost / boughtQuantity);
+  const remainingCost = Math.max(0, asset.openingQuantity * asset.openingAveragePrice - importedCost);
+  return {
+    updatePosition: true,
+    openingQuantity,
+    openingAveragePrice: Number((remainingCost / openingQuantity).toFixed(8)),
+  };
+}
+
+/** Per-row outcome returned by the import endpoint (preview and commit). */
+export interface ImportRowResult {
+  line: number;
+  ticker: string;
+  type: TransactionType;
+  quantity: number;
+  pricePerUnit: number;
+  currency: Currency;
+  executedAt: string;
+  status: "valid" | "duplicate" | "invalid";
+  errors: string[];
+  /** Ticker has no asset yet; one will be created on commit */
+  newAsset: boolean;
+}
@@ -61,6 +61,42 @@ export const transactionInsertSchema = transactionFormSchema.transform(
   })
 );
 
+// ── Transaction Edits (asset cannot change; total is re-derived) ────────────
+
+export const transactionUpdateSchema = transactionFormSchema
+  .omit({ assetId: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, "Nothing to update");
+
+export type TransactionUpdateValues = z.infer<typeof transactionUpdateSchema>;
+
+// ── Transaction Import (rows reference a ticker; the asset is resolved) ─────
+
+export const transactionImportRowSchema = transactionFormSchema
+  .omit({ assetId: true })
+  .extend({
+    line: z.number().int().positive(),
+    ticker: z
+      .string()
+      .min(1, "Ticker is required")
+      .max(20)
+      .transform((v) => v.toUpperCase().trim()),
+    executedAt: z.string().datetime("Invalid date"),
+  });
+
+export const transactionImportSchema = z.object({
+  rows: z.array(z.unknown()).min(1, "No rows to import").max(5000),
+  /** Category of the imported assets: rows match assets in it only */
+  defaultCategory: z.enum(ASSET_CATEGORIES).default("stock"),
+  /** Broker account the trades were made in; unset for manual assets */
+  accountId: z.string().uuid().optional(),
+  source: z.string().max(40).optional(),
+  dryRun: z.boolean().default(true),
+});
+
+export type TransactionImportRow = z.infer<typeof transactionImportRowSchema>;
+export type TransactionImportValues = z.input<typeof transactionImportSchema>;
+
 // ── AI Analysis Response Validation ─────────────────────────────────────────
 
 const recommendationSchema = z.object({
@@ -0,0 +1,35 @@
+import { db } from "@/db";
+import { exchangeRates, userPortfolioSettings } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  DEFAULT_VALUATION_RATE,
+  VALUATION_RATE_LABELS,
+  VALUATION_RATE_PAIRS,
+  type ValuationRate,
+} from "./constants";
+
+/**
+ * Server-side access to the user's valuation rate: the USD/ARS dollar that
+ * ARS positions are converted at in the app, snapshots and AI payloads.
+ */
+
+export async function getValuationRate(userId: string): Promise<ValuationRate> {
+  const settings = await db.query.userPortfolioSettings.findFirst({
+    where: eq(userPortfolioSettings.userId, userId),
+  });
+  return settings?.valuationRate ?? DEFAULT_VALUATION_RATE;
+}
+
+/** Latest sell rate stored by the mep-rate-calculator function, if any */
+export async function getStoredUsdArsRate(rate: ValuationRate): Promise<number | null> {
+  const row = await db.query.exchangeRates.findFirst({
+    where: eq(exchangeRates.pair, VALUATION_RATE_PAIRS[rate]),
+  });
+  const sell = row ? Number(row.sellRate) : 0;
+  return sell > 0 ? sell : null;
+}
+
+/** One line for AI prompts stating what the USD figures mean */
+export function valuationNote(rate: ValuationRate): string {
+  return `All values are in USD; ARS positions are converted at the ${VALUATION_RATE_LABELS[rate]} dollar rate.`;
+}
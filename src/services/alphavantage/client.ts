@@ -283,6 +283,11 @@ function mapSentimentLabel(
   return map[label] || "Neutral";
 }
 
+// AV returns "None" or "0000-00-00" for missing dates
+function parseAvDate(value: string | undefined): string | null {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !value.startsWith("0000") ? value : null;
+}
+
 /**
  * Get company fundamentals.
  * TTL: 24 hours.
@@ -317,6 +322,9 @@ export async function getCompanyOverview(
       pegRatio: parseFloat(data.PEGRatio) || 0,
       eps: parseFloat(data.EPS) || 0,
       dividendYield: parseFloat(data.DividendYield) || 0,
+      dividendPerShare: parseFloat(data.DividendPerShare) || 0,
+      dividendDate: parseAvDate(data.DividendDate),
+      exDividendDate: parseAvDate(data.ExDividendDate),
       week52High: parseFloat(data["52WeekHigh"]) || 0,
       week52Low: parseFloat(data["52WeekLow"]) || 0,
       analystTargetPrice: parseFloat(data.AnalystTargetPrice) || 0,
@@ -51,6 +51,11 @@ export interface AVCompanyOverview {
   pegRatio: number;
   eps: number;
   dividendYield: number;
+  /** Trailing 12-month dividends per share */
+  dividendPerShare: number;
+  /** Next (or last) payment date, ISO; null when not announced */
+  dividendDate: string | null;
+  exDividendDate: string | null;
   week52High: number;
   week52Low: number;
   analystTargetPrice: number;
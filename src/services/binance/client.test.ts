@@ -0,0 +1,388 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { BinanceClient } from "./client";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const NOW = Date.parse("2026-03-10T15:00:00Z");
+
+/** Shorthand for building a mock Response */
+function mockResponse(
+  body: unknown,
+  init: { status?: number; ok?: boolean } = {}
+): Response {
+  const status = init.status ?? 200;
+  const ok = init.ok ?? (status >= 200 && status < 300);
+  return {
+    ok,
+    status,
+    json: () => Promise.resolve(body),
+    headers: new Headers(),
+  } as unknown as Response;
+}
+
+function makeClient(): BinanceClient {
+  return new BinanceClient({ apiKey: "test-key", apiSecret: "test-secret" });
+}
+
+/** Query params of the n-th fetch call */
+function callParams(fetchMock: ReturnType<typeof vi.fn>, n: number): URLSearchParams {
+  return new URL(fetchMock.mock.calls[n][0] as string).searchParams;
+}
+
+const FILLED_ORDER = {
+  symbol: "BTCUSDT",
+  orderId: 123,
+  clientOrderId: "abc",
+  price: "0.00000000",
+  origQty: "0.00100000",
+  executedQty: "0.00100000",
+  cummulativeQuoteQty: "65.00000000",
+  status: "FILLED",
+  type: "MARKET",
+  side: "BUY",
+  transactTime: NOW,
+  fills: [{ price: "65000", qty: "0.001", commission: "0", commissionAsset: "BNB", tradeId: 7 }],
+};
+
+// ---------------------------------------------------------------------------
+// Test suite
+// ---------------------------------------------------------------------------
+
+describe("BinanceClient", () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+    fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // -----------------------------------------------------------------------
+  // Signing and time sync
+  // -----------------------------------------------------------------------
+  describe("signed requests", () => {
+    it("syncs with the server clock before the first signed request", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW + 2500 }))
+        .mockResolvedValueOnce(mockResponse({ balances: [] }));
+
+      await client.getAccount();
+
+      expect(fetchMock.mock.calls[0][0]).toBe("https://api.binance.com/api/v3/time");
+      const params = callParams(fetchMock, 1);
+      expect(params.get("timestamp")).toBe(String(NOW + 2500));
+      expect(params.get("recvWindow")).toBe("5000");
+      expect(params.get("signature")).toMatch(/^[0-9a-f]{64}$/);
+      expect(fetchMock.mock.calls[1][1].headers).toEqual({ "X-MBX-APIKEY": "test-key" });
+    });
+
+    it("syncs only once per client", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValue(mockResponse({ balances: [] }));
+
+      await client.getAccount();
+      await client.getAccount();
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it("re-syncs and retries once when the timestamp is rejected", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValueOnce(
+          mockResponse(
+            { code: -1021, msg: "Timestamp for this request is outside of the recvWindow." },
+            { status: 400 }
+          )
+        )
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW + 4000 }))
+        .mockResolvedValueOnce(mockResponse({ balances: [] }));
+
+      await client.getAccount();
+
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(callParams(fetchMock, 3).get("timestamp")).toBe(String(NOW + 4000));
+    });
+
+    it("throws Binance's message on other errors", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValueOnce(
+          mockResponse({ code: -2015, msg: "Invalid API-key, IP, or permissions for action." }, { status: 401 })
+        );
+
+      await expect(client.getAccount()).rejects.toThrow("Invalid API-key");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Orders
+  // -----------------------------------------------------------------------
+  describe("placeOrder", () => {
+    it("posts a market order with a FULL response", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValueOnce(mockResponse(FILLED_ORDER));
+
+      const result = await client.placeOrder({
+        symbol: "BTCUSDT",
+        side: "BUY",
+        type: "MARKET",
+        quantity: 0.001,
+      });
+
+      expect(result).toMatchObject({ ok: true, mensaje: "Orden de compra enviada" });
+      expect(result.order?.orderId).toBe(123);
+      expect(fetchMock.mock.calls[1][1].method).toBe("POST");
+
+      const params = callParams(fetchMock, 1);
+      expect(params.get("side")).toBe("BUY");
+      expect(params.get("type")).toBe("MARKET");
+      expect(params.get("quantity")).toBe("0.001");
+      expect(params.get("newOrderRespType")).toBe("FULL");
+      expect(params.has("price")).toBe(false);
+    });
+
+    it("sends limit orders good-till-cancelled, without exponent notation", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValueOnce(mockResponse({ ...FILLED_ORDER, status: "NEW", type: "LIMIT" }));
+
+      await client.placeOrder({
+        symbol: "SHIBUSDT",
+        side: "SELL",
+        type: "LIMIT",
+        quantity: 1_000_000,
+        price: 0.0000123,
+      });
+
+      const params = callParams(fetchMock, 1);
+      expect(params.get("price")).toBe("0.0000123");
+      expect(params.get("quantity")).toBe("1000000");
+      expect(params.get("timeInForce")).toBe("GTC");
+    });
+
+    it("returns ok: false instead of throwing when Binance rejects the order", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValueOnce(
+          mockResponse({ code: -2010, msg: "Account has insufficient balance" }, { status: 400 })
+        );
+
+      const result = await client.placeOrder({
+        symbol: "BTCUSDT",
+        side: "BUY",
+        type: "MARKET",
+        quantity: 1,
+      });
+
+      expect(result).toEqual({ ok: false, error: "Account has insufficient balance" });
+    });
+  });
+
+  describe("cancelOrder", () => {
+    it("sends a DELETE for the symbol and order id", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValueOnce(mockResponse({ ...FILLED_ORDER, status: "CANCELED" }));
+
+      const result = await client.cancelOrder("BTCUSDT", 123);
+
+      expect(result).toMatchObject({ ok: true, mensaje: "Orden 123 cancelada" });
+      expect(fetchMock.mock.calls[1][1].method).toBe("DELETE");
+      expect(callParams(fetchMock, 1).get("orderId")).toBe("123");
+    });
+  });
+
+  describe("getOrderTrades", () => {
+    it("filters myTrades by order id", async () => {
+      const client = makeClient();
+
+      fetchMock
+        .mockResolvedValueOnce(mockResponse({ serverTime: NOW }))
+        .mockResolvedValueOnce(mockResponse([]));
+
+      await client.getOrderTrades("BTCUSDT", 123);
+
+      expect(fetchMock.mock.calls[1][0]).toContain("/api/v3/myTrades?");
+      expect(callParams(fetchMock, 1).get("orderId")).toBe("123");
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Portfolio across wallets
+  // -----------------------------------------------------------------------
+  describe("getPortfolio", () => {
+    /** Answer each endpoint by path, so parallel requests can land in any order */
+    function routeFetch(routes: Record<string, unknown>) {
+      fetchMock.mockImplementation(async (url: string) => {
+        const path = new URL(url).pathname;
+        if (path === "/api/v3/time") return mockResponse({ serverTime: NOW });
+        if (!(path in routes)) throw new Error(`Unexpected request: ${path}`);
+        const body = routes[path];
+        return body instanceof Error
+          ? mockResponse({ code: -2015, msg: body.message }, { status: 401 })
+          : mockResponse(body);
+      });
+    }
+
+    const SPOT = {
+      balances: [
+        { asset: "BTC", free: "0.1", locked: "0.05" },
+        { asset: "LDETH", free: "2", locked: "0" }, // Flexible Earn mirror
+        { asset: "LDO", free: "10", locked: "0" }, // Lido, not an Earn mirror
+      ],
+    };
+    const PRICES = [
+      { symbol: "BTCUSDT", price: "60000" },
+      { symbol: "ETHUSDT", price: "3000" },
+      { symbol: "LDOUSDT", price: "2" },
+      { symbol: "DOTUSDT", price: "5" },
+    ];
+
+    it("merges spot, Earn, staking and futures balances per asset", async () => {
+      const client = makeClient();
+      routeFetch({
+        "/api/v3/account": SPOT,
+        "/api/v3/ticker/price": PRICES,
+        "/sapi/v1/simple-earn/flexible/position": {
+          rows: [{ asset: "ETH", productId: "ETH001", totalAmount: "2", latestAnnualPercentageRate: "0.03" }],
+          total: 1,
+        },
+        "/sapi/v1/simple-earn/locked/position": {
+          rows: [{ positionId: 1, projectId: "DOT*60", asset: "DOT", amount: "100", duration: "60", APY: "0.1" }],
+          total: 1,
+        },
+        "/fapi/v2/account": {
+          totalWalletBalance: "500",
+          totalUnrealizedProfit: "20",
+          totalMarginBalance: "520",
+          assets: [
+            { asset: "USDT", walletBalance: "500", unrealizedProfit: "20", marginBalance: "520" },
+            { asset: "BNB", walletBalance: "0", unrealizedProfit: "0", marginBalance: "0" },
+          ],
+          positions: [
+            {
+              symbol: "BTCUSDT",
+              positionAmt: "-0.01",
+              entryPrice: "62000",
+              unrealizedProfit: "20",
+              notional: "-600",
+              leverage: "5",
+              positionSide: "BOTH",
+            },
+            {
+              symbol: "ETHUSDT",
+              positionAmt: "0",
+              entryPrice: "0",
+              unrealizedProfit: "0",
+              notional: "0",
+              leverage: "10",
+              positionSide: "BOTH",
+            },
+          ],
+        },
+      });
+
+      const { assets, futuresPositions } = await client.getPortfolio();
+
+      expect(assets.map((a) => a.asset)).toEqual(["BTC", "ETH", "USDT", "DOT", "LDO"]);
+      const byAsset = Object.fromEntries(assets.map((a) => [a.asset, a]));
+      expect(byAsset.BTC).toMatchObject({ free: 0.1, locked: 0.05 });
+      expect(byAsset.BTC.usdValue).toBeCloseTo(9000, 6);
+      expect(byAsset.ETH.wallets).toEqual({ spot: 0, earn: 2, staking: 0, futures: 0 });
+      expect(byAsset.ETH.total).toBe(2);
+      expect(byAsset.DOT.wallets.staking).toBe(100);
+      expect(byAsset.USDT).toMatchObject({ total: 520, usdValue: 520 });
+      expect(byAsset.LDO.wallets.spot).toBe(10);
+
+      expect(futuresPositions).toEqual([
+        {
+          symbol: "BTCUSDT",
+          side: "SHORT",
+          quantity: 0.01,
+          entryPrice: 62000,
+          markPrice: 60000,
+          notional: 600,
+          unrealizedPnl: 20,
+          leverage: 5,
+        },
+      ]);
+      const futuresCall = fetchMock.mock.calls.find((c) => String(c[0]).includes("/fapi/"));
+      expect(String(futuresCall?.[0])).toMatch(/^https:\/\/fapi\.binance\.com\/fapi\/v2\/account\?/);
+    });
+
+    it("reads Earn and futures as empty when the key can't access them", async () => {
+      const client = makeClient();
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      routeFetch({
+        "/api/v3/account": SPOT,
+        "/api/v3/ticker/price": PRICES,
+        "/sapi/v1/simple-earn/flexible/position": new Error("Invalid API-key, IP, or permissions for action."),
+        "/sapi/v1/simple-earn/locked/position": new Error("Invalid API-key, IP, or permissions for action."),
+        "/fapi/v2/account": new Error("Invalid API-key, IP, or permissions for action."),
+      });
+
+      const { assets, futuresPositions } = await client.getPortfolio();
+
+      expect(assets.map((a) => a.asset)).toEqual(["BTC", "LDO", "LDETH"]);
+      expect(futuresPositions).toEqual([]);
+      expect(warn).toHaveBeenCalledTimes(3);
+      warn.mockRestore();
+    });
+
+    it("still fails when the spot account is unreadable", async () => {
+      const client = makeClient();
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      routeFetch({
+        "/api/v3/account": new Error("Invalid API-key, IP, or permissions for action."),
+        "/api/v3/ticker/price": PRICES,
+        "/sapi/v1/simple-earn/flexible/position": { rows: [], total: 0 },
+        "/sapi/v1/simple-earn/locked/position": { rows: [], total: 0 },
+        "/fapi/v2/account": new Error("Invalid API-key, IP, or permissions for action."),
+      });
+
+      await expect(client.getPortfolio()).rejects.toThrow("Invalid API-key");
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe("getDailyCloses", () => {
+    it("keys closes by UTC date", async () => {
+      const client = makeClient();
+      const day = Date.parse("2026-03-09T00:00:00Z");
+      fetchMock.mockResolvedValueOnce(
+        mockResponse([[day, "1", "2", "0.5", "1.5", "100", day + 86_399_999]])
+      );
+
+      const closes = await client.getDailyCloses("BNBUSDT", day, NOW);
+
+      expect(closes).toEqual(new Map([["2026-03-09", 1.5]]));
+      expect(callParams(fetchMock, 0).get("interval")).toBe("1d");
+    });
+  });
+});
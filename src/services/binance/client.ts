@@ -4,16 +4,67 @@ import type {
   BinanceAccountInfo,
   BinanceTickerPrice,
   BinanceAsset,
+  BinanceTrade,
+  BinanceOrder,
+  BinanceOrderRequest,
+  BinanceOrderResponse,
+  BinanceEarnPage,
+  BinanceFlexibleEarnPosition,
+  BinanceLockedEarnPosition,
+  BinanceFlexibleRewardType,
+  BinanceFlexibleReward,
+  BinanceLockedReward,
+  BinanceFuturesAccount,
+  BinanceFuturesPosition,
+  BinanceKline,
+  BinancePortfolio,
+  BinanceWallet,
 } from "./types";
 
 const BINANCE_API_BASE = "https://api.binance.com";
+// USDⓈ-M futures live on their own host; same keys and signing
+const BINANCE_FUTURES_API_BASE = "https://fapi.binance.com";
+
+// Signed requests older than this (ms, by Binance's clock) are rejected
+const RECV_WINDOW = 5000;
+// Binance error code for a timestamp outside recvWindow
+const TIMESTAMP_OUTSIDE_WINDOW = -1021;
+
+type SignedMethod = "GET" | "POST" | "DELETE";
+
+/** Binance rejects exponent notation; quantities and prices go out as plain decimals */
+function toDecimalString(value: number): string {
+  return value.toFixed(8).replace(/\.?0+$/, "");
+}
 
 // Stablecoins and fiat - value is 1:1 with USD
 const STABLECOINS = new Set(["USDT", "USDC", "BUSD", "DAI", "TUSD", "FDUSD"]);
 
+// Largest page the Simple Earn list endpoints return
+const EARN_PAGE_SIZE = 100;
+
+/**
+ * Earn and futures wallets need permissions (or a futures account) that
+ * many keys lack; those wallets read as empty instead of failing the
+ * whole portfolio.
+ */
+async function optionalWallet<T>(wallet: BinanceWallet, fetcher: Promise<T>, empty: T): Promise<T> {
+  try {
+    return await fetcher;
+  } catch (error) {
+    console.warn(
+      `[Binance] ${wallet} wallet unavailable:`,
+      error instanceof Error ? error.message : error
+    );
+    return empty;
+  }
+}
+
 export class BinanceClient {
   private apiKey: string;
   private apiSecret: string;
+  // Binance server time minus ours, measured before the first signed request
+  private timeOffset: number | null = null;
 
   constructor(credentials: BinanceCredentials) {
     this.apiKey = credentials.apiKey;
@@ -31,30 +82,50 @@ export class BinanceClient {
   }
 
   /**
-   * Make authenticated request to Binance API
+   * Measure the offset between our clock and Binance's, so signed
+   * timestamps land inside recvWindow even when the server clock drifts
+   */
+  async syncTime(): Promise<number> {
+    const sentAt = Date.now();
+    const { serverTime } = await this.publicRequest<{ serverTime: number }>("/api/v3/time");
+    const receivedAt = Date.now();
+    this.timeOffset = serverTime - Math.round((sentAt + receivedAt) / 2);
+    return this.timeOffset;
+  }
+
+  /**
+   * Make authenticated request to Binance API. A timestamp rejection
+   * re-syncs the clock offset and retries once.
    */
   private async request<T>(
     endpoint: string,
-    params: Record<string, string | number> = {}
+    params: Record<string, string | number> = {},
+    method: SignedMethod = "GET",
+    retried = false
   ): Promise<T> {
-    const timestamp = Date.now();
+    if (this.timeOffset === null) await this.syncTime();
+
+    const timestamp = Date.now() + (this.timeOffset ?? 0);
     const queryParams = new URLSearchParams({
       ...Object.fromEntries(
         Object.entries(params).map(([k, v]) => [k, String(v)])
       ),
+      recvWindow: String(RECV_WINDOW),
       timestamp: String(timestamp),
     });
 
     const signature = this.sign(queryParams.toString());
     queryParams.append("signature", signature);
 
-    const url = `${BINANCE_API_BASE}${endpoint}?${queryParams.toString()}`;
+    const base = endpoint.startsWith("/fapi/") ? BINANCE_FUTURES_API_BASE : BINANCE_API_BASE;
+    const url = `${base}${endpoint}?${queryParams.toString()}`;
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 8000);
 
     try {
       const response = await fetch(url, {
+        method,
         headers: {
           "X-MBX-APIKEY": this.apiKey,
         },
@@ -63,6 +134,10 @@ export class BinanceClient {
 
       if (!response.ok) {
         const error = await response.json().catch(() => ({}));
+        if (error.code === TIMESTAMP_OUTSIDE_WINDOW && !retried) {
+          await this.syncTime();
+          return this.request<T>(endpoint, params, method, true);
+        }
         throw new Error(
           error.msg || `Binance API error: ${response.status}`
         );
@@ -135,14 +210,197 @@ export class BinanceClient {
   }
 
   /**
-   * Get portfolio with USD values
-   * Returns only assets with balance > 0
+   * Get account trades for one symbol, oldest first, starting at `fromId`
+   */
+  async getMyTrades(
+    symbol: string,
+    fromId = 0,
+    limit = 1000
+  ): Promise<BinanceTrade[]> {
+    return this.request<BinanceTrade[]>("/api/v3/myTrades", {
+      symbol,
+      fromId,
+      limit,
+    });
+  }
+
+  /**
+   * Get the fills of one order
+   */
+  async getOrderTrades(symbol: string, orderId: number): Promise<BinanceTrade[]> {
+    return this.request<BinanceTrade[]>("/api/v3/myTrades", { symbol, orderId });
+  }
+
+  /**
+   * Place a spot order. Market orders usually fill at once; the FULL
+   * response carries their fills.
+   */
+  async placeOrder(order: BinanceOrderRequest): Promise<BinanceOrderResponse> {
+    try {
+      const params: Record<string, string | number> = {
+        symbol: order.symbol,
+        side: order.side,
+        type: order.type,
+        quantity: toDecimalString(order.quantity),
+        newOrderRespType: "FULL",
+      };
+      if (order.type === "LIMIT") {
+        params.price = toDecimalString(order.price ?? 0);
+        params.timeInForce = "GTC";
+      }
+
+      const result = await this.request<BinanceOrder>("/api/v3/order", params, "POST");
+
+      return {
+        ok: true,
+        order: result,
+        mensaje: order.side === "BUY" ? "Orden de compra enviada" : "Orden de venta enviada",
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Error al enviar orden",
+      };
+    }
+  }
+
+  /**
+   * Cancel an open order
+   */
+  async cancelOrder(symbol: string, orderId: number): Promise<BinanceOrderResponse> {
+    try {
+      const result = await this.request<BinanceOrder>(
+        "/api/v3/order",
+        { symbol, orderId },
+        "DELETE"
+      );
+
+      return {
+        ok: true,
+        order: result,
+        mensaje: `Orden ${orderId} cancelada`,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Error al cancelar orden",
+      };
+    }
+  }
+
+  /**
+   * Get the current state of one order
+   */
+  async getOrder(symbol: string, orderId: number): Promise<BinanceOrder> {
+    return this.request<BinanceOrder>("/api/v3/order", { symbol, orderId });
+  }
+
+  /**
+   * Read every page of a Simple Earn list
    */
-  async getPortfolio(): Promise<BinanceAsset[]> {
-    // Fetch account and prices in parallel
-    const [account, allPrices] = await Promise.all([
+  private async getEarnRows<T>(
+    endpoint: string,
+    params: Record<string, string | number> = {}
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    for (let current = 1; ; current++) {
+      const page = await this.request<BinanceEarnPage<T>>(endpoint, {
+        ...params,
+        current,
+        size: EARN_PAGE_SIZE,
+      });
+      const pageRows = page.rows ?? [];
+      rows.push(...pageRows);
+      if (pageRows.length < EARN_PAGE_SIZE || rows.length >= page.total) return rows;
+    }
+  }
+
+  /**
+   * Get Simple Earn flexible positions
+   */
+  async getFlexibleEarnPositions(): Promise<BinanceFlexibleEarnPosition[]> {
+    return this.getEarnRows<BinanceFlexibleEarnPosition>(
+      "/sapi/v1/simple-earn/flexible/position"
+    );
+  }
+
+  /**
+   * Get Simple Earn locked positions (locked staking)
+   */
+  async getLockedEarnPositions(): Promise<BinanceLockedEarnPosition[]> {
+    return this.getEarnRows<BinanceLockedEarnPosition>(
+      "/sapi/v1/simple-earn/locked/position"
+    );
+  }
+
+  /**
+   * Get flexible Earn rewards of one kind. Binance caps the range at 3 months.
+   */
+  async getFlexibleRewards(
+    type: BinanceFlexibleRewardType,
+    startTime: number,
+    endTime: number
+  ): Promise<BinanceFlexibleReward[]> {
+    return this.getEarnRows<BinanceFlexibleReward>(
+      "/sapi/v1/simple-earn/flexible/history/rewardsRecord",
+      { type, startTime, endTime }
+    );
+  }
+
+  /**
+   * Get locked Earn (staking) rewards. Binance caps the range at 3 months.
+   */
+  async getLockedRewards(startTime: number, endTime: number): Promise<BinanceLockedReward[]> {
+    return this.getEarnRows<BinanceLockedReward>(
+      "/sapi/v1/simple-earn/locked/history/rewardsRecord",
+      { startTime, endTime }
+    );
+  }
+
+  /**
+   * Get the USDⓈ-M futures account: margin balances and positions
+   */
+  async getFuturesAccount(): Promise<BinanceFuturesAccount> {
+    return this.request<BinanceFuturesAccount>("/fapi/v2/account");
+  }
+
+  /**
+   * Daily closes of a spot pair, keyed by UTC date (YYYY-MM-DD)
+   */
+  async getDailyCloses(
+    symbol: string,
+    startTime: number,
+    endTime: number
+  ): Promise<Map<string, number>> {
+    const query = new URLSearchParams({
+      symbol,
+      interval: "1d",
+      startTime: String(startTime),
+      endTime: String(endTime),
+      limit: "1000",
+    });
+    const klines = await this.publicRequest<BinanceKline[]>(`/api/v3/klines?${query}`);
+
+    const closes = new Map<string, number>();
+    for (const kline of klines) {
+      closes.set(new Date(kline[0]).toISOString().slice(0, 10), parseFloat(kline[4]));
+    }
+    return closes;
+  }
+
+  /**
+   * Get portfolio with USD values across the spot, Simple Earn (flexible
+   * and locked) and USDⓈ-M futures wallets, plus open futures positions.
+   * Returns only assets with balance > 0.
+   */
+  async getPortfolio(): Promise<BinancePortfolio> {
+    // Fetch every wallet and prices in parallel
+    const [account, allPrices, flexible, locked, futures] = await Promise.all([
       this.getAccount(),
       this.getAllPrices(),
+      optionalWallet("earn", this.getFlexibleEarnPositions(), []),
+      optionalWallet("staking", this.getLockedEarnPositions(), []),
+      optionalWallet<BinanceFuturesAccount | null>("futures", this.getFuturesAccount(), null),
     ]);
 
     // Build price lookup map (symbol -> price in USDT)
@@ -157,40 +415,97 @@ export class BinanceClient {
     // USDT itself is 1:1
     priceMap.set("USDT", 1);
 
-    // Process balances
-    const assets: BinanceAsset[] = [];
+    // Units per asset and wallet
+    const holdings = new Map<string, Pick<BinanceAsset, "free" | "locked" | "wallets">>();
+    const holding = (asset: string) => {
+      let h = holdings.get(asset);
+      if (!h) {
+        h = { free: 0, locked: 0, wallets: { spot: 0, earn: 0, staking: 0, futures: 0 } };
+        holdings.set(asset, h);
+      }
+      return h;
+    };
+
+    // Flexible Earn also shows in spot as LD<asset>; count it once, from Earn
+    const flexibleAssets = new Set(flexible.map((p) => p.asset));
 
     for (const balance of account.balances) {
+      if (balance.asset.startsWith("LD") && flexibleAssets.has(balance.asset.slice(2))) {
+        continue;
+      }
       const free = parseFloat(balance.free);
       const locked = parseFloat(balance.locked);
-      const total = free + locked;
+      if (free + locked <= 0) continue;
+
+      const h = holding(balance.asset);
+      h.free = free;
+      h.locked = locked;
+      h.wallets.spot = free + locked;
+    }
+
+    for (const position of flexible) {
+      holding(position.asset).wallets.earn += parseFloat(position.totalAmount) || 0;
+    }
+    for (const position of locked) {
+      holding(position.asset).wallets.staking += parseFloat(position.amount) || 0;
+    }
+    for (const balance of futures?.assets ?? []) {
+      // Margin balance includes unrealized P&L of open positions
+      const margin = parseFloat(balance.marginBalance);
+      if (margin > 0) holding(balance.asset).wallets.futures += margin;
+    }
+
+    // Process balances
+    const assets: BinanceAsset[] = [];
+
+    for (const [asset, h] of holdings) {
+      const total = h.wallets.spot + h.wallets.earn + h.wallets.staking + h.wallets.futures;
 
       // Skip zero balances
       if (total <= 0) continue;
 
       // Get USD price
-      let price = priceMap.get(balance.asset) || 0;
+      let price = priceMap.get(asset) || 0;
 
       // Handle stablecoins (assume 1:1 with USD)
-      if (STABLECOINS.has(balance.asset)) {
+      if (STABLECOINS.has(asset)) {
         price = 1;
       }
 
       const usdValue = total * price;
 
       assets.push({
-        asset: balance.asset,
-        free,
-        locked,
+        asset,
+        free: h.free,
+        locked: h.locked,
         total,
         price,
         usdValue,
+        wallets: h.wallets,
       });
     }
 
     // Sort by USD value descending
     assets.sort((a, b) => b.usdValue - a.usdValue);
 
-    return assets;
+    const futuresPositions: BinanceFuturesPosition[] = (futures?.positions ?? [])
+      .filter((p) => parseFloat(p.positionAmt) !== 0)
+      .map((p) => {
+        const amount = parseFloat(p.positionAmt);
+        const quantity = Math.abs(amount);
+        const notional = Math.abs(parseFloat(p.notional));
+        return {
+          symbol: p.symbol,
+          side: amount > 0 ? "LONG" : "SHORT",
+          quantity,
+          entryPrice: parseFloat(p.entryPrice),
+          markPrice: notional / quantity,
+          notional,
+          unrealizedPnl: parseFloat(p.unrealizedProfit),
+          leverage: parseFloat(p.leverage),
+        };
+      });
+
+    return { assets, futuresPositions };
   }
 }
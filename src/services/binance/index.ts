@@ -5,4 +5,25 @@ export type {
   BinanceBalance,
   BinanceTickerPrice,
   BinanceAsset,
+  BinanceTrade,
+  BinanceOrderSide,
+  BinanceOrderType,
+  BinanceOrderStatus,
+  BinanceOrderRequest,
+  BinanceOrderFill,
+  BinanceOrder,
+  BinanceOrderResponse,
+  BinanceEarnPage,
+  BinanceFlexibleEarnPosition,
+  BinanceLockedEarnPosition,
+  BinanceFlexibleRewardType,
+  BinanceFlexibleReward,
+  BinanceLockedReward,
+  BinanceFuturesAssetBalance,
+  BinanceFuturesAccountPosition,
+  BinanceFuturesAccount,
+  BinanceKline,
+  BinanceWallet,
+  BinanceFuturesPosition,
+  BinancePortfolio,
 } from "./types";
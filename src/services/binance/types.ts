@@ -31,12 +31,173 @@ export interface BinanceTickerPrice {
   price: string;
 }
 
+// Account trade from /api/v3/myTrades
+export interface BinanceTrade {
+  symbol: string; // e.g., "BTCUSDT"
+  id: number;
+  orderId: number;
+  price: string;
+  qty: string;
+  quoteQty: string;
+  commission: string;
+  commissionAsset: string;
+  time: number; // ms epoch
+  isBuyer: boolean;
+  isMaker: boolean;
+}
+
+// Order side/type accepted by POST /api/v3/order (spot)
+export type BinanceOrderSide = "BUY" | "SELL";
+export type BinanceOrderType = "MARKET" | "LIMIT";
+// NEW | PARTIALLY_FILLED | FILLED | CANCELED | PENDING_CANCEL | REJECTED | EXPIRED | EXPIRED_IN_MATCH
+export type BinanceOrderStatus = string;
+
+export interface BinanceOrderRequest {
+  symbol: string; // e.g., "BTCUSDT"
+  side: BinanceOrderSide;
+  type: BinanceOrderType;
+  quantity: number; // Base asset units
+  price?: number; // Required for LIMIT
+}
+
+// Fill inside a FULL order response
+export interface BinanceOrderFill {
+  price: string;
+  qty: string;
+  commission: string;
+  commissionAsset: string;
+  tradeId: number;
+}
+
+// Order from POST/GET /api/v3/order
+export interface BinanceOrder {
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  price: string;
+  origQty: string;
+  executedQty: string;
+  cummulativeQuoteQty: string; // Binance's spelling
+  status: BinanceOrderStatus;
+  type: BinanceOrderType;
+  side: BinanceOrderSide;
+  transactTime?: number; // ms epoch (placement)
+  time?: number; // ms epoch (query)
+  updateTime?: number;
+  fills?: BinanceOrderFill[];
+}
+
+// Result of placing/cancelling, mirroring the IOL and PPI clients
+export interface BinanceOrderResponse {
+  ok: boolean;
+  order?: BinanceOrder;
+  mensaje?: string;
+  error?: string;
+}
+
+// Paged response of the Simple Earn endpoints
+export interface BinanceEarnPage<T> {
+  rows: T[];
+  total: number;
+}
+
+// Position from /sapi/v1/simple-earn/flexible/position
+export interface BinanceFlexibleEarnPosition {
+  asset: string;
+  productId: string;
+  totalAmount: string;
+  latestAnnualPercentageRate: string;
+}
+
+// Position from /sapi/v1/simple-earn/locked/position (locked staking)
+export interface BinanceLockedEarnPosition {
+  positionId: number;
+  projectId: string;
+  asset: string;
+  amount: string;
+  duration: string; // Lock period in days
+  APY: string;
+  redeemDate?: string; // ms epoch, as a string
+}
+
+// Flexible reward kinds accepted by .../flexible/history/rewardsRecord
+export type BinanceFlexibleRewardType = "BONUS" | "REALTIME" | "REWARDS";
+
+// Row from /sapi/v1/simple-earn/flexible/history/rewardsRecord
+export interface BinanceFlexibleReward {
+  asset: string;
+  rewards: string;
+  projectId: string;
+  type: string;
+  time: number; // ms epoch
+}
+
+// Row from /sapi/v1/simple-earn/locked/history/rewardsRecord
+export interface BinanceLockedReward {
+  positionId: string | number;
+  asset: string;
+  amount: string;
+  lockPeriod: string;
+  time: number; // ms epoch
+}
+
+// Margin asset from /fapi/v2/account (USDⓈ-M futures)
+export interface BinanceFuturesAssetBalance {
+  asset: string;
+  walletBalance: string;
+  unrealizedProfit: string;
+  marginBalance: string; // Wallet balance + unrealized P&L
+}
+
+// Position from /fapi/v2/account
+export interface BinanceFuturesAccountPosition {
+  symbol: string;
+  positionAmt: string; // Negative for shorts
+  entryPrice: string;
+  unrealizedProfit: string;
+  notional: string;
+  leverage: string;
+  positionSide: string; // "BOTH" in one-way mode
+}
+
+export interface BinanceFuturesAccount {
+  totalWalletBalance: string;
+  totalUnrealizedProfit: string;
+  totalMarginBalance: string;
+  assets: BinanceFuturesAssetBalance[];
+  positions: BinanceFuturesAccountPosition[];
+}
+
+// Kline from /api/v3/klines: [openTime, open, high, low, close, volume, closeTime, ...]
+export type BinanceKline = [number, string, string, string, string, string, number, ...unknown[]];
+
+// Wallets a Binance holding can sit in
+export type BinanceWallet = "spot" | "earn" | "staking" | "futures";
+
 // Formatted asset for our app
 export interface BinanceAsset {
   asset: string;
-  free: number;
-  locked: number;
-  total: number;
+  free: number; // Spot, available
+  locked: number; // Spot, in open orders
+  total: number; // All wallets
   usdValue: number;
   price: number;
+  wallets: Record<BinanceWallet, number>; // Units per wallet
+}
+
+// Open USDⓈ-M futures position, formatted for our app
+export interface BinanceFuturesPosition {
+  symbol: string;
+  side: "LONG" | "SHORT";
+  quantity: number;
+  entryPrice: number;
+  markPrice: number;
+  notional: number; // USD, always positive
+  unrealizedPnl: number;
+  leverage: number;
+}
+
+export interface BinancePortfolio {
+  assets: BinanceAsset[];
+  futuresPositions: BinanceFuturesPosition[];
 }
@@ -0,0 +1,389 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { IOLClient, IOLTokenExpiredError } from "@/services/iol";
+import { PPIClient, PPITokenExpiredError } from "@/services/ppi";
+import { BinanceClient } from "@/services/binance";
+import { BROKER_PROVIDERS } from "@/lib/constants";
+import type { IOLAccountState, IOLPortfolioItem, IOLToken } from "@/services/iol";
+import type { BinanceAccountInfo, BinanceAsset } from "@/services/binance";
+import {
+  BROKER_ADAPTERS,
+  binanceAdapter,
+  getBrokerAdapter,
+  iolAdapter,
+  mapIOLBalances,
+  mapPPIBalances,
+  ppiAdapter,
+  type BrokerOrderRequest,
+} from "./index";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const IOL_TOKEN: IOLToken = {
+  access_token: "access",
+  token_type: "bearer",
+  expires_in: 900,
+  refresh_token: "refresh",
+  issued_at: Date.now(),
+};
+
+const PPI_CREDENTIALS = {
+  apiKey: "key",
+  apiSecret: "secret",
+  accessToken: "access",
+  refreshToken: "refresh",
+};
+
+function iolItem(simbolo: string, overrides: Partial<IOLPortfolioItem> = {}): IOLPortfolioItem {
+  return {
+    cantidad: 10,
+    comprometido: 0,
+    puntosVariacion: 0,
+    variacionDiaria: 0,
+    ultimoPrecio: 1500,
+    ppc: 1200,
+    gananciaPorcentaje: 0,
+    gananciaDinero: 0,
+    valorizado: 15000,
+    titulo: {
+      simbolo,
+      descripcion: `${simbolo} desc`,
+      pais: "argentina",
+      mercado: "bcba",
+      tipo: "CEDEARS",
+      plazo: "t2",
+      moneda: "peso_Argentino",
+    },
+    ...overrides,
+  };
+}
+
+function binanceAsset(asset: string, total: number, price: number): BinanceAsset {
+  return {
+    asset,
+    free: total,
+    locked: 0,
+    total,
+    usdValue: total * price,
+    price,
+    wallets: { spot: total, earn: 0, staking: 0, futures: 0 },
+  };
+}
+
+function order(overrides: Partial<BrokerOrderRequest> = {}): BrokerOrderRequest {
+  return {
+    action: "buy",
+    symbol: "GGAL",
+    category: "stock",
+    quantity: 10,
+    price: 3500,
+    orderType: "limit",
+    settlement: "t1",
+    validUntil: "2026-03-10",
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+describe("broker registry", () => {
+  it("has an adapter for every provider, keyed by its own id", () => {
+    for (const provider of BROKER_PROVIDERS) {
+      expect(BROKER_ADAPTERS[provider].provider).toBe(provider);
+    }
+  });
+
+  it("looks adapters up by route segment", () => {
+    expect(getBrokerAdapter("ppi")).toBe(ppiAdapter);
+    expect(getBrokerAdapter("balanz")).toBeNull();
+    expect(getBrokerAdapter("toString")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// IOL
+// ---------------------------------------------------------------------------
+
+describe("iolAdapter", () => {
+  it("accepts a browser-issued token and stamps issued_at", async () => {
+    const credentials = await iolAdapter.authenticate({
+      token: { ...IOL_TOKEN, issued_at: undefined },
+    });
+    expect(credentials.access_token).toBe("access");
+    expect(credentials.issued_at).toEqual(expect.any(Number));
+  });
+
+  it("maps portfolio items from both markets and skips empty ones", async () => {
+    vi.spyOn(IOLClient.prototype, "getAllPortfolios").mockResolvedValue({
+      argentina: { pais: "argentina", activos: [iolItem("ggal"), iolItem("YPFD", { cantidad: 0 })] },
+      us: {
+        pais: "estados_unidos",
+        activos: [
+          iolItem("AAPL", {
+            titulo: { ...iolItem("AAPL").titulo, tipo: "ACCIONES", pais: "estados_unidos", moneda: "dolar_Estadounidense" },
+          }),
+        ],
+      },
+    });
+
+    const positions = await iolAdapter.connect(IOL_TOKEN).getPositions();
+
+    expect(positions).toEqual([
+      {
+        ticker: "GGAL",
+        name: "ggal desc",
+        category: "cedear",
+        currency: "ARS",
+        quantity: 10,
+        averagePrice: 1200,
+        currentPrice: 1500,
+      },
+      expect.objectContaining({ ticker: "AAPL", category: "stock", currency: "USD" }),
+    ]);
+  });
+
+  it("routes orders to the buy or sell endpoint", async () => {
+    const buy = vi
+      .spyOn(IOLClient.prototype, "placeBuyOrder")
+      .mockResolvedValue({ ok: true, numeroOperacion: 42, mensaje: "ok" });
+
+    const result = await iolAdapter.connect(IOL_TOKEN).placeOrder(order({ orderType: "market" }));
+
+    expect(buy).toHaveBeenCalledWith(
+      expect.objectContaining({ mercado: "bCBA", simbolo: "GGAL", plazo: "t1", tipoOrden: "precioMercado" })
+    );
+    expect(result).toEqual({ ok: true, orderId: "42", message: "ok", error: undefined });
+  });
+
+  it("recognizes expired sessions", () => {
+    expect(iolAdapter.isExpiredError(new IOLTokenExpiredError())).toBe(true);
+    expect(iolAdapter.isExpiredError(new Error("IOL API error: 500"))).toBe(false);
+  });
+});
+
+describe("mapIOLBalances", () => {
+  it("takes the largest tradeable saldo and sums committed per currency", () => {
+    const state = {
+      cuentas: [
+        {
+          numero: "1",
+          tipo: "inversion_Argentina_Pesos",
+          moneda: "peso_Argentino",
+          disponible: 0,
+          comprometido: 0,
+          saldo: 0,
+          total: 1000,
+          saldos: [
+            { liquidacion: "inmediato", saldo: 0, comprometido: 50, disponible: 0, disponibleOperar: 300 },
+            { liquidacion: "hrs48", saldo: 0, comprometido: 25, disponible: 0, disponibleOperar: 800 },
+          ],
+        },
+        {
+          numero: "2",
+          tipo: "inversion_Estados_Unidos_Dolares",
+          moneda: "",
+          disponible: 40,
+          comprometido: 5,
+          saldo: 45,
+        },
+      ],
+    } as IOLAccountState;
+
+    expect(mapIOLBalances(state)).toEqual([
+      { currency: "ARS", available: 800, committed: 75, total: 1000 },
+      { currency: "USD", available: 40, committed: 5, total: 45 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// PPI
+// ---------------------------------------------------------------------------
+
+describe("ppiAdapter", () => {
+  it("maps positions with the shared PPI mappers", async () => {
+    vi.spyOn(PPIClient.prototype, "getBalancesAndPositions").mockResolvedValue({
+      Positions: [
+        {
+          Ticker: "aapl",
+          Description: "Apple CEDEAR",
+          Currency: "Pesos",
+          Price: 12000,
+          Quantity: 3,
+          Amount: 36000,
+          AveragePrice: 10000,
+          PnL: 6000,
+          PnLPercentage: 20,
+          InstrumentType: "CEDEARS",
+          Market: "BYMA",
+          Settlement: "A-48HS",
+        },
+      ],
+      CashBalances: [],
+    });
+
+    const positions = await ppiAdapter.connect(PPI_CREDENTIALS).getPositions();
+
+    expect(positions).toEqual([
+      {
+        ticker: "AAPL",
+        name: "Apple CEDEAR",
+        category: "cedear",
+        currency: "ARS",
+        quantity: 3,
+        averagePrice: 10000,
+        currentPrice: 12000,
+      },
+    ]);
+  });
+
+  it("rejects orders for categories PPI can't trade without calling the API", async () => {
+    const place = vi.spyOn(PPIClient.prototype, "placeOrder");
+
+    const result = await ppiAdapter.connect(PPI_CREDENTIALS).placeOrder(order({ category: "crypto" }));
+
+    expect(result.ok).toBe(false);
+    expect(place).not.toHaveBeenCalled();
+  });
+
+  it("places in the session's account with the given instrument type and accepted terms", async () => {
+    const place = vi
+      .spyOn(PPIClient.prototype, "placeOrder")
+      .mockResolvedValue({ ok: true, orderId: 9876, mensaje: "Orden ingresada" });
+
+    const result = await ppiAdapter
+      .connect(PPI_CREDENTIALS, "ACC-7")
+      .placeOrder(order({ instrumentType: "CEDEARS", acceptedDisclaimers: ["RIESGO"] }));
+
+    expect(place).toHaveBeenCalledWith(
+      expect.objectContaining({ ticker: "GGAL", instrumentType: "CEDEARS", settlement: "A-24HS" }),
+      "ACC-7",
+      ["RIESGO"]
+    );
+    expect(result).toEqual({ ok: true, orderId: "9876", message: "Orden ingresada", error: undefined });
+  });
+
+  it("recognizes expired sessions", () => {
+    expect(ppiAdapter.isExpiredError(new PPITokenExpiredError())).toBe(true);
+  });
+});
+
+describe("mapPPIBalances", () => {
+  it("sums settlements by currency", () => {
+    const balances = mapPPIBalances({
+      Balances: [
+        { Currency: "ARS", Settlement: "INMEDIATA", Amount: 100, Available: 80, Committed: 20 },
+        { Currency: "ARS", Settlement: "A-48HS", Amount: 50, Available: 50, Committed: 0 },
+        { Currency: "USD", Settlement: "INMEDIATA", Amount: 10, Available: 10, Committed: 0 },
+      ],
+    });
+
+    expect(balances).toEqual([
+      { currency: "ARS", available: 130, committed: 20, total: 150 },
+      { currency: "USD", available: 10, committed: 0, total: 10 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Binance
+// ---------------------------------------------------------------------------
+
+describe("binanceAdapter", () => {
+  const credentials = { apiKey: "key", apiSecret: "secret" };
+
+  it("skips dust and stablecoins and reports no cost basis", async () => {
+    vi.spyOn(BinanceClient.prototype, "getPortfolio").mockResolvedValue({
+      assets: [
+        binanceAsset("BTC", 0.5, 60000),
+        binanceAsset("USDT", 500, 1),
+        binanceAsset("SHIB", 10, 0.00001),
+      ],
+      futuresPositions: [],
+    });
+
+    const positions = await binanceAdapter.connect(credentials).getPositions();
+
+    expect(positions).toEqual([
+      {
+        ticker: "BTC",
+        name: "Bitcoin",
+        category: "crypto",
+        currency: "USD",
+        quantity: 0.5,
+        averagePrice: null,
+        currentPrice: 60000,
+      },
+    ]);
+  });
+
+  it("reports stablecoin spot balances as USD cash", async () => {
+    vi.spyOn(BinanceClient.prototype, "getAccount").mockResolvedValue({
+      balances: [
+        { asset: "USDT", free: "100.5", locked: "20" },
+        { asset: "FDUSD", free: "10", locked: "0" },
+        { asset: "BTC", free: "1", locked: "0" },
+      ],
+    } as BinanceAccountInfo);
+
+    const balances = await binanceAdapter.connect(credentials).getBalances();
+
+    expect(balances).toEqual([{ currency: "USD", available: 110.5, committed: 20, total: 130.5 }]);
+  });
+
+  it("quotes against the USDT pair and drops unlisted symbols", async () => {
+    vi.spyOn(BinanceClient.prototype, "getAllPrices").mockResolvedValue([
+      { symbol: "BTCUSDT", price: "60000.5" },
+      { symbol: "ETHBTC", price: "0.05" },
+    ]);
+
+    const quotes = await binanceAdapter
+      .connect(credentials)
+      .getQuotes([{ symbol: "btc" }, { symbol: "ETH" }]);
+
+    expect(quotes).toEqual([{ symbol: "BTC", price: 60000.5, change: null }]);
+  });
+
+  it("places on the chosen quote asset and returns the fills keyed like the history sync", async () => {
+    const place = vi.spyOn(BinanceClient.prototype, "placeOrder").mockResolvedValue({
+      ok: true,
+      mensaje: "Orden de compra enviada",
+      order: {
+        symbol: "BTCUSDC",
+        orderId: 123,
+        clientOrderId: "c1",
+        price: "0",
+        origQty: "0.001",
+        executedQty: "0.001",
+        cummulativeQuoteQty: "65",
+        status: "FILLED",
+        type: "MARKET",
+        side: "BUY",
+        transactTime: Date.parse("2026-03-05T12:00:00Z"),
+        fills: [{ price: "65000", qty: "0.001", commission: "0", commissionAsset: "BNB", tradeId: 901 }],
+      },
+    });
+
+    const result = await binanceAdapter
+      .connect(credentials)
+      .placeOrder(order({ symbol: "BTC", category: "crypto", market: "USDC", orderType: "market", quantity: 0.001 }));
+
+    expect(place).toHaveBeenCalledWith(
+      expect.objectContaining({ symbol: "BTCUSDC", side: "BUY", type: "MARKET", quantity: 0.001 })
+    );
+    expect(result).toMatchObject({ ok: true, orderId: "123", status: "FILLED" });
+    expect(result.fills).toEqual([expect.objectContaining({ externalId: "BTCUSDC:901", quantity: 0.001 })]);
+  });
+
+  it("treats rejected API keys as expired", () => {
+    expect(binanceAdapter.isExpiredError(new Error("Binance API error: -2015 Invalid API-key"))).toBe(true);
+    expect(binanceAdapter.isExpiredError(new Error("Binance API error: 500"))).toBe(false);
+  });
+});
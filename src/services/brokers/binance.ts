@@ -0,0 +1,149 @@
+import { BinanceClient } from "@/services/binance";
+import type { BinanceCredentials } from "@/services/binance";
+import { cryptoName } from "@/services/shared/mappers";
+import { binanceAuthSchema } from "@/lib/api-schemas";
+import {
+  binanceSymbolsToSync,
+  fetchBinanceHistory,
+  fetchBinanceRewards,
+  mapBinanceOrderFills,
+  parseBinanceCursor,
+} from "@/lib/broker-history";
+import type { z } from "zod";
+import type { BrokerAdapter, BrokerBalance } from "./types";
+
+/** Held as cash rather than as positions */
+const STABLECOINS = ["USDT", "USDC", "BUSD", "DAI", "FDUSD"];
+/** Balances worth less than this (USD) are dust and not synced */
+const DUST_USD = 1;
+
+export const binanceAdapter: BrokerAdapter<BinanceCredentials, z.infer<typeof binanceAuthSchema>> = {
+  provider: "binance",
+  label: "Binance",
+  authSchema: binanceAuthSchema,
+
+  async authenticate({ apiKey, apiSecret }) {
+    const isValid = await new BinanceClient({ apiKey, apiSecret }).testConnection();
+    if (!isValid) {
+      throw new Error("Invalid API credentials. Check your key and secret.");
+    }
+    return { apiKey, apiSecret };
+  },
+
+  connect(credentials) {
+    const client = new BinanceClient(credentials);
+
+    return {
+      // API keys don't expire
+      async refresh() {},
+
+      credentials: () => credentials,
+
+      async getPositions() {
+        const { assets } = await client.getPortfolio();
+        return assets
+          .filter((a) => a.usdValue >= DUST_USD && !STABLECOINS.includes(a.asset.toUpperCase()))
+          .map((a) => ({
+            ticker: a.asset.toUpperCase(),
+            name: cryptoName(a.asset),
+            category: "crypto" as const,
+            currency: "USD" as const,
+            quantity: a.total,
+            averagePrice: null, // Binance doesn't provide cost basis
+            currentPrice: a.price,
+          }));
+      },
+
+      async getBalances() {
+        const account = await client.getAccount();
+        const usd: BrokerBalance = { currency: "USD", available: 0, committed: 0, total: 0 };
+
+        for (const b of account.balances) {
+          if (!STABLECOINS.includes(b.asset.toUpperCase())) continue;
+          usd.available += parseFloat(b.free);
+          usd.committed += parseFloat(b.locked);
+        }
+        usd.total = usd.available + usd.committed;
+
+        return [usd];
+      },
+
+      // Spot trades for every stablecoin pair of a held or previously synced
+      // asset, plus Simple Earn rewards since the last run as income
+      async getOperations(rawCursor, { assets }) {
+        const [account, prices] = await Promise.all([
+          client.getAccount(),
+          client.getAllPrices(),
+        ]);
+
+        const held = account.balances
+          .filter((b) => parseFloat(b.free) + parseFloat(b.locked) > 0)
+          .map((b) => b.asset);
+        const synced = assets.filter((a) => a.category === "crypto").map((a) => a.ticker);
+        const cursor = parseBinanceCursor(rawCursor);
+        const listedSymbols = new Set(prices.map((p) => p.symbol));
+        const symbols = binanceSymbolsToSync([...held, ...synced], listedSymbols, cursor);
+
+        const page = await fetchBinanceHistory(client, symbols, cursor);
+
+        // Keys without Earn access still sync trades; rewards retry next run
+        const rewards = await fetchBinanceRewards(client, cursor, listedSymbols).catch(
+          (error) => {
+            console.warn("Binance rewards sync skipped:", error);
+            return null;
+          }
+        );
+
+        return {
+          trades: [...page.trades, ...(rewards?.trades ?? [])],
+          cursor: {
+            ...page.cursor,
+            ...(rewards && { rewardsSyncedThrough: rewards.syncedThrough }),
+          },
+          hasMore: page.hasMore,
+        };
+      },
+
+      // Priced against USDT; Binance's ticker endpoint has no daily change
+      async getQuotes(instruments) {
+        const prices = new Map(
+          (await client.getAllPrices()).map((p) => [p.symbol, parseFloat(p.price)])
+        );
+        return instruments.flatMap((i) => {
+          const symbol = i.symbol.toUpperCase();
+          const price = prices.get(`${symbol}USDT`);
+          return price !== undefined ? [{ symbol, price, change: null }] : [];
+        });
+      },
+
+      async placeOrder(order) {
+        const result = await client.placeOrder({
+          symbol: `${order.symbol}${order.market ?? "USDT"}`,
+          side: order.action === "buy" ? "BUY" : "SELL",
+          type: order.orderType === "market" ? "MARKET" : "LIMIT",
+          quantity: order.quantity,
+          price: order.price,
+        });
+
+        return {
+          ok: result.ok && !!result.order,
+          orderId: result.order ? String(result.order.orderId) : undefined,
+          status: result.order?.status,
+          // Market orders fill at once; their fills carry the myTrades ids
+          fills: result.order ? mapBinanceOrderFills(result.order) : undefined,
+          message: result.mensaje,
+          error: result.error,
+        };
+      },
+    };
+  },
+
+  isExpiredError(error) {
+    const message = error instanceof Error ? error.message : "";
+    return (
+      message.includes("Invalid API") ||
+      message.includes("-2015") ||
+      message.includes("-2014")
+    );
+  },
+};
@@ -0,0 +1,44 @@
+import { BROKER_PROVIDERS, type BrokerProvider } from "@/lib/constants";
+import { iolAdapter } from "./iol";
+import { ppiAdapter } from "./ppi";
+import { binanceAdapter } from "./binance";
+import type { BrokerAdapter } from "./types";
+
+/**
+ * Registered brokers. Adding one is a new adapter module plus its entry
+ * here and in BROKER_PROVIDERS; the /api/brokers routes, auto-sync and
+ * history ingest pick it up from there.
+ */
+export const BROKER_ADAPTERS: Record<BrokerProvider, BrokerAdapter> = {
+  iol: iolAdapter,
+  ppi: ppiAdapter,
+  binance: binanceAdapter,
+};
+
+export function isBrokerProvider(value: string): value is BrokerProvider {
+  return (BROKER_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * The adapter for a route's `[provider]` segment, or null if unknown.
+ */
+export function getBrokerAdapter(provider: string): BrokerAdapter | null {
+  return isBrokerProvider(provider) ? BROKER_ADAPTERS[provider] : null;
+}
+
+export { iolAdapter, mapIOLBalances } from "./iol";
+export { ppiAdapter, mapPPIBalances } from "./ppi";
+export { binanceAdapter } from "./binance";
+export type {
+  BrokerAdapter,
+  BrokerSession,
+  BrokerPosition,
+  BrokerBalance,
+  BrokerInstrument,
+  BrokerQuote,
+  BrokerOrderRequest,
+  BrokerOrderResult,
+  BrokerOperationsPage,
+  BrokerOperationsContext,
+  BrokerSubAccount,
+} from "./types";
@@ -0,0 +1,140 @@
+import { IOLClient, IOLTokenExpiredError } from "@/services/iol";
+import type { IOLAccountState, IOLOrderRequest, IOLToken } from "@/services/iol";
+import { mapIOLCategory, mapIOLCurrency } from "@/services/shared/mappers";
+import { iolAuthSchema } from "@/lib/api-schemas";
+import { fetchIOLHistory, parseDateCursor } from "@/lib/broker-history";
+import type { z } from "zod";
+import type { BrokerAdapter, BrokerBalance, BrokerPosition } from "./types";
+
+/** Market quotes and orders go to when the caller doesn't pick one */
+const DEFAULT_MARKET = "bCBA";
+
+/**
+ * Sum IOL accounts into one ARS and one USD balance. Each account lists
+ * its saldos per settlement period; what's tradeable is the largest
+ * `disponibleOperar` among them.
+ */
+export function mapIOLBalances(state: IOLAccountState): BrokerBalance[] {
+  const balances: Record<"ARS" | "USD", BrokerBalance> = {
+    ARS: { currency: "ARS", available: 0, committed: 0, total: 0 },
+    USD: { currency: "USD", available: 0, committed: 0, total: 0 },
+  };
+
+  for (const cuenta of state.cuentas || []) {
+    const tipo = (cuenta.tipo || "").toLowerCase();
+    const isUSD =
+      mapIOLCurrency(cuenta.moneda) === "USD" ||
+      tipo.includes("dolar") ||
+      tipo.includes("estados_unidos");
+
+    let available = 0;
+    let committed = 0;
+    for (const saldo of cuenta.saldos ?? []) {
+      if (saldo.disponibleOperar > available) available = saldo.disponibleOperar;
+      committed += saldo.comprometido || 0;
+    }
+
+    // Fallback to top-level if saldos not available
+    if (available === 0) available = cuenta.disponible || 0;
+    if (committed === 0) committed = cuenta.comprometido || 0;
+
+    const target = isUSD ? balances.USD : balances.ARS;
+    target.available += available;
+    target.committed += committed;
+    target.total += cuenta.total || cuenta.saldo || 0;
+  }
+
+  return [balances.ARS, balances.USD];
+}
+
+export const iolAdapter: BrokerAdapter<IOLToken, z.infer<typeof iolAuthSchema>> = {
+  provider: "iol",
+  label: "IOL",
+  authSchema: iolAuthSchema,
+
+  // Two modes:
+  // 1. { username, password } → server authenticates with IOL API
+  // 2. { token }             → browser already authenticated (bypasses Vercel IP restrictions)
+  async authenticate(input) {
+    if ("token" in input) {
+      return { ...input.token, issued_at: input.token.issued_at ?? Date.now() };
+    }
+    return IOLClient.authenticate(input.username, input.password);
+  },
+
+  connect(token) {
+    const client = new IOLClient(token);
+
+    return {
+      async refresh() {
+        await client.refreshToken();
+      },
+
+      credentials: () => client.getToken() ?? token,
+
+      async getPositions() {
+        const { argentina, us } = await client.getAllPortfolios();
+        const positions: BrokerPosition[] = [];
+
+        for (const item of [...(argentina.activos || []), ...(us.activos || [])]) {
+          const simbolo = item.titulo?.simbolo;
+          if (!simbolo || item.cantidad <= 0) continue;
+
+          positions.push({
+            ticker: simbolo.toUpperCase(),
+            name: item.titulo?.descripcion || simbolo.toUpperCase(),
+            category: mapIOLCategory(item.titulo?.tipo, item.titulo?.pais),
+            currency: mapIOLCurrency(item.titulo?.moneda),
+            quantity: item.cantidad,
+            averagePrice: item.ppc,
+            currentPrice: item.ultimoPrecio,
+          });
+        }
+
+        return positions;
+      },
+
+      async getBalances() {
+        return mapIOLBalances(await client.getAccountState());
+      },
+
+      async getOperations(cursor) {
+        return fetchIOLHistory(client, parseDateCursor(cursor));
+      },
+
+      async getQuotes(instruments) {
+        const quotes = await client.getQuotes(
+          instruments.map((i) => ({ market: i.market ?? DEFAULT_MARKET, symbol: i.symbol }))
+        );
+        return [...quotes].flatMap(([symbol, q]) =>
+          q ? [{ symbol, price: q.ultimoPrecio, change: q.variacion ?? null }] : []
+        );
+      },
+
+      async placeOrder(order) {
+        const request: IOLOrderRequest = {
+          mercado: order.market ?? DEFAULT_MARKET,
+          simbolo: order.symbol,
+          cantidad: order.quantity,
+          precio: order.price,
+          plazo: order.settlement,
+          validez: order.validUntil,
+          tipoOrden: order.orderType === "market" ? "precioMercado" : "precioLimite",
+        };
+        const result =
+          order.action === "buy"
+            ? await client.placeBuyOrder(request)
+            : await client.placeSellOrder(request);
+
+        return {
+          ok: result.ok,
+          orderId: result.numeroOperacion != null ? String(result.numeroOperacion) : undefined,
+          message: result.mensaje,
+          error: result.error,
+        };
+      },
+    };
+  },
+
+  isExpiredError: (error) => error instanceof IOLTokenExpiredError,
+};
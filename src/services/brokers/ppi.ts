@@ -0,0 +1,133 @@
+import { PPIClient, PPITokenExpiredError } from "@/services/ppi";
+import type { PPIAvailableBalance, PPICredentials } from "@/services/ppi";
+import {
+  mapPPICategory,
+  mapPPICurrency,
+  toPPIInstrumentType,
+  toPPIOrderRequest,
+} from "@/services/shared/mappers";
+import { ppiAuthSchema } from "@/lib/api-schemas";
+import { fetchPPIHistory, parseDateCursor } from "@/lib/broker-history";
+import type { z } from "zod";
+import type { BrokerAdapter, BrokerBalance } from "./types";
+
+/**
+ * Sum PPI cash balances (one per currency and settlement) by currency.
+ */
+export function mapPPIBalances(data: PPIAvailableBalance): BrokerBalance[] {
+  const balances: Record<"ARS" | "USD", BrokerBalance> = {
+    ARS: { currency: "ARS", available: 0, committed: 0, total: 0 },
+    USD: { currency: "USD", available: 0, committed: 0, total: 0 },
+  };
+
+  for (const b of data.Balances || []) {
+    const target = balances[mapPPICurrency(b.Currency)];
+    target.available += b.Available || 0;
+    target.committed += b.Committed || 0;
+    target.total += b.Amount || 0;
+  }
+
+  return [balances.ARS, balances.USD];
+}
+
+export const ppiAdapter: BrokerAdapter<PPICredentials, z.infer<typeof ppiAuthSchema>> = {
+  provider: "ppi",
+  label: "PPI",
+  authSchema: ppiAuthSchema,
+
+  authenticate: ({ apiKey, apiSecret }) =>
+    PPIClient.authenticate(apiKey.trim(), apiSecret.trim()),
+
+  // Without an account number, calls go to the login's first account
+  connect(credentials, accountNumber) {
+    const client = new PPIClient(credentials);
+
+    return {
+      refresh: () => client.refreshToken(),
+
+      credentials: () => client.getCredentials(),
+
+      async getPositions() {
+        const data = await client.getBalancesAndPositions(accountNumber);
+        return (data.Positions || [])
+          .filter((p) => p.Ticker && p.Quantity > 0)
+          .map((p) => ({
+            ticker: p.Ticker.toUpperCase(),
+            name: p.Description || p.Ticker.toUpperCase(),
+            category: mapPPICategory(p.InstrumentType),
+            currency: mapPPICurrency(p.Currency),
+            quantity: p.Quantity,
+            averagePrice: p.AveragePrice,
+            currentPrice: p.Price,
+          }));
+      },
+
+      async getBalances() {
+        return mapPPIBalances(await client.getAvailableBalance(accountNumber));
+      },
+
+      async getOperations(cursor) {
+        return fetchPPIHistory(
+          {
+            getMovements: (from, to, acct) => client.getMovements(from, to, acct),
+            getAccountNumber: async () => accountNumber ?? client.getAccountNumber(),
+          },
+          parseDateCursor(cursor)
+        );
+      },
+
+      async getQuotes(instruments) {
+        const quotes = await client.getQuotes(
+          instruments.map((i) => ({
+            ticker: i.symbol,
+            type: toPPIInstrumentType(i.category ?? "stock") ?? "ACCIONES",
+          }))
+        );
+        return [...quotes].flatMap(([symbol, q]) =>
+          q ? [{ symbol, price: q.Last, change: q.Change ?? null }] : []
+        );
+      },
+
+      async placeOrder(order) {
+        const instrumentType = order.instrumentType ?? toPPIInstrumentType(order.category);
+        if (!instrumentType) {
+          return { ok: false, error: `PPI can't trade ${order.category}` };
+        }
+
+        const result = await client.placeOrder(
+          toPPIOrderRequest({
+            action: order.action,
+            instrumentType,
+            simbolo: order.symbol,
+            cantidad: order.quantity,
+            precio: order.price,
+            plazo: order.settlement,
+            validez: order.validUntil,
+            tipoOrden: order.orderType === "market" ? "precioMercado" : "precioLimite",
+          }),
+          accountNumber,
+          order.acceptedDisclaimers ?? []
+        );
+
+        return {
+          ok: result.ok,
+          orderId: result.orderId != null ? String(result.orderId) : undefined,
+          message: result.mensaje,
+          error: result.error,
+        };
+      },
+
+      async getAccounts() {
+        const accounts = await client.getAccounts();
+        return accounts
+          .filter((a) => a.AccountNumber)
+          .map((a) => ({
+            accountNumber: String(a.AccountNumber),
+            description: [a.AccountType, a.Currency].filter(Boolean).join(" "),
+          }));
+      },
+    };
+  },
+
+  isExpiredError: (error) => error instanceof PPITokenExpiredError,
+};
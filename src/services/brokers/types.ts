@@ -0,0 +1,125 @@
+// Broker adapter contract
+// Every broker the app syncs with implements BrokerAdapter; the generic
+// /api/brokers/[provider]/* routes and useAutoSync only talk to this shape,
+// and the trade routes place orders through it.
+
+import type { ZodType } from "zod";
+import type { AssetCategory, BrokerProvider, Currency, TransactionType } from "@/lib/constants";
+import type { ExternalTrade } from "@/lib/broker-history";
+
+export interface BrokerPosition {
+  ticker: string;
+  name: string;
+  category: AssetCategory;
+  currency: Currency;
+  quantity: number;
+  /** null when the broker doesn't report a cost basis (the ledger keeps it) */
+  averagePrice: number | null;
+  currentPrice: number;
+}
+
+export interface BrokerBalance {
+  currency: Currency;
+  /** Cash available to trade */
+  available: number;
+  /** Cash held by open orders */
+  committed: number;
+  total: number;
+}
+
+export interface BrokerInstrument {
+  symbol: string;
+  /** Broker market, where it has several (e.g. IOL's bCBA / nYSE) */
+  market?: string;
+  category?: string;
+}
+
+export interface BrokerQuote {
+  symbol: string;
+  price: number;
+  /** Daily change %, when the broker reports it */
+  change: number | null;
+}
+
+export interface BrokerOrderRequest {
+  action: TransactionType;
+  symbol: string;
+  category: AssetCategory;
+  /** Broker market (IOL's bCBA / nYSE) or quote asset (Binance's USDT / USDC) */
+  market?: string;
+  /** Broker's own instrument type, when the caller already has it (PPI) */
+  instrumentType?: string;
+  quantity: number;
+  price: number;
+  orderType: "limit" | "market";
+  settlement: "t0" | "t1" | "t2";
+  /** Validity date (YYYY-MM-DD) */
+  validUntil: string;
+  /** Terms the user accepted, for brokers that ask before placing (PPI) */
+  acceptedDisclaimers?: string[];
+}
+
+export interface BrokerOrderResult {
+  ok: boolean;
+  orderId?: string;
+  /** Broker's status for the order as placed */
+  status?: string;
+  /** Filled on placement, keyed like the history sync (Binance market orders) */
+  fills?: ExternalTrade[];
+  message?: string;
+  error?: string;
+}
+
+export interface BrokerOperationsPage {
+  trades: ExternalTrade[];
+  /** Stored on the connection and handed back on the next run */
+  cursor: object;
+  /** More history is left for the next run */
+  hasMore: boolean;
+}
+
+/** An account under one broker login (e.g. a PPI account number) */
+export interface BrokerSubAccount {
+  accountNumber: string;
+  /** Broker's description, e.g. account type and currency */
+  description: string;
+}
+
+export interface BrokerOperationsContext {
+  /** The user's synced assets (some brokers only list trades per symbol) */
+  assets: { ticker: string; category: AssetCategory }[];
+}
+
+/**
+ * A connected account. Sessions refresh expired tokens on their own;
+ * `credentials()` returns the current ones so callers can persist a refresh.
+ */
+export interface BrokerSession<C> {
+  /** Renew the access token now */
+  refresh(): Promise<void>;
+  credentials(): C;
+  getPositions(): Promise<BrokerPosition[]>;
+  getBalances(): Promise<BrokerBalance[]>;
+  /** Next slice of trade history since `cursor` (the last stored one, or null) */
+  getOperations(cursor: unknown, context: BrokerOperationsContext): Promise<BrokerOperationsPage>;
+  getQuotes(instruments: BrokerInstrument[]): Promise<BrokerQuote[]>;
+  placeOrder(order: BrokerOrderRequest): Promise<BrokerOrderResult>;
+  /** Accounts reachable with these credentials, for brokers with several per login */
+  getAccounts?(): Promise<BrokerSubAccount[]>;
+}
+
+/**
+ * @typeParam C - Credentials stored (encrypted) on the user connection
+ * @typeParam A - Body accepted by the connect form
+ */
+export interface BrokerAdapter<C = unknown, A = unknown> {
+  provider: BrokerProvider;
+  label: string;
+  authSchema: ZodType<A>;
+  /** Exchange the connect form for credentials; throws when rejected */
+  authenticate(input: A): Promise<C>;
+  /** Open a session, scoped to `accountNumber` when the login has several */
+  connect(credentials: C, accountNumber?: string): BrokerSession<C>;
+  /** The error means the user has to reconnect */
+  isExpiredError(error: unknown): boolean;
+}
@@ -2,12 +2,15 @@
  * Argentine macro data client.
  * Fetches key indicators from public APIs:
  *   - DolarAPI: Dollar rates (Blue, MEP, CCL, Official)
- *   - BCRA API: Interest rate, reserves, monthly CPI
+ *   - ArgentinaDatos: Historical official (BNA), blue, MEP, CCL and crypto rates
+ *   - BCRA API: Interest rate, reserves, monthly CPI, CER and UVA series
  *   - Ambito: Country risk (EMBI+)
  *
  * All fetches have individual error handling — partial data is returned.
  */
 
+import type { DolarCasa } from "@/lib/constants";
+
 export interface DollarRate {
   name: string;
   buy: number | null;
@@ -78,20 +81,171 @@ async function fetchDollarRates(): Promise<{ rates: DollarRate[]; errors: string
   return { rates, errors };
 }
 
-async function fetchBcraVariable(idVariable: number, label: string): Promise<{ value: number | null; error: string | null }> {
+export interface OfficialRate {
+  buy: number;
+  sell: number;
+  /** Quote date (YYYY-MM-DD); earlier than requested on weekends/holidays */
+  date: string;
+}
+
+interface ArgentinaDatosQuote {
+  compra: number;
+  venta: number;
+  fecha: string;
+}
+
+/**
+ * Official BNA USD/ARS quote in force on a given date (YYYY-MM-DD).
+ * Walks back up to a week to find the last business day. Dates from today
+ * onward use the live DolarAPI quote. Returns null if no source answers.
+ */
+export async function fetchOfficialRate(date: string): Promise<OfficialRate | null> {
+  const today = new Date().toISOString().slice(0, 10);
+
+  if (date >= today) {
+    try {
+      const res = await fetchWithTimeout("https://dolarapi.com/v1/dolares/oficial");
+      if (!res.ok) return null;
+      const data: DolarApiResponse = await res.json();
+      if (!data.compra || !data.venta) return null;
+      return { buy: data.compra, sell: data.venta, date: today };
+    } catch {
+      return null;
+    }
+  }
+
+  const day = new Date(`${date}T12:00:00Z`);
+  for (let i = 0; i < 7; i++) {
+    const [y, m, d] = day.toISOString().slice(0, 10).split("-");
+    try {
+      const res = await fetchWithTimeout(
+        `https://api.argentinadatos.com/v1/cotizaciones/dolares/oficial/${y}/${m}/${d}`
+      );
+      if (res.ok) {
+        const data: ArgentinaDatosQuote = await res.json();
+        if (data?.compra && data?.venta) {
+          return { buy: data.compra, sell: data.venta, date: `${y}-${m}-${d}` };
+        }
+      }
+    } catch {
+      // Try the previous day
+    }
+    day.setUTCDate(day.getUTCDate() - 1);
+  }
+
+  return null;
+}
+
+export interface DatedRate {
+  /** YYYY-MM-DD */
+  date: string;
+  sell: number;
+}
+
+/**
+ * Full daily history of a USD/ARS sell rate, oldest first ("bolsa" is MEP;
+ * see DOLAR_CASAS for the valuation rates). Returns [] if the source fails.
+ */
+export async function fetchDollarRateHistory(casa: DolarCasa): Promise<DatedRate[]> {
   try {
     const res = await fetchWithTimeout(
-      `https://api.bcra.gob.ar/estadisticas/v2.0/datosvariable/${idVariable}/1/1`,
-      5000
+      `https://api.argentinadatos.com/v1/cotizaciones/dolares/${casa}`,
+      10000
     );
-    if (!res.ok) return { value: null, error: `${label}: HTTP ${res.status}` };
+    if (!res.ok) return [];
+    const data: ArgentinaDatosQuote[] = await res.json();
+    return data
+      .filter((q) => q?.fecha && q.venta > 0)
+      .map((q) => ({ date: q.fecha.slice(0, 10), sell: q.venta }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch {
+    return [];
+  }
+}
+
+export interface DatedValue {
+  /** YYYY-MM-DD */
+  date: string;
+  value: number;
+}
+
+/** BCRA "principales variables" ids */
+export const BCRA_VARIABLES = {
+  interestRate: 6,
+  reserves: 1,
+  monthlyCpi: 27,
+  cer: 30,
+  uva: 31,
+} as const;
+
+interface BcraResult {
+  fecha: string;
+  valor: number | string;
+}
+
+/**
+ * A BCRA variable: the latest value, or every daily value between `range`
+ * dates (YYYY-MM-DD, inclusive; the API caps a request at one year).
+ */
+export async function fetchBcraVariable(
+  idVariable: number,
+  label: string,
+  range?: { from: string; to: string }
+): Promise<{ value: number | null; series: DatedValue[]; error: string | null }> {
+  const path = range ? `${range.from}/${range.to}` : "1/1";
+  try {
+    const res = await fetchWithTimeout(
+      `https://api.bcra.gob.ar/estadisticas/v2.0/datosvariable/${idVariable}/${path}`,
+      range ? 10000 : 5000
+    );
+    if (!res.ok) return { value: null, series: [], error: `${label}: HTTP ${res.status}` };
     const data = await res.json();
-    const results = data?.results;
-    if (!results || results.length === 0) return { value: null, error: `${label}: no data` };
-    return { value: parseFloat(results[results.length - 1].valor), error: null };
+    const results: BcraResult[] | undefined = data?.results;
+    if (!results || results.length === 0) {
+      return { value: null, series: [], error: `${label}: no data` };
+    }
+    const series = results
+      .map((r) => ({ date: String(r.fecha).slice(0, 10), value: parseFloat(String(r.valor)) }))
+      .filter((r) => Number.isFinite(r.value))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return {
+      value: parseFloat(String(results[results.length - 1].valor)),
+      series,
+      error: null,
+    };
   } catch (err) {
-    return { value: null, error: `${label}: ${err}` };
+    return { value: null, series: [], error: `${label}: ${err}` };
+  }
+}
+
+/**
+ * Daily values of a BCRA variable over any range, fetched one year at a
+ * time. Stops at the first failing chunk so callers can resume later.
+ */
+export async function fetchBcraSeries(
+  idVariable: number,
+  label: string,
+  from: string,
+  to: string
+): Promise<{ series: DatedValue[]; error: string | null }> {
+  const series: DatedValue[] = [];
+  let start = from;
+  while (start <= to) {
+    const chunkEnd = new Date(`${start}T00:00:00Z`);
+    chunkEnd.setUTCDate(chunkEnd.getUTCDate() + 364);
+    const yearEnd = chunkEnd.toISOString().slice(0, 10);
+    const end = yearEnd < to ? yearEnd : to;
+
+    const result = await fetchBcraVariable(idVariable, label, { from: start, to: end });
+    if (result.error && !result.error.endsWith("no data")) {
+      return { series, error: result.error };
+    }
+    series.push(...result.series);
+
+    chunkEnd.setUTCDate(chunkEnd.getUTCDate() + 1);
+    start = chunkEnd.toISOString().slice(0, 10);
   }
+  return { series, error: null };
 }
 
 async function fetchCountryRisk(): Promise<{ value: number | null; error: string | null }> {
@@ -117,9 +271,9 @@ export async function fetchMacroData(): Promise<MacroData> {
     countryRiskResult,
   ] = await Promise.all([
     fetchDollarRates(),
-    fetchBcraVariable(6, "Interest rate"),    // Tasa de política monetaria
-    fetchBcraVariable(1, "Reserves"),          // Reservas internacionales
-    fetchBcraVariable(27, "Monthly CPI"),      // IPC mensual
+    fetchBcraVariable(BCRA_VARIABLES.interestRate, "Interest rate"), // Tasa de política monetaria
+    fetchBcraVariable(BCRA_VARIABLES.reserves, "Reserves"),          // Reservas internacionales
+    fetchBcraVariable(BCRA_VARIABLES.monthlyCpi, "Monthly CPI"),     // IPC mensual
     fetchCountryRisk(),
   ]);
 
@@ -3,6 +3,7 @@ import { PPIClient, PPITokenExpiredError } from "./client";
 import type {
   PPICredentials,
   PPIBalancesAndPositions,
+  PPIOrderRequest,
 } from "./types";
 
 // ---------------------------------------------------------------------------
@@ -22,6 +23,21 @@ function makeCredentials(
   };
 }
 
+/** Build a limit buy order */
+function makeOrder(overrides: Partial<PPIOrderRequest> = {}): PPIOrderRequest {
+  return {
+    ticker: "GGAL",
+    instrumentType: "ACCIONES",
+    operation: "COMPRA",
+    quantity: 10,
+    price: 3500,
+    settlement: "A-48HS",
+    operationType: "PRECIO-LIMITE",
+    operationMaxDate: "2026-03-10",
+    ...overrides,
+  };
+}
+
 /** Shorthand for building a mock Response */
 function mockResponse(
   body: unknown,
@@ -342,6 +358,137 @@ describe("PPIClient", () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Orders
+  // -----------------------------------------------------------------------
+  describe("placeOrder", () => {
+    it("budgets, then confirms with the disclaimers the user accepted", async () => {
+      const client = new PPIClient(makeCredentials());
+
+      fetchMock
+        .mockResolvedValueOnce(
+          mockResponse({ Amount: 35000, Disclaimers: [{ Code: "RIESGO", Description: "..." }] })
+        )
+        .mockResolvedValueOnce(mockResponse({ Id: 9876, Message: "Orden ingresada" }));
+
+      const result = await client.placeOrder(makeOrder(), "ACC-1", ["RIESGO"]);
+
+      expect(result).toEqual({ ok: true, orderId: 9876, mensaje: "Orden ingresada" });
+      expect(fetchMock.mock.calls[0][0]).toContain("/api/1.0/OrderBook/Budget");
+      expect(fetchMock.mock.calls[1][0]).toContain("/api/1.0/OrderBook/Confirm");
+
+      const confirmBody = JSON.parse(fetchMock.mock.calls[1][1].body as string);
+      expect(confirmBody).toMatchObject({
+        accountNumber: "ACC-1",
+        ticker: "GGAL",
+        operation: "COMPRA",
+        quantity: 10,
+        settlement: "A-48HS",
+        disclaimers: [{ code: "RIESGO", accepted: true }],
+      });
+    });
+
+    it("does not confirm when a disclaimer was not accepted", async () => {
+      const client = new PPIClient(makeCredentials());
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({
+          Disclaimers: [
+            { Code: "RIESGO", Description: "..." },
+            { Code: "COMISION", Description: "..." },
+          ],
+        })
+      );
+
+      const result = await client.placeOrder(makeOrder(), "ACC-1", ["RIESGO"]);
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toContain("COMISION");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns ok: false instead of throwing when PPI rejects the order", async () => {
+      const client = new PPIClient(makeCredentials());
+
+      fetchMock.mockResolvedValueOnce(mockResponse("Saldo insuficiente", { status: 400 }));
+
+      const result = await client.placeOrder(makeOrder({ operation: "VENTA" }), "ACC-1", []);
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toContain("PPI API error: 400");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("getBudget", () => {
+    it("prices the order without confirming it", async () => {
+      const client = new PPIClient(makeCredentials());
+
+      fetchMock.mockResolvedValueOnce(
+        mockResponse({ Amount: 35000, Commissions: 210, Disclaimers: [] })
+      );
+
+      const budget = await client.getBudget(makeOrder(), "ACC-1");
+
+      expect(budget).toEqual({ Amount: 35000, Commissions: 210, Disclaimers: [] });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][0]).toContain("/api/1.0/OrderBook/Budget");
+    });
+  });
+
+  describe("cancelOrder", () => {
+    it("posts the order id to the cancel endpoint", async () => {
+      const client = new PPIClient(makeCredentials());
+
+      fetchMock.mockResolvedValueOnce(mockResponse({}));
+
+      const result = await client.cancelOrder(9876, "ACC-1");
+
+      expect(result.ok).toBe(true);
+      expect(fetchMock.mock.calls[0][0]).toContain("/api/1.0/OrderBook/Cancel");
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body as string)).toEqual({
+        accountNumber: "ACC-1",
+        id: 9876,
+      });
+    });
+
+    it("returns ok: false when the cancel fails", async () => {
+      const client = new PPIClient(makeCredentials());
+
+      fetchMock.mockResolvedValueOnce(mockResponse("Orden ejecutada", { status: 409 }));
+
+      const result = await client.cancelOrder(9876, "ACC-1");
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toContain("409");
+    });
+  });
+
+  describe("getOrderStatus", () => {
+    it("requests the instruction detail for the order", async () => {
+      const client = new PPIClient(makeCredentials());
+      const detail = {
+        Id: 9876,
+        Ticker: "GGAL",
+        Operation: "COMPRA",
+        Status: "PARCIALMENTE EJECUTADA",
+        Quantity: 10,
+        ExecutedQuantity: 4,
+        Price: 3500,
+        Date: "2026-03-10T14:00:00",
+      };
+
+      fetchMock.mockResolvedValueOnce(mockResponse(detail));
+
+      const result = await client.getOrderStatus(9876, "ACC-1");
+
+      expect(result).toEqual(detail);
+      expect(fetchMock.mock.calls[0][0]).toContain(
+        "/api/1.0/OrderBook/InstructionDetail?accountNumber=ACC-1&id=9876"
+      );
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Error response parsing
   // -----------------------------------------------------------------------
@@ -6,6 +6,11 @@ import type {
   PPIQuote,
   PPIInstrument,
   PPIAccount,
+  PPIMovement,
+  PPIOrderRequest,
+  PPIOrderResponse,
+  PPIBudgetResponse,
+  PPIOrderDetail,
 } from "./types";
 
 const PPI_API_BASE =
@@ -108,7 +113,7 @@ export class PPIClient {
   /**
    * Refresh the access token
    */
-  private async refreshToken(): Promise<void> {
+  async refreshToken(): Promise<void> {
     if (!this.credentials.refreshToken) {
       throw new PPITokenExpiredError();
     }
@@ -243,6 +248,25 @@ export class PPIClient {
     return this.request<PPIAccount[]>("/api/1.0/Account/Accounts");
   }
 
+  /**
+   * Get account movements (trades, dividends, transfers) between two dates
+   */
+  async getMovements(
+    from: Date,
+    to: Date,
+    accountNumber?: string
+  ): Promise<PPIMovement[]> {
+    const acct = accountNumber || await this.getAccountNumber();
+    const params = new URLSearchParams({
+      accountNumber: acct,
+      dateFrom: from.toISOString().split("T")[0],
+      dateTo: to.toISOString().split("T")[0],
+    });
+    return this.request<PPIMovement[]>(
+      `/api/1.0/Account/Movements?${params.toString()}`
+    );
+  }
+
   /**
    * Get real-time quote for a single instrument
    */
@@ -300,6 +324,122 @@ export class PPIClient {
     );
   }
 
+  /** Order body shared by the budget and confirm calls */
+  private orderBody(order: PPIOrderRequest, accountNumber: string) {
+    return {
+      accountNumber,
+      ticker: order.ticker,
+      instrumentType: order.instrumentType,
+      operation: order.operation,
+      quantity: order.quantity,
+      price: order.price,
+      quantityType: "PAPELES",
+      operationType: order.operationType,
+      operationTerm: "HASTA-FECHA",
+      operationMaxDate: order.operationMaxDate,
+      settlement: order.settlement,
+    };
+  }
+
+  /**
+   * Price an order without placing it: amount, commissions and the
+   * disclaimers the user has to accept before it can be confirmed.
+   */
+  async getBudget(order: PPIOrderRequest, accountNumber?: string): Promise<PPIBudgetResponse> {
+    const acct = accountNumber || await this.getAccountNumber();
+    return this.request<PPIBudgetResponse>("/api/1.0/OrderBook/Budget", {
+      method: "POST",
+      body: JSON.stringify(this.orderBody(order, acct)),
+    });
+  }
+
+  /**
+   * Place an order. PPI requires a fresh budget first; the order is only
+   * confirmed when every disclaimer on it is among `acceptedDisclaimers`,
+   * the codes the user accepted on a budget shown to them.
+   */
+  async placeOrder(
+    order: PPIOrderRequest,
+    accountNumber: string | undefined,
+    acceptedDisclaimers: string[]
+  ): Promise<PPIOrderResponse> {
+    try {
+      const acct = accountNumber || await this.getAccountNumber();
+      const body = this.orderBody(order, acct);
+
+      const budget = await this.request<PPIBudgetResponse>("/api/1.0/OrderBook/Budget", {
+        method: "POST",
+        body: JSON.stringify(body),
+      });
+
+      const disclaimers = budget.Disclaimers || [];
+      const pending = disclaimers.filter((d) => !acceptedDisclaimers.includes(d.Code));
+      if (pending.length > 0) {
+        return {
+          ok: false,
+          error: `Condiciones de PPI sin aceptar: ${pending.map((d) => d.Code).join(", ")}`,
+        };
+      }
+
+      const result = await this.request<Record<string, unknown>>("/api/1.0/OrderBook/Confirm", {
+        method: "POST",
+        body: JSON.stringify({
+          ...body,
+          disclaimers: disclaimers.map((d) => ({ code: d.Code, accepted: true })),
+        }),
+      });
+
+      const id = result.Id ?? result.id;
+      return {
+        ok: true,
+        orderId: id != null ? Number(id) : undefined,
+        mensaje: String(result.Message ?? result.message ?? (order.operation === "COMPRA"
+          ? "Orden de compra enviada"
+          : "Orden de venta enviada")),
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Error al enviar orden",
+      };
+    }
+  }
+
+  /**
+   * Cancel an open order
+   */
+  async cancelOrder(orderId: number, accountNumber?: string): Promise<PPIOrderResponse> {
+    try {
+      const acct = accountNumber || await this.getAccountNumber();
+      await this.request<unknown>("/api/1.0/OrderBook/Cancel", {
+        method: "POST",
+        body: JSON.stringify({ accountNumber: acct, id: orderId }),
+      });
+
+      return {
+        ok: true,
+        orderId,
+        mensaje: `Orden ${orderId} cancelada`,
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Error al cancelar orden",
+      };
+    }
+  }
+
+  /**
+   * Get the current state of one order
+   */
+  async getOrderStatus(orderId: number, accountNumber?: string): Promise<PPIOrderDetail> {
+    const acct = accountNumber || await this.getAccountNumber();
+    const params = new URLSearchParams({ accountNumber: acct, id: String(orderId) });
+    return this.request<PPIOrderDetail>(
+      `/api/1.0/OrderBook/InstructionDetail?${params.toString()}`
+    );
+  }
+
   /**
    * Get current credentials (for storage after token refresh)
    */
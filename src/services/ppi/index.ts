@@ -10,4 +10,13 @@ export type {
   PPIHistoricalPrice,
   PPIInstrument,
   PPIAccount,
+  PPIMovement,
+  PPIOperation,
+  PPISettlement,
+  PPIOperationType,
+  PPIOrderRequest,
+  PPIOrderResponse,
+  PPIDisclaimer,
+  PPIBudgetResponse,
+  PPIOrderDetail,
 } from "./types";
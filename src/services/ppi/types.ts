@@ -84,3 +84,67 @@ export interface PPIAccount {
   AccountType: string;
   Currency: string;
 }
+
+export interface PPIMovement {
+  Id?: string | number;
+  AgreementDate: string; // Trade date
+  SettlementDate?: string;
+  Description: string; // "COMPRA GGAL" | "VENTA AL30" | "DIVIDENDO" ...
+  MovementType?: string;
+  Ticker?: string;
+  InstrumentType?: string;
+  Quantity?: number;
+  Price?: number;
+  Amount: number;
+  Currency: string;
+}
+
+// Trading (OrderBook endpoints)
+
+export type PPIOperation = "COMPRA" | "VENTA";
+export type PPISettlement = "INMEDIATA" | "A-24HS" | "A-48HS";
+export type PPIOperationType = "PRECIO-LIMITE" | "PRECIO-MERCADO";
+
+export interface PPIOrderRequest {
+  ticker: string;
+  instrumentType: string; // "ACCIONES" | "CEDEARS" | "BONOS" ...
+  operation: PPIOperation;
+  quantity: number;
+  price: number; // Ignored for market orders
+  settlement: PPISettlement;
+  operationType: PPIOperationType;
+  operationMaxDate: string; // Validity date (YYYY-MM-DD)
+}
+
+export interface PPIOrderResponse {
+  ok: boolean;
+  orderId?: number; // PPI order id if accepted
+  mensaje?: string;
+  error?: string;
+}
+
+export interface PPIDisclaimer {
+  Code: string;
+  Description: string;
+}
+
+export interface PPIBudgetResponse {
+  Amount?: number;
+  Commissions?: number;
+  Disclaimers?: PPIDisclaimer[];
+}
+
+export interface PPIOrderDetail {
+  Id: number;
+  ExternalId?: string;
+  Ticker: string;
+  Operation: string; // "COMPRA" | "VENTA"
+  Status: string; // "PENDIENTE" | "PARCIALMENTE EJECUTADA" | "EJECUTADA" | "CANCELADA" | "RECHAZADA" | "VENCIDA"
+  Quantity: number;
+  ExecutedQuantity?: number;
+  Price: number;
+  ExecutedPrice?: number;
+  Settlement?: string;
+  OperationMaxDate?: string;
+  Date: string;
+}
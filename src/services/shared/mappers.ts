@@ -1,7 +1,8 @@
 import type { BrokerPortfolioAsset } from "@/types/portfolio";
+import type { PPIOrderRequest } from "@/services/ppi";
 
 /**
- * Shared mapping functions for normalizing broker data (IOL, PPI)
+ * Shared mapping functions for normalizing broker data (IOL, PPI, Binance)
  * into our canonical portfolio types.
  */
 
@@ -102,6 +103,16 @@ export function inferCurrencyFromMarket(mercado: string): "USD" | "ARS" {
   return "ARS";
 }
 
+/**
+ * IOL market to trade or quote an asset on, the inverse of the above.
+ *
+ * Stocks held in USD are US listings; Argentine stocks (ARS) and CEDEARs
+ * trade on BCBA.
+ */
+export function toIOLMarket(category: string, currency: "USD" | "ARS"): "nYSE" | "bCBA" {
+  return category === "stock" && currency === "USD" ? "nYSE" : "bCBA";
+}
+
 // ---------------------------------------------------------------------------
 // Operation type mapping (IOL transactions)
 // ---------------------------------------------------------------------------
@@ -118,3 +129,113 @@ export function mapOperationType(tipo: string): "buy" | "sell" | null {
   if (t.includes("venta")) return "sell";
   return null;
 }
+
+// ---------------------------------------------------------------------------
+// Order mapping (PPI trading)
+// ---------------------------------------------------------------------------
+
+/**
+ * Map our category to the PPI instrument type used to quote and trade it.
+ *
+ * Returns null for categories PPI can't trade (crypto, cash).
+ */
+export function toPPIInstrumentType(
+  category: BrokerPortfolioAsset["category"] | string
+): "ACCIONES" | "CEDEARS" | null {
+  if (category === "cedear") return "CEDEARS";
+  if (category === "stock") return "ACCIONES";
+  return null;
+}
+
+/**
+ * Map an IOL-style settlement period (t0/t1/t2) to PPI's settlement.
+ */
+export function toPPISettlement(
+  plazo: "t0" | "t1" | "t2"
+): "INMEDIATA" | "A-24HS" | "A-48HS" {
+  if (plazo === "t0") return "INMEDIATA";
+  if (plazo === "t1") return "A-24HS";
+  return "A-48HS";
+}
+
+/**
+ * Build the PPI order for a trade given in IOL-style fields, as the PPI
+ * trade routes receive it.
+ */
+export function toPPIOrderRequest(trade: {
+  action: "buy" | "sell";
+  instrumentType: string;
+  simbolo: string;
+  cantidad: number;
+  precio: number;
+  plazo: "t0" | "t1" | "t2";
+  validez: string;
+  tipoOrden: "precioLimite" | "precioMercado";
+}): PPIOrderRequest {
+  return {
+    ticker: trade.simbolo.toUpperCase(),
+    instrumentType: trade.instrumentType,
+    operation: trade.action === "buy" ? "COMPRA" : "VENTA",
+    quantity: trade.cantidad,
+    price: trade.precio,
+    settlement: toPPISettlement(trade.plazo),
+    operationType: trade.tipoOrden === "precioMercado" ? "PRECIO-MERCADO" : "PRECIO-LIMITE",
+    operationMaxDate: trade.validez,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Crypto names (Binance)
+// ---------------------------------------------------------------------------
+
+const CRYPTO_NAMES: Record<string, string> = {
+  BTC: "Bitcoin",
+  ETH: "Ethereum",
+  BNB: "Binance Coin",
+  SOL: "Solana",
+  XRP: "Ripple",
+  ADA: "Cardano",
+  DOGE: "Dogecoin",
+  DOT: "Polkadot",
+  MATIC: "Polygon",
+  LINK: "Chainlink",
+  AVAX: "Avalanche",
+  UNI: "Uniswap",
+  ATOM: "Cosmos",
+  LTC: "Litecoin",
+  USDT: "Tether USD",
+  USDC: "USD Coin",
+  BUSD: "Binance USD",
+  DAI: "Dai Stablecoin",
+  SHIB: "Shiba Inu",
+  ARB: "Arbitrum",
+  OP: "Optimism",
+  APT: "Aptos",
+  NEAR: "NEAR Protocol",
+  FIL: "Filecoin",
+  ICP: "Internet Computer",
+  VET: "VeChain",
+  ALGO: "Algorand",
+  SAND: "The Sandbox",
+  MANA: "Decentraland",
+  AXS: "Axie Infinity",
+  AAVE: "Aave",
+  CRV: "Curve DAO",
+  MKR: "Maker",
+  SNX: "Synthetix",
+  COMP: "Compound",
+  SUSHI: "SushiSwap",
+  YFI: "yearn.finance",
+  "1INCH": "1inch Network",
+  ENS: "Ethereum Name Service",
+  LDO: "Lido DAO",
+  RPL: "Rocket Pool",
+  FDUSD: "First Digital USD",
+};
+
+/**
+ * Display name for a crypto asset, falling back to the symbol.
+ */
+export function cryptoName(symbol: string): string {
+  return CRYPTO_NAMES[symbol.toUpperCase()] || symbol;
+}
@@ -327,3 +327,126 @@ export async function getBatchPricesAtPeriod(
 
   return results;
 }
+
+// Get the last close on or before a date, in the requested currency.
+// Symbols quoted in another currency are skipped (e.g. the US share behind an
+// ARS-priced CEDEAR), so the result can be multiplied by the held quantity.
+export async function getCloseOnDate(
+  ticker: string,
+  category: string,
+  date: Date,
+  currency: string
+): Promise<number | null> {
+  const symbols = getYahooSymbols(ticker, category).filter(
+    (symbol) => inferCurrencyFromSymbol(symbol) === currency
+  );
+  const period1 = new Date(date);
+  period1.setDate(period1.getDate() - 10); // Cover weekends and holidays
+  const period2 = new Date(date);
+  period2.setDate(period2.getDate() + 1);
+
+  for (const symbol of symbols) {
+    try {
+      const result = await yahooFinance.chart(symbol, {
+        period1,
+        period2,
+        interval: "1d",
+      });
+
+      const quotes = ((result as ChartResult).quotes ?? []).filter(
+        (q) => q.close != null && q.date.getTime() <= period2.getTime()
+      );
+      if (quotes.length === 0) continue;
+
+      return quotes[quotes.length - 1].close ?? null;
+    } catch {
+      // Try next symbol
+    }
+  }
+
+  return null;
+}
+
+// Daily closes (YYYY-MM-DD, oldest first) from a date on, in the requested
+// currency like getCloseOnDate. Empty when no matching symbol has data.
+export async function getDailyCloses(
+  ticker: string,
+  category: string,
+  since: Date,
+  currency: string
+): Promise<{ date: string; close: number }[]> {
+  const symbols = getYahooSymbols(ticker, category).filter(
+    (symbol) => inferCurrencyFromSymbol(symbol) === currency
+  );
+  const period1 = new Date(since);
+  period1.setDate(period1.getDate() - 10); // A close to carry into the first days
+
+  for (const symbol of symbols) {
+    try {
+      const result = await yahooFinance.chart(symbol, {
+        period1,
+        interval: "1d",
+      });
+
+      const quotes = ((result as ChartResult).quotes ?? []).filter((q) => q.close != null);
+      if (quotes.length === 0) continue;
+
+      return quotes.map((q) => ({
+        date: q.date.toISOString().slice(0, 10),
+        close: q.close as number,
+      }));
+    } catch {
+      // Try next symbol
+    }
+  }
+
+  return [];
+}
+
+export interface DividendPayment {
+  date: Date;
+  /** Per share, in the listing currency */
+  amount: number;
+}
+
+type DividendChartResult = {
+  events?: { dividends?: { date: Date; amount: number }[] };
+};
+
+// Dividends paid over the last `years`, oldest first, from the first symbol
+// listed in the requested currency (the US share for a CEDEAR, .BA for a
+// local stock). Empty when the company doesn't pay or Yahoo has no data.
+export async function getDividendHistory(
+  ticker: string,
+  category: string,
+  currency: string,
+  years = 2
+): Promise<DividendPayment[]> {
+  const symbols = getYahooSymbols(ticker, category).filter(
+    (symbol) => inferCurrencyFromSymbol(symbol) === currency
+  );
+  const period1 = new Date();
+  period1.setFullYear(period1.getFullYear() - years);
+
+  for (const symbol of symbols) {
+    try {
+      const result = await yahooFinance.chart(symbol, {
+        period1,
+        interval: "1d",
+        events: "div",
+      });
+
+      const dividends = (result as DividendChartResult).events?.dividends ?? [];
+      if (dividends.length === 0) continue;
+
+      return dividends
+        .filter((d) => d.amount > 0)
+        .map((d) => ({ date: d.date, amount: d.amount }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+    } catch {
+      // Try next symbol
+    }
+  }
+
+  return [];
+}
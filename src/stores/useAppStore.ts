@@ -3,6 +3,8 @@
 import { create } from "zustand";
 import { persist, devtools } from "zustand/middleware";
 import type { Currency, AssetCategory } from "@/lib/constants";
+import type { ReturnMode } from "@/lib/inflation";
+import type { AccountView } from "@/lib/accounts";
 
 // ── Types ───────────────────────────────────────────────────────────────────
 
@@ -19,6 +21,9 @@ interface Preferences {
   compactTable: boolean; // Dense rows vs. comfortable
   privacyMode: boolean; // Blur financial values for public use
   sidebarPinned: boolean; // Keep sidebar expanded
+  returnMode: ReturnMode; // Nominal or CER/UVA-deflated P&L for ARS positions
+  accountFilter: string; // "all" or one broker account (connection id)
+  accountView: AccountView; // Merge a ticker held in several accounts, or list each
 }
 
 interface AppState {
@@ -28,6 +33,9 @@ interface AppState {
   setDefaultCategory: (category: AssetCategory) => void;
   toggleCompactTable: () => void;
   togglePrivacyMode: () => void;
+  setReturnMode: (mode: ReturnMode) => void;
+  setAccountFilter: (accountId: string) => void;
+  setAccountView: (view: AccountView) => void;
 
   // ── Sync Status ──
   sync: SyncStatus;
@@ -39,6 +47,7 @@ interface AppState {
   isAssetDialogOpen: boolean;
   isTransactionDialogOpen: boolean;
   isPriceAlertsDialogOpen: boolean;
+  isImportDialogOpen: boolean;
   selectedAssetId: string | null;
   openAssetDialog: () => void;
   closeAssetDialog: () => void;
@@ -46,6 +55,8 @@ interface AppState {
   closeTransactionDialog: () => void;
   openPriceAlertsDialog: () => void;
   closePriceAlertsDialog: () => void;
+  openImportDialog: () => void;
+  closeImportDialog: () => void;
 
   // ── Sidebar ──
   sidebarHovered: boolean;
@@ -69,6 +80,9 @@ export const useAppStore = create<AppState>()(
           compactTable: true, // Default to compact mode
           privacyMode: false,
           sidebarPinned: false,
+          returnMode: "nominal",
+          accountFilter: "all",
+          accountView: "consolidated",
         },
         setDisplayCurrency: (currency) =>
           set(
@@ -108,6 +122,30 @@ export const useAppStore = create<AppState>()(
             false,
             "togglePrivacyMode"
           ),
+        setReturnMode: (mode) =>
+          set(
+            (s) => ({
+              preferences: { ...s.preferences, returnMode: mode },
+            }),
+            false,
+            "setReturnMode"
+          ),
+        setAccountFilter: (accountId) =>
+          set(
+            (s) => ({
+              preferences: { ...s.preferences, accountFilter: accountId },
+            }),
+            false,
+            "setAccountFilter"
+          ),
+        setAccountView: (view) =>
+          set(
+            (s) => ({
+              preferences: { ...s.preferences, accountView: view },
+            }),
+            false,
+            "setAccountView"
+          ),
 
         // ── Sync Status ──
         sync: {
@@ -148,6 +186,7 @@ export const useAppStore = create<AppState>()(
         isAssetDialogOpen: false,
         isTransactionDialogOpen: false,
         isPriceAlertsDialogOpen: false,
+        isImportDialogOpen: false,
         selectedAssetId: null,
         openAssetDialog: () =>
           set({ isAssetDialogOpen: true }, false, "openAssetDialog"),
@@ -172,6 +211,10 @@ export const useAppStore = create<AppState>()(
           set({ isPriceAlertsDialogOpen: true }, false, "openPriceAlertsDialog"),
         closePriceAlertsDialog: () =>
           set({ isPriceAlertsDialogOpen: false }, false, "closePriceAlertsDialog"),
+        openImportDialog: () =>
+          set({ isImportDialogOpen: true }, false, "openImportDialog"),
+        closeImportDialog: () =>
+          set({ isImportDialogOpen: false }, false, "closeImportDialog"),
 
         // ── Sidebar ──
         sidebarHovered: false,
@@ -9,7 +9,7 @@
  * or computed in specific contexts.
  */
 export interface PortfolioAsset {
-  /** Unique identifier (e.g. ticker symbol or "binance-BTC", "ppi-GGAL") */
+  /** Unique identifier (e.g. "iol-<account id>-GGAL", "binance-<account id>-BTC") */
   id?: string;
   /** Ticker symbol (e.g. "GGAL", "BTC", "AAPL") */
   ticker: string;
@@ -35,6 +35,10 @@ export interface PortfolioAsset {
   allocation?: number;
   /** Units locked in open orders (Binance-specific) */
   locked?: number;
+  /** Broker account (user connection id) holding the position */
+  accountId?: string;
+  /** The account's name, e.g. "IOL" or "IOL Family" */
+  accountLabel?: string;
 }
 
 /**
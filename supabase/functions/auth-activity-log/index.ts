@@ -269,6 +269,21 @@ serve(async (req) => {
 
     const isNewDevice = !previous || previous.length === 0;
 
+    // Security events show in the notification center regardless of email prefs
+    if (isNewDevice) {
+      const { error: notifyError } = await supabase.from("notifications").insert({
+        user_id: userId,
+        kind: "security",
+        title: "Nuevo inicio de sesion",
+        body: `Desde ${ip} (${userAgent.length > 80 ? userAgent.substring(0, 80) + "..." : userAgent})`,
+        link: "/settings",
+        metadata: { event_id: insertedId, event_type: eventType },
+      });
+      if (notifyError) {
+        console.error("[auth-activity-log] Failed to record notification:", notifyError.message);
+      }
+    }
+
     let emailSent = false;
 
     if (isNewDevice && email) {
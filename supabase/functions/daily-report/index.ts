@@ -15,49 +15,90 @@ const SENDER_EMAIL = Deno.env.get("SENDER_EMAIL") || "tomaspinolini2003@gmail.co
 const SENDER_NAME = Deno.env.get("SENDER_NAME") || "Slock";
 const APP_URL = Deno.env.get("APP_URL") || "https://invblock.vercel.app";
 const FALLBACK_USD_ARS_RATE = 1250;
+const DEFAULT_VALUATION_RATE = "blue";
+
+// Mirrors VALUATION_RATE_PAIRS in src/lib/constants.ts
+const VALUATION_RATE_PAIRS: Record<string, string> = {
+  oficial: "USD_ARS_OFICIAL",
+  mep: "USD_ARS_MEP",
+  ccl: "USD_ARS_CCL",
+  blue: "USD_ARS_BLUE",
+  crypto: "USD_ARS_CRYPTO",
+};
+
+interface UsdArsRate {
+  valuationRate: string;
+  rate: number;
+}
 
-// Fetch USD/ARS sell rate from exchange_rates table, fallback to hardcoded rate
-async function getUsdArsRate(
+// Fetch every stored USD/ARS sell rate from exchange_rates, keyed by valuation rate
+async function getUsdArsRates(
   supabase: ReturnType<typeof createClient>
-): Promise<number> {
+): Promise<Map<string, number>> {
+  const rates = new Map<string, number>();
   try {
     const { data, error } = await supabase
       .from("exchange_rates")
-      .select("sell_rate, fetched_at")
-      .eq("pair", "USD_ARS_BLUE")
-      .single();
+      .select("pair, sell_rate, fetched_at")
+      .in("pair", Object.values(VALUATION_RATE_PAIRS));
 
     if (error || !data) {
-      console.warn(
-        `No exchange rate found, using fallback: ${FALLBACK_USD_ARS_RATE}`
-      );
-      return FALLBACK_USD_ARS_RATE;
-    }
-
-    const rate = parseFloat(data.sell_rate);
-    if (!rate || rate <= 0) {
-      console.warn(
-        `Invalid exchange rate value, using fallback: ${FALLBACK_USD_ARS_RATE}`
-      );
-      return FALLBACK_USD_ARS_RATE;
+      console.warn(`No exchange rates found, using fallback: ${FALLBACK_USD_ARS_RATE}`);
+      return rates;
     }
 
-    // Warn if rate is stale (> 24h old)
-    const fetchedAt = new Date(data.fetched_at);
-    const ageMs = Date.now() - fetchedAt.getTime();
-    if (ageMs > 24 * 60 * 60 * 1000) {
-      console.warn(
-        `Exchange rate is stale (${Math.round(ageMs / 3600000)}h old), using anyway: ${rate}`
-      );
-    } else {
-      console.log(`Using USD/ARS rate: ${rate} (fetched ${Math.round(ageMs / 60000)}m ago)`);
+    for (const [valuationRate, pair] of Object.entries(VALUATION_RATE_PAIRS)) {
+      const row = (data as { pair: string; sell_rate: string; fetched_at: string }[])
+        .find((r) => r.pair === pair);
+      const rate = row ? parseFloat(row.sell_rate) : 0;
+      if (!row || !rate || rate <= 0) continue;
+
+      // Warn if rate is stale (> 24h old)
+      const ageMs = Date.now() - new Date(row.fetched_at).getTime();
+      if (ageMs > 24 * 60 * 60 * 1000) {
+        console.warn(
+          `${pair} is stale (${Math.round(ageMs / 3600000)}h old), using anyway: ${rate}`
+        );
+      }
+      rates.set(valuationRate, rate);
     }
-
-    return rate;
   } catch (err) {
-    console.error("Error fetching exchange rate:", err);
-    return FALLBACK_USD_ARS_RATE;
+    console.error("Error fetching exchange rates:", err);
+  }
+  return rates;
+}
+
+// Each user's valuation rate from user_portfolio_settings (blue when unset)
+async function getValuationRates(
+  supabase: ReturnType<typeof createClient>,
+  userIds: string[]
+): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  if (userIds.length === 0) return out;
+  const { data, error } = await supabase
+    .from("user_portfolio_settings")
+    .select("user_id, valuation_rate")
+    .in("user_id", userIds);
+  if (error) {
+    console.warn("Failed to fetch valuation rates, using blue:", error.message);
+    return out;
+  }
+  for (const row of (data ?? []) as { user_id: string; valuation_rate: string }[]) {
+    out.set(row.user_id, row.valuation_rate);
   }
+  return out;
+}
+
+// Rate for a user's setting: blue if that dollar is missing, then the hardcoded fallback
+function resolveUsdArsRate(rates: Map<string, number>, valuationRate: string): UsdArsRate {
+  const rate = rates.get(valuationRate);
+  if (rate) return { valuationRate, rate };
+
+  const blue = rates.get(DEFAULT_VALUATION_RATE);
+  console.warn(
+    `No ${valuationRate} rate available, using ${blue ? "blue" : "fallback"}: ${blue ?? FALLBACK_USD_ARS_RATE}`
+  );
+  return { valuationRate: DEFAULT_VALUATION_RATE, rate: blue ?? FALLBACK_USD_ARS_RATE };
 }
 
 interface Asset {
@@ -84,6 +125,7 @@ interface PortfolioSummary {
   topGainers: { ticker: string; pnlPercent: number }[];
   topLosers: { ticker: string; pnlPercent: number }[];
   assetCount: number;
+  valuation: UsdArsRate;
 }
 
 // Format currency for email
@@ -104,7 +146,8 @@ function toUSD(value: number, currency: string, rate: number): number {
 }
 
 // Calculate portfolio summary for a user
-function calculateSummary(assets: Asset[], usdArsRate: number): PortfolioSummary {
+function calculateSummary(assets: Asset[], valuation: UsdArsRate): PortfolioSummary {
+  const usdArsRate = valuation.rate;
   let totalValue = 0;
   let totalCost = 0;
 
@@ -153,6 +196,7 @@ function calculateSummary(assets: Asset[], usdArsRate: number): PortfolioSummary
     topGainers,
     topLosers,
     assetCount: assets.filter((a) => parseFloat(a.quantity) > 0).length,
+    valuation,
   };
 }
 
@@ -180,7 +224,7 @@ async function getDailyAISummary(summary: PortfolioSummary): Promise<string> {
         messages: [
           {
             role: "user",
-            content: `Daily portfolio snapshot:\n- Total value: $${summary.totalValue.toFixed(2)}\n- Total P&L: ${summary.totalPnl >= 0 ? "+" : ""}$${summary.totalPnl.toFixed(2)} (${summary.totalPnlPercent >= 0 ? "+" : ""}${summary.totalPnlPercent.toFixed(2)}%)\n- Positions: ${summary.assetCount}\n- Top gainers: ${summary.topGainers.map((g) => `${g.ticker} (+${g.pnlPercent.toFixed(1)}%)`).join(", ") || "none"}\n- Top losers: ${summary.topLosers.map((l) => `${l.ticker} (${l.pnlPercent.toFixed(1)}%)`).join(", ") || "none"}`,
+            content: `Daily portfolio snapshot:\n- Total value: $${summary.totalValue.toFixed(2)}\n- Total P&L: ${summary.totalPnl >= 0 ? "+" : ""}$${summary.totalPnl.toFixed(2)} (${summary.totalPnlPercent >= 0 ? "+" : ""}${summary.totalPnlPercent.toFixed(2)}%)\n- Positions: ${summary.assetCount}\n- ARS positions valued at the ${summary.valuation.valuationRate} dollar (${summary.valuation.rate.toFixed(2)} ARS/USD)\n- Top gainers: ${summary.topGainers.map((g) => `${g.ticker} (+${g.pnlPercent.toFixed(1)}%)`).join(", ") || "none"}\n- Top losers: ${summary.topLosers.map((l) => `${l.ticker} (${l.pnlPercent.toFixed(1)}%)`).join(", ") || "none"}`,
           },
         ],
       }),
@@ -231,6 +275,9 @@ function generateEmailHTML(
       <p style="color: #fafafa; margin: 0; font-size: 36px; font-weight: bold; font-family: 'SF Mono', Monaco, monospace;">
         ${formatCurrency(summary.totalValue, "USD")}
       </p>
+      <p style="color: #71717a; margin: 8px 0 0; font-size: 11px;">
+        ARS positions at the ${summary.valuation.valuationRate} dollar (${formatCurrency(summary.valuation.rate, "ARS")})
+      </p>
     </div>
 
     <!-- P&L Card -->
@@ -388,8 +435,8 @@ serve(async (req) => {
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-    // Fetch exchange rate once before processing users
-    const usdArsRate = await getUsdArsRate(supabase);
+    // Fetch exchange rates once before processing users
+    const usdArsRates = await getUsdArsRates(supabase);
 
     // Get all users with connected brokers
     const { data: connections, error: connError } = await supabase
@@ -404,6 +451,8 @@ serve(async (req) => {
     // Get unique user IDs
     const userIds = [...new Set((connections as UserConnection[]).map((c) => c.user_id))];
 
+    const valuationRates = await getValuationRates(supabase, userIds);
+
     console.log(`Processing ${userIds.length} users with connected brokers`);
 
     // Get user emails from auth.users
@@ -472,8 +521,11 @@ serve(async (req) => {
         continue;
       }
 
-      // Calculate summary
-      const summary = calculateSummary(assets as Asset[], usdArsRate);
+      // Calculate summary at the user's valuation rate
+      const summary = calculateSummary(
+        assets as Asset[],
+        resolveUsdArsRate(usdArsRates, valuationRates.get(userId) ?? DEFAULT_VALUATION_RATE)
+      );
 
       // Get AI morning analysis (graceful degradation)
       const aiSummary = await getDailyAISummary(summary);
@@ -499,6 +551,18 @@ serve(async (req) => {
             { user_id: userId, last_daily_report_at: new Date().toISOString() },
             { onConflict: "user_id" }
           );
+
+        // Delivery record for the in-app notification center
+        const { error: notifyError } = await supabase.from("notifications").insert({
+          user_id: userId,
+          kind: "report",
+          title: "Reporte diario enviado",
+          body: subject,
+          link: "/analytics",
+        });
+        if (notifyError) {
+          console.error(`Failed to record report notification for ${userId}:`, notifyError);
+        }
       } else {
         failed++;
         console.log(`Failed to send email to ${email}`);
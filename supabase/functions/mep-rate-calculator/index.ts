@@ -1,5 +1,6 @@
 // Supabase Edge Function: MEP Rate Calculator
 // Fetches USD/ARS exchange rates from dolarapi.com and upserts into exchange_rates table
+// (one row per valuation rate: oficial, MEP, CCL, blue, crypto)
 // Schedule via pg_cron (e.g. every 30 minutes during market hours)
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
@@ -10,6 +11,15 @@ const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
 const FETCH_TIMEOUT = 10_000; // 10 seconds
 
+// Mirrors VALUATION_RATE_PAIRS / DOLAR_CASAS in src/lib/constants.ts
+const RATE_SOURCES: { pair: string; casa: string }[] = [
+  { pair: "USD_ARS_OFICIAL", casa: "oficial" },
+  { pair: "USD_ARS_MEP", casa: "bolsa" },
+  { pair: "USD_ARS_CCL", casa: "contadoconliqui" },
+  { pair: "USD_ARS_BLUE", casa: "blue" },
+  { pair: "USD_ARS_CRYPTO", casa: "cripto" },
+];
+
 interface DolarApiResponse {
   moneda: string;
   casa: string;
@@ -81,17 +91,18 @@ serve(async (req) => {
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-    // Fetch both rates in parallel
-    const [blue, mep] = await Promise.all([
-      fetchRate("https://dolarapi.com/v1/dolares/blue", "USD_ARS_BLUE"),
-      fetchRate("https://dolarapi.com/v1/dolares/bolsa", "USD_ARS_MEP"),
-    ]);
+    // Fetch every rate in parallel
+    const fetched = await Promise.all(
+      RATE_SOURCES.map(({ pair, casa }) =>
+        fetchRate(`https://dolarapi.com/v1/dolares/${casa}`, pair)
+      )
+    );
 
     const results: { pair: string; sellRate: number }[] = [];
     const errors: string[] = [];
     const now = new Date().toISOString();
 
-    for (const rate of [blue, mep]) {
+    for (const rate of fetched) {
       if (!rate) continue;
 
       const { error } = await supabase.from("exchange_rates").upsert(
@@ -122,8 +133,8 @@ serve(async (req) => {
       throw new Error(`All upserts failed: ${errors.join("; ")}`);
     }
 
-    if (!blue && !mep) {
-      console.warn("Both API calls failed — no rates written");
+    if (fetched.every((rate) => !rate)) {
+      console.warn("All API calls failed — no rates written");
     }
 
     return new Response(
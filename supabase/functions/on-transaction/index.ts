@@ -33,8 +33,6 @@ interface Asset {
 interface PriceAlert {
   id: string;
   ticker: string;
-  condition: "above" | "below";
-  target_price: number;
 }
 
 // Send transaction confirmation email
@@ -146,7 +144,6 @@ serve(async (req) => {
     }
 
     // 2. Check if any price alerts should be evaluated
-    //    (The actual alert triggering is done by the price-alerts function)
     const { data: alerts } = await supabase
       .from("price_alerts")
       .select("*")
@@ -157,30 +154,14 @@ serve(async (req) => {
     if (alerts && alerts.length > 0) {
       console.log(`User has ${alerts.length} active alerts for ${assetData.ticker}`);
 
-      // Update current price in alerts
+      // Refresh the price shown on each alert; triggering, cooldowns and
+      // re-arming are handled by the price-alerts function
+      const currentPrice = parseFloat(assetData.current_price);
       for (const alert of alerts as PriceAlert[]) {
-        const currentPrice = parseFloat(assetData.current_price);
-
         await supabase
           .from("price_alerts")
           .update({ current_price: currentPrice })
           .eq("id", alert.id);
-
-        // Check if alert should trigger immediately
-        const shouldTrigger =
-          (alert.condition === "above" && currentPrice >= alert.target_price) ||
-          (alert.condition === "below" && currentPrice <= alert.target_price);
-
-        if (shouldTrigger) {
-          console.log(`Alert ${alert.id} triggered for ${assetData.ticker}`);
-          await supabase
-            .from("price_alerts")
-            .update({
-              is_active: false,
-              triggered_at: new Date().toISOString(),
-            })
-            .eq("id", alert.id);
-        }
       }
     }
 
@@ -9,49 +9,90 @@ const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
 const FALLBACK_USD_ARS_RATE = 1250;
+const DEFAULT_VALUATION_RATE = "blue";
+
+// Mirrors VALUATION_RATE_PAIRS in src/lib/constants.ts
+const VALUATION_RATE_PAIRS: Record<string, string> = {
+  oficial: "USD_ARS_OFICIAL",
+  mep: "USD_ARS_MEP",
+  ccl: "USD_ARS_CCL",
+  blue: "USD_ARS_BLUE",
+  crypto: "USD_ARS_CRYPTO",
+};
+
+interface UsdArsRate {
+  valuationRate: string;
+  rate: number;
+}
 
-// Fetch USD/ARS sell rate from exchange_rates table, fallback to hardcoded rate
-async function getUsdArsRate(
+// Fetch every stored USD/ARS sell rate from exchange_rates, keyed by valuation rate
+async function getUsdArsRates(
   supabase: ReturnType<typeof createClient>
-): Promise<number> {
+): Promise<Map<string, number>> {
+  const rates = new Map<string, number>();
   try {
     const { data, error } = await supabase
       .from("exchange_rates")
-      .select("sell_rate, fetched_at")
-      .eq("pair", "USD_ARS_BLUE")
-      .single();
+      .select("pair, sell_rate, fetched_at")
+      .in("pair", Object.values(VALUATION_RATE_PAIRS));
 
     if (error || !data) {
-      console.warn(
-        `No exchange rate found, using fallback: ${FALLBACK_USD_ARS_RATE}`
-      );
-      return FALLBACK_USD_ARS_RATE;
-    }
-
-    const rate = parseFloat(data.sell_rate);
-    if (!rate || rate <= 0) {
-      console.warn(
-        `Invalid exchange rate value, using fallback: ${FALLBACK_USD_ARS_RATE}`
-      );
-      return FALLBACK_USD_ARS_RATE;
+      console.warn(`No exchange rates found, using fallback: ${FALLBACK_USD_ARS_RATE}`);
+      return rates;
     }
 
-    // Warn if rate is stale (> 24h old)
-    const fetchedAt = new Date(data.fetched_at);
-    const ageMs = Date.now() - fetchedAt.getTime();
-    if (ageMs > 24 * 60 * 60 * 1000) {
-      console.warn(
-        `Exchange rate is stale (${Math.round(ageMs / 3600000)}h old), using anyway: ${rate}`
-      );
-    } else {
-      console.log(`Using USD/ARS rate: ${rate} (fetched ${Math.round(ageMs / 60000)}m ago)`);
+    for (const [valuationRate, pair] of Object.entries(VALUATION_RATE_PAIRS)) {
+      const row = (data as { pair: string; sell_rate: string; fetched_at: string }[])
+        .find((r) => r.pair === pair);
+      const rate = row ? parseFloat(row.sell_rate) : 0;
+      if (!row || !rate || rate <= 0) continue;
+
+      // Warn if rate is stale (> 24h old)
+      const ageMs = Date.now() - new Date(row.fetched_at).getTime();
+      if (ageMs > 24 * 60 * 60 * 1000) {
+        console.warn(
+          `${pair} is stale (${Math.round(ageMs / 3600000)}h old), using anyway: ${rate}`
+        );
+      }
+      rates.set(valuationRate, rate);
     }
-
-    return rate;
   } catch (err) {
-    console.error("Error fetching exchange rate:", err);
-    return FALLBACK_USD_ARS_RATE;
+    console.error("Error fetching exchange rates:", err);
   }
+  return rates;
+}
+
+// Each user's valuation rate from user_portfolio_settings (blue when unset)
+async function getValuationRates(
+  supabase: ReturnType<typeof createClient>,
+  userIds: string[]
+): Promise<Map<string, string>> {
+  const out = new Map<string, string>();
+  if (userIds.length === 0) return out;
+  const { data, error } = await supabase
+    .from("user_portfolio_settings")
+    .select("user_id, valuation_rate")
+    .in("user_id", userIds);
+  if (error) {
+    console.warn("Failed to fetch valuation rates, using blue:", error.message);
+    return out;
+  }
+  for (const row of (data ?? []) as { user_id: string; valuation_rate: string }[]) {
+    out.set(row.user_id, row.valuation_rate);
+  }
+  return out;
+}
+
+// Rate for a user's setting: blue if that dollar is missing, then the hardcoded fallback
+function resolveUsdArsRate(rates: Map<string, number>, valuationRate: string): UsdArsRate {
+  const rate = rates.get(valuationRate);
+  if (rate) return { valuationRate, rate };
+
+  const blue = rates.get(DEFAULT_VALUATION_RATE);
+  console.warn(
+    `No ${valuationRate} rate available, using ${blue ? "blue" : "fallback"}: ${blue ?? FALLBACK_USD_ARS_RATE}`
+  );
+  return { valuationRate: DEFAULT_VALUATION_RATE, rate: blue ?? FALLBACK_USD_ARS_RATE };
 }
 
 interface Asset {
@@ -180,8 +221,8 @@ serve(async (req) => {
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-    // Fetch exchange rate once before processing users
-    const usdArsRate = await getUsdArsRate(supabase);
+    // Fetch exchange rates once before processing users
+    const usdArsRates = await getUsdArsRates(supabase);
 
     // Get today's date (for snapshot_date)
     const today = new Date().toISOString().split("T")[0];
@@ -199,6 +240,8 @@ serve(async (req) => {
     // Get unique user IDs
     const userIds = [...new Set((connections as UserConnection[]).map((c) => c.user_id))];
 
+    const valuationRates = await getValuationRates(supabase, userIds);
+
     console.log(`Creating snapshots for ${userIds.length} users`);
 
     let created = 0;
@@ -239,8 +282,12 @@ serve(async (req) => {
           continue;
         }
 
-        // Calculate snapshot
-        const snapshot = calculateSnapshot(assets as Asset[], usdArsRate);
+        // Calculate snapshot at the user's valuation rate
+        const { valuationRate, rate } = resolveUsdArsRate(
+          usdArsRates,
+          valuationRates.get(userId) ?? DEFAULT_VALUATION_RATE
+        );
+        const snapshot = calculateSnapshot(assets as Asset[], rate);
 
         // Insert snapshot
         const { error: insertError } = await supabase
@@ -255,6 +302,9 @@ serve(async (req) => {
             asset_count: snapshot.assetCount,
             by_category: snapshot.byCategory,
             positions: snapshot.positions,
+            // Recorded so history valued at different rates stays comparable
+            valuation_rate: valuationRate,
+            usd_ars_rate: rate,
           });
 
         if (insertError) {
@@ -1,6 +1,8 @@
 // Supabase Edge Function: Price Alert Notifications
 // Triggered every 15 min during market hours via pg_cron
-// Checks user-defined price thresholds and sends notifications
+// Evaluates user-defined alert conditions (price targets, percent moves,
+// moving-average crosses, RSI, volume spikes, position P&L) against
+// ticker_price_cache and Yahoo daily history, and sends notifications
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
@@ -14,27 +16,276 @@ const SENDER_EMAIL = Deno.env.get("SENDER_EMAIL") || "tomaspinolini2003@gmail.co
 const SENDER_NAME = Deno.env.get("SENDER_NAME") || "Slock";
 const APP_URL = Deno.env.get("APP_URL") || "https://invblock.vercel.app";
 
+const YAHOO_CHART_URL = "https://query1.finance.yahoo.com/v8/finance/chart";
+const FETCH_TIMEOUT_MS = 15000;
+
+type AlertCondition =
+  | "above"
+  | "below"
+  | "percent_change"
+  | "daily_move"
+  | "ma_cross"
+  | "rsi"
+  | "volume_spike"
+  | "pnl";
+type AlertDirection = "above" | "below";
+
 interface PriceAlert {
   id: string;
   user_id: string;
   ticker: string;
-  condition: "above" | "below";
-  target_price: number;
+  condition: AlertCondition;
+  target_price: number | null;
+  direction: AlertDirection | null;
+  threshold: number | null;
+  period: number | null;
+  reference_price: number | null;
+  cooldown_minutes: number;
   current_price: number | null;
   is_active: boolean;
+  is_armed: boolean;
+  triggered_at: string | null;
+  trigger_count: number;
 }
 
 interface Asset {
+  user_id: string;
   ticker: string;
+  category: string;
   current_price: string;
+  average_price: string;
+}
+
+interface CachedPrice {
+  ticker: string;
+  price: string;
+  change_percent: string | null;
+  volume: string | null;
+}
+
+interface DailyHistory {
+  closes: number[];
+  volumes: number[];
+}
+
+// ── Alert evaluation (mirrors src/lib/alerts.ts — keep in sync) ─────────────
+
+interface AlertMarketData {
+  price: number;
+  changePercent: number | null;
+  volume: number | null;
+  closes: number[];
+  volumes: number[];
+  averagePrice: number | null;
+}
+
+const HISTORY_CONDITIONS: AlertCondition[] = ["ma_cross", "rsi", "volume_spike"];
+
+const DEFAULT_ALERT_PERIODS: Partial<Record<AlertCondition, number>> = {
+  ma_cross: 50,
+  rsi: 14,
+  volume_spike: 20,
+};
+
+function sma(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  let sum = 0;
+  for (let i = values.length - period; i < values.length; i++) sum += values[i];
+  return sum / period;
+}
+
+function rsi(closes: number[], period = 14): number | null {
+  if (period <= 0 || closes.length < period + 1) return null;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change >= 0) gain += change;
+    else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (loss === 0) return 100;
+  return 100 - 100 / (1 + gain / loss);
+}
+
+function compare(metric: number, direction: AlertDirection | null, threshold: number): boolean {
+  return direction === "below" ? metric <= threshold : metric >= threshold;
+}
+
+function evaluateAlert(
+  alert: PriceAlert,
+  data: AlertMarketData
+): { met: boolean; metric: number } | null {
+  const { price } = data;
+  if (!(price > 0)) return null;
+  const period = alert.period ?? DEFAULT_ALERT_PERIODS[alert.condition] ?? 0;
+  const threshold = alert.threshold;
+
+  switch (alert.condition) {
+    case "above":
+    case "below": {
+      if (alert.target_price === null) return null;
+      return { met: compare(price, alert.condition, alert.target_price), metric: price };
+    }
+
+    case "percent_change": {
+      if (!alert.reference_price || threshold === null) return null;
+      const metric = (price / alert.reference_price - 1) * 100;
+      return { met: compare(metric, alert.direction, threshold), metric };
+    }
+
+    case "daily_move": {
+      if (data.changePercent === null || threshold === null) return null;
+      return { met: compare(data.changePercent, alert.direction, threshold), metric: data.changePercent };
+    }
+
+    case "ma_cross": {
+      const average = sma(data.closes, period);
+      const lastClose = data.closes[data.closes.length - 1];
+      if (average === null || lastClose === undefined) return null;
+      const met =
+        alert.direction === "below"
+          ? lastClose >= average && price < average
+          : lastClose <= average && price > average;
+      return { met, metric: average };
+    }
+
+    case "rsi": {
+      if (threshold === null) return null;
+      const metric = rsi([...data.closes, price], period);
+      if (metric === null) return null;
+      return { met: compare(metric, alert.direction, threshold), metric };
+    }
+
+    case "volume_spike": {
+      const average = sma(data.volumes, period);
+      if (!average || data.volume === null || threshold === null) return null;
+      const metric = data.volume / average;
+      return { met: metric >= threshold, metric };
+    }
+
+    case "pnl": {
+      if (!data.averagePrice || threshold === null) return null;
+      const metric = (price / data.averagePrice - 1) * 100;
+      return { met: compare(metric, alert.direction, threshold), metric };
+    }
+  }
+  return null;
+}
+
+function nextAlertState(
+  alert: PriceAlert,
+  met: boolean,
+  now: Date
+): { trigger: boolean; armed: boolean } {
+  if (!met) return { trigger: false, armed: true };
+  if (!alert.is_armed) return { trigger: false, armed: false };
+
+  if (alert.triggered_at) {
+    const elapsed = now.getTime() - Date.parse(alert.triggered_at);
+    if (elapsed < alert.cooldown_minutes * 60_000) return { trigger: false, armed: true };
+  }
+  return { trigger: true, armed: false };
+}
+
+function signed(value: number, suffix: string): string {
+  return `${value > 0 ? "+" : ""}${value}${suffix}`;
+}
+
+function describeAlert(alert: PriceAlert): string {
+  const dir = alert.direction ?? "above";
+  const t = alert.threshold ?? 0;
+  const period = alert.period ?? DEFAULT_ALERT_PERIODS[alert.condition];
+
+  switch (alert.condition) {
+    case "above":
+    case "below":
+      return `Price ${alert.condition} ${alert.target_price ?? "?"}`;
+    case "percent_change":
+      return `${signed(t, "%")} or ${dir === "below" ? "lower" : "higher"} since created`;
+    case "daily_move":
+      return `Daily move ${dir} ${signed(t, "%")}`;
+    case "ma_cross":
+      return `Crosses ${dir} ${period}-day MA`;
+    case "rsi":
+      return `RSI(${period}) ${dir} ${t}`;
+    case "volume_spike":
+      return `Volume ${t}x the ${period}-day average`;
+    case "pnl":
+      return `Position P&L ${dir} ${signed(t, "%")}`;
+  }
+  return alert.condition;
+}
+
+// ── Yahoo daily history ─────────────────────────────────────────────────────
+
+// Mirrors toYahooSymbol in watchlist-price-sync
+function toYahooSymbol(ticker: string, category: string): string | null {
+  switch (category) {
+    case "cedear":
+      return `${ticker}.BA`;
+    case "crypto":
+      return `${ticker}-USD`;
+    case "cash":
+      return null;
+    default:
+      return ticker;
+  }
+}
+
+/** Daily closes and volumes before today, oldest first */
+async function fetchDailyHistory(symbol: string): Promise<DailyHistory | null> {
+  try {
+    const res = await fetch(
+      `${YAHOO_CHART_URL}/${encodeURIComponent(symbol)}?range=1y&interval=1d`,
+      {
+        headers: { "User-Agent": "Mozilla/5.0" },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      }
+    );
+    if (!res.ok) {
+      console.error(`Yahoo chart error for ${symbol}: ${res.status}`);
+      return null;
+    }
+
+    const data = await res.json();
+    const result = data?.chart?.result?.[0];
+    const timestamps: number[] = result?.timestamp ?? [];
+    const quote = result?.indicators?.quote?.[0] ?? {};
+    const today = new Date().toISOString().slice(0, 10);
+
+    const closes: number[] = [];
+    const volumes: number[] = [];
+    for (let i = 0; i < timestamps.length; i++) {
+      // Today's bar is still forming; the live price stands in for it
+      if (new Date(timestamps[i] * 1000).toISOString().slice(0, 10) === today) continue;
+      const close = quote.close?.[i];
+      if (typeof close !== "number") continue;
+      closes.push(close);
+      volumes.push(typeof quote.volume?.[i] === "number" ? quote.volume[i] : 0);
+    }
+    return { closes, volumes };
+  } catch (error) {
+    console.error(`Failed to fetch history for ${symbol}:`, error);
+    return null;
+  }
 }
 
 // Generate AI narrative for a triggered alert
 async function generateNarrative(
   ticker: string,
-  condition: string,
-  targetPrice: number,
-  currentPrice: number
+  description: string,
+  currentPrice: number,
+  metric: number
 ): Promise<string> {
   if (!ANTHROPIC_API_KEY) {
     console.log("ANTHROPIC_API_KEY not configured, skipping narrative");
@@ -58,7 +309,7 @@ async function generateNarrative(
         messages: [
           {
             role: "user",
-            content: `Price alert triggered: ${ticker} is now ${condition} the target of $${targetPrice.toFixed(2)}. Current price: $${currentPrice.toFixed(2)}. The difference is ${((currentPrice - targetPrice) / targetPrice * 100).toFixed(1)}% from the target.`,
+            content: `Alert triggered for ${ticker}: ${description}. Current price: $${currentPrice.toFixed(2)}. Measured value: ${metric.toFixed(2)}.`,
           },
         ],
       }),
@@ -82,8 +333,8 @@ async function generateNarrative(
 async function sendAlertEmail(
   to: string,
   ticker: string,
-  condition: string,
-  targetPrice: number,
+  description: string,
+  direction: AlertDirection,
   currentPrice: number,
   narrative: string = ""
 ): Promise<boolean> {
@@ -92,7 +343,7 @@ async function sendAlertEmail(
     return false;
   }
 
-  const subject = `🚨 Price Alert: ${ticker} is ${condition} $${targetPrice.toFixed(2)}`;
+  const subject = `🚨 Price Alert: ${ticker} — ${description}`;
   const html = `
 <!DOCTYPE html>
 <html>
@@ -111,17 +362,17 @@ async function sendAlertEmail(
 
     <div style="display: flex; gap: 12px; margin-bottom: 16px;">
       <div style="flex: 1; background-color: #3f3f46; border-radius: 8px; padding: 12px;">
-        <p style="color: #a1a1aa; margin: 0 0 4px; font-size: 11px; text-transform: uppercase;">Target</p>
-        <p style="color: #fafafa; margin: 0; font-size: 18px; font-weight: 600;">$${targetPrice.toFixed(2)}</p>
+        <p style="color: #a1a1aa; margin: 0 0 4px; font-size: 11px; text-transform: uppercase;">Condition</p>
+        <p style="color: #fafafa; margin: 0; font-size: 14px; font-weight: 600;">${description}</p>
       </div>
       <div style="flex: 1; background-color: #3f3f46; border-radius: 8px; padding: 12px;">
         <p style="color: #a1a1aa; margin: 0 0 4px; font-size: 11px; text-transform: uppercase;">Current</p>
-        <p style="color: ${condition === "above" ? "#10b981" : "#ef4444"}; margin: 0; font-size: 18px; font-weight: 600;">$${currentPrice.toFixed(2)}</p>
+        <p style="color: ${direction === "above" ? "#10b981" : "#ef4444"}; margin: 0; font-size: 18px; font-weight: 600;">$${currentPrice.toFixed(2)}</p>
       </div>
     </div>
 
     <p style="color: #71717a; margin: 0; font-size: 12px; text-align: center;">
-      ${ticker} is now <strong>${condition}</strong> your target of $${targetPrice.toFixed(2)}
+      ${ticker} met your alert: <strong>${description}</strong>
     </p>
 
     ${narrative ? `
@@ -204,100 +455,185 @@ serve(async (req) => {
 
     console.log(`Checking ${alerts.length} active price alerts`);
 
+    const activeAlerts = alerts as PriceAlert[];
+
     // Get unique tickers from alerts
-    const tickers = [...new Set((alerts as PriceAlert[]).map((a) => a.ticker))];
+    const tickers = [...new Set(activeAlerts.map((a) => a.ticker))];
 
-    // Fetch current prices from assets table
+    // Latest quotes from the watchlist price cache (price, daily change, volume)
+    const { data: cached, error: cacheError } = await supabase
+      .from("ticker_price_cache")
+      .select("ticker, price, change_percent, volume")
+      .in("ticker", tickers);
+
+    if (cacheError) {
+      throw new Error(`Failed to fetch cached prices: ${cacheError.message}`);
+    }
+
+    // Positions: fallback prices, Yahoo categories and P&L cost basis
     const { data: assets, error: assetsError } = await supabase
       .from("assets")
-      .select("ticker, current_price")
+      .select("user_id, ticker, category, current_price, average_price")
       .in("ticker", tickers);
 
     if (assetsError) {
       throw new Error(`Failed to fetch prices: ${assetsError.message}`);
     }
 
-    // Build price map
+    const quoteMap = new Map<string, CachedPrice>();
+    for (const row of (cached as CachedPrice[]) || []) {
+      quoteMap.set(row.ticker, row);
+    }
+
     const priceMap = new Map<string, number>();
+    const categoryMap = new Map<string, string>();
+    const positionMap = new Map<string, Asset>();
     for (const asset of (assets as Asset[]) || []) {
-      priceMap.set(asset.ticker, parseFloat(asset.current_price) || 0);
+      const price = parseFloat(asset.current_price) || 0;
+      if (price > 0) priceMap.set(asset.ticker, price);
+      categoryMap.set(asset.ticker, asset.category);
+      positionMap.set(`${asset.user_id}:${asset.ticker}`, asset);
+    }
+    for (const [ticker, quote] of quoteMap) {
+      const price = parseFloat(quote.price) || 0;
+      if (price > 0) priceMap.set(ticker, price);
+    }
+
+    // Daily history only for tickers with MA, RSI or volume alerts
+    const historyTickers = [
+      ...new Set(
+        activeAlerts.filter((a) => HISTORY_CONDITIONS.includes(a.condition)).map((a) => a.ticker)
+      ),
+    ];
+    const historyMap = new Map<string, DailyHistory>();
+    for (const ticker of historyTickers) {
+      const symbol = toYahooSymbol(ticker, categoryMap.get(ticker) ?? "stock");
+      if (!symbol) continue;
+      const history = await fetchDailyHistory(symbol);
+      if (history) historyMap.set(ticker, history);
     }
 
     // Get user emails
-    const userIds = [...new Set((alerts as PriceAlert[]).map((a) => a.user_id))];
     const { data: users } = await supabase.auth.admin.listUsers();
     const userEmails = new Map(users?.users.map((u) => [u.id, u.email]) || []);
 
     let triggered = 0;
     let checked = 0;
+    const now = new Date();
 
-    for (const alert of alerts as PriceAlert[]) {
+    for (const alert of activeAlerts) {
       checked++;
-      const currentPrice = priceMap.get(alert.ticker);
+      const position = positionMap.get(`${alert.user_id}:${alert.ticker}`);
+      const quote = quoteMap.get(alert.ticker);
+      const history = historyMap.get(alert.ticker);
+
+      // P&L compares the position's own price and cost (same currency)
+      const currentPrice =
+        alert.condition === "pnl" && position
+          ? parseFloat(position.current_price) || 0
+          : priceMap.get(alert.ticker);
 
-      if (currentPrice === undefined) {
+      if (!currentPrice) {
         console.log(`No price found for ${alert.ticker}`);
         continue;
       }
 
-      // Update current price in alert
-      await supabase
-        .from("price_alerts")
-        .update({ current_price: currentPrice, updated_at: new Date().toISOString() })
-        .eq("id", alert.id);
-
-      // Check if alert should trigger
-      const shouldTrigger =
-        (alert.condition === "above" && currentPrice >= alert.target_price) ||
-        (alert.condition === "below" && currentPrice <= alert.target_price);
-
-      if (shouldTrigger) {
-        console.log(`Alert triggered: ${alert.ticker} ${alert.condition} ${alert.target_price} (current: ${currentPrice})`);
+      const evaluation = evaluateAlert(alert, {
+        price: currentPrice,
+        changePercent: quote?.change_percent != null ? parseFloat(quote.change_percent) : null,
+        volume: quote?.volume != null ? parseFloat(quote.volume) : null,
+        closes: history?.closes ?? [],
+        volumes: history?.volumes ?? [],
+        averagePrice: position ? parseFloat(position.average_price) || null : null,
+      });
+
+      if (!evaluation) {
+        console.log(`Not enough data to evaluate ${alert.condition} alert for ${alert.ticker}`);
+      }
 
-        // Generate AI narrative (graceful degradation — empty string on failure)
-        const narrative = await generateNarrative(
-          alert.ticker,
-          alert.condition,
-          alert.target_price,
-          currentPrice
-        );
+      const state = nextAlertState(alert, evaluation?.met ?? false, now);
 
-        // Mark as triggered and save narrative
+      // Update current price (and re-arm once the condition clears)
+      if (!state.trigger) {
         await supabase
           .from("price_alerts")
           .update({
-            is_active: false,
-            triggered_at: new Date().toISOString(),
-            ...(narrative ? { narrative } : {}),
+            current_price: currentPrice,
+            is_armed: evaluation ? state.armed : alert.is_armed,
+            updated_at: now.toISOString(),
           })
           .eq("id", alert.id);
+        continue;
+      }
 
-        // Check email preferences before sending (opt-out model)
-        const { data: prefs } = await supabase
-          .from("user_email_preferences")
-          .select("price_alerts")
-          .eq("user_id", alert.user_id)
-          .single();
-
-        if (prefs && prefs.price_alerts === false) {
-          console.log(`User ${alert.user_id} opted out of price alerts, skipping email`);
-        } else {
-          // Send notification with narrative
-          const email = userEmails.get(alert.user_id);
-          if (email) {
-            await sendAlertEmail(
-              email,
-              alert.ticker,
-              alert.condition,
-              alert.target_price,
-              currentPrice,
-              narrative
-            );
-          }
-        }
+      const description = describeAlert(alert);
+      const direction: AlertDirection =
+        alert.condition === "above" || alert.condition === "below"
+          ? alert.condition
+          : alert.direction ?? "above";
+      console.log(`Alert triggered: ${alert.ticker} ${description} (price: ${currentPrice}, metric: ${evaluation!.metric})`);
+
+      // Generate AI narrative (graceful degradation — empty string on failure)
+      const narrative = await generateNarrative(
+        alert.ticker,
+        description,
+        currentPrice,
+        evaluation!.metric
+      );
 
-        triggered++;
+      // Record the trigger and disarm until the condition clears; the
+      // previous trigger's narrative no longer applies
+      await supabase
+        .from("price_alerts")
+        .update({
+          current_price: currentPrice,
+          is_armed: false,
+          triggered_at: now.toISOString(),
+          trigger_count: (alert.trigger_count ?? 0) + 1,
+          narrative: narrative || null,
+          narrative_generated_at: null,
+          updated_at: now.toISOString(),
+        })
+        .eq("id", alert.id);
+
+      // In-app notification (independent of email preferences)
+      const { error: notifyError } = await supabase.from("notifications").insert({
+        user_id: alert.user_id,
+        kind: "price_alert",
+        title: `${alert.ticker}: ${description}`,
+        body: narrative || `Precio actual: $${currentPrice.toFixed(2)}`,
+        link: "/alerts",
+        metadata: { alert_id: alert.id, price: currentPrice, metric: evaluation!.metric },
+      });
+      if (notifyError) {
+        console.error(`Failed to record notification for alert ${alert.id}:`, notifyError);
       }
+
+      // Check email preferences before sending (opt-out model)
+      const { data: prefs } = await supabase
+        .from("user_email_preferences")
+        .select("price_alerts")
+        .eq("user_id", alert.user_id)
+        .single();
+
+      if (prefs && prefs.price_alerts === false) {
+        console.log(`User ${alert.user_id} opted out of price alerts, skipping email`);
+      } else {
+        // Send notification with narrative
+        const email = userEmails.get(alert.user_id);
+        if (email) {
+          await sendAlertEmail(
+            email,
+            alert.ticker,
+            description,
+            direction,
+            currentPrice,
+            narrative
+          );
+        }
+      }
+
+      triggered++;
     }
 
     return new Response(
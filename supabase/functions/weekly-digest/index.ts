@@ -1,6 +1,7 @@
 // Supabase Edge Function: Weekly Portfolio Digest
 // Triggered weekly (Friday after market close) via pg_cron or manually via HTTP
 // Pulls last 5-7 daily snapshots, computes weekly deltas, gets AI summary, sends styled email
+// Also lists the next two weeks of projected coupons/dividends (projected_income, written by /api/income)
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
@@ -55,6 +56,23 @@ interface Mover {
   changePercent: number;
 }
 
+interface UpcomingIncome {
+  ticker: string;
+  kind: "coupon" | "amortization" | "dividend";
+  pay_date: string;
+  currency: "USD" | "ARS";
+  amount: number;
+  estimated: boolean;
+}
+
+const UPCOMING_INCOME_DAYS = 14;
+
+const INCOME_KIND_LABELS: Record<UpcomingIncome["kind"], string> = {
+  coupon: "Coupon",
+  amortization: "Amortization",
+  dividend: "Dividend",
+};
+
 interface WeeklyData {
   weekStart: string;
   weekEnd: string;
@@ -82,6 +100,15 @@ function formatCurrency(value: number): string {
   }).format(value);
 }
 
+// Format ARS for email
+function formatArs(value: number): string {
+  return new Intl.NumberFormat("es-AR", {
+    style: "currency",
+    currency: "ARS",
+    maximumFractionDigits: 0,
+  }).format(value);
+}
+
 // Format percent
 function formatPercent(value: number, includeSign = true): string {
   const sign = includeSign && value >= 0 ? "+" : "";
@@ -279,7 +306,11 @@ async function sendEmail(to: string, subject: string, html: string): Promise<boo
 }
 
 // Generate styled HTML email
-function generateEmailHTML(weeklyData: WeeklyData, aiSummary: string): string {
+function generateEmailHTML(
+  weeklyData: WeeklyData,
+  aiSummary: string,
+  upcomingIncome: UpcomingIncome[]
+): string {
   const changeColor = weeklyData.weeklyChangeUsd >= 0 ? "#10b981" : "#ef4444";
   const changeSign = weeklyData.weeklyChangeUsd >= 0 ? "+" : "";
 
@@ -361,6 +392,35 @@ function generateEmailHTML(weeklyData: WeeklyData, aiSummary: string): string {
     </div>`
       : "";
 
+  // Upcoming income (next two weeks)
+  const incomeRows = upcomingIncome
+    .slice(0, 8)
+    .map((p) => {
+      const amount = p.currency === "ARS" ? formatArs(p.amount) : formatCurrency(p.amount);
+      return `
+        <div style="display: flex; justify-content: space-between; padding: 6px 0; border-bottom: 1px solid #3f3f46;">
+          <div>
+            <span style="color: #71717a; font-family: 'SF Mono', Monaco, monospace; font-size: 12px;">${p.pay_date.slice(5)}</span>
+            <span style="color: #fafafa; font-weight: 500; margin-left: 8px;">${p.ticker}</span>
+            <span style="color: #71717a; font-size: 12px; margin-left: 6px;">${INCOME_KIND_LABELS[p.kind]}${p.estimated ? " (est.)" : ""}</span>
+          </div>
+          <span style="color: #10b981; font-family: 'SF Mono', Monaco, monospace; font-size: 13px;">${amount}</span>
+        </div>`;
+    })
+    .join("");
+
+  const incomeBlock =
+    incomeRows.length > 0
+      ? `
+    <div style="background-color: #27272a; border-radius: 12px; padding: 16px; margin-bottom: 12px;">
+      <p style="color: #a1a1aa; margin: 0 0 12px; font-size: 12px; text-transform: uppercase; letter-spacing: 1px;">Upcoming Income</p>
+      ${incomeRows}
+      <p style="color: #71717a; margin: 10px 0 0; font-size: 12px;">
+        <a href="${APP_URL}/income" style="color:#60a5fa; text-decoration:underline;">See the full calendar</a>
+      </p>
+    </div>`
+      : "";
+
   return `
 <!DOCTYPE html>
 <html>
@@ -424,6 +484,8 @@ function generateEmailHTML(weeklyData: WeeklyData, aiSummary: string): string {
 
     ${categoryBlock}
 
+    ${incomeBlock}
+
     <!-- Footer -->
     <div style="text-align: center; padding: 20px 0; border-top: 1px solid #3f3f46;">
       <p style="color: #71717a; margin: 0; font-size: 12px;">
@@ -588,8 +650,28 @@ serve(async (req) => {
           );
         }
 
+        // Upcoming coupons/dividends from the last stored projection
+        const incomeUntil = new Date(now);
+        incomeUntil.setDate(incomeUntil.getDate() + UPCOMING_INCOME_DAYS);
+        const { data: income, error: incomeError } = await supabase
+          .from("projected_income")
+          .select("ticker, kind, pay_date, currency, amount, estimated")
+          .eq("user_id", userId)
+          .gte("pay_date", now.toISOString().split("T")[0])
+          .lte("pay_date", incomeUntil.toISOString().split("T")[0])
+          .order("pay_date", { ascending: true });
+
+        if (incomeError) {
+          console.error(`[weekly-digest] Failed to fetch income for ${userId}:`, incomeError);
+        }
+
+        const upcomingIncome = ((income ?? []) as UpcomingIncome[]).map((p) => ({
+          ...p,
+          amount: Number(p.amount),
+        }));
+
         // Generate styled email
-        const html = generateEmailHTML(weeklyData, aiSummary);
+        const html = generateEmailHTML(weeklyData, aiSummary, upcomingIncome);
 
         // Build subject line
         const changeSign = weeklyData.weeklyChangeUsd >= 0 ? "+" : "";
@@ -608,6 +690,18 @@ serve(async (req) => {
               { user_id: userId, last_weekly_digest_at: new Date().toISOString() },
               { onConflict: "user_id" }
             );
+
+          // Delivery record for the in-app notification center
+          const { error: notifyError } = await supabase.from("notifications").insert({
+            user_id: userId,
+            kind: "report",
+            title: "Resumen semanal enviado",
+            body: subject,
+            link: "/analytics",
+          });
+          if (notifyError) {
+            console.error(`[weekly-digest] Failed to record notification for ${userId}:`, notifyError);
+          }
         } else {
           failed++;
           console.log(`[weekly-digest] Failed to send email to ${email}`);
@@ -0,0 +1,96 @@
+-- ============================================================================
+-- Tax-Lot Ledger (realized P&L)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Cost basis method (per user)
+-- ============================================================================
+
+DO $$ BEGIN
+  CREATE TYPE cost_basis_method AS ENUM ('fifo', 'lifo', 'average');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS user_portfolio_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  cost_basis_method cost_basis_method NOT NULL DEFAULT 'fifo',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS portfolio_settings_user_idx ON user_portfolio_settings(user_id);
+
+-- ============================================================================
+-- 2. Opening position on assets
+-- ============================================================================
+-- The part of the current quantity not explained by recorded transactions
+-- becomes the opening lot, so rebuilding the ledger keeps existing positions.
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS opening_quantity NUMERIC(18, 8) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS opening_average_price NUMERIC(18, 8) NOT NULL DEFAULT 0;
+
+UPDATE assets a
+SET
+  opening_quantity = GREATEST(0, a.quantity - COALESCE(t.net_quantity, 0)),
+  opening_average_price = a.average_price
+FROM (
+  SELECT
+    asset_id,
+    SUM(CASE WHEN type = 'buy' THEN quantity ELSE -quantity END) AS net_quantity
+  FROM transactions
+  GROUP BY asset_id
+) t
+WHERE t.asset_id = a.id;
+
+UPDATE assets
+SET opening_quantity = quantity, opening_average_price = average_price
+WHERE id NOT IN (SELECT DISTINCT asset_id FROM transactions);
+
+-- ============================================================================
+-- 3. Lots and realized gains (derived, rebuilt from transactions)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS tax_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  buy_transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE,
+  opened_at TIMESTAMPTZ NOT NULL,
+  quantity NUMERIC(18, 8) NOT NULL,
+  remaining_quantity NUMERIC(18, 8) NOT NULL,
+  cost_per_unit NUMERIC(18, 8) NOT NULL,
+  currency currency NOT NULL DEFAULT 'USD',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS lots_user_idx ON tax_lots(user_id);
+CREATE INDEX IF NOT EXISTS lots_asset_idx ON tax_lots(asset_id);
+
+CREATE TABLE IF NOT EXISTS realized_gains (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  asset_id UUID NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  sell_transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  buy_transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE,
+  method cost_basis_method NOT NULL,
+  quantity NUMERIC(18, 8) NOT NULL,
+  proceeds NUMERIC(18, 8) NOT NULL,
+  cost_basis NUMERIC(18, 8) NOT NULL,
+  realized_pnl NUMERIC(18, 8) NOT NULL,
+  currency currency NOT NULL DEFAULT 'USD',
+  acquired_at TIMESTAMPTZ,
+  disposed_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS gains_user_idx ON realized_gains(user_id);
+CREATE INDEX IF NOT EXISTS gains_asset_idx ON realized_gains(asset_id);
+CREATE INDEX IF NOT EXISTS gains_sell_idx ON realized_gains(sell_transaction_id);
+CREATE INDEX IF NOT EXISTS gains_disposed_idx ON realized_gains(disposed_at);
+
+-- Lots for existing history are built on the next rebuild: any transaction
+-- change, a method switch, or "Recalcular" in Settings (POST /api/realized-gains).
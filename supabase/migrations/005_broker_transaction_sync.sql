@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Broker Transaction Sync (IOL, PPI, Binance)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+
+-- ============================================================================
+-- 1. Transaction origin + broker id
+-- ============================================================================
+
+DO $$ BEGIN
+  CREATE TYPE transaction_source AS ENUM ('manual', 'import', 'iol', 'ppi', 'binance');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS source transaction_source NOT NULL DEFAULT 'manual',
+  ADD COLUMN IF NOT EXISTS external_id VARCHAR(100);
+
+-- Rows synced before this migration carried the IOL operation number in notes
+UPDATE transactions
+SET
+  source = 'iol',
+  external_id = substring(notes FROM 'IOL#([0-9]+)'),
+  notes = NULL
+WHERE notes ~ '^IOL#[0-9]+';
+
+UPDATE transactions
+SET source = 'import'
+WHERE source = 'manual' AND notes LIKE 'Importado%';
+
+-- NULL external ids (manual rows) never conflict with each other
+CREATE UNIQUE INDEX IF NOT EXISTS txn_user_source_external_idx
+  ON transactions(user_id, source, external_id);
+
+-- ============================================================================
+-- 2. Per-connection history cursor
+-- ============================================================================
+-- Empty on first connect: the next sync pages back through the whole
+-- account history, later runs only fetch what is new.
+
+ALTER TABLE user_connections
+  ADD COLUMN IF NOT EXISTS sync_cursor JSONB,
+  ADD COLUMN IF NOT EXISTS transactions_synced_at TIMESTAMPTZ;
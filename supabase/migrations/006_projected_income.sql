@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Projected Income (bond coupons/amortizations and dividends)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- Rows are rewritten per user each time the income calendar is computed
+-- (GET /api/income); the weekly-digest edge function reads upcoming ones.
+
+DO $$ BEGIN
+  CREATE TYPE income_kind AS ENUM ('coupon', 'amortization', 'dividend');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS projected_income (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  ticker VARCHAR(20) NOT NULL,
+  kind income_kind NOT NULL,
+  pay_date DATE NOT NULL,
+  currency currency NOT NULL,
+  amount NUMERIC(18, 8) NOT NULL,
+  estimated BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS projected_income_user_date_idx
+  ON projected_income(user_id, pay_date);
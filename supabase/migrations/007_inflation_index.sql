@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Inflation Index History (BCRA CER and UVA)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- Daily values are fetched from the BCRA API on demand and appended; they
+-- deflate ARS positions into real returns and index Boncer bonds.
+
+DO $$ BEGIN
+  CREATE TYPE inflation_index AS ENUM ('CER', 'UVA');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS inflation_index_values (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  index inflation_index NOT NULL,
+  date DATE NOT NULL,
+  value NUMERIC(18, 6) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inflation_index_date_idx
+  ON inflation_index_values(index, date);
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Valuation Rate (USD/ARS rate ARS positions are valued at)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- The user's choice lives in user_portfolio_settings; each snapshot records
+-- the rate it was taken at so the history stays comparable. Existing
+-- snapshots were all valued at the blue rate.
+
+DO $$ BEGIN
+  CREATE TYPE valuation_rate AS ENUM ('oficial', 'mep', 'ccl', 'blue', 'crypto');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE user_portfolio_settings
+  ADD COLUMN IF NOT EXISTS valuation_rate valuation_rate NOT NULL DEFAULT 'blue';
+
+ALTER TABLE portfolio_snapshots
+  ADD COLUMN IF NOT EXISTS valuation_rate valuation_rate NOT NULL DEFAULT 'blue',
+  ADD COLUMN IF NOT EXISTS usd_ars_rate NUMERIC(18, 4);
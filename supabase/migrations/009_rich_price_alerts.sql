@@ -0,0 +1,36 @@
+-- ============================================================================
+-- Rich Price Alert Conditions
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- Besides absolute above/below prices, alerts can now watch percent moves,
+-- moving-average crosses, RSI, volume spikes and position P&L. Alerts stay
+-- active after triggering: is_armed drops until the condition stops
+-- holding, and cooldown_minutes spaces out repeated triggers. triggered_at
+-- now holds the most recent trigger.
+
+ALTER TABLE price_alerts
+  ALTER COLUMN condition TYPE VARCHAR(20),
+  ALTER COLUMN target_price DROP NOT NULL;
+
+ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_condition_check;
+ALTER TABLE price_alerts
+  ADD CONSTRAINT price_alerts_condition_check CHECK (condition IN (
+    'above', 'below', 'percent_change', 'daily_move',
+    'ma_cross', 'rsi', 'volume_spike', 'pnl'
+  ));
+
+ALTER TABLE price_alerts
+  ADD COLUMN IF NOT EXISTS direction VARCHAR(5) CHECK (direction IN ('above', 'below')),
+  ADD COLUMN IF NOT EXISTS threshold NUMERIC(18, 8),
+  ADD COLUMN IF NOT EXISTS period INTEGER,
+  ADD COLUMN IF NOT EXISTS reference_price NUMERIC(18, 8),
+  ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER NOT NULL DEFAULT 1440,
+  ADD COLUMN IF NOT EXISTS is_armed BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS trigger_count INTEGER NOT NULL DEFAULT 0;
+
+-- One-shot alerts that already fired count as one trigger and come back
+-- active but disarmed, so they fire again once the price moves back.
+UPDATE price_alerts
+SET trigger_count = 1, is_armed = false, is_active = true
+WHERE triggered_at IS NOT NULL AND is_active = false;
@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Notifications (in-app notification center)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- One row per event the user should see in the bell and on /alerts:
+-- price-alert triggers, broker sync failures, orders, security events and
+-- report deliveries. Rows are written by API routes and edge functions
+-- (service role); users read, mark read and delete them via /api/notifications.
+
+DO $$ BEGIN
+  CREATE TYPE notification_kind AS ENUM ('price_alert', 'sync_failure', 'order', 'security', 'report');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  kind notification_kind NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  body TEXT,
+  link VARCHAR(300),
+  metadata JSONB,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_date_idx ON notifications(user_id, created_at);
+CREATE INDEX IF NOT EXISTS notifications_unread_idx ON notifications(user_id) WHERE read_at IS NULL;
+
@@ -0,0 +1,70 @@
+-- ============================================================================
+-- Conditional orders (stop-loss, take-profit, trailing stop on IOL)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- Pending rules per position. POST /api/conditional-orders/evaluate checks
+-- prices on a schedule and places the IOL order when a trigger hits; each
+-- firing is written to trade_audit_log. Rows stay around after they fire or
+-- are cancelled so the history is visible in the app.
+--
+-- Kill switches: user_portfolio_settings.conditional_orders_enabled per user,
+-- and CONDITIONAL_ORDERS_DISABLED=true in the app environment for everyone.
+
+DO $$ BEGIN
+  CREATE TYPE conditional_order_type AS ENUM ('stop_loss', 'take_profit', 'trailing_stop');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE conditional_order_status AS ENUM ('active', 'triggered', 'failed', 'cancelled');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS conditional_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  mercado VARCHAR(20) NOT NULL,
+  simbolo VARCHAR(20) NOT NULL,
+  side transaction_type NOT NULL DEFAULT 'sell',
+  type conditional_order_type NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  trigger_price NUMERIC(18, 8),
+  trail_percent NUMERIC(6, 2),
+  extreme_price NUMERIC(18, 8),
+  limit_price NUMERIC(18, 8),
+  plazo VARCHAR(10) NOT NULL DEFAULT 't2',
+  notify_email VARCHAR(255),
+  status conditional_order_status NOT NULL DEFAULT 'active',
+  triggered_at TIMESTAMPTZ,
+  triggered_price NUMERIC(18, 8),
+  numero_operacion VARCHAR(50),
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS conditional_orders_user_idx ON conditional_orders(user_id);
+CREATE INDEX IF NOT EXISTS conditional_orders_status_idx ON conditional_orders(status);
+
+ALTER TABLE user_portfolio_settings
+  ADD COLUMN IF NOT EXISTS conditional_orders_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- ============================================================================
+-- pg_cron schedule: every 5 minutes during market hours (13:00-21:00 UTC)
+-- ============================================================================
+-- The route is authenticated with CRON_SECRET from the app environment.
+--
+-- SELECT cron.schedule(
+--   'evaluate-conditional-orders',
+--   '*/5 13-21 * * 1-5',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://invblock.vercel.app/api/conditional-orders/evaluate',
+--     headers := '{"Authorization": "Bearer <YOUR_CRON_SECRET>"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
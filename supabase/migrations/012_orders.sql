@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Orders (lifecycle of broker orders placed through the app)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- One row per order accepted by the broker, linked to its trade_audit_log
+-- entry. POST /api/orders/poll follows open orders through partial fills to
+-- filled, cancelled or expired; fills notify the user and are written to the
+-- transaction ledger. Modifying an order cancels it and places a new one,
+-- and the two rows point at each other (replaces_order_id /
+-- replaced_by_order_id).
+
+DO $$ BEGIN
+  CREATE TYPE order_status AS ENUM ('pending', 'partial', 'filled', 'cancelled', 'expired');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  provider VARCHAR(20) NOT NULL,
+  external_id VARCHAR(50) NOT NULL,
+  audit_log_id UUID REFERENCES trade_audit_log(id) ON DELETE SET NULL,
+  action transaction_type NOT NULL,
+  mercado VARCHAR(20),
+  simbolo VARCHAR(20) NOT NULL,
+  quantity NUMERIC(18, 8) NOT NULL,
+  price NUMERIC(18, 8) NOT NULL,
+  plazo VARCHAR(10),
+  tipo_orden VARCHAR(30),
+  validez DATE,
+  status order_status NOT NULL DEFAULT 'pending',
+  filled_quantity NUMERIC(18, 8) NOT NULL DEFAULT 0,
+  avg_fill_price NUMERIC(18, 8),
+  replaces_order_id UUID,
+  replaced_by_order_id UUID,
+  conditional_order_id UUID,
+  filled_at TIMESTAMPTZ,
+  last_checked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS orders_user_idx ON orders(user_id);
+CREATE INDEX IF NOT EXISTS orders_status_idx ON orders(status);
+CREATE UNIQUE INDEX IF NOT EXISTS orders_provider_external_idx ON orders(user_id, provider, external_id);
+
+-- ============================================================================
+-- pg_cron schedule: every 2 minutes during market hours (13:00-21:00 UTC)
+-- ============================================================================
+-- Authenticated with CRON_SECRET, like the conditional order evaluator.
+--
+-- SELECT cron.schedule(
+--   'poll-open-orders',
+--   '*/2 13-21 * * 1-5',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://invblock.vercel.app/api/orders/poll',
+--     headers := '{"Authorization": "Bearer <YOUR_CRON_SECRET>"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
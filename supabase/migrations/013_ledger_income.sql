@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Income ledger entries (Binance Simple Earn and staking rewards)
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- Rewards paid in kind are recorded as 'income' transactions. The tax-lot
+-- ledger opens a lot for each one at the asset's price on the day it was
+-- paid; performance cash flows leave them out. Orders and conditional
+-- orders keep using only 'buy' and 'sell'.
+
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'income';
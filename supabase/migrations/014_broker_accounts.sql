@@ -0,0 +1,72 @@
+-- ============================================================================
+-- Multiple accounts per broker
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- Each user_connections row is one broker account: a user can connect two
+-- IOL logins, and a PPI login with several accounts gets one row per
+-- account number (sharing the login's credentials). Assets and ledger rows
+-- point at the account they're held in; manual ones have no account.
+
+-- ============================================================================
+-- 1. Connections
+-- ============================================================================
+
+ALTER TABLE user_connections
+  ADD COLUMN IF NOT EXISTS label VARCHAR(60),
+  ADD COLUMN IF NOT EXISTS account_number VARCHAR(50);
+
+UPDATE user_connections
+SET label = CASE provider
+  WHEN 'iol' THEN 'IOL'
+  WHEN 'ppi' THEN 'PPI'
+  WHEN 'binance' THEN 'Binance'
+  ELSE provider
+END
+WHERE label IS NULL;
+
+ALTER TABLE user_connections ALTER COLUMN label SET NOT NULL;
+
+DROP INDEX IF EXISTS connections_user_provider_idx;
+
+-- NULL account numbers (IOL, Binance) never conflict with each other
+CREATE UNIQUE INDEX IF NOT EXISTS connections_user_provider_account_idx
+  ON user_connections(user_id, provider, account_number);
+
+-- ============================================================================
+-- 2. Account on assets and transactions
+-- ============================================================================
+-- No foreign key: positions and history outlive a disconnect.
+
+ALTER TABLE assets ADD COLUMN IF NOT EXISTS account_id UUID;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS account_id UUID;
+
+CREATE INDEX IF NOT EXISTS assets_account_idx ON assets(account_id);
+CREATE INDEX IF NOT EXISTS txn_account_idx ON transactions(account_id);
+
+-- Until now there was at most one connection per broker: synced history
+-- belongs to it, and so do the assets that history was recorded on
+UPDATE transactions t
+SET account_id = c.id
+FROM user_connections c
+WHERE t.account_id IS NULL
+  AND c.user_id = t.user_id
+  AND c.provider = t.source::text;
+
+UPDATE assets a
+SET account_id = t.account_id
+FROM (
+  SELECT DISTINCT ON (asset_id) asset_id, account_id
+  FROM transactions
+  WHERE account_id IS NOT NULL
+  ORDER BY asset_id, executed_at DESC
+) t
+WHERE a.id = t.asset_id AND a.account_id IS NULL;
+
+-- The same ticker may now be held in several accounts. Manual assets
+-- (NULL account) stay unique per ticker and category.
+DROP INDEX IF EXISTS assets_user_ticker_category_idx;
+
+ALTER TABLE assets
+  ADD CONSTRAINT assets_user_ticker_category_account_key
+  UNIQUE NULLS NOT DISTINCT (user_id, ticker, category, account_id);
@@ -0,0 +1,43 @@
+-- ============================================================================
+-- Broker connection health
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- Each broker account records its last successful and failed call, from
+-- syncs and from POST /api/brokers/health. The scheduled check refreshes
+-- tokens before they lapse (refreshed tokens used to be kept only when a
+-- sync happened to run) and marks accounts whose credentials were revoked
+-- as expired, alerting the user once in-app and by email.
+
+DO $$ BEGIN
+  CREATE TYPE connection_status AS ENUM ('ok', 'error', 'expired');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE user_connections
+  ADD COLUMN IF NOT EXISTS status connection_status NOT NULL DEFAULT 'ok',
+  ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_failure_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT,
+  ADD COLUMN IF NOT EXISTS notify_email VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS reauth_notified_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- pg_cron schedule: every hour
+-- ============================================================================
+-- Authenticated with CRON_SECRET, like the order poller. IOL and PPI
+-- refresh tokens stay valid for hours, so an hourly refresh keeps idle
+-- connections alive.
+--
+-- SELECT cron.schedule(
+--   'broker-connection-health',
+--   '0 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://invblock.vercel.app/api/brokers/health',
+--     headers := '{"Authorization": "Bearer <YOUR_CRON_SECRET>"}'::jsonb,
+--     body := '{}'::jsonb
+--   );
+--   $$
+-- );
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Reconstructed portfolio snapshots
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- POST /api/snapshots/backfill replays a user's transactions day by day and
+-- values the holdings with historical closes and USD/ARS rates, filling the
+-- weekdays before the portfolio-snapshot edge function started. Those rows
+-- are flagged so a rerun can rewrite them without touching real snapshots.
+
+ALTER TABLE portfolio_snapshots
+  ADD COLUMN IF NOT EXISTS reconstructed BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Per-position snapshot history
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- GET /api/snapshots/positions charts one holding over time straight from
+-- portfolio_snapshots.positions, matching snapshots with a containment
+-- filter (positions @> '[{"ticker": "AAPL", "category": "cedear"}]').
+-- jsonb_path_ops keeps the index small and serves exactly that operator.
+
+CREATE INDEX IF NOT EXISTS snapshots_positions_idx
+  ON portfolio_snapshots USING GIN (positions jsonb_path_ops);
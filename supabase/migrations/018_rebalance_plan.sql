@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Rebalancing targets
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- The rebalancing planner stores one plan per user: the grouping targets are
+-- set by (category, ticker or custom bucket), the target weight of each group
+-- and the drift tolerance before a group is traded back to its target.
+-- Shape: { scope, tolerancePercent, targets: [{ key, label?, tickers?, percent }] }
+
+ALTER TABLE user_portfolio_settings
+  ADD COLUMN IF NOT EXISTS rebalance_plan JSONB;
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Account on tracked orders
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- An order is modified, cancelled and polled through the account it was
+-- placed from. No foreign key, like assets and transactions: the order's
+-- history outlives a disconnect.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS account_id UUID;
+
+-- Until now every order went through the user's first account at the broker
+UPDATE orders o
+SET account_id = (
+  SELECT c.id
+  FROM user_connections c
+  WHERE c.user_id = o.user_id AND c.provider = o.provider
+  ORDER BY c.created_at
+  LIMIT 1
+)
+WHERE o.account_id IS NULL;
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Account on conditional orders
+-- ============================================================================
+-- Run this in Supabase SQL Editor
+--
+-- A rule fires through the IOL account holding the position it was set on.
+-- No foreign key, like orders: a fired rule's history outlives a disconnect.
+
+ALTER TABLE conditional_orders ADD COLUMN IF NOT EXISTS account_id UUID;
+
+-- Until now every rule fired through the user's first IOL account
+UPDATE conditional_orders o
+SET account_id = (
+  SELECT c.id
+  FROM user_connections c
+  WHERE c.user_id = o.user_id AND c.provider = 'iol'
+  ORDER BY c.created_at
+  LIMIT 1
+)
+WHERE o.account_id IS NULL;